@@ -26,14 +26,16 @@ import Install from "./pages/Install";
 import Help from "./pages/Help";
 import AllPlaylists from "./pages/AllPlaylists";
 import ResetPassword from "./pages/ResetPassword";
+import Pair from "./pages/Pair";
 import Terms from "./pages/Terms";
 import Privacy from "./pages/Privacy";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
 
-const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
-  const { user, isLoading } = useAuth();
+// accountOnly: pages a paired device (player-only login from /pair) must not reach, e.g. billing
+const ProtectedRoute = ({ children, accountOnly = false }: { children: React.ReactNode; accountOnly?: boolean }) => {
+  const { user, isLoading, isPairedDevice } = useAuth();
 
   if (isLoading) {
     return <AmbianLoadingScreen label="Loading your account…" />;
@@ -43,6 +45,10 @@ const ProtectedRoute = ({ children }: { children: React.ReactNode }) => {
     return <Navigate to="/auth" replace />;
   }
 
+  if (accountOnly && isPairedDevice) {
+    return <Navigate to="/" replace />;
+  }
+
   return <>{children}</>;
 };
 
@@ -83,10 +89,18 @@ const AppRoutes = () => {
           </AuthRoute>
         }
       />
+      <Route
+        path="/pair"
+        element={
+          <AuthRoute>
+            <Pair />
+          </AuthRoute>
+        }
+      />
       <Route
         path="/profile"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute accountOnly>
             <Profile />
           </ProtectedRoute>
         }
@@ -94,7 +108,7 @@ const AppRoutes = () => {
       <Route
         path="/pricing"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute accountOnly>
             <Pricing />
           </ProtectedRoute>
         }
@@ -102,7 +116,7 @@ const AppRoutes = () => {
       <Route
         path="/admin"
         element={
-          <ProtectedRoute>
+          <ProtectedRoute accountOnly>
             <Admin />
           </ProtectedRoute>
         }
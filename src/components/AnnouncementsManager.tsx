@@ -0,0 +1,496 @@
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Loader2, Megaphone, Pencil, Plus, Trash2, Upload, X } from "lucide-react";
+import { formatTimeZone, getDeviceTimeZone, getTimeZoneOptions } from "@/lib/scheduleResolver";
+import { MAX_AUDIO_FILE_SIZE, isMp3File } from "@/lib/audioUpload";
+import {
+  Announcement,
+  AnnouncementPlaybackMode,
+  AnnouncementRule,
+  AnnouncementTrigger,
+  MAX_ANNOUNCEMENT_SECONDS,
+  deleteAnnouncement,
+  deleteAnnouncementRule,
+  fetchAnnouncementRules,
+  fetchAnnouncements,
+  getAudioDurationSeconds,
+  saveAnnouncementRule,
+  uploadAnnouncement,
+} from "@/lib/announcements";
+
+interface AnnouncementsManagerProps {
+  onChange?: () => void; // Called after announcements or rules change, so the player picks them up
+}
+
+const DAY_KEYS = [
+  "schedule.daySun",
+  "schedule.dayMon",
+  "schedule.dayTue",
+  "schedule.dayWed",
+  "schedule.dayThu",
+  "schedule.dayFri",
+  "schedule.daySat",
+];
+
+// Select value for rules without a timezone (evaluated in the playing device's time)
+const DEVICE_TIMEZONE = "device";
+
+const formatSeconds = (seconds: number | null) => {
+  if (seconds === null) return "";
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, "0")}`;
+};
+
+/**
+ * Announcement clips and the rules that play them (Schedule view)
+ */
+const AnnouncementsManager = ({ onChange }: AnnouncementsManagerProps) => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [announcements, setAnnouncements] = useState<Announcement[]>([]);
+  const [rules, setRules] = useState<AnnouncementRule[]>([]);
+  const [isUploading, setIsUploading] = useState(false);
+  const [timeZoneOptions] = useState(getTimeZoneOptions);
+
+  // Rule dialog
+  const [isRuleDialogOpen, setIsRuleDialogOpen] = useState(false);
+  const [editingRuleId, setEditingRuleId] = useState<string | null>(null);
+  const [formAnnouncementId, setFormAnnouncementId] = useState("");
+  const [formTrigger, setFormTrigger] = useState<AnnouncementTrigger>("clock");
+  const [formTimes, setFormTimes] = useState<string[]>(["12:00"]);
+  const [formDays, setFormDays] = useState<number[]>([0, 1, 2, 3, 4, 5, 6]);
+  const [formEveryN, setFormEveryN] = useState(4);
+  const [formMode, setFormMode] = useState<AnnouncementPlaybackMode>("insert");
+  const [formTimezone, setFormTimezone] = useState(getDeviceTimeZone);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [loadedAnnouncements, loadedRules] = await Promise.all([
+        fetchAnnouncements(user.id),
+        fetchAnnouncementRules(user.id),
+      ]);
+      setAnnouncements(loadedAnnouncements);
+      setRules(loadedRules);
+    } catch (error) {
+      console.error("Failed to load announcements:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const handleChanged = async () => {
+    await loadData();
+    onChange?.();
+  };
+
+  const handleFileSelected = async (file: File | undefined) => {
+    if (!user || !file) return;
+
+    if (!isMp3File(file)) {
+      toast({ title: t("common.error"), description: t("announcements.notMp3"), variant: "destructive" });
+      return;
+    }
+    if (file.size > MAX_AUDIO_FILE_SIZE) {
+      toast({ title: t("common.error"), description: t("announcements.tooLarge"), variant: "destructive" });
+      return;
+    }
+
+    setIsUploading(true);
+    try {
+      const duration = await getAudioDurationSeconds(file);
+      if (duration !== null && duration > MAX_ANNOUNCEMENT_SECONDS) {
+        toast({
+          title: t("common.error"),
+          description: t("announcements.tooLong", { seconds: MAX_ANNOUNCEMENT_SECONDS }),
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const name = file.name.replace(/\.[^.]+$/, "");
+      await uploadAnnouncement(user.id, file, name, duration);
+      toast({ title: t("announcements.uploaded") });
+      await handleChanged();
+    } catch (error) {
+      console.error("Failed to upload announcement:", error);
+      toast({ title: t("common.error"), description: t("announcements.uploadFailed"), variant: "destructive" });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleDeleteAnnouncement = async (announcement: Announcement) => {
+    try {
+      await deleteAnnouncement(announcement);
+      await handleChanged();
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openRuleDialog = (announcementId: string, rule?: AnnouncementRule) => {
+    setEditingRuleId(rule?.id ?? null);
+    setFormAnnouncementId(announcementId);
+    setFormTrigger((rule?.trigger_type as AnnouncementTrigger) ?? "clock");
+    setFormTimes(rule && rule.clock_times.length > 0 ? rule.clock_times.map(time => time.slice(0, 5)) : ["12:00"]);
+    setFormDays(rule?.days_of_week ?? [0, 1, 2, 3, 4, 5, 6]);
+    setFormEveryN(rule?.every_n_tracks ?? 4);
+    setFormMode((rule?.playback_mode as AnnouncementPlaybackMode) ?? "insert");
+    setFormTimezone(rule ? rule.timezone || DEVICE_TIMEZONE : getDeviceTimeZone());
+    setIsRuleDialogOpen(true);
+  };
+
+  const toggleDay = (day: number) => {
+    setFormDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort()));
+  };
+
+  const handleSaveRule = async () => {
+    if (!user) return;
+    const times = [...new Set(formTimes.filter(Boolean))].sort();
+    if (formTrigger === "clock" && (times.length === 0 || formDays.length === 0)) {
+      toast({ title: t("common.error"), description: t("announcements.errorTimes"), variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveAnnouncementRule({
+        ...(editingRuleId ? { id: editingRuleId } : {}),
+        user_id: user.id,
+        announcement_id: formAnnouncementId,
+        trigger_type: formTrigger,
+        clock_times: formTrigger === "clock" ? times : [],
+        days_of_week: formDays,
+        every_n_tracks: formTrigger === "every_n_tracks" ? Math.max(1, formEveryN) : null,
+        playback_mode: formMode,
+        timezone: formTimezone === DEVICE_TIMEZONE ? null : formTimezone,
+      });
+      setIsRuleDialogOpen(false);
+      toast({ title: t("announcements.ruleSaved") });
+      await handleChanged();
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggleRule = async (rule: AnnouncementRule, isActive: boolean) => {
+    setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, is_active: isActive } : r)));
+    try {
+      await saveAnnouncementRule({ ...rule, is_active: isActive });
+      onChange?.();
+    } catch (error) {
+      setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, is_active: !isActive } : r)));
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeleteRule = async (ruleId: string) => {
+    try {
+      await deleteAnnouncementRule(ruleId);
+      await handleChanged();
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeRule = (rule: AnnouncementRule) => {
+    const when = rule.trigger_type === "clock"
+      ? `${rule.clock_times.map(time => time.slice(0, 5)).join(", ")} · ${
+          rule.days_of_week.length === 7
+            ? t("schedule.everyDay")
+            : rule.days_of_week.map(day => t(DAY_KEYS[day])).join(", ")
+        }`
+      : t("announcements.everyNSummary", { count: rule.every_n_tracks ?? 0 });
+    const how = rule.playback_mode === "duck" ? t("announcements.modeDuck") : t("announcements.modeInsert");
+    return `${when} · ${how}`;
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <Megaphone className="w-5 h-5 text-primary" />
+            {t("announcements.title")}
+          </h2>
+          <p className="text-sm text-muted-foreground">{t("announcements.desc")}</p>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isUploading}
+          className="shrink-0"
+        >
+          {isUploading ? <Loader2 className="w-4 h-4 mr-1 animate-spin" /> : <Upload className="w-4 h-4 mr-1" />}
+          {isUploading ? t("announcements.uploading") : t("announcements.upload")}
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept="audio/mpeg,.mp3"
+          className="hidden"
+          onChange={(e) => {
+            handleFileSelected(e.target.files?.[0]);
+            e.target.value = "";
+          }}
+        />
+      </div>
+
+      {announcements.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("announcements.noAnnouncements")}</p>
+      ) : (
+        announcements.map(announcement => {
+          const announcementRules = rules.filter(r => r.announcement_id === announcement.id);
+          return (
+            <Card key={announcement.id} className="bg-card/80 border-border">
+              <CardContent className="p-3 sm:p-4 space-y-3">
+                <div className="flex items-center gap-3">
+                  <div className="flex-1 min-w-0">
+                    <p className="font-medium text-foreground truncate">{announcement.name}</p>
+                    <p className="text-xs text-muted-foreground">{formatSeconds(announcement.duration_seconds)}</p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => openRuleDialog(announcement.id)}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    {t("announcements.addRule")}
+                  </Button>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button variant="ghost" size="icon" className="text-muted-foreground hover:text-destructive">
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>{t("announcements.deleteConfirmTitle")}</AlertDialogTitle>
+                        <AlertDialogDescription>{t("announcements.deleteConfirmDesc")}</AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+                        <AlertDialogAction
+                          onClick={() => handleDeleteAnnouncement(announcement)}
+                          className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                        >
+                          {t("common.delete")}
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+
+                {announcementRules.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">{t("announcements.noRules")}</p>
+                ) : (
+                  <div className="space-y-2 border-t border-border pt-3">
+                    {announcementRules.map(rule => (
+                      <div key={rule.id} className={`flex items-center gap-2 ${rule.is_active ? "" : "opacity-50"}`}>
+                        <p className="flex-1 min-w-0 text-sm text-muted-foreground">{describeRule(rule)}</p>
+                        <Switch
+                          checked={rule.is_active}
+                          onCheckedChange={(checked) => handleToggleRule(rule, checked)}
+                        />
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => openRuleDialog(announcement.id, rule)}
+                        >
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                          onClick={() => handleDeleteRule(rule.id)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          );
+        })
+      )}
+
+      <Dialog open={isRuleDialogOpen} onOpenChange={setIsRuleDialogOpen}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingRuleId ? t("announcements.editRule") : t("announcements.addRule")}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>{t("announcements.trigger")}</Label>
+              <Select value={formTrigger} onValueChange={(value) => setFormTrigger(value as AnnouncementTrigger)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="clock">{t("announcements.triggerClock")}</SelectItem>
+                  <SelectItem value="every_n_tracks">{t("announcements.triggerTracks")}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+
+            {formTrigger === "clock" ? (
+              <>
+                <div className="space-y-2">
+                  <Label>{t("announcements.times")}</Label>
+                  {formTimes.map((time, index) => (
+                    <div key={index} className="flex items-center gap-2">
+                      <Input
+                        type="time"
+                        value={time}
+                        onChange={(e) => setFormTimes(prev => prev.map((value, i) => (i === index ? e.target.value : value)))}
+                        className="w-32"
+                      />
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8"
+                        onClick={() => setFormTimes(prev => prev.filter((_, i) => i !== index))}
+                        disabled={formTimes.length === 1}
+                      >
+                        <X className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                  <Button variant="outline" size="sm" onClick={() => setFormTimes(prev => [...prev, ""])}>
+                    <Plus className="w-4 h-4 mr-1" />
+                    {t("announcements.addTime")}
+                  </Button>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>{t("schedule.days")}</Label>
+                  <div className="flex flex-wrap gap-2">
+                    {DAY_KEYS.map((key, day) => (
+                      <Button
+                        key={day}
+                        type="button"
+                        variant={formDays.includes(day) ? "default" : "outline"}
+                        size="sm"
+                        className="w-10"
+                        onClick={() => toggleDay(day)}
+                      >
+                        {t(key)}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>{t("schedule.timezone")}</Label>
+                  <Select value={formTimezone} onValueChange={setFormTimezone}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={DEVICE_TIMEZONE}>{t("schedule.deviceTime")}</SelectItem>
+                      {timeZoneOptions.map(zone => (
+                        <SelectItem key={zone} value={zone}>
+                          {formatTimeZone(zone)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </>
+            ) : (
+              <div className="space-y-2">
+                <Label htmlFor="announcement-every-n">{t("announcements.everyN")}</Label>
+                <div className="flex items-center gap-2">
+                  <Input
+                    id="announcement-every-n"
+                    type="number"
+                    min={1}
+                    max={50}
+                    value={formEveryN}
+                    onChange={(e) => setFormEveryN(Number(e.target.value) || 1)}
+                    className="w-24"
+                  />
+                  <span className="text-sm text-muted-foreground">{t("announcements.tracks")}</span>
+                </div>
+              </div>
+            )}
+
+            <div className="space-y-2">
+              <Label>{t("announcements.mode")}</Label>
+              <Select value={formMode} onValueChange={(value) => setFormMode(value as AnnouncementPlaybackMode)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="insert">{t("announcements.modeInsert")}</SelectItem>
+                  <SelectItem value="duck">{t("announcements.modeDuck")}</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {formMode === "duck" ? t("announcements.modeDuckDesc") : t("announcements.modeInsertDesc")}
+              </p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsRuleDialogOpen(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button onClick={handleSaveRule} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("announcements.saveRule")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AnnouncementsManager;
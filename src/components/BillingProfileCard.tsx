@@ -0,0 +1,213 @@
+import { useState, useEffect } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { AlertTriangle, Building2, CheckCircle2, Loader2, XCircle } from "lucide-react";
+import {
+  BILLING_COUNTRIES,
+  BillingProfile,
+  BillingProfileInput,
+  fetchBillingProfile,
+  saveBillingProfile,
+} from "@/lib/billingProfile";
+
+const EMPTY_FORM: BillingProfileInput = {
+  companyName: "",
+  addressLine1: "",
+  postalCode: "",
+  city: "",
+  country: "",
+  vatId: "",
+  invoiceEmail: "",
+};
+
+const toForm = (profile: BillingProfile): BillingProfileInput => ({
+  companyName: profile.company_name || "",
+  addressLine1: profile.address_line1 || "",
+  postalCode: profile.postal_code || "",
+  city: profile.city || "",
+  country: profile.country || "",
+  vatId: profile.vat_id || "",
+  invoiceEmail: profile.invoice_email || "",
+});
+
+/**
+ * Company name, address, VAT ID and invoice email for invoices and checkouts,
+ * with the VIES result for the VAT ID and whether reverse charge applies
+ */
+const BillingProfileCard = () => {
+  const { user, accountUserId, currentOrganization } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [form, setForm] = useState<BillingProfileInput>(EMPTY_FORM);
+  const [profile, setProfile] = useState<BillingProfile | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!user) return;
+
+    fetchBillingProfile(accountUserId ?? user.id)
+      .then(data => {
+        setProfile(data);
+        if (data) setForm(toForm(data));
+      })
+      .catch(error => console.error("Failed to load billing profile:", error))
+      .finally(() => setIsLoading(false));
+  }, [user, accountUserId]);
+
+  const updateField = (field: keyof BillingProfileInput, value: string) =>
+    setForm(prev => ({ ...prev, [field]: value }));
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      const saved = await saveBillingProfile(form, currentOrganization?.id);
+      setProfile(saved);
+      setForm(toForm(saved));
+      toast({ title: t("billingProfile.saved") });
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  // The status shown belongs to the saved VAT ID, not one being edited
+  const showVatStatus = !!profile?.vat_id && profile.vat_id === form.vatId.trim();
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="w-5 h-5" />
+          {t("billingProfile.title")}
+        </CardTitle>
+        <CardDescription>{t("billingProfile.subtitle")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="space-y-2">
+              <Label htmlFor="billing-company">{t("billing.companyName")}</Label>
+              <Input
+                id="billing-company"
+                value={form.companyName}
+                onChange={(e) => updateField("companyName", e.target.value)}
+                placeholder={t("billing.companyNamePlaceholder")}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="billing-address">{t("billing.streetAddress")}</Label>
+              <Input
+                id="billing-address"
+                value={form.addressLine1}
+                onChange={(e) => updateField("addressLine1", e.target.value)}
+                placeholder={t("billing.streetAddressPlaceholder")}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <div className="space-y-2">
+                <Label htmlFor="billing-postal-code">{t("billing.postalCode")}</Label>
+                <Input
+                  id="billing-postal-code"
+                  value={form.postalCode}
+                  onChange={(e) => updateField("postalCode", e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="billing-city">{t("billing.city")}</Label>
+                <Input
+                  id="billing-city"
+                  value={form.city}
+                  onChange={(e) => updateField("city", e.target.value)}
+                  placeholder={t("billing.cityPlaceholder")}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>{t("billing.country")}</Label>
+              <Select value={form.country} onValueChange={(value) => updateField("country", value)}>
+                <SelectTrigger>
+                  <SelectValue placeholder={t("billingProfile.selectCountry")} />
+                </SelectTrigger>
+                <SelectContent>
+                  {BILLING_COUNTRIES.map(country => (
+                    <SelectItem key={country.code} value={country.code}>
+                      {t(country.labelKey)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="billing-vat-id">{t("billing.vatId")}</Label>
+              <Input
+                id="billing-vat-id"
+                value={form.vatId}
+                onChange={(e) => updateField("vatId", e.target.value.toUpperCase())}
+                placeholder={t("billing.vatIdPlaceholder")}
+              />
+              {showVatStatus && profile.vat_id_status === "valid" && (
+                <p className="flex items-center gap-1.5 text-xs text-green-500">
+                  <CheckCircle2 className="w-3.5 h-3.5" />
+                  {t("billingProfile.vatValid")}
+                </p>
+              )}
+              {showVatStatus && profile.vat_id_status === "unverified" && (
+                <p className="flex items-center gap-1.5 text-xs text-yellow-500">
+                  <AlertTriangle className="w-3.5 h-3.5 shrink-0" />
+                  {t("billingProfile.vatUnverified")}
+                </p>
+              )}
+              {showVatStatus && profile.vat_id_status === "invalid" && (
+                <p className="flex items-center gap-1.5 text-xs text-destructive">
+                  <XCircle className="w-3.5 h-3.5" />
+                  {t("billingProfile.vatInvalid")}
+                </p>
+              )}
+              {!showVatStatus && <p className="text-xs text-muted-foreground">{t("billing.vatIdHint")}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="billing-invoice-email">{t("billingProfile.invoiceEmail")}</Label>
+              <Input
+                id="billing-invoice-email"
+                type="email"
+                value={form.invoiceEmail}
+                onChange={(e) => updateField("invoiceEmail", e.target.value)}
+                placeholder={t("billingProfile.invoiceEmailPlaceholder")}
+              />
+              <p className="text-xs text-muted-foreground">{t("billingProfile.invoiceEmailHint")}</p>
+            </div>
+
+            {profile?.tax_treatment === "reverse_charge" && (
+              <p className="text-sm text-muted-foreground bg-muted/50 p-3 rounded">
+                {t("billingProfile.reverseCharge")}
+              </p>
+            )}
+
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("billingProfile.save")}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BillingProfileCard;
@@ -0,0 +1,149 @@
+import { Heart, Save, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Slider } from "@/components/ui/slider";
+import { useLanguage } from "@/contexts/LanguageContext";
+import {
+  DEFAULT_BLEND_WEIGHT,
+  MAX_BLEND_WEIGHT,
+  MIN_BLEND_WEIGHT,
+  getBlendPercentages,
+} from "@/lib/blends";
+
+interface BlendEditorPlaylist {
+  id: string;
+  name: string;
+  cover_url: string | null;
+}
+
+interface BlendEditorProps {
+  playlists: BlendEditorPlaylist[];
+  weights: Record<string, number>;
+  onWeightChange: (playlistId: string, weight: number) => void;
+  name: string;
+  onNameChange: (name: string) => void;
+  onSave: () => void;
+  onDelete?: () => void; // Set when editing a saved blend
+  isSaving: boolean;
+}
+
+/**
+ * Per-playlist weight sliders and save/delete for a blend (Quick Mix -> Blend weights)
+ */
+const BlendEditor = ({
+  playlists,
+  weights,
+  onWeightChange,
+  name,
+  onNameChange,
+  onSave,
+  onDelete,
+  isSaving,
+}: BlendEditorProps) => {
+  const { t } = useLanguage();
+  const percentages = getBlendPercentages(
+    playlists.map(p => ({ playlistId: p.id, weight: weights[p.id] ?? DEFAULT_BLEND_WEIGHT }))
+  );
+  // Liked Songs isn't a real playlist, so it can be mixed but not saved
+  const hasLikedSongs = playlists.some(p => p.id === "liked-songs");
+
+  return (
+    <div className="space-y-4">
+      <p className="text-sm text-muted-foreground">{t("blend.weightsDesc")}</p>
+
+      <div className="space-y-3">
+        {playlists.map(playlist => (
+          <div key={playlist.id} className="space-y-2">
+            <div className="flex items-center gap-3">
+              {playlist.id === "liked-songs" ? (
+                <div className="w-8 h-8 rounded bg-gradient-to-br from-primary/80 to-primary flex items-center justify-center">
+                  <Heart className="w-4 h-4 text-primary-foreground fill-primary-foreground" />
+                </div>
+              ) : (
+                <img
+                  src={playlist.cover_url || "/placeholder.svg"}
+                  alt={playlist.name}
+                  className="w-8 h-8 rounded object-cover"
+                />
+              )}
+              <p className="flex-1 min-w-0 text-sm font-medium truncate">{playlist.name}</p>
+              <span className="w-10 text-right text-sm text-muted-foreground">{percentages[playlist.id]}%</span>
+            </div>
+            <Slider
+              value={[weights[playlist.id] ?? DEFAULT_BLEND_WEIGHT]}
+              min={MIN_BLEND_WEIGHT}
+              max={MAX_BLEND_WEIGHT}
+              step={5}
+              onValueChange={([value]) => onWeightChange(playlist.id, value)}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2 pt-2 border-t border-border">
+        <Label htmlFor="blend-name">{t("blend.name")}</Label>
+        <div className="flex gap-2">
+          <Input
+            id="blend-name"
+            value={name}
+            onChange={(e) => onNameChange(e.target.value)}
+            placeholder={t("blend.namePlaceholder")}
+          />
+          <Button
+            variant="outline"
+            onClick={onSave}
+            disabled={isSaving || hasLikedSongs || !name.trim()}
+            className="gap-2 flex-shrink-0"
+          >
+            <Save className="w-4 h-4" />
+            {onDelete ? t("blend.update") : t("blend.save")}
+          </Button>
+          {onDelete && (
+            <AlertDialog>
+              <AlertDialogTrigger asChild>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  disabled={isSaving}
+                  className="flex-shrink-0 text-muted-foreground hover:text-destructive"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </AlertDialogTrigger>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>{t("blend.deleteConfirmTitle")}</AlertDialogTitle>
+                  <AlertDialogDescription>{t("blend.deleteConfirmDesc")}</AlertDialogDescription>
+                </AlertDialogHeader>
+                <AlertDialogFooter>
+                  <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+                  <AlertDialogAction
+                    onClick={onDelete}
+                    className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+                  >
+                    {t("common.delete")}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+          )}
+        </div>
+        {hasLikedSongs && <p className="text-xs text-muted-foreground">{t("blend.likedSongsNotSaved")}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default BlendEditor;
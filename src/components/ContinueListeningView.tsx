@@ -5,6 +5,7 @@ import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { getSignedAudioUrl } from "@/lib/storage";
+import { shuffleTracks } from "@/lib/shuffleEngine";
 import type { Track } from "@/data/musicData";
 import type { Tables } from "@/integrations/supabase/types";
 
@@ -239,8 +240,8 @@ const ContinueListeningView = ({
         return;
       }
 
-      // Shuffle the tracks
-      const shuffledTracks = [...uniqueTracks].sort(() => Math.random() - 0.5);
+      // Shuffle with the variety rules (artist separation, no recent repeats)
+      const shuffledTracks = shuffleTracks(uniqueTracks);
 
       // Get signed URL for the first track
       const firstTrack = shuffledTracks[0];
@@ -0,0 +1,81 @@
+import { useState, useEffect } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlayer } from "@/contexts/PlayerContext";
+import { useToast } from "@/hooks/use-toast";
+import { Label } from "@/components/ui/label";
+import { Slider } from "@/components/ui/slider";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CROSSFADE_CURVES, CrossfadeCurve, CrossfadeSettings, MAX_CROSSFADE_DURATION } from "@/lib/crossfade";
+
+/**
+ * Crossfade length and curve (Profile -> Settings, shown while crossfade is on)
+ */
+const CrossfadeOptions = () => {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const { crossfadeSettings, setCrossfadeSettings } = usePlayer();
+  // Local value so the label follows the slider while dragging; saved on release
+  const [duration, setDuration] = useState(crossfadeSettings.duration);
+
+  useEffect(() => {
+    setDuration(crossfadeSettings.duration);
+  }, [crossfadeSettings.duration]);
+
+  const save = async (settings: CrossfadeSettings) => {
+    try {
+      await setCrossfadeSettings(settings);
+    } catch (error) {
+      console.error("Failed to save crossfade settings:", error);
+      toast({
+        title: t("common.error"),
+        description: t("crossfade.saveFailed"),
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <div className="p-3 rounded-lg border border-border bg-muted/30 space-y-4">
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label className="text-sm">{t("crossfade.duration")}</Label>
+          <span className="text-sm text-muted-foreground">
+            {duration === 0 ? t("crossfade.noOverlap") : t("crossfade.seconds", { seconds: duration })}
+          </span>
+        </div>
+        <Slider
+          value={[duration]}
+          min={0}
+          max={MAX_CROSSFADE_DURATION}
+          step={1}
+          onValueChange={([value]) => setDuration(value)}
+          onValueCommit={([value]) => save({ ...crossfadeSettings, duration: value })}
+        />
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <div className="space-y-0.5">
+          <Label className="text-sm">{t("crossfade.curve")}</Label>
+          <p className="text-xs text-muted-foreground">{t(`crossfade.curve.${crossfadeSettings.curve}.desc`)}</p>
+        </div>
+        <Select
+          value={crossfadeSettings.curve}
+          onValueChange={(value) => save({ ...crossfadeSettings, curve: value as CrossfadeCurve })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {CROSSFADE_CURVES.map(curve => (
+              <SelectItem key={curve} value={curve}>
+                {t(`crossfade.curve.${curve}`)}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default CrossfadeOptions;
@@ -5,6 +5,7 @@ import { Smartphone, Monitor, Tablet, X, Loader2, Plus, Play } from "lucide-reac
 import { useState } from "react";
 import { useNavigate } from "react-router-dom";
 import { usePlayer } from "@/contexts/PlayerContext";
+import { parseDeviceInfo } from "@/lib/deviceInfo";
 
 interface ActiveDevice {
   sessionId: string;
@@ -22,51 +23,6 @@ interface DeviceLimitDialogProps {
   onClose: () => void;
 }
 
-const parseDeviceInfo = (userAgent: string, sessionId?: string): { type: "phone" | "tablet" | "desktop"; name: string; browser: string } => {
-  const ua = userAgent.toLowerCase();
-  
-  // Detect device type
-  let type: "phone" | "tablet" | "desktop" = "desktop";
-  if (/mobile|iphone|android.*mobile|windows phone/i.test(ua)) {
-    type = "phone";
-  } else if (/ipad|android(?!.*mobile)|tablet/i.test(ua)) {
-    type = "tablet";
-  }
-
-  // Try to extract meaningful device name
-  let deviceName = "Unknown Device";
-  
-  if (/iphone/i.test(ua)) {
-    deviceName = "iPhone";
-  } else if (/ipad/i.test(ua)) {
-    deviceName = "iPad";
-  } else if (/macintosh|mac os/i.test(ua)) {
-    deviceName = "Mac";
-  } else if (/windows/i.test(ua)) {
-    deviceName = "Windows PC";
-  } else if (/android/i.test(ua)) {
-    deviceName = type === "phone" ? "Android Phone" : "Android Tablet";
-  } else if (/linux/i.test(ua)) {
-    deviceName = "Linux";
-  }
-
-  // Detect browser
-  let browser = "";
-  if (/chrome|crios/i.test(ua) && !/edge|edg/i.test(ua)) {
-    browser = "Chrome";
-  } else if (/safari/i.test(ua) && !/chrome|crios/i.test(ua)) {
-    browser = "Safari";
-  } else if (/firefox|fxios/i.test(ua)) {
-    browser = "Firefox";
-  } else if (/edge|edg/i.test(ua)) {
-    browser = "Edge";
-  }
-
-  const name = browser ? `${deviceName} (${browser})` : deviceName;
-
-  return { type, name, browser };
-};
-
 // Check if two sessions appear to be from the same physical device
 const isSameDevice = (sessionId1: string, sessionId2: string): boolean => {
   // If both use fingerprint-based IDs, compare the fingerprint portion
@@ -0,0 +1,291 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePlayer } from "@/contexts/PlayerContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import SignedImage from "@/components/SignedImage";
+import { AlertTriangle, Loader2, Monitor, Pause, Play, RadioTower, SkipForward, Smartphone, Tablet, Volume2, VolumeX } from "lucide-react";
+import { SILENT_THRESHOLD_MINUTES, getSilentMinutes, parseDeviceInfo } from "@/lib/deviceInfo";
+import { DeviceCommandType, DeviceCommandPayload, DeviceStatus, sendDeviceCommand } from "@/lib/deviceCommands";
+
+interface DeviceSession {
+  session_id: string;
+  device_info: string | null;
+  is_playing: boolean;
+  last_playing_at: string | null;
+  last_error: string | null;
+  last_error_at: string | null;
+  created_at: string;
+  updated_at: string;
+  tracks: { title: string; artist: string } | null;
+}
+
+interface Playlist {
+  id: string;
+  name: string;
+}
+
+// Devices are asked for their status on this interval; no answer within STATUS_STALE_MS = unreachable
+const STATUS_POLL_INTERVAL_MS = 15 * 1000;
+const STATUS_STALE_MS = 45 * 1000;
+
+const DeviceIcon = ({ type }: { type: "phone" | "tablet" | "desktop" }) => {
+  switch (type) {
+    case "phone":
+      return <Smartphone className="w-4 h-4" />;
+    case "tablet":
+      return <Tablet className="w-4 h-4" />;
+    default:
+      return <Monitor className="w-4 h-4" />;
+  }
+};
+
+/**
+ * Now-playing and remote controls (play/pause, skip, volume, playlist) for every device in the organization
+ */
+const DeviceRemoteCard = () => {
+  const { user, accountUserId, currentOrganization, getDeviceId } = useAuth();
+  const { currentTrack, currentPlaylistId, isPlaying, volume, onDeviceStatus, requestDeviceStatuses } = usePlayer();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [statuses, setStatuses] = useState<Record<string, DeviceStatus>>({});
+  const [isLoading, setIsLoading] = useState(true);
+  const [, setNow] = useState(Date.now());
+
+  const currentSessionId = getDeviceId();
+
+  const loadData = useCallback(async () => {
+    if (!user) return;
+
+    // Every device in the organization, whoever is signed in on it
+    const sessionsQuery = supabase
+      .from("active_sessions")
+      .select("session_id, device_info, is_playing, last_playing_at, last_error, last_error_at, created_at, updated_at, tracks:current_track_id(title, artist)")
+      .order("created_at");
+
+    const [sessionsResult, playlistsResult] = await Promise.all([
+      currentOrganization
+        ? sessionsQuery.eq("organization_id", currentOrganization.id)
+        : sessionsQuery.eq("user_id", user.id),
+      supabase
+        .from("playlists")
+        .select("id, name")
+        .or(`user_id.eq.${accountUserId ?? user.id},is_system.eq.true,is_public.eq.true`)
+        .order("name"),
+    ]);
+
+    if (sessionsResult.error) {
+      console.error("Failed to load device sessions:", sessionsResult.error);
+    } else {
+      setSessions(sessionsResult.data || []);
+    }
+    setPlaylists(playlistsResult.data || []);
+    setIsLoading(false);
+  }, [user, accountUserId, currentOrganization]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  // Collect status broadcasts from other devices and keep asking while the panel is open
+  useEffect(() => {
+    const unsubscribe = onDeviceStatus((status) => {
+      setStatuses(prev => ({ ...prev, [status.sessionId]: { ...status, sentAt: Date.now() } }));
+    });
+
+    requestDeviceStatuses();
+    const interval = setInterval(() => {
+      requestDeviceStatuses();
+      setNow(Date.now()); // Re-render so unreachable devices are shown as such
+    }, STATUS_POLL_INTERVAL_MS);
+
+    return () => {
+      unsubscribe();
+      clearInterval(interval);
+    };
+  }, [onDeviceStatus, requestDeviceStatuses]);
+
+  const getStatus = (sessionId: string): DeviceStatus | null => {
+    // This device reports straight from the player
+    if (sessionId === currentSessionId) {
+      return {
+        sessionId,
+        track: currentTrack
+          ? { id: currentTrack.id, title: currentTrack.title, artist: currentTrack.artist, cover: currentTrack.cover }
+          : null,
+        playlistId: currentPlaylistId,
+        isPlaying,
+        volume,
+        sentAt: Date.now(),
+      };
+    }
+
+    const status = statuses[sessionId];
+    if (!status || Date.now() - status.sentAt > STATUS_STALE_MS) return null;
+    return status;
+  };
+
+  const formatSilentFor = (minutes: number) => {
+    const duration = minutes < 60
+      ? t("remote.minutes").replace("{count}", String(minutes))
+      : t("remote.hours").replace("{count}", String(Math.floor(minutes / 60)));
+    return t("remote.silentFor").replace("{duration}", duration);
+  };
+
+  const sendCommand = async (sessionId: string, command: DeviceCommandType, payload?: DeviceCommandPayload) => {
+    if (!user) return;
+
+    const { error } = await sendDeviceCommand(user.id, currentOrganization?.id ?? null, currentSessionId, sessionId, command, payload);
+    if (error) {
+      toast({ title: t("remote.commandFailed"), description: error.message, variant: "destructive" });
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <RadioTower className="w-5 h-5" />
+          {t("remote.title")}
+        </CardTitle>
+        <CardDescription>{t("remote.subtitle")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : sessions.length === 0 ? (
+          <p className="text-sm text-muted-foreground">{t("zones.noDevices")}</p>
+        ) : (
+          sessions.map(session => {
+            const { type, name } = parseDeviceInfo(session.device_info || "", session.session_id);
+            const isCurrent = session.session_id === currentSessionId;
+            const status = getStatus(session.session_id);
+            // Live status wins; otherwise fall back to the last heartbeat stored on the session
+            const silentMinutes = status?.isPlaying ? 0 : getSilentMinutes(session);
+
+            return (
+              <div key={session.session_id} className="p-3 rounded-lg border border-border bg-muted/30 space-y-3">
+                <div className="flex items-center gap-2 min-w-0">
+                  <span className="text-muted-foreground"><DeviceIcon type={type} /></span>
+                  <span className="text-sm font-medium text-foreground truncate">{name}</span>
+                  {isCurrent && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-primary/20 text-primary font-medium shrink-0">
+                      {t("zones.thisDevice")}
+                    </span>
+                  )}
+                  {silentMinutes >= SILENT_THRESHOLD_MINUTES && (
+                    <span className="text-xs px-2 py-0.5 rounded-full bg-destructive/20 text-destructive font-medium shrink-0 flex items-center gap-1">
+                      <VolumeX className="w-3 h-3" />
+                      {formatSilentFor(silentMinutes)}
+                    </span>
+                  )}
+                </div>
+
+                {session.last_error && (
+                  <p className="text-xs text-muted-foreground flex items-center gap-1">
+                    <AlertTriangle className="w-3 h-3 text-destructive shrink-0" />
+                    <span className="truncate">
+                      {session.last_error}
+                      {session.last_error_at && ` · ${new Date(session.last_error_at).toLocaleString(navigator.language)}`}
+                    </span>
+                  </p>
+                )}
+
+                {!status ? (
+                  <p className="text-xs text-muted-foreground">
+                    {t("remote.unreachable")}
+                    {session.tracks && ` · ${t("remote.lastReported")
+                      .replace("{track}", `${session.tracks.title} – ${session.tracks.artist}`)
+                      .replace("{time}", new Date(session.updated_at).toLocaleTimeString(navigator.language, { hour: "numeric", minute: "2-digit" }))}`}
+                  </p>
+                ) : (
+                  <>
+                    {/* Now playing */}
+                    <div className="flex items-center gap-3">
+                      {status.track ? (
+                        <>
+                          <SignedImage
+                            src={status.track.cover}
+                            alt={status.track.title}
+                            className="w-10 h-10 rounded object-cover shrink-0"
+                          />
+                          <div className="min-w-0 flex-1">
+                            <div className="text-sm text-foreground truncate">{status.track.title}</div>
+                            <div className="text-xs text-muted-foreground truncate">
+                              {status.track.artist} · {status.isPlaying ? t("remote.playing") : t("remote.paused")}
+                            </div>
+                          </div>
+                        </>
+                      ) : (
+                        <p className="text-xs text-muted-foreground flex-1">{t("remote.nothingPlaying")}</p>
+                      )}
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={!status.track}
+                          onClick={() => sendCommand(session.session_id, status.isPlaying ? "pause" : "play")}
+                        >
+                          {status.isPlaying ? <Pause className="w-4 h-4" /> : <Play className="w-4 h-4" />}
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          disabled={!status.track}
+                          onClick={() => sendCommand(session.session_id, "next")}
+                        >
+                          <SkipForward className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+
+                    {/* Volume and playlist */}
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-3">
+                      <div className="flex items-center gap-2 flex-1">
+                        <Volume2 className="w-4 h-4 text-muted-foreground shrink-0" />
+                        <Slider
+                          key={`${session.session_id}-${status.volume}`}
+                          defaultValue={[status.volume]}
+                          onValueCommit={(value) => sendCommand(session.session_id, "volume", { volume: value[0] })}
+                          max={100}
+                          step={1}
+                          className="cursor-pointer"
+                        />
+                      </div>
+                      <Select
+                        value={status.playlistId && playlists.some(p => p.id === status.playlistId) ? status.playlistId : undefined}
+                        onValueChange={(playlistId) => sendCommand(session.session_id, "playlist", { playlistId })}
+                      >
+                        <SelectTrigger className="w-full sm:w-48">
+                          <SelectValue placeholder={t("remote.choosePlaylist")} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {playlists.map(playlist => (
+                            <SelectItem key={playlist.id} value={playlist.id}>
+                              {playlist.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </>
+                )}
+              </div>
+            );
+          })
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DeviceRemoteCard;
@@ -0,0 +1,348 @@
+import { useState, useEffect, useCallback } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { Globe, Loader2, MapPin, Monitor, Pencil, Plus, Smartphone, Tablet, Trash2 } from "lucide-react";
+import { parseDeviceInfo } from "@/lib/deviceInfo";
+import { formatTimeZone, getTimeZoneOptions } from "@/lib/scheduleResolver";
+
+interface Location {
+  id: string;
+  name: string;
+  timezone: string | null;
+}
+
+interface DeviceSession {
+  session_id: string;
+  device_info: string | null;
+  location_id: string | null;
+  updated_at: string;
+}
+
+// Select values for "no zone" / "no default timezone"
+const NO_ZONE = "none";
+const NO_TIMEZONE = "device";
+
+const DeviceIcon = ({ type }: { type: "phone" | "tablet" | "desktop" }) => {
+  switch (type) {
+    case "phone":
+      return <Smartphone className="w-4 h-4" />;
+    case "tablet":
+      return <Tablet className="w-4 h-4" />;
+    default:
+      return <Monitor className="w-4 h-4" />;
+  }
+};
+
+/**
+ * Zones (locations) for the account and which zone each active device plays in.
+ * Zone-specific schedules only apply to devices assigned to that zone.
+ * In an organization this covers every member's devices.
+ */
+const DeviceZonesCard = () => {
+  const { user, accountUserId, currentOrganization, getDeviceId } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [sessions, setSessions] = useState<DeviceSession[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingLocation, setEditingLocation] = useState<Location | null>(null);
+  const [locationToDelete, setLocationToDelete] = useState<Location | null>(null);
+  const [formName, setFormName] = useState("");
+  const [formTimezone, setFormTimezone] = useState(NO_TIMEZONE);
+  const [isSaving, setIsSaving] = useState(false);
+  const [timeZoneOptions] = useState(getTimeZoneOptions);
+
+  const currentSessionId = getDeviceId();
+
+  const loadData = useCallback(async () => {
+    if (!user || !accountUserId) return;
+
+    const sessionsQuery = supabase
+      .from("active_sessions")
+      .select("session_id, device_info, location_id, updated_at")
+      .order("created_at");
+
+    const [locationsResult, sessionsResult] = await Promise.all([
+      supabase.from("locations").select("id, name, timezone").eq("user_id", accountUserId).order("name"),
+      currentOrganization
+        ? sessionsQuery.eq("organization_id", currentOrganization.id)
+        : sessionsQuery.eq("user_id", user.id),
+    ]);
+
+    if (locationsResult.error) {
+      console.error("Failed to load zones:", locationsResult.error);
+    } else {
+      setLocations(locationsResult.data || []);
+    }
+
+    if (sessionsResult.error) {
+      console.error("Failed to load device sessions:", sessionsResult.error);
+    } else {
+      setSessions(sessionsResult.data || []);
+    }
+
+    setIsLoading(false);
+  }, [user, accountUserId, currentOrganization]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const openCreateDialog = () => {
+    setEditingLocation(null);
+    setFormName("");
+    setFormTimezone(NO_TIMEZONE);
+    setIsDialogOpen(true);
+  };
+
+  const openEditDialog = (location: Location) => {
+    setEditingLocation(location);
+    setFormName(location.name);
+    setFormTimezone(location.timezone || NO_TIMEZONE);
+    setIsDialogOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!accountUserId || !formName.trim()) return;
+    setIsSaving(true);
+
+    const locationData = {
+      user_id: accountUserId,
+      name: formName.trim(),
+      timezone: formTimezone === NO_TIMEZONE ? null : formTimezone,
+    };
+
+    const { error } = editingLocation
+      ? await supabase.from("locations").update(locationData).eq("id", editingLocation.id)
+      : await supabase.from("locations").insert(locationData);
+
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: t("zones.errorSaving"), description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: t("zones.saved") });
+      setIsDialogOpen(false);
+      loadData();
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!locationToDelete) return;
+
+    const { error } = await supabase.from("locations").delete().eq("id", locationToDelete.id);
+
+    if (error) {
+      toast({ title: t("common.error"), description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: t("zones.deleted") });
+      loadData();
+    }
+    setLocationToDelete(null);
+  };
+
+  const handleAssign = async (sessionId: string, value: string) => {
+    if (!user) return;
+    const locationId = value === NO_ZONE ? null : value;
+
+    const query = supabase
+      .from("active_sessions")
+      .update({ location_id: locationId })
+      .eq("session_id", sessionId);
+    const { error } = currentOrganization
+      ? await query.eq("organization_id", currentOrganization.id)
+      : await query.eq("user_id", user.id);
+
+    if (error) {
+      toast({ title: t("common.error"), description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: t("zones.deviceAssigned") });
+      setSessions(prev => prev.map(s => (s.session_id === sessionId ? { ...s, location_id: locationId } : s)));
+    }
+  };
+
+  return (
+    <>
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="w-5 h-5" />
+            {t("zones.title")}
+          </CardTitle>
+          <CardDescription>{t("zones.subtitle")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              {/* Zones */}
+              <div className="space-y-2">
+                {locations.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t("zones.noZones")}</p>
+                ) : (
+                  locations.map(location => (
+                    <div key={location.id} className="p-3 rounded-lg border border-border bg-muted/30 flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="font-medium text-foreground text-sm truncate">{location.name}</div>
+                        {location.timezone && (
+                          <div className="text-xs text-muted-foreground flex items-center gap-1">
+                            <Globe className="w-3 h-3" />
+                            {formatTimeZone(location.timezone)}
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex items-center gap-1 shrink-0">
+                        <Button variant="ghost" size="icon" onClick={() => openEditDialog(location)}>
+                          <Pencil className="w-4 h-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-muted-foreground hover:text-destructive"
+                          onClick={() => setLocationToDelete(location)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  ))
+                )}
+                <Button variant="outline" size="sm" onClick={openCreateDialog}>
+                  <Plus className="w-4 h-4 mr-1" />
+                  {t("zones.add")}
+                </Button>
+              </div>
+
+              {/* Device assignment */}
+              <div className="space-y-2 pt-2 border-t border-border">
+                <p className="text-sm font-medium text-foreground">{t("zones.devices")}</p>
+                {sessions.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t("zones.noDevices")}</p>
+                ) : (
+                  sessions.map(session => {
+                    const { type, name } = parseDeviceInfo(session.device_info || "", session.session_id);
+                    const isCurrent = session.session_id === currentSessionId;
+                    return (
+                      <div key={session.session_id} className="flex flex-col sm:flex-row sm:items-center gap-2 sm:gap-3">
+                        <div className="flex items-center gap-2 flex-1 min-w-0">
+                          <span className="text-muted-foreground"><DeviceIcon type={type} /></span>
+                          <span className="text-sm text-foreground truncate">{name}</span>
+                          {isCurrent && (
+                            <span className="text-xs px-2 py-0.5 rounded-full bg-primary/20 text-primary font-medium shrink-0">
+                              {t("zones.thisDevice")}
+                            </span>
+                          )}
+                        </div>
+                        <Select
+                          value={session.location_id || NO_ZONE}
+                          onValueChange={(value) => handleAssign(session.session_id, value)}
+                          disabled={locations.length === 0}
+                        >
+                          <SelectTrigger className="w-full sm:w-48">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value={NO_ZONE}>{t("zones.noZone")}</SelectItem>
+                            {locations.map(location => (
+                              <SelectItem key={location.id} value={location.id}>
+                                {location.name}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    );
+                  })
+                )}
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Create/Edit Zone Dialog */}
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingLocation ? t("zones.edit") : t("zones.add")}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label>{t("zones.name")} *</Label>
+              <Input
+                value={formName}
+                onChange={(e) => setFormName(e.target.value)}
+                placeholder={t("zones.namePlaceholder")}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("schedule.timezone")}</Label>
+              <Select value={formTimezone} onValueChange={setFormTimezone}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_TIMEZONE}>{t("schedule.deviceTime")}</SelectItem>
+                  {timeZoneOptions.map(zone => (
+                    <SelectItem key={zone} value={zone}>
+                      {formatTimeZone(zone)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{t("zones.timezoneDesc")}</p>
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving || !formName.trim()}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("common.save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Zone Confirmation */}
+      <AlertDialog open={!!locationToDelete} onOpenChange={(open) => !open && setLocationToDelete(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("zones.confirmDeleteTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("zones.confirmDeleteDesc").replace("{zone}", locationToDelete?.name || "")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleDelete}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t("common.delete")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default DeviceZonesCard;
@@ -0,0 +1,100 @@
+import { Plus, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { EnergyCurvePoint, getTargetEnergy } from "@/lib/energyCurve";
+
+interface EnergyCurveEditorProps {
+  points: EnergyCurvePoint[];
+  onChange: (points: EnergyCurvePoint[]) => void;
+}
+
+const PREVIEW_WIDTH = 240;
+const PREVIEW_HEIGHT = 48;
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, "0")}:00`;
+
+/**
+ * Energy points over the day for a dynamic schedule, with a 24h preview of the interpolated curve
+ */
+const EnergyCurveEditor = ({ points, onChange }: EnergyCurveEditorProps) => {
+  const { t } = useLanguage();
+
+  const getEnergyLabel = (energy: number) => {
+    if (energy < 0.34) return t("energy.calm");
+    if (energy < 0.67) return t("energy.balanced");
+    return t("energy.upbeat");
+  };
+
+  const updatePoint = (index: number, changes: Partial<EnergyCurvePoint>) => {
+    onChange(points.map((point, i) => (i === index ? { ...point, ...changes } : point)));
+  };
+
+  const addPoint = () => {
+    const last = points[points.length - 1];
+    const nextHour = last ? (Number(last.time.slice(0, 2)) + 2) % 24 : 12;
+    onChange([...points, { time: formatHour(nextHour), energy: last?.energy ?? 0.5 }]);
+  };
+
+  const sorted = points.filter(p => p.time).sort((a, b) => a.time.localeCompare(b.time));
+  const preview = Array.from({ length: 25 }, (_, hour) => {
+    const energy = sorted.length > 0 ? getTargetEnergy(sorted, formatHour(hour % 24)) : 0.5;
+    return `${(hour / 24) * PREVIEW_WIDTH},${PREVIEW_HEIGHT - energy * PREVIEW_HEIGHT}`;
+  });
+
+  return (
+    <div className="space-y-3 p-3 rounded-lg border border-border bg-muted/30">
+      <svg
+        viewBox={`0 0 ${PREVIEW_WIDTH} ${PREVIEW_HEIGHT}`}
+        className="w-full h-12 text-primary"
+        preserveAspectRatio="none"
+      >
+        <polyline points={preview.join(" ")} fill="none" stroke="currentColor" strokeWidth={2} />
+      </svg>
+      <div className="flex justify-between text-[10px] text-muted-foreground -mt-2">
+        <span>00:00</span>
+        <span>12:00</span>
+        <span>24:00</span>
+      </div>
+
+      {points.map((point, index) => (
+        <div key={index} className="flex items-center gap-3">
+          <Input
+            type="time"
+            value={point.time}
+            onChange={(e) => updatePoint(index, { time: e.target.value })}
+            className="w-28"
+          />
+          <div className="flex-1 space-y-1">
+            <Slider
+              value={[Math.round(point.energy * 100)]}
+              min={0}
+              max={100}
+              step={5}
+              onValueChange={([value]) => updatePoint(index, { energy: value / 100 })}
+            />
+            <p className="text-xs text-muted-foreground">{getEnergyLabel(point.energy)}</p>
+          </div>
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-8 w-8"
+            onClick={() => onChange(points.filter((_, i) => i !== index))}
+            disabled={points.length === 1}
+          >
+            <X className="w-4 h-4" />
+          </Button>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={addPoint} className="gap-2">
+        <Plus className="w-4 h-4" />
+        {t("energy.addPoint")}
+      </Button>
+      <p className="text-xs text-muted-foreground">{t("energy.unanalyzedNote")}</p>
+    </div>
+  );
+};
+
+export default EnergyCurveEditor;
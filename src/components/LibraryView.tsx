@@ -7,6 +7,7 @@ import { cn } from "@/lib/utils";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { getSignedAudioUrl } from "@/lib/storage";
+import { shuffleTracks } from "@/lib/shuffleEngine";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useLikedSongs } from "@/contexts/LikedSongsContext";
 import { toast } from "sonner";
@@ -208,12 +209,8 @@ const LibraryView = ({ currentTrack, isPlaying, onTrackSelect, onPlaylistSelect,
         return;
       }
 
-      // Fisher-Yates shuffle for proper random distribution
-      const shuffledTracks = [...uniqueTracks];
-      for (let i = shuffledTracks.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [shuffledTracks[i], shuffledTracks[j]] = [shuffledTracks[j], shuffledTracks[i]];
-      }
+      // Shuffle with the variety rules (artist separation, no recent repeats)
+      const shuffledTracks = shuffleTracks(uniqueTracks);
 
       const firstTrack = shuffledTracks[0];
       const { data: trackData } = await supabase
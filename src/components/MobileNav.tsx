@@ -18,7 +18,7 @@ interface MobileNavProps {
 }
 
 const MobileNav = ({ activeView, onViewChange }: MobileNavProps) => {
-  const { user, isAdmin, signOut } = useAuth();
+  const { user, isAdmin, signOut, isPairedDevice } = useAuth();
   const { t } = useLanguage();
   const navigate = useNavigate();
   const location = useLocation();
@@ -103,16 +103,18 @@ const MobileNav = ({ activeView, onViewChange }: MobileNavProps) => {
         })}
         
         {/* Profile */}
-        <button
-          className={cn(
-            "flex flex-col items-center justify-center gap-1 flex-1 h-full transition-colors min-w-0",
-            isOnProfilePage ? "text-foreground" : "text-muted-foreground"
-          )}
-          onClick={handleProfileClick}
-        >
-          <User className={cn("w-6 h-6", isOnProfilePage && "text-primary")} />
-          <span className="text-[10px] font-medium truncate">{t("nav.profile")}</span>
-        </button>
+        {!isPairedDevice && (
+          <button
+            className={cn(
+              "flex flex-col items-center justify-center gap-1 flex-1 h-full transition-colors min-w-0",
+              isOnProfilePage ? "text-foreground" : "text-muted-foreground"
+            )}
+            onClick={handleProfileClick}
+          >
+            <User className={cn("w-6 h-6", isOnProfilePage && "text-primary")} />
+            <span className="text-[10px] font-medium truncate">{t("nav.profile")}</span>
+          </button>
+        )}
 
         {/* More dropdown */}
         <DropdownMenu>
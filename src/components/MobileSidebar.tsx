@@ -50,7 +50,7 @@ interface MobileSidebarProps {
 }
 
 const MobileSidebar = ({ activeView, onViewChange, onPlaylistSelect, schedulerEnabled = true, onToggleScheduler }: MobileSidebarProps) => {
-  const { user, isAdmin, signOut, subscription } = useAuth();
+  const { user, isAdmin, signOut, subscription, isPairedDevice } = useAuth();
   const { t } = useLanguage();
   const { likedCount } = useLikedSongs();
   const navigate = useNavigate();
@@ -273,24 +273,26 @@ const MobileSidebar = ({ activeView, onViewChange, onPlaylistSelect, schedulerEn
                     )}
                   </div>
                 ))}
-                <Button
-                  variant="ghost"
-                  className={cn(
-                    "justify-start gap-4 h-12 text-base font-medium",
-                    location.pathname === "/profile"
-                      ? "bg-secondary text-foreground"
-                      : "text-muted-foreground hover:text-foreground"
-                  )}
-                  onClick={() => { navigate("/profile"); setOpen(false); }}
-                >
-                  <User className="w-5 h-5" />
-                  <span className="flex items-center gap-2">
-                    {t("nav.profile")}
-                    {subscription.isPendingPayment && (
-                      <AlertCircle className="w-4 h-4 text-yellow-500" />
+                {!isPairedDevice && (
+                  <Button
+                    variant="ghost"
+                    className={cn(
+                      "justify-start gap-4 h-12 text-base font-medium",
+                      location.pathname === "/profile"
+                        ? "bg-secondary text-foreground"
+                        : "text-muted-foreground hover:text-foreground"
                     )}
-                  </span>
-                </Button>
+                    onClick={() => { navigate("/profile"); setOpen(false); }}
+                  >
+                    <User className="w-5 h-5" />
+                    <span className="flex items-center gap-2">
+                      {t("nav.profile")}
+                      {subscription.isPendingPayment && (
+                        <AlertCircle className="w-4 h-4 text-yellow-500" />
+                      )}
+                    </span>
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   className={cn(
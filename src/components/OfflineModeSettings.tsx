@@ -0,0 +1,146 @@
+import { useState, useEffect, useCallback } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Loader2, Trash2 } from "lucide-react";
+import {
+  OFFLINE_CACHE_CHANGED_EVENT,
+  OFFLINE_QUOTA_OPTIONS_MB,
+  OfflineCacheStatus,
+  clearOfflineCache,
+  getOfflineCacheStatus,
+  getOfflineQuotaMb,
+  isOfflineModeEnabled,
+  setOfflineModeEnabled,
+  setOfflineQuotaMb,
+} from "@/lib/offlineCache";
+
+const formatSize = (bytes: number) => {
+  const megabytes = bytes / (1024 * 1024);
+  return megabytes >= 1000 ? `${(megabytes / 1024).toFixed(1)} GB` : `${Math.round(megabytes)} MB`;
+};
+
+/**
+ * Offline mode toggle, storage limit and download status (Profile -> Settings)
+ */
+const OfflineModeSettings = () => {
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [isEnabled, setIsEnabled] = useState(isOfflineModeEnabled);
+  const [quotaMb, setQuotaMb] = useState(getOfflineQuotaMb);
+  const [status, setStatus] = useState<OfflineCacheStatus | null>(null);
+  const [isClearing, setIsClearing] = useState(false);
+
+  const refreshStatus = useCallback(async () => {
+    setStatus(await getOfflineCacheStatus());
+  }, []);
+
+  useEffect(() => {
+    refreshStatus();
+    window.addEventListener(OFFLINE_CACHE_CHANGED_EVENT, refreshStatus);
+    return () => window.removeEventListener(OFFLINE_CACHE_CHANGED_EVENT, refreshStatus);
+  }, [refreshStatus]);
+
+  const handleToggle = (checked: boolean) => {
+    setIsEnabled(checked);
+    setOfflineModeEnabled(checked);
+    toast({ title: checked ? t("offlineMode.enabled") : t("offlineMode.disabled") });
+  };
+
+  const handleQuotaChange = (value: string) => {
+    setQuotaMb(Number(value));
+    setOfflineQuotaMb(Number(value));
+  };
+
+  const handleClear = async () => {
+    setIsClearing(true);
+    await clearOfflineCache();
+    setIsClearing(false);
+    toast({ title: t("offlineMode.cleared") });
+  };
+
+  const sync = status?.sync;
+  const usedPercent = status && status.quotaBytes > 0 ? Math.min(100, (status.usedBytes / status.quotaBytes) * 100) : 0;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="space-y-0.5">
+          <Label htmlFor="offline-mode-toggle" className="text-base">{t("offlineMode.enable")}</Label>
+          <p className="text-sm text-muted-foreground">{t("offlineMode.enableDesc")}</p>
+        </div>
+        <Switch id="offline-mode-toggle" checked={isEnabled} onCheckedChange={handleToggle} />
+      </div>
+
+      {(isEnabled || (status?.trackCount ?? 0) > 0) && (
+        <div className="p-3 rounded-lg border border-border bg-muted/30 space-y-3">
+          <div className="flex items-center justify-between gap-3">
+            <Label className="text-sm">{t("offlineMode.storageLimit")}</Label>
+            <Select value={String(quotaMb)} onValueChange={handleQuotaChange}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {OFFLINE_QUOTA_OPTIONS_MB.map(option => (
+                  <SelectItem key={option} value={String(option)}>
+                    {formatSize(option * 1024 * 1024)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {status && (
+            <div className="space-y-1">
+              <Progress value={usedPercent} className="h-2" />
+              <p className="text-xs text-muted-foreground">
+                {t("offlineMode.usage")
+                  .replace("{count}", String(status.trackCount))
+                  .replace("{used}", formatSize(status.usedBytes))
+                  .replace("{quota}", formatSize(status.quotaBytes))}
+              </p>
+            </div>
+          )}
+
+          {sync && (
+            <p className="text-xs text-muted-foreground flex items-center gap-1">
+              {sync.isSyncing ? (
+                <>
+                  <Loader2 className="w-3 h-3 animate-spin" />
+                  {t("offlineMode.downloading").replace("{done}", String(sync.done)).replace("{total}", String(sync.total))}
+                </>
+              ) : sync.error ? (
+                <span className="text-destructive">{t("offlineMode.syncFailed")}: {sync.error}</span>
+              ) : sync.quotaReached ? (
+                <span className="text-destructive">{t("offlineMode.quotaReached")}</span>
+              ) : sync.lastSyncedAt ? (
+                t("offlineMode.upToDate").replace(
+                  "{time}",
+                  new Date(sync.lastSyncedAt).toLocaleTimeString(navigator.language, { hour: "numeric", minute: "2-digit" })
+                )
+              ) : isEnabled ? (
+                t("offlineMode.waiting")
+              ) : null}
+            </p>
+          )}
+
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={handleClear}
+            disabled={isClearing || !status || status.trackCount === 0}
+          >
+            {isClearing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Trash2 className="w-4 h-4 mr-2" />}
+            {t("offlineMode.clear")}
+          </Button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default OfflineModeSettings;
@@ -0,0 +1,290 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Loader2, Pencil, Plus, Store, Trash2 } from "lucide-react";
+import { formatTimeZone, getDeviceTimeZone, getTimeZoneOptions } from "@/lib/scheduleResolver";
+import { OpeningHours, deleteOpeningHours, fetchOpeningHours, saveOpeningHours } from "@/lib/openingHours";
+
+interface OpeningHoursManagerProps {
+  locations: { id: string; name: string; timezone: string | null }[];
+  onChange?: () => void; // Called after hours change, so the scheduler picks them up
+}
+
+const DAY_KEYS = [
+  "schedule.daySun",
+  "schedule.dayMon",
+  "schedule.dayTue",
+  "schedule.dayWed",
+  "schedule.dayThu",
+  "schedule.dayFri",
+  "schedule.daySat",
+];
+
+// Select value for hours without a timezone (evaluated in the playing device's time)
+const DEVICE_TIMEZONE = "device";
+// Select value for the account's own hours (zones without hours of their own use these)
+const ACCOUNT = "account";
+
+/**
+ * Business opening hours, for the account or per zone (Schedule view).
+ * With the scheduler on, music fades out at closing time and starts again at opening time.
+ */
+const OpeningHoursManager = ({ locations, onChange }: OpeningHoursManagerProps) => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [hours, setHours] = useState<OpeningHours[]>([]);
+  const [timeZoneOptions] = useState(getTimeZoneOptions);
+
+  // Hours dialog
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [formDays, setFormDays] = useState<number[]>([1, 2, 3, 4, 5]);
+  const [formOpenTime, setFormOpenTime] = useState("09:00");
+  const [formCloseTime, setFormCloseTime] = useState("21:00");
+  const [formTimezone, setFormTimezone] = useState(getDeviceTimeZone);
+  const [formLocationId, setFormLocationId] = useState(ACCOUNT);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadHours = useCallback(async () => {
+    if (!user) return;
+    try {
+      setHours(await fetchOpeningHours(user.id));
+    } catch (error) {
+      console.error("Failed to load opening hours:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadHours();
+  }, [loadHours]);
+
+  const handleChanged = async () => {
+    await loadHours();
+    onChange?.();
+  };
+
+  const openDialog = (entry?: OpeningHours) => {
+    setEditingId(entry?.id ?? null);
+    setFormDays(entry?.days_of_week ?? [1, 2, 3, 4, 5]);
+    setFormOpenTime(entry?.open_time.slice(0, 5) ?? "09:00");
+    setFormCloseTime(entry?.close_time.slice(0, 5) ?? "21:00");
+    setFormTimezone(entry ? entry.timezone || DEVICE_TIMEZONE : getDeviceTimeZone());
+    setFormLocationId(entry?.location_id ?? ACCOUNT);
+    setIsDialogOpen(true);
+  };
+
+  const toggleDay = (day: number) => {
+    setFormDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort()));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (formDays.length === 0 || !formOpenTime || !formCloseTime || formOpenTime === formCloseTime) {
+      toast({ title: t("common.error"), description: t("openingHours.errorTimes"), variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveOpeningHours({
+        ...(editingId ? { id: editingId } : {}),
+        user_id: user.id,
+        days_of_week: formDays,
+        open_time: formOpenTime,
+        close_time: formCloseTime,
+        timezone: formTimezone === DEVICE_TIMEZONE ? null : formTimezone,
+        location_id: formLocationId === ACCOUNT ? null : formLocationId,
+      });
+      setIsDialogOpen(false);
+      toast({ title: t("openingHours.saved") });
+      await handleChanged();
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (id: string) => {
+    try {
+      await deleteOpeningHours(id);
+      await handleChanged();
+    } catch (error) {
+      toast({
+        title: t("common.error"),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const describeHours = (entry: OpeningHours) => {
+    const days = entry.days_of_week.length === 7
+      ? t("schedule.everyDay")
+      : entry.days_of_week.map(day => t(DAY_KEYS[day])).join(", ");
+    const parts = [`${entry.open_time.slice(0, 5)} - ${entry.close_time.slice(0, 5)}`, days];
+    if (entry.timezone) parts.push(formatTimeZone(entry.timezone));
+    return parts.join(" · ");
+  };
+
+  // Account hours first, then each zone that has its own
+  const groups = [
+    { id: null as string | null, name: t("openingHours.account") },
+    ...locations.map(location => ({ id: location.id as string | null, name: location.name })),
+  ]
+    .map(group => ({ ...group, entries: hours.filter(h => h.location_id === group.id) }))
+    .filter(group => group.entries.length > 0);
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <Store className="w-5 h-5 text-primary" />
+            {t("openingHours.title")}
+          </h2>
+          <p className="text-sm text-muted-foreground">{t("openingHours.desc")}</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => openDialog()} className="shrink-0">
+          <Plus className="w-4 h-4 mr-1" />
+          {t("openingHours.add")}
+        </Button>
+      </div>
+
+      {groups.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("openingHours.noHours")}</p>
+      ) : (
+        groups.map(group => (
+          <Card key={group.id ?? ACCOUNT} className="bg-card/80 border-border">
+            <CardContent className="p-3 sm:p-4 space-y-2">
+              {locations.length > 0 && <p className="font-medium text-foreground">{group.name}</p>}
+              {group.entries.map(entry => (
+                <div key={entry.id} className="flex items-center gap-2">
+                  <p className="flex-1 min-w-0 text-sm text-muted-foreground">{describeHours(entry)}</p>
+                  <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(entry)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDelete(entry.id)}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingId ? t("openingHours.edit") : t("openingHours.add")}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label>{t("schedule.days")}</Label>
+              <div className="flex flex-wrap gap-2">
+                {DAY_KEYS.map((key, day) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    variant={formDays.includes(day) ? "default" : "outline"}
+                    size="sm"
+                    className="w-10"
+                    onClick={() => toggleDay(day)}
+                  >
+                    {t(key)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t("openingHours.opens")}</Label>
+                <Input type="time" value={formOpenTime} onChange={(e) => setFormOpenTime(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>{t("openingHours.closes")}</Label>
+                <Input type="time" value={formCloseTime} onChange={(e) => setFormCloseTime(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("schedule.timezone")}</Label>
+              <Select value={formTimezone} onValueChange={setFormTimezone}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEVICE_TIMEZONE}>{t("schedule.deviceTime")}</SelectItem>
+                  {timeZoneOptions.map(zone => (
+                    <SelectItem key={zone} value={zone}>
+                      {formatTimeZone(zone)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {locations.length > 0 && (
+              <div className="space-y-2">
+                <Label>{t("schedule.zone")}</Label>
+                <Select
+                  value={formLocationId}
+                  onValueChange={(value) => {
+                    setFormLocationId(value);
+                    const timezone = locations.find(l => l.id === value)?.timezone;
+                    if (timezone) setFormTimezone(timezone);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ACCOUNT}>{t("openingHours.account")}</SelectItem>
+                    {locations.map(location => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-muted-foreground">{t("openingHours.zoneDesc")}</p>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("common.save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default OpeningHoursManager;
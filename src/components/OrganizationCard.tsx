@@ -0,0 +1,321 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Building2, Loader2, Mail, Trash2, UserPlus } from "lucide-react";
+import {
+  INVITABLE_ORG_ROLES,
+  OrgRole,
+  OrganizationInvitation,
+  OrganizationMember,
+  canManageMembers,
+  fetchOrganizationMembers,
+  fetchPendingInvitations,
+  inviteMember,
+  removeMember,
+  renameOrganization,
+  revokeInvitation,
+  updateMemberRole,
+} from "@/lib/organizations";
+import { isPairedDeviceEmail } from "@/lib/devicePairing";
+
+/**
+ * The organization this login works in: switch between organizations, and for owners,
+ * rename it, invite people by email and manage their roles
+ */
+const OrganizationCard = () => {
+  const { user, organizations, currentOrganization, orgRole, switchOrganization, refreshOrganizations } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [members, setMembers] = useState<OrganizationMember[]>([]);
+  const [invitations, setInvitations] = useState<OrganizationInvitation[]>([]);
+  const [name, setName] = useState("");
+  const [inviteEmail, setInviteEmail] = useState("");
+  const [inviteRole, setInviteRole] = useState<OrgRole>("manager");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSavingName, setIsSavingName] = useState(false);
+  const [isInviting, setIsInviting] = useState(false);
+
+  const isOwner = canManageMembers(orgRole);
+
+  const loadData = useCallback(async () => {
+    if (!currentOrganization) return;
+    setName(currentOrganization.name);
+
+    try {
+      const [membersData, invitationsData] = await Promise.all([
+        fetchOrganizationMembers(currentOrganization.id),
+        isOwner ? fetchPendingInvitations(currentOrganization.id) : Promise.resolve([]),
+      ]);
+      // Paired devices are listed in their own card
+      setMembers(membersData.filter(m => !isPairedDeviceEmail(m.email)));
+      setInvitations(invitationsData);
+    } catch (error) {
+      console.error("Failed to load organization:", error);
+    }
+    setIsLoading(false);
+  }, [currentOrganization, isOwner]);
+
+  useEffect(() => {
+    loadData();
+  }, [loadData]);
+
+  const roleLabel = (role: OrgRole) => t(`organization.role.${role}`);
+
+  const showError = (error: unknown, title = t("common.error")) => {
+    toast({
+      title,
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const handleSwitch = async (organizationId: string) => {
+    setIsLoading(true);
+    await switchOrganization(organizationId);
+  };
+
+  const handleRename = async () => {
+    if (!currentOrganization || !name.trim()) return;
+    setIsSavingName(true);
+    try {
+      await renameOrganization(currentOrganization.id, name);
+      await refreshOrganizations();
+      toast({ title: t("organization.saved") });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSavingName(false);
+    }
+  };
+
+  const handleInvite = async () => {
+    if (!currentOrganization || !inviteEmail.trim()) return;
+    setIsInviting(true);
+    try {
+      await inviteMember(currentOrganization.id, inviteEmail, inviteRole);
+      toast({ title: t("organization.inviteSent"), description: inviteEmail.trim() });
+      setInviteEmail("");
+      await loadData();
+    } catch (error) {
+      showError(error, t("organization.inviteFailed"));
+    } finally {
+      setIsInviting(false);
+    }
+  };
+
+  const handleRoleChange = async (member: OrganizationMember, role: OrgRole) => {
+    try {
+      await updateMemberRole(member.id, role);
+      setMembers(prev => prev.map(m => (m.id === member.id ? { ...m, role } : m)));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRemove = async (member: OrganizationMember) => {
+    try {
+      await removeMember(member.id);
+      if (member.user_id === user?.id) {
+        // Left the organization; fall back to another one
+        await refreshOrganizations();
+        toast({ title: t("organization.left") });
+        return;
+      }
+      setMembers(prev => prev.filter(m => m.id !== member.id));
+      toast({ title: t("organization.memberRemoved") });
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleRevoke = async (invitation: OrganizationInvitation) => {
+    try {
+      await revokeInvitation(invitation.id);
+      setInvitations(prev => prev.filter(i => i.id !== invitation.id));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  if (!currentOrganization) return null;
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Building2 className="w-5 h-5" />
+          {t("organization.title")}
+        </CardTitle>
+        <CardDescription>{t("organization.subtitle")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {organizations.length > 1 && (
+          <div className="space-y-2">
+            <Label>{t("organization.switch")}</Label>
+            <Select value={currentOrganization.id} onValueChange={handleSwitch}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {organizations.map(membership => (
+                  <SelectItem key={membership.organization.id} value={membership.organization.id}>
+                    {membership.organization.name} · {roleLabel(membership.role)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {isOwner ? (
+          <div className="space-y-2">
+            <Label htmlFor="organization-name">{t("organization.name")}</Label>
+            <div className="flex gap-2">
+              <Input id="organization-name" value={name} onChange={(e) => setName(e.target.value)} />
+              <Button
+                variant="outline"
+                onClick={handleRename}
+                disabled={isSavingName || !name.trim() || name.trim() === currentOrganization.name}
+              >
+                {isSavingName && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {t("common.save")}
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="flex items-center justify-between gap-3">
+            <div className="min-w-0">
+              <div className="font-medium text-foreground truncate">{currentOrganization.name}</div>
+              <p className="text-sm text-muted-foreground">{t(`organization.roleDesc.${orgRole}`)}</p>
+            </div>
+            {orgRole && <Badge variant="secondary">{roleLabel(orgRole)}</Badge>}
+          </div>
+        )}
+
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            {/* Members */}
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-foreground">{t("organization.members")}</p>
+              {members.map(member => (
+                <div key={member.id} className="p-3 rounded-lg border border-border bg-muted/30 flex items-center justify-between gap-3">
+                  <div className="min-w-0">
+                    <div className="text-sm text-foreground truncate">
+                      {member.email}
+                      {member.user_id === user?.id && (
+                        <span className="text-muted-foreground"> ({t("organization.you")})</span>
+                      )}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    {isOwner && member.role !== "owner" ? (
+                      <>
+                        <Select value={member.role} onValueChange={(value) => handleRoleChange(member, value as OrgRole)}>
+                          <SelectTrigger className="h-8 w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {INVITABLE_ORG_ROLES.map(role => (
+                              <SelectItem key={role} value={role}>{roleLabel(role)}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="text-muted-foreground hover:text-destructive"
+                          onClick={() => handleRemove(member)}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </>
+                    ) : (
+                      <Badge variant="outline">{roleLabel(member.role)}</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {!isOwner && orgRole && (
+              <Button
+                variant="outline"
+                className="w-full"
+                onClick={() => {
+                  const self = members.find(m => m.user_id === user?.id);
+                  if (self) handleRemove(self);
+                }}
+              >
+                {t("organization.leave")}
+              </Button>
+            )}
+
+            {/* Invitations */}
+            {isOwner && (
+              <div className="space-y-3 pt-2 border-t border-border">
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium text-foreground">{t("organization.invite")}</p>
+                  <p className="text-xs text-muted-foreground">{t("organization.inviteDesc")}</p>
+                </div>
+                <div className="flex flex-col sm:flex-row gap-2">
+                  <Input
+                    type="email"
+                    placeholder={t("organization.emailPlaceholder")}
+                    value={inviteEmail}
+                    onChange={(e) => setInviteEmail(e.target.value)}
+                  />
+                  <Select value={inviteRole} onValueChange={(value) => setInviteRole(value as OrgRole)}>
+                    <SelectTrigger className="sm:w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {INVITABLE_ORG_ROLES.map(role => (
+                        <SelectItem key={role} value={role}>{roleLabel(role)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button onClick={handleInvite} disabled={isInviting || !inviteEmail.trim()}>
+                    {isInviting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserPlus className="w-4 h-4 mr-2" />}
+                    {t("organization.sendInvite")}
+                  </Button>
+                </div>
+                <p className="text-xs text-muted-foreground">{t(`organization.roleDesc.${inviteRole}`)}</p>
+
+                {invitations.length > 0 && (
+                  <div className="space-y-2">
+                    <p className="text-xs font-medium text-muted-foreground">{t("organization.pending")}</p>
+                    {invitations.map(invitation => (
+                      <div key={invitation.id} className="p-3 rounded-lg border border-dashed border-border flex items-center justify-between gap-3">
+                        <div className="min-w-0 flex items-center gap-2">
+                          <Mail className="w-4 h-4 text-muted-foreground shrink-0" />
+                          <span className="text-sm text-foreground truncate">{invitation.email}</span>
+                          <Badge variant="outline">{roleLabel(invitation.role)}</Badge>
+                        </div>
+                        <Button variant="ghost" size="sm" onClick={() => handleRevoke(invitation)}>
+                          {t("organization.revoke")}
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OrganizationCard;
@@ -0,0 +1,216 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from "@/components/ui/alert-dialog";
+import { KeyRound, Loader2, Tablet } from "lucide-react";
+import {
+  PairedDevice,
+  createPairingCode,
+  fetchPairedDevices,
+  formatPairingCode,
+  revokePairedDevice,
+} from "@/lib/devicePairing";
+
+/**
+ * Shop-floor devices paired with a code instead of the owner's login. Paired devices can only
+ * play and follow schedules, use a device slot each, and can be revoked from here.
+ */
+const PairedDevicesCard = () => {
+  const { currentOrganization } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [devices, setDevices] = useState<PairedDevice[]>([]);
+  const [name, setName] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isCreating, setIsCreating] = useState(false);
+  const [deviceToRevoke, setDeviceToRevoke] = useState<PairedDevice | null>(null);
+  const [now, setNow] = useState(Date.now());
+
+  const loadDevices = useCallback(async () => {
+    if (!currentOrganization) return;
+    try {
+      setDevices(await fetchPairedDevices(currentOrganization.id));
+    } catch (error) {
+      console.error("Failed to load paired devices:", error);
+    }
+    setIsLoading(false);
+  }, [currentOrganization]);
+
+  useEffect(() => {
+    loadDevices();
+  }, [loadDevices]);
+
+  const pendingCodes = devices.filter(d => !d.user_id && d.code_expires_at && new Date(d.code_expires_at).getTime() > now);
+  const pairedDevices = devices.filter(d => d.user_id);
+
+  // Count down open codes, and pick up the device once it has been paired
+  useEffect(() => {
+    if (pendingCodes.length === 0) return;
+    const tick = setInterval(() => setNow(Date.now()), 1000);
+    const poll = setInterval(loadDevices, 5000);
+    return () => {
+      clearInterval(tick);
+      clearInterval(poll);
+    };
+  }, [pendingCodes.length, loadDevices]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t("common.error"),
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const handleCreate = async () => {
+    if (!currentOrganization || !name.trim()) return;
+    setIsCreating(true);
+    try {
+      const device = await createPairingCode(currentOrganization.id, name);
+      setDevices(prev => [...prev, device]);
+      setNow(Date.now());
+      setName("");
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (device: PairedDevice) => {
+    try {
+      await revokePairedDevice(device.id);
+      setDevices(prev => prev.filter(d => d.id !== device.id));
+      if (device.user_id) toast({ title: t("pairedDevices.revoked") });
+    } catch (error) {
+      showError(error);
+    }
+    setDeviceToRevoke(null);
+  };
+
+  const formatRemaining = (expiresAt: string) => {
+    const seconds = Math.max(0, Math.floor((new Date(expiresAt).getTime() - now) / 1000));
+    return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+  };
+
+  if (!currentOrganization) return null;
+
+  return (
+    <>
+      <Card className="bg-card border-border">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Tablet className="w-5 h-5" />
+            {t("pairedDevices.title")}
+          </CardTitle>
+          <CardDescription>{t("pairedDevices.subtitle")}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {isLoading ? (
+            <div className="flex items-center justify-center py-4">
+              <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <>
+              {/* Paired devices */}
+              <div className="space-y-2">
+                {pairedDevices.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">{t("pairedDevices.none")}</p>
+                ) : (
+                  pairedDevices.map(device => (
+                    <div key={device.id} className="p-3 rounded-lg border border-border bg-muted/30 flex items-center justify-between gap-3">
+                      <div className="min-w-0">
+                        <div className="font-medium text-foreground text-sm truncate">{device.name}</div>
+                        {device.paired_at && (
+                          <div className="text-xs text-muted-foreground">
+                            {t("pairedDevices.pairedOn").replace("{date}", new Date(device.paired_at).toLocaleDateString())}
+                          </div>
+                        )}
+                      </div>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="text-muted-foreground hover:text-destructive shrink-0"
+                        onClick={() => setDeviceToRevoke(device)}
+                      >
+                        {t("pairedDevices.revoke")}
+                      </Button>
+                    </div>
+                  ))
+                )}
+              </div>
+
+              {/* Open codes */}
+              {pendingCodes.map(device => (
+                <div key={device.id} className="p-4 rounded-lg border border-dashed border-primary/50 space-y-2 text-center">
+                  <p className="text-sm text-muted-foreground">
+                    {t("pairedDevices.enterCode")
+                      .replace("{name}", device.name)
+                      .replace("{url}", `${window.location.host}/pair`)}
+                  </p>
+                  <div className="text-3xl font-mono font-bold tracking-widest text-foreground">
+                    {formatPairingCode(device.pairing_code || "")}
+                  </div>
+                  <div className="flex items-center justify-center gap-3">
+                    <span className="text-xs text-muted-foreground">
+                      {t("pairedDevices.expiresIn").replace("{time}", formatRemaining(device.code_expires_at!))}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={() => handleRevoke(device)}>
+                      {t("common.cancel")}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              {/* New code */}
+              <div className="space-y-2 pt-2 border-t border-border">
+                <Label htmlFor="paired-device-name">{t("pairedDevices.name")}</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="paired-device-name"
+                    placeholder={t("pairedDevices.namePlaceholder")}
+                    value={name}
+                    onChange={(e) => setName(e.target.value)}
+                    maxLength={60}
+                  />
+                  <Button onClick={handleCreate} disabled={isCreating || !name.trim()} className="shrink-0">
+                    {isCreating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <KeyRound className="w-4 h-4 mr-2" />}
+                    {t("pairedDevices.createCode")}
+                  </Button>
+                </div>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Revoke Confirmation */}
+      <AlertDialog open={!!deviceToRevoke} onOpenChange={(open) => !open && setDeviceToRevoke(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{t("pairedDevices.confirmRevokeTitle")}</AlertDialogTitle>
+            <AlertDialogDescription>
+              {t("pairedDevices.confirmRevokeDesc").replace("{name}", deviceToRevoke?.name || "")}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>{t("common.cancel")}</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => deviceToRevoke && handleRevoke(deviceToRevoke)}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {t("pairedDevices.revoke")}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default PairedDevicesCard;
@@ -1,18 +1,23 @@
 import { useState, useRef, useEffect, useCallback } from "react";
-import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Repeat, Repeat1, Shuffle, Heart, ListMusic, Trash2 } from "lucide-react";
+import { Play, Pause, SkipBack, SkipForward, Volume2, VolumeX, Repeat, Repeat1, Shuffle, Heart, ListMusic, Trash2, ListOrdered, CalendarClock } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Slider } from "@/components/ui/slider";
 import { cn } from "@/lib/utils";
-import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { usePlayer } from "@/contexts/PlayerContext";
+import { useLanguage } from "@/contexts/LanguageContext";
 import { useLikedSongs } from "@/contexts/LikedSongsContext";
 import { useToast } from "@/hooks/use-toast";
 import { useIOSDeviceType } from "@/hooks/use-mobile";
+import { useWakeLock } from "@/hooks/useWakeLock";
 import SignedImage from "@/components/SignedImage";
+import QueuePanel from "@/components/QueuePanel";
 import { Track } from "@/data/musicData";
-
-const CROSSFADE_DURATION = 5; // seconds
+import { getOfflineTrackUrl, isOfflineModeEnabled } from "@/lib/offlineCache";
+import { getNormalizationGain } from "@/lib/loudness";
+import { getTrackAnalysis } from "@/lib/trackAnalysis";
+import { getCrossfadeGains } from "@/lib/crossfade";
+import { AnnouncementPlaybackMode, DUCK_LEVEL } from "@/lib/announcements";
 
 const PlayerBar = () => {
   const {
@@ -22,6 +27,8 @@ const PlayerBar = () => {
     shuffle,
     repeat,
     crossfade,
+    crossfadeSettings,
+    normalizeLoudness,
     isQuickMix,
     handlePlayPause,
     handleNext,
@@ -36,13 +43,29 @@ const PlayerBar = () => {
     pendingScheduledTransition,
     clearScheduledTransition,
     playlistTracksRef,
+    queue,
     setCurrentTrackDirect,
     removeCurrentTrackFromPlaylist,
+    volume,
+    setVolume,
+    reportPlaybackError,
+    activeAnnouncement,
+    hasPendingAnnouncement,
+    finishAnnouncement,
+    volumeRampSeconds,
+    volumeSlot,
+    isVolumeOverridden,
+    resetVolumeOverride,
   } = usePlayer();
+  const { t } = useLanguage();
+  const { duration: crossfadeDuration, curve: crossfadeCurve } = crossfadeSettings;
+  const announcementMode = activeAnnouncement?.mode ?? null;
+  const announcementUrl = activeAnnouncement?.url;
+  const announcementLufs = activeAnnouncement?.loudnessLufs;
   
   const audioRef = useRef<HTMLAudioElement>(null);
   const crossfadeAudioRef = useRef<HTMLAudioElement>(null);
-  const [volume, setVolume] = useState([100]);
+  const announcementAudioRef = useRef<HTMLAudioElement>(null);
   const [progress, setProgress] = useState([0]);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
@@ -51,8 +74,18 @@ const PlayerBar = () => {
   const audioContextRef = useRef<AudioContext | null>(null);
   const mainGainNodeRef = useRef<GainNode | null>(null);
   const crossfadeGainNodeRef = useRef<GainNode | null>(null);
+  // Per-track loudness normalization, between each source and its volume gain (Web Audio only, so not on iPhone)
+  const mainNormalizationGainRef = useRef<GainNode | null>(null);
+  const crossfadeNormalizationGainRef = useRef<GainNode | null>(null);
+  const normalizedTrackIdsRef = useRef<{ main: string | null; crossfade: string | null }>({ main: null, crossfade: null });
   const mainSourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
   const crossfadeSourceNodeRef = useRef<MediaElementAudioSourceNode | null>(null);
+  // Ducks both elements together under announcements, after their volume gains so crossfades are unaffected
+  const duckGainNodeRef = useRef<GainNode | null>(null);
+  const duckLevelRef = useRef(1);
+  // Volume level last applied (0-1, mid-ramp too) and the volume it was applied for
+  const appliedVolumeRef = useRef<number | null>(null);
+  const lastVolumeRef = useRef<number | null>(null);
   const webAudioInitializedRef = useRef(false);
 
   const normalizeUrl = useCallback((url: string) => {
@@ -63,7 +96,7 @@ const PlayerBar = () => {
     }
   }, []);
   const [isMuted, setIsMuted] = useState(false);
-  const { user, getDeviceId, canPlayMusic, isAdmin } = useAuth();
+  const { canPlayMusic, isAdmin } = useAuth();
   const { isLiked: checkIsLiked, toggleLike } = useLikedSongs();
   const { toast } = useToast();
   const iosDeviceType = useIOSDeviceType();
@@ -134,7 +167,8 @@ const PlayerBar = () => {
   const lastProgressTimeRef = useRef(Date.now());
   const stallCheckIntervalRef = useRef<NodeJS.Timeout | null>(null);
   const wasPlayingBeforeOfflineRef = useRef(false);
-  const wakeLockRef = useRef<WakeLockSentinel | null>(null);
+  const currentTrackIdRef = useRef<string | null>(null);
+  currentTrackIdRef.current = currentTrack?.id ?? null;
   const [isOffline, setIsOffline] = useState(!navigator.onLine);
   const maxRetries = 3;
 
@@ -155,6 +189,8 @@ const PlayerBar = () => {
     isCrossfadeActiveRef.current = isCrossfadeActive;
   }, [isCrossfadeActive]);
   const lastCrossfadeSwapAtRef = useRef<number>(0); // Prevent post-swap reloads
+  // Where the current track's audible part ends (from silence detection), so crossfades skip dead air
+  const currentCueOutRef = useRef<{ trackId: string; cueOut: number | null } | null>(null);
 
   const softStop = useCallback((el: HTMLAudioElement | null, gain: GainNode | null) => {
     if (!el) return;
@@ -299,86 +335,7 @@ const PlayerBar = () => {
   }, [currentTrack, handlePlayPause, seekBy]);
 
   // Wake Lock API - prevents device from sleeping during playback
-  useEffect(() => {
-    const requestWakeLock = async () => {
-      if ('wakeLock' in navigator && isPlaying) {
-        try {
-          wakeLockRef.current = await navigator.wakeLock.request('screen');
-          console.log('Wake Lock acquired for continuous playback');
-          
-          wakeLockRef.current.addEventListener('release', () => {
-            console.log('Wake Lock released');
-          });
-        } catch (err) {
-          console.log('Wake Lock not available:', err);
-        }
-      }
-    };
-
-    const releaseWakeLock = () => {
-      if (wakeLockRef.current) {
-        wakeLockRef.current.release();
-        wakeLockRef.current = null;
-      }
-    };
-
-    if (isPlaying) {
-      requestWakeLock();
-    } else {
-      releaseWakeLock();
-    }
-
-    // Re-acquire wake lock when page becomes visible again
-    const handleVisibilityChange = () => {
-      if (document.visibilityState === 'visible' && isPlaying) {
-        requestWakeLock();
-      }
-    };
-
-    document.addEventListener('visibilitychange', handleVisibilityChange);
-
-    return () => {
-      releaseWakeLock();
-      document.removeEventListener('visibilitychange', handleVisibilityChange);
-    };
-  }, [isPlaying]);
-
-  // Session heartbeat - keep session alive while music is playing
-  // Pings every 5 minutes to prevent the 10-minute stale session cleanup
-  useEffect(() => {
-    if (!isPlaying || !user) return;
-
-    const HEARTBEAT_INTERVAL = 5 * 60 * 1000; // 5 minutes
-
-    const sendHeartbeat = async () => {
-      try {
-        const sessionId = getDeviceId();
-        const deviceInfo = navigator.userAgent;
-        
-        console.log("[Heartbeat] Sending session heartbeat...");
-        
-        const { error } = await supabase.functions.invoke("register-session", {
-          body: { sessionId, deviceInfo },
-        });
-
-        if (error) {
-          console.warn("[Heartbeat] Failed:", error);
-        } else {
-          console.log("[Heartbeat] Session refreshed successfully");
-        }
-      } catch (err) {
-        console.warn("[Heartbeat] Error:", err);
-      }
-    };
-
-    // Send initial heartbeat
-    sendHeartbeat();
-
-    // Then every 5 minutes
-    const interval = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL);
-
-    return () => clearInterval(interval);
-  }, [isPlaying, user, getDeviceId]);
+  useWakeLock(isPlaying, "continuous playback");
 
   // Warn user before closing tab when music is playing
   useEffect(() => {
@@ -403,8 +360,8 @@ const PlayerBar = () => {
       const activeAudio = isCrossfadeActive ? crossfadeAudioRef.current : audioRef.current;
       if (!activeAudio) return;
 
-      // Check if audio is actually playing, if not try to resume
-      if (activeAudio.paused) {
+      // Check if audio is actually playing, if not try to resume (the track has ended while an announcement plays)
+      if (activeAudio.paused && announcementMode !== "insert") {
         console.log('Tab visible again, resuming playback...');
         activeAudio.play().catch(() => {
           // If can't resume, skip to next
@@ -415,9 +372,31 @@ const PlayerBar = () => {
 
     document.addEventListener('visibilitychange', handleVisibilityChange);
     return () => document.removeEventListener('visibilitychange', handleVisibilityChange);
-  }, [isPlaying, handleNext, isCrossfadeActive]);
+  }, [isPlaying, handleNext, isCrossfadeActive, announcementMode]);
 
   // Handle audio errors with auto-recovery
+  // Offline mode: keep playing the current track from its downloaded copy, from the same position.
+  // Returns false when there is no offline copy to switch to.
+  const continueFromOfflineCopy = useCallback(async (audio: HTMLAudioElement | null): Promise<boolean> => {
+    const trackId = currentTrackIdRef.current;
+    if (!audio || !trackId || !isOfflineModeEnabled() || audio.src.startsWith("blob:")) return false;
+
+    const offlineUrl = await getOfflineTrackUrl(trackId);
+    if (!offlineUrl) return false;
+
+    const position = audio.currentTime;
+    const wasPlaying = !audio.paused || isPlaying;
+    dbg("offline: switching to downloaded copy", { trackId, position });
+
+    audio.src = offlineUrl;
+    audio.addEventListener("loadedmetadata", () => {
+      audio.currentTime = position;
+      if (wasPlaying) audio.play().catch(console.error);
+    }, { once: true });
+    audio.load();
+    return true;
+  }, [isPlaying, dbg]);
+
   const handleAudioError = (audioEl?: HTMLAudioElement) => {
     const audio = audioEl ?? (isCrossfadeActive ? crossfadeAudioRef.current : audioRef.current);
     
@@ -442,9 +421,11 @@ const PlayerBar = () => {
       return;
     }
 
-    // Don't retry while offline - let the online handler deal with it
+    // Don't retry while offline - use the downloaded copy if there is one, otherwise let the online handler deal with it
     if (isOffline) {
-      wasPlayingBeforeOfflineRef.current = true;
+      continueFromOfflineCopy(activeAudio).then((switched) => {
+        wasPlayingBeforeOfflineRef.current = !switched;
+      });
       return;
     }
 
@@ -463,6 +444,7 @@ const PlayerBar = () => {
     } else {
       console.log("Max retries reached, skipping to next track");
       retryCountRef.current = 0;
+      reportPlaybackError(audio?.error?.message || `Audio error (code ${audio?.error?.code ?? "unknown"})`);
       toast({
         title: "Playback issue",
         description: "Skipping to next track",
@@ -573,12 +555,33 @@ const PlayerBar = () => {
       console.log("Network connection lost, currently playing:", !audioRef.current?.paused);
       setIsOffline(true);
       // Check actual audio state, not React state which may be stale
-      wasPlayingBeforeOfflineRef.current = audioRef.current ? !audioRef.current.paused : false;
-      toast({
+      const activeAudio = isCrossfadeActiveRef.current ? crossfadeAudioRef.current : audioRef.current;
+      const wasPlaying = activeAudio ? !activeAudio.paused : false;
+      wasPlayingBeforeOfflineRef.current = wasPlaying;
+
+      const showConnectionLost = () => toast({
         title: "Connection lost",
         description: "Music will resume when connection returns",
         variant: "destructive",
       });
+
+      // Offline mode: switch to the downloaded copy before the buffered audio runs out
+      if (wasPlaying && isOfflineModeEnabled()) {
+        continueFromOfflineCopy(activeAudio).then((switched) => {
+          if (!switched) {
+            showConnectionLost();
+            return;
+          }
+          wasPlayingBeforeOfflineRef.current = false;
+          toast({
+            title: "Connection lost",
+            description: "Playing downloaded music",
+          });
+        });
+        return;
+      }
+
+      showConnectionLost();
     };
 
     window.addEventListener("online", handleOnline);
@@ -588,7 +591,7 @@ const PlayerBar = () => {
       window.removeEventListener("online", handleOnline);
       window.removeEventListener("offline", handleOffline);
     };
-  }, [toast, handleNext]);
+  }, [toast, handleNext, continueFromOfflineCopy]);
 
   // Media Session API for lock screen controls
   useEffect(() => {
@@ -782,6 +785,7 @@ const PlayerBar = () => {
             // Throttle the toast to avoid spam during retries.
             const name = (err as any)?.name;
             if (name === "NotAllowedError") {
+              reportPlaybackError("Autoplay blocked - tap Play on the device");
               const now = Date.now();
               if (now - lastAutoplayToastAtRef.current > 3000) {
                 lastAutoplayToastAtRef.current = now;
@@ -826,19 +830,27 @@ const PlayerBar = () => {
       // Create gain nodes for volume control
       mainGainNodeRef.current = audioContextRef.current.createGain();
       crossfadeGainNodeRef.current = audioContextRef.current.createGain();
+      mainNormalizationGainRef.current = audioContextRef.current.createGain();
+      crossfadeNormalizationGainRef.current = audioContextRef.current.createGain();
+      normalizedTrackIdsRef.current = { main: null, crossfade: null };
+      duckGainNodeRef.current = audioContextRef.current.createGain();
+      duckGainNodeRef.current.gain.value = duckLevelRef.current;
+      duckGainNodeRef.current.connect(audioContextRef.current.destination);
       
       // Connect main audio element
       if (audioRef.current && !mainSourceNodeRef.current) {
         mainSourceNodeRef.current = audioContextRef.current.createMediaElementSource(audioRef.current);
-        mainSourceNodeRef.current.connect(mainGainNodeRef.current);
-        mainGainNodeRef.current.connect(audioContextRef.current.destination);
+        mainSourceNodeRef.current.connect(mainNormalizationGainRef.current);
+        mainNormalizationGainRef.current.connect(mainGainNodeRef.current);
+        mainGainNodeRef.current.connect(duckGainNodeRef.current);
       }
       
       // Connect crossfade audio element
       if (crossfadeAudioRef.current && !crossfadeSourceNodeRef.current) {
         crossfadeSourceNodeRef.current = audioContextRef.current.createMediaElementSource(crossfadeAudioRef.current);
-        crossfadeSourceNodeRef.current.connect(crossfadeGainNodeRef.current);
-        crossfadeGainNodeRef.current.connect(audioContextRef.current.destination);
+        crossfadeSourceNodeRef.current.connect(crossfadeNormalizationGainRef.current);
+        crossfadeNormalizationGainRef.current.connect(crossfadeGainNodeRef.current);
+        crossfadeGainNodeRef.current.connect(duckGainNodeRef.current);
       }
       
       webAudioInitializedRef.current = true;
@@ -848,6 +860,30 @@ const PlayerBar = () => {
     }
   }, [shouldUseWebAudio]);
 
+  // Set the normalization gain of one audio element for the track it plays (unity when disabled or unmeasured)
+  const applyNormalizationGain = useCallback(async (element: "main" | "crossfade", trackId: string) => {
+    const node = element === "main" ? mainNormalizationGainRef.current : crossfadeNormalizationGainRef.current;
+    if (!node) return;
+
+    const key = normalizeLoudness ? trackId : null;
+    if (normalizedTrackIdsRef.current[element] === key && key !== null) return;
+    normalizedTrackIdsRef.current[element] = key;
+
+    const gain = normalizeLoudness ? getNormalizationGain((await getTrackAnalysis(trackId)).loudnessLufs) : 1;
+    // Another track may have been loaded into this element while the loudness was loading
+    if (normalizedTrackIdsRef.current[element] !== key) return;
+
+    const ctx = audioContextRef.current;
+    if (!ctx) return;
+    try {
+      // Short smoothing so a change mid-track doesn't click
+      node.gain.cancelScheduledValues(ctx.currentTime);
+      node.gain.setTargetAtTime(gain, ctx.currentTime, 0.05);
+    } catch {
+      node.gain.value = gain;
+    }
+  }, [normalizeLoudness]);
+
   const ensureAudioContextRunning = useCallback(async () => {
     initWebAudio();
     const ctx = audioContextRef.current;
@@ -939,12 +975,12 @@ const PlayerBar = () => {
     };
   }, [initWebAudio]);
 
-  // Apply volume:
+  // Apply a volume level (0-1):
   // - Desktop: HTMLMediaElement.volume
   // - iOS: Web Audio GainNodes
   // IMPORTANT: during crossfade we must NOT overwrite scheduled gain ramps.
-  useEffect(() => {
-    const targetVolume = isMuted ? 0 : Math.min(1, volume[0] / 100);
+  const applyVolumeLevel = useCallback((targetVolume: number) => {
+    appliedVolumeRef.current = targetVolume;
 
     // Resume AudioContext if suspended (Safari suspends aggressively)
     if (audioContextRef.current?.state === "suspended") {
@@ -953,8 +989,10 @@ const PlayerBar = () => {
 
     // Method 1: Direct volume (works on desktop browsers)
     // Keep these in sync so non-iOS works even if WebAudio fails.
-    if (audioRef.current) audioRef.current.volume = targetVolume;
-    if (crossfadeAudioRef.current) crossfadeAudioRef.current.volume = targetVolume;
+    // Without Web Audio there is no duck gain, so announcement ducking applies here.
+    const elementVolume = targetVolume * (duckGainNodeRef.current ? 1 : duckLevelRef.current);
+    if (audioRef.current) audioRef.current.volume = elementVolume;
+    if (crossfadeAudioRef.current) crossfadeAudioRef.current.volume = elementVolume;
 
     // Method 2: Web Audio API gain (works on iOS)
     const ctx = audioContextRef.current;
@@ -982,29 +1020,191 @@ const PlayerBar = () => {
       activeGain.gain.value = targetVolume;
       inactiveGain.gain.value = 0;
     }
-  }, [volume, isMuted, isCrossfadeActive]);
+  }, [isCrossfadeActive]);
+
+  // Apply volume changes. Scheduled volume changes ramp; slider moves and mute apply right away.
+  useEffect(() => {
+    const targetVolume = isMuted ? 0 : Math.min(1, volume / 100);
+    const from = appliedVolumeRef.current;
+    const shouldRamp = volumeRampSeconds > 0 && volume !== lastVolumeRef.current && from !== null;
+    lastVolumeRef.current = volume;
+
+    if (!shouldRamp) {
+      applyVolumeLevel(targetVolume);
+      return;
+    }
+
+    // ~100ms steps like crossfades, so elements and gain nodes move together
+    const steps = Math.max(10, Math.round(volumeRampSeconds * 10));
+    let step = 0;
+    const interval = setInterval(() => {
+      step++;
+      applyVolumeLevel(from + (targetVolume - from) * Math.min(1, step / steps));
+      if (step >= steps) clearInterval(interval);
+    }, (volumeRampSeconds * 1000) / steps);
+
+    return () => clearInterval(interval);
+  }, [volume, isMuted, volumeRampSeconds, applyVolumeLevel]);
+
+  // Loudness normalization for the playing element (isPlaying re-runs it once Web Audio is initialized)
+  useEffect(() => {
+    if (!currentTrack?.id) return;
+    applyNormalizationGain(isCrossfadeActive ? "crossfade" : "main", currentTrack.id);
+  }, [currentTrack?.id, isCrossfadeActive, isPlaying, applyNormalizationGain]);
 
   
 
   // Keep user volume in sync
   useEffect(() => {
-    userVolumeRef.current = volume[0];
+    userVolumeRef.current = volume;
   }, [volume]);
   
+  // The queue decides what plays next, so a track preloaded before it changed is stale
+  const queueHeadId = queue[0]?.id ?? null;
+  useEffect(() => {
+    if (isCrossfadingRef.current || !preloadedNextTrackRef.current) return;
+    if (preloadedNextTrackRef.current.id === queueHeadId) return;
+    preloadedNextTrackRef.current = null;
+    nextTrackPreloadedRef.current = null;
+    isPreloadingRef.current = false;
+  }, [queueHeadId]);
+
+  // Load the current track's cue-out point
+  useEffect(() => {
+    const trackId = currentTrack?.id;
+    if (!trackId) return;
+    if (currentCueOutRef.current?.trackId !== trackId) {
+      currentCueOutRef.current = { trackId, cueOut: null };
+    }
+
+    getTrackAnalysis(trackId).then(({ cueOutSeconds }) => {
+      if (currentCueOutRef.current?.trackId === trackId) {
+        currentCueOutRef.current = { trackId, cueOut: cueOutSeconds };
+      }
+    });
+  }, [currentTrack?.id]);
+
+  // End of the audible part of the playing track: its cue-out if known, else the file's duration
+  const getEffectiveEnd = useCallback((fileDuration: number) => {
+    const cueOut = currentCueOutRef.current?.trackId === currentTrack?.id ? currentCueOutRef.current?.cueOut : null;
+    return cueOut && cueOut > 0 && cueOut < fileDuration ? cueOut : fileDuration;
+  }, [currentTrack?.id]);
+
+  // A track preloaded for the crossfade is stale once an announcement will play before the next track
+  useEffect(() => {
+    if (!hasPendingAnnouncement || isCrossfadingRef.current || !preloadedNextTrackRef.current) return;
+    preloadedNextTrackRef.current = null;
+    nextTrackPreloadedRef.current = null;
+    isPreloadingRef.current = false;
+  }, [hasPendingAnnouncement]);
+
+  // With an announcement waiting, the track fades out over the crossfade duration instead of crossfading
+  const [announcementFadeOut, setAnnouncementFadeOut] = useState<number | null>(null);
+  useEffect(() => {
+    if (!hasPendingAnnouncement) {
+      setAnnouncementFadeOut(null);
+      return;
+    }
+    if (announcementFadeOut !== null || !crossfade || crossfadeDuration === 0 || !isPlaying || !duration) return;
+
+    const timeRemaining = getEffectiveEnd(duration) - currentTime;
+    if (timeRemaining <= crossfadeDuration && timeRemaining > 0.25) {
+      setAnnouncementFadeOut(timeRemaining);
+    }
+  }, [hasPendingAnnouncement, announcementFadeOut, crossfade, crossfadeDuration, isPlaying, duration, currentTime, getEffectiveEnd]);
+
+  // Music level around announcements: ducked under a duck clip, silent for an inserted one,
+  // and back up afterwards (the next track fades in after an inserted clip when crossfade is on)
+  const lastAnnouncementModeRef = useRef<AnnouncementPlaybackMode | null>(null);
+  useEffect(() => {
+    let level = 1;
+    let rampSeconds = 1;
+    if (announcementMode === "duck") {
+      level = DUCK_LEVEL;
+      rampSeconds = 0.5;
+    } else if (announcementMode === "insert" || announcementFadeOut !== null) {
+      level = 0;
+      rampSeconds = announcementFadeOut ?? 0.3;
+    } else if (lastAnnouncementModeRef.current === "insert") {
+      rampSeconds = crossfade && crossfadeDuration > 0 ? crossfadeDuration : 0.3;
+    }
+    lastAnnouncementModeRef.current = announcementMode;
+    if (duckLevelRef.current === level) return;
+    duckLevelRef.current = level;
+
+    const ctx = audioContextRef.current;
+    const duckGain = duckGainNodeRef.current;
+    if (ctx && duckGain) {
+      const now = ctx.currentTime;
+      try {
+        duckGain.gain.cancelScheduledValues(now);
+        duckGain.gain.setValueAtTime(duckGain.gain.value, now);
+        duckGain.gain.linearRampToValueAtTime(level, now + rampSeconds);
+      } catch {
+        duckGain.gain.value = level;
+      }
+      return;
+    }
+
+    // No Web Audio: step the playing element's volume instead (iPhone ignores this, as it does volume)
+    if (isCrossfadingRef.current) return;
+    const activeAudio = isCrossfadeActive ? crossfadeAudioRef.current : audioRef.current;
+    if (activeAudio) activeAudio.volume = (isMuted ? 0 : Math.min(1, volume / 100)) * level;
+  }, [announcementMode, announcementFadeOut, crossfade, crossfadeDuration, isCrossfadeActive, isMuted, volume]);
+
+  // Load the announcement clip
+  useEffect(() => {
+    const clip = announcementAudioRef.current;
+    if (!clip) return;
+    if (!announcementUrl) {
+      clip.pause();
+      clip.removeAttribute("src");
+      return;
+    }
+    clip.src = announcementUrl;
+  }, [announcementUrl]);
+
+  // The clip pauses and resumes with the player
+  useEffect(() => {
+    const clip = announcementAudioRef.current;
+    if (!clip || !announcementUrl) return;
+    if (!isPlaying) {
+      clip.pause();
+      return;
+    }
+    clip.play().catch((err) => {
+      // Interrupted by a pause, not a failure
+      if (err instanceof DOMException && err.name === "AbortError") return;
+      console.warn("[Announcements] Clip playback failed:", err);
+      finishAnnouncement();
+    });
+  }, [announcementUrl, isPlaying, finishAnnouncement]);
+
+  // The clip follows the player volume and, like tracks, loudness normalization
+  useEffect(() => {
+    const clip = announcementAudioRef.current;
+    if (!clip) return;
+    const gain = normalizeLoudness ? getNormalizationGain(announcementLufs) : 1;
+    clip.volume = isMuted ? 0 : Math.min(1, (volume / 100) * gain);
+  }, [announcementUrl, announcementLufs, normalizeLoudness, volume, isMuted]);
+
   // Preload next track when current track is playing (well ahead of crossfade point)
   useEffect(() => {
-    if (!crossfade || !isPlaying || !duration || repeat === "one") return;
+    // A zero-length crossfade means tracks simply follow each other, so there's nothing to preload.
+    // Neither is there with an announcement waiting to play between this track and the next.
+    if (!crossfade || crossfadeDuration === 0 || !isPlaying || !duration || repeat === "one" || hasPendingAnnouncement) return;
     
-    const preloadAheadTime = CROSSFADE_DURATION + 10; // Preload 15 seconds before end
-    const timeRemaining = duration - currentTime;
+    const preloadAheadTime = crossfadeDuration + 10; // Preload 10 seconds before the crossfade starts
+    const timeRemaining = getEffectiveEnd(duration) - currentTime;
     
     // Start preloading when we're approaching the crossfade point
-    if (timeRemaining <= preloadAheadTime && timeRemaining > CROSSFADE_DURATION + 5 && !isPreloadingRef.current && !preloadedNextTrackRef.current) {
+    if (timeRemaining <= preloadAheadTime && timeRemaining > crossfadeDuration + 5 && !isPreloadingRef.current && !preloadedNextTrackRef.current) {
       isPreloadingRef.current = true;
       
-      getNextTrack().then(nextTrack => {
+      getNextTrack().then(async nextTrack => {
         if (nextTrack?.audioUrl) {
           console.log('Preloading next track for crossfade:', nextTrack.id);
+          const { cueInSeconds } = await getTrackAnalysis(nextTrack.id);
           preloadedNextTrackRef.current = { id: nextTrack.id, audioUrl: nextTrack.audioUrl, track: nextTrack };
           
           // Preload into the INACTIVE audio element
@@ -1013,6 +1213,9 @@ const PlayerBar = () => {
             inactiveAudio.src = nextTrack.audioUrl;
             inactiveAudio.volume = 0;
             inactiveAudio.load();
+            // Start past a silent intro (before metadata loads this sets the start position)
+            if (cueInSeconds) inactiveAudio.currentTime = cueInSeconds;
+            applyNormalizationGain(isCrossfadeActive ? "main" : "crossfade", nextTrack.id);
           }
         }
         isPreloadingRef.current = false;
@@ -1020,7 +1223,7 @@ const PlayerBar = () => {
         isPreloadingRef.current = false;
       });
     }
-  }, [currentTime, duration, crossfade, isPlaying, repeat, getNextTrack, isCrossfadeActive]);
+  }, [currentTime, duration, crossfade, crossfadeDuration, isPlaying, repeat, getNextTrack, isCrossfadeActive, applyNormalizationGain, getEffectiveEnd, hasPendingAnnouncement]);
   
   // Start crossfade when approaching end of track
   const startCrossfade = useCallback(() => {
@@ -1073,24 +1276,21 @@ const PlayerBar = () => {
 
     // Use interval for BOTH direct volume AND Web Audio gains
     // This ensures consistent timing on PC and iOS Safari
-    const steps = 50;
-    const stepTime = (CROSSFADE_DURATION * 1000) / steps;
+    // ~100ms steps whatever the duration, so long fades stay smooth
+    const steps = Math.max(10, Math.round(crossfadeDuration * 10));
+    const stepTime = (crossfadeDuration * 1000) / steps;
     let step = 0;
     const startOutVolume = fadingOutGain?.gain.value ?? fadingOutAudio.volume ?? targetVolume;
 
-    dbg("startCrossfade: starting interval-based fade", { startOutVolume, targetVolume, steps, stepTime });
+    dbg("startCrossfade: starting interval-based fade", { startOutVolume, targetVolume, steps, stepTime, duration: crossfadeDuration, curve: crossfadeCurve });
 
     crossfadeIntervalRef.current = setInterval(() => {
       step++;
       const progress = Math.min(1, step / steps);
+      const gains = getCrossfadeGains(progress, crossfadeCurve);
 
-      // Use ease-in-out curve for smoother perceived fade
-      const easedProgress = progress < 0.5 
-        ? 2 * progress * progress 
-        : 1 - Math.pow(-2 * progress + 2, 2) / 2;
-
-      const fadeOutValue = Math.max(0, startOutVolume * (1 - easedProgress));
-      const fadeInValue = Math.max(0, Math.min(1, targetVolume * easedProgress));
+      const fadeOutValue = Math.max(0, startOutVolume * gains.fadeOut);
+      const fadeInValue = Math.max(0, Math.min(1, targetVolume * gains.fadeIn));
 
       // Direct volume for desktop browsers
       fadingOutAudio.volume = fadeOutValue;
@@ -1149,8 +1349,8 @@ const PlayerBar = () => {
           lastCrossfadeSwapAtRef.current = Date.now();
           setIsCrossfadeActive((prev) => !prev);
 
-          // Update React state to the new track
-          setCurrentTrackDirect(next.track);
+          // Update React state to the new track (a queued track leaves the queue here)
+          setCurrentTrackDirect(next.track, true);
 
           // Mark this track as already set to prevent the src-setting effect from reloading
           lastSetTrackIdRef.current = next.id;
@@ -1170,11 +1370,12 @@ const PlayerBar = () => {
         }
       }
     }, stepTime);
-  }, [crossfade, repeat, isMuted, setCurrentTrackDirect, normalizeUrl, isCrossfadeActive, dbg, currentTrack?.id, softStop]);
+  }, [crossfade, crossfadeDuration, crossfadeCurve, repeat, isMuted, setCurrentTrackDirect, normalizeUrl, isCrossfadeActive, dbg, currentTrack?.id, softStop]);
 
   // Monitor for crossfade trigger point - works for whichever audio element is active
   useEffect(() => {
-    if (!crossfade || !isPlaying || repeat === "one" || isCrossfadingRef.current) return;
+    // An announcement waiting for the track boundary plays in place of the crossfade
+    if (!crossfade || !isPlaying || repeat === "one" || isCrossfadingRef.current || hasPendingAnnouncement) return;
 
     // Don't trigger crossfade within 10 seconds of a swap (prevents double-triggering)
     const timeSinceSwap = Date.now() - lastCrossfadeSwapAtRef.current;
@@ -1183,13 +1384,15 @@ const PlayerBar = () => {
     const activeAudio = isCrossfadeActive ? crossfadeAudioRef.current : audioRef.current;
     if (!activeAudio || !isFinite(activeAudio.duration) || activeAudio.duration === 0) return;
 
-    const timeRemaining = activeAudio.duration - activeAudio.currentTime;
+    // Fade out so the fade ends where the track's audio ends, not after its trailing silence
+    const effectiveEnd = getEffectiveEnd(activeAudio.duration);
+    const timeRemaining = effectiveEnd - activeAudio.currentTime;
 
     // Trigger once when we enter the crossfade window (with minimum duration check)
-    if (timeRemaining <= CROSSFADE_DURATION && timeRemaining > 0.25 && activeAudio.duration > CROSSFADE_DURATION + 5) {
+    if (timeRemaining <= crossfadeDuration && timeRemaining > 0.25 && effectiveEnd > crossfadeDuration + 5) {
       startCrossfade();
     }
-  }, [currentTime, crossfade, isPlaying, repeat, startCrossfade, isCrossfadeActive]);
+  }, [currentTime, crossfade, crossfadeDuration, isPlaying, repeat, startCrossfade, isCrossfadeActive, getEffectiveEnd, hasPendingAnnouncement]);
 
   // Cleanup crossfade (unmount / disable)
   useEffect(() => {
@@ -1253,7 +1456,7 @@ const PlayerBar = () => {
     const { track, playlist } = pendingScheduledTransition;
     
     // If crossfade is enabled and we have audio playing, do a smooth transition
-    if (crossfade && isPlaying && currentTrack?.audioUrl && track.audioUrl && crossfadeAudioRef.current) {
+    if (crossfade && crossfadeDuration > 0 && isPlaying && currentTrack?.audioUrl && track.audioUrl && crossfadeAudioRef.current) {
       // Perform crossfade to new scheduled track
       isCrossfadingRef.current = true;
       crossfadeCompleteRef.current = false;
@@ -1264,10 +1467,18 @@ const PlayerBar = () => {
       const fadingInAudio = isCrossfadeActive ? audioRef.current : crossfadeAudioRef.current;
       const fadingOutGain = isCrossfadeActive ? crossfadeGainNodeRef.current : mainGainNodeRef.current;
       const fadingInGain = isCrossfadeActive ? mainGainNodeRef.current : crossfadeGainNodeRef.current;
-      const targetVolume = isMuted ? 0 : Math.min(1, volume[0] / 100);
+      const targetVolume = isMuted ? 0 : Math.min(1, volume / 100);
       
       fadingInAudio.src = track.audioUrl;
       fadingInAudio.volume = 0;
+      applyNormalizationGain(isCrossfadeActive ? "main" : "crossfade", track.id);
+      // Skip a silent intro if the analysis arrives before the fade has got far
+      const fadingInSrc = fadingInAudio.src;
+      getTrackAnalysis(track.id).then(({ cueInSeconds }) => {
+        if (cueInSeconds && fadingInAudio.src === fadingInSrc && fadingInAudio.currentTime < cueInSeconds) {
+          fadingInAudio.currentTime = cueInSeconds;
+        }
+      });
       
       // Initialize Web Audio gain for fade-in element
       const ctx = audioContextRef.current;
@@ -1280,21 +1491,17 @@ const PlayerBar = () => {
       fadingInAudio.play().catch(console.error);
       
       const startOutVolume = fadingOutGain?.gain.value ?? fadingOutAudio.volume ?? 1;
-      const steps = 50;
-      const stepTime = (CROSSFADE_DURATION * 1000) / steps;
+      const steps = Math.max(10, Math.round(crossfadeDuration * 10));
+      const stepTime = (crossfadeDuration * 1000) / steps;
       let step = 0;
       
       const intervalId = setInterval(() => {
         step++;
         const progress = Math.min(1, step / steps);
+        const gains = getCrossfadeGains(progress, crossfadeCurve);
         
-        // Use ease-in-out curve for smoother perceived fade
-        const easedProgress = progress < 0.5 
-          ? 2 * progress * progress 
-          : 1 - Math.pow(-2 * progress + 2, 2) / 2;
-        
-        const fadeOutValue = Math.max(0, startOutVolume * (1 - easedProgress));
-        const fadeInValue = Math.max(0, Math.min(1, targetVolume * easedProgress));
+        const fadeOutValue = Math.max(0, startOutVolume * gains.fadeOut);
+        const fadeInValue = Math.max(0, Math.min(1, targetVolume * gains.fadeIn));
         
         // Direct volume for desktop browsers
         fadingOutAudio.volume = fadeOutValue;
@@ -1364,7 +1571,7 @@ const PlayerBar = () => {
       
       clearScheduledTransition();
     }
-  }, [pendingScheduledTransition, crossfade, isPlaying, currentTrack?.audioUrl, volume, isMuted, clearScheduledTransition, isCrossfadeActive, setCurrentTrackDirect, softStop]);
+  }, [pendingScheduledTransition, crossfade, isPlaying, currentTrack?.audioUrl, volume, isMuted, clearScheduledTransition, isCrossfadeActive, setCurrentTrackDirect, softStop, applyNormalizationGain, crossfadeDuration, crossfadeCurve]);
 
   // Save current position for persistence
   const savePositionRef = useRef<NodeJS.Timeout | null>(null);
@@ -1586,6 +1793,16 @@ const PlayerBar = () => {
         }}
         onEnded={handleCrossfadeEnded}
       />
+      <audio
+        ref={announcementAudioRef}
+        preload="auto"
+        onEnded={finishAnnouncement}
+        onError={() => {
+          if (!announcementUrl) return;
+          console.warn("[Announcements] Clip failed to load:", activeAnnouncement?.id);
+          finishAnnouncement();
+        }}
+      />
 
       {/* Mobile Player Bar */}
       <div className="fixed bottom-0 pb-[var(--safe-bottom-tight)] md:hidden left-0 right-0 glass border-t border-border z-50 flex flex-col">
@@ -1623,6 +1840,18 @@ const PlayerBar = () => {
           >
             <Heart className={cn("w-4 h-4", isLiked && "fill-current")} />
           </Button>
+          <QueuePanel
+            trigger={
+              <Button variant="ghost" size="iconSm" className={cn("h-8 w-8 relative", queue.length > 0 ? "text-primary" : "text-muted-foreground")}>
+                <ListOrdered className="w-4 h-4" />
+                {queue.length > 0 && (
+                  <span className="absolute -top-0.5 -right-0.5 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4">
+                    {queue.length}
+                  </span>
+                )}
+              </Button>
+            }
+          />
           {isAdmin && currentPlaylistId && (
             <Button
               variant="ghost"
@@ -1730,6 +1959,18 @@ const PlayerBar = () => {
           >
             <Heart className={cn("w-4 h-4", isLiked && "fill-current")} />
           </Button>
+          <QueuePanel
+            trigger={
+              <Button variant="ghost" size="iconSm" className={cn("relative", queue.length > 0 ? "text-primary" : "text-muted-foreground hover:text-foreground")}>
+                <ListOrdered className="w-4 h-4" />
+                {queue.length > 0 && (
+                  <span className="absolute -top-1 -right-1 min-w-4 h-4 px-1 rounded-full bg-primary text-primary-foreground text-[10px] leading-4">
+                    {queue.length}
+                  </span>
+                )}
+              </Button>
+            }
+          />
           {isAdmin && currentPlaylistId && (
             <Button
               variant="ghost"
@@ -1822,6 +2063,18 @@ const PlayerBar = () => {
         {/* Volume Control - hidden on iPhone (use device buttons instead for better background audio) */}
         {shouldUseWebAudio ? (
           <div className="flex items-center gap-3 w-48 justify-end">
+            {/* Manual volume while a scheduled level applies: lasts until the next slot, or reset now */}
+            {isVolumeOverridden && volumeSlot && (
+              <Button
+                variant="ghost"
+                size="iconSm"
+                onClick={resetVolumeOverride}
+                title={t("volumeSchedule.resetOverride", { volume: volumeSlot.volume })}
+                className="text-primary hover:text-primary"
+              >
+                <CalendarClock className="w-4 h-4" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="iconSm"
@@ -1831,9 +2084,9 @@ const PlayerBar = () => {
                 setIsMuted((prev) => {
                   const next = !prev;
                   // If user unmutes while the slider is at 0, restore a sane value.
-                  if (!next && volume[0] === 0) {
+                  if (!next && volume === 0) {
                     const restore = Math.max(5, userVolumeRef.current || 75);
-                    setVolume([restore]);
+                    setVolume(restore);
                   }
                   return next;
                 });
@@ -1843,14 +2096,14 @@ const PlayerBar = () => {
               {isMuted ? <VolumeX className="w-4 h-4" /> : <Volume2 className="w-4 h-4" />}
             </Button>
             <Slider
-              value={volume}
+              value={[volume]}
               onPointerDown={() => {
                 // iOS requires resume() to happen in direct user gesture handlers
                 void ensureAudioContextRunning();
               }}
               onValueChange={(next) => {
                 void ensureAudioContextRunning();
-                setVolume(next);
+                setVolume(next[0]);
                 if (next[0] > 0 && isMuted) setIsMuted(false);
               }}
               max={100}
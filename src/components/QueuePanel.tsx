@@ -0,0 +1,101 @@
+import { ReactNode } from "react";
+import { ArrowUp, ArrowDown, X, ListOrdered } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import SignedImage from "@/components/SignedImage";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { usePlayer } from "@/contexts/PlayerContext";
+
+interface QueuePanelProps {
+  trigger: ReactNode;
+}
+
+/**
+ * Side panel (opened from the player bar) listing queued tracks, with reorder/remove/clear
+ */
+const QueuePanel = ({ trigger }: QueuePanelProps) => {
+  const { t } = useLanguage();
+  const { currentTrack, queue, moveInQueue, removeFromQueue, clearQueue } = usePlayer();
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>{trigger}</SheetTrigger>
+      <SheetContent side="right" className="w-80 flex flex-col">
+        <SheetHeader>
+          <SheetTitle>{t("queue.title")}</SheetTitle>
+        </SheetHeader>
+
+        {currentTrack && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium uppercase text-muted-foreground">{t("queue.nowPlaying")}</p>
+            <div className="flex items-center gap-3">
+              <SignedImage
+                src={currentTrack.cover}
+                alt={currentTrack.title}
+                className="w-10 h-10 rounded-md object-cover flex-shrink-0"
+                fallbackSrc="/ambian-logo.png"
+              />
+              <p className="text-sm font-medium text-primary truncate">{currentTrack.title}</p>
+            </div>
+          </div>
+        )}
+
+        <div className="flex items-center justify-between">
+          <p className="text-xs font-medium uppercase text-muted-foreground">{t("queue.upNext")}</p>
+          {queue.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={clearQueue} className="h-7 text-muted-foreground">
+              {t("queue.clear")}
+            </Button>
+          )}
+        </div>
+
+        {queue.length === 0 ? (
+          <div className="flex flex-col items-center justify-center gap-2 py-10 text-center text-muted-foreground">
+            <ListOrdered className="w-8 h-8" />
+            <p className="text-sm">{t("queue.empty")}</p>
+          </div>
+        ) : (
+          <ScrollArea className="flex-1 -mx-2">
+            <div className="space-y-1 px-2">
+              {queue.map((track, index) => (
+                <div key={`${track.id}-${index}`} className="flex items-center gap-2 p-2 rounded-lg bg-secondary/50">
+                  <span className="w-5 text-xs text-muted-foreground text-right">{index + 1}</span>
+                  <p className="flex-1 min-w-0 text-sm truncate">{track.title}</p>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => moveInQueue(index, index - 1)}
+                    disabled={index === 0}
+                  >
+                    <ArrowUp className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => moveInQueue(index, index + 1)}
+                    disabled={index === queue.length - 1}
+                  >
+                    <ArrowDown className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 text-muted-foreground hover:text-destructive"
+                    onClick={() => removeFromQueue(index)}
+                  >
+                    <X className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </ScrollArea>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default QueuePanel;
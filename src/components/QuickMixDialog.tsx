@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Shuffle, Search, Check, Play, X, Heart } from "lucide-react";
+import { Shuffle, Search, Check, Play, X, Heart, Blend, SlidersHorizontal, ArrowLeft } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -7,7 +7,19 @@ import { Checkbox } from "@/components/ui/checkbox";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { usePlayPlaylist } from "@/hooks/usePlayPlaylist";
 import { getSignedAudioUrl } from "@/lib/storage";
+import { shuffleTracks } from "@/lib/shuffleEngine";
+import {
+  DEFAULT_BLEND_WEIGHT,
+  PlaylistBlend,
+  deleteBlend,
+  fetchBlends,
+  generateBlendOrder,
+  saveBlend,
+} from "@/lib/blends";
+import BlendEditor from "@/components/BlendEditor";
 import type { Track } from "@/data/musicData";
 
 interface DbPlaylist {
@@ -36,15 +48,34 @@ const QuickMixDialog = ({ onTrackSelect, trigger, likedOnly = false, category, p
   const [searchQuery, setSearchQuery] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
+  const { toast } = useToast();
+
+  // Blends: weighted mixes that can be saved and scheduled
+  const [showWeights, setShowWeights] = useState(false);
+  const [weights, setWeights] = useState<Record<string, number>>({});
+  const [blends, setBlends] = useState<PlaylistBlend[]>([]);
+  const [editingBlend, setEditingBlend] = useState<PlaylistBlend | null>(null);
+  const [blendName, setBlendName] = useState("");
+  const [isSavingBlend, setIsSavingBlend] = useState(false);
+  // Industry collection mixes stay fixed to their playlists
+  const canUseBlends = !!user && !preselectedPlaylistIds;
+  const { playBlend } = usePlayPlaylist((track, playlistTracks) => onTrackSelect(track, playlistTracks, true));
 
   useEffect(() => {
     if (open) {
       loadPlaylists();
+      if (canUseBlends) {
+        loadBlends();
+      }
     } else {
       // Reset selection when dialog closes (unless preselected)
       if (!preselectedPlaylistIds) {
         setSelectedIds(new Set());
       }
+      setShowWeights(false);
+      setWeights({});
+      setEditingBlend(null);
+      setBlendName("");
     }
   }, [open]);
 
@@ -128,6 +159,90 @@ const QuickMixDialog = ({ onTrackSelect, trigger, likedOnly = false, category, p
     setIsLoading(false);
   };
 
+  const loadBlends = async () => {
+    try {
+      setBlends(await fetchBlends(user!.id));
+    } catch (error) {
+      console.error("Failed to load blends:", error);
+    }
+  };
+
+  const openBlend = async (blend: PlaylistBlend) => {
+    // A blend may use playlists this dialog doesn't list (e.g. outside the current category)
+    const playlistIds = blend.playlists.map(p => p.playlistId);
+    const missingIds = playlistIds.filter(id => !allPlaylists.some(p => p.id === id));
+    if (missingIds.length > 0) {
+      const { data } = await supabase
+        .from("playlists")
+        .select("id, name, description, cover_url, category")
+        .in("id", missingIds);
+      setAllPlaylists(prev => [...prev, ...(data || [])]);
+    }
+
+    setSelectedIds(new Set(playlistIds));
+    setWeights(Object.fromEntries(blend.playlists.map(p => [p.playlistId, p.weight])));
+    setEditingBlend(blend);
+    setBlendName(blend.name);
+    setShowWeights(true);
+  };
+
+  const handlePlayBlend = async (blend: PlaylistBlend) => {
+    setIsPlaying(true);
+    try {
+      if (await playBlend(blend.id)) {
+        setOpen(false);
+      } else {
+        toast({ title: t("blend.empty"), variant: "destructive" });
+      }
+    } finally {
+      setIsPlaying(false);
+    }
+  };
+
+  const handleSaveBlend = async () => {
+    if (!user) return;
+    setIsSavingBlend(true);
+
+    try {
+      const blendId = await saveBlend(user.id, {
+        id: editingBlend?.id,
+        name: blendName.trim(),
+        playlists: Array.from(selectedIds).map(id => ({
+          playlistId: id,
+          weight: weights[id] ?? DEFAULT_BLEND_WEIGHT,
+        })),
+      });
+
+      const updated = await fetchBlends(user.id);
+      setBlends(updated);
+      setEditingBlend(updated.find(b => b.id === blendId) ?? null);
+      toast({ title: t("blend.saved") });
+    } catch (error) {
+      console.error("Failed to save blend:", error);
+      toast({ title: t("common.error"), description: t("blend.saveFailed"), variant: "destructive" });
+    } finally {
+      setIsSavingBlend(false);
+    }
+  };
+
+  const handleDeleteBlend = async () => {
+    if (!editingBlend) return;
+    setIsSavingBlend(true);
+
+    try {
+      await deleteBlend(editingBlend.id);
+      setBlends(prev => prev.filter(b => b.id !== editingBlend.id));
+      setEditingBlend(null);
+      setBlendName("");
+      toast({ title: t("blend.deleted") });
+    } catch (error) {
+      console.error("Failed to delete blend:", error);
+      toast({ title: t("common.error"), description: error instanceof Error ? error.message : String(error), variant: "destructive" });
+    } finally {
+      setIsSavingBlend(false);
+    }
+  };
+
   const togglePlaylist = (id: string) => {
     setSelectedIds(prev => {
       const newSet = new Set(prev);
@@ -153,7 +268,7 @@ const QuickMixDialog = ({ onTrackSelect, trigger, likedOnly = false, category, p
     setIsPlaying(true);
 
     try {
-      const allTracks: Track[] = [];
+      const tracksByPlaylist = new Map<string, Track[]>();
       const selectedArray = Array.from(selectedIds);
       const hasLikedSongs = selectedArray.includes("liked-songs");
       const playlistIds = selectedArray.filter(id => id !== "liked-songs");
@@ -178,7 +293,7 @@ const QuickMixDialog = ({ onTrackSelect, trigger, likedOnly = false, category, p
               cover: t.cover_url || "/placeholder.svg",
               genre: t.genre || "",
             }));
-          allTracks.push(...likedTracks);
+          tracksByPlaylist.set("liked-songs", likedTracks);
         }
       }
 
@@ -190,10 +305,11 @@ const QuickMixDialog = ({ onTrackSelect, trigger, likedOnly = false, category, p
           .in("playlist_id", playlistIds);
 
         if (playlistTracksData) {
-          const playlistTracks = playlistTracksData
-            .map((item: any) => item.tracks)
-            .filter(Boolean)
-            .map((t: any) => ({
+          for (const item of playlistTracksData) {
+            const t = item.tracks;
+            if (!t) continue;
+            const tracks = tracksByPlaylist.get(item.playlist_id) ?? [];
+            tracks.push({
               id: t.id,
               title: t.title,
               artist: t.artist,
@@ -201,11 +317,13 @@ const QuickMixDialog = ({ onTrackSelect, trigger, likedOnly = false, category, p
               duration: t.duration || "",
               cover: t.cover_url || "/placeholder.svg",
               genre: t.genre || "",
-            }));
-          allTracks.push(...playlistTracks);
+            });
+            tracksByPlaylist.set(item.playlist_id, tracks);
+          }
         }
       }
 
+      const allTracks = Array.from(tracksByPlaylist.values()).flat();
       if (allTracks.length === 0) {
         setIsPlaying(false);
         return;
@@ -221,12 +339,14 @@ const QuickMixDialog = ({ onTrackSelect, trigger, likedOnly = false, category, p
         return;
       }
 
-      // Fisher-Yates shuffle for proper random distribution
-      const shuffledTracks = [...uniqueTracks];
-      for (let i = shuffledTracks.length - 1; i > 0; i--) {
-        const j = Math.floor(Math.random() * (i + 1));
-        [shuffledTracks[i], shuffledTracks[j]] = [shuffledTracks[j], shuffledTracks[i]];
-      }
+      // Once weights have been opened or set, follow them; otherwise shuffle everything with the
+      // variety rules (artist separation, no recent repeats)
+      const shuffledTracks = showWeights || Object.keys(weights).length > 0
+        ? generateBlendOrder(selectedArray.map(id => ({
+            tracks: tracksByPlaylist.get(id) ?? [],
+            weight: weights[id] ?? DEFAULT_BLEND_WEIGHT,
+          })))
+        : shuffleTracks(uniqueTracks);
 
       // Get signed URL for the first track
       const firstTrack = shuffledTracks[0];
@@ -291,77 +411,134 @@ const QuickMixDialog = ({ onTrackSelect, trigger, likedOnly = false, category, p
           {t("quickMix.description")}
         </p>
 
-        {/* Search */}
-        <div className="relative">
-          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
-          <Input
-            placeholder={t("quickMix.searchPlaylists")}
-            value={searchQuery}
-            onChange={(e) => setSearchQuery(e.target.value)}
-            className="pl-10"
-            autoFocus={false}
-          />
-        </div>
-
-        {/* Actions */}
-        <div className="flex items-center justify-between">
-          <Button
-            variant="ghost"
-            size="sm"
-            onClick={handleSelectAll}
-          >
-            {selectedIds.size === filteredPlaylists.length && filteredPlaylists.length > 0 
-              ? t("quickMix.deselectAll")
-              : t("quickMix.selectAll")}
-          </Button>
-          {selectedIds.size > 0 && (
-            <span className="text-sm text-muted-foreground">
-              {t("quickMix.selected").replace("{count}", String(selectedIds.size))}
-            </span>
-          )}
-        </div>
-
-        {/* Playlist List */}
-        <div className="flex-1 min-h-0 h-[300px] -mx-6 px-6 overflow-y-auto overscroll-contain">
-          <div className="space-y-1 py-2">
-            {isLoading ? (
-              <p className="text-center text-muted-foreground py-8">{t("quickMix.loading")}</p>
-            ) : filteredPlaylists.length === 0 ? (
-              <p className="text-center text-muted-foreground py-8">{t("quickMix.noPlaylists")}</p>
-            ) : (
-              filteredPlaylists.map((playlist) => (
-                <button
-                  key={playlist.id}
-                  onClick={() => togglePlaylist(playlist.id)}
-                  className={`w-full flex items-center gap-3 p-2 rounded-lg transition-colors ${
-                    selectedIds.has(playlist.id)
-                      ? "bg-primary/10 ring-1 ring-primary/30"
-                      : "hover:bg-muted/50"
-                  }`}
-                >
-                  <Checkbox checked={selectedIds.has(playlist.id)} className="pointer-events-none" />
-                  {playlist.id === "liked-songs" ? (
-                    <div className="w-10 h-10 rounded bg-gradient-to-br from-primary/80 to-primary flex items-center justify-center">
-                      <Heart className="w-5 h-5 text-primary-foreground fill-primary-foreground" />
+        {showWeights ? (
+          <div className="flex-1 min-h-0 -mx-6 px-6 overflow-y-auto overscroll-contain space-y-3">
+            <Button variant="ghost" size="sm" onClick={() => setShowWeights(false)} className="gap-2 -ml-2">
+              <ArrowLeft className="w-4 h-4" />
+              {t("common.back")}
+            </Button>
+            <BlendEditor
+              playlists={allPlaylists.filter(p => selectedIds.has(p.id))}
+              weights={weights}
+              onWeightChange={(playlistId, weight) => setWeights(prev => ({ ...prev, [playlistId]: weight }))}
+              name={blendName}
+              onNameChange={setBlendName}
+              onSave={handleSaveBlend}
+              onDelete={editingBlend ? handleDeleteBlend : undefined}
+              isSaving={isSavingBlend}
+            />
+          </div>
+        ) : (
+          <>
+            {/* Saved blends: open to edit, or play right away */}
+            {canUseBlends && blends.length > 0 && (
+              <div className="space-y-2">
+                <p className="text-xs font-medium uppercase text-muted-foreground">{t("blend.yourBlends")}</p>
+                <div className="flex flex-wrap gap-2">
+                  {blends.map(blend => (
+                    <div key={blend.id} className="flex items-center rounded-full border border-border bg-secondary/50">
+                      <button
+                        onClick={() => openBlend(blend)}
+                        className="flex items-center gap-1.5 pl-3 pr-2 py-1 text-sm hover:text-primary"
+                      >
+                        <Blend className="w-3.5 h-3.5" />
+                        {blend.name}
+                      </button>
+                      <button
+                        onClick={() => handlePlayBlend(blend)}
+                        disabled={isPlaying}
+                        aria-label={t("blend.play")}
+                        className="pl-1 pr-3 py-1 text-muted-foreground hover:text-primary"
+                      >
+                        <Play className="w-3.5 h-3.5" />
+                      </button>
                     </div>
-                  ) : (
-                    <img
-                      src={playlist.cover_url || "/placeholder.svg"}
-                      alt={playlist.name}
-                      className="w-10 h-10 rounded object-cover"
-                    />
-                  )}
-                  <div className="flex-1 text-left min-w-0">
-                    <p className="font-medium text-foreground truncate">{playlist.name}</p>
-                    {playlist.category && (
-                      <p className="text-xs text-muted-foreground capitalize">{playlist.category}</p>
-                    )}
-                  </div>
-                </button>
-              ))
+                  ))}
+                </div>
+              </div>
             )}
-          </div>
-        </div>
+
+            {/* Search */}
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder={t("quickMix.searchPlaylists")}
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-10"
+                autoFocus={false}
+              />
+            </div>
+
+            {/* Actions */}
+            <div className="flex items-center justify-between">
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={handleSelectAll}
+              >
+                {selectedIds.size === filteredPlaylists.length && filteredPlaylists.length > 0 
+                  ? t("quickMix.deselectAll")
+                  : t("quickMix.selectAll")}
+              </Button>
+              {selectedIds.size > 0 && (
+                <div className="flex items-center gap-2">
+                  <span className="text-sm text-muted-foreground">
+                    {t("quickMix.selected").replace("{count}", String(selectedIds.size))}
+                  </span>
+                  {canUseBlends && (
+                    <Button variant="ghost" size="sm" onClick={() => setShowWeights(true)} className="gap-2">
+                      <SlidersHorizontal className="w-4 h-4" />
+                      {t("blend.weights")}
+                    </Button>
+                  )}
+                </div>
+              )}
+            </div>
+
+            {/* Playlist List */}
+            <div className="flex-1 min-h-0 h-[300px] -mx-6 px-6 overflow-y-auto overscroll-contain">
+              <div className="space-y-1 py-2">
+                {isLoading ? (
+                  <p className="text-center text-muted-foreground py-8">{t("quickMix.loading")}</p>
+                ) : filteredPlaylists.length === 0 ? (
+                  <p className="text-center text-muted-foreground py-8">{t("quickMix.noPlaylists")}</p>
+                ) : (
+                  filteredPlaylists.map((playlist) => (
+                    <button
+                      key={playlist.id}
+                      onClick={() => togglePlaylist(playlist.id)}
+                      className={`w-full flex items-center gap-3 p-2 rounded-lg transition-colors ${
+                        selectedIds.has(playlist.id)
+                          ? "bg-primary/10 ring-1 ring-primary/30"
+                          : "hover:bg-muted/50"
+                      }`}
+                    >
+                      <Checkbox checked={selectedIds.has(playlist.id)} className="pointer-events-none" />
+                      {playlist.id === "liked-songs" ? (
+                        <div className="w-10 h-10 rounded bg-gradient-to-br from-primary/80 to-primary flex items-center justify-center">
+                          <Heart className="w-5 h-5 text-primary-foreground fill-primary-foreground" />
+                        </div>
+                      ) : (
+                        <img
+                          src={playlist.cover_url || "/placeholder.svg"}
+                          alt={playlist.name}
+                          className="w-10 h-10 rounded object-cover"
+                        />
+                      )}
+                      <div className="flex-1 text-left min-w-0">
+                        <p className="font-medium text-foreground truncate">{playlist.name}</p>
+                        {playlist.category && (
+                          <p className="text-xs text-muted-foreground capitalize">{playlist.category}</p>
+                        )}
+                      </div>
+                    </button>
+                  ))
+                )}
+              </div>
+            </div>
+          </>
+        )}
 
         {/* Play Button */}
         <div className="pt-4 border-t border-border">
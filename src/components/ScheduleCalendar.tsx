@@ -0,0 +1,472 @@
+import { useState, useMemo, useRef } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Eye } from "lucide-react";
+import { cn } from "@/lib/utils";
+import {
+  ScheduleEntry,
+  ScheduleException,
+  filterByLocation,
+  getTimeZoneOffsetMinutes,
+  isScheduleValidOn,
+  resolveSchedule,
+  toDateKey,
+} from "@/lib/scheduleResolver";
+
+type ScheduleTimes = Pick<ScheduleEntry, "days_of_week" | "start_time" | "end_time">;
+
+interface ScheduleCalendarProps {
+  schedules: ScheduleEntry[];
+  exceptions: ScheduleException[];
+  locations: { id: string; name: string; timezone: string | null }[];
+  deviceLocationId: string | null;
+  getSourceName: (entry: { playlist_id: string | null; blend_id: string | null }) => string;
+  onEdit: (scheduleId: string) => void;
+  onMove: (scheduleId: string, times: ScheduleTimes) => void;
+}
+
+// A schedule (or exception) drawn in one day column, in device time (minutes since midnight)
+interface Block {
+  id: string;
+  kind: "schedule" | "exception";
+  entry: ScheduleEntry | ScheduleException;
+  column: number; // 0 = Monday
+  start: number;
+  end: number;
+  isLast: boolean; // Holds the end of the window (where the resize handle goes)
+  lane: number;
+}
+
+interface DragState {
+  scheduleId: string;
+  mode: "move" | "resize";
+  originX: number;
+  originY: number;
+  columnWidth: number;
+  minutesDelta: number;
+  dayDelta: number;
+}
+
+const DAY = 24 * 60;
+const WEEK = 7 * DAY;
+const HOUR_HEIGHT = 28; // px
+const SNAP_MINUTES = 15;
+// Columns run Monday to Sunday; days_of_week uses 0 = Sunday
+const COLUMN_DAY_KEYS = [
+  "schedule.dayMon",
+  "schedule.dayTue",
+  "schedule.dayWed",
+  "schedule.dayThu",
+  "schedule.dayFri",
+  "schedule.daySat",
+  "schedule.daySun",
+];
+// Select value for "devices without a zone" (account-wide entries only)
+const NO_ZONE = "none";
+
+const toMinutes = (time: string) => {
+  const [h, m] = time.split(":").map(Number);
+  return h * 60 + m;
+};
+
+const fromMinutes = (minutes: number) => {
+  const m = ((minutes % DAY) + DAY) % DAY;
+  return `${String(Math.floor(m / 60)).padStart(2, "0")}:${String(m % 60).padStart(2, "0")}`;
+};
+
+const columnToWeekday = (column: number) => (column + 1) % 7;
+const weekdayToColumn = (day: number) => (day + 6) % 7;
+
+const startOfWeek = (date: Date) => {
+  const monday = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+  monday.setDate(monday.getDate() - weekdayToColumn(monday.getDay()));
+  return monday;
+};
+
+const addDays = (date: Date, days: number) => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+/**
+ * A window of `length` minutes starting at `weekStart` minutes into the week, cut at midnights
+ * (and wrapped from Sunday night into Monday)
+ */
+const splitIntoDays = (weekStart: number, length: number) => {
+  const parts: { column: number; start: number; end: number; isLast: boolean }[] = [];
+  let from = ((weekStart % WEEK) + WEEK) % WEEK;
+  let remaining = length;
+  while (remaining > 0) {
+    const column = Math.floor(from / DAY);
+    const start = from - column * DAY;
+    const end = Math.min(DAY, start + remaining);
+    remaining -= end - start;
+    parts.push({ column, start, end, isLast: remaining === 0 });
+    from = ((column + 1) % 7) * DAY;
+  }
+  return parts;
+};
+
+/**
+ * New days and times for a schedule dragged by `minutesDelta` (and `dayDelta` columns), or with its end
+ * dragged by `minutesDelta`. Deltas are applied to the schedule's own wall-clock times.
+ */
+const moveSchedule = (
+  schedule: ScheduleEntry,
+  mode: DragState["mode"],
+  minutesDelta: number,
+  dayDelta: number
+): ScheduleTimes => {
+  const start = toMinutes(schedule.start_time);
+  const length = (toMinutes(schedule.end_time) - start + DAY) % DAY || DAY;
+
+  if (mode === "resize") {
+    const newLength = Math.max(SNAP_MINUTES, Math.min(DAY - SNAP_MINUTES, length + minutesDelta));
+    return {
+      days_of_week: schedule.days_of_week,
+      start_time: fromMinutes(start),
+      end_time: fromMinutes(start + newLength),
+    };
+  }
+
+  const moved = start + minutesDelta;
+  const dayShift = Math.floor(moved / DAY) + dayDelta;
+  return {
+    days_of_week: schedule.days_of_week.map(day => (((day + dayShift) % 7) + 7) % 7).sort(),
+    start_time: fromMinutes(moved),
+    end_time: fromMinutes(moved + length),
+  };
+};
+
+/**
+ * Week view of the schedules as blocks. Blocks can be dragged to move them and resized from the bottom.
+ * Overlaps are drawn side by side, with the parts another entry wins (by the player's own resolution) striped.
+ */
+const ScheduleCalendar = ({
+  schedules,
+  exceptions,
+  locations,
+  deviceLocationId,
+  getSourceName,
+  onEdit,
+  onMove,
+}: ScheduleCalendarProps) => {
+  const { t } = useLanguage();
+  const gridRef = useRef<HTMLDivElement>(null);
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [zone, setZone] = useState(deviceLocationId ?? NO_ZONE);
+  const [selected, setSelected] = useState(() => {
+    const now = new Date();
+    const minutes = now.getHours() * 60 + now.getMinutes();
+    return { column: weekdayToColumn(now.getDay()), minutes: minutes - (minutes % SNAP_MINUTES) };
+  });
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  const locationId = zone === NO_ZONE ? null : zone;
+  const zoneSchedules = useMemo(
+    () => filterByLocation(schedules, locationId).filter(s => s.is_active),
+    [schedules, locationId]
+  );
+  const zoneExceptions = useMemo(() => filterByLocation(exceptions, locationId), [exceptions, locationId]);
+
+  const columnDates = useMemo(() => Array.from({ length: 7 }, (_, column) => addDays(weekStart, column)), [weekStart]);
+
+  // Blocks for the week, in device time, laid out in lanes where they overlap
+  const blocks = useMemo(() => {
+    const midWeek = addDays(weekStart, 3);
+    // Minutes to add to an entry's wall-clock time to get device time
+    const shiftFor = (timeZone: string | null) =>
+      timeZone ? getTimeZoneOffsetMinutes(null, midWeek) - getTimeZoneOffsetMinutes(timeZone, midWeek) : 0;
+
+    const result: Block[] = [];
+    for (const schedule of zoneSchedules) {
+      const start = toMinutes(schedule.start_time);
+      const length = (toMinutes(schedule.end_time) - start + DAY) % DAY;
+      if (length === 0) continue;
+      const shift = shiftFor(schedule.timezone);
+
+      for (const day of schedule.days_of_week) {
+        const column = weekdayToColumn(day);
+        if (!isScheduleValidOn(schedule, toDateKey(columnDates[column]))) continue;
+        for (const part of splitIntoDays(column * DAY + start + shift, length)) {
+          result.push({ id: schedule.id, kind: "schedule", entry: schedule, ...part, lane: 0 });
+        }
+      }
+    }
+
+    for (const exception of zoneExceptions) {
+      const column = columnDates.findIndex(date => toDateKey(date) === exception.exception_date);
+      if (column === -1) continue;
+      const start = exception.start_time ? toMinutes(exception.start_time) : 0;
+      const end = exception.end_time ? toMinutes(exception.end_time) : DAY;
+      const length = (end - start + DAY) % DAY || DAY;
+      for (const part of splitIntoDays(column * DAY + start + shiftFor(exception.timezone), length)) {
+        result.push({ id: exception.id, kind: "exception", entry: exception, ...part, lane: 0 });
+      }
+    }
+
+    // First free lane in each column, in start order
+    const laneEnds: number[][] = Array.from({ length: 7 }, () => []);
+    result.sort((a, b) => a.start - b.start || b.end - a.end);
+    for (const block of result) {
+      const lanes = laneEnds[block.column];
+      const lane = lanes.findIndex(end => end <= block.start);
+      block.lane = lane === -1 ? lanes.length : lane;
+      lanes[block.lane] = block.end;
+    }
+    return { list: result, laneCounts: laneEnds.map(lanes => Math.max(1, lanes.length)) };
+  }, [zoneSchedules, zoneExceptions, weekStart, columnDates]);
+
+  // What the player resolves to in every slot of the week (entry id, or null for nothing)
+  const winners = useMemo(
+    () =>
+      columnDates.map(date =>
+        Array.from({ length: DAY / SNAP_MINUTES }, (_, slot) => {
+          const at = new Date(date);
+          at.setMinutes((slot + 0.5) * SNAP_MINUTES);
+          return resolveSchedule(zoneSchedules, zoneExceptions, at)?.id ?? null;
+        })
+      ),
+    [columnDates, zoneSchedules, zoneExceptions]
+  );
+
+  // Parts of a block where another entry plays, as [start, end) minute ranges
+  const getCoveredRanges = (block: Block) => {
+    const ranges: [number, number][] = [];
+    for (let minute = block.start; minute < block.end; minute += SNAP_MINUTES) {
+      const slot = Math.floor(minute / SNAP_MINUTES);
+      if (winners[block.column][slot] === block.id) continue;
+      const last = ranges[ranges.length - 1];
+      const to = Math.min(block.end, (slot + 1) * SNAP_MINUTES);
+      if (last && last[1] >= minute) last[1] = to;
+      else ranges.push([minute, to]);
+    }
+    return ranges;
+  };
+
+  const preview = useMemo(() => {
+    const at = new Date(columnDates[selected.column]);
+    at.setMinutes(selected.minutes);
+    return resolveSchedule(zoneSchedules, zoneExceptions, at);
+  }, [columnDates, selected, zoneSchedules, zoneExceptions]);
+
+  const handleGridClick = (column: number, e: React.MouseEvent<HTMLDivElement>) => {
+    const y = e.clientY - e.currentTarget.getBoundingClientRect().top;
+    const minutes = Math.floor((y / HOUR_HEIGHT) * 60 / SNAP_MINUTES) * SNAP_MINUTES;
+    setSelected({ column, minutes: Math.max(0, Math.min(DAY - SNAP_MINUTES, minutes)) });
+  };
+
+  const handlePointerDown = (block: Block, mode: DragState["mode"], e: React.PointerEvent<HTMLDivElement>) => {
+    if (block.kind !== "schedule" || e.button !== 0) return;
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const next: DragState = {
+      scheduleId: block.id,
+      mode,
+      originX: e.clientX,
+      originY: e.clientY,
+      columnWidth: (gridRef.current?.getBoundingClientRect().width ?? 700) / 7,
+      minutesDelta: 0,
+      dayDelta: 0,
+    };
+    dragRef.current = next;
+    setDrag(next);
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = dragRef.current;
+    if (!current) return;
+    const minutesDelta = Math.round(((e.clientY - current.originY) / HOUR_HEIGHT) * 60 / SNAP_MINUTES) * SNAP_MINUTES;
+    const dayDelta = current.mode === "move" ? Math.round((e.clientX - current.originX) / current.columnWidth) : 0;
+    if (minutesDelta === current.minutesDelta && dayDelta === current.dayDelta) return;
+    const next = { ...current, minutesDelta, dayDelta };
+    dragRef.current = next;
+    setDrag(next);
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    const current = dragRef.current;
+    if (!current) return;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    dragRef.current = null;
+    setDrag(null);
+
+    // A press without movement is a click
+    if (current.minutesDelta === 0 && current.dayDelta === 0) {
+      onEdit(current.scheduleId);
+      return;
+    }
+    const schedule = schedules.find(s => s.id === current.scheduleId);
+    if (schedule) onMove(schedule.id, moveSchedule(schedule, current.mode, current.minutesDelta, current.dayDelta));
+  };
+
+  const describePreview = () => {
+    if (!preview) return t("scheduleCalendar.nothingScheduled");
+    if (!preview.playlist_id && !preview.blend_id) return t("scheduleCalendar.closed");
+    const source = getSourceName(preview);
+    return preview.name ? `${preview.name} · ${source}` : source;
+  };
+
+  const weekLabel = `${weekStart.toLocaleDateString(navigator.language, { day: "numeric", month: "short" })} – ${
+    addDays(weekStart, 6).toLocaleDateString(navigator.language, { day: "numeric", month: "short", year: "numeric" })
+  }`;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-center gap-2">
+        <Button variant="outline" size="icon" onClick={() => setWeekStart(prev => addDays(prev, -7))}>
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+        <Button variant="outline" size="icon" onClick={() => setWeekStart(prev => addDays(prev, 7))}>
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+        <Button variant="ghost" size="sm" onClick={() => setWeekStart(startOfWeek(new Date()))}>
+          {t("scheduleCalendar.thisWeek")}
+        </Button>
+        <span className="text-sm font-medium text-foreground">{weekLabel}</span>
+        {locations.length > 0 && (
+          <Select value={zone} onValueChange={setZone}>
+            <SelectTrigger className="w-full sm:w-48 sm:ml-auto">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NO_ZONE}>{t("scheduleCalendar.noZone")}</SelectItem>
+              {locations.map(location => (
+                <SelectItem key={location.id} value={location.id}>
+                  {location.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {/* What plays at the selected time */}
+      <Card className="bg-primary/10 border-primary/30">
+        <CardContent className="p-3 flex items-center gap-2 text-sm">
+          <Eye className="w-4 h-4 text-primary shrink-0" />
+          <span className="text-muted-foreground">
+            {t(COLUMN_DAY_KEYS[selected.column])} {fromMinutes(selected.minutes)}
+          </span>
+          <span className="font-medium text-foreground truncate">{describePreview()}</span>
+        </CardContent>
+      </Card>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[640px]">
+          {/* Day headers */}
+          <div className="flex pl-12">
+            {columnDates.map((date, column) => (
+              <div key={column} className="flex-1 text-center text-xs text-muted-foreground pb-1">
+                {t(COLUMN_DAY_KEYS[column])} {date.getDate()}
+              </div>
+            ))}
+          </div>
+
+          <div className="flex">
+            {/* Hour labels */}
+            <div className="w-12 shrink-0">
+              {Array.from({ length: 24 }, (_, hour) => (
+                <div key={hour} className="text-[10px] text-muted-foreground pr-1 text-right" style={{ height: HOUR_HEIGHT }}>
+                  {fromMinutes(hour * 60)}
+                </div>
+              ))}
+            </div>
+
+            <div ref={gridRef} className="flex flex-1 border-l border-border">
+              {columnDates.map((_, column) => (
+                <div
+                  key={column}
+                  className="relative flex-1 border-r border-border cursor-pointer"
+                  style={{
+                    height: 24 * HOUR_HEIGHT,
+                    backgroundImage: `repeating-linear-gradient(to bottom, transparent 0, transparent ${HOUR_HEIGHT - 1}px, hsl(var(--border)) ${HOUR_HEIGHT - 1}px, hsl(var(--border)) ${HOUR_HEIGHT}px)`,
+                  }}
+                  onClick={(e) => handleGridClick(column, e)}
+                >
+                  {blocks.list.filter(block => block.column === column).map(block => {
+                    const laneWidth = 100 / blocks.laneCounts[column];
+                    const isDragged = drag?.scheduleId === block.id && block.kind === "schedule";
+                    const dy = isDragged && drag.mode === "move" ? (drag.minutesDelta / 60) * HOUR_HEIGHT : 0;
+                    const dx = isDragged && drag.mode === "move" ? drag.dayDelta * drag.columnWidth : 0;
+                    const extra = isDragged && drag.mode === "resize" && block.isLast ? drag.minutesDelta : 0;
+                    const end = Math.max(block.start + SNAP_MINUTES, block.end + extra);
+                    const schedule = block.kind === "schedule" ? (block.entry as ScheduleEntry) : null;
+                    const label = block.entry.name || getSourceName(block.entry);
+
+                    return (
+                      <div
+                        key={`${block.id}-${block.column}-${block.start}`}
+                        className={cn(
+                          "absolute rounded-md border px-1 py-0.5 overflow-hidden text-[10px] leading-tight select-none touch-none",
+                          schedule
+                            ? "bg-primary/25 border-primary/50 text-foreground cursor-grab"
+                            : "bg-amber-500/25 border-amber-500/50 text-foreground cursor-default",
+                          isDragged && "z-20 shadow-lg cursor-grabbing"
+                        )}
+                        style={{
+                          top: (block.start / 60) * HOUR_HEIGHT,
+                          height: ((end - block.start) / 60) * HOUR_HEIGHT,
+                          left: `${block.lane * laneWidth}%`,
+                          width: `${laneWidth}%`,
+                          transform: isDragged ? `translate(${dx}px, ${dy}px)` : undefined,
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        onPointerDown={(e) => handlePointerDown(block, "move", e)}
+                        onPointerMove={handlePointerMove}
+                        onPointerUp={handlePointerUp}
+                      >
+                        {/* Parts another entry wins */}
+                        {!isDragged && getCoveredRanges(block).map(([from, to]) => (
+                          <div
+                            key={from}
+                            className="absolute inset-x-0 pointer-events-none"
+                            style={{
+                              top: ((from - block.start) / 60) * HOUR_HEIGHT,
+                              height: ((to - from) / 60) * HOUR_HEIGHT,
+                              backgroundImage: "repeating-linear-gradient(135deg, hsl(var(--background) / 0.7) 0 4px, transparent 4px 8px)",
+                            }}
+                          />
+                        ))}
+                        <div className="relative font-medium truncate">{label}</div>
+                        {schedule && schedule.priority > 0 && (
+                          <div className="relative text-muted-foreground truncate">
+                            {t("schedule.priority")} {schedule.priority}
+                          </div>
+                        )}
+                        {schedule && block.isLast && (
+                          <div
+                            className="absolute inset-x-0 bottom-0 h-1.5 cursor-ns-resize"
+                            onPointerDown={(e) => handlePointerDown(block, "resize", e)}
+                            onPointerMove={handlePointerMove}
+                            onPointerUp={handlePointerUp}
+                          />
+                        )}
+                      </div>
+                    );
+                  })}
+
+                  {/* Selected time */}
+                  {selected.column === column && (
+                    <div
+                      className="absolute inset-x-0 border-t-2 border-primary pointer-events-none z-10"
+                      style={{ top: (selected.minutes / 60) * HOUR_HEIGHT }}
+                    />
+                  )}
+                </div>
+              ))}
+            </div>
+          </div>
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">{t("scheduleCalendar.hint")}</p>
+    </div>
+  );
+};
+
+export default ScheduleCalendar;
@@ -7,23 +7,44 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Switch } from "@/components/ui/switch";
+import { Slider } from "@/components/ui/slider";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Clock, Plus, Trash2, Calendar, Music, Play, ArrowLeft, Power, Heart } from "lucide-react";
+import { Clock, Plus, Trash2, Calendar, CalendarX, CalendarRange, Globe, MapPin, Music, Play, ArrowLeft, Power, Heart, X, Blend, Activity, Volume2, Store, Layers, List, CalendarDays } from "lucide-react";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
 import { Checkbox } from "@/components/ui/checkbox";
+import {
+  ScheduleEntry,
+  ScheduleException,
+  dateRangesIntersect,
+  filterByLocation,
+  formatTimeZone,
+  getDeviceTimeZone,
+  getTimeZoneOffsetMinutes,
+  getTimeZoneOptions,
+  isDatedSchedule,
+  resolveSchedule,
+  toDateKey,
+} from "@/lib/scheduleResolver";
+import { PlaylistBlend, fetchBlends } from "@/lib/blends";
+import { DEFAULT_ENERGY_CURVE, EnergyCurvePoint, parseEnergyCurve } from "@/lib/energyCurve";
+import type { Tables } from "@/integrations/supabase/types";
+import EnergyCurveEditor from "@/components/EnergyCurveEditor";
+import AnnouncementsManager from "@/components/AnnouncementsManager";
+import VolumeSlotsManager from "@/components/VolumeSlotsManager";
+import OpeningHoursManager from "@/components/OpeningHoursManager";
+import ScheduleCalendar from "@/components/ScheduleCalendar";
+import ScheduleTemplatesManager from "@/components/ScheduleTemplatesManager";
+import type { OpeningState } from "@/lib/openingHours";
+import { canManageSchedules } from "@/lib/organizations";
 
-interface Schedule {
-  id: string;
-  name: string | null;
-  playlist_id: string;
-  days_of_week: number[];
-  start_time: string;
-  end_time: string;
-  is_active: boolean;
-  priority: number;
-}
+type Schedule = ScheduleEntry & Pick<Tables<"playlist_schedules">, "schedule_type" | "energy_curve" | "volume">;
+// The fields that decide whether two schedules compete for the same time
+type ScheduleWindow = Pick<
+  ScheduleEntry,
+  "days_of_week" | "start_time" | "end_time" | "timezone" | "location_id" | "valid_from" | "valid_until" | "priority"
+>;
 
 interface Playlist {
   id: string;
@@ -31,6 +52,12 @@ interface Playlist {
   cover_url: string | null;
 }
 
+interface Location {
+  id: string;
+  name: string;
+  timezone: string | null;
+}
+
 const getDays = (t: (key: string) => string) => [
   { value: 0, label: t("schedule.daySun"), full: "Sunday" },
   { value: 1, label: t("schedule.dayMon"), full: "Monday" },
@@ -41,36 +68,101 @@ const getDays = (t: (key: string) => string) => [
   { value: 6, label: t("schedule.daySat"), full: "Saturday" },
 ];
 
+// Select value for schedules without a timezone (evaluated in the playing device's time)
+const DEVICE_TIMEZONE = "device";
+
+// Select value for schedules that apply to every zone
+const ALL_ZONES = "all";
+
+// Remembers whether the schedules were last shown as a list or as a week
+const VIEW_KEY = "ambian_schedule_view";
+
+// Playlists and blends share one select; blend values carry this prefix
+const BLEND_PREFIX = "blend:";
+
+const toSourceValue = (entry: { playlist_id: string | null; blend_id: string | null }) =>
+  entry.blend_id ? `${BLEND_PREFIX}${entry.blend_id}` : entry.playlist_id || "";
+
+const fromSourceValue = (value: string) =>
+  value.startsWith(BLEND_PREFIX)
+    ? { playlist_id: null, blend_id: value.slice(BLEND_PREFIX.length) }
+    : { playlist_id: value, blend_id: null };
+
+
 interface ScheduleManagerProps {
   onBack?: () => void;
   schedulerEnabled?: boolean;
   onToggleScheduler?: (enabled: boolean) => void;
+  onAnnouncementsChange?: () => void;
+  openingState?: OpeningState | null; // Open/closed by the opening hours, as the scheduler saw it last
+  onOpeningHoursChange?: () => void;
 }
 
-const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }: ScheduleManagerProps) => {
-  const { user } = useAuth();
+const ScheduleManager = ({
+  onBack,
+  schedulerEnabled = true,
+  onToggleScheduler,
+  onAnnouncementsChange,
+  openingState,
+  onOpeningHoursChange,
+}: ScheduleManagerProps) => {
+  const { user, accountUserId, orgRole, getDeviceId } = useAuth();
   const { t } = useLanguage();
+  // Schedules belong to the organization's account; player-only members can view them but not edit
+  const canEdit = canManageSchedules(orgRole);
+  // Opening hours and volume levels are still kept per login, so only the account itself edits them here
+  const isAccountOwner = !!user && user.id === accountUserId;
   const { toast } = useToast();
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [playlists, setPlaylists] = useState<Playlist[]>([]);
+  const [blends, setBlends] = useState<PlaylistBlend[]>([]);
   const [isLoading, setIsLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSchedule, setEditingSchedule] = useState<Schedule | null>(null);
+  const [locations, setLocations] = useState<Location[]>([]);
+  const [deviceLocationId, setDeviceLocationId] = useState<string | null>(null);
 
   // Form state
   const [formName, setFormName] = useState("");
-  const [formPlaylistId, setFormPlaylistId] = useState("");
+  const [formSource, setFormSource] = useState("");
   const [formDays, setFormDays] = useState<number[]>([1, 2, 3, 4, 5]); // Mon-Fri default
   const [formStartTime, setFormStartTime] = useState("09:00");
   const [formEndTime, setFormEndTime] = useState("17:00");
-  
+  const [formValidFrom, setFormValidFrom] = useState("");
+  const [formValidUntil, setFormValidUntil] = useState("");
+  const [formSkipDates, setFormSkipDates] = useState<string[]>([]);
+  const [formTimezone, setFormTimezone] = useState(getDeviceTimeZone);
+  const [formLocationId, setFormLocationId] = useState(ALL_ZONES);
+  const [skipDateInput, setSkipDateInput] = useState("");
+  const [formDynamic, setFormDynamic] = useState(false);
+  const [formEnergyCurve, setFormEnergyCurve] = useState<EnergyCurvePoint[]>(DEFAULT_ENERGY_CURVE);
+  const [formVolume, setFormVolume] = useState<number | null>(null); // null: leave the volume alone
+  const [formPriority, setFormPriority] = useState(0);
+  const [view, setView] = useState<"list" | "week">(() =>
+    localStorage.getItem(VIEW_KEY) === "week" ? "week" : "list"
+  );
+
+  // Exceptions (per-date overrides and closed days)
+  const [exceptions, setExceptions] = useState<ScheduleException[]>([]);
+  const [isExceptionDialogOpen, setIsExceptionDialogOpen] = useState(false);
+  const [editingException, setEditingException] = useState<ScheduleException | null>(null);
+  const [exceptionDate, setExceptionDate] = useState("");
+  const [exceptionName, setExceptionName] = useState("");
+  const [exceptionClosed, setExceptionClosed] = useState(true);
+  const [exceptionSource, setExceptionSource] = useState("");
+  const [exceptionAllDay, setExceptionAllDay] = useState(true);
+  const [exceptionStartTime, setExceptionStartTime] = useState("09:00");
+  const [exceptionEndTime, setExceptionEndTime] = useState("17:00");
+  const [exceptionTimezone, setExceptionTimezone] = useState(getDeviceTimeZone);
+  const [exceptionLocationId, setExceptionLocationId] = useState(ALL_ZONES);
+  const [timeZoneOptions] = useState(getTimeZoneOptions);
 
   useEffect(() => {
-    if (user?.id) {
+    if (user?.id && accountUserId) {
       loadData();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.id]); // Only reload when user ID changes
+  }, [user?.id, accountUserId]); // Only reload when the user or organization changes
 
   const loadData = async () => {
     setIsLoading(true);
@@ -79,7 +171,7 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
     const { data: schedulesData, error: schedulesError } = await supabase
       .from("playlist_schedules")
       .select("*")
-      .eq("user_id", user!.id)
+      .eq("user_id", accountUserId!)
       .order("start_time");
 
     if (schedulesError) {
@@ -88,11 +180,38 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
       setSchedules(schedulesData || []);
     }
 
+    // Load today's and future exceptions
+    const { data: exceptionsData, error: exceptionsError } = await supabase
+      .from("schedule_exceptions")
+      .select("*")
+      .eq("user_id", accountUserId!)
+      .gte("exception_date", toDateKey(new Date()))
+      .order("exception_date");
+
+    if (exceptionsError) {
+      toast({ title: t("toast.errorLoadingSchedules"), description: exceptionsError.message, variant: "destructive" });
+    } else {
+      setExceptions(exceptionsData || []);
+    }
+
+    // Load zones and the zone this device is assigned to
+    const [{ data: locationsData }, { data: sessionData }] = await Promise.all([
+      supabase.from("locations").select("id, name, timezone").eq("user_id", accountUserId!).order("name"),
+      supabase
+        .from("active_sessions")
+        .select("location_id")
+        .eq("user_id", user!.id)
+        .eq("session_id", getDeviceId())
+        .maybeSingle(),
+    ]);
+    setLocations(locationsData || []);
+    setDeviceLocationId(sessionData?.location_id ?? null);
+
     // Load all accessible playlists
     const { data: playlistsData, error: playlistsError } = await supabase
       .from("playlists")
       .select("id, name, cover_url")
-      .or(`user_id.eq.${user!.id},is_system.eq.true,is_public.eq.true`)
+      .or(`user_id.eq.${accountUserId},is_system.eq.true,is_public.eq.true`)
       .order("name");
 
     if (playlistsError) {
@@ -107,73 +226,141 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
       setPlaylists([likedSongsPlaylist, ...(playlistsData || [])]);
     }
 
+    // Saved blends can be scheduled like playlists
+    try {
+      setBlends(await fetchBlends(accountUserId!));
+    } catch (error) {
+      console.error("Failed to load blends:", error);
+    }
+
     setIsLoading(false);
   };
 
   const resetForm = () => {
     setFormName("");
-    setFormPlaylistId("");
+    setFormSource("");
     setFormDays([1, 2, 3, 4, 5]);
     setFormStartTime("09:00");
     setFormEndTime("17:00");
-    
+    setFormValidFrom("");
+    setFormValidUntil("");
+    setFormSkipDates([]);
+    setSkipDateInput("");
+    setFormTimezone(getDeviceTimeZone());
+    setFormLocationId(ALL_ZONES);
+    setFormDynamic(false);
+    setFormEnergyCurve(DEFAULT_ENERGY_CURVE);
+    setFormVolume(null);
+    setFormPriority(0);
     setEditingSchedule(null);
   };
 
+  const changeView = (next: "list" | "week") => {
+    setView(next);
+    localStorage.setItem(VIEW_KEY, next);
+  };
+
   const openCreateDialog = () => {
     resetForm();
     setIsDialogOpen(true);
   };
 
   const openEditDialog = (schedule: Schedule) => {
+    if (!canEdit) return;
     setEditingSchedule(schedule);
     setFormName(schedule.name || "");
-    setFormPlaylistId(schedule.playlist_id);
+    setFormSource(toSourceValue(schedule));
     setFormDays(schedule.days_of_week);
     setFormStartTime(schedule.start_time.slice(0, 5)); // HH:MM
     setFormEndTime(schedule.end_time.slice(0, 5));
-    
+    setFormValidFrom(schedule.valid_from || "");
+    setFormValidUntil(schedule.valid_until || "");
+    setFormSkipDates(schedule.skip_dates || []);
+    setSkipDateInput("");
+    setFormTimezone(schedule.timezone || DEVICE_TIMEZONE);
+    setFormLocationId(schedule.location_id || ALL_ZONES);
+    setFormDynamic(schedule.schedule_type === "dynamic");
+    setFormEnergyCurve(parseEnergyCurve(schedule.energy_curve) ?? DEFAULT_ENERGY_CURVE);
+    setFormVolume(schedule.volume);
+    setFormPriority(schedule.priority);
     setIsDialogOpen(true);
   };
 
-  // Check if two time ranges overlap
-  const timeRangesOverlap = (start1: string, end1: string, start2: string, end2: string): boolean => {
+  // Check if two daily time ranges overlap (handles ranges that cross midnight).
+  // Times are wall-clock times in each schedule's timezone, so the second range is
+  // shifted into the first one's zone using the current UTC offsets (DST included).
+  const timeRangesOverlap = (
+    start1: string, end1: string, timezone1: string | null,
+    start2: string, end2: string, timezone2: string | null
+  ): boolean => {
+    const DAY = 24 * 60;
     // Convert to minutes for easier comparison
     const toMinutes = (time: string) => {
       const [h, m] = time.split(':').map(Number);
       return h * 60 + m;
     };
-    
-    const s1 = toMinutes(start1);
-    const e1 = toMinutes(end1);
-    const s2 = toMinutes(start2);
-    const e2 = toMinutes(end2);
-    
-    // Handle overnight schedules (end < start means it crosses midnight)
-    // For simplicity, we'll assume schedules don't cross midnight for now
-    return s1 < e2 && s2 < e1;
+
+    // Split a range into same-day intervals, e.g. 21:00–09:00 becomes [21:00–24:00, 00:00–09:00]
+    const toIntervals = (start: string, end: string, shift: number): [number, number][] => {
+      const s = (((toMinutes(start) + shift) % DAY) + DAY) % DAY;
+      let length = toMinutes(end) - toMinutes(start);
+      if (length < 0) length += DAY;
+      if (length === 0) return [];
+      return s + length <= DAY
+        ? [[s, s + length]]
+        : [[s, DAY], [0, s + length - DAY]];
+    };
+
+    const shift = getTimeZoneOffsetMinutes(timezone1) - getTimeZoneOffsetMinutes(timezone2);
+    const first = toIntervals(start1, end1, 0);
+    const second = toIntervals(start2, end2, shift);
+
+    return first.some(([s1, e1]) => second.some(([s2, e2]) => s1 < e2 && s2 < e1));
   };
 
-  // Check for overlapping schedules
-  const findOverlappingSchedule = (): Schedule | null => {
+  // Check for overlapping schedules that nothing decides between.
+  // Dated schedules always win over recurring ones, zone schedules win over account-wide ones and
+  // otherwise the higher priority wins, so only schedules of the same kind, zone and priority
+  // whose date ranges intersect conflict
+  const findOverlappingSchedule = (candidate: ScheduleWindow, ignoreId: string | null): Schedule | null => {
+    const candidateIsDated = isDatedSchedule(candidate);
+
     for (const schedule of schedules) {
       // Skip the schedule being edited
-      if (editingSchedule && schedule.id === editingSchedule.id) continue;
+      if (schedule.id === ignoreId) continue;
+
+      if ((schedule.location_id ?? null) !== candidate.location_id) continue;
+      if (schedule.priority !== candidate.priority) continue;
+
+      if (isDatedSchedule(schedule) !== candidateIsDated) continue;
+      if (candidateIsDated && !dateRangesIntersect(candidate, schedule)) continue;
       
       // Check if any days overlap
-      const hasOverlappingDays = formDays.some(day => schedule.days_of_week.includes(day));
+      const hasOverlappingDays = candidate.days_of_week.some(day => schedule.days_of_week.includes(day));
       if (!hasOverlappingDays) continue;
       
       // Check if time ranges overlap
-      if (timeRangesOverlap(formStartTime, formEndTime, schedule.start_time.slice(0, 5), schedule.end_time.slice(0, 5))) {
+      if (timeRangesOverlap(
+        candidate.start_time.slice(0, 5), candidate.end_time.slice(0, 5), candidate.timezone,
+        schedule.start_time.slice(0, 5), schedule.end_time.slice(0, 5), schedule.timezone
+      )) {
         return schedule;
       }
     }
     return null;
   };
 
+  const showOverlapError = (overlappingSchedule: Schedule) => {
+    const playlistName = getSourceName(overlappingSchedule);
+    toast({ 
+      title: t("toast.scheduleOverlap"), 
+      description: t("toast.scheduleOverlapDesc").replace('{playlist}', playlistName),
+      variant: "destructive" 
+    });
+  };
+
   const handleSave = async () => {
-    if (!formPlaylistId) {
+    if (!formSource) {
       toast({ title: t("toast.selectPlaylist"), variant: "destructive" });
       return;
     }
@@ -183,26 +370,48 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
       return;
     }
 
+    if (formValidFrom && formValidUntil && formValidFrom > formValidUntil) {
+      toast({ title: t("toast.invalidDateRange"), variant: "destructive" });
+      return;
+    }
+
     // Check for overlapping schedules
-    const overlappingSchedule = findOverlappingSchedule();
+    const overlappingSchedule = findOverlappingSchedule({
+      days_of_week: formDays,
+      start_time: formStartTime,
+      end_time: formEndTime,
+      timezone: formTimezone === DEVICE_TIMEZONE ? null : formTimezone,
+      location_id: formLocationId === ALL_ZONES ? null : formLocationId,
+      valid_from: formValidFrom || null,
+      valid_until: formValidUntil || null,
+      priority: formPriority,
+    }, editingSchedule?.id ?? null);
     if (overlappingSchedule) {
-      const playlistName = playlists.find(p => p.id === overlappingSchedule.playlist_id)?.name || 'Unknown';
-      toast({ 
-        title: t("toast.scheduleOverlap"), 
-        description: t("toast.scheduleOverlapDesc").replace('{playlist}', playlistName),
-        variant: "destructive" 
-      });
+      showOverlapError(overlappingSchedule);
       return;
     }
 
     const scheduleData = {
-      user_id: user!.id,
-      playlist_id: formPlaylistId,
+      user_id: accountUserId!,
+      ...fromSourceValue(formSource),
       name: formName || null,
       days_of_week: formDays,
       start_time: formStartTime,
       end_time: formEndTime,
-      priority: 0,
+      valid_from: formValidFrom || null,
+      valid_until: formValidUntil || null,
+      skip_dates: formSkipDates,
+      timezone: formTimezone === DEVICE_TIMEZONE ? null : formTimezone,
+      location_id: formLocationId === ALL_ZONES ? null : formLocationId,
+      schedule_type: formDynamic ? "dynamic" : "fixed",
+      energy_curve: formDynamic
+        ? formEnergyCurve
+            .filter(point => point.time)
+            .sort((a, b) => a.time.localeCompare(b.time))
+            .map(point => ({ time: point.time, energy: point.energy }))
+        : null,
+      volume: formVolume,
+      priority: formPriority,
       is_active: true,
     };
 
@@ -234,6 +443,30 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
     }
   };
 
+  // Dragged in the week view: same overlap rule as the dialog, then saved right away
+  const handleMoveSchedule = async (scheduleId: string, times: Pick<Schedule, "days_of_week" | "start_time" | "end_time">) => {
+    const schedule = schedules.find(s => s.id === scheduleId);
+    if (!schedule || !canEdit) return;
+
+    const overlappingSchedule = findOverlappingSchedule({ ...schedule, ...times }, schedule.id);
+    if (overlappingSchedule) {
+      showOverlapError(overlappingSchedule);
+      return;
+    }
+
+    const { error } = await supabase
+      .from("playlist_schedules")
+      .update(times)
+      .eq("id", schedule.id);
+
+    if (error) {
+      toast({ title: t("toast.errorUpdatingSchedule"), description: error.message, variant: "destructive" });
+    } else {
+      setSchedules(prev => prev.map(s => (s.id === schedule.id ? { ...s, ...times } : s)));
+      toast({ title: t("toast.scheduleUpdated") });
+    }
+  };
+
   const handleToggleActive = async (schedule: Schedule) => {
     const { error } = await supabase
       .from("playlist_schedules")
@@ -263,14 +496,115 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
     }
   };
 
+  const addSkipDate = () => {
+    if (!skipDateInput || formSkipDates.includes(skipDateInput)) return;
+    setFormSkipDates(prev => [...prev, skipDateInput].sort());
+    setSkipDateInput("");
+  };
+
+  const removeSkipDate = (date: string) => {
+    setFormSkipDates(prev => prev.filter(d => d !== date));
+  };
+
+  const resetExceptionForm = () => {
+    setExceptionDate(toDateKey(new Date()));
+    setExceptionName("");
+    setExceptionClosed(true);
+    setExceptionSource("");
+    setExceptionAllDay(true);
+    setExceptionStartTime("09:00");
+    setExceptionEndTime("17:00");
+    setExceptionTimezone(getDeviceTimeZone());
+    setExceptionLocationId(ALL_ZONES);
+    setEditingException(null);
+  };
+
+  const openCreateExceptionDialog = () => {
+    resetExceptionForm();
+    setIsExceptionDialogOpen(true);
+  };
+
+  const openEditExceptionDialog = (exception: ScheduleException) => {
+    setEditingException(exception);
+    setExceptionDate(exception.exception_date);
+    setExceptionName(exception.name || "");
+    setExceptionClosed(!exception.playlist_id && !exception.blend_id);
+    setExceptionSource(toSourceValue(exception));
+    setExceptionAllDay(!exception.start_time || !exception.end_time);
+    setExceptionStartTime(exception.start_time?.slice(0, 5) || "09:00");
+    setExceptionEndTime(exception.end_time?.slice(0, 5) || "17:00");
+    setExceptionTimezone(exception.timezone || DEVICE_TIMEZONE);
+    setExceptionLocationId(exception.location_id || ALL_ZONES);
+    setIsExceptionDialogOpen(true);
+  };
+
+  const handleSaveException = async () => {
+    if (!exceptionDate) {
+      toast({ title: t("toast.selectDate"), variant: "destructive" });
+      return;
+    }
+
+    if (!exceptionClosed && !exceptionSource) {
+      toast({ title: t("toast.selectPlaylist"), variant: "destructive" });
+      return;
+    }
+
+    const exceptionData = {
+      user_id: accountUserId!,
+      exception_date: exceptionDate,
+      name: exceptionName || null,
+      ...(exceptionClosed ? { playlist_id: null, blend_id: null } : fromSourceValue(exceptionSource)),
+      start_time: exceptionAllDay ? null : exceptionStartTime,
+      end_time: exceptionAllDay ? null : exceptionEndTime,
+      timezone: exceptionTimezone === DEVICE_TIMEZONE ? null : exceptionTimezone,
+      location_id: exceptionLocationId === ALL_ZONES ? null : exceptionLocationId,
+    };
+
+    const { error } = editingException
+      ? await supabase.from("schedule_exceptions").update(exceptionData).eq("id", editingException.id)
+      : await supabase.from("schedule_exceptions").insert(exceptionData);
+
+    if (error) {
+      toast({ title: t("toast.errorSavingException"), description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: t("toast.exceptionSaved") });
+      setIsExceptionDialogOpen(false);
+      loadData();
+    }
+  };
+
+  const handleDeleteException = async (exceptionId: string) => {
+    const { error } = await supabase
+      .from("schedule_exceptions")
+      .delete()
+      .eq("id", exceptionId);
+
+    if (error) {
+      toast({ title: t("common.error"), description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: t("toast.exceptionDeleted") });
+      setExceptions(prev => prev.filter(e => e.id !== exceptionId));
+    }
+  };
+
   const toggleDay = (day: number) => {
     setFormDays(prev =>
       prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort()
     );
   };
 
-  const getPlaylistName = (playlistId: string) => {
-    return playlists.find(p => p.id === playlistId)?.name || "Unknown";
+  const getSourceName = (entry: { playlist_id: string | null; blend_id: string | null }) => {
+    if (entry.blend_id) return blends.find(b => b.id === entry.blend_id)?.name || "Unknown";
+    return playlists.find(p => p.id === entry.playlist_id)?.name || "Unknown";
+  };
+
+  // Whether this account can play a schedule's source (templates may come from another account)
+  const isSourceAvailable = (entry: { playlist_id: string | null; blend_id: string | null }) =>
+    entry.blend_id ? blends.some(b => b.id === entry.blend_id) : playlists.some(p => p.id === entry.playlist_id);
+
+  const getLocationName = (locationId: string | null) => {
+    if (!locationId) return t("schedule.allZones");
+    return locations.find(l => l.id === locationId)?.name || "Unknown";
   };
 
   const formatDays = (days: number[]) => {
@@ -294,39 +628,122 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
     });
   };
 
-  // Get currently active schedule based on time (handles overnight schedules)
+  const formatDate = (dateKey: string) => {
+    const [year, month, day] = dateKey.split("-").map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString(navigator.language, {
+      day: "numeric",
+      month: "short",
+      year: "numeric",
+    });
+  };
+
+  const formatDateRange = (schedule: Schedule) => {
+    if (schedule.valid_from && schedule.valid_until) {
+      return `${formatDate(schedule.valid_from)} – ${formatDate(schedule.valid_until)}`;
+    }
+    if (schedule.valid_from) return t("schedule.fromDate").replace("{date}", formatDate(schedule.valid_from));
+    return t("schedule.untilDate").replace("{date}", formatDate(schedule.valid_until!));
+  };
+
+  // Get currently active schedule or exception for this device's zone (same resolution as the player scheduler)
   const getCurrentSchedule = () => {
     if (!schedulerEnabled) return null;
-    
-    const now = new Date();
-    const currentDay = now.getDay();
-    const currentTime = now.toTimeString().slice(0, 5);
+    return resolveSchedule(
+      filterByLocation(schedules, deviceLocationId),
+      filterByLocation(exceptions, deviceLocationId)
+    );
+  };
 
-    const matching = schedules.filter(s => {
-      if (!s.is_active) return false;
-      
-      const startTime = s.start_time.slice(0, 5);
-      const endTime = s.end_time.slice(0, 5);
-      
-      // Check if schedule spans midnight (e.g., 17:00 to 09:00)
-      const spansOvernight = startTime > endTime;
-      
-      if (spansOvernight) {
-        const isAfterStart = currentTime >= startTime && s.days_of_week.includes(currentDay);
-        const isBeforeEnd = currentTime < endTime && s.days_of_week.includes((currentDay + 6) % 7);
-        return isAfterStart || isBeforeEnd;
-      } else {
-        return s.days_of_week.includes(currentDay) && 
-               currentTime >= startTime && 
-               currentTime < endTime;
-      }
-    });
+  const activeSchedule = getCurrentSchedule();
 
-    if (matching.length === 0) return null;
-    return matching.reduce((prev, curr) => curr.priority > prev.priority ? curr : prev);
+  const describeOpeningState = (state: OpeningState) => {
+    if (state.isOpen) {
+      return state.next ? t("openingHours.openUntil", { time: state.next.time }) : t("openingHours.open");
+    }
+    if (!state.next) return t("openingHours.closed");
+    return t("openingHours.closedUntil", { day: getDays(t)[state.next.day].label, time: state.next.time });
   };
 
-  const activeSchedule = getCurrentSchedule();
+  const renderSourceItems = () => (
+    <>
+      {playlists.map(playlist => (
+        <SelectItem key={playlist.id} value={playlist.id}>
+          <span className="flex items-center gap-2">
+            {playlist.id === "liked-songs" && (
+              <Heart className="w-4 h-4 text-primary fill-primary" />
+            )}
+            {playlist.name}
+          </span>
+        </SelectItem>
+      ))}
+      {blends.length > 0 && (
+        <SelectGroup>
+          <SelectLabel>{t("blend.blends")}</SelectLabel>
+          {blends.map(blend => (
+            <SelectItem key={blend.id} value={`${BLEND_PREFIX}${blend.id}`}>
+              <span className="flex items-center gap-2">
+                <Blend className="w-4 h-4 text-primary" />
+                {blend.name}
+              </span>
+            </SelectItem>
+          ))}
+        </SelectGroup>
+      )}
+    </>
+  );
+
+  const renderTimeZoneSelect = (value: string, onChange: (value: string) => void) => (
+    <div className="space-y-2">
+      <Label>{t("schedule.timezone")}</Label>
+      <Select value={value} onValueChange={onChange}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={DEVICE_TIMEZONE}>{t("schedule.deviceTime")}</SelectItem>
+          {timeZoneOptions.map(zone => (
+            <SelectItem key={zone} value={zone}>
+              {formatTimeZone(zone)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">{t("schedule.timezoneDesc")}</p>
+    </div>
+  );
+
+  // Zone picker, only shown once the account has zones (Profile -> Devices).
+  // Picking a zone with its own timezone also switches the timezone to it.
+  const renderLocationSelect = (
+    value: string,
+    onChange: (value: string) => void,
+    onTimezoneChange: (value: string) => void
+  ) => locations.length > 0 && (
+    <div className="space-y-2">
+      <Label>{t("schedule.zone")}</Label>
+      <Select
+        value={value}
+        onValueChange={(v) => {
+          onChange(v);
+          const timezone = locations.find(l => l.id === v)?.timezone;
+          if (timezone) onTimezoneChange(timezone);
+        }}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value={ALL_ZONES}>{t("schedule.allZones")}</SelectItem>
+          {locations.map(location => (
+            <SelectItem key={location.id} value={location.id}>
+              {location.name}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+      <p className="text-xs text-muted-foreground">{t("schedule.zoneDesc")}</p>
+    </div>
+  );
 
   return (
     <div className="flex-1 flex flex-col min-h-0 bg-gradient-to-b from-background to-card">
@@ -366,6 +783,12 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
                       ? t("schedule.schedulerOnDesc") 
                       : t("schedule.schedulerOffDesc")}
                   </p>
+                  {schedulerEnabled && openingState && (
+                    <p className="text-sm text-foreground flex items-center gap-1 mt-1">
+                      <Store className="w-3 h-3" />
+                      {describeOpeningState(openingState)}
+                    </p>
+                  )}
                 </div>
                 <Switch
                   checked={schedulerEnabled}
@@ -375,12 +798,35 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
             </Card>
           )}
 
-          {/* Add Schedule Button */}
-          <Button onClick={openCreateDialog} className="w-full sm:w-auto">
-            <Plus className="w-4 h-4 mr-2" />
-            {t("schedule.addSchedule")}
-          </Button>
-
+          {/* Add Schedule Button and list/week switch */}
+          <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+            {canEdit && (
+              <Button onClick={openCreateDialog} className="w-full sm:w-auto">
+                <Plus className="w-4 h-4 mr-2" />
+                {t("schedule.addSchedule")}
+              </Button>
+            )}
+            {schedules.length > 0 && (
+              <div className="flex gap-1 sm:ml-auto">
+                <Button
+                  variant={view === "list" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => changeView("list")}
+                >
+                  <List className="w-4 h-4 mr-1" />
+                  {t("scheduleCalendar.listView")}
+                </Button>
+                <Button
+                  variant={view === "week" ? "secondary" : "ghost"}
+                  size="sm"
+                  onClick={() => changeView("week")}
+                >
+                  <CalendarDays className="w-4 h-4 mr-1" />
+                  {t("scheduleCalendar.weekView")}
+                </Button>
+              </div>
+            )}
+          </div>
 
           {/* Schedule List */}
           {isLoading ? (
@@ -393,12 +839,27 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
                 <p className="text-muted-foreground mb-4">
                   {t("schedule.noSchedulesDesc")}
                 </p>
-                <Button onClick={openCreateDialog}>
-                  <Plus className="w-4 h-4 mr-2" />
-                  {t("schedule.createFirst")}
-                </Button>
+                {canEdit && (
+                  <Button onClick={openCreateDialog}>
+                    <Plus className="w-4 h-4 mr-2" />
+                    {t("schedule.createFirst")}
+                  </Button>
+                )}
               </CardContent>
             </Card>
+          ) : view === "week" ? (
+            <ScheduleCalendar
+              schedules={schedules}
+              exceptions={exceptions}
+              locations={locations}
+              deviceLocationId={deviceLocationId}
+              getSourceName={getSourceName}
+              onEdit={(scheduleId) => {
+                const schedule = schedules.find(s => s.id === scheduleId);
+                if (schedule) openEditDialog(schedule);
+              }}
+              onMove={handleMoveSchedule}
+            />
           ) : (
             <div className="space-y-3">
               {schedules.map(schedule => {
@@ -423,7 +884,7 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
                             <Music className="w-4 h-4 text-primary flex-shrink-0" />
                           )}
                           <span className="font-medium text-foreground truncate">
-                            {schedule.name || getPlaylistName(schedule.playlist_id)}
+                            {schedule.name || getSourceName(schedule)}
                           </span>
                           {isCurrentlyPlaying && (
                             <span className="text-xs px-2 py-0.5 rounded-full bg-primary text-primary-foreground font-medium">
@@ -434,7 +895,7 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
                         <div className="flex flex-wrap items-center gap-x-3 sm:gap-x-4 gap-y-1 text-xs sm:text-sm text-muted-foreground">
                           <span className="flex items-center gap-1">
                             <Music className="w-3 h-3" />
-                            {getPlaylistName(schedule.playlist_id)}
+                            {getSourceName(schedule)}
                           </span>
                           <span className="flex items-center gap-1">
                             <Clock className="w-3 h-3" />
@@ -444,6 +905,46 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
                             <Calendar className="w-3 h-3" />
                             {formatDays(schedule.days_of_week)}
                           </span>
+                          <span className="flex items-center gap-1">
+                            <Globe className="w-3 h-3" />
+                            {schedule.timezone ? formatTimeZone(schedule.timezone) : t("schedule.deviceTime")}
+                          </span>
+                          {locations.length > 0 && (
+                            <span className="flex items-center gap-1">
+                              <MapPin className="w-3 h-3" />
+                              {getLocationName(schedule.location_id)}
+                            </span>
+                          )}
+                          {schedule.schedule_type === "dynamic" && (
+                            <span className="flex items-center gap-1">
+                              <Activity className="w-3 h-3" />
+                              {t("energy.badge")}
+                            </span>
+                          )}
+                          {schedule.priority > 0 && (
+                            <span className="flex items-center gap-1">
+                              <Layers className="w-3 h-3" />
+                              {t("schedule.priority")} {schedule.priority}
+                            </span>
+                          )}
+                          {schedule.volume !== null && (
+                            <span className="flex items-center gap-1">
+                              <Volume2 className="w-3 h-3" />
+                              {schedule.volume}%
+                            </span>
+                          )}
+                          {isDatedSchedule(schedule) && (
+                            <span className="flex items-center gap-1">
+                              <CalendarRange className="w-3 h-3" />
+                              {formatDateRange(schedule)}
+                            </span>
+                          )}
+                          {(schedule.skip_dates?.length ?? 0) > 0 && (
+                            <span className="flex items-center gap-1">
+                              <CalendarX className="w-3 h-3" />
+                              {t("schedule.skippedDatesCount").replace("{count}", String(schedule.skip_dates!.length))}
+                            </span>
+                          )}
                         </div>
                       </div>
 
@@ -453,28 +954,31 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
                           <Switch
                             checked={schedule.is_active}
                             onCheckedChange={() => handleToggleActive(schedule)}
+                            disabled={!canEdit}
                           />
                           <span className="text-xs text-muted-foreground sm:hidden">
                             {schedule.is_active ? "On" : "Off"}
                           </span>
                         </div>
-                        <div className="flex items-center gap-1">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => openEditDialog(schedule)}
-                          >
-                            {t("schedule.edit")}
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="icon"
-                            className="text-muted-foreground hover:text-destructive"
-                            onClick={() => handleDelete(schedule.id)}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        </div>
+                        {canEdit && (
+                          <div className="flex items-center gap-1">
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => openEditDialog(schedule)}
+                            >
+                              {t("schedule.edit")}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-muted-foreground hover:text-destructive"
+                              onClick={() => handleDelete(schedule.id)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   </CardContent>
@@ -484,6 +988,127 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
             </div>
           )}
 
+          {/* Exceptions (closed days and one-off overrides) */}
+          {!isLoading && (
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-2">
+                <div>
+                  <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+                    <CalendarX className="w-5 h-5 text-primary" />
+                    {t("schedule.exceptions")}
+                  </h2>
+                  <p className="text-sm text-muted-foreground">{t("schedule.exceptionsDesc")}</p>
+                </div>
+                {canEdit && (
+                  <Button variant="outline" size="sm" onClick={openCreateExceptionDialog} className="shrink-0">
+                    <Plus className="w-4 h-4 mr-1" />
+                    {t("schedule.addException")}
+                  </Button>
+                )}
+              </div>
+
+              {exceptions.length === 0 ? (
+                <p className="text-sm text-muted-foreground">{t("schedule.noExceptions")}</p>
+              ) : (
+                exceptions.map(exception => {
+                  const isCurrentlyActive = activeSchedule?.id === exception.id;
+                  return (
+                    <Card
+                      key={exception.id}
+                      className={`border transition-all ${
+                        isCurrentlyActive
+                          ? "bg-primary/10 border-primary/50 ring-1 ring-primary/30"
+                          : "bg-card/80 border-border"
+                      }`}
+                    >
+                      <CardContent className="p-3 sm:p-4 flex items-center gap-3">
+                        <div className="flex-1 min-w-0">
+                          <div className="flex items-center gap-2 mb-1 flex-wrap">
+                            <span className="font-medium text-foreground truncate">
+                              {exception.name || formatDate(exception.exception_date)}
+                            </span>
+                            <span
+                              className={`text-xs px-2 py-0.5 rounded-full font-medium ${
+                                exception.playlist_id || exception.blend_id
+                                  ? "bg-primary/20 text-primary"
+                                  : "bg-muted text-muted-foreground"
+                              }`}
+                            >
+                              {exception.playlist_id || exception.blend_id ? t("schedule.exceptionOverride") : t("schedule.exceptionClosed")}
+                            </span>
+                          </div>
+                          <div className="flex flex-wrap items-center gap-x-3 sm:gap-x-4 gap-y-1 text-xs sm:text-sm text-muted-foreground">
+                            <span className="flex items-center gap-1">
+                              <Calendar className="w-3 h-3" />
+                              {formatDate(exception.exception_date)}
+                            </span>
+                            <span className="flex items-center gap-1">
+                              <Clock className="w-3 h-3" />
+                              {exception.start_time && exception.end_time
+                                ? `${formatTime(exception.start_time)} – ${formatTime(exception.end_time)}`
+                                : t("schedule.allDay")}
+                            </span>
+                            <span className="flex items-center gap-1">
+                              <Globe className="w-3 h-3" />
+                              {exception.timezone ? formatTimeZone(exception.timezone) : t("schedule.deviceTime")}
+                            </span>
+                            {locations.length > 0 && (
+                              <span className="flex items-center gap-1">
+                                <MapPin className="w-3 h-3" />
+                                {getLocationName(exception.location_id)}
+                              </span>
+                            )}
+                            {(exception.playlist_id || exception.blend_id) && (
+                              <span className="flex items-center gap-1">
+                                <Music className="w-3 h-3" />
+                                {getSourceName(exception)}
+                              </span>
+                            )}
+                          </div>
+                        </div>
+                        {canEdit && (
+                          <div className="flex items-center gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => openEditExceptionDialog(exception)}>
+                              {t("schedule.edit")}
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="text-muted-foreground hover:text-destructive"
+                              onClick={() => handleDeleteException(exception.id)}
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        )}
+                      </CardContent>
+                    </Card>
+                  );
+                })
+              )}
+            </div>
+          )}
+
+          {/* Templates */}
+          {canEdit && (
+            <ScheduleTemplatesManager
+              schedules={schedules}
+              locations={locations}
+              getSourceName={getSourceName}
+              isSourceAvailable={isSourceAvailable}
+              onApplied={loadData}
+            />
+          )}
+
+          {/* Opening hours */}
+          {isAccountOwner && <OpeningHoursManager locations={locations} onChange={onOpeningHoursChange} />}
+
+          {/* Announcements */}
+          <AnnouncementsManager onChange={onAnnouncementsChange} />
+
+          {/* Volume levels */}
+          {isAccountOwner && <VolumeSlotsManager locations={locations} />}
+
           {/* Tips */}
           <Card className="bg-card/30">
             <CardHeader className="pb-2">
@@ -493,6 +1118,7 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
               <p>• {t("schedule.tip1")}</p>
               <p>• {t("schedule.tip2")}</p>
               <p>• {t("schedule.tip3")}</p>
+              <p>• {t("schedule.tip4")}</p>
             </CardContent>
           </Card>
         </div>
@@ -519,25 +1145,54 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
             {/* Playlist */}
             <div className="space-y-2">
               <Label>{t("schedule.playlist")} *</Label>
-              <Select value={formPlaylistId} onValueChange={setFormPlaylistId}>
+              <Select value={formSource} onValueChange={setFormSource}>
                 <SelectTrigger>
                   <SelectValue placeholder={t("schedule.selectPlaylist")} />
                 </SelectTrigger>
                 <SelectContent>
-                  {playlists.map(playlist => (
-                    <SelectItem key={playlist.id} value={playlist.id}>
-                      <span className="flex items-center gap-2">
-                        {playlist.id === "liked-songs" && (
-                          <Heart className="w-4 h-4 text-primary fill-primary" />
-                        )}
-                        {playlist.name}
-                      </span>
-                    </SelectItem>
-                  ))}
+                  {renderSourceItems()}
                 </SelectContent>
               </Select>
             </div>
 
+            {/* Dynamic: follow an energy curve instead of playing the playlist in order */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label>{t("energy.dynamic")}</Label>
+                  <p className="text-xs text-muted-foreground">{t("energy.dynamicDesc")}</p>
+                </div>
+                <Switch checked={formDynamic} onCheckedChange={setFormDynamic} />
+              </div>
+              {formDynamic && <EnergyCurveEditor points={formEnergyCurve} onChange={setFormEnergyCurve} />}
+            </div>
+
+            {/* Volume while this schedule plays */}
+            <div className="space-y-3">
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label>{t("volumeSchedule.scheduleVolume")}</Label>
+                  <p className="text-xs text-muted-foreground">{t("volumeSchedule.scheduleVolumeDesc")}</p>
+                </div>
+                <Switch
+                  checked={formVolume !== null}
+                  onCheckedChange={checked => setFormVolume(checked ? 70 : null)}
+                />
+              </div>
+              {formVolume !== null && (
+                <div className="flex items-center gap-3">
+                  <Slider
+                    value={[formVolume]}
+                    min={0}
+                    max={100}
+                    step={5}
+                    onValueChange={([value]) => setFormVolume(value)}
+                  />
+                  <span className="w-10 text-right text-sm tabular-nums">{formVolume}%</span>
+                </div>
+              )}
+            </div>
+
             {/* Days */}
             <div className="space-y-2">
               <Label>{t("schedule.days")} *</Label>
@@ -603,6 +1258,80 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
               </div>
             </div>
 
+            {/* Timezone */}
+            {renderLocationSelect(formLocationId, setFormLocationId, setFormTimezone)}
+
+            {renderTimeZoneSelect(formTimezone, setFormTimezone)}
+
+            {/* Date Range */}
+            <div className="space-y-2">
+              <Label>{t("schedule.dateRange")}</Label>
+              <div className="grid grid-cols-2 gap-4">
+                <Input
+                  type="date"
+                  aria-label={t("schedule.validFrom")}
+                  value={formValidFrom}
+                  onChange={e => setFormValidFrom(e.target.value)}
+                />
+                <Input
+                  type="date"
+                  aria-label={t("schedule.validUntil")}
+                  value={formValidUntil}
+                  min={formValidFrom || undefined}
+                  onChange={e => setFormValidUntil(e.target.value)}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground">{t("schedule.dateRangeDesc")}</p>
+            </div>
+
+            {/* Skip Dates */}
+            <div className="space-y-2">
+              <Label>{t("schedule.skipDates")}</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="date"
+                  value={skipDateInput}
+                  onChange={e => setSkipDateInput(e.target.value)}
+                />
+                <Button type="button" variant="outline" onClick={addSkipDate} disabled={!skipDateInput}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+              {formSkipDates.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {formSkipDates.map(date => (
+                    <span
+                      key={date}
+                      className="flex items-center gap-1 text-xs px-2 py-1 rounded-full bg-muted text-foreground"
+                    >
+                      {formatDate(date)}
+                      <button
+                        type="button"
+                        className="text-muted-foreground hover:text-destructive"
+                        onClick={() => removeSkipDate(date)}
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </span>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Priority */}
+            <div className="space-y-2">
+              <Label>{t("schedule.priority")}</Label>
+              <Input
+                type="number"
+                min={0}
+                max={100}
+                value={formPriority}
+                onChange={e => setFormPriority(Math.max(0, Math.min(100, Math.round(Number(e.target.value) || 0))))}
+                className="w-24"
+              />
+              <p className="text-xs text-muted-foreground">{t("schedule.priorityDesc")}</p>
+            </div>
+
           </div>
 
           <DialogFooter>
@@ -615,6 +1344,105 @@ const ScheduleManager = ({ onBack, schedulerEnabled = true, onToggleScheduler }:
           </DialogFooter>
         </DialogContent>
       </Dialog>
+
+      {/* Create/Edit Exception Dialog */}
+      <Dialog open={isExceptionDialogOpen} onOpenChange={setIsExceptionDialogOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{editingException ? t("schedule.editException") : t("schedule.addException")}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            {/* Date */}
+            <div className="space-y-2">
+              <Label>{t("schedule.exceptionDate")} *</Label>
+              <Input
+                type="date"
+                value={exceptionDate}
+                onChange={e => setExceptionDate(e.target.value)}
+              />
+            </div>
+
+            {/* Name */}
+            <div className="space-y-2">
+              <Label>{t("schedule.scheduleName")}</Label>
+              <Input
+                placeholder={t("schedule.exceptionNamePlaceholder")}
+                value={exceptionName}
+                onChange={e => setExceptionName(e.target.value)}
+              />
+            </div>
+
+            {/* Closed vs override playlist */}
+            <div className="flex items-center justify-between gap-4">
+              <div>
+                <Label>{t("schedule.exceptionClosed")}</Label>
+                <p className="text-xs text-muted-foreground">{t("schedule.exceptionClosedDesc")}</p>
+              </div>
+              <Switch checked={exceptionClosed} onCheckedChange={setExceptionClosed} />
+            </div>
+
+            {!exceptionClosed && (
+              <div className="space-y-2">
+                <Label>{t("schedule.playlist")} *</Label>
+                <Select value={exceptionSource} onValueChange={setExceptionSource}>
+                  <SelectTrigger>
+                    <SelectValue placeholder={t("schedule.selectPlaylist")} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {renderSourceItems()}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            {/* All day vs time range */}
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="exception-all-day"
+                checked={exceptionAllDay}
+                onCheckedChange={checked => setExceptionAllDay(checked === true)}
+              />
+              <Label htmlFor="exception-all-day">{t("schedule.allDay")}</Label>
+            </div>
+
+            {!exceptionAllDay && (
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{t("schedule.startTime")} *</Label>
+                  <Input
+                    type="time"
+                    value={exceptionStartTime}
+                    onChange={e => setExceptionStartTime(e.target.value)}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label>{t("schedule.endTime")} *</Label>
+                  <Input
+                    type="time"
+                    value={exceptionEndTime}
+                    onChange={e => setExceptionEndTime(e.target.value)}
+                  />
+                </div>
+              </div>
+            )}
+
+            {/* Timezone */}
+            {renderLocationSelect(exceptionLocationId, setExceptionLocationId, setExceptionTimezone)}
+
+            {renderTimeZoneSelect(exceptionTimezone, setExceptionTimezone)}
+          </div>
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={() => setIsExceptionDialogOpen(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button onClick={handleSaveException}>
+              {t("schedule.save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 };
@@ -0,0 +1,370 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Copy, Inbox, LayoutTemplate, Loader2, Trash2 } from "lucide-react";
+import type { ScheduleEntry } from "@/lib/scheduleResolver";
+import type { Tables } from "@/integrations/supabase/types";
+import {
+  ScheduleTemplate,
+  TemplateAssignment,
+  TemplateEntry,
+  applyScheduleTemplate,
+  deleteScheduleTemplate,
+  fetchPendingAssignments,
+  fetchScheduleTemplates,
+  getTemplateDiff,
+  parseTemplateEntries,
+  respondToAssignment,
+  saveScheduleTemplate,
+  toTemplateEntry,
+} from "@/lib/scheduleTemplates";
+
+type Schedule = ScheduleEntry & Pick<Tables<"playlist_schedules">, "schedule_type" | "energy_curve" | "volume">;
+
+interface ScheduleTemplatesManagerProps {
+  schedules: Schedule[];
+  locations: { id: string; name: string; timezone: string | null }[];
+  getSourceName: (entry: { playlist_id: string | null; blend_id: string | null }) => string;
+  isSourceAvailable: (entry: TemplateEntry) => boolean;
+  onApplied: () => void; // Called after a template replaced schedules, so the list reloads
+}
+
+const DAY_KEYS = [
+  "schedule.daySun",
+  "schedule.dayMon",
+  "schedule.dayTue",
+  "schedule.dayWed",
+  "schedule.dayThu",
+  "schedule.dayFri",
+  "schedule.daySat",
+];
+
+// Select value for the schedules that apply to every zone
+const ALL_ZONES = "all";
+
+/**
+ * Save the account's schedules as named templates and apply them (or templates an admin sent) to a zone,
+ * with a preview of what would be replaced (Schedule view)
+ */
+const ScheduleTemplatesManager = ({
+  schedules,
+  locations,
+  getSourceName,
+  isSourceAvailable,
+  onApplied,
+}: ScheduleTemplatesManagerProps) => {
+  const { user, accountUserId } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+  const [assignments, setAssignments] = useState<TemplateAssignment[]>([]);
+
+  // Save dialog
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [formName, setFormName] = useState("");
+  const [formSourceZone, setFormSourceZone] = useState(ALL_ZONES);
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Apply dialog: the template being applied (and the assignment it came from, if an admin sent it)
+  const [applying, setApplying] = useState<{ template: ScheduleTemplate; assignmentId: string | null } | null>(null);
+  const [targetZone, setTargetZone] = useState(ALL_ZONES);
+  const [isApplying, setIsApplying] = useState(false);
+
+  const loadTemplates = useCallback(async () => {
+    if (!user) return;
+    try {
+      const [ownTemplates, pending] = await Promise.all([
+        fetchScheduleTemplates(user.id),
+        fetchPendingAssignments(user.id),
+      ]);
+      setTemplates(ownTemplates);
+      setAssignments(pending);
+    } catch (error) {
+      console.error("Failed to load schedule templates:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadTemplates();
+  }, [loadTemplates]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t("common.error"),
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const toLocationId = (zone: string) => (zone === ALL_ZONES ? null : zone);
+  const schedulesInZone = (zone: string) => schedules.filter(s => s.location_id === toLocationId(zone));
+
+  const openSaveDialog = () => {
+    setFormName("");
+    setFormSourceZone(ALL_ZONES);
+    setIsSaveOpen(true);
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    const entries = schedulesInZone(formSourceZone).map(toTemplateEntry);
+    if (!formName.trim()) {
+      toast({ title: t("common.error"), description: t("scheduleTemplates.errorName"), variant: "destructive" });
+      return;
+    }
+    if (entries.length === 0) {
+      toast({ title: t("common.error"), description: t("scheduleTemplates.errorEmpty"), variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveScheduleTemplate({ user_id: user.id, name: formName.trim(), entries });
+      setIsSaveOpen(false);
+      toast({ title: t("scheduleTemplates.saved") });
+      await loadTemplates();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (templateId: string) => {
+    try {
+      await deleteScheduleTemplate(templateId);
+      await loadTemplates();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDismiss = async (assignmentId: string) => {
+    try {
+      await respondToAssignment(assignmentId, "dismissed");
+      await loadTemplates();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const openApplyDialog = (template: ScheduleTemplate, assignmentId: string | null = null) => {
+    setApplying({ template, assignmentId });
+    setTargetZone(ALL_ZONES);
+  };
+
+  const diff = applying
+    ? getTemplateDiff(parseTemplateEntries(applying.template.entries), schedulesInZone(targetZone), isSourceAvailable)
+    : null;
+
+  const handleApply = async () => {
+    if (!accountUserId || !applying || !diff) return;
+
+    setIsApplying(true);
+    try {
+      // Templates are kept per login, but apply to the organization's schedules
+      await applyScheduleTemplate(accountUserId, toLocationId(targetZone), diff);
+      if (applying.assignmentId) await respondToAssignment(applying.assignmentId, "applied");
+      setApplying(null);
+      toast({ title: t("scheduleTemplates.applied") });
+      await loadTemplates();
+      onApplied();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  const describeEntry = (entry: TemplateEntry | Schedule) => {
+    const days = entry.days_of_week.length === 7
+      ? t("schedule.everyDay")
+      : entry.days_of_week.map(day => t(DAY_KEYS[day])).join(", ");
+    return [entry.name || getSourceName(entry), `${entry.start_time.slice(0, 5)} - ${entry.end_time.slice(0, 5)}`, days].join(" · ");
+  };
+
+  const zoneSelect = (value: string, onChange: (value: string) => void) => (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger>
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ALL_ZONES}>{t("schedule.allZones")}</SelectItem>
+        {locations.map(location => (
+          <SelectItem key={location.id} value={location.id}>
+            {location.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+
+  const diffSection = (title: string, entries: (TemplateEntry | Schedule)[], className: string) =>
+    entries.length > 0 && (
+      <div className="space-y-1">
+        <p className={`text-sm font-medium ${className}`}>{title} ({entries.length})</p>
+        <ul className="space-y-0.5">
+          {entries.map((entry, index) => (
+            <li key={index} className="text-xs text-muted-foreground">
+              {describeEntry(entry)}
+            </li>
+          ))}
+        </ul>
+      </div>
+    );
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5 text-primary" />
+            {t("scheduleTemplates.title")}
+          </h2>
+          <p className="text-sm text-muted-foreground">{t("scheduleTemplates.desc")}</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={openSaveDialog} className="shrink-0">
+          <Copy className="w-4 h-4 mr-1" />
+          {t("scheduleTemplates.saveAsTemplate")}
+        </Button>
+      </div>
+
+      {assignments.map(assignment => (
+        <Card key={assignment.id} className="bg-primary/10 border-primary/30">
+          <CardContent className="p-3 sm:p-4 flex items-center gap-3">
+            <Inbox className="w-5 h-5 text-primary shrink-0" />
+            <p className="flex-1 min-w-0 text-sm text-foreground">
+              {t("scheduleTemplates.sentToYou", { name: assignment.template.name })}
+            </p>
+            <Button size="sm" onClick={() => openApplyDialog(assignment.template, assignment.id)}>
+              {t("scheduleTemplates.review")}
+            </Button>
+            <Button variant="ghost" size="sm" onClick={() => handleDismiss(assignment.id)}>
+              {t("scheduleTemplates.dismiss")}
+            </Button>
+          </CardContent>
+        </Card>
+      ))}
+
+      {templates.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("scheduleTemplates.noTemplates")}</p>
+      ) : (
+        templates.map(template => (
+          <Card key={template.id} className="bg-card/80 border-border">
+            <CardContent className="p-3 sm:p-4 flex items-center gap-3">
+              <div className="flex-1 min-w-0">
+                <p className="font-medium text-foreground truncate">{template.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {t("scheduleTemplates.scheduleCount", { count: parseTemplateEntries(template.entries).length })}
+                </p>
+              </div>
+              <Button variant="outline" size="sm" onClick={() => openApplyDialog(template)}>
+                {t("scheduleTemplates.apply")}
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                onClick={() => handleDelete(template.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      {/* Save as template */}
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>{t("scheduleTemplates.saveAsTemplate")}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="schedule-template-name">{t("scheduleTemplates.name")}</Label>
+              <Input
+                id="schedule-template-name"
+                placeholder={t("scheduleTemplates.namePlaceholder")}
+                value={formName}
+                onChange={(e) => setFormName(e.target.value)}
+              />
+            </div>
+
+            {locations.length > 0 && (
+              <div className="space-y-2">
+                <Label>{t("scheduleTemplates.sourceZone")}</Label>
+                {zoneSelect(formSourceZone, setFormSourceZone)}
+              </div>
+            )}
+
+            <p className="text-xs text-muted-foreground">
+              {t("scheduleTemplates.scheduleCount", { count: schedulesInZone(formSourceZone).length })}
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsSaveOpen(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("common.save")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Apply: preview of what gets replaced */}
+      <Dialog open={!!applying} onOpenChange={(open) => !open && setApplying(null)}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{t("scheduleTemplates.applyTitle", { name: applying?.template.name ?? "" })}</DialogTitle>
+            <DialogDescription>{t("scheduleTemplates.applyDesc")}</DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            {locations.length > 0 && (
+              <div className="space-y-2">
+                <Label>{t("scheduleTemplates.targetZone")}</Label>
+                {zoneSelect(targetZone, setTargetZone)}
+              </div>
+            )}
+
+            {diff && (
+              <div className="space-y-3">
+                {diff.removed.length === 0 && diff.added.length === 0 && (
+                  <p className="text-sm text-muted-foreground">{t("scheduleTemplates.noChanges")}</p>
+                )}
+                {diffSection(t("scheduleTemplates.removed"), diff.removed, "text-destructive")}
+                {diffSection(t("scheduleTemplates.added"), diff.added, "text-primary")}
+                {diffSection(t("scheduleTemplates.kept"), diff.kept, "text-foreground")}
+                {diffSection(t("scheduleTemplates.unavailable"), diff.unavailable, "text-amber-500")}
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setApplying(null)}>
+              {t("common.cancel")}
+            </Button>
+            <Button onClick={handleApply} disabled={isApplying}>
+              {isApplying && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("scheduleTemplates.confirmApply")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ScheduleTemplatesManager;
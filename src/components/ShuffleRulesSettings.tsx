@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  ARTIST_SEPARATION_OPTIONS,
+  REPEAT_WINDOW_OPTIONS_HOURS,
+  ShuffleRules,
+  getShuffleRules,
+  setShuffleRules,
+} from "@/lib/shuffleEngine";
+
+/**
+ * Shuffle variety rules for this device (Profile -> Settings)
+ */
+const ShuffleRulesSettings = () => {
+  const { t } = useLanguage();
+  const [rules, setRules] = useState<ShuffleRules>(getShuffleRules);
+
+  const update = (change: Partial<ShuffleRules>) => {
+    const next = { ...rules, ...change };
+    setRules(next);
+    setShuffleRules(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-0.5">
+        <Label className="text-base">{t("shuffleRules.title")}</Label>
+        <p className="text-sm text-muted-foreground">{t("shuffleRules.desc")}</p>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <Label className="text-sm">{t("shuffleRules.artistSeparation")}</Label>
+        <Select
+          value={String(rules.artistSeparation)}
+          onValueChange={(value) => update({ artistSeparation: Number(value) })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ARTIST_SEPARATION_OPTIONS.map(option => (
+              <SelectItem key={option} value={String(option)}>
+                {option === 0 ? t("shuffleRules.off") : t("shuffleRules.tracks", { count: option })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="flex items-center justify-between gap-3">
+        <Label className="text-sm">{t("shuffleRules.repeatWindow")}</Label>
+        <Select
+          value={String(rules.repeatWindowHours)}
+          onValueChange={(value) => update({ repeatWindowHours: Number(value) })}
+        >
+          <SelectTrigger className="w-40">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {REPEAT_WINDOW_OPTIONS_HOURS.map(option => (
+              <SelectItem key={option} value={String(option)}>
+                {option === 0 ? t("shuffleRules.off") : t("shuffleRules.hours", { count: option })}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+    </div>
+  );
+};
+
+export default ShuffleRulesSettings;
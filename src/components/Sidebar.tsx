@@ -45,7 +45,7 @@ interface SidebarProps {
 }
 
 const Sidebar = ({ activeView, onViewChange, onPlaylistSelect, schedulerEnabled = true, onToggleScheduler }: SidebarProps) => {
-  const { user, isAdmin, subscription } = useAuth();
+  const { user, isAdmin, subscription, isPairedDevice } = useAuth();
   const { t } = useLanguage();
   const { likedCount } = useLikedSongs();
   const navigate = useNavigate();
@@ -308,19 +308,21 @@ const Sidebar = ({ activeView, onViewChange, onPlaylistSelect, schedulerEnabled
               )}
             </div>
           ))}
-          <Button
-            variant="ghost"
-            className="justify-start gap-4 h-12 text-base font-medium text-muted-foreground hover:text-foreground"
-            onClick={() => navigate("/profile")}
-          >
-            <User className="w-5 h-5" />
-            <span className="flex items-center gap-2">
-              {t("nav.profile")}
-              {subscription.isPendingPayment && (
-                <AlertCircle className="w-4 h-4 text-yellow-500" />
-              )}
-            </span>
-          </Button>
+          {!isPairedDevice && (
+            <Button
+              variant="ghost"
+              className="justify-start gap-4 h-12 text-base font-medium text-muted-foreground hover:text-foreground"
+              onClick={() => navigate("/profile")}
+            >
+              <User className="w-5 h-5" />
+              <span className="flex items-center gap-2">
+                {t("nav.profile")}
+                {subscription.isPendingPayment && (
+                  <AlertCircle className="w-4 h-4 text-yellow-500" />
+                )}
+              </span>
+            </Button>
+          )}
           <Button
             variant="ghost"
             className="justify-start gap-4 h-12 text-base font-medium text-muted-foreground hover:text-foreground"
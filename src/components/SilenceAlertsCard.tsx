@@ -0,0 +1,166 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { BellRing, Loader2 } from "lucide-react";
+import { formatTimeZone, getDeviceTimeZone, getTimeZoneOptions } from "@/lib/scheduleResolver";
+
+/**
+ * Opt-in email alerts when a device stops playing while a schedule says it should play,
+ * with optional quiet hours during which no alerts are sent
+ */
+const SilenceAlertsCard = () => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [isEnabled, setIsEnabled] = useState(false);
+  const [quietStart, setQuietStart] = useState("");
+  const [quietEnd, setQuietEnd] = useState("");
+  const [timezone, setTimezone] = useState(getDeviceTimeZone);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSaving, setIsSaving] = useState(false);
+  const [timeZoneOptions] = useState(getTimeZoneOptions);
+
+  useEffect(() => {
+    const loadSettings = async () => {
+      if (!user) return;
+
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("silence_alerts_enabled, silence_alert_quiet_start, silence_alert_quiet_end, silence_alert_timezone")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error) {
+        console.error("Failed to load silence alert settings:", error);
+      } else if (data) {
+        setIsEnabled(data.silence_alerts_enabled);
+        setQuietStart(data.silence_alert_quiet_start?.slice(0, 5) || "");
+        setQuietEnd(data.silence_alert_quiet_end?.slice(0, 5) || "");
+        if (data.silence_alert_timezone) setTimezone(data.silence_alert_timezone);
+      }
+      setIsLoading(false);
+    };
+
+    loadSettings();
+  }, [user]);
+
+  const handleToggle = async (checked: boolean) => {
+    if (!user) return;
+    setIsEnabled(checked);
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({ silence_alerts_enabled: checked, silence_alert_timezone: timezone })
+      .eq("user_id", user.id);
+
+    if (error) {
+      setIsEnabled(!checked);
+      toast({ title: t("common.error"), description: error.message, variant: "destructive" });
+    }
+  };
+
+  const hasQuietHours = !!quietStart && !!quietEnd;
+  const isQuietHoursIncomplete = !!quietStart !== !!quietEnd;
+
+  const handleSaveQuietHours = async () => {
+    if (!user || isQuietHoursIncomplete) return;
+    setIsSaving(true);
+
+    const { error } = await supabase
+      .from("profiles")
+      .update({
+        silence_alert_quiet_start: hasQuietHours ? quietStart : null,
+        silence_alert_quiet_end: hasQuietHours ? quietEnd : null,
+        silence_alert_timezone: timezone,
+      })
+      .eq("user_id", user.id);
+
+    setIsSaving(false);
+
+    if (error) {
+      toast({ title: t("common.error"), description: error.message, variant: "destructive" });
+    } else {
+      toast({ title: t("silenceAlerts.saved") });
+    }
+  };
+
+  return (
+    <Card className="bg-card border-border">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="w-5 h-5" />
+          {t("silenceAlerts.title")}
+        </CardTitle>
+        <CardDescription>{t("silenceAlerts.subtitle")}</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <div className="flex items-center justify-center py-4">
+            <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <>
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="silence-alerts-toggle" className="text-base">{t("silenceAlerts.enable")}</Label>
+                <p className="text-sm text-muted-foreground">{t("silenceAlerts.enableDesc")}</p>
+              </div>
+              <Switch id="silence-alerts-toggle" checked={isEnabled} onCheckedChange={handleToggle} />
+            </div>
+
+            {isEnabled && (
+              <div className="space-y-3 pt-2 border-t border-border">
+                <div className="space-y-0.5">
+                  <p className="text-sm font-medium text-foreground">{t("silenceAlerts.quietHours")}</p>
+                  <p className="text-xs text-muted-foreground">{t("silenceAlerts.quietHoursDesc")}</p>
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div className="space-y-2">
+                    <Label>{t("silenceAlerts.quietFrom")}</Label>
+                    <Input type="time" value={quietStart} onChange={(e) => setQuietStart(e.target.value)} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>{t("silenceAlerts.quietUntil")}</Label>
+                    <Input type="time" value={quietEnd} onChange={(e) => setQuietEnd(e.target.value)} />
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <Label>{t("schedule.timezone")}</Label>
+                  <Select value={timezone} onValueChange={setTimezone}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {timeZoneOptions.map(zone => (
+                        <SelectItem key={zone} value={zone}>
+                          {formatTimeZone(zone)}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                {isQuietHoursIncomplete && (
+                  <p className="text-xs text-destructive">{t("silenceAlerts.quietHoursIncomplete")}</p>
+                )}
+                <Button size="sm" onClick={handleSaveQuietHours} disabled={isSaving || isQuietHoursIncomplete}>
+                  {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {t("common.save")}
+                </Button>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SilenceAlertsCard;
@@ -1,5 +1,5 @@
 import { useState, useEffect } from "react";
-import { Play, Pause, MoreHorizontal, Heart, ListPlus, Plus, Check, Trash2, Loader2 } from "lucide-react";
+import { Play, Pause, MoreHorizontal, Heart, ListPlus, Plus, Check, Trash2, Loader2, ListStart, ListEnd } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Track } from "@/data/musicData";
 import { cn } from "@/lib/utils";
@@ -19,6 +19,7 @@ import { useLanguage } from "@/contexts/LanguageContext";
 import { useToast } from "@/hooks/use-toast";
 import { useLikedSongs } from "@/contexts/LikedSongsContext";
 import { useQuickAdd } from "@/contexts/QuickAddContext";
+import { usePlayer } from "@/contexts/PlayerContext";
 
 interface TrackRowProps {
   track: Track;
@@ -41,6 +42,7 @@ const TrackRow = ({ track, index, isPlaying, isCurrentTrack, onPlay, onDelete, s
   const { toast } = useToast();
   const { isLiked: checkIsLiked, toggleLike } = useLikedSongs();
   const { isQuickAddMode, quickAddTrack, recentlyAdded } = useQuickAdd();
+  const { playNext, addToQueue } = usePlayer();
   const [userPlaylists, setUserPlaylists] = useState<UserPlaylist[]>([]);
   const [isAdding, setIsAdding] = useState(false);
   const [isPendingPlay, setIsPendingPlay] = useState(false);
@@ -94,6 +96,16 @@ const TrackRow = ({ track, index, isPlaying, isCurrentTrack, onPlay, onDelete, s
     await toggleLike(track.id);
   };
 
+  const handlePlayNext = () => {
+    playNext(track);
+    toast({ title: t("queue.playingNext", { title: track.title }) });
+  };
+
+  const handleAddToQueue = () => {
+    addToQueue(track);
+    toast({ title: t("queue.added", { title: track.title }) });
+  };
+
   const handleAddToPlaylist = async (playlistId: string, playlistName: string) => {
     if (!user || !isUuid(track.id)) {
       toast({ title: t("toast.cannotAddTrack"), variant: "destructive" });
@@ -269,6 +281,25 @@ const TrackRow = ({ track, index, isPlaying, isCurrentTrack, onPlay, onDelete, s
             </DropdownMenuItem>
             
             <DropdownMenuSeparator />
+
+            <DropdownMenuItem
+              onClick={(e) => {
+                e.stopPropagation();
+                handlePlayNext();
+              }}
+            >
+              <ListStart className="w-4 h-4 mr-2" />
+              {t("queue.playNext")}
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onClick={(e) => {
+                e.stopPropagation();
+                handleAddToQueue();
+              }}
+            >
+              <ListEnd className="w-4 h-4 mr-2" />
+              {t("queue.addToQueue")}
+            </DropdownMenuItem>
             
             <DropdownMenuSub>
               <DropdownMenuSubTrigger>
@@ -0,0 +1,317 @@
+import { useState, useEffect, useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogFooter } from "@/components/ui/dialog";
+import { Loader2, Pencil, Plus, Trash2, Volume2 } from "lucide-react";
+import { formatTimeZone, getDeviceTimeZone, getTimeZoneOptions } from "@/lib/scheduleResolver";
+import { VolumeSlot, deleteVolumeSlot, fetchVolumeSlots, saveVolumeSlot } from "@/lib/volumeSchedule";
+
+interface VolumeSlotsManagerProps {
+  locations: { id: string; name: string; timezone: string | null }[];
+}
+
+const DAY_KEYS = [
+  "schedule.daySun",
+  "schedule.dayMon",
+  "schedule.dayTue",
+  "schedule.dayWed",
+  "schedule.dayThu",
+  "schedule.dayFri",
+  "schedule.daySat",
+];
+
+// Select value for slots without a timezone (evaluated in the playing device's time)
+const DEVICE_TIMEZONE = "device";
+// Select value for slots that apply to every zone
+const ALL_ZONES = "all";
+
+/**
+ * Time-of-day volume levels, independent of which playlist plays (Schedule view)
+ */
+const VolumeSlotsManager = ({ locations }: VolumeSlotsManagerProps) => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const { toast } = useToast();
+  const [slots, setSlots] = useState<VolumeSlot[]>([]);
+  const [timeZoneOptions] = useState(getTimeZoneOptions);
+
+  // Slot dialog
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingSlotId, setEditingSlotId] = useState<string | null>(null);
+  const [formName, setFormName] = useState("");
+  const [formDays, setFormDays] = useState<number[]>([0, 1, 2, 3, 4, 5, 6]);
+  const [formStartTime, setFormStartTime] = useState("09:00");
+  const [formEndTime, setFormEndTime] = useState("12:00");
+  const [formVolume, setFormVolume] = useState(50);
+  const [formTimezone, setFormTimezone] = useState(getDeviceTimeZone);
+  const [formLocationId, setFormLocationId] = useState(ALL_ZONES);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const loadSlots = useCallback(async () => {
+    if (!user) return;
+    try {
+      setSlots(await fetchVolumeSlots(user.id));
+    } catch (error) {
+      console.error("Failed to load volume slots:", error);
+    }
+  }, [user]);
+
+  useEffect(() => {
+    loadSlots();
+  }, [loadSlots]);
+
+  const showError = (error: unknown) => {
+    toast({
+      title: t("common.error"),
+      description: error instanceof Error ? error.message : String(error),
+      variant: "destructive",
+    });
+  };
+
+  const openDialog = (slot?: VolumeSlot) => {
+    setEditingSlotId(slot?.id ?? null);
+    setFormName(slot?.name ?? "");
+    setFormDays(slot?.days_of_week ?? [0, 1, 2, 3, 4, 5, 6]);
+    setFormStartTime(slot?.start_time.slice(0, 5) ?? "09:00");
+    setFormEndTime(slot?.end_time.slice(0, 5) ?? "12:00");
+    setFormVolume(slot?.volume ?? 50);
+    setFormTimezone(slot ? slot.timezone || DEVICE_TIMEZONE : getDeviceTimeZone());
+    setFormLocationId(slot?.location_id ?? ALL_ZONES);
+    setIsDialogOpen(true);
+  };
+
+  const toggleDay = (day: number) => {
+    setFormDays(prev => (prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day].sort()));
+  };
+
+  const handleSave = async () => {
+    if (!user) return;
+    if (formDays.length === 0 || !formStartTime || !formEndTime) {
+      toast({ title: t("common.error"), description: t("volumeSchedule.errorTimes"), variant: "destructive" });
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await saveVolumeSlot({
+        ...(editingSlotId ? { id: editingSlotId } : {}),
+        user_id: user.id,
+        name: formName.trim() || null,
+        days_of_week: formDays,
+        start_time: formStartTime,
+        end_time: formEndTime,
+        volume: formVolume,
+        timezone: formTimezone === DEVICE_TIMEZONE ? null : formTimezone,
+        location_id: formLocationId === ALL_ZONES ? null : formLocationId,
+      });
+      setIsDialogOpen(false);
+      toast({ title: t("volumeSchedule.saved") });
+      await loadSlots();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleToggle = async (slot: VolumeSlot, isActive: boolean) => {
+    setSlots(prev => prev.map(s => (s.id === slot.id ? { ...s, is_active: isActive } : s)));
+    try {
+      await saveVolumeSlot({ ...slot, is_active: isActive });
+    } catch (error) {
+      setSlots(prev => prev.map(s => (s.id === slot.id ? { ...s, is_active: !isActive } : s)));
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (slotId: string) => {
+    try {
+      await deleteVolumeSlot(slotId);
+      await loadSlots();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const describeSlot = (slot: VolumeSlot) => {
+    const days = slot.days_of_week.length === 7
+      ? t("schedule.everyDay")
+      : slot.days_of_week.map(day => t(DAY_KEYS[day])).join(", ");
+    const parts = [`${slot.start_time.slice(0, 5)} - ${slot.end_time.slice(0, 5)}`, days];
+    if (slot.timezone) parts.push(formatTimeZone(slot.timezone));
+    if (slot.location_id) parts.push(locations.find(l => l.id === slot.location_id)?.name || "Unknown");
+    return parts.join(" · ");
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex items-center justify-between gap-2">
+        <div>
+          <h2 className="text-lg font-semibold text-foreground flex items-center gap-2">
+            <Volume2 className="w-5 h-5 text-primary" />
+            {t("volumeSchedule.title")}
+          </h2>
+          <p className="text-sm text-muted-foreground">{t("volumeSchedule.desc")}</p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => openDialog()} className="shrink-0">
+          <Plus className="w-4 h-4 mr-1" />
+          {t("volumeSchedule.addSlot")}
+        </Button>
+      </div>
+
+      {slots.length === 0 ? (
+        <p className="text-sm text-muted-foreground">{t("volumeSchedule.noSlots")}</p>
+      ) : (
+        slots.map(slot => (
+          <Card key={slot.id} className={`bg-card/80 border-border ${slot.is_active ? "" : "opacity-50"}`}>
+            <CardContent className="p-3 sm:p-4 flex items-center gap-3">
+              <span className="w-12 text-lg font-semibold tabular-nums text-foreground">{slot.volume}%</span>
+              <div className="flex-1 min-w-0">
+                {slot.name && <p className="font-medium text-foreground truncate">{slot.name}</p>}
+                <p className="text-xs text-muted-foreground">{describeSlot(slot)}</p>
+              </div>
+              <Switch checked={slot.is_active} onCheckedChange={(checked) => handleToggle(slot, checked)} />
+              <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => openDialog(slot)}>
+                <Pencil className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8 text-muted-foreground hover:text-destructive"
+                onClick={() => handleDelete(slot.id)}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{editingSlotId ? t("volumeSchedule.editSlot") : t("volumeSchedule.addSlot")}</DialogTitle>
+          </DialogHeader>
+
+          <div className="space-y-4 py-2">
+            <div className="space-y-2">
+              <Label htmlFor="volume-slot-name">{t("volumeSchedule.name")}</Label>
+              <Input
+                id="volume-slot-name"
+                placeholder={t("volumeSchedule.namePlaceholder")}
+                value={formName}
+                onChange={(e) => setFormName(e.target.value)}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("volumeSchedule.volume")}</Label>
+              <div className="flex items-center gap-3">
+                <Slider
+                  value={[formVolume]}
+                  min={0}
+                  max={100}
+                  step={5}
+                  onValueChange={([value]) => setFormVolume(value)}
+                />
+                <span className="w-10 text-right text-sm tabular-nums">{formVolume}%</span>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("schedule.days")}</Label>
+              <div className="flex flex-wrap gap-2">
+                {DAY_KEYS.map((key, day) => (
+                  <Button
+                    key={day}
+                    type="button"
+                    variant={formDays.includes(day) ? "default" : "outline"}
+                    size="sm"
+                    className="w-10"
+                    onClick={() => toggleDay(day)}
+                  >
+                    {t(key)}
+                  </Button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>{t("schedule.startTime")}</Label>
+                <Input type="time" value={formStartTime} onChange={(e) => setFormStartTime(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>{t("schedule.endTime")}</Label>
+                <Input type="time" value={formEndTime} onChange={(e) => setFormEndTime(e.target.value)} />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>{t("schedule.timezone")}</Label>
+              <Select value={formTimezone} onValueChange={setFormTimezone}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={DEVICE_TIMEZONE}>{t("schedule.deviceTime")}</SelectItem>
+                  {timeZoneOptions.map(zone => (
+                    <SelectItem key={zone} value={zone}>
+                      {formatTimeZone(zone)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {locations.length > 0 && (
+              <div className="space-y-2">
+                <Label>{t("schedule.zone")}</Label>
+                <Select
+                  value={formLocationId}
+                  onValueChange={(value) => {
+                    setFormLocationId(value);
+                    const timezone = locations.find(l => l.id === value)?.timezone;
+                    if (timezone) setFormTimezone(timezone);
+                  }}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value={ALL_ZONES}>{t("schedule.allZones")}</SelectItem>
+                    {locations.map(location => (
+                      <SelectItem key={location.id} value={location.id}>
+                        {location.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+              {t("common.cancel")}
+            </Button>
+            <Button onClick={handleSave} disabled={isSaving}>
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {t("volumeSchedule.saveSlot")}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default VolumeSlotsManager;
@@ -5,6 +5,7 @@ import { ScrollArea } from "@/components/ui/scroll-area";
 import { Separator } from "@/components/ui/separator";
 import { Input } from "@/components/ui/input";
 import { toast } from "sonner";
+import { usePlayer } from "@/contexts/PlayerContext";
 
 const CROSSFADE_DEBUG_KEY = "ambian_crossfade_debug";
 
@@ -29,6 +30,7 @@ function safeParse(raw: string | null): DebugEntry[] {
 export function CrossfadeDebugPanel() {
   const [refreshKey, setRefreshKey] = useState(0);
   const [filter, setFilter] = useState("");
+  const { crossfade, crossfadeSettings } = usePlayer();
 
   const entries = useMemo(() => {
     const raw = localStorage.getItem(CROSSFADE_DEBUG_KEY);
@@ -70,6 +72,11 @@ export function CrossfadeDebugPanel() {
             </Button>
           </div>
         </div>
+        <div className="text-xs text-muted-foreground flex flex-wrap gap-x-4 gap-y-1">
+          <span>enabled: <span className="font-medium text-foreground">{crossfade && crossfadeSettings.duration > 0 ? "yes" : "no"}</span></span>
+          <span>duration: <span className="font-medium text-foreground">{crossfadeSettings.duration}s</span></span>
+          <span>curve: <span className="font-medium text-foreground">{crossfadeSettings.curve}</span></span>
+        </div>
         <Input
           value={filter}
           onChange={(e) => setFilter(e.target.value)}
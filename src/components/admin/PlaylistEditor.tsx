@@ -10,6 +10,8 @@ import { ArrowLeft, Plus, Trash2, Music, ArrowRightLeft, Loader2, ListMusic, Fil
 import { Progress } from "@/components/ui/progress";
 import type { Tables } from "@/integrations/supabase/types";
 import { compressImage } from "@/lib/imageCompression";
+import { analyzeTrackAudio } from "@/lib/trackAnalysis";
+import { MAX_AUDIO_FILE_SIZE, getStorageFileName, isMp3File } from "@/lib/audioUpload";
 
 type Playlist = Tables<"playlists">;
 type Track = Tables<"tracks">;
@@ -187,14 +189,11 @@ const PlaylistEditor = ({ playlist, allPlaylists, onBack }: PlaylistEditorProps)
   };
 
   // File size limits (in bytes)
-  const MAX_AUDIO_FILE_SIZE = 50 * 1024 * 1024; // 50MB
   const MAX_IMAGE_FILE_SIZE = 5 * 1024 * 1024; // 5MB
 
   // Handle MP3 file uploads
   const handleFileUpload = async (files: FileList | File[]) => {
-    const mp3Files = Array.from(files).filter(
-      (file) => file.type === "audio/mpeg" || file.name.toLowerCase().endsWith(".mp3")
-    );
+    const mp3Files = Array.from(files).filter(isMp3File);
 
     if (mp3Files.length === 0) {
       toast({ title: "Error", description: "Please select MP3 files", variant: "destructive" });
@@ -275,8 +274,11 @@ const PlaylistEditor = ({ playlist, allPlaylists, onBack }: PlaylistEditorProps)
           }
         }
 
+        // Measure loudness, silence and energy for playback (NULL if it fails; the backfill can retry)
+        const analysis = await analyzeTrackAudio(file);
+
         // Upload audio to storage
-        const fileName = `${Date.now()}-${file.name.replace(/[^a-zA-Z0-9.-]/g, "_")}`;
+        const fileName = getStorageFileName(file);
         const { error: uploadError } = await supabase.storage
           .from("audio")
           .upload(fileName, file);
@@ -299,6 +301,12 @@ const PlaylistEditor = ({ playlist, allPlaylists, onBack }: PlaylistEditorProps)
             duration,
             audio_url: urlData.publicUrl,
             cover_url: coverUrl,
+            loudness_lufs: analysis.loudnessLufs,
+            cue_in_seconds: analysis.cueInSeconds,
+            cue_out_seconds: analysis.cueOutSeconds,
+            bpm: analysis.bpm,
+            energy: analysis.energy,
+            valence: analysis.valence,
           })
           .select("id")
           .single();
@@ -0,0 +1,175 @@
+import { useState, useEffect, useMemo } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Loader2, Search, Send } from "lucide-react";
+import { toast } from "sonner";
+import {
+  ScheduleTemplate,
+  fetchScheduleTemplates,
+  parseTemplateEntries,
+  pushScheduleTemplate,
+} from "@/lib/scheduleTemplates";
+
+interface ScheduleTemplatePushDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  users: { user_id: string; email: string | null; full_name: string | null }[];
+}
+
+/**
+ * Send one of the admin's schedule templates to many accounts. Each owner sees it in their Schedule view
+ * with a preview of what it replaces, and decides whether to apply it.
+ */
+export const ScheduleTemplatePushDialog = ({ open, onOpenChange, users }: ScheduleTemplatePushDialogProps) => {
+  const { user } = useAuth();
+  const [templates, setTemplates] = useState<ScheduleTemplate[]>([]);
+  const [templateId, setTemplateId] = useState("");
+  const [selectedUserIds, setSelectedUserIds] = useState<Set<string>>(new Set());
+  const [searchQuery, setSearchQuery] = useState("");
+  const [isSending, setIsSending] = useState(false);
+
+  useEffect(() => {
+    if (!open || !user) return;
+    setSelectedUserIds(new Set());
+    setSearchQuery("");
+    fetchScheduleTemplates(user.id)
+      .then(data => {
+        setTemplates(data);
+        setTemplateId(data[0]?.id ?? "");
+      })
+      .catch(error => {
+        console.error("Failed to load schedule templates:", error);
+        toast.error("Failed to load schedule templates");
+      });
+  }, [open, user]);
+
+  const filteredUsers = useMemo(() => {
+    const query = searchQuery.trim().toLowerCase();
+    return users.filter(u =>
+      u.user_id !== user?.id &&
+      (!query || u.email?.toLowerCase().includes(query) || u.full_name?.toLowerCase().includes(query))
+    );
+  }, [users, searchQuery, user?.id]);
+
+  const toggleUser = (userId: string) => {
+    setSelectedUserIds(prev => {
+      const next = new Set(prev);
+      if (next.has(userId)) next.delete(userId);
+      else next.add(userId);
+      return next;
+    });
+  };
+
+  const allFilteredSelected = filteredUsers.length > 0 && filteredUsers.every(u => selectedUserIds.has(u.user_id));
+
+  const toggleAllFiltered = () => {
+    setSelectedUserIds(prev => {
+      const next = new Set(prev);
+      filteredUsers.forEach(u => (allFilteredSelected ? next.delete(u.user_id) : next.add(u.user_id)));
+      return next;
+    });
+  };
+
+  const handleSend = async () => {
+    if (!user || !templateId || selectedUserIds.size === 0) return;
+
+    setIsSending(true);
+    try {
+      await pushScheduleTemplate(templateId, [...selectedUserIds], user.id);
+      toast.success(`Template sent to ${selectedUserIds.size} user${selectedUserIds.size === 1 ? "" : "s"}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error("Error sending schedule template:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to send template");
+    } finally {
+      setIsSending(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Send Schedule Template</DialogTitle>
+          <DialogDescription>
+            Users see the template in their Schedule view with a preview of what it replaces, and choose whether to apply it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="space-y-2">
+            <Label>Template</Label>
+            {templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No templates yet. Save your own schedules as a template in the Schedule view first.
+              </p>
+            ) : (
+              <Select value={templateId} onValueChange={setTemplateId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {templates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name} ({parseTemplateEntries(template.entries).length} schedules)
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>Users ({selectedUserIds.size} selected)</Label>
+              <Button variant="ghost" size="sm" onClick={toggleAllFiltered} disabled={filteredUsers.length === 0}>
+                {allFilteredSelected ? "Clear" : "Select all"}
+              </Button>
+            </div>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+              <Input
+                placeholder="Search by email or name..."
+                value={searchQuery}
+                onChange={(e) => setSearchQuery(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            <ScrollArea className="h-64 rounded-md border border-border">
+              <div className="p-2 space-y-1">
+                {filteredUsers.map(u => (
+                  <label
+                    key={u.user_id}
+                    className="flex items-center gap-3 rounded px-2 py-1.5 hover:bg-secondary/50 cursor-pointer"
+                  >
+                    <Checkbox checked={selectedUserIds.has(u.user_id)} onCheckedChange={() => toggleUser(u.user_id)} />
+                    <div className="min-w-0">
+                      <p className="text-sm truncate">{u.email || "No email"}</p>
+                      {u.full_name && <p className="text-xs text-muted-foreground truncate">{u.full_name}</p>}
+                    </div>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSend} disabled={isSending || !templateId || selectedUserIds.size === 0}>
+            {isSending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+            Send
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
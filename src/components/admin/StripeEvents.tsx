@@ -0,0 +1,226 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Eye, Loader2, RefreshCw, RotateCcw, Search } from "lucide-react";
+import { toast } from "sonner";
+import { format } from "date-fns";
+import type { Tables } from "@/integrations/supabase/types";
+
+type StripeEvent = Tables<"stripe_events">;
+
+type StatusFilter = "all" | "failed" | "processing" | "processed";
+
+const STATUS_COLORS: Record<string, string> = {
+  processed: "bg-green-500/20 text-green-400 border-green-500/30",
+  processing: "bg-yellow-500/20 text-yellow-400 border-yellow-500/30",
+  failed: "bg-red-500/20 text-red-400 border-red-500/30",
+};
+
+// Matches the webhook: an event processing for longer than this has crashed and can be replayed
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+const canReplay = (event: StripeEvent) =>
+  event.status === "failed" ||
+  (event.status === "processing" && Date.now() - new Date(event.updated_at).getTime() > STALE_PROCESSING_MS);
+
+/**
+ * The Stripe webhook's event ledger: what was received, how processing went, and replay for failed events
+ */
+export function StripeEvents() {
+  const [events, setEvents] = useState<StripeEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchQuery, setSearchQuery] = useState("");
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>("all");
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+  const [viewingEvent, setViewingEvent] = useState<StripeEvent | null>(null);
+
+  const loadEvents = async () => {
+    setLoading(true);
+    try {
+      let query = supabase
+        .from("stripe_events")
+        .select("*")
+        .order("created_at", { ascending: false })
+        .limit(100);
+
+      if (searchQuery) {
+        query = query.or(`id.ilike.%${searchQuery}%,type.ilike.%${searchQuery}%`);
+      }
+      if (statusFilter !== "all") {
+        query = query.eq("status", statusFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) throw error;
+      setEvents(data || []);
+    } catch (error) {
+      console.error("Error loading Stripe events:", error);
+      toast.error("Failed to load Stripe events");
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadEvents();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [searchQuery, statusFilter]);
+
+  const handleReplay = async (eventId: string) => {
+    setReplayingId(eventId);
+    try {
+      const { data, error } = await supabase.functions.invoke("stripe-webhook", {
+        body: { eventId },
+      });
+
+      if (error) throw error;
+      if (data?.error) throw new Error(data.error);
+
+      toast.success("Event processed");
+    } catch (error) {
+      console.error("Error replaying Stripe event:", error);
+      toast.error(error instanceof Error ? error.message : "Failed to replay event");
+    } finally {
+      setReplayingId(null);
+      loadEvents();
+    }
+  };
+
+  const failedCount = events.filter(e => e.status === "failed").length;
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <h3 className="text-lg font-semibold">
+          Stripe Events ({events.length}{failedCount > 0 ? `, ${failedCount} failed` : ""})
+        </h3>
+        <Button variant="outline" size="sm" onClick={loadEvents} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <div className="flex flex-col sm:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+          <Input
+            placeholder="Search by event ID or type..."
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            className="pl-9"
+          />
+        </div>
+        <Select value={statusFilter} onValueChange={(v) => setStatusFilter(v as StatusFilter)}>
+          <SelectTrigger className="w-full sm:w-[160px]">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Statuses</SelectItem>
+            <SelectItem value="failed">Failed</SelectItem>
+            <SelectItem value="processing">Processing</SelectItem>
+            <SelectItem value="processed">Processed</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="border border-border rounded-lg overflow-hidden">
+        <Table>
+          <TableHeader>
+            <TableRow className="bg-muted/50">
+              <TableHead className="w-[180px]">Received</TableHead>
+              <TableHead>Type</TableHead>
+              <TableHead>Status</TableHead>
+              <TableHead>Error</TableHead>
+              <TableHead className="w-[110px]"></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {loading && events.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary mx-auto" />
+                </TableCell>
+              </TableRow>
+            ) : events.length === 0 ? (
+              <TableRow>
+                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                  No Stripe events found
+                </TableCell>
+              </TableRow>
+            ) : (
+              events.map((event) => (
+                <TableRow key={event.id}>
+                  <TableCell className="text-muted-foreground text-sm font-mono">
+                    {format(new Date(event.created_at), "MMM d, yyyy HH:mm:ss")}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-col">
+                      <span className="text-sm">{event.type}</span>
+                      <span className="text-xs text-muted-foreground font-mono">{event.id}</span>
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex flex-col items-start gap-1">
+                      <Badge className={STATUS_COLORS[event.status] || "bg-muted text-muted-foreground"}>
+                        {event.status}
+                      </Badge>
+                      {event.attempts > 1 && (
+                        <span className="text-xs text-muted-foreground">{event.attempts} attempts</span>
+                      )}
+                    </div>
+                  </TableCell>
+                  <TableCell className="max-w-[300px] text-sm text-red-400 break-words">
+                    {event.error || <span className="text-muted-foreground">—</span>}
+                  </TableCell>
+                  <TableCell>
+                    <div className="flex items-center justify-end gap-1">
+                      <Button variant="ghost" size="icon" className="h-8 w-8" onClick={() => setViewingEvent(event)} title="View payload">
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                      {canReplay(event) && (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-8 w-8"
+                          onClick={() => handleReplay(event.id)}
+                          disabled={replayingId !== null}
+                          title="Replay"
+                        >
+                          {replayingId === event.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <RotateCcw className="w-4 h-4" />
+                          )}
+                        </Button>
+                      )}
+                    </div>
+                  </TableCell>
+                </TableRow>
+              ))
+            )}
+          </TableBody>
+        </Table>
+      </div>
+
+      <Dialog open={!!viewingEvent} onOpenChange={(open) => !open && setViewingEvent(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-hidden flex flex-col">
+          <DialogHeader>
+            <DialogTitle className="font-mono text-base">{viewingEvent?.id}</DialogTitle>
+          </DialogHeader>
+          {viewingEvent && viewingEvent.effects.length > 0 && (
+            <p className="text-xs text-muted-foreground">Effects: {viewingEvent.effects.join(", ")}</p>
+          )}
+          <pre className="text-xs bg-muted/50 p-3 rounded overflow-auto flex-1">
+            {JSON.stringify(viewingEvent?.payload, null, 2)}
+          </pre>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -0,0 +1,201 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Progress } from "@/components/ui/progress";
+import { useToast } from "@/hooks/use-toast";
+import { AudioLines, Loader2, CheckCircle } from "lucide-react";
+import { getSignedAudioUrl } from "@/lib/storage";
+import { analyzeTrackAudio } from "@/lib/trackAnalysis";
+
+interface AnalysisResult {
+  analyzed: number;
+  failed: number;
+}
+
+// Tracks are fetched in pages so a large library doesn't load at once
+const PAGE_SIZE = 50;
+
+// Tracks missing any measurement
+const UNANALYZED_FILTER = "loudness_lufs.is.null,cue_out_seconds.is.null,energy.is.null";
+
+/**
+ * Backfill loudness, cue points and energy for tracks uploaded before they were measured on upload
+ */
+export const TrackAnalyzer = () => {
+  const [isCounting, setIsCounting] = useState(false);
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [pendingCount, setPendingCount] = useState<number | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [currentTrack, setCurrentTrack] = useState("");
+  const [result, setResult] = useState<AnalysisResult | null>(null);
+  const { toast } = useToast();
+
+  const countPending = async () => {
+    setIsCounting(true);
+    setResult(null);
+
+    const { count, error } = await supabase
+      .from("tracks")
+      .select("id", { count: "exact", head: true })
+      .or(UNANALYZED_FILTER)
+      .not("audio_url", "is", null);
+
+    if (error) {
+      toast({ title: "Error", description: error.message, variant: "destructive" });
+    } else {
+      setPendingCount(count ?? 0);
+    }
+    setIsCounting(false);
+  };
+
+  const analyzeTracks = async () => {
+    if (!pendingCount) return;
+    setIsAnalyzing(true);
+    setProgress(0);
+
+    const totals: AnalysisResult = { analyzed: 0, failed: 0 };
+    // Failed tracks stay NULL, so skip past them instead of fetching them again
+    const failedIds: string[] = [];
+
+    try {
+      while (totals.analyzed + totals.failed < pendingCount) {
+        let query = supabase
+          .from("tracks")
+          .select("id, title, audio_url")
+          .or(UNANALYZED_FILTER)
+          .not("audio_url", "is", null)
+          .limit(PAGE_SIZE);
+        if (failedIds.length > 0) {
+          query = query.not("id", "in", `(${failedIds.join(",")})`);
+        }
+
+        const { data: tracks, error } = await query;
+        if (error) throw error;
+        if (!tracks || tracks.length === 0) break;
+
+        for (const track of tracks) {
+          setCurrentTrack(track.title);
+          setProgress(Math.round(((totals.analyzed + totals.failed) / pendingCount) * 100));
+
+          try {
+            const signedUrl = await getSignedAudioUrl(track.audio_url);
+            const response = signedUrl ? await fetch(signedUrl) : null;
+            if (!response?.ok) throw new Error("Could not download audio");
+
+            const analysis = await analyzeTrackAudio(await response.blob());
+            if (analysis.loudnessLufs === null && analysis.cueOutSeconds === null) {
+              throw new Error("Could not analyze audio");
+            }
+
+            const { error: updateError } = await supabase
+              .from("tracks")
+              .update({
+                loudness_lufs: analysis.loudnessLufs,
+                cue_in_seconds: analysis.cueInSeconds,
+                cue_out_seconds: analysis.cueOutSeconds,
+                bpm: analysis.bpm,
+                energy: analysis.energy,
+                valence: analysis.valence,
+              })
+              .eq("id", track.id);
+            if (updateError) throw updateError;
+
+            // Silent tracks never get an energy value, so they'd match the filter again
+            if (analysis.energy === null) failedIds.push(track.id);
+            totals.analyzed++;
+          } catch (err) {
+            console.error(`Failed to analyze ${track.title}:`, err);
+            failedIds.push(track.id);
+            totals.failed++;
+          }
+        }
+      }
+
+      setResult(totals);
+      setPendingCount(totals.failed);
+      toast({
+        title: "Analysis Complete",
+        description: `Analyzed ${totals.analyzed} tracks`,
+      });
+    } catch (err) {
+      toast({ title: "Error", description: err instanceof Error ? err.message : String(err), variant: "destructive" });
+    } finally {
+      setIsAnalyzing(false);
+      setProgress(100);
+      setCurrentTrack("");
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <AudioLines className="w-5 h-5" />
+          Track Analyzer
+        </CardTitle>
+        <CardDescription>
+          Measure loudness, silent intros/outros and tempo/energy of existing tracks so the player can even out volume,
+          crossfade on time and follow dynamic schedules
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Button
+          onClick={countPending}
+          disabled={isCounting || isAnalyzing}
+          variant="outline"
+          className="w-full"
+        >
+          {isCounting ? (
+            <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Checking...</>
+          ) : (
+            "Find Unanalyzed Tracks"
+          )}
+        </Button>
+
+        {pendingCount !== null && pendingCount > 0 && (
+          <Button
+            onClick={analyzeTracks}
+            disabled={isAnalyzing}
+            className="w-full"
+          >
+            {isAnalyzing ? (
+              <><Loader2 className="w-4 h-4 mr-2 animate-spin" /> Analyzing...</>
+            ) : (
+              `Analyze ${pendingCount} Tracks`
+            )}
+          </Button>
+        )}
+
+        {isAnalyzing && (
+          <div className="space-y-2">
+            <Progress value={progress} />
+            <p className="text-xs text-muted-foreground text-center truncate">
+              {currentTrack}
+            </p>
+          </div>
+        )}
+
+        {result && (
+          <div className="p-4 bg-green-500/10 border border-green-500/20 rounded-lg space-y-2">
+            <div className="flex items-center gap-2 text-green-600">
+              <CheckCircle className="w-5 h-5" />
+              <span className="font-medium">Analysis Complete</span>
+            </div>
+            <div className="grid grid-cols-2 gap-2 text-sm">
+              <div>Analyzed: <span className="font-medium">{result.analyzed}</span></div>
+              <div>Failed: <span className="font-medium">{result.failed}</span></div>
+            </div>
+          </div>
+        )}
+
+        {pendingCount === 0 && !result && (
+          <div className="flex items-center gap-2 p-4 bg-green-500/10 rounded-lg text-green-600">
+            <CheckCircle className="w-5 h-5" />
+            <span>All tracks have been analyzed!</span>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
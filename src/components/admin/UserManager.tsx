@@ -7,9 +7,11 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from "@/components/ui/dialog";
-import { Trash2, Loader2, RefreshCw, Crown, User, Search, XCircle, CreditCard, Eye, Building, MapPin, Phone, Mail, Calendar, Receipt, Download, ExternalLink, Sparkles, MonitorSmartphone, FileText, Clock, Plus } from "lucide-react";
+import { Trash2, Loader2, RefreshCw, Crown, User, Search, XCircle, CreditCard, Eye, Building, MapPin, Phone, Mail, Calendar, Receipt, Download, ExternalLink, Sparkles, MonitorSmartphone, FileText, Clock, Plus, Volume2, VolumeX, LayoutTemplate } from "lucide-react";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { toast } from "sonner";
+import { SILENT_THRESHOLD_MINUTES, getSilentMinutes, parseDeviceInfo } from "@/lib/deviceInfo";
+import { ScheduleTemplatePushDialog } from "@/components/admin/ScheduleTemplatePushDialog";
 
 interface UserProfile {
   id: string;
@@ -32,9 +34,22 @@ interface UserRole {
   role: "admin" | "user";
 }
 
+interface DeviceSession {
+  user_id: string;
+  session_id: string;
+  device_info: string | null;
+  is_playing: boolean;
+  last_playing_at: string | null;
+  last_error: string | null;
+  created_at: string;
+  updated_at: string;
+  tracks: { title: string; artist: string } | null;
+}
+
 interface UserWithDetails extends UserProfile {
   subscription?: Subscription;
   role?: "admin" | "user";
+  sessions: DeviceSession[];
 }
 
 interface StripeCustomer {
@@ -108,10 +123,14 @@ interface StripeCustomer {
 
 type FilterStatus = "all" | "active" | "trialing" | "canceled" | "inactive" | "none";
 type FilterRole = "all" | "admin" | "user";
+type FilterPlayback = "all" | "silent";
+
+const SILENT_THRESHOLD_OPTIONS = [5, 15, 30, 60];
 
 export function UserManager() {
   const [users, setUsers] = useState<UserWithDetails[]>([]);
   const [loading, setLoading] = useState(true);
+  const [showTemplatePush, setShowTemplatePush] = useState(false);
   const [deletingUserId, setDeletingUserId] = useState<string | null>(null);
   const [cancelingUserId, setCancelingUserId] = useState<string | null>(null);
   const [expiringUserId, setExpiringUserId] = useState<string | null>(null);
@@ -127,6 +146,8 @@ export function UserManager() {
   const [searchQuery, setSearchQuery] = useState("");
   const [statusFilter, setStatusFilter] = useState<FilterStatus>("all");
   const [roleFilter, setRoleFilter] = useState<FilterRole>("all");
+  const [playbackFilter, setPlaybackFilter] = useState<FilterPlayback>("all");
+  const [silentThreshold, setSilentThreshold] = useState(SILENT_THRESHOLD_MINUTES);
 
   const loadUsers = async () => {
     setLoading(true);
@@ -150,6 +171,12 @@ export function UserManager() {
 
       if (rolesError) throw rolesError;
 
+      const { data: sessions, error: sessionsError } = await supabase
+        .from("active_sessions")
+        .select("user_id, session_id, device_info, is_playing, last_playing_at, last_error, created_at, updated_at, tracks:current_track_id(title, artist)");
+
+      if (sessionsError) throw sessionsError;
+
       const usersWithDetails: UserWithDetails[] = (profiles || []).map((profile) => {
         const subscription = subscriptions?.find((s) => s.user_id === profile.user_id);
         // Check all roles for this user - prioritize admin if they have it
@@ -159,6 +186,7 @@ export function UserManager() {
           ...profile,
           subscription,
           role: hasAdminRole ? "admin" : "user",
+          sessions: sessions?.filter((s) => s.user_id === profile.user_id) || [],
         };
       });
 
@@ -224,9 +252,12 @@ export function UserManager() {
 
       const matchesRole = roleFilter === "all" || user.role === roleFilter;
 
-      return matchesSearch && matchesStatus && matchesRole;
+      const matchesPlayback = playbackFilter === "all" ||
+        user.sessions.some((session) => getSilentMinutes(session) >= silentThreshold);
+
+      return matchesSearch && matchesStatus && matchesRole && matchesPlayback;
     });
-  }, [users, searchQuery, statusFilter, roleFilter]);
+  }, [users, searchQuery, statusFilter, roleFilter, playbackFilter, silentThreshold]);
 
   const handleDeleteUser = async (userId: string) => {
     setDeletingUserId(userId);
@@ -391,9 +422,10 @@ export function UserManager() {
     setSearchQuery("");
     setStatusFilter("all");
     setRoleFilter("all");
+    setPlaybackFilter("all");
   };
 
-  const hasActiveFilters = searchQuery || statusFilter !== "all" || roleFilter !== "all";
+  const hasActiveFilters = searchQuery || statusFilter !== "all" || roleFilter !== "all" || playbackFilter !== "all";
 
   const downloadCSV = () => {
     const headers = ["Name", "Email", "Role", "Subscription Status", "Plan Type", "Subscription End", "Joined"];
@@ -435,6 +467,10 @@ export function UserManager() {
       <div className="flex items-center justify-between">
         <h3 className="text-lg font-semibold">Users ({filteredUsers.length} of {users.length})</h3>
         <div className="flex items-center gap-2">
+          <Button variant="outline" size="sm" onClick={() => setShowTemplatePush(true)}>
+            <LayoutTemplate className="w-4 h-4 mr-2" />
+            Send Template
+          </Button>
           <Button variant="outline" size="sm" onClick={downloadCSV}>
             <Download className="w-4 h-4 mr-2" />
             CSV
@@ -480,6 +516,25 @@ export function UserManager() {
             <SelectItem value="user">User</SelectItem>
           </SelectContent>
         </Select>
+        <Select value={playbackFilter} onValueChange={(v) => setPlaybackFilter(v as FilterPlayback)}>
+          <SelectTrigger className="w-full sm:w-[140px]">
+            <SelectValue placeholder="Playback" />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All Devices</SelectItem>
+            <SelectItem value="silent">Silent Devices</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={String(silentThreshold)} onValueChange={(v) => setSilentThreshold(Number(v))}>
+          <SelectTrigger className="w-full sm:w-[140px]" title="Silent threshold">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SILENT_THRESHOLD_OPTIONS.map((minutes) => (
+              <SelectItem key={minutes} value={String(minutes)}>Silent &gt; {minutes} min</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
         {hasActiveFilters && (
           <Button variant="ghost" size="icon" onClick={clearFilters} title="Clear filters">
             <XCircle className="w-4 h-4" />
@@ -495,6 +550,7 @@ export function UserManager() {
               <TableHead>Role</TableHead>
               <TableHead>Subscription</TableHead>
               <TableHead>Days Left</TableHead>
+              <TableHead>Playback</TableHead>
               <TableHead>Joined</TableHead>
               <TableHead className="w-[150px]">Actions</TableHead>
             </TableRow>
@@ -558,6 +614,38 @@ export function UserManager() {
                     return <span className="text-muted-foreground">—</span>;
                   })()}
                 </TableCell>
+                <TableCell>
+                  {(() => {
+                    if (user.sessions.length === 0) {
+                      return <span className="text-muted-foreground">—</span>;
+                    }
+
+                    const playingCount = user.sessions.filter((s) => getSilentMinutes(s) === 0).length;
+                    const silentMinutes = Math.max(...user.sessions.map((s) => getSilentMinutes(s)));
+                    // One line per device for the tooltip: name, what it last reported and any error
+                    const details = user.sessions.map((s) => {
+                      const { name } = parseDeviceInfo(s.device_info || "", s.session_id);
+                      const track = s.tracks ? `${s.tracks.title} – ${s.tracks.artist}` : "no track";
+                      const error = s.last_error ? ` (error: ${s.last_error})` : "";
+                      return `${name}: ${s.is_playing ? "playing" : "stopped"} ${track}${error}`;
+                    }).join("\n");
+
+                    return (
+                      <div className="flex flex-col gap-1" title={details}>
+                        <span className="text-sm text-muted-foreground flex items-center gap-1">
+                          <Volume2 className="w-3 h-3" />
+                          {playingCount}/{user.sessions.length} playing
+                        </span>
+                        {silentMinutes >= silentThreshold && (
+                          <Badge className="bg-red-500/20 text-red-400 border-red-500/30 w-fit">
+                            <VolumeX className="w-3 h-3 mr-1" />
+                            Silent {silentMinutes >= 60 ? `${Math.floor(silentMinutes / 60)}h` : `${silentMinutes}m`}
+                          </Badge>
+                        )}
+                      </div>
+                    );
+                  })()}
+                </TableCell>
                 <TableCell className="text-muted-foreground">
                   {formatDate(user.created_at)}
                 </TableCell>
@@ -762,7 +850,7 @@ export function UserManager() {
             ))}
             {filteredUsers.length === 0 && (
               <TableRow>
-                <TableCell colSpan={5} className="text-center py-8 text-muted-foreground">
+                <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
                   {hasActiveFilters ? "No users match your filters" : "No users found"}
                 </TableCell>
               </TableRow>
@@ -1068,6 +1156,8 @@ export function UserManager() {
           )}
         </DialogContent>
       </Dialog>
+
+      <ScheduleTemplatePushDialog open={showTemplatePush} onOpenChange={setShowTemplatePush} users={users} />
     </div>
   );
 }
\ No newline at end of file
@@ -4,6 +4,15 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { logActivity } from "@/lib/activityLogger";
 import { getStableDeviceId, generateDeviceFingerprint } from "@/lib/deviceFingerprint";
+import { PlaybackReport, SESSION_HEARTBEAT_INTERVAL_MS, isSchedulerEnabledOnDevice } from "@/lib/deviceInfo";
+import {
+  Organization,
+  OrganizationMembership,
+  OrgRole,
+  acceptPendingInvitations,
+  fetchMemberships,
+} from "@/lib/organizations";
+import { isPairedDeviceUser } from "@/lib/devicePairing";
 
 // Deduplication helper - prevents multiple calls within a time window
 const createDedupedCall = <T,>(fn: () => Promise<T>, minInterval: number) => {
@@ -62,6 +71,16 @@ interface AuthContextType {
   dismissDeviceLimitDialog: () => void;
   openDeviceLimitDialog: () => void;
   getDeviceId: () => string;
+  reportPlayback: (report: PlaybackReport) => void;
+  // Organization the user is acting for, their role in it, and whose account (user_id) its data is stored under
+  organizations: OrganizationMembership[];
+  currentOrganization: Organization | null;
+  orgRole: OrgRole | null;
+  accountUserId: string | null;
+  switchOrganization: (organizationId: string) => Promise<void>;
+  refreshOrganizations: () => Promise<void>;
+  // Signed in through /pair: a player-only device login without access to the account pages
+  isPairedDevice: boolean;
 }
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
@@ -89,6 +108,17 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
   const lastValidationResultRef = useRef<{ result: 'valid' | 'kicked' | 'error'; timestamp: number } | null>(null);
   const consecutiveKicksRef = useRef(0);
   const isDisconnectingRef = useRef(false);
+  // Latest playback state from the player, sent along with every session heartbeat
+  const playbackReportRef = useRef<PlaybackReport | null>(null);
+  const getPlaybackReport = (): PlaybackReport | null =>
+    playbackReportRef.current && { ...playbackReportRef.current, schedulerEnabled: isSchedulerEnabledOnDevice() };
+  const heartbeatTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  // Organizations - the current one is also kept in a ref so every backend call sends it
+  const CURRENT_ORGANIZATION_KEY = "ambian_current_organization";
+  const [organizations, setOrganizations] = useState<OrganizationMembership[]>([]);
+  const [currentOrganizationId, setCurrentOrganizationId] = useState<string | null>(null);
+  const currentOrganizationIdRef = useRef<string | null>(null);
 
   const loadSubscriptionCache = (userId?: string): SubscriptionInfo | null => {
     try {
@@ -175,7 +205,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         return;
       }
 
-      const { data, error } = await supabase.functions.invoke("check-subscription");
+      const { data, error } = await supabase.functions.invoke("check-subscription", {
+        body: { organizationId: currentOrganizationIdRef.current },
+      });
       if (error) throw error;
 
       const next: SubscriptionInfo = {
@@ -276,6 +308,54 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const selectOrganization = (organizationId: string | null, userId?: string) => {
+    currentOrganizationIdRef.current = organizationId;
+    setCurrentOrganizationId(organizationId);
+    if (organizationId && userId) localStorage.setItem(`${CURRENT_ORGANIZATION_KEY}:${userId}`, organizationId);
+  };
+
+  // Load the user's organizations and pick the current one: the last one used on this device,
+  // otherwise the most recently joined (an invited member lands in the organization they joined)
+  const loadOrganizations = async (userId: string) => {
+    try {
+      const memberships = await fetchMemberships(userId);
+      setOrganizations(memberships);
+
+      const stored = localStorage.getItem(`${CURRENT_ORGANIZATION_KEY}:${userId}`);
+      const current = memberships.find(m => m.organization.id === stored) ?? memberships[0];
+      selectOrganization(current?.organization.id ?? null, userId);
+    } catch (error) {
+      console.error("Error loading organizations:", error);
+    }
+  };
+
+  // Invitations are accepted in the background; joining one switches to it
+  const acceptInvitations = async (userId: string) => {
+    try {
+      const accepted = await acceptPendingInvitations();
+      if (accepted.length === 0) return;
+
+      selectOrganization(accepted[0], userId);
+      await loadOrganizations(userId);
+      toast.success("You've joined a new organization");
+      checkSubscription();
+      registerSession(userId, true);
+    } catch (error) {
+      console.error("Error accepting organization invitations:", error);
+    }
+  };
+
+  const switchOrganization = async (organizationId: string) => {
+    if (!user || organizationId === currentOrganizationIdRef.current) return;
+    selectOrganization(organizationId, user.id);
+    // The device moves to the new organization and counts against its device slots
+    await Promise.all([checkSubscription(), registerSession(user.id, true)]);
+  };
+
+  const refreshOrganizations = async () => {
+    if (user) await loadOrganizations(user.id);
+  };
+
   // Get or create a persistent device ID (survives token refreshes)
   // Now uses device fingerprinting for better cross-browser recognition
   const getDeviceId = useCallback(() => {
@@ -312,7 +392,14 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         const deviceFingerprint = generateDeviceFingerprint();
 
         const { data, error } = await supabase.functions.invoke("register-session", {
-          body: { sessionId, deviceInfo, forceRegister, deviceFingerprint },
+          body: {
+            sessionId,
+            deviceInfo,
+            forceRegister,
+            deviceFingerprint,
+            playback: getPlaybackReport(),
+            organizationId: currentOrganizationIdRef.current,
+          },
         });
 
         if (error) {
@@ -460,7 +547,12 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
 
       // First disconnect the target device
       const { data, error: disconnectError } = await supabase.functions.invoke("register-session", {
-        body: { sessionId: currentDeviceId, deviceInfo, disconnectSessionId: sessionIdToDisconnect },
+        body: {
+          sessionId: currentDeviceId,
+          deviceInfo,
+          disconnectSessionId: sessionIdToDisconnect,
+          organizationId: currentOrganizationIdRef.current,
+        },
       });
 
       if (disconnectError) {
@@ -642,6 +734,8 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       setSession(null);
       setUser(null);
       setIsAdmin(false);
+      setOrganizations([]);
+      selectOrganization(null);
       setIsSubscriptionLoading(false);
       setSubscription({ subscribed: false, planType: null, subscriptionEnd: null, isTrial: false, trialDaysRemaining: 0, trialEnd: null, isRecurring: false, isPendingPayment: false, hasUnpaidInvoice: false, deviceSlots: 1, collectionMethod: null, cancelAtPeriodEnd: false });
       setIsDeviceLimitReached(false);
@@ -776,9 +870,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
             setIsSubscriptionLoading(true);
           }
 
-          setTimeout(() => {
+          setTimeout(async () => {
             checkAdminRole(session.user.id);
+            await loadOrganizations(session.user.id);
             checkSubscription(session, shouldShowLoading);
+            if (event === "SIGNED_IN") acceptInvitations(session.user.id);
 
             // Register session on sign in
             if (event === "SIGNED_IN" || event === "TOKEN_REFRESHED") {
@@ -805,13 +901,15 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
             // Handle OAuth signup - add to Resend audience and send welcome email (only on recent sign-in)
             const lastSignInAt = session.user.last_sign_in_at ? new Date(session.user.last_sign_in_at).getTime() : 0;
             const isRecentSignIn = Date.now() - lastSignInAt < 5000;
-            if (event === "SIGNED_IN" && session.user.email && isRecentSignIn) {
+            if (event === "SIGNED_IN" && session.user.email && isRecentSignIn && !isPairedDeviceUser(session.user)) {
               const userName = session.user.user_metadata?.full_name || session.user.user_metadata?.name;
               handleOAuthAudienceSignup(session.user.email, userName, session.user.created_at, session.user.id);
             }
           }, 0);
         } else {
           setIsAdmin(false);
+          setOrganizations([]);
+          selectOrganization(null);
           setIsSubscriptionLoading(false);
           setSubscription({ subscribed: false, planType: null, subscriptionEnd: null, isTrial: false, trialDaysRemaining: 0, trialEnd: null, isRecurring: false, isPendingPayment: false, hasUnpaidInvoice: false, deviceSlots: 1, collectionMethod: null, cancelAtPeriodEnd: false });
           setIsDeviceLimitReached(false);
@@ -860,18 +958,22 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         // Keep isLoading = true until Promise.all below finishes
         
         // Run all async operations in parallel for speed
+        // The organization decides whose subscription and device slots apply, so it's loaded first
         Promise.all([
           checkAdminRole(session.user.id),
-          checkSubscription(session, true),
-          registerSession(session.user.id),
+          loadOrganizations(session.user.id).then(() => Promise.all([
+            checkSubscription(session, true),
+            registerSession(session.user.id),
+          ])),
         ]).finally(() => {
           initialLoadComplete.current = true;
           setIsLoading(false);
         });
+        acceptInvitations(session.user.id);
         
         // Handle OAuth signup - add to Resend audience and send welcome email for new users
         // This handles the case where OAuth redirects back and onAuthStateChange is blocked
-        if (isNewOAuthUser && session.user.email) {
+        if (isNewOAuthUser && session.user.email && !isPairedDeviceUser(session.user)) {
           const userName = session.user.user_metadata?.full_name || session.user.user_metadata?.name;
           handleOAuthAudienceSignup(session.user.email, userName, session.user.created_at, session.user.id);
         }
@@ -927,7 +1029,11 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
       console.log(`Session kicked check ${consecutiveKicksRef.current}/${MAX_CONSECUTIVE_KICKS}`);
 
       if (consecutiveKicksRef.current >= MAX_CONSECUTIVE_KICKS && !isSigningOut.current) {
-        toast.error("You've been disconnected from another device. Need more locations? Add extra device slots in your Profile settings.", { duration: Infinity, closeButton: true });
+        if (isPairedDeviceUser(latestSession.user)) {
+          toast.error("This device has been unpaired. Enter a new pairing code to play here again.", { duration: Infinity, closeButton: true });
+        } else {
+          toast.error("You've been disconnected from another device. Need more locations? Add extra device slots in your Profile settings.", { duration: Infinity, closeButton: true });
+        }
         await signOut();
       }
     };
@@ -967,6 +1073,63 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     };
   }, [session, validateSession, registerSession, isDeviceLimitReached, isSessionRegistered]);
 
+  // Session heartbeat - keeps this device's session fresh and reports what it is playing
+  const sendHeartbeat = useCallback(async () => {
+    try {
+      const { error } = await supabase.functions.invoke("register-session", {
+        body: {
+          sessionId: getDeviceId(),
+          deviceInfo: navigator.userAgent,
+          playback: getPlaybackReport(),
+          heartbeat: true,
+          organizationId: currentOrganizationIdRef.current,
+        },
+      });
+
+      if (error) {
+        console.warn("[Heartbeat] Failed:", error);
+      }
+    } catch (err) {
+      console.warn("[Heartbeat] Error:", err);
+    }
+  }, [getDeviceId]);
+
+  const canSendHeartbeat = !!session?.user?.id && isSessionRegistered && !isDeviceLimitReached;
+  const canSendHeartbeatRef = useRef(canSendHeartbeat);
+  canSendHeartbeatRef.current = canSendHeartbeat;
+
+  useEffect(() => {
+    if (!canSendHeartbeat) return;
+
+    const interval = setInterval(sendHeartbeat, SESSION_HEARTBEAT_INTERVAL_MS);
+    return () => {
+      clearInterval(interval);
+      if (heartbeatTimeoutRef.current) {
+        clearTimeout(heartbeatTimeoutRef.current);
+        heartbeatTimeoutRef.current = null;
+      }
+    };
+  }, [canSendHeartbeat, sendHeartbeat]);
+
+  // Called by the player whenever playback changes; meaningful changes are sent right away (debounced)
+  const reportPlayback = useCallback((report: PlaybackReport) => {
+    const previous = playbackReportRef.current;
+    playbackReportRef.current = report;
+
+    const changed = !previous ||
+      previous.isPlaying !== report.isPlaying ||
+      previous.trackId !== report.trackId ||
+      previous.playlistId !== report.playlistId ||
+      previous.lastErrorAt !== report.lastErrorAt;
+    if (!changed || !canSendHeartbeatRef.current) return;
+
+    if (heartbeatTimeoutRef.current) clearTimeout(heartbeatTimeoutRef.current);
+    heartbeatTimeoutRef.current = setTimeout(() => {
+      heartbeatTimeoutRef.current = null;
+      sendHeartbeat();
+    }, 2000);
+  }, [sendHeartbeat]);
+
   // Real-time subscription for session changes - immediately notify when this device is disconnected
   useEffect(() => {
     if (!session?.user?.id || !isSessionRegistered) return;
@@ -1042,6 +1205,9 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
     return () => clearInterval(interval);
   }, [session]);
 
+  const currentMembership = organizations.find(m => m.organization.id === currentOrganizationId) ?? null;
+  const currentOrganization = currentMembership?.organization ?? null;
+
   return (
     <AuthContext.Provider
       value={{
@@ -1062,6 +1228,14 @@ export const AuthProvider = ({ children }: { children: ReactNode }) => {
         dismissDeviceLimitDialog,
         openDeviceLimitDialog,
         getDeviceId,
+        reportPlayback,
+        organizations,
+        currentOrganization,
+        orgRole: currentMembership?.role ?? null,
+        accountUserId: currentOrganization?.owner_user_id ?? user?.id ?? null,
+        switchOrganization,
+        refreshOrganizations,
+        isPairedDevice: isPairedDeviceUser(user),
       }}
     >
       {children}
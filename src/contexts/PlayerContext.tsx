@@ -1,13 +1,45 @@
 import { createContext, useContext, useState, useCallback, useRef, ReactNode, useEffect } from "react";
 import { Track } from "@/data/musicData";
 import { getSignedAudioUrl } from "@/lib/storage";
+import { getOfflineTrackUrl, isOfflineModeEnabled } from "@/lib/offlineCache";
+import { pickNextTrack, recordTrackPlay } from "@/lib/shuffleEngine";
+import {
+  CrossfadeSettings,
+  clampCrossfadeDuration,
+  getStoredCrossfadeSettings,
+  isCrossfadeCurve,
+  storeCrossfadeSettings,
+} from "@/lib/crossfade";
 import { supabase } from "@/integrations/supabase/client";
 import { useAuth } from "@/contexts/AuthContext";
+import { usePlayPlaylist } from "@/hooks/usePlayPlaylist";
+import {
+  DeviceCommand,
+  DeviceStatus,
+  DEVICE_COMMAND_TTL_MS,
+  DEVICE_STATUS_EVENT,
+  DEVICE_STATUS_REQUEST_EVENT,
+  getDeviceStatusChannelName,
+} from "@/lib/deviceCommands";
+import {
+  ActiveAnnouncement,
+  Announcement,
+  AnnouncementPlaybackMode,
+  getAnnouncementUrl,
+} from "@/lib/announcements";
+import {
+  ScheduledVolume,
+  VOLUME_RAMP_SECONDS,
+  getStoredVolumeOverride,
+  storeVolumeOverride,
+} from "@/lib/volumeSchedule";
+import type { RealtimeChannel } from "@supabase/supabase-js";
 import { toast } from "sonner";
 
 interface PlaybackState {
   currentTrackId: string | null;
   playlistTrackIds: string[];
+  queueTrackIds?: string[];
   position: number;
   wasPlaying: boolean;
   savedAt: number;
@@ -18,6 +50,9 @@ interface ScheduledTransition {
   playlist: Track[];
 }
 
+// Chooses the next playlist track in place of playlist order/shuffle (null = no opinion)
+export type NextTrackPicker = (playlist: Track[], currentTrackId: string) => Track | null;
+
 interface PlayerContextType {
   currentTrack: (Track & { audioUrl?: string }) | null;
   currentPlaylistId: string | null;
@@ -25,15 +60,35 @@ interface PlayerContextType {
   shuffle: boolean;
   repeat: "off" | "all" | "one";
   crossfade: boolean;
+  crossfadeSettings: CrossfadeSettings;
+  normalizeLoudness: boolean;
   isQuickMix: boolean;
+  volume: number;
+  setVolume: (volume: number) => void;
+  volumeRampSeconds: number;
+  volumeSlot: ScheduledVolume | null;
+  isVolumeOverridden: boolean;
+  applyScheduledVolume: (target: ScheduledVolume | null) => void;
+  resetVolumeOverride: () => void;
   playlistTracksRef: React.MutableRefObject<Track[]>;
+  queue: Track[];
+  playNext: (track: Track) => void;
+  addToQueue: (track: Track) => void;
+  removeFromQueue: (index: number) => void;
+  moveInQueue: (from: number, to: number) => void;
+  clearQueue: () => void;
   handleTrackSelect: (track: Track, playlistTracks?: Track[], isQuickMix?: boolean, playlistId?: string) => void;
   handlePlayPause: () => void;
+  pausePlayback: () => void;
+  fadeOutAndStop: (seconds: number) => void;
+  resumePlayback: () => void;
   handleNext: () => Promise<void>;
   handlePrevious: () => Promise<void>;
   handleShuffleToggle: () => void;
   handleRepeatToggle: () => void;
   handleCrossfadeToggle: () => void;
+  setCrossfadeSettings: (settings: CrossfadeSettings) => Promise<void>;
+  setNormalizeLoudness: (enabled: boolean) => void;
   clearQuickMix: () => void;
   updateAudioUrl: (newUrl: string) => void;
   originalDbUrl: string | null;
@@ -43,8 +98,16 @@ interface PlayerContextType {
   pendingScheduledTransition: ScheduledTransition | null;
   triggerScheduledCrossfade: (track: Track, playlist: Track[]) => Promise<void>;
   clearScheduledTransition: () => void;
-  setCurrentTrackDirect: (track: Track & { audioUrl?: string }) => void;
+  setNextTrackPicker: (picker: NextTrackPicker | null) => void;
+  activeAnnouncement: ActiveAnnouncement | null;
+  hasPendingAnnouncement: boolean;
+  playAnnouncement: (announcement: Announcement, mode: AnnouncementPlaybackMode) => Promise<void>;
+  finishAnnouncement: () => void;
+  setCurrentTrackDirect: (track: Track & { audioUrl?: string }, fromQueue?: boolean) => void;
   removeCurrentTrackFromPlaylist: () => Promise<void>;
+  onDeviceStatus: (listener: (status: DeviceStatus) => void) => () => void;
+  requestDeviceStatuses: () => void;
+  reportPlaybackError: (message: string) => void;
 }
 
 const PlayerContext = createContext<PlayerContextType | undefined>(undefined);
@@ -61,8 +124,29 @@ export const usePlayer = () => {
 const URL_REFRESH_INTERVAL = 3.5 * 60 * 60 * 1000;
 const PERSISTENCE_KEY = "ambian_playback_state";
 
+/**
+ * Signed audio URL for a track. In offline mode the downloaded copy is used
+ * when the network is down or the URL can't be signed.
+ */
+const fetchTrackAudio = async (trackId: string): Promise<{ dbUrl: string | null; audioUrl?: string }> => {
+  const getOfflineCopy = async () => (isOfflineModeEnabled() ? getOfflineTrackUrl(trackId) : undefined);
+
+  if (!navigator.onLine) {
+    return { dbUrl: null, audioUrl: await getOfflineCopy() };
+  }
+
+  const { data } = await supabase
+    .from("tracks")
+    .select("audio_url")
+    .eq("id", trackId)
+    .single();
+
+  const signedUrl = data?.audio_url ? await getSignedAudioUrl(data.audio_url) : undefined;
+  return { dbUrl: data?.audio_url ?? null, audioUrl: signedUrl ?? (await getOfflineCopy()) };
+};
+
 export const PlayerProvider = ({ children }: { children: ReactNode }) => {
-  const { canPlayMusic, openDeviceLimitDialog } = useAuth();
+  const { user, currentOrganization, canPlayMusic, openDeviceLimitDialog, getDeviceId, reportPlayback } = useAuth();
   const [currentTrack, setCurrentTrack] = useState<(Track & { audioUrl?: string }) | null>(null);
   const [isPlaying, setIsPlaying] = useState(false);
   const [shuffle, setShuffle] = useState(false);
@@ -72,16 +156,56 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     // Default to true if no preference saved
     return saved === null ? true : saved === "true";
   });
+  const [crossfadeSettings, setCrossfadeSettingsState] = useState<CrossfadeSettings>(getStoredCrossfadeSettings);
+  const [normalizeLoudness, setNormalizeLoudnessState] = useState(() => {
+    const saved = localStorage.getItem("ambian_normalize_loudness");
+    // Default to true if no preference saved
+    return saved === null ? true : saved === "true";
+  });
   const [isQuickMix, setIsQuickMix] = useState(false);
+  const [volume, setVolumeState] = useState(100);
+  // How long the player ramps to a new volume (0 = right away; scheduled volume changes ramp)
+  const [volumeRampSeconds, setVolumeRampSeconds] = useState(0);
+  const [volumeSlot, setVolumeSlot] = useState<ScheduledVolume | null>(null);
+  const volumeSlotRef = useRef<ScheduledVolume | null>(null);
+  const [isVolumeOverridden, setIsVolumeOverridden] = useState(false);
+  // Volume from before the first slot started, restored when no slot applies any more
+  const unscheduledVolumeRef = useRef<number | null>(null);
+  const [lastError, setLastError] = useState<{ message: string; at: number } | null>(null);
   const [currentPlaylistId, setCurrentPlaylistId] = useState<string | null>(null);
   const [originalDbUrl, setOriginalDbUrl] = useState<string | null>(null);
   const [seekPosition, setSeekPosition] = useState<number | null>(null);
   const [pendingScheduledTransition, setPendingScheduledTransition] = useState<ScheduledTransition | null>(null);
   const playlistTracksRef = useRef<Track[]>([]);
+  // Tracks lined up by the user; they play before the playlist continues
+  const [queue, setQueue] = useState<Track[]>([]);
+  // Last playlist track that played, so the playlist resumes after it once the queue is empty
+  const playlistAnchorIdRef = useRef<string | null>(null);
+  // Set by the scheduler while a dynamic (energy curve) schedule is playing
+  const nextTrackPickerRef = useRef<NextTrackPicker | null>(null);
+  const [activeAnnouncement, setActiveAnnouncement] = useState<ActiveAnnouncement | null>(null);
+  // An inserted announcement waits here for the end of the current track
+  const pendingAnnouncementRef = useRef<Announcement | null>(null);
+  const [hasPendingAnnouncement, setHasPendingAnnouncement] = useState(false);
+  // Resolves the handleNext waiting on an inserted announcement (false = don't advance afterwards)
+  const announcementDoneRef = useRef<((advance: boolean) => void) | null>(null);
   const urlCreatedAtRef = useRef<number>(Date.now());
   const refreshTimerRef = useRef<NodeJS.Timeout | null>(null);
   const hasRestoredRef = useRef(false);
   
+  // Closing-time fade in progress: its stop timer and the volume to return to
+  const closingFadeRef = useRef<{ timer: NodeJS.Timeout; volume: number } | null>(null);
+
+  // Staff picking music during the closing fade keeps it playing at the volume from before the fade
+  const cancelClosingFade = useCallback(() => {
+    const fade = closingFadeRef.current;
+    if (!fade) return;
+    clearTimeout(fade.timer);
+    closingFadeRef.current = null;
+    setVolumeRampSeconds(0);
+    setVolumeState(fade.volume);
+  }, []);
+
   // Track if audio has been unlocked by user gesture (Safari/iOS requirement)
   const audioUnlockedRef = useRef(false);
   
@@ -153,6 +277,7 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     const state: PlaybackState = {
       currentTrackId: currentTrack.id,
       playlistTrackIds: playlistTracksRef.current.map(t => t.id),
+      queueTrackIds: queue.map(t => t.id),
       position: 0, // Will be updated by PlayerBar
       wasPlaying: isPlaying,
       savedAt: Date.now(),
@@ -163,7 +288,7 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     } catch (e) {
       console.error("Failed to save playback state:", e);
     }
-  }, [currentTrack, isPlaying]);
+  }, [currentTrack, isPlaying, queue]);
 
   // Save state periodically and on changes
   useEffect(() => {
@@ -211,16 +336,17 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
 
         console.log("Restoring playback state...");
 
-        // Fetch playlist tracks from DB
+        // Fetch playlist and queued tracks from DB
+        const queueTrackIds = state.queueTrackIds ?? [];
         const { data: tracks } = await supabase
           .from("tracks")
           .select("*")
-          .in("id", state.playlistTrackIds);
+          .in("id", [...new Set([...state.playlistTrackIds, ...queueTrackIds])]);
 
         if (!tracks || tracks.length === 0) return;
 
         // Convert to Track format and maintain order
-        const orderedTracks: Track[] = state.playlistTrackIds
+        const toOrderedTracks = (ids: string[]): Track[] => ids
           .map(id => tracks.find(t => t.id === id))
           .filter(Boolean)
           .map(t => ({
@@ -232,15 +358,20 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
             cover: t!.cover_url || "/placeholder.svg",
             genre: t!.genre || "",
           }));
+        const orderedTracks = toOrderedTracks(state.playlistTrackIds);
+        const queuedTracks = toOrderedTracks(queueTrackIds);
 
         if (orderedTracks.length === 0) return;
 
         playlistTracksRef.current = orderedTracks;
+        playlistAnchorIdRef.current = state.currentTrackId;
+        // The first queued track is the one that starts playing
+        setQueue(queuedTracks.slice(1));
 
-        // Find the NEXT track to play (skip current, start fresh for reliable autoplay)
+        // Find the NEXT track to play (skip current, start fresh for reliable autoplay); queued tracks go first
         const currentIndex = orderedTracks.findIndex(t => t.id === state.currentTrackId);
         const nextIndex = (currentIndex + 1) % orderedTracks.length;
-        const nextTrack = orderedTracks[nextIndex];
+        const nextTrack = queuedTracks[0] ?? orderedTracks[nextIndex];
         
         // Fetch audio URL for next track
         const nextTrackData = tracks.find(t => t.id === nextTrack.id);
@@ -265,6 +396,57 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     setTimeout(restorePlayback, 500);
   }, []);
 
+  // End the playing announcement; an inserted one lets its handleNext advance unless `advance` is false
+  const endAnnouncement = useCallback((advance: boolean) => {
+    setActiveAnnouncement(null);
+    const done = announcementDoneRef.current;
+    announcementDoneRef.current = null;
+    done?.(advance);
+  }, []);
+
+  const finishAnnouncement = useCallback(() => endAnnouncement(true), [endAnnouncement]);
+
+  // Duck clips play right away over the music; insert clips wait for the current track to end
+  const playAnnouncement = useCallback(async (announcement: Announcement, mode: AnnouncementPlaybackMode) => {
+    if (mode === "insert") {
+      pendingAnnouncementRef.current = announcement;
+      setHasPendingAnnouncement(true);
+      return;
+    }
+
+    const url = await getAnnouncementUrl(announcement.audio_path);
+    if (!url) return;
+    // One clip at a time: a duck clip that comes up while another clip plays is dropped
+    setActiveAnnouncement((prev) => prev ?? {
+      id: announcement.id,
+      url,
+      mode,
+      loudnessLufs: announcement.loudness_lufs,
+    });
+  }, []);
+
+  // Play the inserted announcement waiting for the track boundary, if any.
+  // Resolves once it has ended, with whether playback should then advance.
+  const playPendingAnnouncement = useCallback(async (): Promise<boolean> => {
+    const announcement = pendingAnnouncementRef.current;
+    if (!announcement) return true;
+    pendingAnnouncementRef.current = null;
+    setHasPendingAnnouncement(false);
+
+    const url = await getAnnouncementUrl(announcement.audio_path);
+    if (!url) return true;
+
+    return new Promise<boolean>((resolve) => {
+      announcementDoneRef.current = resolve;
+      setActiveAnnouncement({
+        id: announcement.id,
+        url,
+        mode: "insert",
+        loudnessLufs: announcement.loudness_lufs,
+      });
+    });
+  }, []);
+
   const handleTrackSelect = useCallback(async (track: Track, playlistTracks?: Track[], quickMix?: boolean, playlistId?: string) => {
     // Block playback if device limit reached - show dialog instead of toast
     if (!canPlayMusic) {
@@ -272,6 +454,10 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
       return;
     }
 
+    // Picking a track cuts an inserted announcement short without also skipping past the pick
+    if (announcementDoneRef.current) endAnnouncement(false);
+    cancelClosingFade();
+
     // Mark audio as unlocked since this is a user gesture
     unlockAudio();
 
@@ -285,28 +471,18 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     setIsQuickMix(quickMix ?? false);
     
     // If track already has a valid signed URL (not a raw DB URL), use it
-    if (track.audioUrl && track.audioUrl.includes('token=')) {
+    if (track.audioUrl && track.audioUrl.includes('token=') && navigator.onLine) {
       setCurrentTrack(track);
       setIsPlaying(true);
       return;
     }
     
-    // Fetch signed URL for the track
-    const { data } = await supabase
-      .from("tracks")
-      .select("audio_url")
-      .eq("id", track.id)
-      .single();
-    
-    if (data?.audio_url) {
-      setOriginalDbUrl(data.audio_url);
-      const signedUrl = await getSignedAudioUrl(data.audio_url);
-      setCurrentTrack({ ...track, audioUrl: signedUrl });
-    } else {
-      setCurrentTrack(track);
-    }
+    // Fetch signed URL for the track (or its offline copy)
+    const { dbUrl, audioUrl } = await fetchTrackAudio(track.id);
+    if (dbUrl) setOriginalDbUrl(dbUrl);
+    setCurrentTrack(audioUrl ? { ...track, audioUrl } : track);
     setIsPlaying(true);
-  }, [canPlayMusic, openDeviceLimitDialog, unlockAudio]);
+  }, [canPlayMusic, openDeviceLimitDialog, unlockAudio, endAnnouncement, cancelClosingFade]);
 
   const handlePlayPause = useCallback(() => {
     // Mark audio as unlocked since this is a user gesture
@@ -314,37 +490,114 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     setIsPlaying((prev) => !prev);
   }, [unlockAudio]);
 
+  // Pause without toggling (for automatic stops that aren't user gestures)
+  const pausePlayback = useCallback(() => {
+    setIsPlaying(false);
+  }, []);
+
+  // Resume without a user gesture (opening time). Works once audio was unlocked earlier in this page;
+  // after a reload the browser blocks it and PlayerBar asks for a tap instead.
+  const resumePlayback = useCallback(() => {
+    if (!audioUnlockedRef.current) {
+      console.log("[Audio] Resuming without a prior user gesture - play may be blocked until the user taps play");
+    }
+    setIsPlaying(true);
+  }, []);
+
   const fetchAndPlayTrack = useCallback(async (track: Track) => {
-    if (track.audioUrl) {
+    if (track.audioUrl && navigator.onLine) {
       setCurrentTrack(track);
       setIsPlaying(true);
       setSeekPosition(null);
       return;
     }
     
-    const { data } = await supabase
-      .from("tracks")
-      .select("audio_url")
-      .eq("id", track.id)
-      .single();
-    
-    if (data?.audio_url) {
-      setOriginalDbUrl(data.audio_url);
-      const signedUrl = await getSignedAudioUrl(data.audio_url);
-      setCurrentTrack({ ...track, audioUrl: signedUrl });
-    } else {
-      setCurrentTrack(track);
-    }
+    const { dbUrl, audioUrl } = await fetchTrackAudio(track.id);
+    if (dbUrl) setOriginalDbUrl(dbUrl);
+    setCurrentTrack(audioUrl ? { ...track, audioUrl } : track);
     setIsPlaying(true);
     setSeekPosition(null);
   }, []);
 
+  // Position in the playlist; while a queued track plays, the playlist track that played before it
+  const getPlaylistIndex = useCallback((tracks: Track[], trackId: string) => {
+    const index = tracks.findIndex((t) => t.id === trackId);
+    if (index !== -1 || !playlistAnchorIdRef.current) return index;
+    return tracks.findIndex((t) => t.id === playlistAnchorIdRef.current);
+  }, []);
+
+  const currentTrackId = currentTrack?.id;
+  const currentTrackArtist = currentTrack?.artist;
+
+  // Play history on this device feeds the shuffle variety rules
+  useEffect(() => {
+    if (currentTrackId) recordTrackPlay({ id: currentTrackId, artist: currentTrackArtist ?? "" });
+  }, [currentTrackId, currentTrackArtist]);
+
+  useEffect(() => {
+    if (!currentTrackId) return;
+    if (playlistTracksRef.current.some((t) => t.id === currentTrackId)) {
+      playlistAnchorIdRef.current = currentTrackId;
+    }
+  }, [currentTrackId]);
+
+  // A queued track leaves the queue when it starts playing, even when it's the same track as the one
+  // before it (also called when it arrives through a crossfade)
+  const dropQueueHead = useCallback((trackId: string) => {
+    setQueue((prev) => (prev[0]?.id === trackId ? prev.slice(1) : prev));
+  }, []);
+
+  // Signed URLs expire, so queued tracks are stored without one and signed when they play
+  const playNext = useCallback((track: Track) => {
+    setQueue((prev) => [{ ...track, audioUrl: undefined }, ...prev]);
+  }, []);
+
+  const addToQueue = useCallback((track: Track) => {
+    setQueue((prev) => [...prev, { ...track, audioUrl: undefined }]);
+  }, []);
+
+  const removeFromQueue = useCallback((index: number) => {
+    setQueue((prev) => prev.filter((_, i) => i !== index));
+  }, []);
+
+  const moveInQueue = useCallback((from: number, to: number) => {
+    setQueue((prev) => {
+      if (to < 0 || to >= prev.length) return prev;
+      const next = [...prev];
+      const [moved] = next.splice(from, 1);
+      next.splice(to, 0, moved);
+      return next;
+    });
+  }, []);
+
+  const clearQueue = useCallback(() => {
+    setQueue([]);
+  }, []);
+
   const handleNext = useCallback(async () => {
     if (!currentTrack) return;
+
+    // Skipping during an inserted announcement ends it; the handleNext waiting on it then advances
+    if (announcementDoneRef.current) {
+      endAnnouncement(true);
+      return;
+    }
+    // An inserted announcement plays between this track and the next
+    if (!(await playPendingAnnouncement())) return;
+
+    // Queued tracks play before the playlist continues
+    if (queue.length > 0) {
+      const queued = queue[0];
+      console.log("[handleNext] Playing queued track:", queued.id);
+      dropQueueHead(queued.id);
+      await fetchAndPlayTrack(queued);
+      return;
+    }
+
     const tracks = playlistTracksRef.current;
     if (tracks.length === 0) return;
     
-    const currentIndex = tracks.findIndex((t) => t.id === currentTrack.id);
+    const currentIndex = getPlaylistIndex(tracks, currentTrack.id);
     
     // Debug logging for Quick Mix
     console.log("[handleNext]", {
@@ -364,30 +617,33 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     }
     
     let nextIndex: number;
-    if (shuffle) {
-      const availableIndices = tracks.map((_, i) => i).filter(i => i !== currentIndex);
-      nextIndex = availableIndices.length > 0 
-        ? availableIndices[Math.floor(Math.random() * availableIndices.length)]
-        : currentIndex;
+    const scheduledPick = nextTrackPickerRef.current?.(tracks, tracks[currentIndex].id);
+    if (scheduledPick) {
+      // A dynamic schedule picks the track matching its energy curve
+      nextIndex = tracks.indexOf(scheduledPick);
+    } else if (shuffle) {
+      // Variety rules (artist separation, repeat window) decide the shuffled pick
+      const picked = pickNextTrack(tracks, tracks[currentIndex].id);
+      nextIndex = picked ? tracks.indexOf(picked) : currentIndex;
     } else {
       nextIndex = (currentIndex + 1) % tracks.length;
     }
     
     console.log("[handleNext] Playing next track:", { nextIndex, nextTrackId: tracks[nextIndex]?.id });
     await fetchAndPlayTrack(tracks[nextIndex]);
-  }, [currentTrack, shuffle, fetchAndPlayTrack, isQuickMix]);
+  }, [currentTrack, shuffle, fetchAndPlayTrack, isQuickMix, queue, getPlaylistIndex, endAnnouncement, playPendingAnnouncement, dropQueueHead]);
 
   const handlePrevious = useCallback(async () => {
     if (!currentTrack) return;
     const tracks = playlistTracksRef.current;
     if (tracks.length === 0) return;
     
-    const currentIndex = tracks.findIndex((t) => t.id === currentTrack.id);
+    const currentIndex = getPlaylistIndex(tracks, currentTrack.id);
     if (currentIndex === -1) return;
     
     const prevIndex = (currentIndex - 1 + tracks.length) % tracks.length;
     await fetchAndPlayTrack(tracks[prevIndex]);
-  }, [currentTrack, fetchAndPlayTrack]);
+  }, [currentTrack, fetchAndPlayTrack, getPlaylistIndex]);
 
   const handleShuffleToggle = useCallback(() => {
     setShuffle((prev) => !prev);
@@ -409,6 +665,127 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     });
   }, []);
 
+  // Crossfade length and curve follow the account; localStorage only bridges the startup
+  useEffect(() => {
+    if (!user) return;
+
+    const loadCrossfadeSettings = async () => {
+      const { data, error } = await supabase
+        .from("profiles")
+        .select("crossfade_duration_seconds, crossfade_curve")
+        .eq("user_id", user.id)
+        .maybeSingle();
+
+      if (error || !data) {
+        if (error) console.error("[Crossfade] Failed to load settings:", error);
+        return;
+      }
+
+      const settings: CrossfadeSettings = {
+        duration: clampCrossfadeDuration(data.crossfade_duration_seconds),
+        curve: isCrossfadeCurve(data.crossfade_curve) ? data.crossfade_curve : getStoredCrossfadeSettings().curve,
+      };
+      setCrossfadeSettingsState(settings);
+      storeCrossfadeSettings(settings);
+    };
+
+    loadCrossfadeSettings();
+  }, [user]);
+
+  const setCrossfadeSettings = useCallback(async (settings: CrossfadeSettings) => {
+    const next = { ...settings, duration: clampCrossfadeDuration(settings.duration) };
+    setCrossfadeSettingsState(next);
+    storeCrossfadeSettings(next);
+
+    if (!user) return;
+    const { error } = await supabase
+      .from("profiles")
+      .update({ crossfade_duration_seconds: next.duration, crossfade_curve: next.curve })
+      .eq("user_id", user.id);
+    if (error) throw error;
+  }, [user]);
+
+  const setNormalizeLoudness = useCallback((enabled: boolean) => {
+    setNormalizeLoudnessState(enabled);
+    localStorage.setItem("ambian_normalize_loudness", String(enabled));
+  }, []);
+
+  const setVolume = useCallback((value: number) => {
+    const next = Math.max(0, Math.min(100, Math.round(value)));
+    // Moving the slider during the closing fade keeps the music going at the chosen volume
+    if (closingFadeRef.current) {
+      clearTimeout(closingFadeRef.current.timer);
+      closingFadeRef.current = null;
+    }
+    setVolumeRampSeconds(0);
+    setVolumeState(next);
+
+    // While a volume slot applies, a manual change overrides it until the next slot starts
+    const slot = volumeSlotRef.current;
+    if (slot) {
+      const overridden = next !== slot.volume;
+      setIsVolumeOverridden(overridden);
+      storeVolumeOverride(overridden ? { key: slot.key, volume: next } : null);
+    }
+  }, []);
+
+  const volumeRef = useRef(volume);
+  volumeRef.current = volume;
+
+  // Called by the scheduler on every check; only a different slot changes the volume
+  const applyScheduledVolume = useCallback((target: ScheduledVolume | null) => {
+    if ((volumeSlotRef.current?.key ?? null) === (target?.key ?? null)) return;
+    const wasScheduled = volumeSlotRef.current !== null;
+    volumeSlotRef.current = target;
+    setVolumeSlot(target);
+
+    if (!target) {
+      setIsVolumeOverridden(false);
+      storeVolumeOverride(null);
+      if (unscheduledVolumeRef.current !== null) {
+        setVolumeRampSeconds(VOLUME_RAMP_SECONDS);
+        setVolumeState(unscheduledVolumeRef.current);
+        unscheduledVolumeRef.current = null;
+      }
+      return;
+    }
+
+    if (!wasScheduled) unscheduledVolumeRef.current = volumeRef.current;
+    // An override made on this device for this same slot (before a reload) still holds
+    const override = getStoredVolumeOverride(target.key);
+    if (override === null) storeVolumeOverride(null);
+    setIsVolumeOverridden(override !== null);
+    setVolumeRampSeconds(VOLUME_RAMP_SECONDS);
+    setVolumeState(override ?? target.volume);
+  }, []);
+
+  const resetVolumeOverride = useCallback(() => {
+    const slot = volumeSlotRef.current;
+    if (!slot) return;
+    storeVolumeOverride(null);
+    setIsVolumeOverridden(false);
+    setVolumeRampSeconds(VOLUME_RAMP_SECONDS);
+    setVolumeState(slot.volume);
+  }, []);
+
+  // Fade out over `seconds` and pause (closing time), then put the volume back for the next start
+  const fadeOutAndStop = useCallback((seconds: number) => {
+    if (closingFadeRef.current) return;
+    const restoreVolume = volumeRef.current;
+    setVolumeRampSeconds(seconds);
+    setVolumeState(0);
+
+    closingFadeRef.current = {
+      volume: restoreVolume,
+      timer: setTimeout(() => {
+        closingFadeRef.current = null;
+        setIsPlaying(false);
+        setVolumeRampSeconds(0);
+        setVolumeState(restoreVolume);
+      }, seconds * 1000),
+    };
+  }, []);
+
   const clearQuickMix = useCallback(() => {
     setIsQuickMix(false);
   }, []);
@@ -416,18 +793,27 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
   // Get next track with audio URL for crossfade preloading
   const getNextTrack = useCallback(async (): Promise<(Track & { audioUrl?: string }) | null> => {
     if (!currentTrack) return null;
+
+    if (queue.length > 0) {
+      const { audioUrl } = await fetchTrackAudio(queue[0].id);
+      return audioUrl ? { ...queue[0], audioUrl } : queue[0];
+    }
+
     const tracks = playlistTracksRef.current;
     if (tracks.length === 0) return null;
     
-    const currentIndex = tracks.findIndex((t) => t.id === currentTrack.id);
+    const currentIndex = getPlaylistIndex(tracks, currentTrack.id);
     if (currentIndex === -1) return null;
     
     let nextIndex: number;
-    if (shuffle) {
-      const availableIndices = tracks.map((_, i) => i).filter(i => i !== currentIndex);
-      nextIndex = availableIndices.length > 0 
-        ? availableIndices[Math.floor(Math.random() * availableIndices.length)]
-        : currentIndex;
+    const scheduledPick = nextTrackPickerRef.current?.(tracks, tracks[currentIndex].id);
+    if (scheduledPick) {
+      // A dynamic schedule picks the track matching its energy curve
+      nextIndex = tracks.indexOf(scheduledPick);
+    } else if (shuffle) {
+      // Variety rules (artist separation, repeat window) decide the shuffled pick
+      const picked = pickNextTrack(tracks, tracks[currentIndex].id);
+      nextIndex = picked ? tracks.indexOf(picked) : currentIndex;
     } else {
       nextIndex = (currentIndex + 1) % tracks.length;
     }
@@ -435,19 +821,9 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     const nextTrack = tracks[nextIndex];
     
     // Fetch audio URL
-    const { data } = await supabase
-      .from("tracks")
-      .select("audio_url")
-      .eq("id", nextTrack.id)
-      .single();
-    
-    if (data?.audio_url) {
-      const signedUrl = await getSignedAudioUrl(data.audio_url);
-      return { ...nextTrack, audioUrl: signedUrl };
-    }
-    
-    return nextTrack;
-  }, [currentTrack, shuffle]);
+    const { audioUrl } = await fetchTrackAudio(nextTrack.id);
+    return audioUrl ? { ...nextTrack, audioUrl } : nextTrack;
+  }, [currentTrack, shuffle, queue, getPlaylistIndex]);
 
   // Trigger a scheduled crossfade transition (for playlist scheduler)
   const triggerScheduledCrossfade = useCallback(async (track: Track, playlist: Track[]) => {
@@ -463,16 +839,11 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     if (!currentTrack || !isPlaying) {
       console.log("[triggerScheduledCrossfade] Nothing playing, starting fresh");
       playlistTracksRef.current = playlist;
-      const { data } = await supabase
-        .from("tracks")
-        .select("audio_url")
-        .eq("id", track.id)
-        .single();
+      const { dbUrl, audioUrl } = await fetchTrackAudio(track.id);
       
-      if (data?.audio_url) {
-        setOriginalDbUrl(data.audio_url);
-        const signedUrl = await getSignedAudioUrl(data.audio_url);
-        const trackWithUrl = { ...track, audioUrl: signedUrl };
+      if (audioUrl) {
+        if (dbUrl) setOriginalDbUrl(dbUrl);
+        const trackWithUrl = { ...track, audioUrl };
         console.log("[triggerScheduledCrossfade] Setting track with URL", { trackId: track.id });
         setCurrentTrack(trackWithUrl);
       } else {
@@ -496,17 +867,8 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     }
 
     // Fetch signed URL for the new track
-    const { data } = await supabase
-      .from("tracks")
-      .select("audio_url")
-      .eq("id", track.id)
-      .single();
-    
-    let trackWithUrl: Track & { audioUrl?: string } = track;
-    if (data?.audio_url) {
-      const signedUrl = await getSignedAudioUrl(data.audio_url);
-      trackWithUrl = { ...track, audioUrl: signedUrl };
-    }
+    const { audioUrl } = await fetchTrackAudio(track.id);
+    const trackWithUrl: Track & { audioUrl?: string } = audioUrl ? { ...track, audioUrl } : track;
 
     // Set the pending transition - PlayerBar will handle the crossfade
     setPendingScheduledTransition({
@@ -519,11 +881,16 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     setPendingScheduledTransition(null);
   }, []);
 
-  // Direct setter for crossfade completion (avoids double-advancing)
-  const setCurrentTrackDirect = useCallback((track: Track & { audioUrl?: string }) => {
+  const setNextTrackPicker = useCallback((picker: NextTrackPicker | null) => {
+    nextTrackPickerRef.current = picker;
+  }, []);
+
+  // Direct setter for crossfade completion (avoids double-advancing); fromQueue takes the track off the head of the queue
+  const setCurrentTrackDirect = useCallback((track: Track & { audioUrl?: string }, fromQueue = false) => {
+    if (fromQueue) dropQueueHead(track.id);
     setCurrentTrack(track);
     setSeekPosition(null);
-  }, []);
+  }, [dropQueueHead]);
 
   // Remove current track from its playlist (for admin use)
   const removeCurrentTrackFromPlaylist = useCallback(async () => {
@@ -600,6 +967,169 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
     }
   }, [currentTrack, currentPlaylistId]);
 
+  const { playPlaylist } = usePlayPlaylist(handleTrackSelect);
+
+  // Remote control: apply commands sent to this device from Profile -> Devices on another device.
+  // Handlers are read through a ref so the subscription isn't recreated on every track change.
+  const remoteHandlersRef = useRef({ handleNext, playPlaylist, hasTrack: false });
+  remoteHandlersRef.current = { handleNext, playPlaylist, hasTrack: !!currentTrack };
+
+  const commandOrganizationId = currentOrganization?.id ?? null;
+
+  useEffect(() => {
+    if (!user?.id) return;
+    const sessionId = getDeviceId();
+
+    const applyCommand = async (command: DeviceCommand) => {
+      // Session ids are device fingerprints that other accounts' devices can share; only take commands
+      // sent within this device's organization, or by this login when it has none
+      const isForThisAccount = command.organization_id
+        ? command.organization_id === commandOrganizationId
+        : command.user_id === user.id;
+      if (!isForThisAccount) {
+        console.warn("[Remote] Ignoring command from another account:", command.command);
+        return;
+      }
+
+      if (Date.now() - new Date(command.created_at).getTime() > DEVICE_COMMAND_TTL_MS) {
+        console.log("[Remote] Ignoring expired command:", command.command);
+        return;
+      }
+
+      console.log("[Remote] Applying command:", command.command, command.payload);
+      const handlers = remoteHandlersRef.current;
+
+      switch (command.command) {
+        case "play":
+          if (handlers.hasTrack) setIsPlaying(true);
+          break;
+        case "pause":
+          setIsPlaying(false);
+          break;
+        case "next":
+          await handlers.handleNext();
+          break;
+        case "volume":
+          if (typeof command.payload?.volume === "number") setVolume(command.payload.volume);
+          break;
+        case "playlist":
+          if (command.payload?.playlistId) {
+            await handlers.playPlaylist(command.payload.playlistId);
+            setCurrentPlaylistId(command.payload.playlistId);
+          }
+          break;
+      }
+
+      await supabase
+        .from("device_commands")
+        .update({ processed_at: new Date().toISOString() })
+        .eq("id", command.id);
+    };
+
+    const channel = supabase
+      .channel(`device-commands-${sessionId}`)
+      .on(
+        "postgres_changes",
+        {
+          event: "INSERT",
+          schema: "public",
+          table: "device_commands",
+          filter: `session_id=eq.${sessionId}`,
+        },
+        (payload) => {
+          void applyCommand(payload.new as DeviceCommand);
+        }
+      )
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [user?.id, commandOrganizationId, getDeviceId, setVolume]);
+
+  // Remote control status: share this device's now-playing with the user's other devices.
+  // Only one channel per topic exists per client, so remote panels listen through onDeviceStatus.
+  const statusChannelRef = useRef<RealtimeChannel | null>(null);
+  const deviceStatusListenersRef = useRef(new Set<(status: DeviceStatus) => void>());
+  const buildStatus = (): DeviceStatus => ({
+    sessionId: getDeviceId(),
+    track: currentTrack
+      ? { id: currentTrack.id, title: currentTrack.title, artist: currentTrack.artist, cover: currentTrack.cover }
+      : null,
+    playlistId: currentPlaylistId,
+    isPlaying,
+    volume,
+    sentAt: Date.now(),
+  });
+  const buildStatusRef = useRef(buildStatus);
+  buildStatusRef.current = buildStatus;
+
+  const broadcastStatus = useCallback(() => {
+    const channel = statusChannelRef.current;
+    if (!channel) return;
+    void channel.send({ type: "broadcast", event: DEVICE_STATUS_EVENT, payload: buildStatusRef.current() });
+  }, []);
+
+  // Shared by the organization's devices, whoever is signed in on them
+  const statusScopeId = currentOrganization?.id ?? user?.id;
+
+  useEffect(() => {
+    if (!statusScopeId) return;
+
+    const channel = supabase
+      .channel(getDeviceStatusChannelName(statusScopeId))
+      .on("broadcast", { event: DEVICE_STATUS_REQUEST_EVENT }, () => broadcastStatus())
+      .on("broadcast", { event: DEVICE_STATUS_EVENT }, ({ payload }) => {
+        deviceStatusListenersRef.current.forEach(listener => listener(payload as DeviceStatus));
+      })
+      .subscribe((status) => {
+        if (status === "SUBSCRIBED") {
+          statusChannelRef.current = channel;
+          broadcastStatus();
+        }
+      });
+
+    return () => {
+      statusChannelRef.current = null;
+      supabase.removeChannel(channel);
+    };
+  }, [statusScopeId, broadcastStatus]);
+
+  // Announce changes (debounced so volume slider drags don't flood the channel)
+  useEffect(() => {
+    const timeout = setTimeout(broadcastStatus, 300);
+    return () => clearTimeout(timeout);
+  }, [currentTrack?.id, currentPlaylistId, isPlaying, volume, broadcastStatus]);
+
+  const onDeviceStatus = useCallback((listener: (status: DeviceStatus) => void) => {
+    const listeners = deviceStatusListenersRef.current;
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  }, []);
+
+  const requestDeviceStatuses = useCallback(() => {
+    void statusChannelRef.current?.send({ type: "broadcast", event: DEVICE_STATUS_REQUEST_EVENT, payload: {} });
+  }, []);
+
+  // Playback errors (failed loads, blocked autoplay) are reported with the session heartbeat
+  const reportPlaybackError = useCallback((message: string) => {
+    setLastError({ message, at: Date.now() });
+  }, []);
+
+  // Keep the session heartbeat up to date with what this device is playing
+  useEffect(() => {
+    reportPlayback({
+      trackId: currentTrack?.id ?? null,
+      playlistId: currentPlaylistId,
+      isPlaying,
+      volume,
+      lastError: lastError?.message ?? null,
+      lastErrorAt: lastError?.at ?? null,
+    });
+  }, [currentTrack?.id, currentPlaylistId, isPlaying, volume, lastError, reportPlayback]);
+
   return (
     <PlayerContext.Provider
       value={{
@@ -609,15 +1139,35 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
         shuffle,
         repeat,
         crossfade,
+        crossfadeSettings,
+        normalizeLoudness,
         isQuickMix,
+        volume,
+        setVolume,
+        volumeRampSeconds,
+        volumeSlot,
+        isVolumeOverridden,
+        applyScheduledVolume,
+        resetVolumeOverride,
         playlistTracksRef,
+        queue,
+        playNext,
+        addToQueue,
+        removeFromQueue,
+        moveInQueue,
+        clearQueue,
         handleTrackSelect,
         handlePlayPause,
+        pausePlayback,
+        fadeOutAndStop,
+        resumePlayback,
         handleNext,
         handlePrevious,
         handleShuffleToggle,
         handleRepeatToggle,
         handleCrossfadeToggle,
+        setCrossfadeSettings,
+        setNormalizeLoudness,
         clearQuickMix,
         updateAudioUrl,
         originalDbUrl,
@@ -627,8 +1177,16 @@ export const PlayerProvider = ({ children }: { children: ReactNode }) => {
         pendingScheduledTransition,
         triggerScheduledCrossfade,
         clearScheduledTransition,
+        setNextTrackPicker,
+        activeAnnouncement,
+        hasPendingAnnouncement,
+        playAnnouncement,
+        finishAnnouncement,
         setCurrentTrackDirect,
         removeCurrentTrackFromPlaylist,
+        onDeviceStatus,
+        requestDeviceStatuses,
+        reportPlaybackError,
       }}
     >
       {children}
@@ -0,0 +1,119 @@
+import { useEffect, useRef, useCallback } from "react";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePlayer } from "@/contexts/PlayerContext";
+import { getMomentInTimeZone } from "@/lib/scheduleResolver";
+import {
+  Announcement,
+  AnnouncementPlaybackMode,
+  AnnouncementRule,
+  fetchAnnouncementRules,
+  fetchAnnouncements,
+  isClockRuleDue,
+  isTrackRuleDue,
+} from "@/lib/announcements";
+
+// Often enough that no clock minute is missed
+const CLOCK_CHECK_INTERVAL = 20 * 1000;
+const CACHE_TTL = 5 * 60 * 1000;
+
+/**
+ * Plays announcements by their rules while music plays: clock rules at their times,
+ * every-N-tracks rules counted from track starts on this device.
+ */
+export const useAnnouncementScheduler = () => {
+  const { user, subscription } = useAuth();
+  const { currentTrack, isPlaying, playAnnouncement } = usePlayer();
+  const hasAccess = subscription.subscribed || subscription.isTrial;
+
+  const cacheRef = useRef<{
+    rules: AnnouncementRule[];
+    announcements: Map<string, Announcement>;
+    fetchedAt: number;
+  } | null>(null);
+  // Rule id -> "date time" it last fired at, so a clock rule fires once per minute it names
+  const firedAtRef = useRef(new Map<string, string>());
+  const trackCountRef = useRef(0);
+  const lastCountedTrackIdRef = useRef<string | null>(null);
+
+  const getRules = useCallback(async (forceRefresh = false) => {
+    if (!user) return null;
+    const cached = cacheRef.current;
+    if (cached && !forceRefresh && Date.now() - cached.fetchedAt < CACHE_TTL) return cached;
+
+    try {
+      const [rules, announcements] = await Promise.all([
+        fetchAnnouncementRules(user.id),
+        fetchAnnouncements(user.id),
+      ]);
+      cacheRef.current = {
+        rules: rules.filter(r => r.is_active),
+        announcements: new Map(announcements.map(a => [a.id, a])),
+        fetchedAt: Date.now(),
+      };
+    } catch (error) {
+      console.warn("[Announcements] Failed to load rules:", error);
+    }
+    return cacheRef.current;
+  }, [user]);
+
+  const play = useCallback((rule: AnnouncementRule, announcements: Map<string, Announcement>) => {
+    const announcement = announcements.get(rule.announcement_id);
+    if (!announcement) return;
+    console.log("[Announcements] Rule fired:", rule.id, announcement.name);
+    playAnnouncement(announcement, rule.playback_mode as AnnouncementPlaybackMode);
+  }, [playAnnouncement]);
+
+  const checkClockRules = useCallback(async () => {
+    const cached = await getRules();
+    if (!cached) return;
+
+    const now = new Date();
+    for (const rule of cached.rules) {
+      const moment = getMomentInTimeZone(now, rule.timezone);
+      const key = `${moment.date} ${moment.time}`;
+      if (!isClockRuleDue(rule, moment) || firedAtRef.current.get(rule.id) === key) continue;
+      firedAtRef.current.set(rule.id, key);
+      play(rule, cached.announcements);
+    }
+  }, [getRules, play]);
+
+  // Clock rules, only while music is playing
+  useEffect(() => {
+    if (!user || !hasAccess || !isPlaying) return;
+
+    checkClockRules();
+    const interval = setInterval(checkClockRules, CLOCK_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [user, hasAccess, isPlaying, checkClockRules]);
+
+  // Rules edited elsewhere show up when the app comes back to the foreground
+  useEffect(() => {
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === "visible") cacheRef.current = null;
+    };
+    document.addEventListener("visibilitychange", handleVisibilityChange);
+    return () => document.removeEventListener("visibilitychange", handleVisibilityChange);
+  }, []);
+
+  // Every-N-tracks rules count track starts
+  const currentTrackId = currentTrack?.id;
+  useEffect(() => {
+    if (!currentTrackId || !user || !hasAccess) return;
+    if (lastCountedTrackIdRef.current === currentTrackId) return;
+    lastCountedTrackIdRef.current = currentTrackId;
+    const trackCount = ++trackCountRef.current;
+
+    getRules().then(cached => {
+      cached?.rules
+        .filter(rule => isTrackRuleDue(rule, trackCount))
+        .forEach(rule => play(rule, cached.announcements));
+    });
+  }, [currentTrackId, user, hasAccess, getRules, play]);
+
+  // Drop cached rules so changes made in the announcements manager apply right away
+  const refreshRules = useCallback(() => {
+    cacheRef.current = null;
+  }, []);
+
+  return { refreshRules };
+};
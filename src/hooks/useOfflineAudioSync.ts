@@ -0,0 +1,127 @@
+import { useEffect, useState, useCallback, useRef } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { usePlayer } from "@/contexts/PlayerContext";
+import { filterByLocation, getUpcomingSources, toDateKey } from "@/lib/scheduleResolver";
+import { getBlendPlaylistIds } from "@/lib/blends";
+import {
+  OFFLINE_CACHE_CHANGED_EVENT,
+  OfflineTrack,
+  isOfflineModeEnabled,
+  syncOfflineTracks,
+} from "@/lib/offlineCache";
+
+const SYNC_INTERVAL_MS = 30 * 60 * 1000;
+// How far ahead scheduled playlists are downloaded
+const LOOKAHEAD_HOURS = 24;
+
+/**
+ * Keep offline copies of the current playlist and the playlists scheduled for the next day.
+ * Runs only while offline mode is enabled in Profile -> Settings.
+ */
+export const useOfflineAudioSync = () => {
+  const { user, accountUserId, subscription, getDeviceId } = useAuth();
+  const { currentPlaylistId } = usePlayer();
+  const [isEnabled, setIsEnabled] = useState(isOfflineModeEnabled);
+  const cancelledRef = useRef(false);
+  const currentPlaylistIdRef = useRef(currentPlaylistId);
+  currentPlaylistIdRef.current = currentPlaylistId;
+
+  const hasAccess = subscription.subscribed || subscription.isTrial;
+
+  useEffect(() => {
+    const handleChange = () => setIsEnabled(isOfflineModeEnabled());
+    window.addEventListener(OFFLINE_CACHE_CHANGED_EVENT, handleChange);
+    return () => window.removeEventListener(OFFLINE_CACHE_CHANGED_EVENT, handleChange);
+  }, []);
+
+  const getPlaylistIdsToCache = useCallback(async (): Promise<string[]> => {
+    if (!user || !accountUserId) return [];
+
+    const exceptionsFrom = new Date();
+    exceptionsFrom.setDate(exceptionsFrom.getDate() - 2);
+
+    const [schedulesResult, exceptionsResult, sessionResult] = await Promise.all([
+      supabase.from("playlist_schedules").select("*").eq("user_id", accountUserId).eq("is_active", true),
+      supabase.from("schedule_exceptions").select("*").eq("user_id", accountUserId).gte("exception_date", toDateKey(exceptionsFrom)),
+      supabase.from("active_sessions").select("location_id").eq("user_id", user.id).eq("session_id", getDeviceId()).maybeSingle(),
+    ]);
+
+    const locationId = sessionResult.data?.location_id ?? null;
+    const upcoming = getUpcomingSources(
+      filterByLocation(schedulesResult.data || [], locationId),
+      filterByLocation(exceptionsResult.data || [], locationId),
+      new Date(),
+      LOOKAHEAD_HOURS
+    );
+
+    // Scheduled blends need every playlist they draw from
+    const blendPlaylistIds = await getBlendPlaylistIds(upcoming.blendIds);
+
+    // What's playing now comes first, then the schedule in the order it will play
+    const current = currentPlaylistIdRef.current;
+    return [...new Set([...(current ? [current] : []), ...upcoming.playlistIds, ...blendPlaylistIds])];
+  }, [user, accountUserId, getDeviceId]);
+
+  const getPlaylistTracks = useCallback(async (playlistId: string): Promise<OfflineTrack[]> => {
+    if (!user) return [];
+
+    const { data, error } = playlistId === "liked-songs"
+      ? await supabase
+          .from("liked_songs")
+          .select("tracks(id, audio_url)")
+          .eq("user_id", user.id)
+          .order("created_at", { ascending: false })
+      : await supabase
+          .from("playlist_tracks")
+          .select("tracks(id, audio_url)")
+          .eq("playlist_id", playlistId)
+          .order("position");
+
+    if (error) {
+      console.log("[OfflineCache] Failed to load playlist tracks:", playlistId, error);
+      return [];
+    }
+
+    return (data || [])
+      .map(row => row.tracks)
+      .filter((t): t is { id: string; audio_url: string } => !!t?.audio_url)
+      .map(t => ({ id: t.id, audioUrl: t.audio_url }));
+  }, [user]);
+
+  const sync = useCallback(async () => {
+    if (!navigator.onLine) return;
+
+    const playlistIds = await getPlaylistIdsToCache();
+    console.log("[OfflineCache] Playlists to keep offline:", playlistIds);
+
+    const tracks: OfflineTrack[] = [];
+    for (const playlistId of playlistIds) {
+      tracks.push(...(await getPlaylistTracks(playlistId)));
+    }
+
+    await syncOfflineTracks(tracks, () => cancelledRef.current);
+  }, [getPlaylistIdsToCache, getPlaylistTracks]);
+
+  useEffect(() => {
+    if (!user || !hasAccess || !isEnabled) return;
+
+    cancelledRef.current = false;
+    sync();
+
+    const interval = setInterval(sync, SYNC_INTERVAL_MS);
+    window.addEventListener("online", sync);
+
+    return () => {
+      cancelledRef.current = true;
+      clearInterval(interval);
+      window.removeEventListener("online", sync);
+    };
+  }, [user, hasAccess, isEnabled, sync]);
+
+  // Download a newly started playlist right away instead of waiting for the next interval
+  useEffect(() => {
+    if (!user || !hasAccess || !isEnabled || !currentPlaylistId) return;
+    sync();
+  }, [currentPlaylistId, user, hasAccess, isEnabled, sync]);
+};
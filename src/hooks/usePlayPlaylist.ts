@@ -1,12 +1,13 @@
 import { useAuth } from "@/contexts/AuthContext";
 import { supabase } from "@/integrations/supabase/client";
 import { getSignedAudioUrl } from "@/lib/storage";
+import { loadBlendTracks } from "@/lib/blends";
 import type { Track } from "@/data/musicData";
 
 /**
- * Hook that provides a function to play a playlist by its ID.
- * Fetches the first track, loads all playlist tracks, records play history,
- * and calls the provided onTrackSelect callback.
+ * Hook that provides functions to play a playlist or a saved blend by its ID.
+ * Fetches the first track, loads all playlist tracks (or the blend's weighted order),
+ * records play history, and calls the provided onTrackSelect callback.
  */
 export function usePlayPlaylist(
   onTrackSelect: (track: Track, playlistTracks?: Track[]) => void
@@ -83,5 +84,24 @@ export function usePlayPlaylist(
     }
   };
 
-  return { playPlaylist };
+  const playBlend = async (blendId: string) => {
+    const blendTracks = await loadBlendTracks(blendId);
+    if (blendTracks.length === 0) return false;
+
+    const [firstTrack] = blendTracks;
+    const { data: trackData } = await supabase
+      .from("tracks")
+      .select("audio_url")
+      .eq("id", firstTrack.id)
+      .single();
+
+    const signedAudioUrl = trackData?.audio_url
+      ? await getSignedAudioUrl(trackData.audio_url)
+      : undefined;
+
+    onTrackSelect({ ...firstTrack, audioUrl: signedAudioUrl }, blendTracks);
+    return true;
+  };
+
+  return { playPlaylist, playBlend };
 }
@@ -4,18 +4,41 @@ import { useAuth } from "@/contexts/AuthContext";
 import { usePlayer } from "@/contexts/PlayerContext";
 import { Track } from "@/data/musicData";
 import { useToast } from "@/hooks/use-toast";
-
-const SCHEDULER_ENABLED_KEY = "ambian_scheduler_enabled";
-
-interface Schedule {
-  id: string;
-  playlist_id: string;
-  name: string | null;
-  days_of_week: number[];
-  start_time: string;
-  end_time: string;
-  is_active: boolean;
-  priority: number;
+import {
+  ScheduleEntry,
+  ScheduleException,
+  ResolvedSchedule,
+  filterByLocation,
+  getDeviceTimeZone,
+  getLocalMoment,
+  getMomentInTimeZone,
+  playsMusic,
+  resolveSchedule,
+  toDateKey,
+} from "@/lib/scheduleResolver";
+import { pickNextTrack } from "@/lib/shuffleEngine";
+import { loadBlendTracks } from "@/lib/blends";
+import {
+  EnergyCurvePoint,
+  fetchTrackEnergies,
+  getTargetEnergy,
+  parseEnergyCurve,
+  pickTrackForEnergy,
+} from "@/lib/energyCurve";
+import { VolumeSlot, resolveScheduledVolume } from "@/lib/volumeSchedule";
+import {
+  CLOSING_FADE_SECONDS,
+  OpeningHours,
+  OpeningState,
+  getOpeningState,
+  selectOpeningHours,
+} from "@/lib/openingHours";
+import { useWakeLock } from "@/hooks/useWakeLock";
+import { SCHEDULER_ENABLED_KEY, isSchedulerEnabledOnDevice } from "@/lib/deviceInfo";
+
+interface DynamicSchedule {
+  curve: EnergyCurvePoint[];
+  timezone: string | null;
 }
 
 interface PlaylistTrack {
@@ -30,8 +53,18 @@ interface PlaylistTrack {
 }
 
 export const usePlaylistScheduler = () => {
-  const { user, subscription } = useAuth();
-  const { triggerScheduledCrossfade, currentTrack, isPlaying } = usePlayer();
+  const { user, accountUserId, subscription, getDeviceId } = useAuth();
+  const {
+    triggerScheduledCrossfade,
+    pausePlayback,
+    fadeOutAndStop,
+    resumePlayback,
+    currentTrack,
+    isPlaying,
+    shuffle,
+    setNextTrackPicker,
+    applyScheduledVolume,
+  } = usePlayer();
   const { toast } = useToast();
   
   // Don't run scheduler if user doesn't have active access
@@ -39,13 +72,32 @@ export const usePlaylistScheduler = () => {
   const lastScheduleIdRef = useRef<string | null>(null);
   const lastPlaylistIdRef = useRef<string | null>(null);
   const checkIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const cachedSchedulesRef = useRef<{ schedules: Schedule[]; fetchedAt: number } | null>(null);
+  // Read playback state through a ref so checkSchedule doesn't re-run the mount effect on every play/pause
+  const isPlayingRef = useRef(isPlaying);
+  isPlayingRef.current = isPlaying;
+  const hasTrackRef = useRef(!!currentTrack);
+  hasTrackRef.current = !!currentTrack;
+  const cachedSchedulesRef = useRef<{
+    schedules: ScheduleEntry[];
+    exceptions: ScheduleException[];
+    // Energy curves of dynamic schedules, by schedule id
+    dynamicSchedules: Map<string, DynamicSchedule>;
+    // Volume levels set by schedules, by schedule id, and standalone volume slots
+    scheduleVolumes: Map<string, number>;
+    volumeSlots: VolumeSlot[];
+    // Opening hours for this device's zone (empty = no automatic start/stop)
+    openingHours: OpeningHours[];
+    fetchedAt: number;
+  } | null>(null);
   const CACHE_TTL = 5 * 60 * 1000; // 5 minutes cache
-  const [isEnabled, setIsEnabled] = useState(() => {
-    const saved = localStorage.getItem(SCHEDULER_ENABLED_KEY);
-    // Default to OFF - user must explicitly enable scheduler
-    return saved === "true";
-  });
+  // Default to OFF - user must explicitly enable scheduler
+  const [isEnabled, setIsEnabled] = useState(isSchedulerEnabledOnDevice);
+  const [openingState, setOpeningState] = useState<OpeningState | null>(null);
+  // Open/closed at the last check (null before the first), so only the change at opening/closing time acts
+  const wasOpenRef = useRef<boolean | null>(null);
+
+  // Keep the device awake overnight so the interval is still running at opening time
+  useWakeLock(isEnabled && openingState?.isOpen === false, "opening time");
 
   const toggleScheduler = useCallback((enabled: boolean) => {
     setIsEnabled(enabled);
@@ -54,72 +106,49 @@ export const usePlaylistScheduler = () => {
       lastScheduleIdRef.current = null;
       lastPlaylistIdRef.current = null;
       cachedSchedulesRef.current = null; // Clear cache when disabled
+      setNextTrackPicker(null);
+      applyScheduledVolume(null);
+      setOpeningState(null);
+      wasOpenRef.current = null;
     }
-  }, []);
+  }, [setNextTrackPicker, applyScheduledVolume]);
 
-  const getCurrentSchedule = useCallback((schedules: Schedule[]) => {
+  const getCurrentSchedule = useCallback((schedules: ScheduleEntry[], exceptions: ScheduleException[]) => {
     const now = new Date();
-    const currentDay = now.getDay();
-    const currentTime = now.toTimeString().slice(0, 5);
+    const deviceMoment = getLocalMoment(now);
 
-    console.log("[Scheduler] Checking schedules at", currentTime, "day", currentDay);
+    // Each schedule is evaluated in its own timezone; log device time for reference
+    console.log("[Scheduler] Checking schedules at", deviceMoment.time, "day", deviceMoment.day,
+      "date", deviceMoment.date, "device zone", getDeviceTimeZone());
 
-    // Find all matching schedules and pick highest priority
-    const matching = schedules.filter(s => {
-      if (!s.is_active) return false;
-      
-      const startTime = s.start_time.slice(0, 5);
-      const endTime = s.end_time.slice(0, 5);
-      
-      // Check if schedule spans midnight (e.g., 21:00 to 09:00)
-      const spansOvernight = startTime > endTime;
-      
-      if (spansOvernight) {
-        // For overnight schedules, check if current time is after start OR before end
-        // Need to check correct day for each case
-        const isAfterStart = currentTime >= startTime && s.days_of_week.includes(currentDay);
-        // If before end time, we started yesterday, so check yesterday's day
-        const yesterdayDay = (currentDay + 6) % 7;
-        const isBeforeEnd = currentTime < endTime && s.days_of_week.includes(yesterdayDay);
-        
-        console.log("[Scheduler]", s.name, "overnight check:", { 
-          startTime, endTime, currentTime, 
-          isAfterStart, isBeforeEnd, 
-          currentDay, yesterdayDay,
-          scheduleDays: s.days_of_week 
-        });
-        
-        return isAfterStart || isBeforeEnd;
-      } else {
-        // Normal same-day schedule
-        const matches = s.days_of_week.includes(currentDay) && 
-               currentTime >= startTime && 
-               currentTime < endTime;
-        console.log("[Scheduler]", s.name, "day check:", { startTime, endTime, currentTime, matches });
-        return matches;
-      }
-    });
+    const selected = resolveSchedule(schedules, exceptions, now);
 
-    if (matching.length === 0) {
+    if (!selected) {
       console.log("[Scheduler] No matching schedule found");
       return null;
     }
 
-    // Return highest priority
-    const selected = matching.reduce((prev, curr) =>
-      curr.priority > prev.priority ? curr : prev
-    );
-    console.log("[Scheduler] Selected schedule:", selected.name, "playlist:", selected.playlist_id);
+    console.log("[Scheduler] Selected", selected.source, "schedule:", selected.name,
+      "playlist:", selected.playlist_id, "blend:", selected.blend_id);
     return selected;
   }, []);
 
-  const loadAndPlayPlaylist = useCallback(async (schedule: Schedule) => {
-    console.log("[Scheduler] Loading playlist for schedule:", schedule.name, "playlist_id:", schedule.playlist_id);
+  const loadAndPlayPlaylist = useCallback(async (schedule: ResolvedSchedule, dynamic: DynamicSchedule | null) => {
+    console.log("[Scheduler] Loading playlist for schedule:", schedule.name, "playlist_id:", schedule.playlist_id,
+      "blend_id:", schedule.blend_id);
     
     let tracks: Track[] = [];
     
-    // Check if this is the special "liked-songs" virtual playlist
-    if (schedule.playlist_id === "liked-songs") {
+    if (schedule.blend_id) {
+      // Blends come with their own weighted order
+      tracks = await loadBlendTracks(schedule.blend_id);
+
+      if (tracks.length === 0) {
+        console.log("[Scheduler] No tracks found for scheduled blend");
+        return;
+      }
+    } else if (schedule.playlist_id === "liked-songs") {
+      // Special "liked-songs" virtual playlist
       const { data: likedTracks, error } = await supabase
         .from("liked_songs")
         .select("tracks(*)")
@@ -176,11 +205,29 @@ export const usePlaylistScheduler = () => {
       console.log("[Scheduler] Starting scheduled playlist with", tracks.length, "tracks, first track:", tracks[0].title);
       
       // Update last playlist ID BEFORE triggering to prevent race conditions
-      lastPlaylistIdRef.current = schedule.playlist_id;
+      lastPlaylistIdRef.current = schedule.blend_id ?? schedule.playlist_id;
       
+      // With shuffle on, the variety rules pick the first track too (a blend's order already follows them)
+      let firstTrack = shuffle && !schedule.blend_id ? pickNextTrack(tracks) ?? tracks[0] : tracks[0];
+
+      if (dynamic) {
+        // Dynamic schedule: every next track is the one that best matches the energy curve at that moment
+        const energies = await fetchTrackEnergies(tracks.map(t => t.id));
+        const scheduledIds = new Set(tracks.map(t => t.id));
+        const targetEnergy = () =>
+          getTargetEnergy(dynamic.curve, getMomentInTimeZone(new Date(), dynamic.timezone).time);
+
+        // Only steer while the scheduled music is playing, not after the user picked something else
+        setNextTrackPicker((playlist, currentTrackId) =>
+          scheduledIds.has(currentTrackId) ? pickTrackForEnergy(playlist, energies, targetEnergy(), currentTrackId) : null
+        );
+        firstTrack = pickTrackForEnergy(tracks, energies, targetEnergy()) ?? firstTrack;
+        console.log("[Scheduler] Dynamic schedule, target energy:", targetEnergy().toFixed(2));
+      }
+
       // Use crossfade transition for smooth playlist changes
       try {
-        await triggerScheduledCrossfade(tracks[0], tracks);
+        await triggerScheduledCrossfade(firstTrack, tracks);
         console.log("[Scheduler] triggerScheduledCrossfade completed successfully");
         
         toast({
@@ -191,43 +238,130 @@ export const usePlaylistScheduler = () => {
         console.error("[Scheduler] triggerScheduledCrossfade failed:", err);
       }
     }
-  }, [user, triggerScheduledCrossfade, toast]);
+  }, [user, triggerScheduledCrossfade, toast, shuffle, setNextTrackPicker]);
 
   const checkSchedule = useCallback(async (force = false) => {
-    if (!user || !isEnabled || !hasAccess) return;
+    if (!user || !accountUserId || !isEnabled || !hasAccess) return;
 
     console.log("[Scheduler] Checking schedule, force:", force);
 
     // Use cached schedules if still valid
     const now = Date.now();
-    let schedules: Schedule[] | null = null;
+    let schedules: ScheduleEntry[] = [];
+    let exceptions: ScheduleException[] = [];
+    let dynamicSchedules = new Map<string, DynamicSchedule>();
+    let scheduleVolumes = new Map<string, number>();
+    let volumeSlots: VolumeSlot[] = [];
+    let openingHours: OpeningHours[] = [];
     
     if (!force && cachedSchedulesRef.current && now - cachedSchedulesRef.current.fetchedAt < CACHE_TTL) {
       schedules = cachedSchedulesRef.current.schedules;
+      exceptions = cachedSchedulesRef.current.exceptions;
+      dynamicSchedules = cachedSchedulesRef.current.dynamicSchedules;
+      scheduleVolumes = cachedSchedulesRef.current.scheduleVolumes;
+      volumeSlots = cachedSchedulesRef.current.volumeSlots;
+      openingHours = cachedSchedulesRef.current.openingHours;
     } else {
-      // Fetch user's schedules from DB
-      const { data, error } = await supabase
-        .from("playlist_schedules")
-        .select("*")
-        .eq("user_id", user.id)
-        .eq("is_active", true);
-
-      if (error || !data) {
-        console.log("[Scheduler] Error fetching schedules:", error);
+      // Fetch the account's schedules and upcoming exceptions from DB (shared by the whole organization)
+      // (two days back so overnight exceptions still resolve after midnight, even in zones behind the device)
+      const exceptionsFrom = new Date();
+      exceptionsFrom.setDate(exceptionsFrom.getDate() - 2);
+
+      const [schedulesResult, exceptionsResult, sessionResult, volumeSlotsResult, openingHoursResult] = await Promise.all([
+        supabase
+          .from("playlist_schedules")
+          .select("*")
+          .eq("user_id", accountUserId)
+          .eq("is_active", true),
+        supabase
+          .from("schedule_exceptions")
+          .select("*")
+          .eq("user_id", accountUserId)
+          .gte("exception_date", toDateKey(exceptionsFrom)),
+        // Zone this device is assigned to (Profile -> Devices)
+        supabase
+          .from("active_sessions")
+          .select("location_id")
+          .eq("user_id", user.id)
+          .eq("session_id", getDeviceId())
+          .maybeSingle(),
+        supabase
+          .from("volume_slots")
+          .select("*")
+          .eq("user_id", accountUserId)
+          .eq("is_active", true),
+        supabase
+          .from("opening_hours")
+          .select("*")
+          .eq("user_id", accountUserId),
+      ]);
+
+      if (schedulesResult.error || !schedulesResult.data) {
+        console.log("[Scheduler] Error fetching schedules:", schedulesResult.error);
         return;
       }
-      
-      schedules = data;
-      cachedSchedulesRef.current = { schedules: data, fetchedAt: now };
-      console.log("[Scheduler] Fetched", data.length, "active schedules");
+
+      if (exceptionsResult.error) {
+        console.log("[Scheduler] Error fetching schedule exceptions:", exceptionsResult.error);
+      }
+
+      if (sessionResult.error) {
+        console.log("[Scheduler] Error fetching device zone:", sessionResult.error);
+      }
+
+      if (volumeSlotsResult.error) {
+        console.log("[Scheduler] Error fetching volume slots:", volumeSlotsResult.error);
+      }
+
+      if (openingHoursResult.error) {
+        console.log("[Scheduler] Error fetching opening hours:", openingHoursResult.error);
+      }
+
+      const locationId = sessionResult.data?.location_id ?? null;
+      schedules = filterByLocation(schedulesResult.data, locationId);
+      exceptions = filterByLocation(exceptionsResult.data || [], locationId);
+      volumeSlots = filterByLocation(volumeSlotsResult.data || [], locationId);
+      openingHours = selectOpeningHours(openingHoursResult.data || [], locationId);
+      for (const schedule of schedulesResult.data) {
+        const curve = schedule.schedule_type === "dynamic" ? parseEnergyCurve(schedule.energy_curve) : null;
+        if (curve) dynamicSchedules.set(schedule.id, { curve, timezone: schedule.timezone });
+        if (schedule.volume !== null) scheduleVolumes.set(schedule.id, schedule.volume);
+      }
+      cachedSchedulesRef.current = { schedules, exceptions, dynamicSchedules, scheduleVolumes, volumeSlots, openingHours, fetchedAt: now };
+      console.log("[Scheduler] Fetched", schedules.length, "active schedules and", exceptions.length,
+        "exceptions for zone", locationId ?? "(none)");
     }
 
-    const currentSchedule = getCurrentSchedule(schedules);
+    // Opening hours: fade out at closing time and start again at opening time
+    const opening = getOpeningState(openingHours);
+    setOpeningState(opening);
+    const wasOpen = wasOpenRef.current;
+    wasOpenRef.current = opening?.isOpen ?? null;
+    const justOpened = wasOpen === false && opening?.isOpen === true;
+
+    if (opening && !opening.isOpen) {
+      if (wasOpen === true && isPlayingRef.current) {
+        console.log("[Scheduler] Closing time, fading out");
+        fadeOutAndStop(CLOSING_FADE_SECONDS);
+      }
+      // Music staff start after closing is left alone; the schedule loads fresh at opening time
+      lastScheduleIdRef.current = null;
+      setNextTrackPicker(null);
+      return;
+    }
+
+    const currentSchedule = getCurrentSchedule(schedules, exceptions);
+
+    // Volume level for this moment (exceptions keep the volume of whatever slot applies)
+    applyScheduledVolume(resolveScheduledVolume(
+      volumeSlots,
+      currentSchedule ? { id: currentSchedule.id, volume: scheduleVolumes.get(currentSchedule.id) ?? null } : null
+    ));
 
     if (currentSchedule) {
       // Switch if schedule changed OR if playlist changed
       const scheduleChanged = lastScheduleIdRef.current !== currentSchedule.id;
-      const playlistChanged = lastPlaylistIdRef.current !== currentSchedule.playlist_id;
+      const playlistChanged = lastPlaylistIdRef.current !== (currentSchedule.blend_id ?? currentSchedule.playlist_id);
       
       console.log("[Scheduler] Current schedule:", currentSchedule.name, 
         "scheduleChanged:", scheduleChanged, 
@@ -238,16 +372,37 @@ export const usePlaylistScheduler = () => {
       
       if (scheduleChanged) {
         lastScheduleIdRef.current = currentSchedule.id;
-        await loadAndPlayPlaylist(currentSchedule);
+        setNextTrackPicker(null);
+
+        if (!playsMusic(currentSchedule)) {
+          // Closed exception (e.g. public holiday) - stop music instead of switching
+          console.log("[Scheduler] Closed exception active, pausing playback");
+          lastPlaylistIdRef.current = null;
+          if (isPlayingRef.current) {
+            pausePlayback();
+          }
+          return;
+        }
+
+        // Exceptions always play their playlist as is
+        const dynamic = currentSchedule.source === "exception" ? null : dynamicSchedules.get(currentSchedule.id) ?? null;
+        await loadAndPlayPlaylist(currentSchedule, dynamic);
       }
     } else {
+      if (justOpened && !isPlayingRef.current && hasTrackRef.current) {
+        // Opening time without a schedule: carry on with whatever played before closing
+        console.log("[Scheduler] Opening time, resuming playback");
+        resumePlayback();
+      }
+
       // No active schedule - reset tracking but don't stop music
       console.log("[Scheduler] No active schedule, clearing refs");
       lastScheduleIdRef.current = null;
+      setNextTrackPicker(null);
       // Don't clear lastPlaylistIdRef so if we come back to same schedule, 
       // we don't re-trigger unless the playlist actually changed
     }
-  }, [user, isEnabled, hasAccess, getCurrentSchedule, loadAndPlayPlaylist]);
+  }, [user, accountUserId, isEnabled, hasAccess, getDeviceId, getCurrentSchedule, loadAndPlayPlaylist, pausePlayback, fadeOutAndStop, resumePlayback, setNextTrackPicker, applyScheduledVolume]);
 
   // Check on mount and interval
   useEffect(() => {
@@ -309,5 +464,5 @@ export const usePlaylistScheduler = () => {
     return () => window.removeEventListener("online", handleOnline);
   }, [user, isEnabled, hasAccess, checkSchedule]);
 
-  return { checkSchedule, isEnabled, toggleScheduler };
+  return { checkSchedule, isEnabled, toggleScheduler, openingState };
 };
@@ -0,0 +1,53 @@
+import { useEffect, useRef } from "react";
+
+/**
+ * Keeps the screen (and with it timers and audio) awake while `active` is true.
+ * Browsers drop the lock when the page is hidden, so it is taken again when the page comes back.
+ */
+export const useWakeLock = (active: boolean, reason: string) => {
+  const wakeLockRef = useRef<WakeLockSentinel | null>(null);
+
+  useEffect(() => {
+    const requestWakeLock = async () => {
+      if ('wakeLock' in navigator && active) {
+        try {
+          wakeLockRef.current = await navigator.wakeLock.request('screen');
+          console.log(`Wake Lock acquired for ${reason}`);
+
+          wakeLockRef.current.addEventListener('release', () => {
+            console.log('Wake Lock released');
+          });
+        } catch (err) {
+          console.log('Wake Lock not available:', err);
+        }
+      }
+    };
+
+    const releaseWakeLock = () => {
+      if (wakeLockRef.current) {
+        wakeLockRef.current.release();
+        wakeLockRef.current = null;
+      }
+    };
+
+    if (active) {
+      requestWakeLock();
+    } else {
+      releaseWakeLock();
+    }
+
+    // Re-acquire wake lock when page becomes visible again
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible' && active) {
+        requestWakeLock();
+      }
+    };
+
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    return () => {
+      releaseWakeLock();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [active, reason]);
+};
@@ -17,29 +17,91 @@ export type Database = {
       active_sessions: {
         Row: {
           created_at: string
+          current_playlist_id: string | null
+          current_track_id: string | null
           device_info: string | null
           id: string
+          is_playing: boolean
+          last_error: string | null
+          last_error_at: string | null
+          last_playing_at: string | null
+          location_id: string | null
+          organization_id: string | null
           session_id: string
+          scheduler_enabled: boolean
+          silence_alerted_at: string | null
           updated_at: string
           user_id: string
+          volume: number | null
         }
         Insert: {
           created_at?: string
+          current_playlist_id?: string | null
+          current_track_id?: string | null
           device_info?: string | null
           id?: string
+          is_playing?: boolean
+          last_error?: string | null
+          last_error_at?: string | null
+          last_playing_at?: string | null
+          location_id?: string | null
+          organization_id?: string | null
           session_id: string
+          scheduler_enabled?: boolean
+          silence_alerted_at?: string | null
           updated_at?: string
           user_id: string
+          volume?: number | null
         }
         Update: {
           created_at?: string
+          current_playlist_id?: string | null
+          current_track_id?: string | null
           device_info?: string | null
           id?: string
+          is_playing?: boolean
+          last_error?: string | null
+          last_error_at?: string | null
+          last_playing_at?: string | null
+          location_id?: string | null
+          organization_id?: string | null
           session_id?: string
+          scheduler_enabled?: boolean
+          silence_alerted_at?: string | null
           updated_at?: string
           user_id?: string
+          volume?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "active_sessions_current_playlist_id_fkey"
+            columns: ["current_playlist_id"]
+            isOneToOne: false
+            referencedRelation: "playlists"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "active_sessions_current_track_id_fkey"
+            columns: ["current_track_id"]
+            isOneToOne: false
+            referencedRelation: "tracks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "active_sessions_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "active_sessions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       activity_logs: {
         Row: {
@@ -92,6 +154,143 @@ export type Database = {
         }
         Relationships: []
       }
+      announcement_rules: {
+        Row: {
+          announcement_id: string
+          clock_times: string[]
+          created_at: string
+          days_of_week: number[]
+          every_n_tracks: number | null
+          id: string
+          is_active: boolean
+          playback_mode: string
+          timezone: string | null
+          trigger_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          announcement_id: string
+          clock_times?: string[]
+          created_at?: string
+          days_of_week?: number[]
+          every_n_tracks?: number | null
+          id?: string
+          is_active?: boolean
+          playback_mode?: string
+          timezone?: string | null
+          trigger_type: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          announcement_id?: string
+          clock_times?: string[]
+          created_at?: string
+          days_of_week?: number[]
+          every_n_tracks?: number | null
+          id?: string
+          is_active?: boolean
+          playback_mode?: string
+          timezone?: string | null
+          trigger_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "announcement_rules_announcement_id_fkey"
+            columns: ["announcement_id"]
+            isOneToOne: false
+            referencedRelation: "announcements"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      announcements: {
+        Row: {
+          audio_path: string
+          created_at: string
+          duration_seconds: number | null
+          id: string
+          loudness_lufs: number | null
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          audio_path: string
+          created_at?: string
+          duration_seconds?: number | null
+          id?: string
+          loudness_lufs?: number | null
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          audio_path?: string
+          created_at?: string
+          duration_seconds?: number | null
+          id?: string
+          loudness_lufs?: number | null
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      billing_profiles: {
+        Row: {
+          address_line1: string | null
+          city: string | null
+          company_name: string | null
+          country: string | null
+          created_at: string
+          id: string
+          invoice_email: string | null
+          postal_code: string | null
+          tax_treatment: string
+          updated_at: string
+          user_id: string
+          vat_id: string | null
+          vat_id_checked_at: string | null
+          vat_id_status: string
+        }
+        Insert: {
+          address_line1?: string | null
+          city?: string | null
+          company_name?: string | null
+          country?: string | null
+          created_at?: string
+          id?: string
+          invoice_email?: string | null
+          postal_code?: string | null
+          tax_treatment?: string
+          updated_at?: string
+          user_id: string
+          vat_id?: string | null
+          vat_id_checked_at?: string | null
+          vat_id_status?: string
+        }
+        Update: {
+          address_line1?: string | null
+          city?: string | null
+          company_name?: string | null
+          country?: string | null
+          created_at?: string
+          id?: string
+          invoice_email?: string | null
+          postal_code?: string | null
+          tax_treatment?: string
+          updated_at?: string
+          user_id?: string
+          vat_id?: string | null
+          vat_id_checked_at?: string | null
+          vat_id_status?: string
+        }
+        Relationships: []
+      }
       deleted_playlist_tracks: {
         Row: {
           deleted_at: string
@@ -128,6 +327,50 @@ export type Database = {
         }
         Relationships: []
       }
+      device_commands: {
+        Row: {
+          command: string
+          created_at: string
+          id: string
+          organization_id: string | null
+          payload: Json | null
+          processed_at: string | null
+          sent_from: string | null
+          session_id: string
+          user_id: string
+        }
+        Insert: {
+          command: string
+          created_at?: string
+          id?: string
+          organization_id?: string | null
+          payload?: Json | null
+          processed_at?: string | null
+          sent_from?: string | null
+          session_id: string
+          user_id: string
+        }
+        Update: {
+          command?: string
+          created_at?: string
+          id?: string
+          organization_id?: string | null
+          payload?: Json | null
+          processed_at?: string | null
+          sent_from?: string | null
+          session_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "device_commands_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       industry_collection_playlists: {
         Row: {
           collection_id: string
@@ -180,51 +423,348 @@ export type Database = {
           updated_at: string
         }
         Insert: {
-          cover_url?: string | null
+          cover_url?: string | null
+          created_at?: string
+          description?: string | null
+          display_order?: number | null
+          icon?: string | null
+          id?: string
+          is_active?: boolean | null
+          name: string
+          updated_at?: string
+        }
+        Update: {
+          cover_url?: string | null
+          created_at?: string
+          description?: string | null
+          display_order?: number | null
+          icon?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      liked_playlists: {
+        Row: {
+          created_at: string
+          id: string
+          playlist_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          playlist_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          playlist_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "liked_playlists_playlist_id_fkey"
+            columns: ["playlist_id"]
+            isOneToOne: false
+            referencedRelation: "playlists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      liked_songs: {
+        Row: {
+          created_at: string
+          id: string
+          track_id: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          track_id: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          track_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "liked_songs_track_id_fkey"
+            columns: ["track_id"]
+            isOneToOne: false
+            referencedRelation: "tracks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      locations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          timezone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          timezone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          timezone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      opening_hours: {
+        Row: {
+          close_time: string
+          created_at: string
+          days_of_week: number[]
+          id: string
+          location_id: string | null
+          open_time: string
+          timezone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          close_time: string
+          created_at?: string
+          days_of_week?: number[]
+          id?: string
+          location_id?: string | null
+          open_time: string
+          timezone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          close_time?: string
+          created_at?: string
+          days_of_week?: number[]
+          id?: string
+          location_id?: string | null
+          open_time?: string
+          timezone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "opening_hours_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invitations: {
+        Row: {
+          accepted_at: string | null
+          created_at: string
+          email: string
+          expires_at: string
+          id: string
+          invited_by: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+        }
+        Insert: {
+          accepted_at?: string | null
+          created_at?: string
+          email: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+        }
+        Update: {
+          accepted_at?: string | null
+          created_at?: string
+          email?: string
+          expires_at?: string
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          id: string
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          organization_id: string
+          role: Database["public"]["Enums"]["org_role"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          organization_id?: string
+          role?: Database["public"]["Enums"]["org_role"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_user_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_user_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_user_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      paired_devices: {
+        Row: {
+          code_expires_at: string | null
+          created_at: string
+          created_by: string | null
+          id: string
+          name: string
+          organization_id: string
+          paired_at: string | null
+          pairing_code: string | null
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          code_expires_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name: string
+          organization_id: string
+          paired_at?: string | null
+          pairing_code?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          code_expires_at?: string | null
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          name?: string
+          organization_id?: string
+          paired_at?: string | null
+          pairing_code?: string | null
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "paired_devices_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      pairing_attempts: {
+        Row: {
+          created_at: string
+          id: string
+          ip_address: string
+        }
+        Insert: {
           created_at?: string
-          description?: string | null
-          display_order?: number | null
-          icon?: string | null
           id?: string
-          is_active?: boolean | null
-          name: string
-          updated_at?: string
+          ip_address: string
         }
         Update: {
-          cover_url?: string | null
           created_at?: string
-          description?: string | null
-          display_order?: number | null
-          icon?: string | null
           id?: string
-          is_active?: boolean | null
-          name?: string
-          updated_at?: string
+          ip_address?: string
         }
         Relationships: []
       }
-      liked_playlists: {
+      play_history: {
         Row: {
-          created_at: string
           id: string
+          played_at: string
           playlist_id: string
           user_id: string
         }
         Insert: {
-          created_at?: string
           id?: string
+          played_at?: string
           playlist_id: string
           user_id: string
         }
         Update: {
-          created_at?: string
           id?: string
+          played_at?: string
           playlist_id?: string
           user_id?: string
         }
         Relationships: [
           {
-            foreignKeyName: "liked_playlists_playlist_id_fkey"
+            foreignKeyName: "play_history_playlist_id_fkey"
             columns: ["playlist_id"]
             isOneToOne: false
             referencedRelation: "playlists"
@@ -232,105 +772,161 @@ export type Database = {
           },
         ]
       }
-      liked_songs: {
+      playlist_blend_playlists: {
         Row: {
+          blend_id: string
           created_at: string
           id: string
-          track_id: string
-          user_id: string
+          playlist_id: string
+          weight: number
         }
         Insert: {
+          blend_id: string
           created_at?: string
           id?: string
-          track_id: string
-          user_id: string
+          playlist_id: string
+          weight?: number
         }
         Update: {
+          blend_id?: string
           created_at?: string
           id?: string
-          track_id?: string
-          user_id?: string
+          playlist_id?: string
+          weight?: number
         }
         Relationships: [
           {
-            foreignKeyName: "liked_songs_track_id_fkey"
-            columns: ["track_id"]
+            foreignKeyName: "playlist_blend_playlists_blend_id_fkey"
+            columns: ["blend_id"]
             isOneToOne: false
-            referencedRelation: "tracks"
+            referencedRelation: "playlist_blends"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "playlist_blend_playlists_playlist_id_fkey"
+            columns: ["playlist_id"]
+            isOneToOne: false
+            referencedRelation: "playlists"
             referencedColumns: ["id"]
           },
         ]
       }
-      play_history: {
+      playlist_blends: {
         Row: {
+          created_at: string
           id: string
-          played_at: string
-          playlist_id: string
+          name: string
+          updated_at: string
           user_id: string
         }
         Insert: {
+          created_at?: string
           id?: string
-          played_at?: string
-          playlist_id: string
+          name: string
+          updated_at?: string
           user_id: string
         }
         Update: {
+          created_at?: string
           id?: string
-          played_at?: string
-          playlist_id?: string
+          name?: string
+          updated_at?: string
           user_id?: string
         }
-        Relationships: [
-          {
-            foreignKeyName: "play_history_playlist_id_fkey"
-            columns: ["playlist_id"]
-            isOneToOne: false
-            referencedRelation: "playlists"
-            referencedColumns: ["id"]
-          },
-        ]
+        Relationships: []
       }
       playlist_schedules: {
         Row: {
+          blend_id: string | null
           created_at: string
           days_of_week: number[]
           end_time: string
+          energy_curve: Json | null
           id: string
           is_active: boolean
+          location_id: string | null
           name: string | null
-          playlist_id: string
+          organization_id: string | null
+          playlist_id: string | null
           priority: number
+          schedule_type: string
+          skip_dates: string[]
           start_time: string
+          timezone: string | null
           updated_at: string
           user_id: string
+          valid_from: string | null
+          valid_until: string | null
+          volume: number | null
         }
         Insert: {
+          blend_id?: string | null
           created_at?: string
           days_of_week?: number[]
           end_time: string
+          energy_curve?: Json | null
           id?: string
           is_active?: boolean
+          location_id?: string | null
           name?: string | null
-          playlist_id: string
+          organization_id?: string | null
+          playlist_id?: string | null
           priority?: number
+          schedule_type?: string
+          skip_dates?: string[]
           start_time: string
+          timezone?: string | null
           updated_at?: string
           user_id: string
+          valid_from?: string | null
+          valid_until?: string | null
+          volume?: number | null
         }
         Update: {
+          blend_id?: string | null
           created_at?: string
           days_of_week?: number[]
           end_time?: string
+          energy_curve?: Json | null
           id?: string
           is_active?: boolean
+          location_id?: string | null
           name?: string | null
-          playlist_id?: string
+          organization_id?: string | null
+          playlist_id?: string | null
           priority?: number
+          schedule_type?: string
+          skip_dates?: string[]
           start_time?: string
+          timezone?: string | null
           updated_at?: string
           user_id?: string
+          valid_from?: string | null
+          valid_until?: string | null
+          volume?: number | null
         }
         Relationships: [
+          {
+            foreignKeyName: "playlist_schedules_blend_id_fkey"
+            columns: ["blend_id"]
+            isOneToOne: false
+            referencedRelation: "playlist_blends"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "playlist_schedules_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "playlist_schedules_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "playlist_schedules_playlist_id_fkey"
             columns: ["playlist_id"]
@@ -428,33 +1024,51 @@ export type Database = {
         Row: {
           avatar_url: string | null
           created_at: string
+          crossfade_curve: string
+          crossfade_duration_seconds: number
           email: string | null
           full_name: string | null
           id: string
           language: string | null
           scheduling_enabled: boolean
+          silence_alert_quiet_end: string | null
+          silence_alert_quiet_start: string | null
+          silence_alert_timezone: string | null
+          silence_alerts_enabled: boolean
           updated_at: string
           user_id: string
         }
         Insert: {
           avatar_url?: string | null
           created_at?: string
+          crossfade_curve?: string
+          crossfade_duration_seconds?: number
           email?: string | null
           full_name?: string | null
           id?: string
           language?: string | null
           scheduling_enabled?: boolean
+          silence_alert_quiet_end?: string | null
+          silence_alert_quiet_start?: string | null
+          silence_alert_timezone?: string | null
+          silence_alerts_enabled?: boolean
           updated_at?: string
           user_id: string
         }
         Update: {
           avatar_url?: string | null
           created_at?: string
+          crossfade_curve?: string
+          crossfade_duration_seconds?: number
           email?: string | null
           full_name?: string | null
           id?: string
           language?: string | null
           scheduling_enabled?: boolean
+          silence_alert_quiet_end?: string | null
+          silence_alert_quiet_start?: string | null
+          silence_alert_timezone?: string | null
+          silence_alerts_enabled?: boolean
           updated_at?: string
           user_id?: string
         }
@@ -630,6 +1244,187 @@ export type Database = {
           },
         ]
       }
+      schedule_exceptions: {
+        Row: {
+          blend_id: string | null
+          created_at: string
+          end_time: string | null
+          exception_date: string
+          id: string
+          location_id: string | null
+          name: string | null
+          organization_id: string | null
+          playlist_id: string | null
+          start_time: string | null
+          timezone: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          blend_id?: string | null
+          created_at?: string
+          end_time?: string | null
+          exception_date: string
+          id?: string
+          location_id?: string | null
+          name?: string | null
+          organization_id?: string | null
+          playlist_id?: string | null
+          start_time?: string | null
+          timezone?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          blend_id?: string | null
+          created_at?: string
+          end_time?: string | null
+          exception_date?: string
+          id?: string
+          location_id?: string | null
+          name?: string | null
+          organization_id?: string | null
+          playlist_id?: string | null
+          start_time?: string | null
+          timezone?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_exceptions_blend_id_fkey"
+            columns: ["blend_id"]
+            isOneToOne: false
+            referencedRelation: "playlist_blends"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_exceptions_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_exceptions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "schedule_exceptions_playlist_id_fkey"
+            columns: ["playlist_id"]
+            isOneToOne: false
+            referencedRelation: "playlists"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_template_assignments: {
+        Row: {
+          assigned_by: string
+          created_at: string
+          id: string
+          status: string
+          template_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assigned_by: string
+          created_at?: string
+          id?: string
+          status?: string
+          template_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          assigned_by?: string
+          created_at?: string
+          id?: string
+          status?: string
+          template_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "schedule_template_assignments_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "schedule_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      schedule_templates: {
+        Row: {
+          created_at: string
+          entries: Json
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          entries?: Json
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          entries?: Json
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      stripe_events: {
+        Row: {
+          attempts: number
+          created_at: string
+          effects: string[]
+          error: string | null
+          id: string
+          payload: Json
+          processed_at: string | null
+          status: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          effects?: string[]
+          error?: string | null
+          id: string
+          payload: Json
+          processed_at?: string | null
+          status?: string
+          type: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          effects?: string[]
+          error?: string | null
+          id?: string
+          payload?: Json
+          processed_at?: string | null
+          status?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       subscriptions: {
         Row: {
           created_at: string
@@ -637,6 +1432,7 @@ export type Database = {
           current_period_start: string | null
           device_slots: number
           id: string
+          organization_id: string | null
           plan_type: string | null
           status: string
           stripe_customer_id: string | null
@@ -650,6 +1446,7 @@ export type Database = {
           current_period_start?: string | null
           device_slots?: number
           id?: string
+          organization_id?: string | null
           plan_type?: string | null
           status?: string
           stripe_customer_id?: string | null
@@ -663,6 +1460,7 @@ export type Database = {
           current_period_start?: string | null
           device_slots?: number
           id?: string
+          organization_id?: string | null
           plan_type?: string | null
           status?: string
           stripe_customer_id?: string | null
@@ -670,41 +1468,67 @@ export type Database = {
           updated_at?: string
           user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "subscriptions_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       tracks: {
         Row: {
           album: string | null
           artist: string
           audio_url: string | null
+          bpm: number | null
           cover_url: string | null
           created_at: string
+          cue_in_seconds: number | null
+          cue_out_seconds: number | null
           duration: string | null
+          energy: number | null
           genre: string | null
           id: string
+          loudness_lufs: number | null
           title: string
+          valence: number | null
         }
         Insert: {
           album?: string | null
           artist: string
           audio_url?: string | null
+          bpm?: number | null
           cover_url?: string | null
           created_at?: string
+          cue_in_seconds?: number | null
+          cue_out_seconds?: number | null
           duration?: string | null
+          energy?: number | null
           genre?: string | null
           id?: string
+          loudness_lufs?: number | null
           title: string
+          valence?: number | null
         }
         Update: {
           album?: string | null
           artist?: string
           audio_url?: string | null
+          bpm?: number | null
           cover_url?: string | null
           created_at?: string
+          cue_in_seconds?: number | null
+          cue_out_seconds?: number | null
           duration?: string | null
+          energy?: number | null
           genre?: string | null
           id?: string
+          loudness_lufs?: number | null
           title?: string
+          valence?: number | null
         }
         Relationships: []
       }
@@ -726,12 +1550,73 @@ export type Database = {
         }
         Relationships: []
       }
+      volume_slots: {
+        Row: {
+          created_at: string
+          days_of_week: number[]
+          end_time: string
+          id: string
+          is_active: boolean
+          location_id: string | null
+          name: string | null
+          start_time: string
+          timezone: string | null
+          updated_at: string
+          user_id: string
+          volume: number
+        }
+        Insert: {
+          created_at?: string
+          days_of_week?: number[]
+          end_time: string
+          id?: string
+          is_active?: boolean
+          location_id?: string | null
+          name?: string | null
+          start_time: string
+          timezone?: string | null
+          updated_at?: string
+          user_id: string
+          volume: number
+        }
+        Update: {
+          created_at?: string
+          days_of_week?: number[]
+          end_time?: string
+          id?: string
+          is_active?: boolean
+          location_id?: string | null
+          name?: string | null
+          start_time?: string
+          timezone?: string | null
+          updated_at?: string
+          user_id?: string
+          volume?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "volume_slots_location_id_fkey"
+            columns: ["location_id"]
+            isOneToOne: false
+            referencedRelation: "locations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
       has_active_subscription: { Args: { _user_id: string }; Returns: boolean }
+      has_org_role: {
+        Args: {
+          _org_id: string
+          _roles: Database["public"]["Enums"]["org_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
       has_role: {
         Args: {
           _role: Database["public"]["Enums"]["app_role"]
@@ -739,9 +1624,19 @@ export type Database = {
         }
         Returns: boolean
       }
+      is_account_member: {
+        Args: {
+          _account_user_id: string
+          _roles: Database["public"]["Enums"]["org_role"][]
+          _user_id: string
+        }
+        Returns: boolean
+      }
+      organization_owner: { Args: { _org_id: string }; Returns: string }
     }
     Enums: {
       app_role: "admin" | "user"
+      org_role: "owner" | "billing" | "manager" | "player"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -870,6 +1765,7 @@ export const Constants = {
   public: {
     Enums: {
       app_role: ["admin", "user"],
+      org_role: ["owner", "billing", "manager", "player"],
     },
   },
 } as const
@@ -0,0 +1,158 @@
+import * as musicMetadata from "music-metadata-browser";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { analyzeTrackAudio } from "@/lib/trackAnalysis";
+import { getStorageFileName } from "@/lib/audioUpload";
+import { ScheduleMoment } from "@/lib/scheduleResolver";
+
+// Announcements: short clips ("Store closes in 15 minutes", promotions) that rules splice into playback,
+// either inserted between two tracks or played over the music while it is ducked.
+
+export type Announcement = Tables<"announcements">;
+export type AnnouncementRule = Tables<"announcement_rules">;
+export type AnnouncementTrigger = "clock" | "every_n_tracks";
+export type AnnouncementPlaybackMode = "insert" | "duck";
+
+// The clip the player is playing right now
+export interface ActiveAnnouncement {
+  id: string;
+  url: string;
+  mode: AnnouncementPlaybackMode;
+  loudnessLufs: number | null;
+}
+
+const ANNOUNCEMENTS_BUCKET = "announcements";
+// Clips play from a fresh URL each time, so it only has to outlive one clip
+const CLIP_URL_EXPIRY = 15 * 60;
+
+// Announcements are messages, not tracks
+export const MAX_ANNOUNCEMENT_SECONDS = 120;
+// Music level (of the user's volume) under a ducked announcement
+export const DUCK_LEVEL = 0.2;
+
+/**
+ * Duration of an audio file in seconds (null if the file doesn't say)
+ */
+export const getAudioDurationSeconds = async (file: File): Promise<number | null> => {
+  try {
+    const metadata = await musicMetadata.parseBlob(file);
+    return metadata.format.duration ?? null;
+  } catch (error) {
+    console.warn("[Announcements] Failed to read clip metadata:", error);
+    return null;
+  }
+};
+
+/**
+ * Upload a clip into the user's folder and create its announcement
+ */
+export const uploadAnnouncement = async (
+  userId: string,
+  file: File,
+  name: string,
+  durationSeconds: number | null
+): Promise<Announcement> => {
+  // Measured like tracks, so normalization plays clips at the same level as the music
+  const { loudnessLufs } = await analyzeTrackAudio(file);
+
+  const path = `${userId}/${getStorageFileName(file)}`;
+  const { error: uploadError } = await supabase.storage.from(ANNOUNCEMENTS_BUCKET).upload(path, file);
+  if (uploadError) throw uploadError;
+
+  const { data, error } = await supabase
+    .from("announcements")
+    .insert({
+      user_id: userId,
+      name,
+      audio_path: path,
+      duration_seconds: durationSeconds,
+      loudness_lufs: loudnessLufs,
+    })
+    .select()
+    .single();
+
+  if (error) {
+    await supabase.storage.from(ANNOUNCEMENTS_BUCKET).remove([path]);
+    throw error;
+  }
+  return data;
+};
+
+/**
+ * Delete an announcement, its rules (cascade) and its clip
+ */
+export const deleteAnnouncement = async (announcement: Announcement) => {
+  const { error } = await supabase.from("announcements").delete().eq("id", announcement.id);
+  if (error) throw error;
+
+  const { error: storageError } = await supabase.storage
+    .from(ANNOUNCEMENTS_BUCKET)
+    .remove([announcement.audio_path]);
+  if (storageError) console.warn("[Announcements] Failed to delete clip:", storageError);
+};
+
+export const fetchAnnouncements = async (userId: string): Promise<Announcement[]> => {
+  const { data, error } = await supabase
+    .from("announcements")
+    .select("*")
+    .eq("user_id", userId)
+    .order("name");
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchAnnouncementRules = async (userId: string): Promise<AnnouncementRule[]> => {
+  const { data, error } = await supabase
+    .from("announcement_rules")
+    .select("*")
+    .eq("user_id", userId)
+    .order("created_at");
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Create a rule, or update it when `rule.id` is set
+ */
+export const saveAnnouncementRule = async (rule: TablesInsert<"announcement_rules">) => {
+  const { error } = rule.id
+    ? await supabase.from("announcement_rules").update(rule).eq("id", rule.id)
+    : await supabase.from("announcement_rules").insert(rule);
+  if (error) throw error;
+};
+
+export const deleteAnnouncementRule = async (ruleId: string) => {
+  const { error } = await supabase.from("announcement_rules").delete().eq("id", ruleId);
+  if (error) throw error;
+};
+
+/**
+ * Short-lived URL for playing a clip (undefined when it can't be signed, e.g. offline)
+ */
+export const getAnnouncementUrl = async (path: string): Promise<string | undefined> => {
+  const { data, error } = await supabase.storage.from(ANNOUNCEMENTS_BUCKET).createSignedUrl(path, CLIP_URL_EXPIRY);
+  if (error) {
+    console.warn("[Announcements] Failed to sign clip URL:", error);
+    return undefined;
+  }
+  return data.signedUrl;
+};
+
+/**
+ * Whether a clock rule fires at this moment (evaluated in the rule's timezone)
+ */
+export const isClockRuleDue = (rule: AnnouncementRule, moment: ScheduleMoment): boolean =>
+  rule.trigger_type === "clock" &&
+  rule.days_of_week.includes(moment.day) &&
+  rule.clock_times.some(time => time.slice(0, 5) === moment.time);
+
+/**
+ * Whether an every-N-tracks rule fires on the given track start (counted from 1 since playback began)
+ */
+export const isTrackRuleDue = (rule: AnnouncementRule, trackCount: number): boolean =>
+  rule.trigger_type === "every_n_tracks" &&
+  !!rule.every_n_tracks &&
+  trackCount > 0 &&
+  trackCount % rule.every_n_tracks === 0;
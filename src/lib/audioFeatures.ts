@@ -0,0 +1,130 @@
+// Tempo, energy and valence estimated from decoded audio, stored on tracks for energy-based day-parting.
+// These are signal-level heuristics, not a trained model: good enough to tell a calm track from an upbeat one.
+
+export interface AudioFeatures {
+  bpm: number | null;
+  energy: number; // 0 (calm) - 1 (intense)
+  valence: number; // 0 (dark) - 1 (bright)
+}
+
+// ~10 ms analysis hops at 48 kHz
+const HOP_SIZE = 512;
+const MIN_BPM = 60;
+const MAX_BPM = 180;
+// Tempo guesses are biased towards this, which resolves half/double-time ambiguity the usual way
+const PREFERRED_BPM = 120;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+// Map a value from [low, high] onto 0-1
+const scale = (value: number, low: number, high: number) => clamp01((value - low) / (high - low));
+
+const mixToMono = (buffer: AudioBuffer): Float32Array => {
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let i = 0; i < data.length; i++) {
+      mono[i] += data[i] / buffer.numberOfChannels;
+    }
+  }
+  return mono;
+};
+
+/**
+ * Onset strength per hop: rises in log energy, which is where beats and note attacks are
+ */
+const getOnsetEnvelope = (samples: Float32Array): Float32Array => {
+  const hops = Math.floor(samples.length / HOP_SIZE);
+  const envelope = new Float32Array(hops);
+  let previous = 0;
+
+  for (let h = 0; h < hops; h++) {
+    let sum = 0;
+    for (let i = h * HOP_SIZE; i < (h + 1) * HOP_SIZE; i++) {
+      sum += samples[i] * samples[i];
+    }
+    const logEnergy = Math.log10(sum / HOP_SIZE + 1e-10);
+    envelope[h] = h > 0 ? Math.max(0, logEnergy - previous) : 0;
+    previous = logEnergy;
+  }
+
+  return envelope;
+};
+
+/**
+ * Tempo from the autocorrelation of the onset envelope, or null when there's no clear pulse
+ */
+const estimateBpm = (envelope: Float32Array, sampleRate: number): number | null => {
+  const hopsPerSecond = sampleRate / HOP_SIZE;
+  const minLag = Math.floor((60 / MAX_BPM) * hopsPerSecond);
+  const maxLag = Math.ceil((60 / MIN_BPM) * hopsPerSecond);
+  if (envelope.length < maxLag * 4) return null;
+
+  let mean = 0;
+  for (const value of envelope) mean += value;
+  mean /= envelope.length;
+
+  let zeroLag = 0;
+  for (const value of envelope) zeroLag += (value - mean) * (value - mean);
+  if (zeroLag === 0) return null;
+
+  let bestLag = 0;
+  let bestScore = 0;
+  for (let lag = minLag; lag <= maxLag; lag++) {
+    let sum = 0;
+    for (let i = lag; i < envelope.length; i++) {
+      sum += (envelope[i] - mean) * (envelope[i - lag] - mean);
+    }
+    const bpm = (60 * hopsPerSecond) / lag;
+    // Log-scale Gaussian preference around PREFERRED_BPM
+    const prior = Math.exp(-0.5 * Math.pow(Math.log2(bpm / PREFERRED_BPM) / 0.9, 2));
+    const score = (sum / zeroLag) * prior;
+    if (score > bestScore) {
+      bestScore = score;
+      bestLag = lag;
+    }
+  }
+
+  // Too weak a periodicity to call it a tempo (ambient, speech, rubato)
+  if (bestLag === 0 || bestScore < 0.05) return null;
+  return Math.round(((60 * hopsPerSecond) / bestLag) * 10) / 10;
+};
+
+/**
+ * Zero-crossing rate (crossings per sample): a cheap stand-in for how bright the sound is
+ */
+const getZeroCrossingRate = (samples: Float32Array): number => {
+  let crossings = 0;
+  for (let i = 1; i < samples.length; i++) {
+    if ((samples[i] >= 0) !== (samples[i - 1] >= 0)) crossings++;
+  }
+  return crossings / Math.max(1, samples.length - 1);
+};
+
+/**
+ * Estimate tempo, energy and valence. `loudnessLufs` (already measured for normalization) feeds energy.
+ */
+export const estimateAudioFeatures = (buffer: AudioBuffer, loudnessLufs: number | null): AudioFeatures => {
+  const samples = mixToMono(buffer);
+  const envelope = getOnsetEnvelope(samples);
+  const bpm = estimateBpm(envelope, buffer.sampleRate);
+
+  let onsetMean = 0;
+  for (const value of envelope) onsetMean += value;
+  onsetMean /= Math.max(1, envelope.length);
+
+  const loudness = loudnessLufs === null ? 0.5 : scale(loudnessLufs, -30, -8);
+  const attack = scale(onsetMean, 0.01, 0.08);
+  const tempo = bpm === null ? 0.3 : scale(bpm, 70, 150);
+  const brightness = scale(getZeroCrossingRate(samples), 0.02, 0.12);
+
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    bpm,
+    // Loud, busy and fast reads as energetic
+    energy: round(clamp01(0.45 * loudness + 0.35 * attack + 0.2 * tempo)),
+    // Bright and quick reads as happy; dark and slow as melancholic
+    valence: round(clamp01(0.6 * brightness + 0.4 * tempo)),
+  };
+};
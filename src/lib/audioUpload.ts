@@ -0,0 +1,11 @@
+// Shared steps for uploading audio files to storage (admin track import, announcement clips)
+
+export const MAX_AUDIO_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+export const isMp3File = (file: File) =>
+  file.type === "audio/mpeg" || file.name.toLowerCase().endsWith(".mp3");
+
+/**
+ * Unique, URL-safe object name for an uploaded file
+ */
+export const getStorageFileName = (file: File) => `${Date.now()}-${file.name.replace(/[^a-zA-Z0-9.-]/g, "_")}`;
@@ -0,0 +1,72 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Company billing details used on checkouts and invoices. Saved through the update-billing-profile
+// function, which validates the VAT ID with VIES, decides on reverse charge and updates the Stripe customer.
+
+export type BillingProfile = Tables<"billing_profiles">;
+
+export interface BillingProfileInput {
+  companyName: string;
+  addressLine1: string;
+  postalCode: string;
+  city: string;
+  country: string;
+  vatId: string;
+  invoiceEmail: string;
+}
+
+// Countries offered for billing addresses, with their translation keys
+export const BILLING_COUNTRIES: { code: string; labelKey: string }[] = [
+  { code: "FI", labelKey: "countries.finland" },
+  { code: "SE", labelKey: "countries.sweden" },
+  { code: "DE", labelKey: "countries.germany" },
+  { code: "FR", labelKey: "countries.france" },
+  { code: "NL", labelKey: "countries.netherlands" },
+  { code: "BE", labelKey: "countries.belgium" },
+  { code: "AT", labelKey: "countries.austria" },
+  { code: "ES", labelKey: "countries.spain" },
+  { code: "IT", labelKey: "countries.italy" },
+  { code: "PT", labelKey: "countries.portugal" },
+  { code: "NO", labelKey: "countries.norway" },
+  { code: "DK", labelKey: "countries.denmark" },
+  { code: "PL", labelKey: "countries.poland" },
+  { code: "IE", labelKey: "countries.ireland" },
+  { code: "GB", labelKey: "countries.uk" },
+  { code: "US", labelKey: "countries.usa" },
+];
+
+export const fetchBillingProfile = async (userId: string): Promise<BillingProfile | null> => {
+  const { data, error } = await supabase
+    .from("billing_profiles")
+    .select("*")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// Billing members of an organization save the owner's billing details
+export const saveBillingProfile = async (input: BillingProfileInput, organizationId?: string | null): Promise<BillingProfile> => {
+  const { data, error } = await supabase.functions.invoke("update-billing-profile", {
+    body: {
+      companyName: input.companyName.trim() || null,
+      addressLine1: input.addressLine1.trim() || null,
+      postalCode: input.postalCode.trim() || null,
+      city: input.city.trim() || null,
+      country: input.country || null,
+      vatId: input.vatId.trim() || null,
+      invoiceEmail: input.invoiceEmail.trim() || null,
+      organizationId,
+    },
+  });
+
+  if (error) {
+    // Validation errors (e.g. a VAT ID VIES rejects) come back as a 400 with a message
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  if (data?.error) throw new Error(data.error);
+  return data.profile;
+};
@@ -0,0 +1,216 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Track } from "@/data/musicData";
+import { shuffleTracks } from "@/lib/shuffleEngine";
+
+// Saved weighted blends ("60% Lounge, 30% Jazz, 10% Bossa"). Quick Mix edits them, schedules can play them,
+// and every player of a blend gets one interleaved track order from generateBlendOrder.
+
+export interface BlendPlaylist {
+  playlistId: string;
+  weight: number;
+}
+
+export interface PlaylistBlend {
+  id: string;
+  name: string;
+  playlists: BlendPlaylist[];
+}
+
+export const DEFAULT_BLEND_WEIGHT = 50;
+export const MIN_BLEND_WEIGHT = 5;
+export const MAX_BLEND_WEIGHT = 100;
+
+// Below this length small playlists are allowed to fall short of their share rather than shrink the whole blend
+const MIN_BLEND_LENGTH = 60;
+
+interface BlendSource {
+  tracks: Track[];
+  weight: number;
+}
+
+/**
+ * Each playlist's share of the blend in whole percent, keyed by playlist id
+ */
+export const getBlendPercentages = (playlists: BlendPlaylist[]): Record<string, number> => {
+  const total = playlists.reduce((sum, p) => sum + p.weight, 0);
+  return Object.fromEntries(
+    playlists.map(p => [p.playlistId, total > 0 ? Math.round((p.weight / total) * 100) : 0])
+  );
+};
+
+/**
+ * One play order for a blend: every playlist contributes tracks in proportion to its weight (without repeats,
+ * each pool shuffled with the variety rules), interleaved so any stretch of the order follows the weights.
+ */
+export const generateBlendOrder = (sources: BlendSource[]): Track[] => {
+  // A track in several playlists counts once, for the first playlist it appears in
+  const seen = new Set<string>();
+  const pools = sources
+    .map(source => {
+      const tracks = source.tracks.filter(t => {
+        if (seen.has(t.id)) return false;
+        seen.add(t.id);
+        return true;
+      });
+      return { tracks: shuffleTracks(tracks), weight: source.weight };
+    })
+    .filter(pool => pool.tracks.length > 0 && pool.weight > 0);
+
+  if (pools.length === 0) return [];
+
+  // Longest order every pool can fill at its exact share, unless that would be too short to be useful
+  const totalWeight = pools.reduce((sum, p) => sum + p.weight, 0);
+  const exactLength = Math.min(...pools.map(p => p.tracks.length / (p.weight / totalWeight)));
+  const targetLength = Math.max(exactLength, MIN_BLEND_LENGTH);
+  const counts = pools.map(p =>
+    Math.max(1, Math.min(p.tracks.length, Math.round(targetLength * (p.weight / totalWeight))))
+  );
+
+  // Smooth weighted round-robin over the counts, so picks are spread evenly instead of in runs
+  const totalCount = counts.reduce((sum, c) => sum + c, 0);
+  const credit = pools.map(() => 0);
+  const taken = pools.map(() => 0);
+  const ordered: Track[] = [];
+
+  while (ordered.length < totalCount) {
+    let best = -1;
+    pools.forEach((_, i) => {
+      if (taken[i] >= counts[i]) return;
+      credit[i] += counts[i];
+      if (best === -1 || credit[i] > credit[best]) best = i;
+    });
+    credit[best] -= totalCount;
+    ordered.push(pools[best].tracks[taken[best]]);
+    taken[best]++;
+  }
+
+  return ordered;
+};
+
+/**
+ * The user's saved blends, by name
+ */
+export const fetchBlends = async (userId: string): Promise<PlaylistBlend[]> => {
+  const { data, error } = await supabase
+    .from("playlist_blends")
+    .select("id, name, playlist_blend_playlists(playlist_id, weight)")
+    .eq("user_id", userId)
+    .order("name");
+
+  if (error) throw error;
+
+  return (data || []).map(blend => ({
+    id: blend.id,
+    name: blend.name,
+    playlists: blend.playlist_blend_playlists.map(p => ({ playlistId: p.playlist_id, weight: p.weight })),
+  }));
+};
+
+/**
+ * Create a blend, or replace an existing blend's name and playlists when `blend.id` is set. Returns the blend id.
+ */
+export const saveBlend = async (
+  userId: string,
+  blend: { id?: string; name: string; playlists: BlendPlaylist[] }
+): Promise<string> => {
+  let blendId = blend.id;
+
+  if (blendId) {
+    const { error } = await supabase.from("playlist_blends").update({ name: blend.name }).eq("id", blendId);
+    if (error) throw error;
+  } else {
+    const { data, error } = await supabase
+      .from("playlist_blends")
+      .insert({ user_id: userId, name: blend.name })
+      .select("id")
+      .single();
+    if (error) throw error;
+    blendId = data.id;
+  }
+
+  // Write the new weights before removing playlists that left the blend, so a failed save never
+  // leaves the blend without playlists
+  const playlistIds = blend.playlists.map(p => p.playlistId);
+  if (playlistIds.length > 0) {
+    const { error } = await supabase.from("playlist_blend_playlists").upsert(
+      blend.playlists.map(p => ({ blend_id: blendId!, playlist_id: p.playlistId, weight: p.weight })),
+      { onConflict: "blend_id,playlist_id" }
+    );
+    if (error) throw error;
+  }
+
+  if (blend.id) {
+    let removed = supabase.from("playlist_blend_playlists").delete().eq("blend_id", blendId);
+    if (playlistIds.length > 0) removed = removed.not("playlist_id", "in", `(${playlistIds.join(",")})`);
+    const { error } = await removed;
+    if (error) throw error;
+  }
+
+  return blendId;
+};
+
+export const deleteBlend = async (blendId: string) => {
+  const { error } = await supabase.from("playlist_blends").delete().eq("id", blendId);
+  if (error) throw error;
+};
+
+/**
+ * Playlist ids a blend draws from (for offline downloads)
+ */
+export const getBlendPlaylistIds = async (blendIds: string[]): Promise<string[]> => {
+  if (blendIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("playlist_blend_playlists")
+    .select("playlist_id")
+    .in("blend_id", blendIds);
+
+  if (error) {
+    console.warn("[Blends] Failed to load blend playlists:", error);
+    return [];
+  }
+  return [...new Set((data || []).map(row => row.playlist_id))];
+};
+
+/**
+ * Load a saved blend and generate its track order (empty if the blend or its playlists are gone)
+ */
+export const loadBlendTracks = async (blendId: string): Promise<Track[]> => {
+  const { data: blendPlaylists, error } = await supabase
+    .from("playlist_blend_playlists")
+    .select("playlist_id, weight")
+    .eq("blend_id", blendId);
+
+  if (error || !blendPlaylists || blendPlaylists.length === 0) {
+    console.warn("[Blends] No playlists found for blend:", blendId, error);
+    return [];
+  }
+
+  const { data: playlistTracks, error: tracksError } = await supabase
+    .from("playlist_tracks")
+    .select("playlist_id, tracks(*)")
+    .in("playlist_id", blendPlaylists.map(p => p.playlist_id))
+    .order("position");
+
+  if (tracksError) {
+    console.warn("[Blends] Failed to load blend tracks:", tracksError);
+    return [];
+  }
+
+  return generateBlendOrder(
+    blendPlaylists.map(({ playlist_id, weight }) => ({
+      weight,
+      tracks: (playlistTracks || [])
+        .filter(pt => pt.playlist_id === playlist_id && pt.tracks)
+        .map(({ tracks: t }) => ({
+          id: t.id,
+          title: t.title,
+          artist: t.artist,
+          album: t.album || "",
+          duration: t.duration || "0:00",
+          cover: t.cover_url || "/placeholder.svg",
+          genre: t.genre || "",
+        })),
+    }))
+  );
+};
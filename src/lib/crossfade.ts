@@ -0,0 +1,57 @@
+// Crossfade settings (stored per account on profiles, cached in localStorage for a fast start)
+
+export type CrossfadeCurve = "linear" | "equal_power" | "s_curve";
+
+export const CROSSFADE_CURVES: CrossfadeCurve[] = ["linear", "equal_power", "s_curve"];
+export const DEFAULT_CROSSFADE_DURATION = 5; // seconds
+export const DEFAULT_CROSSFADE_CURVE: CrossfadeCurve = "s_curve";
+export const MAX_CROSSFADE_DURATION = 15; // seconds
+
+const CROSSFADE_DURATION_KEY = "ambian_crossfade_duration";
+const CROSSFADE_CURVE_KEY = "ambian_crossfade_curve";
+
+export interface CrossfadeSettings {
+  duration: number;
+  curve: CrossfadeCurve;
+}
+
+export const isCrossfadeCurve = (value: unknown): value is CrossfadeCurve =>
+  CROSSFADE_CURVES.includes(value as CrossfadeCurve);
+
+export const clampCrossfadeDuration = (seconds: number) =>
+  Math.max(0, Math.min(MAX_CROSSFADE_DURATION, Number.isFinite(seconds) ? seconds : DEFAULT_CROSSFADE_DURATION));
+
+export const getStoredCrossfadeSettings = (): CrossfadeSettings => {
+  const savedDuration = localStorage.getItem(CROSSFADE_DURATION_KEY);
+  const savedCurve = localStorage.getItem(CROSSFADE_CURVE_KEY);
+  return {
+    duration: savedDuration === null ? DEFAULT_CROSSFADE_DURATION : clampCrossfadeDuration(Number(savedDuration)),
+    curve: isCrossfadeCurve(savedCurve) ? savedCurve : DEFAULT_CROSSFADE_CURVE,
+  };
+};
+
+export const storeCrossfadeSettings = ({ duration, curve }: CrossfadeSettings) => {
+  localStorage.setItem(CROSSFADE_DURATION_KEY, String(duration));
+  localStorage.setItem(CROSSFADE_CURVE_KEY, curve);
+};
+
+/**
+ * Gain multipliers (0-1) for the outgoing and incoming track at `progress` (0-1) through the fade
+ */
+export const getCrossfadeGains = (progress: number, curve: CrossfadeCurve): { fadeOut: number; fadeIn: number } => {
+  const p = Math.max(0, Math.min(1, progress));
+
+  switch (curve) {
+    case "linear":
+      return { fadeOut: 1 - p, fadeIn: p };
+    case "equal_power":
+      // Constant total power, so the mix doesn't dip in the middle
+      return { fadeOut: Math.cos((p * Math.PI) / 2), fadeIn: Math.sin((p * Math.PI) / 2) };
+    case "s_curve":
+    default: {
+      // Ease-in-out: slow start and end, quicker middle
+      const eased = p < 0.5 ? 2 * p * p : 1 - Math.pow(-2 * p + 2, 2) / 2;
+      return { fadeOut: 1 - eased, fadeIn: eased };
+    }
+  }
+};
@@ -0,0 +1,58 @@
+import { supabase } from "@/integrations/supabase/client";
+
+// Remote control of an organization's devices.
+// Commands are rows in device_commands (RLS-protected, delivered to the target device via realtime).
+// Now-playing status is ephemeral and broadcast on a per-organization realtime channel.
+
+export type DeviceCommandType = "play" | "pause" | "next" | "volume" | "playlist";
+
+export interface DeviceCommandPayload {
+  volume?: number;
+  playlistId?: string;
+}
+
+export interface DeviceCommand {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  session_id: string;
+  command: DeviceCommandType;
+  payload: DeviceCommandPayload | null;
+  created_at: string;
+}
+
+export interface DeviceStatus {
+  sessionId: string;
+  track: { id: string; title: string; artist: string; cover: string } | null;
+  playlistId: string | null;
+  isPlaying: boolean;
+  volume: number;
+  sentAt: number;
+}
+
+// Commands older than this are ignored (e.g. a device that was offline when they were sent)
+export const DEVICE_COMMAND_TTL_MS = 60 * 1000;
+
+export const DEVICE_STATUS_EVENT = "status";
+export const DEVICE_STATUS_REQUEST_EVENT = "status_request";
+
+// Keyed by organization so managers see devices signed in with other logins; logins without one use their user id
+export const getDeviceStatusChannelName = (scopeId: string) => `device-status-${scopeId}`;
+
+export const sendDeviceCommand = async (
+  userId: string,
+  organizationId: string | null,
+  fromSessionId: string,
+  sessionId: string,
+  command: DeviceCommandType,
+  payload?: DeviceCommandPayload
+) => {
+  return supabase.from("device_commands").insert({
+    user_id: userId,
+    organization_id: organizationId,
+    session_id: sessionId,
+    command,
+    payload: payload ? { ...payload } : null,
+    sent_from: fromSessionId,
+  });
+};
@@ -0,0 +1,88 @@
+// Friendly device names and playback heartbeat helpers for device sessions
+
+export const parseDeviceInfo = (userAgent: string, sessionId?: string): { type: "phone" | "tablet" | "desktop"; name: string; browser: string } => {
+  const ua = userAgent.toLowerCase();
+  
+  // Detect device type
+  let type: "phone" | "tablet" | "desktop" = "desktop";
+  if (/mobile|iphone|android.*mobile|windows phone/i.test(ua)) {
+    type = "phone";
+  } else if (/ipad|android(?!.*mobile)|tablet/i.test(ua)) {
+    type = "tablet";
+  }
+
+  // Try to extract meaningful device name
+  let deviceName = "Unknown Device";
+  
+  if (/iphone/i.test(ua)) {
+    deviceName = "iPhone";
+  } else if (/ipad/i.test(ua)) {
+    deviceName = "iPad";
+  } else if (/macintosh|mac os/i.test(ua)) {
+    deviceName = "Mac";
+  } else if (/windows/i.test(ua)) {
+    deviceName = "Windows PC";
+  } else if (/android/i.test(ua)) {
+    deviceName = type === "phone" ? "Android Phone" : "Android Tablet";
+  } else if (/linux/i.test(ua)) {
+    deviceName = "Linux";
+  }
+
+  // Detect browser
+  let browser = "";
+  if (/chrome|crios/i.test(ua) && !/edge|edg/i.test(ua)) {
+    browser = "Chrome";
+  } else if (/safari/i.test(ua) && !/chrome|crios/i.test(ua)) {
+    browser = "Safari";
+  } else if (/firefox|fxios/i.test(ua)) {
+    browser = "Firefox";
+  } else if (/edge|edg/i.test(ua)) {
+    browser = "Edge";
+  }
+
+  const name = browser ? `${deviceName} (${browser})` : deviceName;
+
+  return { type, name, browser };
+};
+
+// Playback state each device reports with its session heartbeat (stored on active_sessions)
+export interface PlaybackReport {
+  trackId: string | null;
+  playlistId: string | null;
+  isPlaying: boolean;
+  volume: number;
+  lastError: string | null;
+  lastErrorAt: number | null;
+  // Added by the heartbeat from this device's scheduler switch
+  schedulerEnabled?: boolean;
+}
+
+export const SESSION_HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000;
+
+// The scheduler is switched on per device. Silence alerts only watch devices that follow schedules,
+// so the switch is reported with the heartbeat.
+export const SCHEDULER_ENABLED_KEY = "ambian_scheduler_enabled";
+
+export const isSchedulerEnabledOnDevice = () => localStorage.getItem(SCHEDULER_ENABLED_KEY) === "true";
+
+// Devices are shown as silent once they haven't played for this long
+export const SILENT_THRESHOLD_MINUTES = 15;
+
+interface SessionPlayback {
+  is_playing: boolean;
+  last_playing_at: string | null;
+  updated_at: string;
+  created_at: string;
+}
+
+/**
+ * Minutes since a device last played music, or 0 while it is playing.
+ * A device whose heartbeat has stopped counts as silent even if it last reported playing.
+ */
+export const getSilentMinutes = (session: SessionPlayback, now: number = Date.now()): number => {
+  const heartbeatAge = now - new Date(session.updated_at).getTime();
+  if (session.is_playing && heartbeatAge < SESSION_HEARTBEAT_INTERVAL_MS * 2) return 0;
+
+  const lastPlayed = new Date(session.last_playing_at ?? session.created_at).getTime();
+  return Math.max(0, Math.floor((now - lastPlayed) / 60000));
+};
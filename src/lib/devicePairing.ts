@@ -0,0 +1,60 @@
+import type { User } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables } from "@/integrations/supabase/types";
+
+// Device pairing: a shop-floor device joins an organization with a short code from Profile > Devices and
+// gets its own player-only login, so it never needs the owner's email and password.
+
+export type PairedDevice = Tables<"paired_devices">;
+
+const PAIRED_DEVICE_EMAIL_DOMAIN = "@devices.ambianmusic.com";
+
+export const isPairedDeviceUser = (user: User | null) => user?.app_metadata?.paired_device === true;
+
+// Device logins are organization members too, but are listed with the paired devices
+export const isPairedDeviceEmail = (email: string | null) => !!email?.endsWith(PAIRED_DEVICE_EMAIL_DOMAIN);
+
+// "ABCD2345" -> "ABCD-2345"
+export const formatPairingCode = (code: string) => `${code.slice(0, 4)}-${code.slice(4)}`;
+
+const invokeWithErrorBody = async (name: string, body: Record<string, unknown>) => {
+  const { data, error } = await supabase.functions.invoke(name, { body });
+  if (error) {
+    const errorBody = await error.context?.json?.().catch(() => null);
+    throw new Error(errorBody?.error || error.message);
+  }
+  if (data?.error) throw new Error(data.error);
+  return data;
+};
+
+export const fetchPairedDevices = async (organizationId: string): Promise<PairedDevice[]> => {
+  const { data, error } = await supabase
+    .from("paired_devices")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const createPairingCode = async (organizationId: string, name: string): Promise<PairedDevice> => {
+  const data = await invokeWithErrorBody("create-pairing-code", { organizationId, name: name.trim() });
+  return data.device as PairedDevice;
+};
+
+export const revokePairedDevice = async (deviceId: string) => {
+  await invokeWithErrorBody("revoke-paired-device", { deviceId });
+};
+
+/**
+ * Claim a pairing code and sign this device in with the login created for it
+ */
+export const pairDevice = async (code: string) => {
+  const data = await invokeWithErrorBody("pair-device", { code });
+
+  const { error } = await supabase.auth.verifyOtp({ token_hash: data.tokenHash, type: "magiclink" });
+  if (error) throw error;
+
+  return { organizationId: data.organizationId as string, name: data.name as string };
+};
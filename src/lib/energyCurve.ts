@@ -0,0 +1,108 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Track } from "@/data/musicData";
+import { pickNextTrack } from "@/lib/shuffleEngine";
+
+// Dynamic schedules: an energy target (0-1) that changes over the day, e.g. calm mornings ramping up
+// to upbeat evenings. Points are wall-clock times in the schedule's timezone, interpolated in between.
+
+export interface EnergyCurvePoint {
+  time: string; // HH:MM
+  energy: number; // 0-1
+}
+
+export const DEFAULT_ENERGY_CURVE: EnergyCurvePoint[] = [
+  { time: "08:00", energy: 0.2 },
+  { time: "12:00", energy: 0.45 },
+  { time: "15:00", energy: 0.4 },
+  { time: "18:00", energy: 0.7 },
+  { time: "21:00", energy: 0.85 },
+];
+
+// Tracks this close to the best match all count as matches, so variety rules still have a choice
+const ENERGY_TOLERANCE = 0.1;
+// Assumed for tracks that haven't been analyzed yet, so they only play around mid-curve
+const UNKNOWN_ENERGY = 0.5;
+// Keeps .in() filters well under URL length limits
+const ENERGY_FETCH_BATCH = 100;
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(":").map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Validated, time-sorted curve from a playlist_schedules.energy_curve value (null if missing or empty)
+ */
+export const parseEnergyCurve = (value: Json | null): EnergyCurvePoint[] | null => {
+  if (!Array.isArray(value)) return null;
+
+  const points = value
+    .filter((p): p is { time: string; energy: number } =>
+      typeof p === "object" && p !== null && !Array.isArray(p) &&
+      typeof p.time === "string" && /^\d{2}:\d{2}/.test(p.time) && typeof p.energy === "number"
+    )
+    .map(p => ({ time: p.time.slice(0, 5), energy: Math.max(0, Math.min(1, p.energy)) }))
+    .sort((a, b) => toMinutes(a.time) - toMinutes(b.time));
+
+  return points.length > 0 ? points : null;
+};
+
+/**
+ * Target energy at a wall-clock time (HH:MM); the curve wraps from its last point back to its first overnight
+ */
+export const getTargetEnergy = (curve: EnergyCurvePoint[], time: string): number => {
+  if (curve.length === 1) return curve[0].energy;
+
+  const minutes = toMinutes(time);
+  const nextIndex = curve.findIndex(p => toMinutes(p.time) > minutes);
+  const after = curve[nextIndex === -1 ? 0 : nextIndex];
+  const before = curve[nextIndex <= 0 ? curve.length - 1 : nextIndex - 1];
+
+  const span = (toMinutes(after.time) - toMinutes(before.time) + 1440) % 1440 || 1440;
+  const elapsed = (minutes - toMinutes(before.time) + 1440) % 1440;
+  return before.energy + (after.energy - before.energy) * (elapsed / span);
+};
+
+/**
+ * Stored energy per track id (null for tracks not analyzed yet)
+ */
+export const fetchTrackEnergies = async (trackIds: string[]): Promise<Map<string, number | null>> => {
+  const energies = new Map<string, number | null>();
+
+  for (let i = 0; i < trackIds.length; i += ENERGY_FETCH_BATCH) {
+    const { data, error } = await supabase
+      .from("tracks")
+      .select("id, energy")
+      .in("id", trackIds.slice(i, i + ENERGY_FETCH_BATCH));
+
+    if (error) {
+      console.warn("[EnergyCurve] Failed to load track energy:", error);
+      continue;
+    }
+    for (const track of data || []) {
+      energies.set(track.id, track.energy);
+    }
+  }
+
+  return energies;
+};
+
+/**
+ * The track closest to the target energy, with the shuffle variety rules choosing among near matches
+ */
+export const pickTrackForEnergy = (
+  tracks: Track[],
+  energies: Map<string, number | null>,
+  targetEnergy: number,
+  currentTrackId?: string | null
+): Track | null => {
+  const candidates = tracks.filter(t => t.id !== currentTrackId);
+  if (candidates.length === 0) return tracks[0] ?? null;
+
+  const distance = (t: Track) => Math.abs((energies.get(t.id) ?? UNKNOWN_ENERGY) - targetEnergy);
+  const closest = Math.min(...candidates.map(distance));
+  const matches = candidates.filter(t => distance(t) <= closest + ENERGY_TOLERANCE);
+
+  return pickNextTrack(matches, currentTrackId);
+};
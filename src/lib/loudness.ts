@@ -0,0 +1,81 @@
+// Loudness normalization: integrated loudness (LUFS, ITU-R BS.1770) is measured per track
+// and stored on tracks.loudness_lufs; the player turns it into a gain towards a common target.
+
+// Target for background music; quieter than streaming services (-14) to leave headroom
+export const TARGET_LOUDNESS_LUFS = -18;
+
+// Never cut or boost more than this, so badly measured or very quiet tracks don't clip or blare
+const MAX_CUT_DB = -12;
+const MAX_BOOST_DB = 6;
+
+// BS.1770 K-weighting filter coefficients, valid at 48 kHz (audio is resampled to that before measuring)
+export const MEASURE_SAMPLE_RATE = 48000;
+const SHELF = { b: [1.53512485958697, -2.69169618940638, 1.19839281085285], a: [-1.69065929318241, 0.73248077421585] };
+const HIGH_PASS = { b: [1.0, -2.0, 1.0], a: [-1.99004745483398, 0.99007225036621] };
+
+// 400 ms gating blocks with 75% overlap = 100 ms steps
+const STEP_SAMPLES = MEASURE_SAMPLE_RATE / 10;
+const ABSOLUTE_GATE_LUFS = -70;
+const RELATIVE_GATE_LU = -10;
+
+const applyBiquad = (input: Float32Array, { b, a }: { b: number[]; a: number[] }): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1;
+    x1 = x;
+    y2 = y1;
+    y1 = y;
+    output[i] = y;
+  }
+  return output;
+};
+
+const powerToLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+
+/**
+ * Integrated loudness of decoded audio in LUFS, or null for silence
+ */
+export const computeIntegratedLoudness = (buffer: AudioBuffer): number | null => {
+  const stepCount = Math.floor(buffer.length / STEP_SAMPLES);
+  if (stepCount < 4) return null;
+
+  // Sum of K-weighted squared samples per 100 ms step, over all channels (weight 1.0 for front channels)
+  const stepPower = new Float64Array(stepCount);
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    const weighted = applyBiquad(applyBiquad(buffer.getChannelData(channel), SHELF), HIGH_PASS);
+    for (let step = 0; step < stepCount; step++) {
+      let sum = 0;
+      for (let i = step * STEP_SAMPLES; i < (step + 1) * STEP_SAMPLES; i++) {
+        sum += weighted[i] * weighted[i];
+      }
+      stepPower[step] += sum;
+    }
+  }
+
+  const blockPowers: number[] = [];
+  for (let step = 0; step + 4 <= stepCount; step++) {
+    const power = (stepPower[step] + stepPower[step + 1] + stepPower[step + 2] + stepPower[step + 3]) / (4 * STEP_SAMPLES);
+    if (power > 0 && powerToLufs(power) > ABSOLUTE_GATE_LUFS) {
+      blockPowers.push(power);
+    }
+  }
+  if (blockPowers.length === 0) return null;
+
+  const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / values.length;
+  const relativeGate = powerToLufs(mean(blockPowers)) + RELATIVE_GATE_LU;
+  const gated = blockPowers.filter(power => powerToLufs(power) > relativeGate);
+
+  return Math.round(powerToLufs(mean(gated)) * 10) / 10;
+};
+
+/**
+ * Linear gain that brings a track to the target loudness (1 when unmeasured)
+ */
+export const getNormalizationGain = (loudnessLufs: number | null | undefined): number => {
+  if (loudnessLufs === null || loudnessLufs === undefined) return 1;
+  const gainDb = Math.max(MAX_CUT_DB, Math.min(MAX_BOOST_DB, TARGET_LOUDNESS_LUFS - loudnessLufs));
+  return Math.pow(10, gainDb / 20);
+};
@@ -0,0 +1,286 @@
+import { getSignedAudioUrl } from "@/lib/storage";
+
+// Offline mode: audio of the scheduled (and upcoming) playlists is downloaded into Cache Storage
+// so playback can continue from local copies when the network drops.
+// Cache Storage doesn't report entry sizes, so a small index in localStorage tracks them for the quota manager.
+
+const CACHE_NAME = "ambian-offline-audio-v1";
+const CACHE_KEY_PREFIX = "/__offline-audio/";
+const OFFLINE_MODE_KEY = "ambian_offline_mode";
+const OFFLINE_QUOTA_KEY = "ambian_offline_quota_mb";
+const OFFLINE_INDEX_KEY = "ambian_offline_index";
+
+export const OFFLINE_CACHE_CHANGED_EVENT = "offline-cache-changed";
+export const OFFLINE_QUOTA_OPTIONS_MB = [500, 1000, 2000, 5000];
+const DEFAULT_QUOTA_MB = 1000;
+
+// Never fill more than this share of the storage the browser grants the origin
+const MAX_ORIGIN_QUOTA_SHARE = 0.8;
+
+// Object URLs kept alive at once (previous, current and preloaded next track)
+const MAX_OBJECT_URLS = 3;
+
+interface CachedTrack {
+  size: number;
+  cachedAt: number;
+  lastUsedAt: number;
+}
+
+export interface OfflineTrack {
+  id: string;
+  audioUrl: string;
+}
+
+export interface OfflineSyncState {
+  isSyncing: boolean;
+  done: number;
+  total: number;
+  quotaReached: boolean;
+  lastSyncedAt: number | null;
+  error: string | null;
+}
+
+export interface OfflineCacheStatus {
+  trackCount: number;
+  usedBytes: number;
+  quotaBytes: number;
+  sync: OfflineSyncState;
+}
+
+let syncState: OfflineSyncState = {
+  isSyncing: false,
+  done: 0,
+  total: 0,
+  quotaReached: false,
+  lastSyncedAt: null,
+  error: null,
+};
+
+const objectUrls = new Map<string, string>();
+
+// A sync requested while another is running; it starts when the running one finishes
+let queuedSync: { tracks: OfflineTrack[]; shouldStop: () => boolean } | null = null;
+
+const isCacheStorageAvailable = () => typeof caches !== "undefined";
+
+const getCacheKey = (trackId: string) => `${CACHE_KEY_PREFIX}${trackId}`;
+
+const notifyChange = () => {
+  window.dispatchEvent(new CustomEvent(OFFLINE_CACHE_CHANGED_EVENT));
+};
+
+const readIndex = (): Record<string, CachedTrack> => {
+  try {
+    return JSON.parse(localStorage.getItem(OFFLINE_INDEX_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+const writeIndex = (index: Record<string, CachedTrack>) => {
+  localStorage.setItem(OFFLINE_INDEX_KEY, JSON.stringify(index));
+};
+
+const setSyncState = (update: Partial<OfflineSyncState>) => {
+  syncState = { ...syncState, ...update };
+  notifyChange();
+};
+
+const revokeObjectUrl = (trackId: string) => {
+  const url = objectUrls.get(trackId);
+  if (url) {
+    URL.revokeObjectURL(url);
+    objectUrls.delete(trackId);
+  }
+};
+
+export const isOfflineModeEnabled = (): boolean => localStorage.getItem(OFFLINE_MODE_KEY) === "true";
+
+export const setOfflineModeEnabled = (enabled: boolean) => {
+  localStorage.setItem(OFFLINE_MODE_KEY, String(enabled));
+  if (enabled) {
+    // Ask the browser not to evict the downloads under storage pressure (best effort)
+    navigator.storage?.persist?.().catch(() => undefined);
+  }
+  notifyChange();
+};
+
+export const getOfflineQuotaMb = (): number => {
+  const saved = Number(localStorage.getItem(OFFLINE_QUOTA_KEY));
+  return saved > 0 ? saved : DEFAULT_QUOTA_MB;
+};
+
+export const setOfflineQuotaMb = (megabytes: number) => {
+  localStorage.setItem(OFFLINE_QUOTA_KEY, String(megabytes));
+  notifyChange();
+};
+
+/**
+ * Bytes the offline cache may use: the user's quota, capped by what the browser grants
+ */
+const getEffectiveQuotaBytes = async (): Promise<number> => {
+  const userQuota = getOfflineQuotaMb() * 1024 * 1024;
+  try {
+    const estimate = await navigator.storage?.estimate?.();
+    if (!estimate?.quota) return userQuota;
+
+    const ownUsage = Object.values(readIndex()).reduce((sum, t) => sum + t.size, 0);
+    const otherUsage = Math.max(0, (estimate.usage ?? 0) - ownUsage);
+    return Math.min(userQuota, estimate.quota * MAX_ORIGIN_QUOTA_SHARE - otherUsage);
+  } catch {
+    return userQuota;
+  }
+};
+
+/**
+ * Playable URL for a downloaded track, or undefined if it isn't cached
+ */
+export const getOfflineTrackUrl = async (trackId: string): Promise<string | undefined> => {
+  if (!isCacheStorageAvailable()) return undefined;
+
+  const existing = objectUrls.get(trackId);
+  if (existing) return existing;
+
+  try {
+    const cache = await caches.open(CACHE_NAME);
+    const response = await cache.match(getCacheKey(trackId));
+    if (!response) return undefined;
+
+    const url = URL.createObjectURL(await response.blob());
+    objectUrls.set(trackId, url);
+
+    // Drop the oldest object URLs so blobs don't pile up in memory
+    while (objectUrls.size > MAX_OBJECT_URLS) {
+      const oldest = objectUrls.keys().next().value as string;
+      revokeObjectUrl(oldest);
+    }
+
+    const index = readIndex();
+    if (index[trackId]) {
+      index[trackId].lastUsedAt = Date.now();
+      writeIndex(index);
+    }
+
+    console.log("[OfflineCache] Using offline copy for track", trackId);
+    return url;
+  } catch (error) {
+    console.error("[OfflineCache] Failed to read offline copy:", error);
+    return undefined;
+  }
+};
+
+/**
+ * Evict least recently used tracks (except the pinned ones) until `bytesNeeded` more fit in the quota.
+ * Returns false if that isn't possible.
+ */
+const makeRoom = async (bytesNeeded: number, pinned: Set<string>, quotaBytes: number): Promise<boolean> => {
+  const index = readIndex();
+  let used = Object.values(index).reduce((sum, t) => sum + t.size, 0);
+  if (used + bytesNeeded <= quotaBytes) return true;
+
+  const candidates = Object.entries(index)
+    .filter(([trackId]) => !pinned.has(trackId))
+    .sort(([, a], [, b]) => a.lastUsedAt - b.lastUsedAt);
+
+  const cache = await caches.open(CACHE_NAME);
+  for (const [trackId, entry] of candidates) {
+    if (used + bytesNeeded <= quotaBytes) break;
+    await cache.delete(getCacheKey(trackId));
+    revokeObjectUrl(trackId);
+    delete index[trackId];
+    used -= entry.size;
+  }
+
+  writeIndex(index);
+  return used + bytesNeeded <= quotaBytes;
+};
+
+const downloadTrack = async (track: OfflineTrack): Promise<Blob | null> => {
+  const signedUrl = await getSignedAudioUrl(track.audioUrl);
+  if (!signedUrl) return null;
+
+  const response = await fetch(signedUrl);
+  if (!response.ok) {
+    throw new Error(`Download failed (${response.status})`);
+  }
+  return response.blob();
+};
+
+/**
+ * Download the given tracks (in priority order) that aren't cached yet, evicting old downloads to stay in quota.
+ * `shouldStop` is checked between tracks so a sync can be cancelled.
+ */
+export const syncOfflineTracks = async (tracks: OfflineTrack[], shouldStop: () => boolean = () => false) => {
+  if (!isCacheStorageAvailable()) return;
+  if (syncState.isSyncing) {
+    queuedSync = { tracks, shouldStop };
+    return;
+  }
+
+  const uniqueTracks = tracks.filter((t, i) => tracks.findIndex(other => other.id === t.id) === i);
+  const pinned = new Set(uniqueTracks.map(t => t.id));
+  const missing = uniqueTracks.filter(t => !readIndex()[t.id]);
+
+  setSyncState({ isSyncing: true, done: uniqueTracks.length - missing.length, total: uniqueTracks.length, quotaReached: false, error: null });
+  console.log("[OfflineCache] Syncing", missing.length, "of", uniqueTracks.length, "tracks");
+
+  try {
+    const cache = await caches.open(CACHE_NAME);
+    const quotaBytes = await getEffectiveQuotaBytes();
+
+    for (const track of missing) {
+      if (shouldStop() || !isOfflineModeEnabled() || !navigator.onLine) break;
+
+      const blob = await downloadTrack(track);
+      if (!blob) continue;
+
+      if (!(await makeRoom(blob.size, pinned, quotaBytes))) {
+        console.log("[OfflineCache] Quota reached, stopping sync");
+        setSyncState({ quotaReached: true });
+        break;
+      }
+
+      await cache.put(
+        getCacheKey(track.id),
+        new Response(blob, { headers: { "Content-Type": blob.type || "audio/mpeg" } })
+      );
+
+      const index = readIndex();
+      index[track.id] = { size: blob.size, cachedAt: Date.now(), lastUsedAt: Date.now() };
+      writeIndex(index);
+      setSyncState({ done: syncState.done + 1 });
+    }
+
+    setSyncState({ isSyncing: false, lastSyncedAt: Date.now() });
+  } catch (error) {
+    console.error("[OfflineCache] Sync failed:", error);
+    setSyncState({ isSyncing: false, error: error instanceof Error ? error.message : String(error) });
+  }
+
+  if (queuedSync) {
+    const next = queuedSync;
+    queuedSync = null;
+    await syncOfflineTracks(next.tracks, next.shouldStop);
+  }
+};
+
+export const getOfflineCacheStatus = async (): Promise<OfflineCacheStatus> => {
+  const entries = Object.values(readIndex());
+  return {
+    trackCount: entries.length,
+    usedBytes: entries.reduce((sum, t) => sum + t.size, 0),
+    quotaBytes: await getEffectiveQuotaBytes(),
+    sync: syncState,
+  };
+};
+
+export const clearOfflineCache = async () => {
+  if (isCacheStorageAvailable()) {
+    await caches.delete(CACHE_NAME);
+  }
+  for (const trackId of [...objectUrls.keys()]) {
+    revokeObjectUrl(trackId);
+  }
+  writeIndex({});
+  setSyncState({ done: 0, total: 0, quotaReached: false, lastSyncedAt: null, error: null });
+};
@@ -0,0 +1,85 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { getMomentInTimeZone, windowCoversMoment } from "@/lib/scheduleResolver";
+
+// Business opening hours: the scheduler fades the music out at closing time and starts it again at opening time.
+// Outside the hours it leaves playback alone, so staff can still play music after closing.
+
+export type OpeningHours = Tables<"opening_hours">;
+
+// Where the player is in the day: open until `time`, or closed until `day` at `time`
+export interface OpeningState {
+  isOpen: boolean;
+  next: { day: number; time: string } | null;
+}
+
+// Slow enough to sound intentional rather than like a dropout
+export const CLOSING_FADE_SECONDS = 10;
+
+export const fetchOpeningHours = async (userId: string): Promise<OpeningHours[]> => {
+  const { data, error } = await supabase
+    .from("opening_hours")
+    .select("*")
+    .eq("user_id", userId)
+    .order("open_time");
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Create opening hours, or update them when `hours.id` is set
+ */
+export const saveOpeningHours = async (hours: TablesInsert<"opening_hours">) => {
+  const { error } = hours.id
+    ? await supabase.from("opening_hours").update(hours).eq("id", hours.id)
+    : await supabase.from("opening_hours").insert(hours);
+  if (error) throw error;
+};
+
+export const deleteOpeningHours = async (hoursId: string) => {
+  const { error } = await supabase.from("opening_hours").delete().eq("id", hoursId);
+  if (error) throw error;
+};
+
+/**
+ * The hours that apply to a device: its zone's own hours if the zone has any, else the account's.
+ * (Unlike schedules, zone hours replace the account's instead of adding to them.)
+ */
+export const selectOpeningHours = (hours: OpeningHours[], locationId: string | null): OpeningHours[] => {
+  const zoneHours = locationId ? hours.filter(h => h.location_id === locationId) : [];
+  return zoneHours.length > 0 ? zoneHours : hours.filter(h => !h.location_id);
+};
+
+const coversNow = (hours: OpeningHours, now: Date) =>
+  windowCoversMoment(hours.open_time, hours.close_time, getMomentInTimeZone(now, hours.timezone), (_, day) =>
+    hours.days_of_week.includes(day)
+  );
+
+/**
+ * Whether the business is open and when that next changes (null when no hours are set)
+ */
+export const getOpeningState = (hours: OpeningHours[], now: Date = new Date()): OpeningState | null => {
+  if (hours.length === 0) return null;
+
+  const open = hours.find(h => coversNow(h, now));
+  if (open) {
+    return { isOpen: true, next: { day: getMomentInTimeZone(now, open.timezone).day, time: open.close_time.slice(0, 5) } };
+  }
+
+  // Next opening within a week (each window in its own timezone, compared by days ahead and clock time)
+  let next: { daysAhead: number; day: number; time: string } | null = null;
+  for (const h of hours) {
+    const moment = getMomentInTimeZone(now, h.timezone);
+    const time = h.open_time.slice(0, 5);
+    for (let daysAhead = 0; daysAhead <= 7; daysAhead++) {
+      const day = (moment.day + daysAhead) % 7;
+      if (!h.days_of_week.includes(day) || (daysAhead === 0 && time <= moment.time)) continue;
+      if (!next || daysAhead < next.daysAhead || (daysAhead === next.daysAhead && time < next.time)) {
+        next = { daysAhead, day, time };
+      }
+      break;
+    }
+  }
+  return { isOpen: false, next: next && { day: next.day, time: next.time } };
+};
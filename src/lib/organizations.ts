@@ -0,0 +1,106 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Database, Tables } from "@/integrations/supabase/types";
+
+// Organizations: one Ambian account shared by several logins, each with a role. The account's subscription,
+// schedules and devices are stored under the owner's user_id and shared with members through RLS.
+
+export type OrgRole = Database["public"]["Enums"]["org_role"];
+export type Organization = Tables<"organizations">;
+export type OrganizationMember = Tables<"organization_members">;
+export type OrganizationInvitation = Tables<"organization_invitations">;
+
+export interface OrganizationMembership {
+  role: OrgRole;
+  joinedAt: string;
+  organization: Organization;
+}
+
+export const ORG_ROLES: OrgRole[] = ["owner", "billing", "manager", "player"];
+export const INVITABLE_ORG_ROLES: OrgRole[] = ["billing", "manager", "player"];
+
+// What each role may do; RLS enforces the same rules on the server
+export const canManageMembers = (role: OrgRole | null) => role === "owner";
+export const canManageBilling = (role: OrgRole | null) => role === "owner" || role === "billing";
+export const canManageSchedules = (role: OrgRole | null) => role === "owner" || role === "manager";
+export const canManageDevices = (role: OrgRole | null) => role === "owner" || role === "manager";
+
+export const fetchMemberships = async (userId: string): Promise<OrganizationMembership[]> => {
+  const { data, error } = await supabase
+    .from("organization_members")
+    .select("role, created_at, organizations(*)")
+    .eq("user_id", userId)
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || [])
+    .filter(row => row.organizations)
+    .map(row => ({
+      role: row.role,
+      joinedAt: row.created_at,
+      organization: row.organizations as Organization,
+    }));
+};
+
+export const fetchOrganizationMembers = async (organizationId: string): Promise<OrganizationMember[]> => {
+  const { data, error } = await supabase
+    .from("organization_members")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .order("created_at", { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchPendingInvitations = async (organizationId: string): Promise<OrganizationInvitation[]> => {
+  const { data, error } = await supabase
+    .from("organization_invitations")
+    .select("*")
+    .eq("organization_id", organizationId)
+    .is("accepted_at", null)
+    .gt("expires_at", new Date().toISOString())
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const inviteMember = async (organizationId: string, email: string, role: OrgRole) => {
+  const { data, error } = await supabase.functions.invoke("invite-organization-member", {
+    body: { organizationId, email: email.trim(), role },
+  });
+
+  if (error) {
+    const body = await error.context?.json?.().catch(() => null);
+    throw new Error(body?.error || error.message);
+  }
+  if (data?.error) throw new Error(data.error);
+  return data.invitation as OrganizationInvitation;
+};
+
+// Accept invitations sent to the signed-in user's email; returns the organizations joined
+export const acceptPendingInvitations = async (): Promise<string[]> => {
+  const { data, error } = await supabase.functions.invoke("accept-organization-invites");
+  if (error) throw error;
+  return data?.accepted || [];
+};
+
+export const updateMemberRole = async (memberId: string, role: OrgRole) => {
+  const { error } = await supabase.from("organization_members").update({ role }).eq("id", memberId);
+  if (error) throw error;
+};
+
+export const removeMember = async (memberId: string) => {
+  const { error } = await supabase.from("organization_members").delete().eq("id", memberId);
+  if (error) throw error;
+};
+
+export const revokeInvitation = async (invitationId: string) => {
+  const { error } = await supabase.from("organization_invitations").delete().eq("id", invitationId);
+  if (error) throw error;
+};
+
+export const renameOrganization = async (organizationId: string, name: string) => {
+  const { error } = await supabase.from("organizations").update({ name: name.trim() }).eq("id", organizationId);
+  if (error) throw error;
+};
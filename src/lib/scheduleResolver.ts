@@ -0,0 +1,36 @@
+// Schedule resolution for the playlist scheduler and the schedule editor. The rules live in
+// supabase/functions/_shared/scheduleResolver.ts so edge functions use exactly the same ones;
+// this module adds what only the browser needs (device timezone, timezone pickers).
+
+export * from "../../supabase/functions/_shared/scheduleResolver";
+
+export const getDeviceTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const FALLBACK_TIMEZONES = [
+  "Europe/Helsinki",
+  "Europe/Stockholm",
+  "Europe/Oslo",
+  "Europe/Copenhagen",
+  "Europe/Tallinn",
+  "Europe/Berlin",
+  "Europe/Paris",
+  "Europe/Amsterdam",
+  "Europe/Madrid",
+  "Europe/London",
+  "America/New_York",
+  "America/Chicago",
+  "America/Los_Angeles",
+  "UTC",
+];
+
+/**
+ * Timezones offered in pickers, with the device zone first
+ */
+export const getTimeZoneOptions = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: "timeZone") => string[] };
+  const zones = intl.supportedValuesOf?.("timeZone") ?? FALLBACK_TIMEZONES;
+  const deviceZone = getDeviceTimeZone();
+  return [deviceZone, ...zones.filter(zone => zone !== deviceZone)];
+};
+
+export const formatTimeZone = (timeZone: string) => timeZone.replace(/_/g, " ");
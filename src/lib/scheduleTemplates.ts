@@ -0,0 +1,229 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Json, Tables, TablesInsert } from "@/integrations/supabase/types";
+
+// Schedule templates: a named copy of a set of schedules (e.g. a chain's standard week) that can be applied
+// to the whole account or one zone. Admins can send a template to many accounts; each owner reviews what
+// would change before applying it.
+
+export type ScheduleTemplate = Tables<"schedule_templates">;
+
+// A schedule as stored in a template: everything but its id, owner and zone
+export type TemplateEntry = Pick<
+  Tables<"playlist_schedules">,
+  | "name"
+  | "playlist_id"
+  | "blend_id"
+  | "days_of_week"
+  | "start_time"
+  | "end_time"
+  | "timezone"
+  | "priority"
+  | "valid_from"
+  | "valid_until"
+  | "skip_dates"
+  | "is_active"
+  | "schedule_type"
+  | "energy_curve"
+  | "volume"
+>;
+
+export interface TemplateAssignment {
+  id: string;
+  status: string;
+  created_at: string;
+  template: ScheduleTemplate;
+}
+
+// The fields that make two schedules "the same" when comparing a template with a zone
+type ComparedFields = Pick<
+  TemplateEntry,
+  "playlist_id" | "blend_id" | "days_of_week" | "start_time" | "end_time" | "timezone" | "priority" | "valid_from" | "valid_until"
+>;
+
+// What applying a template to a zone would do
+export interface TemplateDiff<T extends ComparedFields> {
+  removed: T[]; // current schedules that the template doesn't have
+  added: TemplateEntry[]; // template schedules that aren't there yet
+  kept: T[]; // current schedules that the template has too (left untouched)
+  unavailable: TemplateEntry[]; // template schedules whose playlist or blend this account can't play (skipped)
+}
+
+type ScheduleSource = Omit<TemplateEntry, "skip_dates"> & { skip_dates: string[] | null };
+
+export const toTemplateEntry = (schedule: ScheduleSource): TemplateEntry => ({
+  name: schedule.name,
+  playlist_id: schedule.playlist_id,
+  blend_id: schedule.blend_id,
+  days_of_week: schedule.days_of_week,
+  start_time: schedule.start_time.slice(0, 5),
+  end_time: schedule.end_time.slice(0, 5),
+  timezone: schedule.timezone,
+  priority: schedule.priority,
+  valid_from: schedule.valid_from,
+  valid_until: schedule.valid_until,
+  skip_dates: schedule.skip_dates ?? [],
+  is_active: schedule.is_active,
+  schedule_type: schedule.schedule_type,
+  energy_curve: schedule.energy_curve,
+  volume: schedule.volume,
+});
+
+const isRecord = (value: Json): value is { [key: string]: Json | undefined } =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const stringOrNull = (value: Json | undefined) => (typeof value === "string" ? value : null);
+
+/**
+ * Validated entries from a schedule_templates.entries value (entries without a time window or source are dropped)
+ */
+export const parseTemplateEntries = (value: Json): TemplateEntry[] => {
+  if (!Array.isArray(value)) return [];
+
+  return value.filter(isRecord).flatMap(entry => {
+    const playlistId = stringOrNull(entry.playlist_id);
+    const blendId = stringOrNull(entry.blend_id);
+    const startTime = stringOrNull(entry.start_time);
+    const endTime = stringOrNull(entry.end_time);
+    const days = Array.isArray(entry.days_of_week)
+      ? entry.days_of_week.filter((d): d is number => typeof d === "number" && d >= 0 && d <= 6)
+      : [];
+    if ((!playlistId && !blendId) || !startTime || !endTime || days.length === 0) return [];
+
+    return [{
+      name: stringOrNull(entry.name),
+      playlist_id: blendId ? null : playlistId,
+      blend_id: blendId,
+      days_of_week: days,
+      start_time: startTime.slice(0, 5),
+      end_time: endTime.slice(0, 5),
+      timezone: stringOrNull(entry.timezone),
+      priority: typeof entry.priority === "number" ? entry.priority : 0,
+      valid_from: stringOrNull(entry.valid_from),
+      valid_until: stringOrNull(entry.valid_until),
+      skip_dates: Array.isArray(entry.skip_dates)
+        ? entry.skip_dates.filter((d): d is string => typeof d === "string")
+        : [],
+      is_active: entry.is_active !== false,
+      schedule_type: stringOrNull(entry.schedule_type) ?? "playlist",
+      energy_curve: entry.energy_curve ?? null,
+      volume: typeof entry.volume === "number" ? entry.volume : null,
+    }];
+  });
+};
+
+export const fetchScheduleTemplates = async (userId: string): Promise<ScheduleTemplate[]> => {
+  const { data, error } = await supabase
+    .from("schedule_templates")
+    .select("*")
+    .eq("user_id", userId)
+    .order("name");
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Create a template, or update it when `template.id` is set
+ */
+export const saveScheduleTemplate = async (template: TablesInsert<"schedule_templates">) => {
+  const { error } = template.id
+    ? await supabase.from("schedule_templates").update(template).eq("id", template.id)
+    : await supabase.from("schedule_templates").insert(template);
+  if (error) throw error;
+};
+
+export const deleteScheduleTemplate = async (templateId: string) => {
+  const { error } = await supabase.from("schedule_templates").delete().eq("id", templateId);
+  if (error) throw error;
+};
+
+/**
+ * Templates an admin has sent to this account that haven't been applied or dismissed yet
+ */
+export const fetchPendingAssignments = async (userId: string): Promise<TemplateAssignment[]> => {
+  const { data, error } = await supabase
+    .from("schedule_template_assignments")
+    .select("id, status, created_at, template:schedule_templates(*)")
+    .eq("user_id", userId)
+    .eq("status", "pending")
+    .order("created_at", { ascending: false });
+
+  if (error) throw error;
+  return (data || []).flatMap(({ template, ...assignment }) => (template ? [{ ...assignment, template }] : []));
+};
+
+export const respondToAssignment = async (assignmentId: string, status: "applied" | "dismissed") => {
+  const { error } = await supabase
+    .from("schedule_template_assignments")
+    .update({ status })
+    .eq("id", assignmentId);
+  if (error) throw error;
+};
+
+/**
+ * Send a template to accounts (admins). Sending again puts an applied or dismissed template back to pending.
+ */
+export const pushScheduleTemplate = async (templateId: string, userIds: string[], adminId: string) => {
+  const { error } = await supabase
+    .from("schedule_template_assignments")
+    .upsert(
+      userIds.map(userId => ({ template_id: templateId, user_id: userId, assigned_by: adminId, status: "pending" })),
+      { onConflict: "template_id,user_id" }
+    );
+  if (error) throw error;
+};
+
+// Two schedules are "the same" when they play the same thing at the same times
+const entryKey = (entry: ComparedFields) =>
+  [
+    entry.blend_id ?? entry.playlist_id,
+    [...entry.days_of_week].sort().join(","),
+    entry.start_time.slice(0, 5),
+    entry.end_time.slice(0, 5),
+    entry.timezone ?? "",
+    entry.priority,
+    entry.valid_from ?? "",
+    entry.valid_until ?? "",
+  ].join("|");
+
+/**
+ * Compare a template with the schedules it would replace
+ */
+export const getTemplateDiff = <T extends ComparedFields>(
+  template: TemplateEntry[],
+  current: T[],
+  isSourceAvailable: (entry: TemplateEntry) => boolean
+): TemplateDiff<T> => {
+  const currentKeys = new Set(current.map(entryKey));
+  const templateKeys = new Set(template.map(entryKey));
+  const available = template.filter(isSourceAvailable);
+
+  return {
+    removed: current.filter(entry => !templateKeys.has(entryKey(entry))),
+    added: available.filter(entry => !currentKeys.has(entryKey(entry))),
+    kept: current.filter(entry => templateKeys.has(entryKey(entry))),
+    unavailable: template.filter(entry => !isSourceAvailable(entry)),
+  };
+};
+
+/**
+ * Apply a diff to one zone (or to the account-wide schedules when `locationId` is null).
+ * New schedules are inserted before the replaced ones are removed, so a failure never leaves the zone empty.
+ */
+export const applyScheduleTemplate = async (
+  userId: string,
+  locationId: string | null,
+  diff: TemplateDiff<ComparedFields & { id: string }>
+) => {
+  if (diff.added.length > 0) {
+    const { error } = await supabase
+      .from("playlist_schedules")
+      .insert(diff.added.map(entry => ({ ...entry, user_id: userId, location_id: locationId })));
+    if (error) throw error;
+  }
+
+  if (diff.removed.length > 0) {
+    const { error } = await supabase.from("playlist_schedules").delete().in("id", diff.removed.map(s => s.id));
+    if (error) throw error;
+  }
+};
@@ -0,0 +1,135 @@
+import { Track } from "@/data/musicData";
+
+// Shuffle with variety rules: no same artist within N tracks, and no track repeated within N hours
+// on this device. Rules are relaxed step by step when a small playlist can't satisfy them.
+
+export interface ShuffleRules {
+  artistSeparation: number; // tracks; 0 = off
+  repeatWindowHours: number; // 0 = off
+}
+
+interface PlayedTrack {
+  id: string;
+  artist: string;
+  playedAt: number;
+}
+
+const SHUFFLE_RULES_KEY = "ambian_shuffle_rules";
+const PLAY_HISTORY_KEY = "ambian_recent_plays";
+// Enough for a long repeat window without letting localStorage grow unbounded
+const MAX_HISTORY_ENTRIES = 500;
+
+export const ARTIST_SEPARATION_OPTIONS = [0, 1, 2, 3, 5];
+export const REPEAT_WINDOW_OPTIONS_HOURS = [0, 1, 2, 4, 8];
+export const DEFAULT_SHUFFLE_RULES: ShuffleRules = { artistSeparation: 2, repeatWindowHours: 2 };
+
+export const getShuffleRules = (): ShuffleRules => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SHUFFLE_RULES_KEY) || "null");
+    return { ...DEFAULT_SHUFFLE_RULES, ...saved };
+  } catch {
+    return DEFAULT_SHUFFLE_RULES;
+  }
+};
+
+export const setShuffleRules = (rules: ShuffleRules) => {
+  localStorage.setItem(SHUFFLE_RULES_KEY, JSON.stringify(rules));
+};
+
+const readHistory = (): PlayedTrack[] => {
+  try {
+    const parsed = JSON.parse(localStorage.getItem(PLAY_HISTORY_KEY) || "[]");
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+};
+
+/**
+ * Remember that a track started playing on this device (newest last)
+ */
+export const recordTrackPlay = (track: Pick<Track, "id" | "artist">) => {
+  const history = readHistory();
+  if (history[history.length - 1]?.id === track.id) return;
+
+  history.push({ id: track.id, artist: track.artist, playedAt: Date.now() });
+  try {
+    localStorage.setItem(PLAY_HISTORY_KEY, JSON.stringify(history.slice(-MAX_HISTORY_ENTRIES)));
+  } catch {
+    // Storage full - variety rules just see less history
+  }
+};
+
+const normalizeArtist = (artist: string) => artist.trim().toLowerCase();
+
+/**
+ * Pick one track against what played before it: `recentArtists` newest last, `lastPlayedAt` per track id
+ */
+const pickFrom = (
+  candidates: Track[],
+  recentArtists: string[],
+  lastPlayedAt: Map<string, number>,
+  rules: ShuffleRules,
+  now: number
+): Track | null => {
+  if (candidates.length === 0) return null;
+
+  const blockedArtists = new Set(
+    rules.artistSeparation > 0 ? recentArtists.slice(-rules.artistSeparation) : []
+  );
+  const repeatCutoff = now - rules.repeatWindowHours * 60 * 60 * 1000;
+
+  const artistOk = (t: Track) => !blockedArtists.has(normalizeArtist(t.artist));
+  const repeatOk = (t: Track) => rules.repeatWindowHours === 0 || (lastPlayedAt.get(t.id) ?? 0) < repeatCutoff;
+  const random = (tracks: Track[]) => tracks[Math.floor(Math.random() * tracks.length)];
+
+  // Both rules, then the repeat window alone (licensing matters more than artist spacing), then anything
+  const strict = candidates.filter(t => artistOk(t) && repeatOk(t));
+  if (strict.length > 0) return random(strict);
+
+  const fresh = candidates.filter(repeatOk);
+  if (fresh.length > 0) return random(fresh);
+
+  // Everything played recently: prefer a different artist, then the track heard longest ago
+  const pool = candidates.filter(artistOk).length > 0 ? candidates.filter(artistOk) : candidates;
+  return pool.reduce((oldest, t) => ((lastPlayedAt.get(t.id) ?? 0) < (lastPlayedAt.get(oldest.id) ?? 0) ? t : oldest));
+};
+
+const getHistoryState = () => {
+  const history = readHistory();
+  const lastPlayedAt = new Map<string, number>();
+  for (const entry of history) {
+    lastPlayedAt.set(entry.id, entry.playedAt);
+  }
+  return { recentArtists: history.map(entry => normalizeArtist(entry.artist)), lastPlayedAt };
+};
+
+/**
+ * Next track to play in shuffle mode, following the variety rules (never the current track unless it's the only one)
+ */
+export const pickNextTrack = (tracks: Track[], currentTrackId?: string | null): Track | null => {
+  const candidates = tracks.filter(t => t.id !== currentTrackId);
+  if (candidates.length === 0) return tracks[0] ?? null;
+
+  const { recentArtists, lastPlayedAt } = getHistoryState();
+  return pickFrom(candidates, recentArtists, lastPlayedAt, getShuffleRules(), Date.now());
+};
+
+/**
+ * Shuffled play order (for mixes and shuffled starts) that follows the variety rules throughout
+ */
+export const shuffleTracks = (tracks: Track[]): Track[] => {
+  const { recentArtists, lastPlayedAt } = getHistoryState();
+  const rules = getShuffleRules();
+  const now = Date.now();
+
+  const remaining = [...tracks];
+  const ordered: Track[] = [];
+  while (remaining.length > 0) {
+    const next = pickFrom(remaining, recentArtists, lastPlayedAt, rules, now)!;
+    ordered.push(next);
+    recentArtists.push(normalizeArtist(next.artist));
+    remaining.splice(remaining.indexOf(next), 1);
+  }
+  return ordered;
+};
@@ -0,0 +1,134 @@
+import { supabase } from "@/integrations/supabase/client";
+import { MEASURE_SAMPLE_RATE, computeIntegratedLoudness } from "@/lib/loudness";
+import { estimateAudioFeatures } from "@/lib/audioFeatures";
+
+// Per-track audio analysis done once (on upload or by the admin backfill) and stored on tracks:
+// loudness for normalization, cue points that skip silent intros/outros at crossfades,
+// and tempo/energy/valence for energy-based (dynamic) schedules.
+
+// Below this level (dBFS, 50 ms RMS) audio counts as silence
+const SILENCE_THRESHOLD_DB = -50;
+const CUE_WINDOW_SECONDS = 0.05;
+// Only silence longer than this is trimmed, so quiet but intentional starts/ends aren't cut
+const MIN_TRIM_SECONDS = 0.5;
+
+export interface CuePoints {
+  cueIn: number;
+  cueOut: number;
+}
+
+export interface TrackAnalysis {
+  loudnessLufs: number | null;
+  cueInSeconds: number | null;
+  cueOutSeconds: number | null;
+  bpm: number | null;
+  energy: number | null;
+  valence: number | null;
+}
+
+const EMPTY_ANALYSIS: TrackAnalysis = {
+  loudnessLufs: null,
+  cueInSeconds: null,
+  cueOutSeconds: null,
+  bpm: null,
+  energy: null,
+  valence: null,
+};
+
+/**
+ * Where the audible part of decoded audio starts and ends (seconds), or null for silence
+ */
+export const detectCuePoints = (buffer: AudioBuffer): CuePoints | null => {
+  const windowSize = Math.max(1, Math.round(buffer.sampleRate * CUE_WINDOW_SECONDS));
+  const windowCount = Math.floor(buffer.length / windowSize);
+  const threshold = Math.pow(10, SILENCE_THRESHOLD_DB / 20);
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+
+  const isAudible = (window: number) => {
+    const start = window * windowSize;
+    for (const data of channels) {
+      let sum = 0;
+      for (let i = start; i < start + windowSize; i++) {
+        sum += data[i] * data[i];
+      }
+      if (Math.sqrt(sum / windowSize) > threshold) return true;
+    }
+    return false;
+  };
+
+  let first = 0;
+  while (first < windowCount && !isAudible(first)) first++;
+  if (first === windowCount) return null;
+
+  let last = windowCount - 1;
+  while (last > first && !isAudible(last)) last--;
+
+  const cueIn = (first * windowSize) / buffer.sampleRate;
+  const cueOut = ((last + 1) * windowSize) / buffer.sampleRate;
+  const round = (seconds: number) => Math.round(seconds * 100) / 100;
+
+  return {
+    cueIn: cueIn >= MIN_TRIM_SECONDS ? round(cueIn) : 0,
+    cueOut: buffer.duration - cueOut >= MIN_TRIM_SECONDS ? round(cueOut) : round(buffer.duration),
+  };
+};
+
+/**
+ * Decode an audio file and measure its loudness, cue points and audio features (null fields if they can't be measured)
+ */
+export const analyzeTrackAudio = async (file: Blob): Promise<TrackAnalysis> => {
+  try {
+    // Decoding through an offline context resamples to its rate, which the loudness filters need
+    const context = new OfflineAudioContext(1, 1, MEASURE_SAMPLE_RATE);
+    const buffer = await context.decodeAudioData(await file.arrayBuffer());
+    const cuePoints = detectCuePoints(buffer);
+    const loudnessLufs = computeIntegratedLoudness(buffer);
+    // Silence has no meaningful tempo or mood
+    const features = cuePoints ? estimateAudioFeatures(buffer, loudnessLufs) : null;
+
+    return {
+      loudnessLufs,
+      cueInSeconds: cuePoints?.cueIn ?? null,
+      cueOutSeconds: cuePoints?.cueOut ?? null,
+      bpm: features?.bpm ?? null,
+      energy: features?.energy ?? null,
+      valence: features?.valence ?? null,
+    };
+  } catch (error) {
+    console.warn("[TrackAnalysis] Failed to analyze audio:", error);
+    return EMPTY_ANALYSIS;
+  }
+};
+
+const analysisCache = new Map<string, TrackAnalysis>();
+
+/**
+ * Stored analysis for a track (cached for the session)
+ */
+export const getTrackAnalysis = async (trackId: string): Promise<TrackAnalysis> => {
+  const cached = analysisCache.get(trackId);
+  if (cached) return cached;
+
+  const { data, error } = await supabase
+    .from("tracks")
+    .select("loudness_lufs, cue_in_seconds, cue_out_seconds, bpm, energy, valence")
+    .eq("id", trackId)
+    .maybeSingle();
+
+  const analysis: TrackAnalysis = {
+    loudnessLufs: data?.loudness_lufs ?? null,
+    cueInSeconds: data?.cue_in_seconds ?? null,
+    cueOutSeconds: data?.cue_out_seconds ?? null,
+    bpm: data?.bpm ?? null,
+    energy: data?.energy ?? null,
+    valence: data?.valence ?? null,
+  };
+
+  if (error) {
+    console.warn("[TrackAnalysis] Failed to load track analysis:", error);
+    return analysis;
+  }
+
+  analysisCache.set(trackId, analysis);
+  return analysis;
+};
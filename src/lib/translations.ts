@@ -37,7 +37,12 @@ export const translations: Record<Language, Record<string, string>> = {
     "toast.scheduleUpdated": "Schedule updated",
     "toast.scheduleCreated": "Schedule created",
     "toast.scheduleOverlap": "Time conflict",
-    "toast.scheduleOverlapDesc": "This time overlaps with an existing schedule for \"{playlist}\". Please adjust the time or days.",
+    "toast.scheduleOverlapDesc": "This time overlaps with the schedule for \"{playlist}\", which has the same priority. Give one of them a higher priority, or adjust the time or days.",
+    "toast.invalidDateRange": "The end date must be on or after the start date",
+    "toast.selectDate": "Please select a date",
+    "toast.errorSavingException": "Error saving exception",
+    "toast.exceptionSaved": "Exception saved",
+    "toast.exceptionDeleted": "Exception deleted",
     "toast.scheduleDeleted": "Schedule deleted",
     "toast.errorUpdatingSchedule": "Error updating schedule",
     "toast.errorCreatingSchedule": "Error creating schedule",
@@ -171,6 +176,220 @@ export const translations: Record<Language, Record<string, string>> = {
     "profile.enableCrossfadeDesc": "Smooth transitions between songs",
     "profile.crossfadeEnabled": "Crossfade enabled",
     "profile.crossfadeDisabled": "Crossfade disabled",
+    "profile.normalizeLoudness": "Even Out Volume",
+    "profile.normalizeLoudnessDesc": "Play all songs at a similar loudness",
+    "profile.normalizeLoudnessEnabled": "Volume leveling enabled",
+    "profile.normalizeLoudnessDisabled": "Volume leveling disabled",
+    "crossfade.duration": "Crossfade length",
+    "crossfade.seconds": "{seconds} s",
+    "crossfade.noOverlap": "No overlap",
+    "crossfade.curve": "Fade curve",
+    "crossfade.curve.linear": "Linear",
+    "crossfade.curve.linear.desc": "Volume changes at an even pace",
+    "crossfade.curve.equal_power": "Equal power",
+    "crossfade.curve.equal_power.desc": "Keeps the overall volume steady during the fade",
+    "crossfade.curve.s_curve": "S-curve",
+    "crossfade.curve.s_curve.desc": "Gentle start and end, quicker in the middle",
+    "crossfade.saveFailed": "Could not save crossfade settings",
+    "queue.title": "Queue",
+    "queue.nowPlaying": "Now playing",
+    "queue.upNext": "Up next",
+    "queue.clear": "Clear",
+    "queue.empty": "Your queue is empty. Use \"Play next\" or \"Add to queue\" on a song to line it up.",
+    "queue.playNext": "Play next",
+    "queue.addToQueue": "Add to queue",
+    "queue.playingNext": "\"{title}\" will play next",
+    "queue.added": "\"{title}\" added to queue",
+    "shuffleRules.title": "Shuffle Variety",
+    "shuffleRules.desc": "Keep shuffled music and mixes varied on this device",
+    "shuffleRules.artistSeparation": "Same artist again after",
+    "shuffleRules.repeatWindow": "Don't repeat a song within",
+    "shuffleRules.off": "Off",
+    "shuffleRules.tracks": "{count} songs",
+    "shuffleRules.hours": "{count} h",
+    "blend.blends": "Blends",
+    "blend.yourBlends": "Your blends",
+    "blend.weights": "Blend weights",
+    "blend.weightsDesc": "Set how much of the mix each playlist gets. Save it as a blend to play it again or schedule it.",
+    "blend.name": "Blend name",
+    "blend.namePlaceholder": "e.g. Evening lounge",
+    "blend.save": "Save blend",
+    "blend.update": "Update blend",
+    "blend.saved": "Blend saved",
+    "blend.saveFailed": "The blend could not be saved. Please try again.",
+    "blend.deleted": "Blend deleted",
+    "blend.deleteConfirmTitle": "Delete blend?",
+    "blend.deleteConfirmDesc": "Schedules that play this blend will be deleted too.",
+    "blend.likedSongsNotSaved": "Liked Songs can be mixed but not saved in a blend.",
+    "blend.play": "Play blend",
+    "blend.empty": "This blend has no tracks to play",
+    "energy.dynamic": "Dynamic energy",
+    "energy.dynamicDesc": "Pick tracks from the playlist to follow an energy curve through the day",
+    "energy.badge": "Dynamic",
+    "energy.addPoint": "Add point",
+    "energy.calm": "Calm",
+    "energy.balanced": "Balanced",
+    "energy.upbeat": "Upbeat",
+    "energy.unanalyzedNote": "Tracks that haven't been analyzed yet count as medium energy.",
+    "announcements.title": "Announcements",
+    "announcements.desc": "Play recorded messages at set times or every few tracks",
+    "announcements.upload": "Upload clip",
+    "announcements.uploading": "Uploading...",
+    "announcements.uploaded": "Announcement uploaded",
+    "announcements.uploadFailed": "Failed to upload the announcement",
+    "announcements.notMp3": "Please select an MP3 file",
+    "announcements.tooLarge": "The file exceeds the 50MB limit",
+    "announcements.tooLong": "Announcements can be at most {seconds} seconds long",
+    "announcements.noAnnouncements": "No announcements yet. Upload an MP3 clip to get started.",
+    "announcements.noRules": "No rules yet, so this announcement never plays",
+    "announcements.addRule": "Add rule",
+    "announcements.editRule": "Edit rule",
+    "announcements.saveRule": "Save rule",
+    "announcements.ruleSaved": "Announcement rule saved",
+    "announcements.deleteConfirmTitle": "Delete announcement?",
+    "announcements.deleteConfirmDesc": "The clip and all of its rules will be deleted.",
+    "announcements.trigger": "When to play",
+    "announcements.triggerClock": "At set times",
+    "announcements.triggerTracks": "Every few tracks",
+    "announcements.times": "Times",
+    "announcements.addTime": "Add time",
+    "announcements.errorTimes": "Pick at least one time and one day",
+    "announcements.everyN": "Play after every",
+    "announcements.tracks": "tracks",
+    "announcements.everyNSummary": "Every {count} tracks",
+    "announcements.mode": "How to play",
+    "announcements.modeInsert": "Between tracks",
+    "announcements.modeInsertDesc": "Waits for the current track to end, then the next track starts after the announcement",
+    "announcements.modeDuck": "Over the music",
+    "announcements.modeDuckDesc": "Plays right away while the music is turned down",
+    
+    // Volume schedule
+    "volumeSchedule.title": "Volume levels",
+    "volumeSchedule.desc": "Set the volume by time of day. The player fades to each level when its slot starts.",
+    "volumeSchedule.addSlot": "Add level",
+    "volumeSchedule.editSlot": "Edit level",
+    "volumeSchedule.noSlots": "No volume levels yet",
+    "volumeSchedule.name": "Name",
+    "volumeSchedule.namePlaceholder": "e.g. Quiet mornings",
+    "volumeSchedule.volume": "Volume",
+    "volumeSchedule.saveSlot": "Save level",
+    "volumeSchedule.saved": "Volume level saved",
+    "volumeSchedule.errorTimes": "Pick at least one day and a start and end time",
+    "volumeSchedule.scheduleVolume": "Set volume",
+    "volumeSchedule.scheduleVolumeDesc": "Fade to this volume while the schedule plays, unless a volume level covers the time",
+    "volumeSchedule.resetOverride": "Manual volume until the next slot. Click to return to the scheduled {volume}%",
+    "openingHours.title": "Opening hours",
+    "openingHours.desc": "With the scheduler on, music fades out at closing time and starts again at opening time.",
+    "openingHours.add": "Add opening hours",
+    "openingHours.edit": "Edit opening hours",
+    "openingHours.noHours": "No opening hours set. Music plays until someone stops it.",
+    "openingHours.opens": "Opens",
+    "openingHours.closes": "Closes",
+    "openingHours.account": "All zones",
+    "openingHours.zoneDesc": "A zone with its own opening hours ignores the hours for all zones",
+    "openingHours.saved": "Opening hours saved",
+    "openingHours.errorTimes": "Pick at least one day and different opening and closing times",
+    "openingHours.open": "Open",
+    "openingHours.openUntil": "Open · music stops at {time}",
+    "openingHours.closed": "Closed",
+    "openingHours.closedUntil": "Closed · music starts {day} {time}",
+    "scheduleCalendar.listView": "List",
+    "scheduleCalendar.weekView": "Week",
+    "scheduleCalendar.thisWeek": "This week",
+    "scheduleCalendar.noZone": "Devices without a zone",
+    "scheduleCalendar.nothingScheduled": "Nothing scheduled, the current music keeps playing",
+    "scheduleCalendar.closed": "Closed, no music",
+    "scheduleCalendar.hint": "Click a time to see what plays then. Drag a schedule to move it, or drag its bottom edge to change when it ends. Striped parts are covered by an exception, a dated schedule or a higher priority.",
+    "scheduleTemplates.title": "Schedule Templates",
+    "scheduleTemplates.desc": "Save a set of schedules and apply it to a zone or the whole account",
+    "scheduleTemplates.saveAsTemplate": "Save as Template",
+    "scheduleTemplates.name": "Template name",
+    "scheduleTemplates.namePlaceholder": "e.g. Standard week",
+    "scheduleTemplates.sourceZone": "Copy schedules from",
+    "scheduleTemplates.noTemplates": "No templates yet",
+    "scheduleTemplates.scheduleCount": "{count} schedules",
+    "scheduleTemplates.apply": "Apply",
+    "scheduleTemplates.applyTitle": "Apply \"{name}\"",
+    "scheduleTemplates.applyDesc": "The template replaces the schedules in the zone you pick. Review the changes before applying.",
+    "scheduleTemplates.targetZone": "Apply to",
+    "scheduleTemplates.removed": "Will be removed",
+    "scheduleTemplates.added": "Will be added",
+    "scheduleTemplates.kept": "Stays the same",
+    "scheduleTemplates.unavailable": "Skipped (playlist not available)",
+    "scheduleTemplates.noChanges": "Nothing changes, these schedules already match the template",
+    "scheduleTemplates.confirmApply": "Replace Schedules",
+    "scheduleTemplates.applied": "Template applied",
+    "scheduleTemplates.saved": "Template saved",
+    "scheduleTemplates.errorName": "Please enter a name for the template",
+    "scheduleTemplates.errorEmpty": "There are no schedules to save in this zone",
+    "scheduleTemplates.sentToYou": "New schedule template: {name}",
+    "scheduleTemplates.review": "Review",
+    "scheduleTemplates.dismiss": "Dismiss",
+    
+    // Billing profile
+    "billingProfile.title": "Billing Details",
+    "billingProfile.subtitle": "Company details for your invoices and receipts. Changes apply from your next payment or invoice.",
+    "billingProfile.selectCountry": "Select country",
+    "billingProfile.invoiceEmail": "Invoice email (optional)",
+    "billingProfile.invoiceEmailPlaceholder": "invoices@company.com",
+    "billingProfile.invoiceEmailHint": "Invoices are also sent here, e.g. to your accounting department",
+    "billingProfile.vatValid": "Verified with VIES",
+    "billingProfile.vatUnverified": "VIES could not be reached. We'll check your VAT ID again before your next invoice.",
+    "billingProfile.vatInvalid": "Not valid according to VIES, so VAT is charged",
+    "billingProfile.reverseCharge": "Reverse charge applies: your invoices are issued without VAT.",
+    "billingProfile.save": "Save Billing Details",
+    "billingProfile.saved": "Billing details saved",
+    
+    // Organizations
+    "organization.title": "Organization",
+    "organization.subtitle": "Share this account with your team. Everyone signs in with their own email and gets the access their role allows.",
+    "organization.switch": "Current organization",
+    "organization.name": "Organization name",
+    "organization.saved": "Organization updated",
+    "organization.members": "Members",
+    "organization.you": "you",
+    "organization.leave": "Leave organization",
+    "organization.left": "You left the organization",
+    "organization.memberRemoved": "Member removed",
+    "organization.invite": "Invite a team member",
+    "organization.inviteDesc": "They'll get an email and join when they sign in with that address.",
+    "organization.emailPlaceholder": "colleague@example.com",
+    "organization.sendInvite": "Invite",
+    "organization.inviteSent": "Invitation sent",
+    "organization.inviteFailed": "Could not send invitation",
+    "organization.pending": "Pending invitations",
+    "organization.revoke": "Revoke",
+    "organization.role.owner": "Owner",
+    "organization.role.billing": "Billing",
+    "organization.role.manager": "Manager",
+    "organization.role.player": "Player only",
+    "organization.roleDesc.owner": "Full access, including members and billing.",
+    "organization.roleDesc.billing": "Manages the subscription, invoices and billing details.",
+    "organization.roleDesc.manager": "Manages schedules, zones and devices.",
+    "organization.roleDesc.player": "Plays music and follows the schedules.",
+    
+    // Device pairing
+    "pair.title": "Pair this device",
+    "pair.subtitle": "Enter the code shown in Profile → Paired devices on the account owner's phone or computer.",
+    "pair.code": "Pairing code",
+    "pair.submit": "Pair device",
+    "pair.success": "Device paired",
+    "pair.failed": "Could not pair this device",
+    "pair.signInInstead": "Sign in with email instead",
+    "pair.link": "Setting up a shop-floor device? Pair it with a code",
+    "pairedDevices.title": "Paired Devices",
+    "pairedDevices.subtitle": "Add tablets and players without sharing your password. Paired devices can only play music and follow your schedules, and each uses a device slot.",
+    "pairedDevices.none": "No paired devices yet",
+    "pairedDevices.pairedOn": "Paired {date}",
+    "pairedDevices.revoke": "Revoke",
+    "pairedDevices.revoked": "Device revoked",
+    "pairedDevices.name": "Device name",
+    "pairedDevices.namePlaceholder": "e.g. Bar tablet",
+    "pairedDevices.createCode": "Create code",
+    "pairedDevices.enterCode": "On \"{name}\", open {url} and enter:",
+    "pairedDevices.expiresIn": "Expires in {time}",
+    "pairedDevices.confirmRevokeTitle": "Revoke this device?",
+    "pairedDevices.confirmRevokeDesc": "\"{name}\" will be signed out and stop playing. You can pair it again with a new code.",
     "profile.viewTerms": "View Terms & Conditions",
     "profile.viewPrivacy": "View Privacy Policy",
     "profile.changePassword": "Change Password",
@@ -273,6 +492,59 @@ export const translations: Record<Language, Record<string, string>> = {
     "devices.validUntil": "Valid until subscription renewal",
     "devices.thenRegular": "Then",
     "devices.invoiceNote": "An invoice will be sent for payment",
+    "zones.title": "Zones",
+    "zones.subtitle": "Group your devices into zones (e.g. bar, terrace) so each zone can follow its own schedule",
+    "zones.add": "Add zone",
+    "zones.edit": "Edit zone",
+    "zones.name": "Zone name",
+    "zones.namePlaceholder": "e.g. Terrace",
+    "zones.timezoneDesc": "New schedules for this zone use this timezone",
+    "zones.noZones": "No zones yet. All devices follow your account-wide schedules.",
+    "zones.devices": "Active devices",
+    "zones.noDevices": "No active devices",
+    "zones.thisDevice": "This device",
+    "zones.noZone": "No zone",
+    "zones.saved": "Zone saved",
+    "zones.deleted": "Zone deleted",
+    "zones.deviceAssigned": "Device zone updated",
+    "zones.errorSaving": "Could not save zone",
+    "zones.confirmDeleteTitle": "Delete zone?",
+    "zones.confirmDeleteDesc": "Schedules and exceptions for \"{zone}\" will be deleted and its devices will follow your account-wide schedules.",
+    "remote.title": "Remote control",
+    "remote.subtitle": "See what each device is playing and control it from here",
+    "remote.unreachable": "Not responding – the app may be closed on this device",
+    "remote.nothingPlaying": "Nothing playing",
+    "remote.playing": "Playing",
+    "remote.paused": "Paused",
+    "remote.choosePlaylist": "Change playlist",
+    "remote.commandFailed": "Could not send command",
+    "remote.silentFor": "Silent for {duration}",
+    "remote.minutes": "{count} min",
+    "remote.hours": "{count} h",
+    "remote.lastReported": "last reported {track} at {time}",
+    "silenceAlerts.title": "Silence Alerts",
+    "silenceAlerts.subtitle": "Get an email when a device stops playing while your schedule says music should be on",
+    "silenceAlerts.enable": "Email me when music stops",
+    "silenceAlerts.enableDesc": "Sent to your account email after a device has been silent for 15 minutes during a scheduled time. Requires scheduling to be enabled.",
+    "silenceAlerts.quietHours": "Quiet hours",
+    "silenceAlerts.quietHoursDesc": "No alerts are sent during these hours. Leave empty to receive alerts at any time.",
+    "silenceAlerts.quietFrom": "From",
+    "silenceAlerts.quietUntil": "Until",
+    "silenceAlerts.quietHoursIncomplete": "Set both a start and an end time, or leave both empty",
+    "silenceAlerts.saved": "Silence alert settings saved",
+    "offlineMode.enable": "Offline mode",
+    "offlineMode.enableDesc": "Download the current and upcoming scheduled playlists so music keeps playing if the internet drops",
+    "offlineMode.enabled": "Offline mode enabled",
+    "offlineMode.disabled": "Offline mode disabled",
+    "offlineMode.storageLimit": "Storage limit",
+    "offlineMode.usage": "{count} tracks downloaded · {used} of {quota}",
+    "offlineMode.downloading": "Downloading {done}/{total} tracks...",
+    "offlineMode.upToDate": "Up to date (checked {time})",
+    "offlineMode.waiting": "Waiting to download",
+    "offlineMode.quotaReached": "Storage limit reached - not all scheduled music is available offline",
+    "offlineMode.syncFailed": "Download failed",
+    "offlineMode.clear": "Clear downloads",
+    "offlineMode.cleared": "Downloaded music removed",
     
     // Payment History (formerly Invoices)
     "invoices.title": "Payment History",
@@ -694,6 +966,32 @@ export const translations: Record<Language, Record<string, string>> = {
     "schedule.dayThu": "Thu",
     "schedule.dayFri": "Fri",
     "schedule.daySat": "Sat",
+    "schedule.tip4": "Schedules with a date range win over weekly schedules, and exceptions win over both",
+    "schedule.dateRange": "Date Range (optional)",
+    "schedule.validFrom": "Valid from",
+    "schedule.validUntil": "Valid until",
+    "schedule.dateRangeDesc": "Limit this schedule to certain dates, e.g. Christmas music from Dec 1 to Dec 26",
+    "schedule.fromDate": "From {date}",
+    "schedule.untilDate": "Until {date}",
+    "schedule.skipDates": "Skip Dates (optional)",
+    "schedule.skippedDatesCount": "{count} skipped",
+    "schedule.exceptions": "Exceptions",
+    "schedule.exceptionsDesc": "Closed days and one-off changes for a specific date",
+    "schedule.addException": "Add Exception",
+    "schedule.editException": "Edit Exception",
+    "schedule.noExceptions": "No upcoming exceptions",
+    "schedule.exceptionDate": "Date",
+    "schedule.exceptionNamePlaceholder": "e.g., Public holiday",
+    "schedule.exceptionClosed": "Closed",
+    "schedule.exceptionClosedDesc": "No music plays during this exception",
+    "schedule.exceptionOverride": "Override",
+    "schedule.allDay": "All day",
+    "schedule.timezone": "Timezone",
+    "schedule.timezoneDesc": "Start and end times follow this timezone, including daylight saving changes",
+    "schedule.deviceTime": "Device time",
+    "schedule.zone": "Zone",
+    "schedule.allZones": "All zones",
+    "schedule.zoneDesc": "Only devices in this zone follow it. Zone schedules win over all-zone ones.",
     
     // Quick Mix
     "quickMix.title": "Shuffle Playlists",
@@ -852,7 +1150,12 @@ export const translations: Record<Language, Record<string, string>> = {
     "toast.scheduleUpdated": "Schema uppdaterat",
     "toast.scheduleCreated": "Schema skapat",
     "toast.scheduleOverlap": "Tidskonflikt",
-    "toast.scheduleOverlapDesc": "Denna tid överlappar med ett befintligt schema för \"{playlist}\". Justera tid eller dagar.",
+    "toast.scheduleOverlapDesc": "Denna tid överlappar med schemat för \"{playlist}\", som har samma prioritet. Ge ett av dem högre prioritet eller justera tid eller dagar.",
+    "toast.invalidDateRange": "Slutdatumet måste vara samma som eller efter startdatumet",
+    "toast.selectDate": "Välj ett datum",
+    "toast.errorSavingException": "Fel vid sparande av undantag",
+    "toast.exceptionSaved": "Undantag sparat",
+    "toast.exceptionDeleted": "Undantag borttaget",
     "toast.scheduleDeleted": "Schema borttaget",
     "toast.errorUpdatingSchedule": "Fel vid uppdatering av schema",
     "toast.errorCreatingSchedule": "Fel vid skapande av schema",
@@ -985,6 +1288,220 @@ export const translations: Record<Language, Record<string, string>> = {
     "profile.enableCrossfadeDesc": "Mjuka övergångar mellan låtar",
     "profile.crossfadeEnabled": "Övergång aktiverad",
     "profile.crossfadeDisabled": "Övergång inaktiverad",
+    "profile.normalizeLoudness": "Jämna ut volymen",
+    "profile.normalizeLoudnessDesc": "Spela alla låtar med liknande ljudstyrka",
+    "profile.normalizeLoudnessEnabled": "Volymutjämning aktiverad",
+    "profile.normalizeLoudnessDisabled": "Volymutjämning inaktiverad",
+    "crossfade.duration": "Övergångens längd",
+    "crossfade.seconds": "{seconds} s",
+    "crossfade.noOverlap": "Ingen överlappning",
+    "crossfade.curve": "Övergångskurva",
+    "crossfade.curve.linear": "Linjär",
+    "crossfade.curve.linear.desc": "Volymen ändras i jämn takt",
+    "crossfade.curve.equal_power": "Jämn effekt",
+    "crossfade.curve.equal_power.desc": "Håller den totala volymen jämn under övergången",
+    "crossfade.curve.s_curve": "S-kurva",
+    "crossfade.curve.s_curve.desc": "Mjuk start och slut, snabbare i mitten",
+    "crossfade.saveFailed": "Kunde inte spara övergångsinställningarna",
+    "queue.title": "Kö",
+    "queue.nowPlaying": "Spelas nu",
+    "queue.upNext": "Näst på tur",
+    "queue.clear": "Rensa",
+    "queue.empty": "Din kö är tom. Använd \"Spela härnäst\" eller \"Lägg till i kön\" på en låt för att köa den.",
+    "queue.playNext": "Spela härnäst",
+    "queue.addToQueue": "Lägg till i kön",
+    "queue.playingNext": "\"{title}\" spelas härnäst",
+    "queue.added": "\"{title}\" har lagts till i kön",
+    "shuffleRules.title": "Variation vid blandning",
+    "shuffleRules.desc": "Håll blandad musik och mixar varierade på den här enheten",
+    "shuffleRules.artistSeparation": "Samma artist igen efter",
+    "shuffleRules.repeatWindow": "Upprepa inte en låt inom",
+    "shuffleRules.off": "Av",
+    "shuffleRules.tracks": "{count} låtar",
+    "shuffleRules.hours": "{count} h",
+    "blend.blends": "Blandningar",
+    "blend.yourBlends": "Dina blandningar",
+    "blend.weights": "Viktning",
+    "blend.weightsDesc": "Ställ in hur stor del av mixen varje spellista får. Spara den som en blandning för att spela den igen eller schemalägga den.",
+    "blend.name": "Namn på blandningen",
+    "blend.namePlaceholder": "t.ex. Kvällslounge",
+    "blend.save": "Spara blandning",
+    "blend.update": "Uppdatera blandning",
+    "blend.saved": "Blandningen sparades",
+    "blend.saveFailed": "Blandningen kunde inte sparas. Försök igen.",
+    "blend.deleted": "Blandningen togs bort",
+    "blend.deleteConfirmTitle": "Ta bort blandningen?",
+    "blend.deleteConfirmDesc": "Scheman som spelar den här blandningen tas också bort.",
+    "blend.likedSongsNotSaved": "Gillade låtar kan mixas men inte sparas i en blandning.",
+    "blend.play": "Spela blandningen",
+    "blend.empty": "Blandningen har inga låtar att spela",
+    "energy.dynamic": "Dynamisk energi",
+    "energy.dynamicDesc": "Välj låtar från spellistan så att de följer en energikurva under dagen",
+    "energy.badge": "Dynamisk",
+    "energy.addPoint": "Lägg till punkt",
+    "energy.calm": "Lugn",
+    "energy.balanced": "Balanserad",
+    "energy.upbeat": "Energisk",
+    "energy.unanalyzedNote": "Låtar som inte har analyserats än räknas som medelenergi.",
+    "announcements.title": "Utrop",
+    "announcements.desc": "Spela inspelade meddelanden vid bestämda tider eller med några låtars mellanrum",
+    "announcements.upload": "Ladda upp klipp",
+    "announcements.uploading": "Laddar upp...",
+    "announcements.uploaded": "Utropet har laddats upp",
+    "announcements.uploadFailed": "Det gick inte att ladda upp utropet",
+    "announcements.notMp3": "Välj en MP3-fil",
+    "announcements.tooLarge": "Filen överskrider gränsen på 50 MB",
+    "announcements.tooLong": "Utrop får vara högst {seconds} sekunder långa",
+    "announcements.noAnnouncements": "Inga utrop ännu. Ladda upp ett MP3-klipp för att komma igång.",
+    "announcements.noRules": "Inga regler ännu, så utropet spelas aldrig",
+    "announcements.addRule": "Lägg till regel",
+    "announcements.editRule": "Redigera regel",
+    "announcements.saveRule": "Spara regel",
+    "announcements.ruleSaved": "Regeln har sparats",
+    "announcements.deleteConfirmTitle": "Ta bort utropet?",
+    "announcements.deleteConfirmDesc": "Klippet och alla dess regler tas bort.",
+    "announcements.trigger": "När det ska spelas",
+    "announcements.triggerClock": "Vid bestämda tider",
+    "announcements.triggerTracks": "Med några låtars mellanrum",
+    "announcements.times": "Tider",
+    "announcements.addTime": "Lägg till tid",
+    "announcements.errorTimes": "Välj minst en tid och en dag",
+    "announcements.everyN": "Spela efter var",
+    "announcements.tracks": "låt",
+    "announcements.everyNSummary": "Var {count}:e låt",
+    "announcements.mode": "Hur det ska spelas",
+    "announcements.modeInsert": "Mellan låtar",
+    "announcements.modeInsertDesc": "Väntar tills den aktuella låten är slut, och nästa låt börjar efter utropet",
+    "announcements.modeDuck": "Över musiken",
+    "announcements.modeDuckDesc": "Spelas direkt medan musiken sänks",
+    
+    // Volume schedule
+    "volumeSchedule.title": "Volymnivåer",
+    "volumeSchedule.desc": "Ställ in volymen efter tid på dygnet. Spelaren tonar till varje nivå när dess period börjar.",
+    "volumeSchedule.addSlot": "Lägg till nivå",
+    "volumeSchedule.editSlot": "Redigera nivå",
+    "volumeSchedule.noSlots": "Inga volymnivåer ännu",
+    "volumeSchedule.name": "Namn",
+    "volumeSchedule.namePlaceholder": "t.ex. Lugna morgnar",
+    "volumeSchedule.volume": "Volym",
+    "volumeSchedule.saveSlot": "Spara nivå",
+    "volumeSchedule.saved": "Volymnivå sparad",
+    "volumeSchedule.errorTimes": "Välj minst en dag samt start- och sluttid",
+    "volumeSchedule.scheduleVolume": "Ställ in volym",
+    "volumeSchedule.scheduleVolumeDesc": "Tona till den här volymen medan schemat spelas, om ingen volymnivå täcker tiden",
+    "volumeSchedule.resetOverride": "Manuell volym till nästa period. Klicka för att återgå till schemalagda {volume}%",
+    "openingHours.title": "Öppettider",
+    "openingHours.desc": "När schemaläggaren är på tonas musiken ut vid stängning och startar igen vid öppning.",
+    "openingHours.add": "Lägg till öppettider",
+    "openingHours.edit": "Redigera öppettider",
+    "openingHours.noHours": "Inga öppettider angivna. Musiken spelar tills någon stoppar den.",
+    "openingHours.opens": "Öppnar",
+    "openingHours.closes": "Stänger",
+    "openingHours.account": "Alla zoner",
+    "openingHours.zoneDesc": "En zon med egna öppettider bortser från öppettiderna för alla zoner",
+    "openingHours.saved": "Öppettider sparade",
+    "openingHours.errorTimes": "Välj minst en dag och olika öppnings- och stängningstider",
+    "openingHours.open": "Öppet",
+    "openingHours.openUntil": "Öppet · musiken stoppar {time}",
+    "openingHours.closed": "Stängt",
+    "openingHours.closedUntil": "Stängt · musiken startar {day} {time}",
+    "scheduleCalendar.listView": "Lista",
+    "scheduleCalendar.weekView": "Vecka",
+    "scheduleCalendar.thisWeek": "Denna vecka",
+    "scheduleCalendar.noZone": "Enheter utan zon",
+    "scheduleCalendar.nothingScheduled": "Inget schemalagt, nuvarande musik fortsätter",
+    "scheduleCalendar.closed": "Stängt, ingen musik",
+    "scheduleCalendar.hint": "Klicka på en tid för att se vad som spelas då. Dra ett schema för att flytta det, eller dra i nederkanten för att ändra när det slutar. Randiga delar täcks av ett undantag, ett daterat schema eller högre prioritet.",
+    "scheduleTemplates.title": "Schemamallar",
+    "scheduleTemplates.desc": "Spara en uppsättning scheman och använd den för en zon eller hela kontot",
+    "scheduleTemplates.saveAsTemplate": "Spara som mall",
+    "scheduleTemplates.name": "Mallens namn",
+    "scheduleTemplates.namePlaceholder": "t.ex. Standardvecka",
+    "scheduleTemplates.sourceZone": "Kopiera scheman från",
+    "scheduleTemplates.noTemplates": "Inga mallar ännu",
+    "scheduleTemplates.scheduleCount": "{count} scheman",
+    "scheduleTemplates.apply": "Använd",
+    "scheduleTemplates.applyTitle": "Använd \"{name}\"",
+    "scheduleTemplates.applyDesc": "Mallen ersätter schemana i zonen du väljer. Granska ändringarna innan du använder den.",
+    "scheduleTemplates.targetZone": "Använd för",
+    "scheduleTemplates.removed": "Tas bort",
+    "scheduleTemplates.added": "Läggs till",
+    "scheduleTemplates.kept": "Oförändrade",
+    "scheduleTemplates.unavailable": "Hoppas över (spellistan är inte tillgänglig)",
+    "scheduleTemplates.noChanges": "Inget ändras, schemana matchar redan mallen",
+    "scheduleTemplates.confirmApply": "Ersätt scheman",
+    "scheduleTemplates.applied": "Mallen har använts",
+    "scheduleTemplates.saved": "Mallen har sparats",
+    "scheduleTemplates.errorName": "Ange ett namn för mallen",
+    "scheduleTemplates.errorEmpty": "Det finns inga scheman att spara i den här zonen",
+    "scheduleTemplates.sentToYou": "Ny schemamall: {name}",
+    "scheduleTemplates.review": "Granska",
+    "scheduleTemplates.dismiss": "Avvisa",
+    
+    // Billing profile
+    "billingProfile.title": "Faktureringsuppgifter",
+    "billingProfile.subtitle": "Företagsuppgifter för dina fakturor och kvitton. Ändringar gäller från nästa betalning eller faktura.",
+    "billingProfile.selectCountry": "Välj land",
+    "billingProfile.invoiceEmail": "Faktura-e-post (valfritt)",
+    "billingProfile.invoiceEmailPlaceholder": "faktura@foretag.se",
+    "billingProfile.invoiceEmailHint": "Fakturor skickas även hit, t.ex. till er ekonomiavdelning",
+    "billingProfile.vatValid": "Verifierat med VIES",
+    "billingProfile.vatUnverified": "VIES kunde inte nås. Vi kontrollerar ditt moms-ID igen före nästa faktura.",
+    "billingProfile.vatInvalid": "Inte giltigt enligt VIES, så moms debiteras",
+    "billingProfile.reverseCharge": "Omvänd skattskyldighet gäller: dina fakturor utfärdas utan moms.",
+    "billingProfile.save": "Spara faktureringsuppgifter",
+    "billingProfile.saved": "Faktureringsuppgifter sparade",
+    
+    // Organizations
+    "organization.title": "Organisation",
+    "organization.subtitle": "Dela kontot med ditt team. Alla loggar in med sin egen e-post och får den åtkomst som deras roll tillåter.",
+    "organization.switch": "Aktuell organisation",
+    "organization.name": "Organisationens namn",
+    "organization.saved": "Organisationen uppdaterad",
+    "organization.members": "Medlemmar",
+    "organization.you": "du",
+    "organization.leave": "Lämna organisationen",
+    "organization.left": "Du har lämnat organisationen",
+    "organization.memberRemoved": "Medlem borttagen",
+    "organization.invite": "Bjud in en teammedlem",
+    "organization.inviteDesc": "De får ett e-postmeddelande och ansluts när de loggar in med den adressen.",
+    "organization.emailPlaceholder": "kollega@exempel.se",
+    "organization.sendInvite": "Bjud in",
+    "organization.inviteSent": "Inbjudan skickad",
+    "organization.inviteFailed": "Kunde inte skicka inbjudan",
+    "organization.pending": "Väntande inbjudningar",
+    "organization.revoke": "Återkalla",
+    "organization.role.owner": "Ägare",
+    "organization.role.billing": "Fakturering",
+    "organization.role.manager": "Ansvarig",
+    "organization.role.player": "Endast uppspelning",
+    "organization.roleDesc.owner": "Full åtkomst, inklusive medlemmar och fakturering.",
+    "organization.roleDesc.billing": "Hanterar abonnemang, fakturor och faktureringsuppgifter.",
+    "organization.roleDesc.manager": "Hanterar scheman, zoner och enheter.",
+    "organization.roleDesc.player": "Spelar musik och följer schemana.",
+    
+    // Device pairing
+    "pair.title": "Para ihop den här enheten",
+    "pair.subtitle": "Ange koden som visas under Profil → Parade enheter på kontoägarens telefon eller dator.",
+    "pair.code": "Parkod",
+    "pair.submit": "Para ihop enhet",
+    "pair.success": "Enheten är ihopparad",
+    "pair.failed": "Kunde inte para ihop enheten",
+    "pair.signInInstead": "Logga in med e-post i stället",
+    "pair.link": "Ska du installera en enhet i butiken? Para ihop den med en kod",
+    "pairedDevices.title": "Parade enheter",
+    "pairedDevices.subtitle": "Lägg till surfplattor och spelare utan att dela ditt lösenord. Parade enheter kan bara spela musik och följa dina scheman, och var och en använder en enhetsplats.",
+    "pairedDevices.none": "Inga parade enheter än",
+    "pairedDevices.pairedOn": "Parad {date}",
+    "pairedDevices.revoke": "Återkalla",
+    "pairedDevices.revoked": "Enheten har återkallats",
+    "pairedDevices.name": "Enhetens namn",
+    "pairedDevices.namePlaceholder": "t.ex. Surfplatta i baren",
+    "pairedDevices.createCode": "Skapa kod",
+    "pairedDevices.enterCode": "Öppna {url} på \"{name}\" och ange:",
+    "pairedDevices.expiresIn": "Går ut om {time}",
+    "pairedDevices.confirmRevokeTitle": "Återkalla enheten?",
+    "pairedDevices.confirmRevokeDesc": "\"{name}\" loggas ut och slutar spela. Du kan para ihop den igen med en ny kod.",
     "profile.viewTerms": "Visa villkor",
     "profile.viewPrivacy": "Visa integritetspolicy",
     "profile.changePassword": "Byt lösenord",
@@ -1083,6 +1600,59 @@ export const translations: Record<Language, Record<string, string>> = {
     "devices.validUntil": "Giltigt tills prenumerationen förnyas",
     "devices.thenRegular": "Sedan",
     "devices.invoiceNote": "En faktura skickas för betalning",
+    "zones.title": "Zoner",
+    "zones.subtitle": "Gruppera dina enheter i zoner (t.ex. bar, terrass) så att varje zon kan följa sitt eget schema",
+    "zones.add": "Lägg till zon",
+    "zones.edit": "Redigera zon",
+    "zones.name": "Zonens namn",
+    "zones.namePlaceholder": "t.ex. Terrass",
+    "zones.timezoneDesc": "Nya scheman för denna zon använder denna tidszon",
+    "zones.noZones": "Inga zoner ännu. Alla enheter följer kontots gemensamma scheman.",
+    "zones.devices": "Aktiva enheter",
+    "zones.noDevices": "Inga aktiva enheter",
+    "zones.thisDevice": "Denna enhet",
+    "zones.noZone": "Ingen zon",
+    "zones.saved": "Zon sparad",
+    "zones.deleted": "Zon borttagen",
+    "zones.deviceAssigned": "Enhetens zon uppdaterad",
+    "zones.errorSaving": "Kunde inte spara zonen",
+    "zones.confirmDeleteTitle": "Ta bort zon?",
+    "zones.confirmDeleteDesc": "Scheman och undantag för \"{zone}\" tas bort och dess enheter följer kontots gemensamma scheman.",
+    "remote.title": "Fjärrstyrning",
+    "remote.subtitle": "Se vad varje enhet spelar och styr den härifrån",
+    "remote.unreachable": "Svarar inte – appen kan vara stängd på denna enhet",
+    "remote.nothingPlaying": "Inget spelas",
+    "remote.playing": "Spelar",
+    "remote.paused": "Pausad",
+    "remote.choosePlaylist": "Byt spellista",
+    "remote.commandFailed": "Kunde inte skicka kommandot",
+    "remote.silentFor": "Tyst i {duration}",
+    "remote.minutes": "{count} min",
+    "remote.hours": "{count} h",
+    "remote.lastReported": "senast rapporterat {track} kl. {time}",
+    "silenceAlerts.title": "Tystnadsvarningar",
+    "silenceAlerts.subtitle": "Få ett e-postmeddelande när en enhet slutar spela medan ditt schema säger att musik ska vara på",
+    "silenceAlerts.enable": "Mejla mig när musiken stannar",
+    "silenceAlerts.enableDesc": "Skickas till kontots e-post när en enhet har varit tyst i 15 minuter under schemalagd tid. Kräver att schemaläggning är aktiverad.",
+    "silenceAlerts.quietHours": "Tysta timmar",
+    "silenceAlerts.quietHoursDesc": "Inga varningar skickas under dessa timmar. Lämna tomt för att få varningar när som helst.",
+    "silenceAlerts.quietFrom": "Från",
+    "silenceAlerts.quietUntil": "Till",
+    "silenceAlerts.quietHoursIncomplete": "Ange både start- och sluttid, eller lämna båda tomma",
+    "silenceAlerts.saved": "Inställningar för tystnadsvarningar sparade",
+    "offlineMode.enable": "Offlineläge",
+    "offlineMode.enableDesc": "Ladda ner nuvarande och kommande schemalagda spellistor så att musiken fortsätter om internet försvinner",
+    "offlineMode.enabled": "Offlineläge aktiverat",
+    "offlineMode.disabled": "Offlineläge inaktiverat",
+    "offlineMode.storageLimit": "Lagringsgräns",
+    "offlineMode.usage": "{count} låtar nedladdade · {used} av {quota}",
+    "offlineMode.downloading": "Laddar ner {done}/{total} låtar...",
+    "offlineMode.upToDate": "Uppdaterad (kontrollerad {time})",
+    "offlineMode.waiting": "Väntar på nedladdning",
+    "offlineMode.quotaReached": "Lagringsgränsen nådd - all schemalagd musik finns inte offline",
+    "offlineMode.syncFailed": "Nedladdningen misslyckades",
+    "offlineMode.clear": "Rensa nedladdningar",
+    "offlineMode.cleared": "Nedladdad musik borttagen",
     
     // Payment History
     "invoices.title": "Betalningshistorik",
@@ -1504,6 +2074,32 @@ export const translations: Record<Language, Record<string, string>> = {
     "schedule.dayThu": "Tor",
     "schedule.dayFri": "Fre",
     "schedule.daySat": "Lör",
+    "schedule.tip4": "Scheman med datumintervall går före veckoscheman, och undantag går före båda",
+    "schedule.dateRange": "Datumintervall (valfritt)",
+    "schedule.validFrom": "Giltigt från",
+    "schedule.validUntil": "Giltigt till",
+    "schedule.dateRangeDesc": "Begränsa schemat till vissa datum, t.ex. julmusik 1–26 december",
+    "schedule.fromDate": "Från {date}",
+    "schedule.untilDate": "Till {date}",
+    "schedule.skipDates": "Hoppa över datum (valfritt)",
+    "schedule.skippedDatesCount": "{count} överhoppade",
+    "schedule.exceptions": "Undantag",
+    "schedule.exceptionsDesc": "Stängda dagar och engångsändringar för ett visst datum",
+    "schedule.addException": "Lägg till undantag",
+    "schedule.editException": "Redigera undantag",
+    "schedule.noExceptions": "Inga kommande undantag",
+    "schedule.exceptionDate": "Datum",
+    "schedule.exceptionNamePlaceholder": "t.ex. Helgdag",
+    "schedule.exceptionClosed": "Stängt",
+    "schedule.exceptionClosedDesc": "Ingen musik spelas under detta undantag",
+    "schedule.exceptionOverride": "Ersättning",
+    "schedule.allDay": "Hela dagen",
+    "schedule.timezone": "Tidszon",
+    "schedule.timezoneDesc": "Start- och sluttider följer denna tidszon, inklusive sommartid",
+    "schedule.deviceTime": "Enhetens tid",
+    "schedule.zone": "Zon",
+    "schedule.allZones": "Alla zoner",
+    "schedule.zoneDesc": "Endast enheter i denna zon följer den. Zonscheman går före scheman för alla zoner.",
     
     // Quick Mix
     "quickMix.title": "Blanda spellistor",
@@ -1662,7 +2258,12 @@ export const translations: Record<Language, Record<string, string>> = {
     "toast.scheduleUpdated": "Aikataulu päivitetty",
     "toast.scheduleCreated": "Aikataulu luotu",
     "toast.scheduleOverlap": "Aikaristiriita",
-    "toast.scheduleOverlapDesc": "Tämä aika menee päällekkäin aikataulun \"{playlist}\" kanssa. Säädä aikaa tai päiviä.",
+    "toast.scheduleOverlapDesc": "Tämä aika menee päällekkäin saman prioriteetin aikataulun \"{playlist}\" kanssa. Anna toiselle korkeampi prioriteetti tai säädä aikaa tai päiviä.",
+    "toast.invalidDateRange": "Päättymispäivän on oltava sama tai myöhempi kuin alkamispäivä",
+    "toast.selectDate": "Valitse päivämäärä",
+    "toast.errorSavingException": "Virhe poikkeuksen tallennuksessa",
+    "toast.exceptionSaved": "Poikkeus tallennettu",
+    "toast.exceptionDeleted": "Poikkeus poistettu",
     "toast.scheduleDeleted": "Aikataulu poistettu",
     "toast.errorUpdatingSchedule": "Virhe aikataulun päivityksessä",
     "toast.errorCreatingSchedule": "Virhe aikataulun luomisessa",
@@ -1795,6 +2396,220 @@ export const translations: Record<Language, Record<string, string>> = {
     "profile.enableCrossfadeDesc": "Pehmeät siirtymät kappaleiden välillä",
     "profile.crossfadeEnabled": "Ristihäivytys käytössä",
     "profile.crossfadeDisabled": "Ristihäivytys pois käytöstä",
+    "profile.normalizeLoudness": "Tasaa äänenvoimakkuus",
+    "profile.normalizeLoudnessDesc": "Toista kaikki kappaleet samankaltaisella äänenvoimakkuudella",
+    "profile.normalizeLoudnessEnabled": "Äänenvoimakkuuden tasaus käytössä",
+    "profile.normalizeLoudnessDisabled": "Äänenvoimakkuuden tasaus pois käytöstä",
+    "crossfade.duration": "Ristihäivytyksen pituus",
+    "crossfade.seconds": "{seconds} s",
+    "crossfade.noOverlap": "Ei päällekkäisyyttä",
+    "crossfade.curve": "Häivytyskäyrä",
+    "crossfade.curve.linear": "Lineaarinen",
+    "crossfade.curve.linear.desc": "Äänenvoimakkuus muuttuu tasaisesti",
+    "crossfade.curve.equal_power": "Tasainen teho",
+    "crossfade.curve.equal_power.desc": "Pitää kokonaisäänenvoimakkuuden tasaisena häivytyksen aikana",
+    "crossfade.curve.s_curve": "S-käyrä",
+    "crossfade.curve.s_curve.desc": "Pehmeä alku ja loppu, nopeampi keskeltä",
+    "crossfade.saveFailed": "Ristihäivytyksen asetuksia ei voitu tallentaa",
+    "queue.title": "Jono",
+    "queue.nowPlaying": "Nyt soi",
+    "queue.upNext": "Seuraavaksi",
+    "queue.clear": "Tyhjennä",
+    "queue.empty": "Jonosi on tyhjä. Valitse kappaleelta \"Soita seuraavaksi\" tai \"Lisää jonoon\".",
+    "queue.playNext": "Soita seuraavaksi",
+    "queue.addToQueue": "Lisää jonoon",
+    "queue.playingNext": "\"{title}\" soi seuraavaksi",
+    "queue.added": "\"{title}\" lisätty jonoon",
+    "shuffleRules.title": "Sekoituksen vaihtelu",
+    "shuffleRules.desc": "Pidä sekoitettu musiikki ja miksaukset vaihtelevina tällä laitteella",
+    "shuffleRules.artistSeparation": "Sama artisti uudelleen aikaisintaan",
+    "shuffleRules.repeatWindow": "Älä toista kappaletta",
+    "shuffleRules.off": "Pois",
+    "shuffleRules.tracks": "{count} kappaleen jälkeen",
+    "shuffleRules.hours": "{count} h sisällä",
+    "blend.blends": "Sekoitukset",
+    "blend.yourBlends": "Omat sekoitukset",
+    "blend.weights": "Painotukset",
+    "blend.weightsDesc": "Määritä, kuinka suuren osan miksauksesta kukin soittolista saa. Tallenna se sekoituksena, niin voit soittaa sen uudelleen tai ajastaa sen.",
+    "blend.name": "Sekoituksen nimi",
+    "blend.namePlaceholder": "esim. Ilta-lounge",
+    "blend.save": "Tallenna sekoitus",
+    "blend.update": "Päivitä sekoitus",
+    "blend.saved": "Sekoitus tallennettu",
+    "blend.saveFailed": "Sekoitusta ei voitu tallentaa. Yritä uudelleen.",
+    "blend.deleted": "Sekoitus poistettu",
+    "blend.deleteConfirmTitle": "Poistetaanko sekoitus?",
+    "blend.deleteConfirmDesc": "Myös tätä sekoitusta soittavat ajastukset poistetaan.",
+    "blend.likedSongsNotSaved": "Tykätyt kappaleet voi miksata, mutta niitä ei voi tallentaa sekoitukseen.",
+    "blend.play": "Soita sekoitus",
+    "blend.empty": "Sekoituksessa ei ole soitettavia kappaleita",
+    "energy.dynamic": "Dynaaminen energia",
+    "energy.dynamicDesc": "Valitse kappaleet soittolistalta niin, että ne seuraavat päivän energiakäyrää",
+    "energy.badge": "Dynaaminen",
+    "energy.addPoint": "Lisää piste",
+    "energy.calm": "Rauhallinen",
+    "energy.balanced": "Tasapainoinen",
+    "energy.upbeat": "Energinen",
+    "energy.unanalyzedNote": "Kappaleet, joita ei ole vielä analysoitu, lasketaan keskitason energiaksi.",
+    "announcements.title": "Kuulutukset",
+    "announcements.desc": "Toista nauhoitettuja viestejä tiettyinä aikoina tai muutaman kappaleen välein",
+    "announcements.upload": "Lataa leike",
+    "announcements.uploading": "Ladataan...",
+    "announcements.uploaded": "Kuulutus ladattu",
+    "announcements.uploadFailed": "Kuulutuksen lataus epäonnistui",
+    "announcements.notMp3": "Valitse MP3-tiedosto",
+    "announcements.tooLarge": "Tiedosto ylittää 50 Mt:n rajan",
+    "announcements.tooLong": "Kuulutus voi olla enintään {seconds} sekuntia pitkä",
+    "announcements.noAnnouncements": "Ei vielä kuulutuksia. Aloita lataamalla MP3-leike.",
+    "announcements.noRules": "Ei vielä sääntöjä, joten kuulutusta ei toisteta",
+    "announcements.addRule": "Lisää sääntö",
+    "announcements.editRule": "Muokkaa sääntöä",
+    "announcements.saveRule": "Tallenna sääntö",
+    "announcements.ruleSaved": "Sääntö tallennettu",
+    "announcements.deleteConfirmTitle": "Poistetaanko kuulutus?",
+    "announcements.deleteConfirmDesc": "Leike ja kaikki sen säännöt poistetaan.",
+    "announcements.trigger": "Milloin toistetaan",
+    "announcements.triggerClock": "Tiettyinä aikoina",
+    "announcements.triggerTracks": "Muutaman kappaleen välein",
+    "announcements.times": "Ajat",
+    "announcements.addTime": "Lisää aika",
+    "announcements.errorTimes": "Valitse vähintään yksi aika ja yksi päivä",
+    "announcements.everyN": "Toista aina",
+    "announcements.tracks": "kappaleen jälkeen",
+    "announcements.everyNSummary": "{count} kappaleen välein",
+    "announcements.mode": "Miten toistetaan",
+    "announcements.modeInsert": "Kappaleiden välissä",
+    "announcements.modeInsertDesc": "Odottaa nykyisen kappaleen loppuun, ja seuraava kappale alkaa kuulutuksen jälkeen",
+    "announcements.modeDuck": "Musiikin päällä",
+    "announcements.modeDuckDesc": "Toistetaan heti, ja musiikkia hiljennetään sen ajaksi",
+    
+    // Volume schedule
+    "volumeSchedule.title": "Äänenvoimakkuustasot",
+    "volumeSchedule.desc": "Aseta äänenvoimakkuus kellonajan mukaan. Soitin siirtyy tasolle pehmeästi jakson alkaessa.",
+    "volumeSchedule.addSlot": "Lisää taso",
+    "volumeSchedule.editSlot": "Muokkaa tasoa",
+    "volumeSchedule.noSlots": "Ei vielä äänenvoimakkuustasoja",
+    "volumeSchedule.name": "Nimi",
+    "volumeSchedule.namePlaceholder": "esim. Hiljaiset aamut",
+    "volumeSchedule.volume": "Äänenvoimakkuus",
+    "volumeSchedule.saveSlot": "Tallenna taso",
+    "volumeSchedule.saved": "Äänenvoimakkuustaso tallennettu",
+    "volumeSchedule.errorTimes": "Valitse vähintään yksi päivä sekä alkamis- ja päättymisaika",
+    "volumeSchedule.scheduleVolume": "Aseta äänenvoimakkuus",
+    "volumeSchedule.scheduleVolumeDesc": "Siirry tähän äänenvoimakkuuteen aikataulun soidessa, ellei jokin äänenvoimakkuustaso kata aikaa",
+    "volumeSchedule.resetOverride": "Manuaalinen äänenvoimakkuus seuraavaan jaksoon asti. Palaa ajastettuun {volume}% napsauttamalla",
+    "openingHours.title": "Aukioloajat",
+    "openingHours.desc": "Kun ajastin on päällä, musiikki häivytetään sulkemisaikaan ja käynnistyy uudelleen avautuessa.",
+    "openingHours.add": "Lisää aukioloajat",
+    "openingHours.edit": "Muokkaa aukioloaikoja",
+    "openingHours.noHours": "Aukioloaikoja ei ole asetettu. Musiikki soi, kunnes joku pysäyttää sen.",
+    "openingHours.opens": "Avautuu",
+    "openingHours.closes": "Sulkeutuu",
+    "openingHours.account": "Kaikki vyöhykkeet",
+    "openingHours.zoneDesc": "Vyöhyke, jolla on omat aukioloajat, ei käytä kaikkien vyöhykkeiden aikoja",
+    "openingHours.saved": "Aukioloajat tallennettu",
+    "openingHours.errorTimes": "Valitse vähintään yksi päivä ja eri avautumis- ja sulkemisajat",
+    "openingHours.open": "Auki",
+    "openingHours.openUntil": "Auki · musiikki pysähtyy klo {time}",
+    "openingHours.closed": "Suljettu",
+    "openingHours.closedUntil": "Suljettu · musiikki alkaa {day} {time}",
+    "scheduleCalendar.listView": "Lista",
+    "scheduleCalendar.weekView": "Viikko",
+    "scheduleCalendar.thisWeek": "Tämä viikko",
+    "scheduleCalendar.noZone": "Laitteet ilman vyöhykettä",
+    "scheduleCalendar.nothingScheduled": "Ei ajastettua, nykyinen musiikki jatkuu",
+    "scheduleCalendar.closed": "Suljettu, ei musiikkia",
+    "scheduleCalendar.hint": "Napsauta aikaa nähdäksesi, mitä silloin soi. Vedä aikataulua siirtääksesi sitä tai vedä sen alareunaa muuttaaksesi päättymisaikaa. Raidalliset osat kattaa poikkeus, päivätty aikataulu tai korkeampi prioriteetti.",
+    "scheduleTemplates.title": "Aikataulupohjat",
+    "scheduleTemplates.desc": "Tallenna aikataulut pohjaksi ja ota se käyttöön alueelle tai koko tilille",
+    "scheduleTemplates.saveAsTemplate": "Tallenna pohjaksi",
+    "scheduleTemplates.name": "Pohjan nimi",
+    "scheduleTemplates.namePlaceholder": "esim. Normaali viikko",
+    "scheduleTemplates.sourceZone": "Kopioi aikataulut alueelta",
+    "scheduleTemplates.noTemplates": "Ei vielä pohjia",
+    "scheduleTemplates.scheduleCount": "{count} aikataulua",
+    "scheduleTemplates.apply": "Ota käyttöön",
+    "scheduleTemplates.applyTitle": "Ota käyttöön \"{name}\"",
+    "scheduleTemplates.applyDesc": "Pohja korvaa valitsemasi alueen aikataulut. Tarkista muutokset ennen käyttöönottoa.",
+    "scheduleTemplates.targetZone": "Kohde",
+    "scheduleTemplates.removed": "Poistetaan",
+    "scheduleTemplates.added": "Lisätään",
+    "scheduleTemplates.kept": "Ei muutu",
+    "scheduleTemplates.unavailable": "Ohitetaan (soittolista ei ole saatavilla)",
+    "scheduleTemplates.noChanges": "Mikään ei muutu, aikataulut vastaavat jo pohjaa",
+    "scheduleTemplates.confirmApply": "Korvaa aikataulut",
+    "scheduleTemplates.applied": "Pohja otettu käyttöön",
+    "scheduleTemplates.saved": "Pohja tallennettu",
+    "scheduleTemplates.errorName": "Anna pohjalle nimi",
+    "scheduleTemplates.errorEmpty": "Tällä alueella ei ole tallennettavia aikatauluja",
+    "scheduleTemplates.sentToYou": "Uusi aikataulupohja: {name}",
+    "scheduleTemplates.review": "Tarkista",
+    "scheduleTemplates.dismiss": "Hylkää",
+    
+    // Billing profile
+    "billingProfile.title": "Laskutustiedot",
+    "billingProfile.subtitle": "Yrityksen tiedot laskuihin ja kuitteihin. Muutokset koskevat seuraavaa maksua tai laskua.",
+    "billingProfile.selectCountry": "Valitse maa",
+    "billingProfile.invoiceEmail": "Laskutussähköposti (valinnainen)",
+    "billingProfile.invoiceEmailPlaceholder": "laskut@yritys.fi",
+    "billingProfile.invoiceEmailHint": "Laskut lähetetään myös tähän osoitteeseen, esim. taloushallintoon",
+    "billingProfile.vatValid": "Vahvistettu VIES-palvelussa",
+    "billingProfile.vatUnverified": "VIES-palveluun ei saatu yhteyttä. Tarkistamme ALV-tunnuksesi uudelleen ennen seuraavaa laskua.",
+    "billingProfile.vatInvalid": "Ei voimassa VIES-palvelun mukaan, joten laskuun lisätään ALV",
+    "billingProfile.reverseCharge": "Käännetty verovelvollisuus: laskusi laaditaan ilman arvonlisäveroa.",
+    "billingProfile.save": "Tallenna laskutustiedot",
+    "billingProfile.saved": "Laskutustiedot tallennettu",
+    
+    // Organizations
+    "organization.title": "Organisaatio",
+    "organization.subtitle": "Jaa tili tiimisi kanssa. Jokainen kirjautuu omalla sähköpostillaan ja saa roolinsa mukaiset oikeudet.",
+    "organization.switch": "Nykyinen organisaatio",
+    "organization.name": "Organisaation nimi",
+    "organization.saved": "Organisaatio päivitetty",
+    "organization.members": "Jäsenet",
+    "organization.you": "sinä",
+    "organization.leave": "Poistu organisaatiosta",
+    "organization.left": "Poistuit organisaatiosta",
+    "organization.memberRemoved": "Jäsen poistettu",
+    "organization.invite": "Kutsu tiimin jäsen",
+    "organization.inviteDesc": "Hän saa sähköpostin ja liittyy, kun kirjautuu sisään tällä osoitteella.",
+    "organization.emailPlaceholder": "kollega@esimerkki.fi",
+    "organization.sendInvite": "Kutsu",
+    "organization.inviteSent": "Kutsu lähetetty",
+    "organization.inviteFailed": "Kutsun lähettäminen epäonnistui",
+    "organization.pending": "Odottavat kutsut",
+    "organization.revoke": "Peru",
+    "organization.role.owner": "Omistaja",
+    "organization.role.billing": "Laskutus",
+    "organization.role.manager": "Esihenkilö",
+    "organization.role.player": "Vain toisto",
+    "organization.roleDesc.owner": "Täydet oikeudet, myös jäsenet ja laskutus.",
+    "organization.roleDesc.billing": "Hallitsee tilausta, laskuja ja laskutustietoja.",
+    "organization.roleDesc.manager": "Hallitsee aikatauluja, alueita ja laitteita.",
+    "organization.roleDesc.player": "Soittaa musiikkia ja noudattaa aikatauluja.",
+    
+    // Device pairing
+    "pair.title": "Yhdistä tämä laite",
+    "pair.subtitle": "Syötä koodi, joka näkyy kohdassa Profiili → Yhdistetyt laitteet tilin omistajan puhelimessa tai tietokoneessa.",
+    "pair.code": "Yhdistämiskoodi",
+    "pair.submit": "Yhdistä laite",
+    "pair.success": "Laite yhdistetty",
+    "pair.failed": "Laitteen yhdistäminen epäonnistui",
+    "pair.signInInstead": "Kirjaudu sisään sähköpostilla",
+    "pair.link": "Otatko käyttöön myymälän laitteen? Yhdistä se koodilla",
+    "pairedDevices.title": "Yhdistetyt laitteet",
+    "pairedDevices.subtitle": "Lisää tabletteja ja soittimia jakamatta salasanaasi. Yhdistetyt laitteet voivat vain soittaa musiikkia ja noudattaa aikataulujasi, ja jokainen käyttää yhden laitepaikan.",
+    "pairedDevices.none": "Ei vielä yhdistettyjä laitteita",
+    "pairedDevices.pairedOn": "Yhdistetty {date}",
+    "pairedDevices.revoke": "Poista",
+    "pairedDevices.revoked": "Laite poistettu",
+    "pairedDevices.name": "Laitteen nimi",
+    "pairedDevices.namePlaceholder": "esim. Baaritiskin tabletti",
+    "pairedDevices.createCode": "Luo koodi",
+    "pairedDevices.enterCode": "Avaa laitteella \"{name}\" osoite {url} ja syötä:",
+    "pairedDevices.expiresIn": "Vanhenee {time} kuluttua",
+    "pairedDevices.confirmRevokeTitle": "Poistetaanko laite?",
+    "pairedDevices.confirmRevokeDesc": "\"{name}\" kirjataan ulos ja sen toisto loppuu. Voit yhdistää sen uudelleen uudella koodilla.",
     "profile.viewTerms": "Näytä käyttöehdot",
     "profile.viewPrivacy": "Näytä tietosuojakäytäntö",
     "profile.changePassword": "Vaihda salasana",
@@ -1893,6 +2708,59 @@ export const translations: Record<Language, Record<string, string>> = {
     "devices.validUntil": "Voimassa tilauksen uusimiseen saakka",
     "devices.thenRegular": "Sen jälkeen",
     "devices.invoiceNote": "Lasku lähetetään maksua varten",
+    "zones.title": "Alueet",
+    "zones.subtitle": "Ryhmittele laitteet alueisiin (esim. baari, terassi), jotta jokainen alue voi noudattaa omaa ajastustaan",
+    "zones.add": "Lisää alue",
+    "zones.edit": "Muokkaa aluetta",
+    "zones.name": "Alueen nimi",
+    "zones.namePlaceholder": "esim. Terassi",
+    "zones.timezoneDesc": "Alueen uudet ajastukset käyttävät tätä aikavyöhykettä",
+    "zones.noZones": "Ei vielä alueita. Kaikki laitteet noudattavat tilin yhteisiä ajastuksia.",
+    "zones.devices": "Aktiiviset laitteet",
+    "zones.noDevices": "Ei aktiivisia laitteita",
+    "zones.thisDevice": "Tämä laite",
+    "zones.noZone": "Ei aluetta",
+    "zones.saved": "Alue tallennettu",
+    "zones.deleted": "Alue poistettu",
+    "zones.deviceAssigned": "Laitteen alue päivitetty",
+    "zones.errorSaving": "Alueen tallennus epäonnistui",
+    "zones.confirmDeleteTitle": "Poistetaanko alue?",
+    "zones.confirmDeleteDesc": "Alueen \"{zone}\" ajastukset ja poikkeukset poistetaan, ja sen laitteet noudattavat tilin yhteisiä ajastuksia.",
+    "remote.title": "Etäohjaus",
+    "remote.subtitle": "Näe mitä kukin laite soittaa ja ohjaa sitä täältä",
+    "remote.unreachable": "Ei vastaa – sovellus voi olla suljettuna tällä laitteella",
+    "remote.nothingPlaying": "Ei toistoa",
+    "remote.playing": "Soi",
+    "remote.paused": "Tauotettu",
+    "remote.choosePlaylist": "Vaihda soittolista",
+    "remote.commandFailed": "Komennon lähetys epäonnistui",
+    "remote.silentFor": "Hiljaa {duration}",
+    "remote.minutes": "{count} min",
+    "remote.hours": "{count} h",
+    "remote.lastReported": "viimeksi raportoitu {track} klo {time}",
+    "silenceAlerts.title": "Hiljaisuushälytykset",
+    "silenceAlerts.subtitle": "Saat sähköpostin, kun laite lakkaa soittamasta aikataulun mukaisena soittoaikana",
+    "silenceAlerts.enable": "Lähetä sähköposti, kun musiikki pysähtyy",
+    "silenceAlerts.enableDesc": "Lähetetään tilisi sähköpostiin, kun laite on ollut hiljaa 15 minuuttia aikataulutettuna aikana. Vaatii ajastuksen olevan käytössä.",
+    "silenceAlerts.quietHours": "Hiljaiset tunnit",
+    "silenceAlerts.quietHoursDesc": "Hälytyksiä ei lähetetä näinä tunteina. Jätä tyhjäksi, jos haluat hälytykset milloin tahansa.",
+    "silenceAlerts.quietFrom": "Alkaen",
+    "silenceAlerts.quietUntil": "Asti",
+    "silenceAlerts.quietHoursIncomplete": "Aseta sekä alkamis- että päättymisaika tai jätä molemmat tyhjiksi",
+    "silenceAlerts.saved": "Hiljaisuushälytysten asetukset tallennettu",
+    "offlineMode.enable": "Offline-tila",
+    "offlineMode.enableDesc": "Lataa nykyiset ja tulevat ajastetut soittolistat, jotta musiikki jatkuu, vaikka internet katkeaisi",
+    "offlineMode.enabled": "Offline-tila käytössä",
+    "offlineMode.disabled": "Offline-tila pois käytöstä",
+    "offlineMode.storageLimit": "Tallennusraja",
+    "offlineMode.usage": "{count} kappaletta ladattu · {used} / {quota}",
+    "offlineMode.downloading": "Ladataan {done}/{total} kappaletta...",
+    "offlineMode.upToDate": "Ajan tasalla (tarkistettu {time})",
+    "offlineMode.waiting": "Odottaa latausta",
+    "offlineMode.quotaReached": "Tallennusraja täynnä - kaikki ajastettu musiikki ei ole saatavilla offline-tilassa",
+    "offlineMode.syncFailed": "Lataus epäonnistui",
+    "offlineMode.clear": "Tyhjennä lataukset",
+    "offlineMode.cleared": "Ladattu musiikki poistettu",
     
     // Payment History
     "invoices.title": "Maksuhistoria",
@@ -2315,6 +3183,32 @@ export const translations: Record<Language, Record<string, string>> = {
     "schedule.dayThu": "To",
     "schedule.dayFri": "Pe",
     "schedule.daySat": "La",
+    "schedule.tip4": "Päivämäärärajatut ajastukset ohittavat viikoittaiset ajastukset, ja poikkeukset ohittavat molemmat",
+    "schedule.dateRange": "Päivämääräväli (valinnainen)",
+    "schedule.validFrom": "Voimassa alkaen",
+    "schedule.validUntil": "Voimassa asti",
+    "schedule.dateRangeDesc": "Rajaa ajastus tietyille päiville, esim. joulumusiikki 1.–26.12.",
+    "schedule.fromDate": "Alkaen {date}",
+    "schedule.untilDate": "Asti {date}",
+    "schedule.skipDates": "Ohitettavat päivät (valinnainen)",
+    "schedule.skippedDatesCount": "{count} ohitettu",
+    "schedule.exceptions": "Poikkeukset",
+    "schedule.exceptionsDesc": "Suljetut päivät ja kertaluontoiset muutokset tietylle päivälle",
+    "schedule.addException": "Lisää poikkeus",
+    "schedule.editException": "Muokkaa poikkeusta",
+    "schedule.noExceptions": "Ei tulevia poikkeuksia",
+    "schedule.exceptionDate": "Päivämäärä",
+    "schedule.exceptionNamePlaceholder": "esim. Pyhäpäivä",
+    "schedule.exceptionClosed": "Suljettu",
+    "schedule.exceptionClosedDesc": "Musiikkia ei soiteta poikkeuksen aikana",
+    "schedule.exceptionOverride": "Korvaava",
+    "schedule.allDay": "Koko päivä",
+    "schedule.timezone": "Aikavyöhyke",
+    "schedule.timezoneDesc": "Alkamis- ja päättymisajat noudattavat tätä aikavyöhykettä kesäaika mukaan lukien",
+    "schedule.deviceTime": "Laitteen aika",
+    "schedule.zone": "Alue",
+    "schedule.allZones": "Kaikki alueet",
+    "schedule.zoneDesc": "Vain tämän alueen laitteet noudattavat sitä. Aluekohtaiset ajastukset ohittavat kaikkien alueiden ajastukset.",
     
     // Quick Mix
     "quickMix.title": "Sekoita soittolistoja",
@@ -2473,7 +3367,12 @@ export const translations: Record<Language, Record<string, string>> = {
     "toast.scheduleUpdated": "Zeitplan aktualisiert",
     "toast.scheduleCreated": "Zeitplan erstellt",
     "toast.scheduleOverlap": "Zeitkonflikt",
-    "toast.scheduleOverlapDesc": "Diese Zeit überschneidet sich mit einem bestehenden Zeitplan für \"{playlist}\". Bitte passen Sie die Zeit oder Tage an.",
+    "toast.scheduleOverlapDesc": "Diese Zeit überschneidet sich mit dem Zeitplan für \"{playlist}\", der dieselbe Priorität hat. Geben Sie einem davon eine höhere Priorität oder passen Sie die Zeit oder Tage an.",
+    "toast.invalidDateRange": "Das Enddatum muss gleich oder nach dem Startdatum liegen",
+    "toast.selectDate": "Bitte wähle ein Datum",
+    "toast.errorSavingException": "Fehler beim Speichern der Ausnahme",
+    "toast.exceptionSaved": "Ausnahme gespeichert",
+    "toast.exceptionDeleted": "Ausnahme gelöscht",
     "toast.scheduleDeleted": "Zeitplan gelöscht",
     "toast.errorUpdatingSchedule": "Fehler beim Aktualisieren des Zeitplans",
     "toast.errorCreatingSchedule": "Fehler beim Erstellen des Zeitplans",
@@ -2606,6 +3505,220 @@ export const translations: Record<Language, Record<string, string>> = {
     "profile.enableCrossfadeDesc": "Sanfte Übergänge zwischen Songs",
     "profile.crossfadeEnabled": "Überblenden aktiviert",
     "profile.crossfadeDisabled": "Überblenden deaktiviert",
+    "profile.normalizeLoudness": "Lautstärke angleichen",
+    "profile.normalizeLoudnessDesc": "Alle Songs mit ähnlicher Lautheit abspielen",
+    "profile.normalizeLoudnessEnabled": "Lautstärkeangleichung aktiviert",
+    "profile.normalizeLoudnessDisabled": "Lautstärkeangleichung deaktiviert",
+    "crossfade.duration": "Überblendungsdauer",
+    "crossfade.seconds": "{seconds} s",
+    "crossfade.noOverlap": "Keine Überlappung",
+    "crossfade.curve": "Überblendungskurve",
+    "crossfade.curve.linear": "Linear",
+    "crossfade.curve.linear.desc": "Die Lautstärke ändert sich gleichmäßig",
+    "crossfade.curve.equal_power": "Gleiche Leistung",
+    "crossfade.curve.equal_power.desc": "Hält die Gesamtlautstärke während der Überblendung konstant",
+    "crossfade.curve.s_curve": "S-Kurve",
+    "crossfade.curve.s_curve.desc": "Sanfter Anfang und sanftes Ende, schneller in der Mitte",
+    "crossfade.saveFailed": "Überblendungseinstellungen konnten nicht gespeichert werden",
+    "queue.title": "Warteschlange",
+    "queue.nowPlaying": "Läuft gerade",
+    "queue.upNext": "Als Nächstes",
+    "queue.clear": "Leeren",
+    "queue.empty": "Deine Warteschlange ist leer. Wähle bei einem Song \"Als Nächstes abspielen\" oder \"Zur Warteschlange hinzufügen\".",
+    "queue.playNext": "Als Nächstes abspielen",
+    "queue.addToQueue": "Zur Warteschlange hinzufügen",
+    "queue.playingNext": "\"{title}\" wird als Nächstes abgespielt",
+    "queue.added": "\"{title}\" zur Warteschlange hinzugefügt",
+    "shuffleRules.title": "Abwechslung beim Mischen",
+    "shuffleRules.desc": "Gemischte Musik und Mixe auf diesem Gerät abwechslungsreich halten",
+    "shuffleRules.artistSeparation": "Gleicher Künstler erst wieder nach",
+    "shuffleRules.repeatWindow": "Song nicht wiederholen innerhalb von",
+    "shuffleRules.off": "Aus",
+    "shuffleRules.tracks": "{count} Songs",
+    "shuffleRules.hours": "{count} Std.",
+    "blend.blends": "Mischungen",
+    "blend.yourBlends": "Deine Mischungen",
+    "blend.weights": "Gewichtung",
+    "blend.weightsDesc": "Lege fest, welchen Anteil jede Playlist am Mix hat. Speichere ihn als Mischung, um ihn erneut abzuspielen oder zu planen.",
+    "blend.name": "Name der Mischung",
+    "blend.namePlaceholder": "z. B. Abend-Lounge",
+    "blend.save": "Mischung speichern",
+    "blend.update": "Mischung aktualisieren",
+    "blend.saved": "Mischung gespeichert",
+    "blend.saveFailed": "Die Mischung konnte nicht gespeichert werden. Bitte versuche es erneut.",
+    "blend.deleted": "Mischung gelöscht",
+    "blend.deleteConfirmTitle": "Mischung löschen?",
+    "blend.deleteConfirmDesc": "Zeitpläne, die diese Mischung abspielen, werden ebenfalls gelöscht.",
+    "blend.likedSongsNotSaved": "Lieblingssongs können gemischt, aber nicht in einer Mischung gespeichert werden.",
+    "blend.play": "Mischung abspielen",
+    "blend.empty": "Diese Mischung enthält keine Titel",
+    "energy.dynamic": "Dynamische Energie",
+    "energy.dynamicDesc": "Titel aus der Playlist so auswählen, dass sie einer Energiekurve über den Tag folgen",
+    "energy.badge": "Dynamisch",
+    "energy.addPoint": "Punkt hinzufügen",
+    "energy.calm": "Ruhig",
+    "energy.balanced": "Ausgewogen",
+    "energy.upbeat": "Lebhaft",
+    "energy.unanalyzedNote": "Noch nicht analysierte Titel zählen als mittlere Energie.",
+    "announcements.title": "Durchsagen",
+    "announcements.desc": "Aufgenommene Nachrichten zu festen Zeiten oder alle paar Titel abspielen",
+    "announcements.upload": "Clip hochladen",
+    "announcements.uploading": "Wird hochgeladen...",
+    "announcements.uploaded": "Durchsage hochgeladen",
+    "announcements.uploadFailed": "Durchsage konnte nicht hochgeladen werden",
+    "announcements.notMp3": "Bitte wähle eine MP3-Datei",
+    "announcements.tooLarge": "Die Datei überschreitet das Limit von 50 MB",
+    "announcements.tooLong": "Durchsagen dürfen höchstens {seconds} Sekunden lang sein",
+    "announcements.noAnnouncements": "Noch keine Durchsagen. Lade einen MP3-Clip hoch, um loszulegen.",
+    "announcements.noRules": "Noch keine Regeln, daher wird diese Durchsage nie abgespielt",
+    "announcements.addRule": "Regel hinzufügen",
+    "announcements.editRule": "Regel bearbeiten",
+    "announcements.saveRule": "Regel speichern",
+    "announcements.ruleSaved": "Regel gespeichert",
+    "announcements.deleteConfirmTitle": "Durchsage löschen?",
+    "announcements.deleteConfirmDesc": "Der Clip und alle zugehörigen Regeln werden gelöscht.",
+    "announcements.trigger": "Wann abspielen",
+    "announcements.triggerClock": "Zu festen Zeiten",
+    "announcements.triggerTracks": "Alle paar Titel",
+    "announcements.times": "Zeiten",
+    "announcements.addTime": "Zeit hinzufügen",
+    "announcements.errorTimes": "Wähle mindestens eine Zeit und einen Tag",
+    "announcements.everyN": "Abspielen nach jeweils",
+    "announcements.tracks": "Titeln",
+    "announcements.everyNSummary": "Alle {count} Titel",
+    "announcements.mode": "Wie abspielen",
+    "announcements.modeInsert": "Zwischen Titeln",
+    "announcements.modeInsertDesc": "Wartet, bis der aktuelle Titel endet; der nächste Titel beginnt nach der Durchsage",
+    "announcements.modeDuck": "Über der Musik",
+    "announcements.modeDuckDesc": "Wird sofort abgespielt, während die Musik leiser wird",
+    
+    // Volume schedule
+    "volumeSchedule.title": "Lautstärkestufen",
+    "volumeSchedule.desc": "Lautstärke nach Tageszeit festlegen. Der Player blendet zu Beginn jedes Zeitfensters auf die Stufe über.",
+    "volumeSchedule.addSlot": "Stufe hinzufügen",
+    "volumeSchedule.editSlot": "Stufe bearbeiten",
+    "volumeSchedule.noSlots": "Noch keine Lautstärkestufen",
+    "volumeSchedule.name": "Name",
+    "volumeSchedule.namePlaceholder": "z. B. Ruhige Vormittage",
+    "volumeSchedule.volume": "Lautstärke",
+    "volumeSchedule.saveSlot": "Stufe speichern",
+    "volumeSchedule.saved": "Lautstärkestufe gespeichert",
+    "volumeSchedule.errorTimes": "Wähle mindestens einen Tag sowie Start- und Endzeit",
+    "volumeSchedule.scheduleVolume": "Lautstärke festlegen",
+    "volumeSchedule.scheduleVolumeDesc": "Während dieser Zeitplan läuft auf diese Lautstärke überblenden, sofern keine Lautstärkestufe die Zeit abdeckt",
+    "volumeSchedule.resetOverride": "Manuelle Lautstärke bis zum nächsten Zeitfenster. Klicken, um zu den geplanten {volume}% zurückzukehren",
+    "openingHours.title": "Öffnungszeiten",
+    "openingHours.desc": "Bei aktivem Zeitplaner wird die Musik zum Ladenschluss ausgeblendet und zur Öffnung wieder gestartet.",
+    "openingHours.add": "Öffnungszeiten hinzufügen",
+    "openingHours.edit": "Öffnungszeiten bearbeiten",
+    "openingHours.noHours": "Keine Öffnungszeiten festgelegt. Die Musik läuft, bis jemand sie stoppt.",
+    "openingHours.opens": "Öffnet",
+    "openingHours.closes": "Schließt",
+    "openingHours.account": "Alle Zonen",
+    "openingHours.zoneDesc": "Eine Zone mit eigenen Öffnungszeiten ignoriert die Zeiten für alle Zonen",
+    "openingHours.saved": "Öffnungszeiten gespeichert",
+    "openingHours.errorTimes": "Wähle mindestens einen Tag und unterschiedliche Öffnungs- und Schließzeiten",
+    "openingHours.open": "Geöffnet",
+    "openingHours.openUntil": "Geöffnet · Musik stoppt um {time}",
+    "openingHours.closed": "Geschlossen",
+    "openingHours.closedUntil": "Geschlossen · Musik startet {day} {time}",
+    "scheduleCalendar.listView": "Liste",
+    "scheduleCalendar.weekView": "Woche",
+    "scheduleCalendar.thisWeek": "Diese Woche",
+    "scheduleCalendar.noZone": "Geräte ohne Zone",
+    "scheduleCalendar.nothingScheduled": "Nichts geplant, die aktuelle Musik läuft weiter",
+    "scheduleCalendar.closed": "Geschlossen, keine Musik",
+    "scheduleCalendar.hint": "Klicke auf eine Uhrzeit, um zu sehen, was dann läuft. Ziehe einen Zeitplan, um ihn zu verschieben, oder ziehe seine Unterkante, um das Ende zu ändern. Gestreifte Teile werden von einer Ausnahme, einem datierten Zeitplan oder einer höheren Priorität überdeckt.",
+    "scheduleTemplates.title": "Zeitplanvorlagen",
+    "scheduleTemplates.desc": "Speichere eine Reihe von Zeitplänen und wende sie auf eine Zone oder das ganze Konto an",
+    "scheduleTemplates.saveAsTemplate": "Als Vorlage speichern",
+    "scheduleTemplates.name": "Name der Vorlage",
+    "scheduleTemplates.namePlaceholder": "z. B. Standardwoche",
+    "scheduleTemplates.sourceZone": "Zeitpläne kopieren aus",
+    "scheduleTemplates.noTemplates": "Noch keine Vorlagen",
+    "scheduleTemplates.scheduleCount": "{count} Zeitpläne",
+    "scheduleTemplates.apply": "Anwenden",
+    "scheduleTemplates.applyTitle": "\"{name}\" anwenden",
+    "scheduleTemplates.applyDesc": "Die Vorlage ersetzt die Zeitpläne in der gewählten Zone. Prüfe die Änderungen vor dem Anwenden.",
+    "scheduleTemplates.targetZone": "Anwenden auf",
+    "scheduleTemplates.removed": "Wird entfernt",
+    "scheduleTemplates.added": "Wird hinzugefügt",
+    "scheduleTemplates.kept": "Bleibt gleich",
+    "scheduleTemplates.unavailable": "Übersprungen (Playlist nicht verfügbar)",
+    "scheduleTemplates.noChanges": "Nichts ändert sich, die Zeitpläne entsprechen bereits der Vorlage",
+    "scheduleTemplates.confirmApply": "Zeitpläne ersetzen",
+    "scheduleTemplates.applied": "Vorlage angewendet",
+    "scheduleTemplates.saved": "Vorlage gespeichert",
+    "scheduleTemplates.errorName": "Bitte gib einen Namen für die Vorlage ein",
+    "scheduleTemplates.errorEmpty": "In dieser Zone gibt es keine Zeitpläne zum Speichern",
+    "scheduleTemplates.sentToYou": "Neue Zeitplanvorlage: {name}",
+    "scheduleTemplates.review": "Prüfen",
+    "scheduleTemplates.dismiss": "Verwerfen",
+    
+    // Billing profile
+    "billingProfile.title": "Rechnungsdaten",
+    "billingProfile.subtitle": "Firmendaten für deine Rechnungen und Belege. Änderungen gelten ab der nächsten Zahlung oder Rechnung.",
+    "billingProfile.selectCountry": "Land auswählen",
+    "billingProfile.invoiceEmail": "Rechnungs-E-Mail (optional)",
+    "billingProfile.invoiceEmailPlaceholder": "rechnungen@firma.de",
+    "billingProfile.invoiceEmailHint": "Rechnungen werden auch an diese Adresse gesendet, z. B. an die Buchhaltung",
+    "billingProfile.vatValid": "Über VIES bestätigt",
+    "billingProfile.vatUnverified": "VIES war nicht erreichbar. Wir prüfen deine USt-IdNr. vor der nächsten Rechnung erneut.",
+    "billingProfile.vatInvalid": "Laut VIES ungültig, daher wird Mehrwertsteuer berechnet",
+    "billingProfile.reverseCharge": "Reverse Charge: Deine Rechnungen werden ohne Mehrwertsteuer ausgestellt.",
+    "billingProfile.save": "Rechnungsdaten speichern",
+    "billingProfile.saved": "Rechnungsdaten gespeichert",
+    
+    // Organizations
+    "organization.title": "Organisation",
+    "organization.subtitle": "Teilen Sie dieses Konto mit Ihrem Team. Alle melden sich mit ihrer eigenen E-Mail an und erhalten den Zugriff, den ihre Rolle erlaubt.",
+    "organization.switch": "Aktuelle Organisation",
+    "organization.name": "Name der Organisation",
+    "organization.saved": "Organisation aktualisiert",
+    "organization.members": "Mitglieder",
+    "organization.you": "Sie",
+    "organization.leave": "Organisation verlassen",
+    "organization.left": "Sie haben die Organisation verlassen",
+    "organization.memberRemoved": "Mitglied entfernt",
+    "organization.invite": "Teammitglied einladen",
+    "organization.inviteDesc": "Die Person erhält eine E-Mail und tritt bei, sobald sie sich mit dieser Adresse anmeldet.",
+    "organization.emailPlaceholder": "kollege@beispiel.de",
+    "organization.sendInvite": "Einladen",
+    "organization.inviteSent": "Einladung gesendet",
+    "organization.inviteFailed": "Einladung konnte nicht gesendet werden",
+    "organization.pending": "Offene Einladungen",
+    "organization.revoke": "Widerrufen",
+    "organization.role.owner": "Inhaber",
+    "organization.role.billing": "Abrechnung",
+    "organization.role.manager": "Manager",
+    "organization.role.player": "Nur Wiedergabe",
+    "organization.roleDesc.owner": "Voller Zugriff, einschließlich Mitglieder und Abrechnung.",
+    "organization.roleDesc.billing": "Verwaltet Abonnement, Rechnungen und Rechnungsdaten.",
+    "organization.roleDesc.manager": "Verwaltet Zeitpläne, Zonen und Geräte.",
+    "organization.roleDesc.player": "Spielt Musik ab und folgt den Zeitplänen.",
+    
+    // Device pairing
+    "pair.title": "Dieses Gerät koppeln",
+    "pair.subtitle": "Geben Sie den Code ein, der unter Profil → Gekoppelte Geräte auf dem Telefon oder Computer des Kontoinhabers angezeigt wird.",
+    "pair.code": "Kopplungscode",
+    "pair.submit": "Gerät koppeln",
+    "pair.success": "Gerät gekoppelt",
+    "pair.failed": "Gerät konnte nicht gekoppelt werden",
+    "pair.signInInstead": "Stattdessen mit E-Mail anmelden",
+    "pair.link": "Richten Sie ein Gerät im Laden ein? Koppeln Sie es mit einem Code",
+    "pairedDevices.title": "Gekoppelte Geräte",
+    "pairedDevices.subtitle": "Fügen Sie Tablets und Player hinzu, ohne Ihr Passwort zu teilen. Gekoppelte Geräte können nur Musik abspielen und Ihren Zeitplänen folgen und belegen jeweils einen Geräteplatz.",
+    "pairedDevices.none": "Noch keine gekoppelten Geräte",
+    "pairedDevices.pairedOn": "Gekoppelt am {date}",
+    "pairedDevices.revoke": "Widerrufen",
+    "pairedDevices.revoked": "Gerät widerrufen",
+    "pairedDevices.name": "Gerätename",
+    "pairedDevices.namePlaceholder": "z. B. Tablet an der Bar",
+    "pairedDevices.createCode": "Code erstellen",
+    "pairedDevices.enterCode": "Öffnen Sie auf \"{name}\" {url} und geben Sie ein:",
+    "pairedDevices.expiresIn": "Läuft ab in {time}",
+    "pairedDevices.confirmRevokeTitle": "Dieses Gerät widerrufen?",
+    "pairedDevices.confirmRevokeDesc": "\"{name}\" wird abgemeldet und hört auf zu spielen. Sie können es mit einem neuen Code erneut koppeln.",
     "profile.viewTerms": "AGB anzeigen",
     "profile.viewPrivacy": "Datenschutzerklärung anzeigen",
     "profile.changePassword": "Passwort ändern",
@@ -2704,6 +3817,59 @@ export const translations: Record<Language, Record<string, string>> = {
     "devices.validUntil": "Gültig bis zur Abonnementverlängerung",
     "devices.thenRegular": "Danach",
     "devices.invoiceNote": "Eine Rechnung wird zur Zahlung gesendet",
+    "zones.title": "Zonen",
+    "zones.subtitle": "Gruppieren Sie Ihre Geräte in Zonen (z. B. Bar, Terrasse), damit jede Zone ihrem eigenen Zeitplan folgen kann",
+    "zones.add": "Zone hinzufügen",
+    "zones.edit": "Zone bearbeiten",
+    "zones.name": "Name der Zone",
+    "zones.namePlaceholder": "z. B. Terrasse",
+    "zones.timezoneDesc": "Neue Zeitpläne für diese Zone verwenden diese Zeitzone",
+    "zones.noZones": "Noch keine Zonen. Alle Geräte folgen den kontoweiten Zeitplänen.",
+    "zones.devices": "Aktive Geräte",
+    "zones.noDevices": "Keine aktiven Geräte",
+    "zones.thisDevice": "Dieses Gerät",
+    "zones.noZone": "Keine Zone",
+    "zones.saved": "Zone gespeichert",
+    "zones.deleted": "Zone gelöscht",
+    "zones.deviceAssigned": "Zone des Geräts aktualisiert",
+    "zones.errorSaving": "Zone konnte nicht gespeichert werden",
+    "zones.confirmDeleteTitle": "Zone löschen?",
+    "zones.confirmDeleteDesc": "Zeitpläne und Ausnahmen für \"{zone}\" werden gelöscht und ihre Geräte folgen den kontoweiten Zeitplänen.",
+    "remote.title": "Fernsteuerung",
+    "remote.subtitle": "Sehen Sie, was jedes Gerät abspielt, und steuern Sie es von hier aus",
+    "remote.unreachable": "Keine Antwort – die App ist auf diesem Gerät möglicherweise geschlossen",
+    "remote.nothingPlaying": "Keine Wiedergabe",
+    "remote.playing": "Spielt",
+    "remote.paused": "Pausiert",
+    "remote.choosePlaylist": "Playlist wechseln",
+    "remote.commandFailed": "Befehl konnte nicht gesendet werden",
+    "remote.silentFor": "Still seit {duration}",
+    "remote.minutes": "{count} Min.",
+    "remote.hours": "{count} Std.",
+    "remote.lastReported": "zuletzt gemeldet {track} um {time}",
+    "silenceAlerts.title": "Stille-Benachrichtigungen",
+    "silenceAlerts.subtitle": "Erhalten Sie eine E-Mail, wenn ein Gerät nicht mehr spielt, obwohl laut Zeitplan Musik laufen sollte",
+    "silenceAlerts.enable": "E-Mail senden, wenn die Musik stoppt",
+    "silenceAlerts.enableDesc": "Wird an Ihre Konto-E-Mail gesendet, wenn ein Gerät während einer geplanten Zeit 15 Minuten still war. Erfordert aktivierte Zeitplanung.",
+    "silenceAlerts.quietHours": "Ruhezeiten",
+    "silenceAlerts.quietHoursDesc": "In diesen Stunden werden keine Benachrichtigungen gesendet. Leer lassen, um jederzeit benachrichtigt zu werden.",
+    "silenceAlerts.quietFrom": "Von",
+    "silenceAlerts.quietUntil": "Bis",
+    "silenceAlerts.quietHoursIncomplete": "Legen Sie Start- und Endzeit fest oder lassen Sie beide leer",
+    "silenceAlerts.saved": "Einstellungen für Stille-Benachrichtigungen gespeichert",
+    "offlineMode.enable": "Offline-Modus",
+    "offlineMode.enableDesc": "Aktuelle und kommende geplante Playlists herunterladen, damit die Musik bei Internetausfall weiterläuft",
+    "offlineMode.enabled": "Offline-Modus aktiviert",
+    "offlineMode.disabled": "Offline-Modus deaktiviert",
+    "offlineMode.storageLimit": "Speicherlimit",
+    "offlineMode.usage": "{count} Titel heruntergeladen · {used} von {quota}",
+    "offlineMode.downloading": "{done}/{total} Titel werden heruntergeladen...",
+    "offlineMode.upToDate": "Aktuell (geprüft {time})",
+    "offlineMode.waiting": "Wartet auf Download",
+    "offlineMode.quotaReached": "Speicherlimit erreicht - nicht alle geplante Musik ist offline verfügbar",
+    "offlineMode.syncFailed": "Download fehlgeschlagen",
+    "offlineMode.clear": "Downloads löschen",
+    "offlineMode.cleared": "Heruntergeladene Musik entfernt",
     
     // Payment History
     "invoices.title": "Zahlungsverlauf",
@@ -3125,6 +4291,32 @@ export const translations: Record<Language, Record<string, string>> = {
     "schedule.dayThu": "Do",
     "schedule.dayFri": "Fr",
     "schedule.daySat": "Sa",
+    "schedule.tip4": "Zeitpläne mit Datumsbereich haben Vorrang vor wöchentlichen Zeitplänen, Ausnahmen haben Vorrang vor beiden",
+    "schedule.dateRange": "Datumsbereich (optional)",
+    "schedule.validFrom": "Gültig ab",
+    "schedule.validUntil": "Gültig bis",
+    "schedule.dateRangeDesc": "Beschränke diesen Zeitplan auf bestimmte Daten, z. B. Weihnachtsmusik vom 1. bis 26. Dezember",
+    "schedule.fromDate": "Ab {date}",
+    "schedule.untilDate": "Bis {date}",
+    "schedule.skipDates": "Ausgelassene Tage (optional)",
+    "schedule.skippedDatesCount": "{count} ausgelassen",
+    "schedule.exceptions": "Ausnahmen",
+    "schedule.exceptionsDesc": "Ruhetage und einmalige Änderungen für ein bestimmtes Datum",
+    "schedule.addException": "Ausnahme hinzufügen",
+    "schedule.editException": "Ausnahme bearbeiten",
+    "schedule.noExceptions": "Keine anstehenden Ausnahmen",
+    "schedule.exceptionDate": "Datum",
+    "schedule.exceptionNamePlaceholder": "z. B. Feiertag",
+    "schedule.exceptionClosed": "Geschlossen",
+    "schedule.exceptionClosedDesc": "Während dieser Ausnahme wird keine Musik gespielt",
+    "schedule.exceptionOverride": "Ersatz",
+    "schedule.allDay": "Ganztägig",
+    "schedule.timezone": "Zeitzone",
+    "schedule.timezoneDesc": "Start- und Endzeiten folgen dieser Zeitzone, einschließlich Sommerzeit",
+    "schedule.deviceTime": "Gerätezeit",
+    "schedule.zone": "Zone",
+    "schedule.allZones": "Alle Zonen",
+    "schedule.zoneDesc": "Nur Geräte in dieser Zone folgen ihm. Zonenpläne haben Vorrang vor Plänen für alle Zonen.",
     
     // Quick Mix
     "quickMix.title": "Playlists mischen",
@@ -3283,7 +4475,12 @@ export const translations: Record<Language, Record<string, string>> = {
     "toast.scheduleUpdated": "Planning mis à jour",
     "toast.scheduleCreated": "Planning créé",
     "toast.scheduleOverlap": "Conflit horaire",
-    "toast.scheduleOverlapDesc": "Cet horaire chevauche un planning existant pour \"{playlist}\". Veuillez ajuster l'heure ou les jours.",
+    "toast.scheduleOverlapDesc": "Cet horaire chevauche le planning de \"{playlist}\", qui a la même priorité. Donnez une priorité plus élevée à l'un d'eux, ou ajustez l'heure ou les jours.",
+    "toast.invalidDateRange": "La date de fin doit être identique ou postérieure à la date de début",
+    "toast.selectDate": "Veuillez sélectionner une date",
+    "toast.errorSavingException": "Erreur lors de l'enregistrement de l'exception",
+    "toast.exceptionSaved": "Exception enregistrée",
+    "toast.exceptionDeleted": "Exception supprimée",
     "toast.scheduleDeleted": "Planning supprimé",
     "toast.errorUpdatingSchedule": "Erreur lors de la mise à jour du planning",
     "toast.errorCreatingSchedule": "Erreur lors de la création du planning",
@@ -3416,6 +4613,220 @@ export const translations: Record<Language, Record<string, string>> = {
     "profile.enableCrossfadeDesc": "Transitions douces entre les chansons",
     "profile.crossfadeEnabled": "Fondu enchaîné activé",
     "profile.crossfadeDisabled": "Fondu enchaîné désactivé",
+    "profile.normalizeLoudness": "Égaliser le volume",
+    "profile.normalizeLoudnessDesc": "Lire toutes les chansons à un volume similaire",
+    "profile.normalizeLoudnessEnabled": "Égalisation du volume activée",
+    "profile.normalizeLoudnessDisabled": "Égalisation du volume désactivée",
+    "crossfade.duration": "Durée du fondu",
+    "crossfade.seconds": "{seconds} s",
+    "crossfade.noOverlap": "Pas de chevauchement",
+    "crossfade.curve": "Courbe du fondu",
+    "crossfade.curve.linear": "Linéaire",
+    "crossfade.curve.linear.desc": "Le volume change à un rythme régulier",
+    "crossfade.curve.equal_power": "Puissance constante",
+    "crossfade.curve.equal_power.desc": "Garde le volume global stable pendant le fondu",
+    "crossfade.curve.s_curve": "Courbe en S",
+    "crossfade.curve.s_curve.desc": "Début et fin en douceur, plus rapide au milieu",
+    "crossfade.saveFailed": "Impossible d'enregistrer les réglages du fondu",
+    "queue.title": "File d'attente",
+    "queue.nowPlaying": "En cours de lecture",
+    "queue.upNext": "À suivre",
+    "queue.clear": "Vider",
+    "queue.empty": "Votre file d'attente est vide. Utilisez « Lire ensuite » ou « Ajouter à la file d'attente » sur une chanson.",
+    "queue.playNext": "Lire ensuite",
+    "queue.addToQueue": "Ajouter à la file d'attente",
+    "queue.playingNext": "« {title} » sera lu ensuite",
+    "queue.added": "« {title} » ajouté à la file d'attente",
+    "shuffleRules.title": "Variété en lecture aléatoire",
+    "shuffleRules.desc": "Garder la musique aléatoire et les mix variés sur cet appareil",
+    "shuffleRules.artistSeparation": "Même artiste à nouveau après",
+    "shuffleRules.repeatWindow": "Ne pas répéter une chanson avant",
+    "shuffleRules.off": "Désactivé",
+    "shuffleRules.tracks": "{count} chansons",
+    "shuffleRules.hours": "{count} h",
+    "blend.blends": "Mélanges",
+    "blend.yourBlends": "Vos mélanges",
+    "blend.weights": "Pondération",
+    "blend.weightsDesc": "Définissez la part de chaque playlist dans le mix. Enregistrez-le comme mélange pour le rejouer ou le programmer.",
+    "blend.name": "Nom du mélange",
+    "blend.namePlaceholder": "ex. Lounge du soir",
+    "blend.save": "Enregistrer le mélange",
+    "blend.update": "Mettre à jour le mélange",
+    "blend.saved": "Mélange enregistré",
+    "blend.saveFailed": "Le mélange n'a pas pu être enregistré. Veuillez réessayer.",
+    "blend.deleted": "Mélange supprimé",
+    "blend.deleteConfirmTitle": "Supprimer le mélange ?",
+    "blend.deleteConfirmDesc": "Les programmations qui jouent ce mélange seront également supprimées.",
+    "blend.likedSongsNotSaved": "Les titres aimés peuvent être mixés mais pas enregistrés dans un mélange.",
+    "blend.play": "Lire le mélange",
+    "blend.empty": "Ce mélange ne contient aucun titre",
+    "energy.dynamic": "Énergie dynamique",
+    "energy.dynamicDesc": "Choisir les titres de la playlist pour suivre une courbe d'énergie au fil de la journée",
+    "energy.badge": "Dynamique",
+    "energy.addPoint": "Ajouter un point",
+    "energy.calm": "Calme",
+    "energy.balanced": "Équilibré",
+    "energy.upbeat": "Entraînant",
+    "energy.unanalyzedNote": "Les titres pas encore analysés comptent comme énergie moyenne.",
+    "announcements.title": "Annonces",
+    "announcements.desc": "Diffusez des messages enregistrés à heures fixes ou tous les quelques titres",
+    "announcements.upload": "Importer un clip",
+    "announcements.uploading": "Importation...",
+    "announcements.uploaded": "Annonce importée",
+    "announcements.uploadFailed": "Échec de l'importation de l'annonce",
+    "announcements.notMp3": "Veuillez sélectionner un fichier MP3",
+    "announcements.tooLarge": "Le fichier dépasse la limite de 50 Mo",
+    "announcements.tooLong": "Une annonce peut durer au maximum {seconds} secondes",
+    "announcements.noAnnouncements": "Aucune annonce pour l'instant. Importez un clip MP3 pour commencer.",
+    "announcements.noRules": "Aucune règle pour l'instant, cette annonce ne sera donc jamais diffusée",
+    "announcements.addRule": "Ajouter une règle",
+    "announcements.editRule": "Modifier la règle",
+    "announcements.saveRule": "Enregistrer la règle",
+    "announcements.ruleSaved": "Règle enregistrée",
+    "announcements.deleteConfirmTitle": "Supprimer l'annonce ?",
+    "announcements.deleteConfirmDesc": "Le clip et toutes ses règles seront supprimés.",
+    "announcements.trigger": "Quand la diffuser",
+    "announcements.triggerClock": "À heures fixes",
+    "announcements.triggerTracks": "Tous les quelques titres",
+    "announcements.times": "Heures",
+    "announcements.addTime": "Ajouter une heure",
+    "announcements.errorTimes": "Choisissez au moins une heure et un jour",
+    "announcements.everyN": "Diffuser après chaque série de",
+    "announcements.tracks": "titres",
+    "announcements.everyNSummary": "Tous les {count} titres",
+    "announcements.mode": "Comment la diffuser",
+    "announcements.modeInsert": "Entre les titres",
+    "announcements.modeInsertDesc": "Attend la fin du titre en cours ; le titre suivant commence après l'annonce",
+    "announcements.modeDuck": "Par-dessus la musique",
+    "announcements.modeDuckDesc": "Diffusée immédiatement pendant que la musique est baissée",
+    
+    // Volume schedule
+    "volumeSchedule.title": "Niveaux de volume",
+    "volumeSchedule.desc": "Réglez le volume selon l'heure. Le lecteur passe en fondu à chaque niveau au début de son créneau.",
+    "volumeSchedule.addSlot": "Ajouter un niveau",
+    "volumeSchedule.editSlot": "Modifier le niveau",
+    "volumeSchedule.noSlots": "Aucun niveau de volume pour l'instant",
+    "volumeSchedule.name": "Nom",
+    "volumeSchedule.namePlaceholder": "ex. Matinées calmes",
+    "volumeSchedule.volume": "Volume",
+    "volumeSchedule.saveSlot": "Enregistrer le niveau",
+    "volumeSchedule.saved": "Niveau de volume enregistré",
+    "volumeSchedule.errorTimes": "Choisissez au moins un jour ainsi qu'une heure de début et de fin",
+    "volumeSchedule.scheduleVolume": "Régler le volume",
+    "volumeSchedule.scheduleVolumeDesc": "Passer en fondu à ce volume pendant ce programme, sauf si un niveau de volume couvre l'horaire",
+    "volumeSchedule.resetOverride": "Volume manuel jusqu'au prochain créneau. Cliquez pour revenir aux {volume}% programmés",
+    "openingHours.title": "Horaires d'ouverture",
+    "openingHours.desc": "Avec le planificateur activé, la musique s'estompe à la fermeture et reprend à l'ouverture.",
+    "openingHours.add": "Ajouter des horaires",
+    "openingHours.edit": "Modifier les horaires",
+    "openingHours.noHours": "Aucun horaire défini. La musique joue jusqu'à ce que quelqu'un l'arrête.",
+    "openingHours.opens": "Ouverture",
+    "openingHours.closes": "Fermeture",
+    "openingHours.account": "Toutes les zones",
+    "openingHours.zoneDesc": "Une zone avec ses propres horaires ignore les horaires de toutes les zones",
+    "openingHours.saved": "Horaires enregistrés",
+    "openingHours.errorTimes": "Choisissez au moins un jour et des heures d'ouverture et de fermeture différentes",
+    "openingHours.open": "Ouvert",
+    "openingHours.openUntil": "Ouvert · la musique s'arrête à {time}",
+    "openingHours.closed": "Fermé",
+    "openingHours.closedUntil": "Fermé · la musique démarre {day} {time}",
+    "scheduleCalendar.listView": "Liste",
+    "scheduleCalendar.weekView": "Semaine",
+    "scheduleCalendar.thisWeek": "Cette semaine",
+    "scheduleCalendar.noZone": "Appareils sans zone",
+    "scheduleCalendar.nothingScheduled": "Rien de programmé, la musique actuelle continue",
+    "scheduleCalendar.closed": "Fermé, pas de musique",
+    "scheduleCalendar.hint": "Cliquez sur une heure pour voir ce qui sera joué. Faites glisser un planning pour le déplacer, ou son bord inférieur pour changer sa fin. Les parties hachurées sont couvertes par une exception, un planning daté ou une priorité plus élevée.",
+    "scheduleTemplates.title": "Modèles de programmation",
+    "scheduleTemplates.desc": "Enregistrez un ensemble de programmations et appliquez-le à une zone ou à tout le compte",
+    "scheduleTemplates.saveAsTemplate": "Enregistrer comme modèle",
+    "scheduleTemplates.name": "Nom du modèle",
+    "scheduleTemplates.namePlaceholder": "ex. Semaine type",
+    "scheduleTemplates.sourceZone": "Copier les programmations de",
+    "scheduleTemplates.noTemplates": "Aucun modèle pour l'instant",
+    "scheduleTemplates.scheduleCount": "{count} programmations",
+    "scheduleTemplates.apply": "Appliquer",
+    "scheduleTemplates.applyTitle": "Appliquer « {name} »",
+    "scheduleTemplates.applyDesc": "Le modèle remplace les programmations de la zone choisie. Vérifiez les changements avant de l'appliquer.",
+    "scheduleTemplates.targetZone": "Appliquer à",
+    "scheduleTemplates.removed": "Sera supprimé",
+    "scheduleTemplates.added": "Sera ajouté",
+    "scheduleTemplates.kept": "Reste identique",
+    "scheduleTemplates.unavailable": "Ignoré (playlist indisponible)",
+    "scheduleTemplates.noChanges": "Rien ne change, ces programmations correspondent déjà au modèle",
+    "scheduleTemplates.confirmApply": "Remplacer les programmations",
+    "scheduleTemplates.applied": "Modèle appliqué",
+    "scheduleTemplates.saved": "Modèle enregistré",
+    "scheduleTemplates.errorName": "Veuillez saisir un nom pour le modèle",
+    "scheduleTemplates.errorEmpty": "Aucune programmation à enregistrer dans cette zone",
+    "scheduleTemplates.sentToYou": "Nouveau modèle de programmation : {name}",
+    "scheduleTemplates.review": "Vérifier",
+    "scheduleTemplates.dismiss": "Ignorer",
+    
+    // Billing profile
+    "billingProfile.title": "Informations de facturation",
+    "billingProfile.subtitle": "Les informations de votre entreprise pour vos factures et reçus. Les modifications s'appliquent dès le prochain paiement ou la prochaine facture.",
+    "billingProfile.selectCountry": "Sélectionnez un pays",
+    "billingProfile.invoiceEmail": "E-mail de facturation (facultatif)",
+    "billingProfile.invoiceEmailPlaceholder": "factures@entreprise.fr",
+    "billingProfile.invoiceEmailHint": "Les factures sont aussi envoyées à cette adresse, par ex. à votre service comptable",
+    "billingProfile.vatValid": "Vérifié avec VIES",
+    "billingProfile.vatUnverified": "VIES est injoignable. Nous vérifierons à nouveau votre numéro de TVA avant votre prochaine facture.",
+    "billingProfile.vatInvalid": "Non valide selon VIES, la TVA est donc facturée",
+    "billingProfile.reverseCharge": "Autoliquidation : vos factures sont émises sans TVA.",
+    "billingProfile.save": "Enregistrer les informations",
+    "billingProfile.saved": "Informations de facturation enregistrées",
+    
+    // Organizations
+    "organization.title": "Organisation",
+    "organization.subtitle": "Partagez ce compte avec votre équipe. Chacun se connecte avec sa propre adresse e-mail et obtient l'accès permis par son rôle.",
+    "organization.switch": "Organisation actuelle",
+    "organization.name": "Nom de l'organisation",
+    "organization.saved": "Organisation mise à jour",
+    "organization.members": "Membres",
+    "organization.you": "vous",
+    "organization.leave": "Quitter l'organisation",
+    "organization.left": "Vous avez quitté l'organisation",
+    "organization.memberRemoved": "Membre retiré",
+    "organization.invite": "Inviter un membre de l'équipe",
+    "organization.inviteDesc": "La personne reçoit un e-mail et rejoint l'organisation en se connectant avec cette adresse.",
+    "organization.emailPlaceholder": "collegue@exemple.fr",
+    "organization.sendInvite": "Inviter",
+    "organization.inviteSent": "Invitation envoyée",
+    "organization.inviteFailed": "Impossible d'envoyer l'invitation",
+    "organization.pending": "Invitations en attente",
+    "organization.revoke": "Révoquer",
+    "organization.role.owner": "Propriétaire",
+    "organization.role.billing": "Facturation",
+    "organization.role.manager": "Responsable",
+    "organization.role.player": "Lecture seule",
+    "organization.roleDesc.owner": "Accès complet, y compris les membres et la facturation.",
+    "organization.roleDesc.billing": "Gère l'abonnement, les factures et les informations de facturation.",
+    "organization.roleDesc.manager": "Gère les programmations, les zones et les appareils.",
+    "organization.roleDesc.player": "Diffuse la musique et suit les programmations.",
+    
+    // Device pairing
+    "pair.title": "Associer cet appareil",
+    "pair.subtitle": "Saisissez le code affiché dans Profil → Appareils associés sur le téléphone ou l'ordinateur du titulaire du compte.",
+    "pair.code": "Code d'association",
+    "pair.submit": "Associer l'appareil",
+    "pair.success": "Appareil associé",
+    "pair.failed": "Impossible d'associer cet appareil",
+    "pair.signInInstead": "Se connecter plutôt avec un e-mail",
+    "pair.link": "Vous installez un appareil en magasin ? Associez-le avec un code",
+    "pairedDevices.title": "Appareils associés",
+    "pairedDevices.subtitle": "Ajoutez des tablettes et des lecteurs sans partager votre mot de passe. Les appareils associés peuvent seulement diffuser de la musique et suivre vos programmations, et chacun utilise un emplacement d'appareil.",
+    "pairedDevices.none": "Aucun appareil associé pour l'instant",
+    "pairedDevices.pairedOn": "Associé le {date}",
+    "pairedDevices.revoke": "Révoquer",
+    "pairedDevices.revoked": "Appareil révoqué",
+    "pairedDevices.name": "Nom de l'appareil",
+    "pairedDevices.namePlaceholder": "ex. Tablette du bar",
+    "pairedDevices.createCode": "Créer un code",
+    "pairedDevices.enterCode": "Sur « {name} », ouvrez {url} et saisissez :",
+    "pairedDevices.expiresIn": "Expire dans {time}",
+    "pairedDevices.confirmRevokeTitle": "Révoquer cet appareil ?",
+    "pairedDevices.confirmRevokeDesc": "« {name} » sera déconnecté et arrêtera la lecture. Vous pourrez l'associer à nouveau avec un nouveau code.",
     "profile.viewTerms": "Voir les conditions",
     "profile.viewPrivacy": "Voir la politique de confidentialité",
     "profile.changePassword": "Changer le mot de passe",
@@ -3514,6 +4925,59 @@ export const translations: Record<Language, Record<string, string>> = {
     "devices.validUntil": "Valable jusqu'au renouvellement de l'abonnement",
     "devices.thenRegular": "Ensuite",
     "devices.invoiceNote": "Une facture sera envoyée pour le paiement",
+    "zones.title": "Zones",
+    "zones.subtitle": "Regroupez vos appareils en zones (ex. bar, terrasse) pour que chaque zone suive son propre programme",
+    "zones.add": "Ajouter une zone",
+    "zones.edit": "Modifier la zone",
+    "zones.name": "Nom de la zone",
+    "zones.namePlaceholder": "ex. Terrasse",
+    "zones.timezoneDesc": "Les nouveaux programmes de cette zone utilisent ce fuseau horaire",
+    "zones.noZones": "Aucune zone pour l'instant. Tous les appareils suivent les programmes du compte.",
+    "zones.devices": "Appareils actifs",
+    "zones.noDevices": "Aucun appareil actif",
+    "zones.thisDevice": "Cet appareil",
+    "zones.noZone": "Aucune zone",
+    "zones.saved": "Zone enregistrée",
+    "zones.deleted": "Zone supprimée",
+    "zones.deviceAssigned": "Zone de l'appareil mise à jour",
+    "zones.errorSaving": "Impossible d'enregistrer la zone",
+    "zones.confirmDeleteTitle": "Supprimer la zone ?",
+    "zones.confirmDeleteDesc": "Les programmes et exceptions de « {zone} » seront supprimés et ses appareils suivront les programmes du compte.",
+    "remote.title": "Télécommande",
+    "remote.subtitle": "Voyez ce que joue chaque appareil et contrôlez-le d'ici",
+    "remote.unreachable": "Aucune réponse – l'application est peut-être fermée sur cet appareil",
+    "remote.nothingPlaying": "Aucune lecture",
+    "remote.playing": "En lecture",
+    "remote.paused": "En pause",
+    "remote.choosePlaylist": "Changer de playlist",
+    "remote.commandFailed": "Impossible d'envoyer la commande",
+    "remote.silentFor": "Silencieux depuis {duration}",
+    "remote.minutes": "{count} min",
+    "remote.hours": "{count} h",
+    "remote.lastReported": "dernier signalement {track} à {time}",
+    "silenceAlerts.title": "Alertes de silence",
+    "silenceAlerts.subtitle": "Recevez un e-mail lorsqu'un appareil cesse de jouer alors que votre planning prévoit de la musique",
+    "silenceAlerts.enable": "M'envoyer un e-mail quand la musique s'arrête",
+    "silenceAlerts.enableDesc": "Envoyé à l'e-mail de votre compte lorsqu'un appareil est silencieux depuis 15 minutes pendant une plage planifiée. Nécessite que la planification soit activée.",
+    "silenceAlerts.quietHours": "Heures calmes",
+    "silenceAlerts.quietHoursDesc": "Aucune alerte n'est envoyée pendant ces heures. Laissez vide pour recevoir des alertes à tout moment.",
+    "silenceAlerts.quietFrom": "De",
+    "silenceAlerts.quietUntil": "À",
+    "silenceAlerts.quietHoursIncomplete": "Définissez une heure de début et de fin, ou laissez les deux vides",
+    "silenceAlerts.saved": "Paramètres des alertes de silence enregistrés",
+    "offlineMode.enable": "Mode hors ligne",
+    "offlineMode.enableDesc": "Téléchargez les playlists planifiées actuelles et à venir pour que la musique continue en cas de coupure internet",
+    "offlineMode.enabled": "Mode hors ligne activé",
+    "offlineMode.disabled": "Mode hors ligne désactivé",
+    "offlineMode.storageLimit": "Limite de stockage",
+    "offlineMode.usage": "{count} titres téléchargés · {used} sur {quota}",
+    "offlineMode.downloading": "Téléchargement de {done}/{total} titres...",
+    "offlineMode.upToDate": "À jour (vérifié à {time})",
+    "offlineMode.waiting": "En attente de téléchargement",
+    "offlineMode.quotaReached": "Limite de stockage atteinte - toute la musique planifiée n'est pas disponible hors ligne",
+    "offlineMode.syncFailed": "Échec du téléchargement",
+    "offlineMode.clear": "Effacer les téléchargements",
+    "offlineMode.cleared": "Musique téléchargée supprimée",
     
     // Payment History
     "invoices.title": "Historique des paiements",
@@ -3935,6 +5399,32 @@ export const translations: Record<Language, Record<string, string>> = {
     "schedule.dayThu": "Jeu",
     "schedule.dayFri": "Ven",
     "schedule.daySat": "Sam",
+    "schedule.tip4": "Les programmations avec plage de dates priment sur les programmations hebdomadaires, et les exceptions priment sur les deux",
+    "schedule.dateRange": "Plage de dates (facultatif)",
+    "schedule.validFrom": "Valable à partir du",
+    "schedule.validUntil": "Valable jusqu'au",
+    "schedule.dateRangeDesc": "Limitez cette programmation à certaines dates, par ex. musique de Noël du 1er au 26 décembre",
+    "schedule.fromDate": "À partir du {date}",
+    "schedule.untilDate": "Jusqu'au {date}",
+    "schedule.skipDates": "Dates ignorées (facultatif)",
+    "schedule.skippedDatesCount": "{count} ignorée(s)",
+    "schedule.exceptions": "Exceptions",
+    "schedule.exceptionsDesc": "Jours de fermeture et changements ponctuels pour une date précise",
+    "schedule.addException": "Ajouter une exception",
+    "schedule.editException": "Modifier l'exception",
+    "schedule.noExceptions": "Aucune exception à venir",
+    "schedule.exceptionDate": "Date",
+    "schedule.exceptionNamePlaceholder": "ex. Jour férié",
+    "schedule.exceptionClosed": "Fermé",
+    "schedule.exceptionClosedDesc": "Aucune musique n'est jouée pendant cette exception",
+    "schedule.exceptionOverride": "Remplacement",
+    "schedule.allDay": "Toute la journée",
+    "schedule.timezone": "Fuseau horaire",
+    "schedule.timezoneDesc": "Les heures de début et de fin suivent ce fuseau horaire, changements d'heure inclus",
+    "schedule.deviceTime": "Heure de l'appareil",
+    "schedule.zone": "Zone",
+    "schedule.allZones": "Toutes les zones",
+    "schedule.zoneDesc": "Seuls les appareils de cette zone le suivent. Les programmes de zone l'emportent sur ceux de toutes les zones.",
     
     // Quick Mix
     "quickMix.title": "Mélanger playlists",
@@ -0,0 +1,93 @@
+import { supabase } from "@/integrations/supabase/client";
+import type { Tables, TablesInsert } from "@/integrations/supabase/types";
+import { ScheduleMoment, getMomentInTimeZone, windowCoversMoment } from "@/lib/scheduleResolver";
+
+// Scheduled volume levels: standalone volume slots, or the volume of the playing schedule.
+// The target applies when its slot starts; a manual change overrides it until the next slot starts.
+
+export type VolumeSlot = Tables<"volume_slots">;
+
+export interface ScheduledVolume {
+  key: string; // Identifies the slot and its level, so only a new slot (or an edited level) ends an override
+  volume: number; // 0-100
+}
+
+// Long enough to not be noticed as a jump, short enough to be heard within a minute
+export const VOLUME_RAMP_SECONDS = 5;
+
+const OVERRIDE_KEY = "ambian_volume_override";
+
+export const fetchVolumeSlots = async (userId: string): Promise<VolumeSlot[]> => {
+  const { data, error } = await supabase
+    .from("volume_slots")
+    .select("*")
+    .eq("user_id", userId)
+    .order("start_time");
+
+  if (error) throw error;
+  return data || [];
+};
+
+/**
+ * Create a slot, or update it when `slot.id` is set
+ */
+export const saveVolumeSlot = async (slot: TablesInsert<"volume_slots">) => {
+  const { error } = slot.id
+    ? await supabase.from("volume_slots").update(slot).eq("id", slot.id)
+    : await supabase.from("volume_slots").insert(slot);
+  if (error) throw error;
+};
+
+export const deleteVolumeSlot = async (slotId: string) => {
+  const { error } = await supabase.from("volume_slots").delete().eq("id", slotId);
+  if (error) throw error;
+};
+
+export const volumeSlotCoversMoment = (slot: VolumeSlot, moment: ScheduleMoment): boolean =>
+  slot.is_active &&
+  windowCoversMoment(slot.start_time, slot.end_time, moment, (_, day) => slot.days_of_week.includes(day));
+
+/**
+ * The volume target at an instant: a covering volume slot (zone slots before account-wide ones),
+ * else the active schedule's volume. Pass slots already filtered to the device's zone.
+ */
+export const resolveScheduledVolume = (
+  slots: VolumeSlot[],
+  activeSchedule: { id: string; volume: number | null } | null,
+  now: Date = new Date()
+): ScheduledVolume | null => {
+  const covering = slots.filter(s => volumeSlotCoversMoment(s, getMomentInTimeZone(now, s.timezone)));
+  if (covering.length > 0) {
+    const zoned = covering.filter(s => s.location_id);
+    // Of overlapping slots, the one that started last is the most specific
+    const slot = (zoned.length > 0 ? zoned : covering).reduce((prev, curr) =>
+      curr.start_time > prev.start_time ? curr : prev
+    );
+    return { key: `slot:${slot.id}:${slot.volume}`, volume: slot.volume };
+  }
+
+  if (activeSchedule && activeSchedule.volume !== null) {
+    return { key: `schedule:${activeSchedule.id}:${activeSchedule.volume}`, volume: activeSchedule.volume };
+  }
+  return null;
+};
+
+/**
+ * The manual override stored for a slot, so it survives reloads until the slot ends
+ */
+export const getStoredVolumeOverride = (slotKey: string): number | null => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(OVERRIDE_KEY) || "null");
+    return stored?.key === slotKey && typeof stored.volume === "number" ? stored.volume : null;
+  } catch {
+    return null;
+  }
+};
+
+export const storeVolumeOverride = (override: ScheduledVolume | null) => {
+  if (override) {
+    localStorage.setItem(OVERRIDE_KEY, JSON.stringify(override));
+  } else {
+    localStorage.removeItem(OVERRIDE_KEY);
+  }
+};
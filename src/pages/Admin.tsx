@@ -15,12 +15,14 @@ import { UserManager } from "@/components/admin/UserManager";
 import { PriceMigration } from "@/components/admin/PriceMigration";
 import { Analytics } from "@/components/admin/Analytics";
 import { ActivityLogs } from "@/components/admin/ActivityLogs";
+import { StripeEvents } from "@/components/admin/StripeEvents";
 import { CrossfadeDebugPanel } from "@/components/admin/CrossfadeDebugPanel";
 import { ReferralPartnerManager } from "@/components/admin/ReferralPartnerManager";
 import { DeletedTracksManager } from "@/components/admin/DeletedTracksManager";
 import { AdminNotificationSender } from "@/components/admin/AdminNotificationSender";
 import { PlaylistOrderManager } from "@/components/admin/PlaylistOrderManager";
 import { ImageOptimizer } from "@/components/admin/ImageOptimizer";
+import { TrackAnalyzer } from "@/components/admin/TrackAnalyzer";
 
 const Admin = () => {
   const { isAdmin } = useAuth();
@@ -96,6 +98,7 @@ const Admin = () => {
           {/* Logs Tab */}
           <TabsContent value="logs" className="mt-6 space-y-6">
             <ActivityLogs />
+            <StripeEvents />
             <CrossfadeDebugPanel />
           </TabsContent>
 
@@ -134,6 +137,7 @@ const Admin = () => {
           <TabsContent value="settings" className="mt-6 space-y-6">
             <AdminNotificationSender />
             <ImageOptimizer />
+            <TrackAnalyzer />
             <Card>
               <CardHeader>
                 <CardTitle>Quick Add Mode</CardTitle>
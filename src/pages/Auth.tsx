@@ -606,6 +606,13 @@ const Auth = () => {
                 {t("auth.trialInfo")}
               </p>
             )}
+            {isLogin && (
+              <p className="text-sm text-muted-foreground">
+                <Link to="/pair" className="text-primary hover:underline">
+                  {t("pair.link")}
+                </Link>
+              </p>
+            )}
           </div>
 
           {/* Mobile Pricing Info - Bottom */}
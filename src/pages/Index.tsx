@@ -19,6 +19,8 @@ import { useAuth } from "@/contexts/AuthContext";
 import { usePlayer } from "@/contexts/PlayerContext";
 import { useToast } from "@/hooks/use-toast";
 import { usePlaylistScheduler } from "@/hooks/usePlaylistScheduler";
+import { useAnnouncementScheduler } from "@/hooks/useAnnouncementScheduler";
+import { useOfflineAudioSync } from "@/hooks/useOfflineAudioSync";
 import { usePlayPlaylist } from "@/hooks/usePlayPlaylist";
 import { useNavigate } from "react-router-dom";
 
@@ -53,6 +55,7 @@ const Index = () => {
     disconnectDevice,
     dismissDeviceLimitDialog,
     getDeviceId,
+    isPairedDevice,
   } = useAuth();
   const { currentTrack, isPlaying, handleTrackSelect } = usePlayer();
   const [searchParams] = useSearchParams();
@@ -60,7 +63,13 @@ const Index = () => {
   const { toast } = useToast();
 
   // Auto-play scheduled playlists
-  const { isEnabled: schedulerEnabled, toggleScheduler } = usePlaylistScheduler();
+  const { isEnabled: schedulerEnabled, toggleScheduler, checkSchedule, openingState } = usePlaylistScheduler();
+
+  // Play announcements by their rules
+  const { refreshRules: refreshAnnouncementRules } = useAnnouncementScheduler();
+
+  // Keep offline copies of scheduled playlists (when offline mode is on)
+  useOfflineAudioSync();
 
   // Play playlist by ID (for search results, etc.)
   const { playPlaylist } = usePlayPlaylist(handleTrackSelect);
@@ -347,6 +356,9 @@ const Index = () => {
             onBack={() => handleViewChange("home")} 
             schedulerEnabled={schedulerEnabled}
             onToggleScheduler={toggleScheduler}
+            onAnnouncementsChange={refreshAnnouncementRules}
+            openingState={openingState}
+            onOpeningHoursChange={() => checkSchedule(true)}
           />
         );
       default:
@@ -382,7 +394,7 @@ const Index = () => {
 
 
       {/* Welcome dialog for new users - at root level to survive re-renders */}
-      {user && <WelcomeDialog userId={user.id} userCreatedAt={user.created_at} />}
+      {user && !isPairedDevice && <WelcomeDialog userId={user.id} userCreatedAt={user.created_at} />}
 
       {/* Device limit dialog */}
       <DeviceLimitDialog
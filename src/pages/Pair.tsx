@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Link, useNavigate } from "react-router-dom";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { KeyRound, Loader2 } from "lucide-react";
+import ambianLogo from "@/assets/ambian-logo-new.png";
+import { useLanguage } from "@/contexts/LanguageContext";
+import { pairDevice } from "@/lib/devicePairing";
+
+/**
+ * Pair a shop-floor device with the code from Profile > Devices. The device gets its own
+ * player-only login, so nobody has to type the owner's email and password on it.
+ */
+const Pair = () => {
+  const { t } = useLanguage();
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(false);
+  const navigate = useNavigate();
+  const { toast } = useToast();
+
+  const handlePair = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!code.trim()) return;
+
+    setIsLoading(true);
+    try {
+      const { name } = await pairDevice(code);
+      toast({ title: t("pair.success"), description: name });
+      navigate("/");
+    } catch (error) {
+      toast({
+        title: t("pair.failed"),
+        description: error instanceof Error ? error.message : String(error),
+        variant: "destructive",
+      });
+      setIsLoading(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-background flex items-center justify-center p-4">
+      <div className="w-full max-w-md space-y-6 animate-fade-in">
+        <div className="text-center">
+          <img src={ambianLogo} alt="Ambian" className="h-12 mx-auto mb-6" />
+          <h1 className="text-2xl font-bold text-foreground">
+            {t("pair.title")}
+          </h1>
+          <p className="text-muted-foreground mt-2">
+            {t("pair.subtitle")}
+          </p>
+        </div>
+
+        <form onSubmit={handlePair} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="pairing-code">{t("pair.code")}</Label>
+            <div className="relative">
+              <KeyRound className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-muted-foreground" />
+              <Input
+                id="pairing-code"
+                placeholder="ABCD-2345"
+                value={code}
+                onChange={(e) => setCode(e.target.value.toUpperCase())}
+                className="pl-10 h-12 bg-card border-border font-mono tracking-widest uppercase"
+                autoComplete="off"
+                autoCapitalize="characters"
+                maxLength={9}
+                required
+              />
+            </div>
+          </div>
+
+          <Button type="submit" className="w-full h-12" disabled={isLoading || !code.trim()}>
+            {isLoading ? <Loader2 className="w-5 h-5 animate-spin" /> : t("pair.submit")}
+          </Button>
+        </form>
+
+        <p className="text-center text-sm text-muted-foreground">
+          <Link to="/auth" className="text-primary hover:underline">
+            {t("pair.signInInstead")}
+          </Link>
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default Pair;
@@ -23,10 +23,11 @@ import {
 } from "@/components/ui/dialog";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { BILLING_COUNTRIES, fetchBillingProfile } from "@/lib/billingProfile";
 
 
 const Pricing = () => {
-  const { user, subscription, checkSubscription } = useAuth();
+  const { user, subscription, checkSubscription, accountUserId, currentOrganization } = useAuth();
   const { t } = useLanguage();
   const { currency, getPriceId, getPrice, getYearlySavings } = useCurrency();
   const [selectedPlan, setSelectedPlan] = useState<"monthly" | "yearly">("yearly");
@@ -100,6 +101,23 @@ const Pricing = () => {
     verifyPayment();
   }, [searchParams, user, checkSubscription]);
 
+  // Prefill the invoice form with the saved billing details
+  useEffect(() => {
+    if (!showInvoiceDialog || !user) return;
+
+    fetchBillingProfile(accountUserId ?? user.id)
+      .then(profile => {
+        if (!profile) return;
+        setCompanyName(profile.company_name || "");
+        setAddressLine(profile.address_line1 || "");
+        setCity(profile.city || "");
+        setPostalCode(profile.postal_code || "");
+        setCountry(profile.country || "FI");
+        setVatId(profile.vat_id || "");
+      })
+      .catch(error => console.error("Failed to load billing profile:", error));
+  }, [showInvoiceDialog, user, accountUserId]);
+
   // Check if user has open invoices (to block invoice requests upfront)
   useEffect(() => {
     const checkOpenInvoices = async () => {
@@ -148,6 +166,7 @@ const Pricing = () => {
           priceId,
           paymentMode: paymentType === "subscription" ? "subscription" : "payment",
           currency,
+          organizationId: currentOrganization?.id,
         },
       });
 
@@ -199,6 +218,7 @@ const Pricing = () => {
           },
           vatId: vatId.trim() || undefined,
           currency,
+          organizationId: currentOrganization?.id,
         },
       });
 
@@ -678,22 +698,9 @@ const Pricing = () => {
                   onChange={(e) => setCountry(e.target.value)}
                   className="flex h-9 w-full rounded-md border border-input bg-background px-3 py-2 text-sm ring-offset-background focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-ring focus-visible:ring-offset-2"
                 >
-                  <option value="FI">{t("countries.finland")}</option>
-                  <option value="SE">{t("countries.sweden")}</option>
-                  <option value="DE">{t("countries.germany")}</option>
-                  <option value="FR">{t("countries.france")}</option>
-                  <option value="NL">{t("countries.netherlands")}</option>
-                  <option value="BE">{t("countries.belgium")}</option>
-                  <option value="AT">{t("countries.austria")}</option>
-                  <option value="ES">{t("countries.spain")}</option>
-                  <option value="IT">{t("countries.italy")}</option>
-                  <option value="PT">{t("countries.portugal")}</option>
-                  <option value="NO">{t("countries.norway")}</option>
-                  <option value="DK">{t("countries.denmark")}</option>
-                  <option value="PL">{t("countries.poland")}</option>
-                  <option value="IE">{t("countries.ireland")}</option>
-                  <option value="GB">{t("countries.uk")}</option>
-                  <option value="US">{t("countries.usa")}</option>
+                  {BILLING_COUNTRIES.map(c => (
+                    <option key={c.code} value={c.code}>{t(c.labelKey)}</option>
+                  ))}
                 </select>
               </div>
               <div className="space-y-1.5">
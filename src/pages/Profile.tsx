@@ -3,6 +3,7 @@ import { useNavigate, useSearchParams } from "react-router-dom";
 import { useAuth } from "@/contexts/AuthContext";
 import { useLanguage } from "@/contexts/LanguageContext";
 import { useCurrency } from "@/contexts/CurrencyContext";
+import { usePlayer } from "@/contexts/PlayerContext";
 import { supabase } from "@/integrations/supabase/client";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,6 +14,16 @@ import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent,
 import { useToast } from "@/hooks/use-toast";
 import { ArrowLeft, User, Mail, CreditCard, Calendar, Loader2, ExternalLink, FileText, Download, Monitor, Plus, Globe, Smartphone, Eye, RefreshCw, Clock, Trash2, X, Lock } from "lucide-react";
 import { Switch } from "@/components/ui/switch";
+import DeviceZonesCard from "@/components/DeviceZonesCard";
+import DeviceRemoteCard from "@/components/DeviceRemoteCard";
+import SilenceAlertsCard from "@/components/SilenceAlertsCard";
+import BillingProfileCard from "@/components/BillingProfileCard";
+import OrganizationCard from "@/components/OrganizationCard";
+import PairedDevicesCard from "@/components/PairedDevicesCard";
+import { canManageBilling, canManageDevices } from "@/lib/organizations";
+import OfflineModeSettings from "@/components/OfflineModeSettings";
+import CrossfadeOptions from "@/components/CrossfadeOptions";
+import ShuffleRulesSettings from "@/components/ShuffleRulesSettings";
 
 
 interface Invoice {
@@ -60,9 +71,13 @@ interface TimeRemaining {
 }
 
 const Profile = () => {
-  const { user, subscription, checkSubscription, signOut } = useAuth();
+  const { user, subscription, checkSubscription, signOut, currentOrganization, orgRole } = useAuth();
+  // Before organizations load (or without one) the login is its own account
+  const showBilling = !orgRole || canManageBilling(orgRole);
+  const showDevices = !orgRole || canManageDevices(orgRole);
   const { language, setLanguage, t, languageNames, availableLanguages } = useLanguage();
   const { getPrice, currency } = useCurrency();
+  const { crossfade: crossfadeEnabled, handleCrossfadeToggle, normalizeLoudness, setNormalizeLoudness } = usePlayer();
   const [fullName, setFullName] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [isLoadingPortal, setIsLoadingPortal] = useState(false);
@@ -158,10 +173,6 @@ const Profile = () => {
   }, [searchParams, checkSubscription, toast, navigate, t]);
 
   const [schedulingEnabled, setSchedulingEnabled] = useState(false);
-  const [crossfadeEnabled, setCrossfadeEnabled] = useState(() => {
-    const saved = localStorage.getItem("ambian_crossfade");
-    return saved === null ? true : saved === "true";
-  });
   useEffect(() => {
     const loadProfile = async () => {
       if (!user) return;
@@ -189,7 +200,9 @@ const Profile = () => {
     setIsLoadingInvoices(true);
 
     try {
-      const { data, error } = await supabase.functions.invoke("get-invoices");
+      const { data, error } = await supabase.functions.invoke("get-invoices", {
+        body: { organizationId: currentOrganization?.id },
+      });
       if (error) throw error;
       setInvoices(data?.invoices || []);
     } catch (error: any) {
@@ -202,14 +215,16 @@ const Profile = () => {
   useEffect(() => {
     loadInvoices();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.id]); // Only reload when user ID changes
+  }, [user?.id, currentOrganization?.id]); // Only reload when the user or organization changes
 
   const loadDeviceSlots = async () => {
     if (!user) return;
     setIsLoadingSlots(true);
 
     try {
-      const { data, error } = await supabase.functions.invoke("get-device-slots");
+      const { data, error } = await supabase.functions.invoke("get-device-slots", {
+        body: { organizationId: currentOrganization?.id },
+      });
       if (error) throw error;
       setDeviceSlotSubs(data?.deviceSlots || []);
     } catch (error: any) {
@@ -222,7 +237,7 @@ const Profile = () => {
   useEffect(() => {
     loadDeviceSlots();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.id]);
+  }, [user?.id, currentOrganization?.id]);
 
   // Load proration info for prepaid users
   const loadPrepaidProration = async () => {
@@ -234,7 +249,7 @@ const Profile = () => {
     setIsLoadingProration(true);
     try {
       const { data, error } = await supabase.functions.invoke("add-device-slot-prepaid", {
-        body: { mode: "calculate" },
+        body: { mode: "calculate", organizationId: currentOrganization?.id },
       });
       
       if (error) throw error;
@@ -257,7 +272,7 @@ const Profile = () => {
   useEffect(() => {
     loadPrepaidProration();
     // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [user?.id, subscription.isRecurring, subscription.subscribed, subscription.isTrial]);
+  }, [user?.id, currentOrganization?.id, subscription.isRecurring, subscription.subscribed, subscription.isTrial]);
 
   // Determine if user has a password set (for OAuth users who may have added one)
   useEffect(() => {
@@ -459,7 +474,7 @@ const Profile = () => {
     setIsLoadingPortal(true);
     try {
       const { data, error } = await supabase.functions.invoke("customer-portal", {
-        body: flow ? { flow } : undefined,
+        body: { flow, organizationId: currentOrganization?.id },
       });
       if (error) throw error;
       
@@ -481,7 +496,7 @@ const Profile = () => {
     setIsChangingPlan(true);
     try {
       const { data, error } = await supabase.functions.invoke("change-subscription-plan", {
-        body: { newPlan },
+        body: { newPlan, organizationId: currentOrganization?.id },
       });
       if (error) throw error;
 
@@ -518,7 +533,7 @@ const Profile = () => {
       setIsLoadingProration(true);
       try {
         const { data, error } = await supabase.functions.invoke("add-device-slot", {
-          body: { mode: "calculate", quantity: deviceSlotQuantity },
+          body: { mode: "calculate", quantity: deviceSlotQuantity, organizationId: currentOrganization?.id },
         });
         
         if (error) throw error;
@@ -556,7 +571,7 @@ const Profile = () => {
     setIsLoadingDevice(true);
     try {
       const { data, error } = await supabase.functions.invoke("add-device-slot", { 
-        body: { quantity: deviceSlotQuantity }
+        body: { quantity: deviceSlotQuantity, organizationId: currentOrganization?.id }
       });
       if (error) throw error;
       
@@ -593,7 +608,7 @@ const Profile = () => {
     setIsLoadingDevice(true);
     try {
       const { data, error } = await supabase.functions.invoke("add-device-slot-prepaid", {
-        body: { mode: "checkout", quantity: deviceSlotQuantity, currency },
+        body: { mode: "checkout", quantity: deviceSlotQuantity, currency, organizationId: currentOrganization?.id },
       });
       
       if (error) throw error;
@@ -625,7 +640,7 @@ const Profile = () => {
     setCancellingSlotId(itemId);
     try {
       const { data, error } = await supabase.functions.invoke("cancel-device-slot", {
-        body: { itemId, subscriptionId, quantityToRemove: 1 },
+        body: { itemId, subscriptionId, quantityToRemove: 1, organizationId: currentOrganization?.id },
       });
       if (error) throw error;
       
@@ -691,538 +706,562 @@ const Profile = () => {
           </div>
         </div>
 
+        {/* Organization Card */}
+        <OrganizationCard />
+
         {/* Subscription Card */}
-        <Card className="bg-card border-border">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <CreditCard className="w-5 h-5" />
-              {t("subscription.title")}
-            </CardTitle>
-            <CardDescription>{t("subscription.manage")}</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {/* Open Invoice Alert - show if there are unpaid invoices */}
-            {invoices.some(inv => inv.status === "open") && (
-              <div className="p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
-                <div className="flex items-center justify-between">
-                  <div>
-                    <div className="flex items-center gap-2 text-yellow-500 mb-1">
-                      <FileText className="w-5 h-5" />
-                      <span className="font-semibold">{t("subscription.paymentDue") || "Payment Due"}</span>
-                    </div>
-                    {(() => {
-                      const openInvoices = invoices.filter(inv => inv.status === "open");
-                      if (openInvoices.length === 0) return null;
+        {showBilling && (
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <CreditCard className="w-5 h-5" />
+                {t("subscription.title")}
+              </CardTitle>
+              <CardDescription>{t("subscription.manage")}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {/* Open Invoice Alert - show if there are unpaid invoices */}
+              {invoices.some(inv => inv.status === "open") && (
+                <div className="p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <div className="flex items-center gap-2 text-yellow-500 mb-1">
+                        <FileText className="w-5 h-5" />
+                        <span className="font-semibold">{t("subscription.paymentDue") || "Payment Due"}</span>
+                      </div>
+                      {(() => {
+                        const openInvoices = invoices.filter(inv => inv.status === "open");
+                        if (openInvoices.length === 0) return null;
                       
-                      // Calculate total amount across all open invoices
-                      const totalAmount = openInvoices.reduce((sum, inv) => sum + inv.amount, 0);
-                      const currency = openInvoices[0].currency;
+                        // Calculate total amount across all open invoices
+                        const totalAmount = openInvoices.reduce((sum, inv) => sum + inv.amount, 0);
+                        const currency = openInvoices[0].currency;
                       
-                      // Get earliest due date
-                      const dueDates = openInvoices
-                        .filter(inv => inv.dueDate)
-                        .map(inv => inv.dueDate!);
-                      const earliestDueDate = dueDates.length > 0 
-                        ? new Date(Math.min(...dueDates) * 1000) 
-                        : null;
+                        // Get earliest due date
+                        const dueDates = openInvoices
+                          .filter(inv => inv.dueDate)
+                          .map(inv => inv.dueDate!);
+                        const earliestDueDate = dueDates.length > 0 
+                          ? new Date(Math.min(...dueDates) * 1000) 
+                          : null;
                       
-                      return (
-                        <p className="text-sm text-muted-foreground">
-                          {openInvoices.length > 1 && (
-                            <span className="font-medium">{openInvoices.length} {t("invoices.openInvoices") || "open invoices"}</span>
-                          )}
-                          {openInvoices.length > 1 ? " · " : ""}
-                          {t("invoices.total") || "Total"}: {formatCurrency(totalAmount, currency)}
-                          {earliestDueDate && (
-                            <>
-                              <br className="sm:hidden" />
-                              <span className="hidden sm:inline"> · </span>
-                              {t("invoices.dueBy")}: {earliestDueDate.toLocaleDateString()}
-                            </>
-                          )}
-                        </p>
-                      );
-                    })()}
-                  </div>
-                  <div className="flex flex-wrap gap-2 mt-2 sm:mt-0">
-                    {invoices.filter(inv => inv.status === "open").map((openInvoice, idx) => (
-                      openInvoice.hostedUrl && (
-                        <Button
-                          key={openInvoice.id}
-                          variant="default"
-                          size="sm"
-                          onClick={() => window.open(openInvoice.hostedUrl!, "_blank")}
-                          className="bg-yellow-500 hover:bg-yellow-600 text-black"
-                        >
-                          {invoices.filter(inv => inv.status === "open").length > 1 
-                            ? `${t("invoices.payNow")} #${idx + 1}`
-                            : t("invoices.payNow")}
-                        </Button>
-                      )
-                    ))}
+                        return (
+                          <p className="text-sm text-muted-foreground">
+                            {openInvoices.length > 1 && (
+                              <span className="font-medium">{openInvoices.length} {t("invoices.openInvoices") || "open invoices"}</span>
+                            )}
+                            {openInvoices.length > 1 ? " · " : ""}
+                            {t("invoices.total") || "Total"}: {formatCurrency(totalAmount, currency)}
+                            {earliestDueDate && (
+                              <>
+                                <br className="sm:hidden" />
+                                <span className="hidden sm:inline"> · </span>
+                                {t("invoices.dueBy")}: {earliestDueDate.toLocaleDateString()}
+                              </>
+                            )}
+                          </p>
+                        );
+                      })()}
+                    </div>
+                    <div className="flex flex-wrap gap-2 mt-2 sm:mt-0">
+                      {invoices.filter(inv => inv.status === "open").map((openInvoice, idx) => (
+                        openInvoice.hostedUrl && (
+                          <Button
+                            key={openInvoice.id}
+                            variant="default"
+                            size="sm"
+                            onClick={() => window.open(openInvoice.hostedUrl!, "_blank")}
+                            className="bg-yellow-500 hover:bg-yellow-600 text-black"
+                          >
+                            {invoices.filter(inv => inv.status === "open").length > 1 
+                              ? `${t("invoices.payNow")} #${idx + 1}`
+                              : t("invoices.payNow")}
+                          </Button>
+                        )
+                      ))}
+                    </div>
                   </div>
+                  <p className="text-xs text-yellow-600 mt-3 flex items-center gap-1">
+                    <Clock className="w-3 h-3" />
+                    {t("subscription.ibanNote")}
+                  </p>
                 </div>
-                <p className="text-xs text-yellow-600 mt-3 flex items-center gap-1">
-                  <Clock className="w-3 h-3" />
-                  {t("subscription.ibanNote")}
-                </p>
-              </div>
-            )}
+              )}
 
-            {/* Pending Payment Alert - fallback for when invoice data isn't loaded yet */}
-            {subscription.isPendingPayment && !invoices.some(inv => inv.status === "open") && (
-              <div className="p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
-                <div className="flex items-center gap-2 text-yellow-500 mb-2">
-                  <Mail className="w-5 h-5" />
-                  <span className="font-semibold">{t("subscription.pendingPayment") || "Invoice Sent"}</span>
+              {/* Pending Payment Alert - fallback for when invoice data isn't loaded yet */}
+              {subscription.isPendingPayment && !invoices.some(inv => inv.status === "open") && (
+                <div className="p-4 rounded-lg bg-yellow-500/10 border border-yellow-500/30">
+                  <div className="flex items-center gap-2 text-yellow-500 mb-2">
+                    <Mail className="w-5 h-5" />
+                    <span className="font-semibold">{t("subscription.pendingPayment") || "Invoice Sent"}</span>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    {t("subscription.pendingPaymentDesc") || "Check your email for the invoice. You have access until the payment deadline."}
+                  </p>
+                  {subscription.subscriptionEnd && (
+                    <p className="text-sm text-yellow-500/80 mt-2">
+                      {t("subscription.paymentDeadline") || "Payment deadline"}: {new Date(subscription.subscriptionEnd).toLocaleDateString()}
+                    </p>
+                  )}
                 </div>
-                <p className="text-sm text-muted-foreground">
-                  {t("subscription.pendingPaymentDesc") || "Check your email for the invoice. You have access until the payment deadline."}
-                </p>
-                {subscription.subscriptionEnd && (
-                  <p className="text-sm text-yellow-500/80 mt-2">
-                    {t("subscription.paymentDeadline") || "Payment deadline"}: {new Date(subscription.subscriptionEnd).toLocaleDateString()}
+              )}
+
+              <div className="flex items-center justify-between p-4 rounded-lg bg-secondary">
+                <div>
+                  <p className="font-medium text-foreground">
+                    {subscription.cancelAtPeriodEnd
+                      ? t("subscription.cancelled")
+                      : subscription.isPendingPayment
+                        ? t("subscription.awaitingPayment") || "Awaiting Payment"
+                        : subscription.isTrial 
+                          ? t("subscription.trial") 
+                          : subscription.subscribed 
+                            ? t("subscription.active") 
+                            : t("subscription.inactive")}
                   </p>
+                  {subscription.isTrial && trialTimeRemaining && (
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <Clock className="w-3 h-3" />
+                      <span>
+                        {t("subscription.timeRemaining") || "Time remaining"}:{" "}
+                        <span className="font-mono">
+                          {trialTimeRemaining.days > 0 && `${trialTimeRemaining.days}d `}
+                          {formatNumber(trialTimeRemaining.hours)}:{formatNumber(trialTimeRemaining.minutes)}:{formatNumber(trialTimeRemaining.seconds)}
+                        </span>
+                      </span>
+                    </p>
+                  )}
+                  {subscription.isTrial && !trialTimeRemaining && (
+                    <p className="text-sm text-muted-foreground">
+                      {t("subscription.trialDaysRemaining", { days: subscription.trialDaysRemaining })}
+                    </p>
+                  )}
+                  {subscription.subscribed && !subscription.isTrial && !subscription.isPendingPayment && !subscription.cancelAtPeriodEnd && subscription.planType && (
+                    <p className="text-sm text-muted-foreground">
+                      {subscription.planType === "yearly" ? t("subscription.yearly") : t("subscription.monthly")}
+                      {subscription.collectionMethod && (
+                        <span className="ml-2">
+                          • {subscription.collectionMethod === "send_invoice" 
+                            ? t("subscription.payByInvoice") 
+                            : t("subscription.payByCard")}
+                        </span>
+                      )}
+                    </p>
+                  )}
+                  {/* Renews on - show for active non-cancelled subscriptions */}
+                  {subscription.subscriptionEnd && !subscription.cancelAtPeriodEnd && !subscription.isTrial && (
+                    <p className="text-sm text-muted-foreground flex items-center gap-1">
+                      <Calendar className="w-3 h-3" />
+                      {t("subscription.renewsOn")} {new Date(subscription.subscriptionEnd).toLocaleDateString()}
+                    </p>
+                  )}
+                  {/* Show valid until for cancelled subscriptions */}
+                  {subscription.cancelAtPeriodEnd && subscription.subscriptionEnd && (
+                    <p className="text-sm text-muted-foreground">
+                      {t("subscription.validUntil")} {new Date(subscription.subscriptionEnd).toLocaleDateString()}
+                    </p>
+                  )}
+                </div>
+              
+                {/* Reactivate button - between valid until and cancelled badge */}
+                {subscription.cancelAtPeriodEnd && (
+                  <Button
+                    variant="default"
+                    size="sm"
+                    onClick={() => navigate("/pricing")}
+                  >
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    {t("subscription.reactivate")}
+                  </Button>
                 )}
-              </div>
-            )}
-
-            <div className="flex items-center justify-between p-4 rounded-lg bg-secondary">
-              <div>
-                <p className="font-medium text-foreground">
+              
+                <div
+                  className={`px-3 py-1 rounded-full text-sm font-medium ${
+                    subscription.cancelAtPeriodEnd
+                      ? "bg-orange-500/20 text-orange-500"
+                      : subscription.isPendingPayment
+                        ? "bg-yellow-500/20 text-yellow-500"
+                        : subscription.subscribed
+                          ? subscription.isTrial 
+                            ? "bg-yellow-500/20 text-yellow-500"
+                            : "bg-green-500/20 text-green-500"
+                          : "bg-destructive/20 text-destructive"
+                  }`}
+                >
                   {subscription.cancelAtPeriodEnd
                     ? t("subscription.cancelled")
-                    : subscription.isPendingPayment
-                      ? t("subscription.awaitingPayment") || "Awaiting Payment"
+                    : subscription.isPendingPayment 
+                      ? t("subscription.pending") || "Pending" 
                       : subscription.isTrial 
                         ? t("subscription.trial") 
                         : subscription.subscribed 
-                          ? t("subscription.active") 
-                          : t("subscription.inactive")}
-                </p>
-                {subscription.isTrial && trialTimeRemaining && (
-                  <p className="text-sm text-muted-foreground flex items-center gap-1">
-                    <Clock className="w-3 h-3" />
-                    <span>
-                      {t("subscription.timeRemaining") || "Time remaining"}:{" "}
-                      <span className="font-mono">
-                        {trialTimeRemaining.days > 0 && `${trialTimeRemaining.days}d `}
-                        {formatNumber(trialTimeRemaining.hours)}:{formatNumber(trialTimeRemaining.minutes)}:{formatNumber(trialTimeRemaining.seconds)}
-                      </span>
-                    </span>
-                  </p>
-                )}
-                {subscription.isTrial && !trialTimeRemaining && (
-                  <p className="text-sm text-muted-foreground">
-                    {t("subscription.trialDaysRemaining", { days: subscription.trialDaysRemaining })}
-                  </p>
-                )}
-                {subscription.subscribed && !subscription.isTrial && !subscription.isPendingPayment && !subscription.cancelAtPeriodEnd && subscription.planType && (
-                  <p className="text-sm text-muted-foreground">
-                    {subscription.planType === "yearly" ? t("subscription.yearly") : t("subscription.monthly")}
-                    {subscription.collectionMethod && (
-                      <span className="ml-2">
-                        • {subscription.collectionMethod === "send_invoice" 
-                          ? t("subscription.payByInvoice") 
-                          : t("subscription.payByCard")}
-                      </span>
-                    )}
-                  </p>
-                )}
-                {/* Renews on - show for active non-cancelled subscriptions */}
-                {subscription.subscriptionEnd && !subscription.cancelAtPeriodEnd && !subscription.isTrial && (
-                  <p className="text-sm text-muted-foreground flex items-center gap-1">
-                    <Calendar className="w-3 h-3" />
-                    {t("subscription.renewsOn")} {new Date(subscription.subscriptionEnd).toLocaleDateString()}
-                  </p>
-                )}
-                {/* Show valid until for cancelled subscriptions */}
-                {subscription.cancelAtPeriodEnd && subscription.subscriptionEnd && (
-                  <p className="text-sm text-muted-foreground">
-                    {t("subscription.validUntil")} {new Date(subscription.subscriptionEnd).toLocaleDateString()}
-                  </p>
-                )}
-              </div>
-              
-              {/* Reactivate button - between valid until and cancelled badge */}
-              {subscription.cancelAtPeriodEnd && (
-                <Button
-                  variant="default"
-                  size="sm"
-                  onClick={() => navigate("/pricing")}
-                >
-                  <RefreshCw className="w-4 h-4 mr-2" />
-                  {t("subscription.reactivate")}
-                </Button>
-              )}
-              
-              <div
-                className={`px-3 py-1 rounded-full text-sm font-medium ${
-                  subscription.cancelAtPeriodEnd
-                    ? "bg-orange-500/20 text-orange-500"
-                    : subscription.isPendingPayment
-                      ? "bg-yellow-500/20 text-yellow-500"
-                      : subscription.subscribed
-                        ? subscription.isTrial 
-                          ? "bg-yellow-500/20 text-yellow-500"
-                          : "bg-green-500/20 text-green-500"
-                        : "bg-destructive/20 text-destructive"
-                }`}
-              >
-                {subscription.cancelAtPeriodEnd
-                  ? t("subscription.cancelled")
-                  : subscription.isPendingPayment 
-                    ? t("subscription.pending") || "Pending" 
-                    : subscription.isTrial 
-                      ? t("subscription.trial") 
-                      : subscription.subscribed 
-                        ? "Active" 
-                        : "Inactive"}
+                          ? "Active" 
+                          : "Inactive"}
+                </div>
               </div>
-            </div>
 
 
 
-            {/* Subscribe Now for Trial Users */}
-            {subscription.isTrial && (
-              <div className="p-4 rounded-lg border border-primary/30 bg-primary/5">
-                <p className="font-medium text-foreground mb-3">{t("subscription.subscribeNow")}</p>
-                <Button
-                  variant="default"
-                  onClick={() => navigate("/pricing")}
-                  className="w-full sm:w-auto"
-                >
-                  {t("subscription.subscribeNow")}
-                </Button>
-              </div>
-            )}
-
-            <div className="flex flex-col sm:flex-row gap-3 flex-wrap">
-              {/* Manage Subscription - show for any user with an active or cancelled subscription */}
-              {(subscription.subscribed || subscription.cancelAtPeriodEnd) && (
-                <Button
-                  variant="outline"
-                  onClick={() => handleManageSubscription()}
-                  disabled={isLoadingPortal}
-                  className="w-full sm:w-auto"
-                >
-                  {isLoadingPortal ? (
-                    <Loader2 className="w-4 h-4 animate-spin mr-2" />
-                  ) : (
-                    <ExternalLink className="w-4 h-4 mr-2" />
-                  )}
-                  {t("subscription.manageBtn")}
-                </Button>
-              )}
-              {/* Subscribe Now - show for users without any subscription */}
-              {!subscription.subscribed && !subscription.cancelAtPeriodEnd && (
-                <Button onClick={() => navigate("/pricing")} className="w-full sm:w-auto">
-                  {t("subscription.subscribeNow")}
-                </Button>
-              )}
-            </div>
-          </CardContent>
-        </Card>
-
-        {/* Device Slots Card */}
-        <Card className="bg-card border-border">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <Monitor className="w-5 h-5" />
-              {t("devices.title")}
-            </CardTitle>
-            <CardDescription>{t("devices.subtitle")}</CardDescription>
-          </CardHeader>
-          <CardContent className="space-y-4">
-            {/* Device List - show all devices including base */}
-            <div className="space-y-2">
-              {/* Base subscription device (only show when user has active subscription) */}
-              {subscription.subscribed && !subscription.isTrial && (
-                <div className="p-3 rounded-lg border border-primary/30 bg-primary/5">
-                  <div className="flex items-center justify-between">
-                    <div className="flex items-center gap-3">
-                      <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center text-primary font-bold text-sm">
-                        1
-                      </div>
-                      <div>
-                        <div className="font-medium text-foreground text-sm">
-                          {t("devices.location") || "Device"} 1
-                        </div>
-                        <div className="text-xs text-muted-foreground">
-                          {t("devices.includedInSubscription") || "Included in subscription"}
-                        </div>
-                      </div>
-                    </div>
-                    <div className="text-xs text-primary font-medium px-2 py-1 rounded bg-primary/10">
-                      {t("devices.included") || "Included"}
-                    </div>
-                  </div>
+              {/* Subscribe Now for Trial Users */}
+              {subscription.isTrial && (
+                <div className="p-4 rounded-lg border border-primary/30 bg-primary/5">
+                  <p className="font-medium text-foreground mb-3">{t("subscription.subscribeNow")}</p>
+                  <Button
+                    variant="default"
+                    onClick={() => navigate("/pricing")}
+                    className="w-full sm:w-auto"
+                  >
+                    {t("subscription.subscribeNow")}
+                  </Button>
                 </div>
               )}
 
-              {/* Additional locations */}
-              {isLoadingSlots ? (
-                <div className="flex items-center justify-center py-4">
-                  <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
-                </div>
-              ) : (
-                deviceSlotSubs.flatMap((slot) => {
-                  // Calculate how many slots are cancelled vs active
-                  const scheduledReduction = slot.scheduledQuantityReduction;
-                  const cancelledCount = slot.cancelAtPeriodEnd 
-                    ? slot.quantity // All cancelled
-                    : scheduledReduction !== undefined 
-                      ? slot.quantity - scheduledReduction // Some cancelled
-                      : 0; // None cancelled
-                  
-                  return Array.from({ length: slot.quantity }, (_, idx) => {
-                    // Later indices are cancelled first (most recently added)
-                    const isCancelled = idx >= (slot.quantity - cancelledCount);
-                    return {
-                      id: slot.id,
-                      subscriptionId: slot.subscriptionId,
-                      index: idx,
-                      period: slot.period,
-                      amount: slot.amount,
-                      currency: slot.currency,
-                      currentPeriodEnd: slot.currentPeriodEnd,
-                      cancelAtPeriodEnd: isCancelled,
-                    } as ExpandedDeviceSlot;
-                  });
-                }).map((expandedSlot, rowIndex) => (
-                  <div
-                    key={`${expandedSlot.id}-${expandedSlot.index}`}
-                    className={`p-3 rounded-lg border ${
-                      expandedSlot.cancelAtPeriodEnd 
-                        ? "border-destructive/30 bg-destructive/5" 
-                        : "border-border bg-secondary/50"
-                    }`}
+              <div className="flex flex-col sm:flex-row gap-3 flex-wrap">
+                {/* Manage Subscription - show for any user with an active or cancelled subscription */}
+                {(subscription.subscribed || subscription.cancelAtPeriodEnd) && (
+                  <Button
+                    variant="outline"
+                    onClick={() => handleManageSubscription()}
+                    disabled={isLoadingPortal}
+                    className="w-full sm:w-auto"
                   >
+                    {isLoadingPortal ? (
+                      <Loader2 className="w-4 h-4 animate-spin mr-2" />
+                    ) : (
+                      <ExternalLink className="w-4 h-4 mr-2" />
+                    )}
+                    {t("subscription.manageBtn")}
+                  </Button>
+                )}
+                {/* Subscribe Now - show for users without any subscription */}
+                {!subscription.subscribed && !subscription.cancelAtPeriodEnd && (
+                  <Button onClick={() => navigate("/pricing")} className="w-full sm:w-auto">
+                    {t("subscription.subscribeNow")}
+                  </Button>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Device Slots Card */}
+        {showBilling && (
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Monitor className="w-5 h-5" />
+                {t("devices.title")}
+              </CardTitle>
+              <CardDescription>{t("devices.subtitle")}</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {/* Device List - show all devices including base */}
+              <div className="space-y-2">
+                {/* Base subscription device (only show when user has active subscription) */}
+                {subscription.subscribed && !subscription.isTrial && (
+                  <div className="p-3 rounded-lg border border-primary/30 bg-primary/5">
                     <div className="flex items-center justify-between">
                       <div className="flex items-center gap-3">
-                        <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm ${
-                          expandedSlot.cancelAtPeriodEnd 
-                            ? "bg-destructive/20 text-destructive" 
-                            : "bg-secondary text-foreground"
-                        }`}>
-                          {rowIndex + 2}
+                        <div className="w-8 h-8 rounded-full bg-primary/20 flex items-center justify-center text-primary font-bold text-sm">
+                          1
                         </div>
                         <div>
                           <div className="font-medium text-foreground text-sm">
-                            {t("devices.location") || "Location"} {rowIndex + 2}
+                            {t("devices.location") || "Device"} 1
                           </div>
                           <div className="text-xs text-muted-foreground">
-                            {expandedSlot.currency === "usd" ? "$" : "€"}{expandedSlot.amount}/{expandedSlot.period === "yearly" ? t("subscription.year") || "year" : t("subscription.month") || "month"}
-                            {" • "}
-                            {expandedSlot.cancelAtPeriodEnd 
-                              ? (t("devices.endsOn") || "Ends") 
-                              : (t("subscription.renewsOn") || "Renews")}: {new Date(expandedSlot.currentPeriodEnd).toLocaleDateString()}
+                            {t("devices.includedInSubscription") || "Included in subscription"}
                           </div>
-                          {expandedSlot.cancelAtPeriodEnd && (
-                            <div className="text-xs text-destructive mt-1">
-                              {t("devices.willBeRemoved") || "Will be removed at end of billing period"}
-                            </div>
-                          )}
                         </div>
                       </div>
-                      {!expandedSlot.cancelAtPeriodEnd && (
-                        <Button
-                          variant="ghost"
-                          size="sm"
-                          onClick={() => handleCancelDeviceSlotConfirm(expandedSlot)}
-                          disabled={cancellingSlotId === expandedSlot.id}
-                          className="text-destructive hover:text-destructive hover:bg-destructive/10"
-                        >
-                          {cancellingSlotId === expandedSlot.id ? (
-                            <Loader2 className="w-4 h-4 animate-spin" />
-                          ) : (
-                            <X className="w-4 h-4" />
-                          )}
-                        </Button>
-                      )}
+                      <div className="text-xs text-primary font-medium px-2 py-1 rounded bg-primary/10">
+                        {t("devices.included") || "Included"}
+                      </div>
                     </div>
                   </div>
-                ))
-              )}
-            </div>
+                )}
 
-            {/* Add Location Button */}
-            {(!subscription.subscribed || subscription.isTrial || subscription.cancelAtPeriodEnd) ? (
-              <div className="p-4 rounded-lg border border-border bg-muted/30 space-y-3">
-                <div className="flex items-center gap-2 text-muted-foreground">
-                  <Plus className="w-5 h-5" />
-                  <p className="font-medium">{t("devices.needMore")}</p>
-                </div>
-                <p className="text-sm text-muted-foreground">
-                  {t("devices.subscriptionRequired") || "An active subscription is required before you can add additional locations."}
-                </p>
-                <Button
-                  onClick={() => navigate("/pricing")}
-                  variant="outline"
-                  className="w-full"
-                >
-                  <CreditCard className="w-4 h-4 mr-2" />
-                  {t("subscription.subscribeNow")}
-                </Button>
-              </div>
-            ) : !subscription.isRecurring ? (
-              // Prepaid users can add devices with prorated pricing
-              <div className="p-4 rounded-lg border border-dashed border-border hover:border-primary/50 transition-colors">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center">
-                      <Plus className="w-4 h-4 text-muted-foreground" />
-                    </div>
-                    <div>
-                      <p className="font-medium text-foreground">{t("devices.addLocation") || "Add another device"}</p>
-                      {isLoadingProration ? (
-                        <p className="text-sm text-muted-foreground flex items-center gap-1">
-                          <Loader2 className="w-3 h-3 animate-spin" />
-                          {t("common.loading") || "Loading..."}
-                        </p>
-                      ) : prepaidProration ? (
-                        <p className="text-sm text-muted-foreground">
-                          {currency === "USD" ? "$" : "€"}{prepaidProration.proratedPrice.toFixed(2)} {t("devices.proratedUntil") || "prorated until"}{" "}
-                          {new Date(prepaidProration.periodEnd).toLocaleDateString()}
-                          <span className="text-xs ml-1">({prepaidProration.remainingDays} {t("devices.daysRemaining") || "days"})</span>
-                          {" • "}{t("pricing.exclVat")}
-                        </p>
-                      ) : (
-                        <p className="text-sm text-muted-foreground">
-                          {t("devices.proratedPricing") || "Prorated for remaining subscription period"}
-                        </p>
-                      )}
-                      <p className="text-xs text-muted-foreground/70 mt-1">
-                        {t("devices.prepaidNotice") || "This is a one-time purchase. You'll need to renew when your subscription expires."}
-                      </p>
+                {/* Additional locations */}
+                {isLoadingSlots ? (
+                  <div className="flex items-center justify-center py-4">
+                    <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+                  </div>
+                ) : (
+                  deviceSlotSubs.flatMap((slot) => {
+                    // Calculate how many slots are cancelled vs active
+                    const scheduledReduction = slot.scheduledQuantityReduction;
+                    const cancelledCount = slot.cancelAtPeriodEnd 
+                      ? slot.quantity // All cancelled
+                      : scheduledReduction !== undefined 
+                        ? slot.quantity - scheduledReduction // Some cancelled
+                        : 0; // None cancelled
+                  
+                    return Array.from({ length: slot.quantity }, (_, idx) => {
+                      // Later indices are cancelled first (most recently added)
+                      const isCancelled = idx >= (slot.quantity - cancelledCount);
+                      return {
+                        id: slot.id,
+                        subscriptionId: slot.subscriptionId,
+                        index: idx,
+                        period: slot.period,
+                        amount: slot.amount,
+                        currency: slot.currency,
+                        currentPeriodEnd: slot.currentPeriodEnd,
+                        cancelAtPeriodEnd: isCancelled,
+                      } as ExpandedDeviceSlot;
+                    });
+                  }).map((expandedSlot, rowIndex) => (
+                    <div
+                      key={`${expandedSlot.id}-${expandedSlot.index}`}
+                      className={`p-3 rounded-lg border ${
+                        expandedSlot.cancelAtPeriodEnd 
+                          ? "border-destructive/30 bg-destructive/5" 
+                          : "border-border bg-secondary/50"
+                      }`}
+                    >
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center gap-3">
+                          <div className={`w-8 h-8 rounded-full flex items-center justify-center font-bold text-sm ${
+                            expandedSlot.cancelAtPeriodEnd 
+                              ? "bg-destructive/20 text-destructive" 
+                              : "bg-secondary text-foreground"
+                          }`}>
+                            {rowIndex + 2}
+                          </div>
+                          <div>
+                            <div className="font-medium text-foreground text-sm">
+                              {t("devices.location") || "Location"} {rowIndex + 2}
+                            </div>
+                            <div className="text-xs text-muted-foreground">
+                              {expandedSlot.currency === "usd" ? "$" : "€"}{expandedSlot.amount}/{expandedSlot.period === "yearly" ? t("subscription.year") || "year" : t("subscription.month") || "month"}
+                              {" • "}
+                              {expandedSlot.cancelAtPeriodEnd 
+                                ? (t("devices.endsOn") || "Ends") 
+                                : (t("subscription.renewsOn") || "Renews")}: {new Date(expandedSlot.currentPeriodEnd).toLocaleDateString()}
+                            </div>
+                            {expandedSlot.cancelAtPeriodEnd && (
+                              <div className="text-xs text-destructive mt-1">
+                                {t("devices.willBeRemoved") || "Will be removed at end of billing period"}
+                              </div>
+                            )}
+                          </div>
+                        </div>
+                        {!expandedSlot.cancelAtPeriodEnd && (
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleCancelDeviceSlotConfirm(expandedSlot)}
+                            disabled={cancellingSlotId === expandedSlot.id}
+                            className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                          >
+                            {cancellingSlotId === expandedSlot.id ? (
+                              <Loader2 className="w-4 h-4 animate-spin" />
+                            ) : (
+                              <X className="w-4 h-4" />
+                            )}
+                          </Button>
+                        )}
+                      </div>
                     </div>
+                  ))
+                )}
+              </div>
+
+              {/* Add Location Button */}
+              {(!subscription.subscribed || subscription.isTrial || subscription.cancelAtPeriodEnd) ? (
+                <div className="p-4 rounded-lg border border-border bg-muted/30 space-y-3">
+                  <div className="flex items-center gap-2 text-muted-foreground">
+                    <Plus className="w-5 h-5" />
+                    <p className="font-medium">{t("devices.needMore")}</p>
                   </div>
+                  <p className="text-sm text-muted-foreground">
+                    {t("devices.subscriptionRequired") || "An active subscription is required before you can add additional locations."}
+                  </p>
                   <Button
-                    onClick={() => {
-                      setDeviceSlotQuantity(1);
-                      handleAddPrepaidDeviceSlot();
-                    }}
-                    disabled={isLoadingDevice || isLoadingProration || !prepaidProration}
-                    size="sm"
+                    onClick={() => navigate("/pricing")}
+                    variant="outline"
+                    className="w-full"
                   >
-                    {isLoadingDevice ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
-                      <>
-                        <Plus className="w-4 h-4 mr-1" />
-                        {t("devices.add") || "Add"}
-                      </>
-                    )}
+                    <CreditCard className="w-4 h-4 mr-2" />
+                    {t("subscription.subscribeNow")}
                   </Button>
                 </div>
-              </div>
-            ) : (
-              <div className="p-4 rounded-lg border border-dashed border-border hover:border-primary/50 transition-colors">
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-3">
-                    <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center">
-                      <Plus className="w-4 h-4 text-muted-foreground" />
+              ) : !subscription.isRecurring ? (
+                // Prepaid users can add devices with prorated pricing
+                <div className="p-4 rounded-lg border border-dashed border-border hover:border-primary/50 transition-colors">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center">
+                        <Plus className="w-4 h-4 text-muted-foreground" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-foreground">{t("devices.addLocation") || "Add another device"}</p>
+                        {isLoadingProration ? (
+                          <p className="text-sm text-muted-foreground flex items-center gap-1">
+                            <Loader2 className="w-3 h-3 animate-spin" />
+                            {t("common.loading") || "Loading..."}
+                          </p>
+                        ) : prepaidProration ? (
+                          <p className="text-sm text-muted-foreground">
+                            {currency === "USD" ? "$" : "€"}{prepaidProration.proratedPrice.toFixed(2)} {t("devices.proratedUntil") || "prorated until"}{" "}
+                            {new Date(prepaidProration.periodEnd).toLocaleDateString()}
+                            <span className="text-xs ml-1">({prepaidProration.remainingDays} {t("devices.daysRemaining") || "days"})</span>
+                            {" • "}{t("pricing.exclVat")}
+                          </p>
+                        ) : (
+                          <p className="text-sm text-muted-foreground">
+                            {t("devices.proratedPricing") || "Prorated for remaining subscription period"}
+                          </p>
+                        )}
+                        <p className="text-xs text-muted-foreground/70 mt-1">
+                          {t("devices.prepaidNotice") || "This is a one-time purchase. You'll need to renew when your subscription expires."}
+                        </p>
+                      </div>
                     </div>
-                    <div>
-                      <p className="font-medium text-foreground">{t("devices.addLocation") || "Add another location"}</p>
-                      <p className="text-sm text-muted-foreground">
-                        {subscription.planType === "yearly" 
-                          ? `${getPrice("deviceSlot", "yearly").formatted}/${t("subscription.year") || "year"}`
-                          : `${getPrice("deviceSlot", "monthly").formatted}/${t("subscription.month") || "month"}`}
-                        {" • "}{t("pricing.exclVat")}
-                      </p>
+                    <Button
+                      onClick={() => {
+                        setDeviceSlotQuantity(1);
+                        handleAddPrepaidDeviceSlot();
+                      }}
+                      disabled={isLoadingDevice || isLoadingProration || !prepaidProration}
+                      size="sm"
+                    >
+                      {isLoadingDevice ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <>
+                          <Plus className="w-4 h-4 mr-1" />
+                          {t("devices.add") || "Add"}
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </div>
+              ) : (
+                <div className="p-4 rounded-lg border border-dashed border-border hover:border-primary/50 transition-colors">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-3">
+                      <div className="w-8 h-8 rounded-full bg-muted flex items-center justify-center">
+                        <Plus className="w-4 h-4 text-muted-foreground" />
+                      </div>
+                      <div>
+                        <p className="font-medium text-foreground">{t("devices.addLocation") || "Add another location"}</p>
+                        <p className="text-sm text-muted-foreground">
+                          {subscription.planType === "yearly" 
+                            ? `${getPrice("deviceSlot", "yearly").formatted}/${t("subscription.year") || "year"}`
+                            : `${getPrice("deviceSlot", "monthly").formatted}/${t("subscription.month") || "month"}`}
+                          {" • "}{t("pricing.exclVat")}
+                        </p>
+                      </div>
                     </div>
+                    <Button
+                      onClick={() => {
+                        setDeviceSlotQuantity(1);
+                        handleAddDeviceSlotClick();
+                      }}
+                      disabled={isLoadingDevice || isLoadingProration}
+                      size="sm"
+                    >
+                      {isLoadingDevice || isLoadingProration ? (
+                        <Loader2 className="w-4 h-4 animate-spin" />
+                      ) : (
+                        <>
+                          <Plus className="w-4 h-4 mr-1" />
+                          {t("devices.add") || "Add"}
+                        </>
+                      )}
+                    </Button>
                   </div>
-                  <Button
-                    onClick={() => {
-                      setDeviceSlotQuantity(1);
-                      handleAddDeviceSlotClick();
-                    }}
-                    disabled={isLoadingDevice || isLoadingProration}
-                    size="sm"
-                  >
-                    {isLoadingDevice || isLoadingProration ? (
-                      <Loader2 className="w-4 h-4 animate-spin" />
-                    ) : (
-                      <>
-                        <Plus className="w-4 h-4 mr-1" />
-                        {t("devices.add") || "Add"}
-                      </>
-                    )}
-                  </Button>
                 </div>
-              </div>
-            )}
+              )}
 
-            {!subscription.subscribed && (
-              <p className="text-sm text-muted-foreground">
-                {t("devices.subscribeFirst")}
-              </p>
-            )}
-          </CardContent>
-        </Card>
+              {!subscription.subscribed && (
+                <p className="text-sm text-muted-foreground">
+                  {t("devices.subscribeFirst")}
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Zones Card */}
+        {showDevices && <DeviceZonesCard />}
+
+        {/* Paired Devices Card */}
+        {showDevices && <PairedDevicesCard />}
+
+        {/* Remote Control Card */}
+        {showDevices && <DeviceRemoteCard />}
+
+        {/* Silence Alerts Card */}
+        <SilenceAlertsCard />
+
+        {/* Billing Details Card */}
+        {showBilling && <BillingProfileCard />}
 
         {/* Invoices Card */}
-        <Card className="bg-card border-border">
-          <CardHeader>
-            <CardTitle className="flex items-center gap-2">
-              <FileText className="w-5 h-5" />
-              {t("invoices.title")}
-            </CardTitle>
-            <CardDescription>{t("invoices.subtitle")}</CardDescription>
-          </CardHeader>
-          <CardContent>
-            {isLoadingInvoices ? (
-              <div className="flex items-center justify-center py-8">
-                <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
-              </div>
-            ) : invoices.filter(inv => inv.status === "paid").length === 0 ? (
-              <p className="text-sm text-muted-foreground py-4">{t("invoices.none")}</p>
-            ) : (
-              <div className="space-y-3">
-                {invoices.filter(inv => inv.status === "paid").map((invoice) => {
-                  const invoiceDate = new Date(invoice.date * 1000);
-                  const monthYear = invoiceDate.toLocaleDateString(language === 'fi' ? 'fi-FI' : language === 'sv' ? 'sv-SE' : language === 'de' ? 'de-DE' : language === 'fr' ? 'fr-FR' : 'en-US', { 
-                    month: 'long', 
-                    year: 'numeric' 
-                  });
+        {showBilling && (
+          <Card className="bg-card border-border">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="w-5 h-5" />
+                {t("invoices.title")}
+              </CardTitle>
+              <CardDescription>{t("invoices.subtitle")}</CardDescription>
+            </CardHeader>
+            <CardContent>
+              {isLoadingInvoices ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : invoices.filter(inv => inv.status === "paid").length === 0 ? (
+                <p className="text-sm text-muted-foreground py-4">{t("invoices.none")}</p>
+              ) : (
+                <div className="space-y-3">
+                  {invoices.filter(inv => inv.status === "paid").map((invoice) => {
+                    const invoiceDate = new Date(invoice.date * 1000);
+                    const monthYear = invoiceDate.toLocaleDateString(language === 'fi' ? 'fi-FI' : language === 'sv' ? 'sv-SE' : language === 'de' ? 'de-DE' : language === 'fr' ? 'fr-FR' : 'en-US', { 
+                      month: 'long', 
+                      year: 'numeric' 
+                    });
                   
-                  return (
-                    <div
-                      key={invoice.id}
-                      className="flex items-center justify-between p-4 rounded-lg bg-secondary"
-                    >
-                      <div className="flex-1">
-                        <p className="font-medium text-foreground">
-                          {monthYear}
-                        </p>
-                        <p className="text-sm text-muted-foreground">
-                          {invoiceDate.toLocaleDateString()} • {formatCurrency(invoice.amount, invoice.currency)}
-                        </p>
-                      </div>
-                      <div className="flex items-center gap-2">
-                        <span className="px-2 py-1 rounded text-xs font-medium bg-primary/20 text-primary">
-                          {t("invoices.paid")}
-                        </span>
-                        {invoice.hostedUrl && (
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => window.open(invoice.hostedUrl!, "_blank")}
-                            className="gap-1.5"
-                          >
-                            <Eye className="w-3.5 h-3.5" />
-                            {t("invoices.show")}
-                          </Button>
-                        )}
+                    return (
+                      <div
+                        key={invoice.id}
+                        className="flex items-center justify-between p-4 rounded-lg bg-secondary"
+                      >
+                        <div className="flex-1">
+                          <p className="font-medium text-foreground">
+                            {monthYear}
+                          </p>
+                          <p className="text-sm text-muted-foreground">
+                            {invoiceDate.toLocaleDateString()} • {formatCurrency(invoice.amount, invoice.currency)}
+                          </p>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <span className="px-2 py-1 rounded text-xs font-medium bg-primary/20 text-primary">
+                            {t("invoices.paid")}
+                          </span>
+                          {invoice.hostedUrl && (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => window.open(invoice.hostedUrl!, "_blank")}
+                              className="gap-1.5"
+                            >
+                              <Eye className="w-3.5 h-3.5" />
+                              {t("invoices.show")}
+                            </Button>
+                          )}
+                        </div>
                       </div>
-                    </div>
-                  );
-                })}
-              </div>
-            )}
-          </CardContent>
-        </Card>
+                    );
+                  })}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
 
         {/* Profile Card */}
         <Card className="bg-card border-border">
@@ -1413,14 +1452,35 @@ const Profile = () => {
                 id="crossfade-toggle"
                 checked={crossfadeEnabled}
                 onCheckedChange={(checked) => {
-                  setCrossfadeEnabled(checked);
-                  localStorage.setItem("ambian_crossfade", String(checked));
+                  handleCrossfadeToggle();
                   toast({
                     title: checked ? t("profile.crossfadeEnabled") : t("profile.crossfadeDisabled"),
                   });
                 }}
               />
             </div>
+            {crossfadeEnabled && <CrossfadeOptions />}
+
+            {/* Loudness Normalization Toggle */}
+            <div className="flex items-center justify-between">
+              <div className="space-y-0.5">
+                <Label htmlFor="normalize-loudness-toggle" className="text-base">{t("profile.normalizeLoudness")}</Label>
+                <p className="text-sm text-muted-foreground">{t("profile.normalizeLoudnessDesc")}</p>
+              </div>
+              <Switch
+                id="normalize-loudness-toggle"
+                checked={normalizeLoudness}
+                onCheckedChange={(checked) => {
+                  setNormalizeLoudness(checked);
+                  toast({
+                    title: checked ? t("profile.normalizeLoudnessEnabled") : t("profile.normalizeLoudnessDisabled"),
+                  });
+                }}
+              />
+            </div>
+
+            {/* Shuffle Variety Rules */}
+            <ShuffleRulesSettings />
             
             {/* Scheduling Toggle */}
             <div className="flex items-center justify-between">
@@ -1449,6 +1509,9 @@ const Profile = () => {
                 }}
               />
             </div>
+
+            {/* Offline Mode */}
+            <OfflineModeSettings />
           </CardContent>
         </Card>
 
@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { BillingProfile, checkVatId, getTaxTreatment, saveBillingProfile } from "./billingProfile.ts";
+
+// Only the VIES stub and the database are exercised here; Stripe and Resend are never called
+vi.mock("https://esm.sh/stripe@18.5.0", () => ({ default: class {} }));
+vi.mock("https://esm.sh/resend@2.0.0", () => ({ Resend: class {} }));
+
+vi.stubGlobal("Deno", { env: { get: (name: string) => (name === "VIES_STUB" ? "true" : undefined) } });
+
+describe("checkVatId with VIES_STUB", () => {
+  it("treats well-formed IDs as valid, all-zero numbers as invalid and numbers ending in 999 as unverified", async () => {
+    expect(await checkVatId("SE556677889901")).toBe("valid");
+    expect(await checkVatId("SE000000000000")).toBe("invalid");
+    expect(await checkVatId("DE123456999")).toBe("unverified");
+  });
+});
+
+describe("getTaxTreatment", () => {
+  it("charges VAT to domestic customers, even with a valid VAT ID", () => {
+    expect(getTaxTreatment("FI", "valid")).toBe("standard");
+    expect(getTaxTreatment("FI", "none")).toBe("standard");
+  });
+
+  it("reverse charges EU businesses with a valid VAT ID", async () => {
+    expect(getTaxTreatment("SE", await checkVatId("SE556677889901"))).toBe("reverse_charge");
+  });
+
+  it("charges VAT when the VAT ID is invalid, unverified or missing", async () => {
+    expect(getTaxTreatment("SE", await checkVatId("SE000000000000"))).toBe("standard");
+    expect(getTaxTreatment("DE", await checkVatId("DE123456999"))).toBe("standard");
+    expect(getTaxTreatment("DE", "none")).toBe("standard");
+  });
+
+  it("leaves customers outside the EU and without a country to Stripe Tax", () => {
+    expect(getTaxTreatment("US", "valid")).toBe("standard");
+    expect(getTaxTreatment("NO", "none")).toBe("standard");
+    expect(getTaxTreatment(null, "valid")).toBe("standard");
+  });
+});
+
+describe("saveBillingProfile", () => {
+  let stored: BillingProfile | null;
+  let upserts: Record<string, unknown>[];
+
+  // billing_profiles with a single row: maybeSingle() loads it, upsert().select().single() replaces it
+  const client = {
+    from: () => {
+      const query = {
+        select: () => query,
+        eq: () => query,
+        maybeSingle: async () => ({ data: stored, error: null }),
+        upsert: (row: Record<string, unknown>) => {
+          upserts.push(row);
+          stored = row as unknown as BillingProfile;
+          return query;
+        },
+        single: async () => ({ data: stored, error: null }),
+      };
+      return query;
+    },
+  } as unknown as SupabaseClient;
+
+  beforeEach(() => {
+    stored = null;
+    upserts = [];
+  });
+
+  it("normalizes the input and stores reverse charge for a valid EU VAT ID", async () => {
+    const { profile, error } = await saveBillingProfile(client, "u1", {
+      companyName: " Café Anna AB ",
+      country: "se",
+      vatId: "se 5566.7788-9901",
+      invoiceEmail: "Billing@Example.com",
+    });
+
+    expect(error).toBeUndefined();
+    expect(profile).toMatchObject({
+      company_name: "Café Anna AB",
+      country: "SE",
+      vat_id: "SE556677889901",
+      vat_id_status: "valid",
+      tax_treatment: "reverse_charge",
+      invoice_email: "billing@example.com",
+    });
+    expect(profile?.vat_id_checked_at).not.toBeNull();
+  });
+
+  it("stores a domestic company with VAT", async () => {
+    const { profile } = await saveBillingProfile(client, "u1", { companyName: "Kahvila Oy", country: "FI", vatId: "FI12345678" });
+    expect(profile).toMatchObject({ vat_id_status: "valid", tax_treatment: "standard" });
+  });
+
+  it("keeps an unverified VAT ID but charges VAT until VIES confirms it", async () => {
+    const { profile } = await saveBillingProfile(client, "u1", { companyName: "Café GmbH", country: "DE", vatId: "DE123456999" });
+    expect(profile).toMatchObject({ vat_id_status: "unverified", tax_treatment: "standard" });
+  });
+
+  it("does not save a VAT ID VIES rejects", async () => {
+    const result = await saveBillingProfile(client, "u1", { companyName: "Café Anna AB", country: "SE", vatId: "SE000000000000" });
+    expect(result).toEqual({ error: "The VAT ID is not valid according to VIES" });
+    expect(upserts).toHaveLength(0);
+  });
+
+  it("does not check an already valid VAT ID again", async () => {
+    stored = {
+      user_id: "u1",
+      company_name: "Café Anna AB",
+      address_line1: null,
+      postal_code: null,
+      city: null,
+      country: "SE",
+      vat_id: "SE556677889901",
+      vat_id_status: "valid",
+      vat_id_checked_at: "2026-01-01T00:00:00.000Z",
+      tax_treatment: "reverse_charge",
+      invoice_email: null,
+    };
+
+    const { profile } = await saveBillingProfile(client, "u1", { companyName: "Café Anna AB", country: "SE", vatId: "SE556677889901" });
+    expect(profile?.vat_id_checked_at).toBe("2026-01-01T00:00:00.000Z");
+  });
+
+  it.each([
+    [{ country: "Finland" }, "Invalid country"],
+    [{ invoiceEmail: "billing@" }, "Invalid invoice email"],
+    [{ companyName: "Acme Inc", country: "US", vatId: "US123456789" }, "A VAT ID can only be added for an EU country"],
+    [{ country: "SE", vatId: "SE556677889901" }, "A company name is required with a VAT ID"],
+    [{ companyName: "Café Anna AB", country: "SE", vatId: "SE1" }, "Invalid VAT ID format"],
+    [{ companyName: "Café Anna AB", country: "SE", vatId: "DK12345678" }, "The VAT ID must start with SE"],
+    [{ companyName: "Kafeteria AE", country: "GR", vatId: "GR123456789" }, "The VAT ID must start with EL"],
+  ])("rejects %o", async (input, message) => {
+    expect(await saveBillingProfile(client, "u1", input)).toEqual({ error: message });
+    expect(upserts).toHaveLength(0);
+  });
+
+  it("clears the VAT treatment when the VAT ID is removed", async () => {
+    const { profile } = await saveBillingProfile(client, "u1", { companyName: "Café Anna AB", country: "SE", vatId: "" });
+    expect(profile).toMatchObject({ vat_id: null, vat_id_status: "none", vat_id_checked_at: null, tax_treatment: "standard" });
+  });
+});
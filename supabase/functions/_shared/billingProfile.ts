@@ -0,0 +1,298 @@
+// Company billing details and the VAT treatment that follows from them.
+// Ambian invoices from Finland: Finnish customers and EU customers without a valid VAT ID are charged VAT
+// (Stripe Tax works out the rate from the address), EU businesses in other member states with a VIES-valid
+// VAT ID get reverse charge. Customers outside the EU are left to Stripe Tax as well.
+//
+// Set VIES_STUB=true to validate VAT IDs locally instead of calling VIES (local development and tests):
+// well-formed IDs are valid, all-zero numbers (e.g. SE000000000000) are invalid, and numbers ending in 999
+// behave as if VIES were unavailable.
+
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { getEmailLanguage, renderInvoiceCopyEmail } from "./emailTemplates.ts";
+
+export const HOME_COUNTRY = "FI";
+
+export const EU_COUNTRIES = [
+  "AT", "BE", "BG", "HR", "CY", "CZ", "DK", "EE", "FI", "FR", "DE", "GR", "HU", "IE",
+  "IT", "LV", "LT", "LU", "MT", "NL", "PL", "PT", "RO", "SK", "SI", "ES", "SE",
+];
+
+export type VatIdStatus = "none" | "valid" | "invalid" | "unverified";
+export type TaxTreatment = "standard" | "reverse_charge";
+
+export interface BillingProfile {
+  user_id: string;
+  company_name: string | null;
+  address_line1: string | null;
+  postal_code: string | null;
+  city: string | null;
+  country: string | null;
+  vat_id: string | null;
+  vat_id_status: VatIdStatus;
+  vat_id_checked_at: string | null;
+  tax_treatment: TaxTreatment;
+  invoice_email: string | null;
+}
+
+export interface BillingProfileInput {
+  companyName?: string | null;
+  addressLine1?: string | null;
+  postalCode?: string | null;
+  city?: string | null;
+  country?: string | null;
+  vatId?: string | null;
+  invoiceEmail?: string | null;
+}
+
+const VIES_URL = "https://ec.europa.eu/taxation_customs/vies/rest-api/check-vat-number";
+const VIES_TIMEOUT_MS = 10000;
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[BILLING-PROFILE] ${step}`, details ? JSON.stringify(details) : '');
+};
+
+const clean = (value: string | null | undefined) => value?.trim() || null;
+
+export const normalizeVatId = (value: string) => value.toUpperCase().replace(/[\s.-]/g, "");
+
+// VAT IDs start with the country code, except Greek ones (EL)
+const vatPrefix = (country: string) => (country === "GR" ? "EL" : country);
+
+export const getTaxTreatment = (country: string | null, vatIdStatus: VatIdStatus): TaxTreatment =>
+  country && country !== HOME_COUNTRY && EU_COUNTRIES.includes(country) && vatIdStatus === "valid"
+    ? "reverse_charge"
+    : "standard";
+
+function validateInput(input: BillingProfileInput): string | null {
+  const country = clean(input.country)?.toUpperCase() ?? null;
+  if (country && !/^[A-Z]{2}$/.test(country)) return "Invalid country";
+
+  const invoiceEmail = clean(input.invoiceEmail);
+  if (invoiceEmail && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(invoiceEmail)) return "Invalid invoice email";
+
+  const vatId = clean(input.vatId);
+  if (vatId) {
+    if (!country || !EU_COUNTRIES.includes(country)) return "A VAT ID can only be added for an EU country";
+    if (!clean(input.companyName)) return "A company name is required with a VAT ID";
+    const normalized = normalizeVatId(vatId);
+    if (!/^[A-Z]{2}[0-9A-Z]{2,12}$/.test(normalized)) return "Invalid VAT ID format";
+    if (!normalized.startsWith(vatPrefix(country))) return `The VAT ID must start with ${vatPrefix(country)}`;
+  }
+
+  return null;
+}
+
+function checkVatIdStub(vatId: string): VatIdStatus {
+  const number = vatId.slice(2);
+  if (/^0+$/.test(number)) return "invalid";
+  if (number.endsWith("999")) return "unverified";
+  return "valid";
+}
+
+/**
+ * Check a normalized VAT ID with VIES. Returns "unverified" when VIES (or the member state's service) is
+ * unavailable, so a VIES outage never blocks billing - the ID is checked again at the next renewal.
+ */
+export async function checkVatId(vatId: string): Promise<VatIdStatus> {
+  if (Deno.env.get("VIES_STUB") === "true") return checkVatIdStub(vatId);
+
+  try {
+    const response = await fetch(VIES_URL, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", Accept: "application/json" },
+      body: JSON.stringify({ countryCode: vatId.slice(0, 2), vatNumber: vatId.slice(2) }),
+      signal: AbortSignal.timeout(VIES_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      logStep("VIES request failed", { status: response.status });
+      return "unverified";
+    }
+
+    const result = await response.json();
+    // userError is e.g. MS_UNAVAILABLE or TIMEOUT when the member state can't answer
+    if (result.userError && result.userError !== "VALID" && result.userError !== "INVALID") {
+      logStep("VIES could not check the VAT ID", { userError: result.userError });
+      return "unverified";
+    }
+
+    return result.valid ? "valid" : "invalid";
+  } catch (error) {
+    logStep("VIES unavailable", { error: String(error) });
+    return "unverified";
+  }
+}
+
+export async function loadBillingProfile(supabase: SupabaseClient, userId: string): Promise<BillingProfile | null> {
+  const { data, error } = await supabase
+    .from("billing_profiles")
+    .select("user_id, company_name, address_line1, postal_code, city, country, vat_id, vat_id_status, vat_id_checked_at, tax_treatment, invoice_email")
+    .eq("user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to fetch billing profile: ${error.message}`);
+  return data as BillingProfile | null;
+}
+
+/**
+ * Validate and store a user's billing details. The VAT ID is checked with VIES unless it was already
+ * validated; an ID VIES rejects is not saved. Returns an error message for invalid input.
+ */
+export async function saveBillingProfile(
+  supabase: SupabaseClient,
+  userId: string,
+  input: BillingProfileInput
+): Promise<{ profile?: BillingProfile; error?: string }> {
+  const validationError = validateInput(input);
+  if (validationError) return { error: validationError };
+
+  const country = clean(input.country)?.toUpperCase() ?? null;
+  const vatId = clean(input.vatId) ? normalizeVatId(input.vatId!) : null;
+  const existing = await loadBillingProfile(supabase, userId);
+
+  let vatIdStatus: VatIdStatus = "none";
+  let vatIdCheckedAt: string | null = null;
+  if (vatId) {
+    if (existing?.vat_id === vatId && existing.vat_id_status === "valid") {
+      vatIdStatus = "valid";
+      vatIdCheckedAt = existing.vat_id_checked_at;
+    } else {
+      vatIdStatus = await checkVatId(vatId);
+      vatIdCheckedAt = new Date().toISOString();
+      logStep("Checked VAT ID", { userId, vatId, status: vatIdStatus });
+      if (vatIdStatus === "invalid") return { error: "The VAT ID is not valid according to VIES" };
+    }
+  }
+
+  const { data, error } = await supabase
+    .from("billing_profiles")
+    .upsert({
+      user_id: userId,
+      company_name: clean(input.companyName),
+      address_line1: clean(input.addressLine1),
+      postal_code: clean(input.postalCode),
+      city: clean(input.city),
+      country,
+      vat_id: vatId,
+      vat_id_status: vatIdStatus,
+      vat_id_checked_at: vatIdCheckedAt,
+      tax_treatment: getTaxTreatment(country, vatIdStatus),
+      invoice_email: clean(input.invoiceEmail)?.toLowerCase() ?? null,
+    }, { onConflict: "user_id" })
+    .select("user_id, company_name, address_line1, postal_code, city, country, vat_id, vat_id_status, vat_id_checked_at, tax_treatment, invoice_email")
+    .single();
+
+  if (error) throw new Error(`Failed to save billing profile: ${error.message}`);
+  return { profile: data as BillingProfile };
+}
+
+/**
+ * Check a stored VAT ID with VIES again (before a renewal invoice) and update the tax treatment if it changed.
+ */
+export async function revalidateBillingProfile(supabase: SupabaseClient, profile: BillingProfile): Promise<BillingProfile> {
+  if (!profile.vat_id) return profile;
+
+  const status = await checkVatId(profile.vat_id);
+  // Keep the last known result when VIES can't answer
+  const vatIdStatus = status === "unverified" && profile.vat_id_status === "valid" ? "valid" : status;
+  const taxTreatment = getTaxTreatment(profile.country, vatIdStatus);
+
+  const { error } = await supabase
+    .from("billing_profiles")
+    .update({ vat_id_status: vatIdStatus, vat_id_checked_at: new Date().toISOString(), tax_treatment: taxTreatment })
+    .eq("user_id", profile.user_id);
+
+  if (error) logStep("Failed to update VAT ID status", { userId: profile.user_id, error: error.message });
+  if (vatIdStatus !== profile.vat_id_status) {
+    logStep("VAT ID status changed", { userId: profile.user_id, from: profile.vat_id_status, to: vatIdStatus });
+  }
+
+  return { ...profile, vat_id_status: vatIdStatus, tax_treatment: taxTreatment };
+}
+
+/**
+ * Copy the billing profile onto the Stripe customer: name and address for invoices and Stripe Tax,
+ * the VAT ID, and reverse charge. The customer's email stays the account email, which is how
+ * functions look customers up.
+ */
+export async function syncBillingProfileToStripe(stripe: Stripe, customerId: string, profile: BillingProfile) {
+  await stripe.customers.update(customerId, {
+    name: profile.company_name || undefined,
+    address: profile.address_line1 && profile.country ? {
+      line1: profile.address_line1,
+      city: profile.city || undefined,
+      postal_code: profile.postal_code || undefined,
+      country: profile.country,
+    } : undefined,
+    tax_exempt: profile.tax_treatment === "reverse_charge" ? "reverse" : "none",
+    metadata: {
+      user_id: profile.user_id,
+      company_name: profile.company_name || '',
+      invoice_email: profile.invoice_email || '',
+      tax_treatment: profile.tax_treatment,
+    },
+  });
+
+  // Keep exactly the profile's VAT ID on the customer so it's printed on invoices
+  const taxIds = await stripe.customers.listTaxIds(customerId);
+  const keepVatId = profile.vat_id && profile.vat_id_status !== "invalid" ? profile.vat_id : null;
+
+  for (const taxId of taxIds.data) {
+    if (taxId.type === "eu_vat" && taxId.value !== keepVatId) {
+      await stripe.customers.deleteTaxId(customerId, taxId.id);
+    }
+  }
+
+  if (keepVatId && !taxIds.data.some((taxId: { value: string }) => taxId.value === keepVatId)) {
+    try {
+      await stripe.customers.createTaxId(customerId, { type: "eu_vat", value: keepVatId });
+    } catch (error) {
+      // Stripe Tax still calculates from the address
+      logStep("Failed to add VAT ID to customer", { customerId, error: String(error) });
+    }
+  }
+
+  logStep("Synced billing profile to Stripe", { customerId, taxTreatment: profile.tax_treatment });
+}
+
+/**
+ * Send a finalized invoice to the profile's invoice email when it differs from the account email
+ * (Stripe already sends it to the account email).
+ */
+export async function sendInvoiceCopy(
+  supabase: SupabaseClient,
+  profile: BillingProfile | null,
+  accountEmail: string,
+  invoice: Stripe.Invoice
+) {
+  if (!profile?.invoice_email || profile.invoice_email === accountEmail.toLowerCase()) return;
+  if (!invoice.hosted_invoice_url) return;
+
+  const language = await getEmailLanguage(supabase, { userId: profile.user_id });
+  const { subject, html } = renderInvoiceCopyEmail(language, {
+    companyName: profile.company_name || accountEmail,
+    invoiceNumber: invoice.number || invoice.id || "",
+    amount: invoice.amount_due,
+    currency: invoice.currency,
+    dueDate: invoice.due_date ? new Date(invoice.due_date * 1000) : null,
+    invoiceUrl: invoice.hosted_invoice_url,
+    reverseCharge: profile.tax_treatment === "reverse_charge",
+  });
+
+  try {
+    const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+    const { error } = await resend.emails.send({
+      from: "Ambian <noreply@ambianmusic.com>",
+      to: [profile.invoice_email],
+      subject,
+      html,
+    });
+
+    if (error) logStep("Error sending invoice copy", { error });
+    else logStep("Sent invoice copy", { invoiceId: invoice.id, to: profile.invoice_email });
+  } catch (error) {
+    logStep("Error sending invoice copy", { error: String(error) });
+  }
+}
@@ -0,0 +1,27 @@
+// Pairing codes for shop-floor devices (Profile > Devices > Pair a device).
+// Codes are short-lived and use an alphabet without look-alike characters so they can be typed on a tablet.
+
+export const PAIRING_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+export const PAIRING_CODE_LENGTH = 8;
+export const PAIRING_CODE_TTL_MINUTES = 10;
+
+// Guessing limits for the unauthenticated /pair endpoint: failed attempts per IP address within the window,
+// and wrong codes tried anywhere while a code is open before that code is locked
+export const PAIRING_ATTEMPT_WINDOW_MINUTES = 15;
+export const PAIRING_MAX_FAILED_ATTEMPTS_PER_IP = 10;
+export const PAIRING_CODE_MAX_FAILED_ATTEMPTS = 100;
+
+export function generatePairingCode(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(PAIRING_CODE_LENGTH));
+  return Array.from(bytes, (b) => PAIRING_CODE_ALPHABET[b % PAIRING_CODE_ALPHABET.length]).join("");
+}
+
+/**
+ * Uppercase and drop spaces and dashes, so "abcd-2345" matches the stored "ABCD2345"
+ */
+export function normalizePairingCode(code: unknown): string {
+  return typeof code === "string" ? code.toUpperCase().replace(/[\s-]/g, "") : "";
+}
+
+// Device logins get a placeholder address on a domain we don't receive mail for
+export const pairedDeviceEmail = (deviceId: string) => `device-${deviceId}@devices.ambianmusic.com`;
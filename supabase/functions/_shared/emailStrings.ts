@@ -0,0 +1,1285 @@
+// Copy for the emails customers get, in every language the app supports (profiles.language).
+// {placeholders} are filled by emailTemplates.ts; the strings themselves may contain HTML.
+
+export type EmailLanguage = "en" | "sv" | "fi" | "de" | "fr";
+
+export const EMAIL_LANGUAGES: EmailLanguage[] = ["en", "sv", "fi", "de", "fr"];
+
+const en = {
+  common: {
+    greeting: "Hi,",
+    greetingNamed: "Hi {name},",
+    planName: { monthly: "Monthly subscription", yearly: "Yearly subscription" },
+    planInSentence: { monthly: "monthly subscription", yearly: "yearly subscription" },
+    billing: { monthly: "monthly", yearly: "yearly" },
+    interval: { monthly: "month", yearly: "year" },
+    labels: {
+      plan: "Plan:",
+      amount: "Amount:",
+      amountPaid: "Amount paid:",
+      dueBy: "Due by:",
+      accessUntil: "Access until:",
+      invoice: "Invoice:",
+      newPlan: "New plan:",
+      nextBilling: "Next billing:",
+      locationsAdded: "Locations added:",
+      billing: "Billing:",
+      canceled: "Canceled:",
+      reason: "Reason:",
+    },
+    features: [
+      "Unlimited access to all playlists",
+      "Commercial licensing for your business",
+      "Schedule playlists for different times",
+      "Priority support",
+    ],
+    helpCenter: "Help Center",
+    questionsHelp: "Questions? Visit our {helpCenter} or reply to this email.",
+    questionsReply: "Questions? Just reply to this email or visit our {helpCenter}.",
+    questionsContact: "Questions? Contact us at {email}",
+    manageSubscription: "Manage your subscription at {link}",
+    manageLocations: "Manage your locations at {link}",
+    copyright: "© {year} Ambian. Premium background music for businesses.",
+  },
+  upcomingPayment: {
+    subject: "Payment Reminder: Your Ambian subscription renews soon ({amount})",
+    heading: "⏰ Payment Reminder",
+    intro: "This is a friendly reminder that your Ambian subscription renewal is coming up.",
+    bankTransfer: "If you're paying by bank transfer (IBAN), please ensure payment is made before the due date to avoid any interruption to your service.",
+    button: "View Invoice",
+  },
+  paymentFailed: {
+    subject: "Action Required: Your Ambian payment failed",
+    heading: "⚠️ Payment Failed",
+    intro: "We were unable to process your payment of {amount} for your Ambian {plan}.",
+    actionRequired: "<strong>Action required:</strong> Please update your payment method to avoid interruption to your service.",
+    reasonsIntro: "This could be due to:",
+    reasons: ["Insufficient funds", "Expired card", "Card declined by your bank"],
+    button: "Update Payment Method",
+    note: "If you believe this is an error, please contact your bank or reach out to us for assistance.",
+  },
+  subscriptionConfirmation: {
+    subject: "Welcome to Ambian! Your subscription is now active 🎉",
+    heading: "🎉 Welcome to Ambian!",
+    intro: "Thank you for subscribing to Ambian! Your subscription is now active and you have full access to our entire music library.",
+    activeTitle: "✓ Subscription Active",
+    button: "Start Listening",
+    includedTitle: "What's included:",
+  },
+  paymentConfirmation: {
+    subject: "Payment Confirmed - Your Ambian subscription is active",
+    heading: "✓ Payment Confirmed",
+    intro: "Thank you for your payment! Your Ambian subscription is now active.",
+    detailsTitle: "Payment Details",
+    outro: "You can start enjoying unlimited background music for your business right away!",
+    button: "Open Ambian",
+  },
+  deviceSlotConfirmation: {
+    subject: "Location Added - {locations} now active on Ambian",
+    heading: "🏪 Location Added!",
+    locationsOne: "1 new location",
+    locationsOther: "{count} new locations",
+    intro: "Great news! You've successfully added {locations} to your Ambian subscription.",
+    addedTitle: "✓ Location Added",
+    devicesOne: "You can now play Ambian on 1 additional device at your new location.",
+    devicesOther: "You can now play Ambian on {count} additional devices at your new locations.",
+    button: "Start Playing",
+  },
+  cancellationConfirmation: {
+    subject: "Your Ambian subscription will end on {date}",
+    heading: "Cancellation Confirmed",
+    intro: "We've received your request to cancel your Ambian {plan}.",
+    accessTitle: "✓ You still have access!",
+    accessText: "Your subscription remains active until {date}. You can continue enjoying all Ambian features until then.",
+    reactivate: "Changed your mind? You can reactivate your subscription anytime before the end date from your profile settings.",
+    button: "Manage Subscription",
+    footer: "If you have any questions, just reply to this email.",
+  },
+  subscriptionEnded: {
+    subject: "Your Ambian subscription has ended",
+    heading: "Your subscription has ended",
+    intro: "Your Ambian {plan} has now ended. We hope you enjoyed our service!",
+    offerTitle: "💡 Miss the music?",
+    offerText: "You can resubscribe anytime and get instant access to all your favorite playlists again. Your preferences and settings are saved!",
+    feedback: "If you have any feedback on how we can improve, we'd love to hear from you. Just reply to this email.",
+    button: "Resubscribe Now",
+    footer: "Thank you for being a part of Ambian. We hope to see you again soon!",
+  },
+  accessSuspended: {
+    subject: "🚫 Your Ambian access has been suspended - Invoice unpaid",
+    heading: "🚫 Access Suspended",
+    intro: "Unfortunately, your Ambian {plan} has been suspended because we didn't receive payment for your invoice within the grace period.",
+    meaningTitle: "What does this mean?",
+    meaning: [
+      "You no longer have access to Ambian's music library",
+      "Playback has been disabled on all your devices",
+      "Your playlists and preferences are saved",
+    ],
+    restoreTitle: "💳 How to restore access",
+    restoreText: "To regain access to Ambian, please subscribe again with a valid payment method. Your previous preferences and playlists will be restored instantly.",
+    button: "Subscribe Again",
+    note: "If you believe this is an error or have already made payment, please contact us and we'll resolve it right away.",
+  },
+  planChange: {
+    upgraded: {
+      subject: "Plan Upgraded - Now on yearly billing",
+      heading: "🎉 Plan Upgraded!",
+      intro: "Your Ambian subscription has been upgraded from monthly to yearly billing. You're now saving €58/year compared to monthly billing!",
+    },
+    changed: {
+      subject: "Plan Changed - Now on monthly billing",
+      heading: "📋 Plan Changed",
+      intro: "Your Ambian subscription has been changed from yearly to monthly billing.",
+    },
+    updatedTitle: "✓ Plan Updated",
+    button: "Continue Listening",
+  },
+  deviceSlotUnpaidCancellation: {
+    subject: "Location Subscription Canceled - Invoice Not Paid",
+    heading: "Location Subscription Canceled",
+    introOne: "Your additional location subscription has been canceled because the invoice was not paid within the required timeframe.",
+    introOther: "Your additional locations subscription has been canceled because the invoice was not paid within the required timeframe.",
+    canceledOne: "1 additional location",
+    canceledOther: "{count} additional locations",
+    reason: "Invoice not paid",
+    outro: "If you still need additional locations for your business, you can add them again from your profile.",
+    button: "Add Locations",
+    note: "If you believe this is an error or have questions, please contact us at {email}.",
+  },
+  deviceSlotAutoCanceled: {
+    subject: "Additional Locations Canceled - Main Subscription Ended",
+    heading: "Additional Locations Canceled",
+    introOne: "Your main Ambian subscription has ended, so your additional location subscription has been automatically canceled.",
+    introOther: "Your main Ambian subscription has ended, so your {count} additional location subscriptions have been automatically canceled.",
+    note: "<strong>Note:</strong> Additional location subscriptions require an active main subscription. If you resubscribe to Ambian, you can add locations again from your Profile page.",
+    outro: "If you'd like to continue using Ambian with multiple locations, please resubscribe and then add your additional locations.",
+    button: "View Plans",
+  },
+  trialReminder: {
+    subjectOne: "Your Ambian trial expires tomorrow",
+    subjectOther: "Your Ambian trial expires in {days} days",
+    heading: "⏰ Your Trial is Ending Soon",
+    intro: "Just a friendly reminder that your Ambian free trial will expire on {date}.",
+    subscribe: "To continue enjoying unlimited access to our curated music library for your business, please subscribe before your trial ends.",
+    button: "View Plans & Subscribe",
+    keepTitle: "What you'll keep with a subscription:",
+  },
+  welcome: {
+    subject: "Welcome to Ambian! 🎵 Your free trial has started",
+    heading: "🎉 Welcome to Ambian!",
+    greeting: "Hi {name}! 👋",
+    intro: "Thank you for joining Ambian! You now have access to premium, license-free background music for your business. Your 3-day free trial has started.",
+    featuresTitle: "Here's what you can do:",
+    features: [
+      "Browse 50+ curated playlists across moods and genres",
+      "Schedule music to play automatically throughout the day",
+      "Use on any device - web, mobile, or tablet",
+      "All music is fully licensed for commercial use",
+    ],
+    button: "Start Listening",
+    trialTitle: "🎁 Your 3-day free trial is active",
+    trialText: "No credit card required. Explore everything Ambian has to offer!",
+  },
+  invoiceCopy: {
+    subject: "Ambian invoice {number}",
+    heading: "🧾 New Invoice",
+    intro: "A new Ambian invoice has been issued for {company}. You're receiving it because this address is the account's invoice email.",
+    reverseCharge: "Reverse charge: VAT is accounted for by the recipient.",
+    button: "View & Pay Invoice",
+  },
+  organizationInvite: {
+    subject: "You're invited to {organization} on Ambian",
+    heading: "👋 You're Invited",
+    intro: "{inviter} has invited you to join {organization} on Ambian as {role}.",
+    roles: {
+      billing: "billing contact (subscription and invoices)",
+      manager: "manager (schedules and devices)",
+      player: "player (plays the music)",
+    },
+    signIn: "Sign in or create an account with {email} to accept. The invitation expires in 14 days.",
+    button: "Accept Invitation",
+  },
+  silenceAlert: {
+    subjectOne: "🔇 Music has stopped on one of your devices",
+    subjectOther: "🔇 Music has stopped on {count} devices",
+    heading: "🔇 Your music has stopped",
+    introOne: "Your schedule says music should be playing right now, but this device has stopped:",
+    introOther: "Your schedule says music should be playing right now, but these devices have stopped:",
+    device: "Device {number}",
+    silentFor: "silent for {minutes} min",
+    lastError: "Last error: {error}",
+    action: "Check that the device is online and that Ambian is open, then press Play. You can also restart playback remotely from your profile.",
+    button: "Open Devices",
+    note: "You receive this email because silence alerts are turned on for your account. You can turn them off or set quiet hours in your profile.",
+  },
+  auth: {
+    recovery: {
+      subject: "Reset Your Ambian Password",
+      heading: "Reset Your Password",
+      description: "Click the button below to reset your password. This link expires in 1 hour.",
+      footerNote: "If you didn't request a password reset, you can safely ignore this email.",
+      buttonText: "Reset Password",
+    },
+    signup: {
+      subject: "Welcome to Ambian - Confirm Your Email",
+      heading: "Welcome to Ambian!",
+      description: "Thanks for signing up. Click the button below to verify your email address.",
+      footerNote: "If you didn't create an Ambian account, you can safely ignore this email.",
+      buttonText: "Verify Email",
+    },
+    magiclink: {
+      subject: "Your Ambian Login Link",
+      heading: "Sign In to Ambian",
+      description: "Click the button below to sign in to your account. This link expires in 1 hour.",
+      footerNote: "If you didn't request this login link, you can safely ignore this email.",
+      buttonText: "Sign In",
+    },
+    invite: {
+      subject: "You're Invited to Ambian",
+      heading: "You've Been Invited!",
+      description: "You've been invited to join Ambian. Click the button below to set up your account.",
+      footerNote: "If you weren't expecting this invitation, you can safely ignore this email.",
+      buttonText: "Accept Invitation",
+    },
+    email_change: {
+      subject: "Confirm Your New Email - Ambian",
+      heading: "Confirm Email Change",
+      description: "Click the button below to confirm your new email address.",
+      footerNote: "If you didn't request this change, please contact support immediately.",
+      buttonText: "Confirm Email",
+    },
+    default: {
+      subject: "Ambian",
+      heading: "Hello!",
+      description: "Click the button below to continue.",
+      footerNote: "",
+      buttonText: "Continue",
+    },
+    linkHint: "If the button doesn't work, copy and paste this link into your browser:",
+    sentTo: "This email was sent to {email}",
+  },
+};
+
+export type EmailStrings = typeof en;
+
+const sv: EmailStrings = {
+  common: {
+    greeting: "Hej,",
+    greetingNamed: "Hej {name},",
+    planName: { monthly: "Månadsprenumeration", yearly: "Årsprenumeration" },
+    planInSentence: { monthly: "månadsprenumeration", yearly: "årsprenumeration" },
+    billing: { monthly: "månadsvis", yearly: "årsvis" },
+    interval: { monthly: "månad", yearly: "år" },
+    labels: {
+      plan: "Plan:",
+      amount: "Belopp:",
+      amountPaid: "Betalt belopp:",
+      dueBy: "Förfaller:",
+      accessUntil: "Tillgång till:",
+      invoice: "Faktura:",
+      newPlan: "Ny plan:",
+      nextBilling: "Nästa debitering:",
+      locationsAdded: "Tillagda platser:",
+      billing: "Debitering:",
+      canceled: "Avslutat:",
+      reason: "Orsak:",
+    },
+    features: [
+      "Obegränsad tillgång till alla spellistor",
+      "Kommersiell licens för ditt företag",
+      "Schemalägg spellistor för olika tider",
+      "Prioriterad support",
+    ],
+    helpCenter: "hjälpcenter",
+    questionsHelp: "Frågor? Besök vårt {helpCenter} eller svara på det här mejlet.",
+    questionsReply: "Frågor? Svara bara på det här mejlet eller besök vårt {helpCenter}.",
+    questionsContact: "Frågor? Kontakta oss på {email}",
+    manageSubscription: "Hantera din prenumeration på {link}",
+    manageLocations: "Hantera dina platser på {link}",
+    copyright: "© {year} Ambian. Premium bakgrundsmusik för företag.",
+  },
+  upcomingPayment: {
+    subject: "Betalningspåminnelse: Din Ambian-prenumeration förnyas snart ({amount})",
+    heading: "⏰ Betalningspåminnelse",
+    intro: "Det här är en vänlig påminnelse om att din Ambian-prenumeration snart ska förnyas.",
+    bankTransfer: "Om du betalar med banköverföring (IBAN), se till att betalningen görs före förfallodagen så att tjänsten inte avbryts.",
+    button: "Visa faktura",
+  },
+  paymentFailed: {
+    subject: "Åtgärd krävs: Din Ambian-betalning misslyckades",
+    heading: "⚠️ Betalningen misslyckades",
+    intro: "Vi kunde inte genomföra din betalning på {amount} för din Ambian-{plan}.",
+    actionRequired: "<strong>Åtgärd krävs:</strong> Uppdatera din betalningsmetod så att tjänsten inte avbryts.",
+    reasonsIntro: "Det kan bero på:",
+    reasons: ["Otillräckligt saldo", "Utgånget kort", "Kortet nekades av din bank"],
+    button: "Uppdatera betalningsmetod",
+    note: "Om du tror att det här är ett misstag, kontakta din bank eller hör av dig till oss så hjälper vi dig.",
+  },
+  subscriptionConfirmation: {
+    subject: "Välkommen till Ambian! Din prenumeration är nu aktiv 🎉",
+    heading: "🎉 Välkommen till Ambian!",
+    intro: "Tack för att du prenumererar på Ambian! Din prenumeration är nu aktiv och du har full tillgång till hela vårt musikbibliotek.",
+    activeTitle: "✓ Prenumerationen är aktiv",
+    button: "Börja lyssna",
+    includedTitle: "Det här ingår:",
+  },
+  paymentConfirmation: {
+    subject: "Betalning bekräftad - Din Ambian-prenumeration är aktiv",
+    heading: "✓ Betalning bekräftad",
+    intro: "Tack för din betalning! Din Ambian-prenumeration är nu aktiv.",
+    detailsTitle: "Betalningsuppgifter",
+    outro: "Du kan börja njuta av obegränsad bakgrundsmusik för ditt företag direkt!",
+    button: "Öppna Ambian",
+  },
+  deviceSlotConfirmation: {
+    subject: "Plats tillagd - {locations} nu aktiv på Ambian",
+    heading: "🏪 Plats tillagd!",
+    locationsOne: "1 ny plats",
+    locationsOther: "{count} nya platser",
+    intro: "Goda nyheter! Du har lagt till {locations} i din Ambian-prenumeration.",
+    addedTitle: "✓ Plats tillagd",
+    devicesOne: "Du kan nu spela Ambian på 1 ytterligare enhet på din nya plats.",
+    devicesOther: "Du kan nu spela Ambian på {count} ytterligare enheter på dina nya platser.",
+    button: "Börja spela",
+  },
+  cancellationConfirmation: {
+    subject: "Din Ambian-prenumeration upphör {date}",
+    heading: "Uppsägning bekräftad",
+    intro: "Vi har tagit emot din begäran om att säga upp din Ambian-{plan}.",
+    accessTitle: "✓ Du har fortfarande tillgång!",
+    accessText: "Din prenumeration är aktiv till och med {date}. Du kan fortsätta använda alla Ambians funktioner fram till dess.",
+    reactivate: "Ångrat dig? Du kan återaktivera din prenumeration när som helst före slutdatumet i dina profilinställningar.",
+    button: "Hantera prenumeration",
+    footer: "Om du har några frågor, svara bara på det här mejlet.",
+  },
+  subscriptionEnded: {
+    subject: "Din Ambian-prenumeration har upphört",
+    heading: "Din prenumeration har upphört",
+    intro: "Din Ambian-{plan} har nu upphört. Vi hoppas att du har uppskattat vår tjänst!",
+    offerTitle: "💡 Saknar du musiken?",
+    offerText: "Du kan prenumerera igen när som helst och direkt få tillgång till alla dina favoritspellistor. Dina inställningar finns kvar!",
+    feedback: "Om du har synpunkter på hur vi kan bli bättre hör vi gärna av dig. Svara bara på det här mejlet.",
+    button: "Prenumerera igen",
+    footer: "Tack för att du har varit en del av Ambian. Vi hoppas att vi ses igen snart!",
+  },
+  accessSuspended: {
+    subject: "🚫 Din tillgång till Ambian har stängts av - Obetald faktura",
+    heading: "🚫 Tillgången avstängd",
+    intro: "Tyvärr har din Ambian-{plan} stängts av eftersom vi inte fick betalning för din faktura inom respitperioden.",
+    meaningTitle: "Vad innebär det?",
+    meaning: [
+      "Du har inte längre tillgång till Ambians musikbibliotek",
+      "Uppspelningen har stängts av på alla dina enheter",
+      "Dina spellistor och inställningar finns kvar",
+    ],
+    restoreTitle: "💳 Så får du tillbaka tillgången",
+    restoreText: "Prenumerera igen med en giltig betalningsmetod för att få tillbaka tillgången till Ambian. Dina tidigare inställningar och spellistor återställs direkt.",
+    button: "Prenumerera igen",
+    note: "Om du tror att det här är ett misstag eller redan har betalat, kontakta oss så löser vi det direkt.",
+  },
+  planChange: {
+    upgraded: {
+      subject: "Plan uppgraderad - Nu med årsvis debitering",
+      heading: "🎉 Plan uppgraderad!",
+      intro: "Din Ambian-prenumeration har uppgraderats från månadsvis till årsvis debitering. Du sparar nu 58 €/år jämfört med månadsvis debitering!",
+    },
+    changed: {
+      subject: "Plan ändrad - Nu med månadsvis debitering",
+      heading: "📋 Plan ändrad",
+      intro: "Din Ambian-prenumeration har ändrats från årsvis till månadsvis debitering.",
+    },
+    updatedTitle: "✓ Plan uppdaterad",
+    button: "Fortsätt lyssna",
+  },
+  deviceSlotUnpaidCancellation: {
+    subject: "Platsprenumeration avslutad - Fakturan är obetald",
+    heading: "Platsprenumeration avslutad",
+    introOne: "Din prenumeration på en extra plats har avslutats eftersom fakturan inte betalades inom den angivna tiden.",
+    introOther: "Din prenumeration på extra platser har avslutats eftersom fakturan inte betalades inom den angivna tiden.",
+    canceledOne: "1 extra plats",
+    canceledOther: "{count} extra platser",
+    reason: "Fakturan är obetald",
+    outro: "Om du fortfarande behöver extra platser för ditt företag kan du lägga till dem igen från din profil.",
+    button: "Lägg till platser",
+    note: "Om du tror att det här är ett misstag eller har frågor, kontakta oss på {email}.",
+  },
+  deviceSlotAutoCanceled: {
+    subject: "Extra platser avslutade - Huvudprenumerationen har upphört",
+    heading: "Extra platser avslutade",
+    introOne: "Din Ambian-huvudprenumeration har upphört, så din prenumeration på en extra plats har avslutats automatiskt.",
+    introOther: "Din Ambian-huvudprenumeration har upphört, så dina {count} prenumerationer på extra platser har avslutats automatiskt.",
+    note: "<strong>Obs:</strong> Prenumerationer på extra platser kräver en aktiv huvudprenumeration. Om du prenumererar på Ambian igen kan du lägga till platser på nytt från din profilsida.",
+    outro: "Om du vill fortsätta använda Ambian på flera platser, prenumerera igen och lägg sedan till dina extra platser.",
+    button: "Visa planer",
+  },
+  trialReminder: {
+    subjectOne: "Din provperiod hos Ambian går ut i morgon",
+    subjectOther: "Din provperiod hos Ambian går ut om {days} dagar",
+    heading: "⏰ Din provperiod tar snart slut",
+    intro: "En vänlig påminnelse om att din kostnadsfria provperiod hos Ambian går ut {date}.",
+    subscribe: "Prenumerera innan provperioden tar slut för att fortsätta ha obegränsad tillgång till vårt kurerade musikbibliotek för ditt företag.",
+    button: "Visa planer och prenumerera",
+    keepTitle: "Det här behåller du med en prenumeration:",
+  },
+  welcome: {
+    subject: "Välkommen till Ambian! 🎵 Din kostnadsfria provperiod har börjat",
+    heading: "🎉 Välkommen till Ambian!",
+    greeting: "Hej {name}! 👋",
+    intro: "Tack för att du har gått med i Ambian! Du har nu tillgång till licensfri premiumbakgrundsmusik för ditt företag. Din kostnadsfria provperiod på 3 dagar har börjat.",
+    featuresTitle: "Det här kan du göra:",
+    features: [
+      "Bläddra bland 50+ kurerade spellistor i olika stämningar och genrer",
+      "Schemalägg musik som spelas automatiskt under dagen",
+      "Använd på vilken enhet som helst - webb, mobil eller surfplatta",
+      "All musik är fullt licensierad för kommersiellt bruk",
+    ],
+    button: "Börja lyssna",
+    trialTitle: "🎁 Din kostnadsfria provperiod på 3 dagar är aktiv",
+    trialText: "Inget kreditkort krävs. Utforska allt som Ambian har att erbjuda!",
+  },
+  invoiceCopy: {
+    subject: "Ambian-faktura {number}",
+    heading: "🧾 Ny faktura",
+    intro: "En ny Ambian-faktura har utfärdats för {company}. Du får den eftersom den här adressen är kontots faktureringsadress.",
+    reverseCharge: "Omvänd skattskyldighet: mottagaren redovisar momsen.",
+    button: "Visa och betala faktura",
+  },
+  organizationInvite: {
+    subject: "Du är inbjuden till {organization} på Ambian",
+    heading: "👋 Du är inbjuden",
+    intro: "{inviter} har bjudit in dig till {organization} på Ambian som {role}.",
+    roles: {
+      billing: "faktureringskontakt (prenumeration och fakturor)",
+      manager: "ansvarig (scheman och enheter)",
+      player: "spelare (spelar musiken)",
+    },
+    signIn: "Logga in eller skapa ett konto med {email} för att acceptera. Inbjudan gäller i 14 dagar.",
+    button: "Acceptera inbjudan",
+  },
+  silenceAlert: {
+    subjectOne: "🔇 Musiken har stannat på en av dina enheter",
+    subjectOther: "🔇 Musiken har stannat på {count} enheter",
+    heading: "🔇 Din musik har stannat",
+    introOne: "Enligt ditt schema ska musik spelas just nu, men den här enheten har stannat:",
+    introOther: "Enligt ditt schema ska musik spelas just nu, men de här enheterna har stannat:",
+    device: "Enhet {number}",
+    silentFor: "tyst i {minutes} min",
+    lastError: "Senaste fel: {error}",
+    action: "Kontrollera att enheten är ansluten och att Ambian är öppet, och tryck sedan på Spela. Du kan också starta uppspelningen på distans från din profil.",
+    button: "Öppna enheter",
+    note: "Du får det här mejlet eftersom tystnadsvarningar är aktiverade för ditt konto. Du kan stänga av dem eller ställa in tysta timmar i din profil.",
+  },
+  auth: {
+    recovery: {
+      subject: "Återställ ditt Ambian-lösenord",
+      heading: "Återställ ditt lösenord",
+      description: "Klicka på knappen nedan för att återställa ditt lösenord. Länken går ut om 1 timme.",
+      footerNote: "Om du inte har begärt en lösenordsåterställning kan du ignorera det här mejlet.",
+      buttonText: "Återställ lösenord",
+    },
+    signup: {
+      subject: "Välkommen till Ambian - Bekräfta din e-postadress",
+      heading: "Välkommen till Ambian!",
+      description: "Tack för att du registrerade dig. Klicka på knappen nedan för att verifiera din e-postadress.",
+      footerNote: "Om du inte har skapat ett Ambian-konto kan du ignorera det här mejlet.",
+      buttonText: "Verifiera e-post",
+    },
+    magiclink: {
+      subject: "Din inloggningslänk till Ambian",
+      heading: "Logga in på Ambian",
+      description: "Klicka på knappen nedan för att logga in på ditt konto. Länken går ut om 1 timme.",
+      footerNote: "Om du inte har begärt den här inloggningslänken kan du ignorera det här mejlet.",
+      buttonText: "Logga in",
+    },
+    invite: {
+      subject: "Du är inbjuden till Ambian",
+      heading: "Du har blivit inbjuden!",
+      description: "Du har blivit inbjuden till Ambian. Klicka på knappen nedan för att skapa ditt konto.",
+      footerNote: "Om du inte väntade dig den här inbjudan kan du ignorera det här mejlet.",
+      buttonText: "Acceptera inbjudan",
+    },
+    email_change: {
+      subject: "Bekräfta din nya e-postadress - Ambian",
+      heading: "Bekräfta ändrad e-postadress",
+      description: "Klicka på knappen nedan för att bekräfta din nya e-postadress.",
+      footerNote: "Om du inte har begärt den här ändringen, kontakta supporten omedelbart.",
+      buttonText: "Bekräfta e-post",
+    },
+    default: {
+      subject: "Ambian",
+      heading: "Hej!",
+      description: "Klicka på knappen nedan för att fortsätta.",
+      footerNote: "",
+      buttonText: "Fortsätt",
+    },
+    linkHint: "Om knappen inte fungerar, kopiera och klistra in den här länken i din webbläsare:",
+    sentTo: "Det här mejlet skickades till {email}",
+  },
+};
+
+const fi: EmailStrings = {
+  common: {
+    greeting: "Hei,",
+    greetingNamed: "Hei {name},",
+    planName: { monthly: "Kuukausitilaus", yearly: "Vuositilaus" },
+    planInSentence: { monthly: "kuukausitilauksesi", yearly: "vuositilauksesi" },
+    billing: { monthly: "kuukausittain", yearly: "vuosittain" },
+    interval: { monthly: "kk", yearly: "vuosi" },
+    labels: {
+      plan: "Tilaus:",
+      amount: "Summa:",
+      amountPaid: "Maksettu summa:",
+      dueBy: "Eräpäivä:",
+      accessUntil: "Käyttöoikeus asti:",
+      invoice: "Lasku:",
+      newPlan: "Uusi tilaus:",
+      nextBilling: "Seuraava laskutus:",
+      locationsAdded: "Lisätyt toimipisteet:",
+      billing: "Laskutus:",
+      canceled: "Peruttu:",
+      reason: "Syy:",
+    },
+    features: [
+      "Rajoittamaton pääsy kaikkiin soittolistoihin",
+      "Kaupallinen lisenssi yrityksellesi",
+      "Ajasta soittolistat eri kellonajoille",
+      "Ensisijainen tuki",
+    ],
+    helpCenter: "ohjekeskuksessamme",
+    questionsHelp: "Kysyttävää? Käy {helpCenter} tai vastaa tähän viestiin.",
+    questionsReply: "Kysyttävää? Vastaa tähän viestiin tai käy {helpCenter}.",
+    questionsContact: "Kysyttävää? Ota yhteyttä: {email}",
+    manageSubscription: "Hallinnoi tilaustasi osoitteessa {link}",
+    manageLocations: "Hallinnoi toimipisteitäsi osoitteessa {link}",
+    copyright: "© {year} Ambian. Premium-taustamusiikkia yrityksille.",
+  },
+  upcomingPayment: {
+    subject: "Maksumuistutus: Ambian-tilauksesi uusiutuu pian ({amount})",
+    heading: "⏰ Maksumuistutus",
+    intro: "Tämä on ystävällinen muistutus siitä, että Ambian-tilauksesi uusiutuu pian.",
+    bankTransfer: "Jos maksat tilisiirrolla (IBAN), varmistathan että maksu on perillä ennen eräpäivää, jotta palvelusi ei keskeydy.",
+    button: "Näytä lasku",
+  },
+  paymentFailed: {
+    subject: "Toimenpiteitä tarvitaan: Ambian-maksusi epäonnistui",
+    heading: "⚠️ Maksu epäonnistui",
+    intro: "Emme pystyneet veloittamaan Ambian-{plan} maksua ({amount}).",
+    actionRequired: "<strong>Toimenpiteitä tarvitaan:</strong> Päivitä maksutapasi, jotta palvelusi ei keskeydy.",
+    reasonsIntro: "Syynä voi olla:",
+    reasons: ["Kate ei riitä", "Vanhentunut kortti", "Pankkisi hylkäsi kortin"],
+    button: "Päivitä maksutapa",
+    note: "Jos uskot tämän olevan virhe, ota yhteyttä pankkiisi tai meihin, niin autamme.",
+  },
+  subscriptionConfirmation: {
+    subject: "Tervetuloa Ambianiin! Tilauksesi on nyt aktiivinen 🎉",
+    heading: "🎉 Tervetuloa Ambianiin!",
+    intro: "Kiitos, että tilasit Ambianin! Tilauksesi on nyt aktiivinen ja sinulla on täysi pääsy koko musiikkikirjastoomme.",
+    activeTitle: "✓ Tilaus aktiivinen",
+    button: "Aloita kuuntelu",
+    includedTitle: "Tilaukseen sisältyy:",
+  },
+  paymentConfirmation: {
+    subject: "Maksu vahvistettu - Ambian-tilauksesi on aktiivinen",
+    heading: "✓ Maksu vahvistettu",
+    intro: "Kiitos maksustasi! Ambian-tilauksesi on nyt aktiivinen.",
+    detailsTitle: "Maksun tiedot",
+    outro: "Voit alkaa nauttia rajoittamattomasta taustamusiikista yrityksessäsi heti!",
+    button: "Avaa Ambian",
+  },
+  deviceSlotConfirmation: {
+    subject: "Toimipiste lisätty - {locations} nyt käytössä Ambianissa",
+    heading: "🏪 Toimipiste lisätty!",
+    locationsOne: "1 uusi toimipiste",
+    locationsOther: "{count} uutta toimipistettä",
+    intro: "Hienoa! Ambian-tilaukseesi on lisätty {locations}.",
+    addedTitle: "✓ Toimipiste lisätty",
+    devicesOne: "Voit nyt soittaa Ambiania 1 lisälaitteella uudessa toimipisteessäsi.",
+    devicesOther: "Voit nyt soittaa Ambiania {count} lisälaitteella uusissa toimipisteissäsi.",
+    button: "Aloita soitto",
+  },
+  cancellationConfirmation: {
+    subject: "Ambian-tilauksesi päättyy {date}",
+    heading: "Peruutus vahvistettu",
+    intro: "Olemme vastaanottaneet pyyntösi perua Ambian-{plan}.",
+    accessTitle: "✓ Käyttöoikeutesi jatkuu vielä!",
+    accessText: "Tilauksesi on voimassa {date} asti. Voit käyttää kaikkia Ambianin ominaisuuksia siihen saakka.",
+    reactivate: "Muutitko mielesi? Voit aktivoida tilauksesi uudelleen profiilisi asetuksista milloin tahansa ennen päättymispäivää.",
+    button: "Hallinnoi tilausta",
+    footer: "Jos sinulla on kysyttävää, vastaa vain tähän viestiin.",
+  },
+  subscriptionEnded: {
+    subject: "Ambian-tilauksesi on päättynyt",
+    heading: "Tilauksesi on päättynyt",
+    intro: "Ambian-{plan} on nyt päättynyt. Toivottavasti nautit palvelustamme!",
+    offerTitle: "💡 Tuleeko musiikkia ikävä?",
+    offerText: "Voit tilata uudelleen milloin tahansa ja saada heti takaisin pääsyn kaikkiin suosikkisoittolistoihisi. Asetuksesi on tallessa!",
+    feedback: "Jos sinulla on palautetta siitä, miten voisimme parantaa, kuulemme sitä mielellämme. Vastaa vain tähän viestiin.",
+    button: "Tilaa uudelleen",
+    footer: "Kiitos, että olit osa Ambiania. Toivottavasti näemme pian uudelleen!",
+  },
+  accessSuspended: {
+    subject: "🚫 Ambian-käyttöoikeutesi on keskeytetty - Maksamaton lasku",
+    heading: "🚫 Käyttöoikeus keskeytetty",
+    intro: "Valitettavasti Ambian-{plan} on keskeytetty, koska emme saaneet laskusi maksua lisäajan kuluessa.",
+    meaningTitle: "Mitä tämä tarkoittaa?",
+    meaning: [
+      "Sinulla ei ole enää pääsyä Ambianin musiikkikirjastoon",
+      "Toisto on poistettu käytöstä kaikilla laitteillasi",
+      "Soittolistasi ja asetuksesi on tallessa",
+    ],
+    restoreTitle: "💳 Näin palautat käyttöoikeuden",
+    restoreText: "Saat käyttöoikeuden takaisin tilaamalla Ambianin uudelleen voimassa olevalla maksutavalla. Aiemmat asetuksesi ja soittolistasi palautuvat heti.",
+    button: "Tilaa uudelleen",
+    note: "Jos uskot tämän olevan virhe tai olet jo maksanut, ota meihin yhteyttä, niin korjaamme asian heti.",
+  },
+  planChange: {
+    upgraded: {
+      subject: "Tilaus päivitetty - Nyt vuosilaskutuksella",
+      heading: "🎉 Tilaus päivitetty!",
+      intro: "Ambian-tilauksesi on päivitetty kuukausilaskutuksesta vuosilaskutukseen. Säästät nyt 58 €/vuosi kuukausilaskutukseen verrattuna!",
+    },
+    changed: {
+      subject: "Tilaus muutettu - Nyt kuukausilaskutuksella",
+      heading: "📋 Tilaus muutettu",
+      intro: "Ambian-tilauksesi on muutettu vuosilaskutuksesta kuukausilaskutukseen.",
+    },
+    updatedTitle: "✓ Tilaus päivitetty",
+    button: "Jatka kuuntelua",
+  },
+  deviceSlotUnpaidCancellation: {
+    subject: "Toimipistetilaus peruttu - Lasku maksamatta",
+    heading: "Toimipistetilaus peruttu",
+    introOne: "Lisätoimipisteen tilauksesi on peruttu, koska laskua ei maksettu määräajassa.",
+    introOther: "Lisätoimipisteiden tilauksesi on peruttu, koska laskua ei maksettu määräajassa.",
+    canceledOne: "1 lisätoimipiste",
+    canceledOther: "{count} lisätoimipistettä",
+    reason: "Lasku maksamatta",
+    outro: "Jos tarvitset edelleen lisätoimipisteitä yrityksellesi, voit lisätä ne uudelleen profiilistasi.",
+    button: "Lisää toimipisteitä",
+    note: "Jos uskot tämän olevan virhe tai sinulla on kysyttävää, ota yhteyttä: {email}.",
+  },
+  deviceSlotAutoCanceled: {
+    subject: "Lisätoimipisteet peruttu - Päätilaus päättynyt",
+    heading: "Lisätoimipisteet peruttu",
+    introOne: "Ambian-päätilauksesi on päättynyt, joten lisätoimipisteen tilauksesi on peruttu automaattisesti.",
+    introOther: "Ambian-päätilauksesi on päättynyt, joten {count} lisätoimipisteen tilaustasi on peruttu automaattisesti.",
+    note: "<strong>Huom:</strong> Lisätoimipisteiden tilaukset edellyttävät voimassa olevaa päätilausta. Jos tilaat Ambianin uudelleen, voit lisätä toimipisteitä uudelleen profiilisivultasi.",
+    outro: "Jos haluat jatkaa Ambianin käyttöä useissa toimipisteissä, tilaa uudelleen ja lisää sitten lisätoimipisteesi.",
+    button: "Katso tilaukset",
+  },
+  trialReminder: {
+    subjectOne: "Ambian-kokeilujaksosi päättyy huomenna",
+    subjectOther: "Ambian-kokeilujaksosi päättyy {days} päivän kuluttua",
+    heading: "⏰ Kokeilujaksosi päättyy pian",
+    intro: "Ystävällinen muistutus: ilmainen Ambian-kokeilujaksosi päättyy {date}.",
+    subscribe: "Jotta voit jatkaa rajoittamatonta pääsyä kuratoituun musiikkikirjastoomme yrityksessäsi, tee tilaus ennen kokeilujakson päättymistä.",
+    button: "Katso tilaukset ja tilaa",
+    keepTitle: "Tilauksella säilytät:",
+  },
+  welcome: {
+    subject: "Tervetuloa Ambianiin! 🎵 Ilmainen kokeilujaksosi on alkanut",
+    heading: "🎉 Tervetuloa Ambianiin!",
+    greeting: "Hei {name}! 👋",
+    intro: "Kiitos, että liityit Ambianiin! Sinulla on nyt pääsy lisenssivapaaseen premium-taustamusiikkiin yrityksellesi. Ilmainen 3 päivän kokeilujaksosi on alkanut.",
+    featuresTitle: "Näin pääset alkuun:",
+    features: [
+      "Selaa yli 50 kuratoitua soittolistaa eri tunnelmiin ja tyylilajeihin",
+      "Ajasta musiikki soimaan automaattisesti päivän mittaan",
+      "Käytä millä tahansa laitteella - verkossa, mobiilissa tai tabletilla",
+      "Kaikki musiikki on täysin lisensoitu kaupalliseen käyttöön",
+    ],
+    button: "Aloita kuuntelu",
+    trialTitle: "🎁 Ilmainen 3 päivän kokeilujaksosi on käynnissä",
+    trialText: "Luottokorttia ei tarvita. Tutustu kaikkeen, mitä Ambian tarjoaa!",
+  },
+  invoiceCopy: {
+    subject: "Ambian-lasku {number}",
+    heading: "🧾 Uusi lasku",
+    intro: "Yritykselle {company} on laadittu uusi Ambian-lasku. Saat sen, koska tämä osoite on tilin laskutussähköposti.",
+    reverseCharge: "Käännetty verovelvollisuus: ostaja tilittää arvonlisäveron.",
+    button: "Näytä ja maksa lasku",
+  },
+  organizationInvite: {
+    subject: "Sinut on kutsuttu organisaatioon {organization} Ambianissa",
+    heading: "👋 Sinut on kutsuttu",
+    intro: "{inviter} kutsui sinut organisaatioon {organization} Ambianissa roolilla {role}.",
+    roles: {
+      billing: "laskutusyhteyshenkilö (tilaus ja laskut)",
+      manager: "esihenkilö (ajastukset ja laitteet)",
+      player: "soittaja (soittaa musiikkia)",
+    },
+    signIn: "Hyväksy kutsu kirjautumalla tai luomalla tili osoitteella {email}. Kutsu on voimassa 14 päivää.",
+    button: "Hyväksy kutsu",
+  },
+  silenceAlert: {
+    subjectOne: "🔇 Musiikki on pysähtynyt yhdellä laitteellasi",
+    subjectOther: "🔇 Musiikki on pysähtynyt {count} laitteella",
+    heading: "🔇 Musiikkisi on pysähtynyt",
+    introOne: "Ajastuksesi mukaan musiikin pitäisi soida juuri nyt, mutta tämä laite on pysähtynyt:",
+    introOther: "Ajastuksesi mukaan musiikin pitäisi soida juuri nyt, mutta nämä laitteet ovat pysähtyneet:",
+    device: "Laite {number}",
+    silentFor: "hiljaa {minutes} min",
+    lastError: "Viimeisin virhe: {error}",
+    action: "Tarkista, että laite on verkossa ja Ambian on auki, ja paina sitten Toista. Voit myös käynnistää toiston etänä profiilistasi.",
+    button: "Avaa laitteet",
+    note: "Saat tämän sähköpostin, koska hiljaisuushälytykset ovat käytössä tililläsi. Voit poistaa ne käytöstä tai asettaa hiljaiset tunnit profiilissasi.",
+  },
+  auth: {
+    recovery: {
+      subject: "Nollaa Ambian-salasanasi",
+      heading: "Nollaa salasanasi",
+      description: "Nollaa salasanasi alla olevasta painikkeesta. Linkki vanhenee 1 tunnin kuluttua.",
+      footerNote: "Jos et pyytänyt salasanan nollausta, voit jättää tämän viestin huomiotta.",
+      buttonText: "Nollaa salasana",
+    },
+    signup: {
+      subject: "Tervetuloa Ambianiin - Vahvista sähköpostiosoitteesi",
+      heading: "Tervetuloa Ambianiin!",
+      description: "Kiitos rekisteröitymisestä. Vahvista sähköpostiosoitteesi alla olevasta painikkeesta.",
+      footerNote: "Jos et luonut Ambian-tiliä, voit jättää tämän viestin huomiotta.",
+      buttonText: "Vahvista sähköposti",
+    },
+    magiclink: {
+      subject: "Ambian-kirjautumislinkkisi",
+      heading: "Kirjaudu Ambianiin",
+      description: "Kirjaudu tilillesi alla olevasta painikkeesta. Linkki vanhenee 1 tunnin kuluttua.",
+      footerNote: "Jos et pyytänyt tätä kirjautumislinkkiä, voit jättää tämän viestin huomiotta.",
+      buttonText: "Kirjaudu",
+    },
+    invite: {
+      subject: "Sinut on kutsuttu Ambianiin",
+      heading: "Sinut on kutsuttu!",
+      description: "Sinut on kutsuttu liittymään Ambianiin. Luo tilisi alla olevasta painikkeesta.",
+      footerNote: "Jos et odottanut tätä kutsua, voit jättää tämän viestin huomiotta.",
+      buttonText: "Hyväksy kutsu",
+    },
+    email_change: {
+      subject: "Vahvista uusi sähköpostiosoitteesi - Ambian",
+      heading: "Vahvista sähköpostiosoitteen vaihto",
+      description: "Vahvista uusi sähköpostiosoitteesi alla olevasta painikkeesta.",
+      footerNote: "Jos et pyytänyt tätä muutosta, ota heti yhteyttä tukeen.",
+      buttonText: "Vahvista sähköposti",
+    },
+    default: {
+      subject: "Ambian",
+      heading: "Hei!",
+      description: "Jatka alla olevasta painikkeesta.",
+      footerNote: "",
+      buttonText: "Jatka",
+    },
+    linkHint: "Jos painike ei toimi, kopioi ja liitä tämä linkki selaimeesi:",
+    sentTo: "Tämä viesti lähetettiin osoitteeseen {email}",
+  },
+};
+
+const de: EmailStrings = {
+  common: {
+    greeting: "Hallo,",
+    greetingNamed: "Hallo {name},",
+    planName: { monthly: "Monatsabo", yearly: "Jahresabo" },
+    planInSentence: { monthly: "Monatsabo", yearly: "Jahresabo" },
+    billing: { monthly: "monatlich", yearly: "jährlich" },
+    interval: { monthly: "Monat", yearly: "Jahr" },
+    labels: {
+      plan: "Tarif:",
+      amount: "Betrag:",
+      amountPaid: "Bezahlter Betrag:",
+      dueBy: "Fällig bis:",
+      accessUntil: "Zugang bis:",
+      invoice: "Rechnung:",
+      newPlan: "Neuer Tarif:",
+      nextBilling: "Nächste Abrechnung:",
+      locationsAdded: "Hinzugefügte Standorte:",
+      billing: "Abrechnung:",
+      canceled: "Gekündigt:",
+      reason: "Grund:",
+    },
+    features: [
+      "Unbegrenzter Zugriff auf alle Playlists",
+      "Kommerzielle Lizenz für dein Unternehmen",
+      "Playlists für verschiedene Zeiten planen",
+      "Bevorzugter Support",
+    ],
+    helpCenter: "Hilfe-Center",
+    questionsHelp: "Fragen? Besuche unser {helpCenter} oder antworte auf diese E-Mail.",
+    questionsReply: "Fragen? Antworte einfach auf diese E-Mail oder besuche unser {helpCenter}.",
+    questionsContact: "Fragen? Kontaktiere uns unter {email}",
+    manageSubscription: "Verwalte dein Abo unter {link}",
+    manageLocations: "Verwalte deine Standorte unter {link}",
+    copyright: "© {year} Ambian. Premium-Hintergrundmusik für Unternehmen.",
+  },
+  upcomingPayment: {
+    subject: "Zahlungserinnerung: Dein Ambian-Abo verlängert sich bald ({amount})",
+    heading: "⏰ Zahlungserinnerung",
+    intro: "Dies ist eine freundliche Erinnerung, dass sich dein Ambian-Abo bald verlängert.",
+    bankTransfer: "Wenn du per Banküberweisung (IBAN) bezahlst, stelle bitte sicher, dass die Zahlung vor dem Fälligkeitsdatum erfolgt, damit dein Dienst nicht unterbrochen wird.",
+    button: "Rechnung ansehen",
+  },
+  paymentFailed: {
+    subject: "Handlung erforderlich: Deine Ambian-Zahlung ist fehlgeschlagen",
+    heading: "⚠️ Zahlung fehlgeschlagen",
+    intro: "Wir konnten deine Zahlung von {amount} für dein Ambian-{plan} nicht verarbeiten.",
+    actionRequired: "<strong>Handlung erforderlich:</strong> Bitte aktualisiere deine Zahlungsmethode, damit dein Dienst nicht unterbrochen wird.",
+    reasonsIntro: "Mögliche Gründe:",
+    reasons: ["Unzureichende Deckung", "Abgelaufene Karte", "Karte von deiner Bank abgelehnt"],
+    button: "Zahlungsmethode aktualisieren",
+    note: "Wenn du glaubst, dass es sich um einen Fehler handelt, wende dich an deine Bank oder kontaktiere uns.",
+  },
+  subscriptionConfirmation: {
+    subject: "Willkommen bei Ambian! Dein Abo ist jetzt aktiv 🎉",
+    heading: "🎉 Willkommen bei Ambian!",
+    intro: "Danke für dein Ambian-Abo! Dein Abo ist jetzt aktiv und du hast vollen Zugriff auf unsere gesamte Musikbibliothek.",
+    activeTitle: "✓ Abo aktiv",
+    button: "Jetzt anhören",
+    includedTitle: "Enthalten:",
+  },
+  paymentConfirmation: {
+    subject: "Zahlung bestätigt - Dein Ambian-Abo ist aktiv",
+    heading: "✓ Zahlung bestätigt",
+    intro: "Danke für deine Zahlung! Dein Ambian-Abo ist jetzt aktiv.",
+    detailsTitle: "Zahlungsdetails",
+    outro: "Du kannst sofort unbegrenzte Hintergrundmusik für dein Unternehmen genießen!",
+    button: "Ambian öffnen",
+  },
+  deviceSlotConfirmation: {
+    subject: "Standort hinzugefügt - {locations} jetzt aktiv bei Ambian",
+    heading: "🏪 Standort hinzugefügt!",
+    locationsOne: "1 neuer Standort",
+    locationsOther: "{count} neue Standorte",
+    intro: "Gute Nachrichten! Deinem Ambian-Abo wurde {locations} hinzugefügt.",
+    addedTitle: "✓ Standort hinzugefügt",
+    devicesOne: "Du kannst Ambian jetzt auf 1 weiteren Gerät an deinem neuen Standort abspielen.",
+    devicesOther: "Du kannst Ambian jetzt auf {count} weiteren Geräten an deinen neuen Standorten abspielen.",
+    button: "Jetzt abspielen",
+  },
+  cancellationConfirmation: {
+    subject: "Dein Ambian-Abo endet am {date}",
+    heading: "Kündigung bestätigt",
+    intro: "Wir haben deine Anfrage erhalten, dein Ambian-{plan} zu kündigen.",
+    accessTitle: "✓ Du hast weiterhin Zugriff!",
+    accessText: "Dein Abo bleibt bis zum {date} aktiv. Bis dahin kannst du alle Ambian-Funktionen weiter nutzen.",
+    reactivate: "Du hast es dir anders überlegt? Du kannst dein Abo jederzeit vor dem Enddatum in deinen Profileinstellungen reaktivieren.",
+    button: "Abo verwalten",
+    footer: "Wenn du Fragen hast, antworte einfach auf diese E-Mail.",
+  },
+  subscriptionEnded: {
+    subject: "Dein Ambian-Abo ist beendet",
+    heading: "Dein Abo ist beendet",
+    intro: "Dein Ambian-{plan} ist jetzt beendet. Wir hoffen, dir hat unser Dienst gefallen!",
+    offerTitle: "💡 Vermisst du die Musik?",
+    offerText: "Du kannst jederzeit wieder abonnieren und sofort wieder auf alle deine Lieblings-Playlists zugreifen. Deine Einstellungen bleiben gespeichert!",
+    feedback: "Wenn du Feedback hast, wie wir besser werden können, freuen wir uns von dir zu hören. Antworte einfach auf diese E-Mail.",
+    button: "Jetzt wieder abonnieren",
+    footer: "Danke, dass du Teil von Ambian warst. Wir hoffen, dich bald wiederzusehen!",
+  },
+  accessSuspended: {
+    subject: "🚫 Dein Ambian-Zugang wurde gesperrt - Rechnung unbezahlt",
+    heading: "🚫 Zugang gesperrt",
+    intro: "Leider wurde dein Ambian-{plan} gesperrt, da wir die Zahlung für deine Rechnung nicht innerhalb der Nachfrist erhalten haben.",
+    meaningTitle: "Was bedeutet das?",
+    meaning: [
+      "Du hast keinen Zugriff mehr auf die Musikbibliothek von Ambian",
+      "Die Wiedergabe wurde auf allen deinen Geräten deaktiviert",
+      "Deine Playlists und Einstellungen bleiben gespeichert",
+    ],
+    restoreTitle: "💳 So stellst du den Zugang wieder her",
+    restoreText: "Um wieder Zugang zu Ambian zu erhalten, schließe bitte erneut ein Abo mit einer gültigen Zahlungsmethode ab. Deine bisherigen Einstellungen und Playlists werden sofort wiederhergestellt.",
+    button: "Erneut abonnieren",
+    note: "Wenn du glaubst, dass es sich um einen Fehler handelt, oder bereits bezahlt hast, kontaktiere uns und wir klären es sofort.",
+  },
+  planChange: {
+    upgraded: {
+      subject: "Tarif geändert - Jetzt mit jährlicher Abrechnung",
+      heading: "🎉 Tarif upgegradet!",
+      intro: "Dein Ambian-Abo wurde von monatlicher auf jährliche Abrechnung umgestellt. Du sparst jetzt 58 €/Jahr gegenüber der monatlichen Abrechnung!",
+    },
+    changed: {
+      subject: "Tarif geändert - Jetzt mit monatlicher Abrechnung",
+      heading: "📋 Tarif geändert",
+      intro: "Dein Ambian-Abo wurde von jährlicher auf monatliche Abrechnung umgestellt.",
+    },
+    updatedTitle: "✓ Tarif aktualisiert",
+    button: "Weiter hören",
+  },
+  deviceSlotUnpaidCancellation: {
+    subject: "Standort-Abo gekündigt - Rechnung nicht bezahlt",
+    heading: "Standort-Abo gekündigt",
+    introOne: "Dein Abo für einen zusätzlichen Standort wurde gekündigt, da die Rechnung nicht fristgerecht bezahlt wurde.",
+    introOther: "Dein Abo für zusätzliche Standorte wurde gekündigt, da die Rechnung nicht fristgerecht bezahlt wurde.",
+    canceledOne: "1 zusätzlicher Standort",
+    canceledOther: "{count} zusätzliche Standorte",
+    reason: "Rechnung nicht bezahlt",
+    outro: "Wenn du weiterhin zusätzliche Standorte für dein Unternehmen benötigst, kannst du sie in deinem Profil erneut hinzufügen.",
+    button: "Standorte hinzufügen",
+    note: "Wenn du glaubst, dass es sich um einen Fehler handelt, oder Fragen hast, kontaktiere uns unter {email}.",
+  },
+  deviceSlotAutoCanceled: {
+    subject: "Zusätzliche Standorte gekündigt - Hauptabo beendet",
+    heading: "Zusätzliche Standorte gekündigt",
+    introOne: "Dein Ambian-Hauptabo ist beendet, daher wurde dein Abo für einen zusätzlichen Standort automatisch gekündigt.",
+    introOther: "Dein Ambian-Hauptabo ist beendet, daher wurden deine {count} Abos für zusätzliche Standorte automatisch gekündigt.",
+    note: "<strong>Hinweis:</strong> Abos für zusätzliche Standorte setzen ein aktives Hauptabo voraus. Wenn du Ambian erneut abonnierst, kannst du auf deiner Profilseite wieder Standorte hinzufügen.",
+    outro: "Wenn du Ambian weiterhin an mehreren Standorten nutzen möchtest, schließe bitte erneut ein Abo ab und füge dann deine zusätzlichen Standorte hinzu.",
+    button: "Tarife ansehen",
+  },
+  trialReminder: {
+    subjectOne: "Deine Ambian-Testphase endet morgen",
+    subjectOther: "Deine Ambian-Testphase endet in {days} Tagen",
+    heading: "⏰ Deine Testphase endet bald",
+    intro: "Eine freundliche Erinnerung: Deine kostenlose Ambian-Testphase endet am {date}.",
+    subscribe: "Um weiterhin unbegrenzten Zugriff auf unsere kuratierte Musikbibliothek für dein Unternehmen zu haben, schließe bitte vor Ende der Testphase ein Abo ab.",
+    button: "Tarife ansehen & abonnieren",
+    keepTitle: "Das behältst du mit einem Abo:",
+  },
+  welcome: {
+    subject: "Willkommen bei Ambian! 🎵 Deine kostenlose Testphase hat begonnen",
+    heading: "🎉 Willkommen bei Ambian!",
+    greeting: "Hallo {name}! 👋",
+    intro: "Danke, dass du dich bei Ambian angemeldet hast! Du hast jetzt Zugriff auf lizenzfreie Premium-Hintergrundmusik für dein Unternehmen. Deine 3-tägige kostenlose Testphase hat begonnen.",
+    featuresTitle: "Das kannst du tun:",
+    features: [
+      "Über 50 kuratierte Playlists für alle Stimmungen und Genres entdecken",
+      "Musik so planen, dass sie den ganzen Tag automatisch läuft",
+      "Auf jedem Gerät nutzen - Web, Smartphone oder Tablet",
+      "Alle Musik ist vollständig für die kommerzielle Nutzung lizenziert",
+    ],
+    button: "Jetzt anhören",
+    trialTitle: "🎁 Deine 3-tägige kostenlose Testphase ist aktiv",
+    trialText: "Keine Kreditkarte erforderlich. Entdecke alles, was Ambian zu bieten hat!",
+  },
+  invoiceCopy: {
+    subject: "Ambian-Rechnung {number}",
+    heading: "🧾 Neue Rechnung",
+    intro: "Für {company} wurde eine neue Ambian-Rechnung ausgestellt. Du erhältst sie, weil diese Adresse die Rechnungs-E-Mail des Kontos ist.",
+    reverseCharge: "Steuerschuldnerschaft des Leistungsempfängers (Reverse Charge).",
+    button: "Rechnung ansehen & bezahlen",
+  },
+  organizationInvite: {
+    subject: "Du wurdest zu {organization} auf Ambian eingeladen",
+    heading: "👋 Du bist eingeladen",
+    intro: "{inviter} hat dich als {role} zu {organization} auf Ambian eingeladen.",
+    roles: {
+      billing: "Abrechnungskontakt (Abo und Rechnungen)",
+      manager: "Manager (Zeitpläne und Geräte)",
+      player: "Player (spielt die Musik)",
+    },
+    signIn: "Melde dich mit {email} an oder erstelle ein Konto, um die Einladung anzunehmen. Sie ist 14 Tage gültig.",
+    button: "Einladung annehmen",
+  },
+  silenceAlert: {
+    subjectOne: "🔇 Die Musik auf einem deiner Geräte ist verstummt",
+    subjectOther: "🔇 Die Musik auf {count} Geräten ist verstummt",
+    heading: "🔇 Deine Musik ist verstummt",
+    introOne: "Laut deinem Zeitplan sollte gerade Musik laufen, aber dieses Gerät hat aufgehört:",
+    introOther: "Laut deinem Zeitplan sollte gerade Musik laufen, aber diese Geräte haben aufgehört:",
+    device: "Gerät {number}",
+    silentFor: "seit {minutes} Min. still",
+    lastError: "Letzter Fehler: {error}",
+    action: "Prüfe, ob das Gerät online und Ambian geöffnet ist, und drücke dann auf Abspielen. Du kannst die Wiedergabe auch aus der Ferne in deinem Profil starten.",
+    button: "Geräte öffnen",
+    note: "Du erhältst diese E-Mail, weil Stille-Benachrichtigungen für dein Konto aktiviert sind. Du kannst sie in deinem Profil deaktivieren oder Ruhezeiten festlegen.",
+  },
+  auth: {
+    recovery: {
+      subject: "Setze dein Ambian-Passwort zurück",
+      heading: "Passwort zurücksetzen",
+      description: "Klicke auf die Schaltfläche unten, um dein Passwort zurückzusetzen. Dieser Link ist 1 Stunde gültig.",
+      footerNote: "Wenn du kein Zurücksetzen des Passworts angefordert hast, kannst du diese E-Mail ignorieren.",
+      buttonText: "Passwort zurücksetzen",
+    },
+    signup: {
+      subject: "Willkommen bei Ambian - Bestätige deine E-Mail-Adresse",
+      heading: "Willkommen bei Ambian!",
+      description: "Danke für deine Registrierung. Klicke auf die Schaltfläche unten, um deine E-Mail-Adresse zu bestätigen.",
+      footerNote: "Wenn du kein Ambian-Konto erstellt hast, kannst du diese E-Mail ignorieren.",
+      buttonText: "E-Mail bestätigen",
+    },
+    magiclink: {
+      subject: "Dein Ambian-Anmeldelink",
+      heading: "Bei Ambian anmelden",
+      description: "Klicke auf die Schaltfläche unten, um dich bei deinem Konto anzumelden. Dieser Link ist 1 Stunde gültig.",
+      footerNote: "Wenn du diesen Anmeldelink nicht angefordert hast, kannst du diese E-Mail ignorieren.",
+      buttonText: "Anmelden",
+    },
+    invite: {
+      subject: "Du bist zu Ambian eingeladen",
+      heading: "Du wurdest eingeladen!",
+      description: "Du wurdest zu Ambian eingeladen. Klicke auf die Schaltfläche unten, um dein Konto einzurichten.",
+      footerNote: "Wenn du diese Einladung nicht erwartet hast, kannst du diese E-Mail ignorieren.",
+      buttonText: "Einladung annehmen",
+    },
+    email_change: {
+      subject: "Bestätige deine neue E-Mail-Adresse - Ambian",
+      heading: "E-Mail-Änderung bestätigen",
+      description: "Klicke auf die Schaltfläche unten, um deine neue E-Mail-Adresse zu bestätigen.",
+      footerNote: "Wenn du diese Änderung nicht angefordert hast, kontaktiere bitte sofort den Support.",
+      buttonText: "E-Mail bestätigen",
+    },
+    default: {
+      subject: "Ambian",
+      heading: "Hallo!",
+      description: "Klicke auf die Schaltfläche unten, um fortzufahren.",
+      footerNote: "",
+      buttonText: "Weiter",
+    },
+    linkHint: "Falls die Schaltfläche nicht funktioniert, kopiere diesen Link und füge ihn in deinen Browser ein:",
+    sentTo: "Diese E-Mail wurde an {email} gesendet",
+  },
+};
+
+const fr: EmailStrings = {
+  common: {
+    greeting: "Bonjour,",
+    greetingNamed: "Bonjour {name},",
+    planName: { monthly: "Abonnement mensuel", yearly: "Abonnement annuel" },
+    planInSentence: { monthly: "abonnement mensuel", yearly: "abonnement annuel" },
+    billing: { monthly: "mensuel", yearly: "annuel" },
+    interval: { monthly: "mois", yearly: "an" },
+    labels: {
+      plan: "Formule :",
+      amount: "Montant :",
+      amountPaid: "Montant payé :",
+      dueBy: "À régler avant le :",
+      accessUntil: "Accès jusqu'au :",
+      invoice: "Facture :",
+      newPlan: "Nouvelle formule :",
+      nextBilling: "Prochaine facturation :",
+      locationsAdded: "Établissements ajoutés :",
+      billing: "Facturation :",
+      canceled: "Résilié :",
+      reason: "Motif :",
+    },
+    features: [
+      "Accès illimité à toutes les playlists",
+      "Licence commerciale pour votre entreprise",
+      "Programmation des playlists selon l'heure",
+      "Support prioritaire",
+    ],
+    helpCenter: "centre d'aide",
+    questionsHelp: "Des questions ? Consultez notre {helpCenter} ou répondez à cet e-mail.",
+    questionsReply: "Des questions ? Répondez simplement à cet e-mail ou consultez notre {helpCenter}.",
+    questionsContact: "Des questions ? Contactez-nous à {email}",
+    manageSubscription: "Gérez votre abonnement sur {link}",
+    manageLocations: "Gérez vos établissements sur {link}",
+    copyright: "© {year} Ambian. Musique d'ambiance premium pour les entreprises.",
+  },
+  upcomingPayment: {
+    subject: "Rappel de paiement : votre abonnement Ambian sera bientôt renouvelé ({amount})",
+    heading: "⏰ Rappel de paiement",
+    intro: "Petit rappel : le renouvellement de votre abonnement Ambian approche.",
+    bankTransfer: "Si vous payez par virement bancaire (IBAN), veillez à effectuer le paiement avant la date d'échéance pour éviter toute interruption de service.",
+    button: "Voir la facture",
+  },
+  paymentFailed: {
+    subject: "Action requise : votre paiement Ambian a échoué",
+    heading: "⚠️ Échec du paiement",
+    intro: "Nous n'avons pas pu traiter votre paiement de {amount} pour votre {plan} Ambian.",
+    actionRequired: "<strong>Action requise :</strong> veuillez mettre à jour votre moyen de paiement pour éviter toute interruption de service.",
+    reasonsIntro: "Causes possibles :",
+    reasons: ["Fonds insuffisants", "Carte expirée", "Carte refusée par votre banque"],
+    button: "Mettre à jour le moyen de paiement",
+    note: "Si vous pensez qu'il s'agit d'une erreur, contactez votre banque ou écrivez-nous pour obtenir de l'aide.",
+  },
+  subscriptionConfirmation: {
+    subject: "Bienvenue sur Ambian ! Votre abonnement est actif 🎉",
+    heading: "🎉 Bienvenue sur Ambian !",
+    intro: "Merci de vous être abonné à Ambian ! Votre abonnement est désormais actif et vous avez accès à l'intégralité de notre bibliothèque musicale.",
+    activeTitle: "✓ Abonnement actif",
+    button: "Commencer l'écoute",
+    includedTitle: "Ce qui est inclus :",
+  },
+  paymentConfirmation: {
+    subject: "Paiement confirmé - Votre abonnement Ambian est actif",
+    heading: "✓ Paiement confirmé",
+    intro: "Merci pour votre paiement ! Votre abonnement Ambian est désormais actif.",
+    detailsTitle: "Détails du paiement",
+    outro: "Vous pouvez dès maintenant profiter d'une musique d'ambiance illimitée pour votre entreprise !",
+    button: "Ouvrir Ambian",
+  },
+  deviceSlotConfirmation: {
+    subject: "Établissement ajouté - {locations} désormais actif sur Ambian",
+    heading: "🏪 Établissement ajouté !",
+    locationsOne: "1 nouvel établissement",
+    locationsOther: "{count} nouveaux établissements",
+    intro: "Bonne nouvelle ! Vous avez ajouté {locations} à votre abonnement Ambian.",
+    addedTitle: "✓ Établissement ajouté",
+    devicesOne: "Vous pouvez désormais diffuser Ambian sur 1 appareil supplémentaire dans votre nouvel établissement.",
+    devicesOther: "Vous pouvez désormais diffuser Ambian sur {count} appareils supplémentaires dans vos nouveaux établissements.",
+    button: "Commencer la diffusion",
+  },
+  cancellationConfirmation: {
+    subject: "Votre abonnement Ambian prendra fin le {date}",
+    heading: "Résiliation confirmée",
+    intro: "Nous avons bien reçu votre demande de résiliation de votre {plan} Ambian.",
+    accessTitle: "✓ Vous avez toujours accès !",
+    accessText: "Votre abonnement reste actif jusqu'au {date}. Vous pouvez continuer à profiter de toutes les fonctionnalités d'Ambian d'ici là.",
+    reactivate: "Vous avez changé d'avis ? Vous pouvez réactiver votre abonnement à tout moment avant la date de fin depuis les paramètres de votre profil.",
+    button: "Gérer l'abonnement",
+    footer: "Pour toute question, répondez simplement à cet e-mail.",
+  },
+  subscriptionEnded: {
+    subject: "Votre abonnement Ambian a pris fin",
+    heading: "Votre abonnement a pris fin",
+    intro: "Votre {plan} Ambian a pris fin. Nous espérons que notre service vous a plu !",
+    offerTitle: "💡 La musique vous manque ?",
+    offerText: "Vous pouvez vous réabonner à tout moment et retrouver instantanément toutes vos playlists préférées. Vos préférences et paramètres sont conservés !",
+    feedback: "Si vous avez des suggestions pour nous aider à nous améliorer, nous serions ravis de les lire. Répondez simplement à cet e-mail.",
+    button: "Se réabonner",
+    footer: "Merci d'avoir fait partie d'Ambian. Nous espérons vous revoir bientôt !",
+  },
+  accessSuspended: {
+    subject: "🚫 Votre accès Ambian a été suspendu - Facture impayée",
+    heading: "🚫 Accès suspendu",
+    intro: "Malheureusement, votre {plan} Ambian a été suspendu car nous n'avons pas reçu le paiement de votre facture dans le délai de grâce.",
+    meaningTitle: "Qu'est-ce que cela signifie ?",
+    meaning: [
+      "Vous n'avez plus accès à la bibliothèque musicale d'Ambian",
+      "La lecture a été désactivée sur tous vos appareils",
+      "Vos playlists et préférences sont conservées",
+    ],
+    restoreTitle: "💳 Comment rétablir l'accès",
+    restoreText: "Pour retrouver l'accès à Ambian, abonnez-vous à nouveau avec un moyen de paiement valide. Vos préférences et playlists seront restaurées instantanément.",
+    button: "Se réabonner",
+    note: "Si vous pensez qu'il s'agit d'une erreur ou si vous avez déjà payé, contactez-nous et nous réglerons cela immédiatement.",
+  },
+  planChange: {
+    upgraded: {
+      subject: "Formule mise à niveau - Facturation annuelle",
+      heading: "🎉 Formule mise à niveau !",
+      intro: "Votre abonnement Ambian est passé d'une facturation mensuelle à une facturation annuelle. Vous économisez désormais 58 €/an par rapport à la facturation mensuelle !",
+    },
+    changed: {
+      subject: "Formule modifiée - Facturation mensuelle",
+      heading: "📋 Formule modifiée",
+      intro: "Votre abonnement Ambian est passé d'une facturation annuelle à une facturation mensuelle.",
+    },
+    updatedTitle: "✓ Formule mise à jour",
+    button: "Continuer l'écoute",
+  },
+  deviceSlotUnpaidCancellation: {
+    subject: "Abonnement d'établissement résilié - Facture impayée",
+    heading: "Abonnement d'établissement résilié",
+    introOne: "Votre abonnement pour un établissement supplémentaire a été résilié car la facture n'a pas été payée dans le délai imparti.",
+    introOther: "Votre abonnement pour des établissements supplémentaires a été résilié car la facture n'a pas été payée dans le délai imparti.",
+    canceledOne: "1 établissement supplémentaire",
+    canceledOther: "{count} établissements supplémentaires",
+    reason: "Facture impayée",
+    outro: "Si vous avez toujours besoin d'établissements supplémentaires, vous pouvez les ajouter à nouveau depuis votre profil.",
+    button: "Ajouter des établissements",
+    note: "Si vous pensez qu'il s'agit d'une erreur ou avez des questions, contactez-nous à {email}.",
+  },
+  deviceSlotAutoCanceled: {
+    subject: "Établissements supplémentaires résiliés - Abonnement principal terminé",
+    heading: "Établissements supplémentaires résiliés",
+    introOne: "Votre abonnement principal Ambian a pris fin, votre abonnement pour un établissement supplémentaire a donc été automatiquement résilié.",
+    introOther: "Votre abonnement principal Ambian a pris fin, vos {count} abonnements pour des établissements supplémentaires ont donc été automatiquement résiliés.",
+    note: "<strong>Remarque :</strong> les abonnements d'établissements supplémentaires nécessitent un abonnement principal actif. Si vous vous réabonnez à Ambian, vous pourrez ajouter à nouveau des établissements depuis votre page Profil.",
+    outro: "Si vous souhaitez continuer à utiliser Ambian dans plusieurs établissements, réabonnez-vous puis ajoutez vos établissements supplémentaires.",
+    button: "Voir les formules",
+  },
+  trialReminder: {
+    subjectOne: "Votre essai Ambian se termine demain",
+    subjectOther: "Votre essai Ambian se termine dans {days} jours",
+    heading: "⏰ Votre essai se termine bientôt",
+    intro: "Petit rappel : votre essai gratuit Ambian se termine le {date}.",
+    subscribe: "Pour continuer à profiter d'un accès illimité à notre bibliothèque musicale pour votre entreprise, abonnez-vous avant la fin de votre essai.",
+    button: "Voir les formules et s'abonner",
+    keepTitle: "Ce que vous conservez avec un abonnement :",
+  },
+  welcome: {
+    subject: "Bienvenue sur Ambian ! 🎵 Votre essai gratuit a commencé",
+    heading: "🎉 Bienvenue sur Ambian !",
+    greeting: "Bonjour {name} ! 👋",
+    intro: "Merci d'avoir rejoint Ambian ! Vous avez désormais accès à une musique d'ambiance premium et libre de droits pour votre entreprise. Votre essai gratuit de 3 jours a commencé.",
+    featuresTitle: "Voici ce que vous pouvez faire :",
+    features: [
+      "Parcourir plus de 50 playlists sélectionnées par ambiance et par genre",
+      "Programmer la musique pour qu'elle joue automatiquement toute la journée",
+      "Utiliser Ambian sur n'importe quel appareil : web, mobile ou tablette",
+      "Toute la musique est entièrement licenciée pour un usage commercial",
+    ],
+    button: "Commencer l'écoute",
+    trialTitle: "🎁 Votre essai gratuit de 3 jours est actif",
+    trialText: "Aucune carte bancaire requise. Découvrez tout ce qu'Ambian a à offrir !",
+  },
+  invoiceCopy: {
+    subject: "Facture Ambian {number}",
+    heading: "🧾 Nouvelle facture",
+    intro: "Une nouvelle facture Ambian a été émise pour {company}. Vous la recevez car cette adresse est l'e-mail de facturation du compte.",
+    reverseCharge: "Autoliquidation : la TVA est due par le preneur.",
+    button: "Voir et payer la facture",
+  },
+  organizationInvite: {
+    subject: "Vous êtes invité à rejoindre {organization} sur Ambian",
+    heading: "👋 Vous êtes invité",
+    intro: "{inviter} vous invite à rejoindre {organization} sur Ambian en tant que {role}.",
+    roles: {
+      billing: "contact facturation (abonnement et factures)",
+      manager: "gestionnaire (programmations et appareils)",
+      player: "lecteur (diffuse la musique)",
+    },
+    signIn: "Connectez-vous ou créez un compte avec {email} pour accepter. L'invitation expire dans 14 jours.",
+    button: "Accepter l'invitation",
+  },
+  silenceAlert: {
+    subjectOne: "🔇 La musique s'est arrêtée sur l'un de vos appareils",
+    subjectOther: "🔇 La musique s'est arrêtée sur {count} appareils",
+    heading: "🔇 Votre musique s'est arrêtée",
+    introOne: "Selon votre programmation, de la musique devrait être diffusée en ce moment, mais cet appareil s'est arrêté :",
+    introOther: "Selon votre programmation, de la musique devrait être diffusée en ce moment, mais ces appareils se sont arrêtés :",
+    device: "Appareil {number}",
+    silentFor: "silencieux depuis {minutes} min",
+    lastError: "Dernière erreur : {error}",
+    action: "Vérifiez que l'appareil est en ligne et qu'Ambian est ouvert, puis appuyez sur Lecture. Vous pouvez aussi relancer la lecture à distance depuis votre profil.",
+    button: "Ouvrir les appareils",
+    note: "Vous recevez cet e-mail car les alertes de silence sont activées pour votre compte. Vous pouvez les désactiver ou définir des heures calmes dans votre profil.",
+  },
+  auth: {
+    recovery: {
+      subject: "Réinitialisez votre mot de passe Ambian",
+      heading: "Réinitialisez votre mot de passe",
+      description: "Cliquez sur le bouton ci-dessous pour réinitialiser votre mot de passe. Ce lien expire dans 1 heure.",
+      footerNote: "Si vous n'avez pas demandé de réinitialisation, vous pouvez ignorer cet e-mail.",
+      buttonText: "Réinitialiser le mot de passe",
+    },
+    signup: {
+      subject: "Bienvenue sur Ambian - Confirmez votre adresse e-mail",
+      heading: "Bienvenue sur Ambian !",
+      description: "Merci pour votre inscription. Cliquez sur le bouton ci-dessous pour vérifier votre adresse e-mail.",
+      footerNote: "Si vous n'avez pas créé de compte Ambian, vous pouvez ignorer cet e-mail.",
+      buttonText: "Vérifier l'e-mail",
+    },
+    magiclink: {
+      subject: "Votre lien de connexion Ambian",
+      heading: "Connexion à Ambian",
+      description: "Cliquez sur le bouton ci-dessous pour vous connecter à votre compte. Ce lien expire dans 1 heure.",
+      footerNote: "Si vous n'avez pas demandé ce lien de connexion, vous pouvez ignorer cet e-mail.",
+      buttonText: "Se connecter",
+    },
+    invite: {
+      subject: "Vous êtes invité sur Ambian",
+      heading: "Vous avez été invité !",
+      description: "Vous avez été invité à rejoindre Ambian. Cliquez sur le bouton ci-dessous pour configurer votre compte.",
+      footerNote: "Si vous n'attendiez pas cette invitation, vous pouvez ignorer cet e-mail.",
+      buttonText: "Accepter l'invitation",
+    },
+    email_change: {
+      subject: "Confirmez votre nouvelle adresse e-mail - Ambian",
+      heading: "Confirmer le changement d'e-mail",
+      description: "Cliquez sur le bouton ci-dessous pour confirmer votre nouvelle adresse e-mail.",
+      footerNote: "Si vous n'avez pas demandé ce changement, contactez immédiatement le support.",
+      buttonText: "Confirmer l'e-mail",
+    },
+    default: {
+      subject: "Ambian",
+      heading: "Bonjour !",
+      description: "Cliquez sur le bouton ci-dessous pour continuer.",
+      footerNote: "",
+      buttonText: "Continuer",
+    },
+    linkHint: "Si le bouton ne fonctionne pas, copiez et collez ce lien dans votre navigateur :",
+    sentTo: "Cet e-mail a été envoyé à {email}",
+  },
+};
+
+export const emailStrings: Record<EmailLanguage, EmailStrings> = { en, sv, fi, de, fr };
@@ -0,0 +1,167 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from "vitest";
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { EMAIL_LANGUAGES, EmailLanguage } from "./emailStrings.ts";
+import {
+  RenderedEmail,
+  getEmailLanguage,
+  renderAccessSuspendedEmail,
+  renderAuthEmail,
+  renderCancellationConfirmationEmail,
+  renderDeviceSlotAutoCanceledEmail,
+  renderDeviceSlotConfirmationEmail,
+  renderDeviceSlotUnpaidCancellationEmail,
+  renderInvoiceCopyEmail,
+  renderOrganizationInviteEmail,
+  renderPaymentConfirmationEmail,
+  renderPaymentFailedEmail,
+  renderPlanChangeEmail,
+  renderSilenceAlertEmail,
+  renderSubscriptionConfirmationEmail,
+  renderSubscriptionEndedEmail,
+  renderTrialReminderEmail,
+  renderUpcomingPaymentEmail,
+  renderWelcomeEmail,
+} from "./emailTemplates.ts";
+
+// Noon UTC, so the rendered dates are the same in any test machine's timezone
+const DATE = new Date("2026-03-06T12:00:00Z");
+const EMAIL = "anna@example.com";
+const ACTION_LINK = "https://ambianmusic.com/auth/v1/verify?token=abc";
+
+const templates: Record<string, (language: EmailLanguage) => RenderedEmail> = {
+  upcomingPayment: (language) =>
+    renderUpcomingPaymentEmail(language, { customerName: "Anna", amount: 8900, currency: "eur", dueDate: DATE, planType: "monthly" }),
+  paymentFailed: (language) =>
+    renderPaymentFailedEmail(language, { customerName: "Anna", amount: 8900, currency: "eur", planType: "monthly" }),
+  subscriptionConfirmation: (language) =>
+    renderSubscriptionConfirmationEmail(language, { customerName: null, planType: "yearly", periodEnd: DATE }),
+  paymentConfirmation: (language) =>
+    renderPaymentConfirmationEmail(language, {
+      customerName: "Anna",
+      amount: 89000,
+      currency: "eur",
+      planType: "yearly",
+      periodEnd: DATE,
+      invoiceNumber: "AMB-0042",
+    }),
+  deviceSlotConfirmation: (language) =>
+    renderDeviceSlotConfirmationEmail(language, { customerName: "Anna", quantity: 2, period: "monthly", amount: 1000, currency: "eur" }),
+  cancellationConfirmation: (language) =>
+    renderCancellationConfirmationEmail(language, { customerName: "Anna", planType: "monthly", accessUntil: DATE }),
+  subscriptionEnded: (language) =>
+    renderSubscriptionEndedEmail(language, { customerName: "Anna", planType: "monthly" }),
+  accessSuspended: (language) =>
+    renderAccessSuspendedEmail(language, { customerName: "Anna", planType: "yearly" }),
+  planChange: (language) =>
+    renderPlanChangeEmail(language, {
+      customerName: "Anna",
+      oldPlan: "monthly",
+      newPlan: "yearly",
+      amount: 89000,
+      currency: "eur",
+      periodEnd: DATE,
+    }),
+  deviceSlotUnpaidCancellation: (language) =>
+    renderDeviceSlotUnpaidCancellationEmail(language, { customerName: "Anna", quantity: 1, period: "yearly" }),
+  deviceSlotAutoCanceled: (language) =>
+    renderDeviceSlotAutoCanceledEmail(language, { customerName: null, quantity: 3 }),
+  invoiceCopy: (language) =>
+    renderInvoiceCopyEmail(language, {
+      companyName: "Café Anna Oy",
+      invoiceNumber: "AMB-0042",
+      amount: 89000,
+      currency: "eur",
+      dueDate: DATE,
+      invoiceUrl: "https://invoice.stripe.com/i/acct_1/test",
+      reverseCharge: true,
+    }),
+  organizationInvite: (language) =>
+    renderOrganizationInviteEmail(language, {
+      email: EMAIL,
+      organizationName: "Café Anna",
+      inviterName: "Mikko",
+      role: "manager",
+    }),
+  trialReminder: (language) =>
+    renderTrialReminderEmail(language, { customerName: "Anna", expiresAt: DATE, daysLeft: 3 }),
+  welcome: (language) => renderWelcomeEmail(language, { email: EMAIL, name: "Anna" }),
+  silenceAlertOne: (language) =>
+    renderSilenceAlertEmail(language, {
+      customerName: "Anna",
+      devices: [{ zoneName: "Terrace", silentMinutes: 18, lastError: null }],
+    }),
+  silenceAlertMany: (language) =>
+    renderSilenceAlertEmail(language, {
+      customerName: null,
+      devices: [
+        { zoneName: "Bar & <Lounge>", silentMinutes: 42, lastError: "NotAllowedError: play() failed" },
+        { zoneName: null, silentMinutes: 15, lastError: null },
+      ],
+    }),
+  authRecovery: (language) => renderAuthEmail(language, { type: "recovery", actionLink: ACTION_LINK, email: EMAIL }),
+  authSignup: (language) => renderAuthEmail(language, { type: "signup", actionLink: ACTION_LINK, email: EMAIL }),
+  authMagiclink: (language) => renderAuthEmail(language, { type: "magiclink", actionLink: ACTION_LINK, email: EMAIL }),
+  authInvite: (language) => renderAuthEmail(language, { type: "invite", actionLink: ACTION_LINK, email: EMAIL }),
+  authEmailChange: (language) => renderAuthEmail(language, { type: "email_change", actionLink: ACTION_LINK, email: EMAIL }),
+};
+
+describe("email templates", () => {
+  // The footer shows the current year
+  beforeAll(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(DATE);
+  });
+  afterAll(() => {
+    vi.useRealTimers();
+  });
+
+  describe.each(Object.entries(templates))("%s", (_name, render) => {
+    it.each(EMAIL_LANGUAGES)("renders in %s", (language) => {
+      expect(render(language)).toMatchSnapshot();
+    });
+  });
+});
+
+describe("getEmailLanguage", () => {
+  // Records the filters of each profiles query and answers with the next row
+  const fakeClient = (rows: ({ language: string | null } | null)[]) => {
+    const filters: [string, string, string][] = [];
+    const client = {
+      from: () => {
+        const query = {
+          select: () => query,
+          eq: (column: string, value: string) => (filters.push(["eq", column, value]), query),
+          ilike: (column: string, value: string) => (filters.push(["ilike", column, value]), query),
+          limit: () => query,
+          maybeSingle: async () => ({ data: rows.shift() ?? null, error: null }),
+        };
+        return query;
+      },
+    };
+    return { client: client as unknown as SupabaseClient, filters };
+  };
+
+  it("looks the profile up by user id", async () => {
+    const { client, filters } = fakeClient([{ language: "fi" }]);
+    expect(await getEmailLanguage(client, { userId: "u1", email: EMAIL })).toBe("fi");
+    expect(filters).toEqual([["eq", "user_id", "u1"]]);
+  });
+
+  it("falls back to a case-insensitive email match", async () => {
+    const { client, filters } = fakeClient([null, { language: "sv" }]);
+    expect(await getEmailLanguage(client, { userId: "u1", email: " Anna@Example.com" })).toBe("sv");
+    expect(filters).toEqual([["eq", "user_id", "u1"], ["ilike", "email", "Anna@Example.com"]]);
+  });
+
+  it("escapes wildcards in the email", async () => {
+    const { client, filters } = fakeClient([{ language: "de" }]);
+    await getEmailLanguage(client, { email: "first_last%@example.com" });
+    expect(filters).toEqual([["ilike", "email", "first\\_last\\%@example.com"]]);
+  });
+
+  it("uses English without a profile or a supported language", async () => {
+    expect(await getEmailLanguage(fakeClient([]).client, { email: EMAIL })).toBe("en");
+    expect(await getEmailLanguage(fakeClient([{ language: "es" }]).client, { userId: "u1" })).toBe("en");
+    expect(await getEmailLanguage(fakeClient([]).client, {})).toBe("en");
+  });
+});
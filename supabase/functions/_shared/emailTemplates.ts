@@ -0,0 +1,740 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { EMAIL_LANGUAGES, EmailLanguage, EmailStrings, emailStrings } from "./emailStrings.ts";
+
+// The emails customers get (billing, trial, welcome, sign-in links), rendered in their language with one layout.
+// Owner/admin notifications stay in English and don't use this.
+
+export type { EmailLanguage } from "./emailStrings.ts";
+
+export interface RenderedEmail {
+  subject: string;
+  html: string;
+}
+
+export type AuthEmailType = "recovery" | "signup" | "magiclink" | "invite" | "email_change";
+
+const SITE_URL = "https://ambianmusic.com";
+const SUPPORT_EMAIL = "support@ambianmusic.com";
+
+const LOCALES: Record<EmailLanguage, string> = {
+  en: "en-US",
+  sv: "sv-SE",
+  fi: "fi-FI",
+  de: "de-DE",
+  fr: "fr-FR",
+};
+
+export const resolveEmailLanguage = (value: string | null | undefined): EmailLanguage =>
+  EMAIL_LANGUAGES.includes(value as EmailLanguage) ? (value as EmailLanguage) : "en";
+
+/**
+ * The language a user picked in the app (profiles.language), looked up by user id, then by email.
+ * Emails are matched case-insensitively since profiles keep them as the user typed them at sign-up.
+ * Falls back to English when there's no profile or the lookup fails, so the email still goes out.
+ */
+export async function getEmailLanguage(
+  supabase: SupabaseClient,
+  recipient: { userId?: string | null; email?: string | null }
+): Promise<EmailLanguage> {
+  if (recipient.userId) {
+    const { data, error } = await supabase
+      .from("profiles")
+      .select("language")
+      .eq("user_id", recipient.userId)
+      .maybeSingle();
+
+    if (error) {
+      console.error("Failed to look up email language:", error.message);
+      return "en";
+    }
+    if (data) return resolveEmailLanguage(data.language);
+  }
+
+  if (!recipient.email) return "en";
+
+  // ilike treats % and _ as wildcards; escape them so only this exact address matches
+  const emailPattern = recipient.email.trim().replace(/[\\%_]/g, "\\$&");
+  const { data, error } = await supabase
+    .from("profiles")
+    .select("language")
+    .ilike("email", emailPattern)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.error("Failed to look up email language:", error.message);
+    return "en";
+  }
+  return resolveEmailLanguage(data?.language);
+}
+
+export const formatAmount = (amountInCents: number, currency: string, language: EmailLanguage) =>
+  new Intl.NumberFormat(LOCALES[language], {
+    style: "currency",
+    currency: currency.toUpperCase(),
+  }).format(amountInCents / 100);
+
+export const formatDate = (date: Date, language: EmailLanguage, withWeekday = true) =>
+  date.toLocaleDateString(LOCALES[language], {
+    ...(withWeekday ? { weekday: "long" as const } : {}),
+    year: "numeric",
+    month: "long",
+    day: "numeric",
+  });
+
+export const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&#39;");
+
+const fill = (text: string, values: Record<string, string | number>) =>
+  text.replace(/\{(\w+)\}/g, (match, key) => (key in values ? String(values[key]) : match));
+
+const planKey = (planType: string) => (planType === "yearly" ? "yearly" : "monthly");
+
+// ---- Layout and building blocks ----
+
+type Tone = "neutral" | "success" | "danger" | "info" | "warning";
+
+const TONES: Record<Tone, { background: string; border: string; title: string; text: string }> = {
+  neutral: { background: "rgba(255,255,255,0.05)", border: "rgba(255,255,255,0.1)", title: "#10b981", text: "#e0e0e0" },
+  success: { background: "rgba(16, 185, 129, 0.1)", border: "rgba(16, 185, 129, 0.3)", title: "#10b981", text: "#e0e0e0" },
+  danger: { background: "rgba(239, 68, 68, 0.1)", border: "rgba(239, 68, 68, 0.3)", title: "#fca5a5", text: "#fca5a5" },
+  info: { background: "rgba(139, 92, 246, 0.1)", border: "rgba(139, 92, 246, 0.3)", title: "#8b5cf6", text: "#e0e0e0" },
+  warning: { background: "rgba(251, 191, 36, 0.1)", border: "rgba(251, 191, 36, 0.3)", title: "#fbbf24", text: "#fbbf24" },
+};
+
+const strong = (value: string) => `<strong style="color: #ffffff;">${value}</strong>`;
+
+const link = (href: string, label: string) =>
+  `<a href="${href}" style="color: #8b5cf6; text-decoration: none;">${label}</a>`;
+
+const mailLink = (email: string) => link(`mailto:${email}`, email);
+
+const siteLink = (path: string) => link(`${SITE_URL}${path}`, `${SITE_URL.replace("https://", "")}${path}`);
+
+const helpCenterLink = (t: EmailStrings) => link(`${SITE_URL}/help`, t.common.helpCenter);
+
+const paragraph = (html: string, align: "left" | "center" = "left") => `
+              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px; text-align: ${align};">
+                ${html}
+              </p>`;
+
+const note = (html: string, align: "left" | "center" = "left") => `
+              <p style="color: #888888; font-size: 14px; line-height: 1.6; margin: 0 0 20px; text-align: ${align};">
+                ${html}
+              </p>`;
+
+const greeting = (t: EmailStrings, name: string | null) =>
+  paragraph(name ? fill(t.common.greetingNamed, { name: escapeHtml(name) }) : t.common.greeting);
+
+const box = (tone: Tone, html: string, title?: string) => `
+              <div style="background: ${TONES[tone].background}; border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid ${TONES[tone].border};">
+                ${title ? `<h3 style="color: ${TONES[tone].title}; font-size: 16px; margin: 0 0 16px;">${title}</h3>` : ""}
+                ${html}
+              </div>`;
+
+const boxText = (tone: Tone, html: string) =>
+  `<p style="color: ${TONES[tone].text}; font-size: 14px; line-height: 1.6; margin: 0;">${html}</p>`;
+
+const detailRows = (rows: [string, string][]) => `
+                <table width="100%" cellpadding="0" cellspacing="0">
+                  ${rows.map(([label, value]) => `<tr>
+                    <td style="padding: 8px 0;">
+                      <span style="color: #888888; font-size: 14px;">${label}</span>
+                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${value}</span>
+                    </td>
+                  </tr>`).join("\n                  ")}
+                </table>`;
+
+const checklist = (items: string[]) => `
+                <table width="100%" cellpadding="0" cellspacing="0">
+                  ${items.map(item => `<tr>
+                    <td style="padding: 8px 0;">
+                      <span style="color: #10b981; font-size: 16px;">✓</span>
+                      <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">${item}</span>
+                    </td>
+                  </tr>`).join("\n                  ")}
+                </table>`;
+
+const bulletList = (items: string[]) => `
+              <ul style="color: #e0e0e0; font-size: 14px; line-height: 1.8; margin: 0 0 20px; padding-left: 20px;">
+                ${items.map(item => `<li>${item}</li>`).join("\n                ")}
+              </ul>`;
+
+const button = (label: string, href: string, tone: "primary" | "danger" = "primary") => `
+              <table width="100%" cellpadding="0" cellspacing="0">
+                <tr>
+                  <td align="center" style="padding: 20px 0 30px;">
+                    <a href="${href}" style="display: inline-block; background: ${tone === "danger" ? "linear-gradient(135deg, #ef4444 0%, #dc2626 100%)" : "linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%)"}; color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
+                      ${label}
+                    </a>
+                  </td>
+                </tr>
+              </table>`;
+
+// The one layout every customer email uses, with dark mode support for all email clients
+const layout = (
+  language: EmailLanguage,
+  { heading, content, footer }: { heading: string; content: string; footer: string[] }
+) => `
+<!DOCTYPE html>
+<html lang="${language}">
+<head>
+  <meta charset="utf-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <meta name="color-scheme" content="dark">
+  <meta name="supported-color-schemes" content="dark">
+  <style>
+    :root { color-scheme: dark; }
+    @media (prefers-color-scheme: dark) {
+      body, .body-bg { background-color: #1a1a2e !important; }
+    }
+  </style>
+</head>
+<body class="body-bg" style="margin: 0; padding: 0; background-color: #1a1a2e; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;" bgcolor="#1a1a2e">
+  <table role="presentation" width="100%" height="100%" cellpadding="0" cellspacing="0" border="0" bgcolor="#1a1a2e" style="background-color: #1a1a2e; min-height: 100vh;">
+    <tr>
+      <td align="center" valign="top" style="padding: 40px 20px; background-color: #1a1a2e;" bgcolor="#1a1a2e">
+        <table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="max-width: 600px; width: 100%; background-color: #16213e; border-radius: 16px;" bgcolor="#16213e">
+          <!-- Header -->
+          <tr>
+            <td style="padding: 40px 40px 20px; text-align: center;">
+              <img src="${SITE_URL}/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
+              <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
+                ${heading}
+              </h1>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 20px 40px;">
+              ${content}
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
+              ${footer.map(line => `<p style="color: #888888; font-size: 14px; margin: 0 0 10px;">${line}</p>`).join("\n              ")}
+              <p style="color: #666666; font-size: 12px; margin: 0;">
+                ${fill(emailStrings[language].common.copyright, { year: new Date().getFullYear() })}
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+    <!-- Spacer for dark background -->
+    <tr>
+      <td style="background-color: #1a1a2e; height: 40px;" bgcolor="#1a1a2e">&nbsp;</td>
+    </tr>
+  </table>
+</body>
+</html>
+`;
+
+// ---- Billing emails (stripe-webhook) ----
+
+export function renderUpcomingPaymentEmail(
+  language: EmailLanguage,
+  { customerName, amount, currency, dueDate, planType }: {
+    customerName: string | null;
+    amount: number;
+    currency: string;
+    dueDate: Date;
+    planType: string;
+  }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const formattedAmount = formatAmount(amount, currency, language);
+
+  return {
+    subject: fill(t.upcomingPayment.subject, { amount: formattedAmount }),
+    html: layout(language, {
+      heading: t.upcomingPayment.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(t.upcomingPayment.intro),
+        box("neutral", detailRows([
+          [t.common.labels.plan, t.common.planName[planKey(planType)]],
+          [t.common.labels.amount, formattedAmount],
+          [t.common.labels.dueBy, formatDate(dueDate, language)],
+        ])),
+        paragraph(t.upcomingPayment.bankTransfer),
+        button(t.upcomingPayment.button, `${SITE_URL}/profile`),
+      ].join(""),
+      footer: [fill(t.common.questionsContact, { email: mailLink(SUPPORT_EMAIL) })],
+    }),
+  };
+}
+
+export function renderPaymentFailedEmail(
+  language: EmailLanguage,
+  { customerName, amount, currency, planType }: {
+    customerName: string | null;
+    amount: number;
+    currency: string;
+    planType: string;
+  }
+): RenderedEmail {
+  const t = emailStrings[language];
+
+  return {
+    subject: t.paymentFailed.subject,
+    html: layout(language, {
+      heading: t.paymentFailed.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(fill(t.paymentFailed.intro, {
+          amount: strong(formatAmount(amount, currency, language)),
+          plan: t.common.planInSentence[planKey(planType)],
+        })),
+        box("danger", boxText("danger", t.paymentFailed.actionRequired)),
+        paragraph(t.paymentFailed.reasonsIntro),
+        bulletList(t.paymentFailed.reasons),
+        button(t.paymentFailed.button, `${SITE_URL}/profile`, "danger"),
+        note(t.paymentFailed.note),
+      ].join(""),
+      footer: [fill(t.common.questionsHelp, { helpCenter: helpCenterLink(t) })],
+    }),
+  };
+}
+
+export function renderSubscriptionConfirmationEmail(
+  language: EmailLanguage,
+  { customerName, planType, periodEnd }: { customerName: string | null; planType: string; periodEnd: Date }
+): RenderedEmail {
+  const t = emailStrings[language];
+
+  return {
+    subject: t.subscriptionConfirmation.subject,
+    html: layout(language, {
+      heading: t.subscriptionConfirmation.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(t.subscriptionConfirmation.intro),
+        box("neutral", detailRows([
+          [t.common.labels.plan, t.common.planName[planKey(planType)]],
+          [t.common.labels.accessUntil, formatDate(periodEnd, language)],
+        ]), t.subscriptionConfirmation.activeTitle),
+        button(t.subscriptionConfirmation.button, SITE_URL),
+        box("neutral", checklist(t.common.features), t.subscriptionConfirmation.includedTitle),
+      ].join(""),
+      footer: [
+        fill(t.common.manageSubscription, { link: siteLink("/profile") }),
+        fill(t.common.questionsHelp, { helpCenter: helpCenterLink(t) }),
+      ],
+    }),
+  };
+}
+
+export function renderPaymentConfirmationEmail(
+  language: EmailLanguage,
+  { customerName, amount, currency, planType, periodEnd, invoiceNumber }: {
+    customerName: string | null;
+    amount: number;
+    currency: string;
+    planType: string;
+    periodEnd: Date;
+    invoiceNumber: string | null;
+  }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const rows: [string, string][] = [
+    [t.common.labels.plan, t.common.planName[planKey(planType)]],
+    [t.common.labels.amountPaid, formatAmount(amount, currency, language)],
+    [t.common.labels.accessUntil, formatDate(periodEnd, language)],
+  ];
+  if (invoiceNumber) rows.unshift([t.common.labels.invoice, escapeHtml(invoiceNumber)]);
+
+  return {
+    subject: t.paymentConfirmation.subject,
+    html: layout(language, {
+      heading: t.paymentConfirmation.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(t.paymentConfirmation.intro),
+        box("success", detailRows(rows), t.paymentConfirmation.detailsTitle),
+        paragraph(t.paymentConfirmation.outro),
+        button(t.paymentConfirmation.button, SITE_URL),
+      ].join(""),
+      footer: [fill(t.common.manageSubscription, { link: siteLink("/profile") })],
+    }),
+  };
+}
+
+export function renderDeviceSlotConfirmationEmail(
+  language: EmailLanguage,
+  { customerName, quantity, period, amount, currency }: {
+    customerName: string | null;
+    quantity: number;
+    period: string;
+    amount: number;
+    currency: string;
+  }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const strings = t.deviceSlotConfirmation;
+  const locations = quantity === 1 ? strings.locationsOne : fill(strings.locationsOther, { count: quantity });
+
+  return {
+    subject: fill(strings.subject, { locations }),
+    html: layout(language, {
+      heading: strings.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(fill(strings.intro, { locations })),
+        box("neutral", detailRows([
+          [t.common.labels.locationsAdded, String(quantity)],
+          [t.common.labels.billing, `${formatAmount(amount, currency, language)}/${t.common.interval[planKey(period)]}`],
+        ]), strings.addedTitle),
+        paragraph(quantity === 1 ? strings.devicesOne : fill(strings.devicesOther, { count: quantity })),
+        button(strings.button, SITE_URL),
+      ].join(""),
+      footer: [fill(t.common.manageLocations, { link: siteLink("/profile") })],
+    }),
+  };
+}
+
+export function renderCancellationConfirmationEmail(
+  language: EmailLanguage,
+  { customerName, planType, accessUntil }: { customerName: string | null; planType: string; accessUntil: Date }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const date = formatDate(accessUntil, language, false);
+
+  return {
+    subject: fill(t.cancellationConfirmation.subject, { date }),
+    html: layout(language, {
+      heading: t.cancellationConfirmation.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(fill(t.cancellationConfirmation.intro, { plan: t.common.planInSentence[planKey(planType)] })),
+        box(
+          "success",
+          boxText("success", fill(t.cancellationConfirmation.accessText, { date: strong(date) })),
+          t.cancellationConfirmation.accessTitle
+        ),
+        paragraph(t.cancellationConfirmation.reactivate),
+        button(t.cancellationConfirmation.button, `${SITE_URL}/profile`),
+      ].join(""),
+      footer: [t.cancellationConfirmation.footer],
+    }),
+  };
+}
+
+export function renderSubscriptionEndedEmail(
+  language: EmailLanguage,
+  { customerName, planType }: { customerName: string | null; planType: string }
+): RenderedEmail {
+  const t = emailStrings[language];
+
+  return {
+    subject: t.subscriptionEnded.subject,
+    html: layout(language, {
+      heading: t.subscriptionEnded.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(fill(t.subscriptionEnded.intro, { plan: t.common.planInSentence[planKey(planType)] })),
+        box("info", boxText("info", t.subscriptionEnded.offerText), t.subscriptionEnded.offerTitle),
+        paragraph(t.subscriptionEnded.feedback),
+        button(t.subscriptionEnded.button, `${SITE_URL}/pricing`),
+      ].join(""),
+      footer: [t.subscriptionEnded.footer],
+    }),
+  };
+}
+
+export function renderAccessSuspendedEmail(
+  language: EmailLanguage,
+  { customerName, planType }: { customerName: string | null; planType: string }
+): RenderedEmail {
+  const t = emailStrings[language];
+
+  return {
+    subject: t.accessSuspended.subject,
+    html: layout(language, {
+      heading: t.accessSuspended.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(fill(t.accessSuspended.intro, { plan: t.common.planInSentence[planKey(planType)] })),
+        box("danger", bulletList(t.accessSuspended.meaning), t.accessSuspended.meaningTitle),
+        box("info", boxText("info", t.accessSuspended.restoreText), t.accessSuspended.restoreTitle),
+        button(t.accessSuspended.button, `${SITE_URL}/pricing`),
+        note(t.accessSuspended.note),
+      ].join(""),
+      footer: [fill(t.common.questionsContact, { email: mailLink(SUPPORT_EMAIL) })],
+    }),
+  };
+}
+
+export function renderPlanChangeEmail(
+  language: EmailLanguage,
+  { customerName, oldPlan, newPlan, amount, currency, periodEnd }: {
+    customerName: string | null;
+    oldPlan: string;
+    newPlan: string;
+    amount: number;
+    currency: string;
+    periodEnd: Date;
+  }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const isUpgrade = newPlan === "yearly" && oldPlan === "monthly";
+  const change = isUpgrade ? t.planChange.upgraded : t.planChange.changed;
+
+  return {
+    subject: change.subject,
+    html: layout(language, {
+      heading: change.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(change.intro),
+        box("neutral", detailRows([
+          [t.common.labels.newPlan, t.common.planName[planKey(newPlan)]],
+          [t.common.labels.amount, `${formatAmount(amount, currency, language)}/${t.common.interval[planKey(newPlan)]}`],
+          [t.common.labels.nextBilling, formatDate(periodEnd, language)],
+        ]), t.planChange.updatedTitle),
+        button(t.planChange.button, SITE_URL),
+      ].join(""),
+      footer: [fill(t.common.manageSubscription, { link: siteLink("/profile") })],
+    }),
+  };
+}
+
+export function renderDeviceSlotUnpaidCancellationEmail(
+  language: EmailLanguage,
+  { customerName, quantity, period }: { customerName: string | null; quantity: number; period: string }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const strings = t.deviceSlotUnpaidCancellation;
+  const canceled = quantity === 1 ? strings.canceledOne : fill(strings.canceledOther, { count: quantity });
+
+  return {
+    subject: strings.subject,
+    html: layout(language, {
+      heading: strings.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(quantity === 1 ? strings.introOne : strings.introOther),
+        box("danger", [
+          boxText("danger", `<strong>${t.common.labels.canceled}</strong> ${canceled} (${t.common.billing[planKey(period)]})`),
+          boxText("danger", `<strong>${t.common.labels.reason}</strong> ${strings.reason}`),
+        ].join("<br>")),
+        paragraph(strings.outro),
+        button(strings.button, `${SITE_URL}/profile`),
+        note(fill(strings.note, { email: mailLink(SUPPORT_EMAIL) })),
+      ].join(""),
+      footer: [],
+    }),
+  };
+}
+
+export function renderDeviceSlotAutoCanceledEmail(
+  language: EmailLanguage,
+  { customerName, quantity }: { customerName: string | null; quantity: number }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const strings = t.deviceSlotAutoCanceled;
+
+  return {
+    subject: strings.subject,
+    html: layout(language, {
+      heading: strings.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(quantity === 1 ? strings.introOne : fill(strings.introOther, { count: quantity })),
+        box("warning", boxText("warning", strings.note)),
+        paragraph(strings.outro),
+        button(strings.button, `${SITE_URL}/pricing`),
+      ].join(""),
+      footer: [fill(t.common.questionsContact, { email: mailLink(SUPPORT_EMAIL) })],
+    }),
+  };
+}
+
+// ---- Account emails (send-trial-reminder, send-welcome-email, send-auth-email) ----
+
+export function renderInvoiceCopyEmail(
+  language: EmailLanguage,
+  { companyName, invoiceNumber, amount, currency, dueDate, invoiceUrl, reverseCharge }: {
+    companyName: string;
+    invoiceNumber: string;
+    amount: number;
+    currency: string;
+    dueDate: Date | null;
+    invoiceUrl: string;
+    reverseCharge: boolean;
+  }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const rows: [string, string][] = [
+    [t.common.labels.invoice, escapeHtml(invoiceNumber)],
+    [t.common.labels.amount, formatAmount(amount, currency, language)],
+  ];
+  if (dueDate) rows.push([t.common.labels.dueBy, formatDate(dueDate, language)]);
+
+  return {
+    subject: fill(t.invoiceCopy.subject, { number: invoiceNumber }),
+    html: layout(language, {
+      heading: t.invoiceCopy.heading,
+      content: [
+        paragraph(fill(t.invoiceCopy.intro, { company: strong(escapeHtml(companyName)) })),
+        box("neutral", detailRows(rows)),
+        reverseCharge ? note(t.invoiceCopy.reverseCharge) : "",
+        button(t.invoiceCopy.button, invoiceUrl),
+      ].join(""),
+      footer: [fill(t.common.questionsContact, { email: mailLink(SUPPORT_EMAIL) })],
+    }),
+  };
+}
+
+export function renderOrganizationInviteEmail(
+  language: EmailLanguage,
+  { email, organizationName, inviterName, role }: {
+    email: string;
+    organizationName: string;
+    inviterName: string;
+    role: "billing" | "manager" | "player";
+  }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const strings = t.organizationInvite;
+
+  return {
+    subject: fill(strings.subject, { organization: organizationName }),
+    html: layout(language, {
+      heading: strings.heading,
+      content: [
+        paragraph(fill(strings.intro, {
+          inviter: strong(escapeHtml(inviterName)),
+          organization: strong(escapeHtml(organizationName)),
+          role: strings.roles[role],
+        })),
+        paragraph(fill(strings.signIn, { email: strong(escapeHtml(email)) })),
+        button(strings.button, `${SITE_URL}/auth`),
+      ].join(""),
+      footer: [fill(t.common.questionsContact, { email: mailLink(SUPPORT_EMAIL) })],
+    }),
+  };
+}
+
+export function renderTrialReminderEmail(
+  language: EmailLanguage,
+  { customerName, expiresAt, daysLeft }: { customerName: string | null; expiresAt: Date; daysLeft: number }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const strings = t.trialReminder;
+
+  return {
+    subject: daysLeft === 1 ? strings.subjectOne : fill(strings.subjectOther, { days: daysLeft }),
+    html: layout(language, {
+      heading: strings.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(fill(strings.intro, { date: strong(formatDate(expiresAt, language)) })),
+        paragraph(strings.subscribe),
+        button(strings.button, `${SITE_URL}/pricing`),
+        box("neutral", checklist(t.common.features), strings.keepTitle),
+      ].join(""),
+      footer: [fill(t.common.questionsReply, { helpCenter: helpCenterLink(t) })],
+    }),
+  };
+}
+
+export function renderWelcomeEmail(
+  language: EmailLanguage,
+  { email, name }: { email: string; name?: string | null }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const strings = t.welcome;
+
+  return {
+    subject: strings.subject,
+    html: layout(language, {
+      heading: strings.heading,
+      content: [
+        paragraph(fill(strings.greeting, { name: escapeHtml(name || email.split("@")[0]) }), "center"),
+        paragraph(strings.intro, "center"),
+        box("neutral", checklist(strings.features), strings.featuresTitle),
+        button(strings.button, SITE_URL),
+        box("info", boxText("info", `${strong(strings.trialTitle)}<br>${strings.trialText}`)),
+      ].join(""),
+      footer: [fill(t.common.questionsReply, { helpCenter: helpCenterLink(t) })],
+    }),
+  };
+}
+
+export function renderAuthEmail(
+  language: EmailLanguage,
+  { type, actionLink, email }: { type: AuthEmailType; actionLink: string; email: string }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const content = t.auth[type] ?? t.auth.default;
+  const href = escapeHtml(actionLink);
+
+  return {
+    subject: content.subject,
+    html: layout(language, {
+      heading: content.heading,
+      content: [
+        paragraph(content.description, "center"),
+        button(content.buttonText, href),
+        note(t.auth.linkHint, "center"),
+        note(`<a href="${href}" style="color: #8b5cf6; text-decoration: underline; word-break: break-all;">${href}</a>`, "center"),
+      ].join(""),
+      footer: [
+        content.footerNote,
+        fill(t.auth.sentTo, { email: mailLink(escapeHtml(email)) }),
+      ].filter(Boolean),
+    }),
+  };
+}
+
+// ---- Device emails (send-silence-alerts) ----
+
+export interface SilentDevice {
+  zoneName: string | null;
+  silentMinutes: number;
+  lastError: string | null;
+}
+
+export function renderSilenceAlertEmail(
+  language: EmailLanguage,
+  { customerName, devices }: { customerName: string | null; devices: SilentDevice[] }
+): RenderedEmail {
+  const t = emailStrings[language];
+  const strings = t.silenceAlert;
+
+  const rows = devices.map((device, index) => `<tr>
+                    <td style="padding: 8px 0;">
+                      <span style="color: #ffffff; font-size: 14px; font-weight: 500;">${escapeHtml(device.zoneName ?? fill(strings.device, { number: index + 1 }))}</span>
+                      <span style="color: #fca5a5; font-size: 14px; margin-left: 12px;">${fill(strings.silentFor, { minutes: device.silentMinutes })}</span>
+                      ${device.lastError ? `<br><span style="color: #888888; font-size: 13px;">${fill(strings.lastError, { error: escapeHtml(device.lastError) })}</span>` : ""}
+                    </td>
+                  </tr>`);
+
+  return {
+    subject: devices.length === 1 ? strings.subjectOne : fill(strings.subjectOther, { count: devices.length }),
+    html: layout(language, {
+      heading: strings.heading,
+      content: [
+        greeting(t, customerName),
+        paragraph(devices.length === 1 ? strings.introOne : strings.introOther),
+        box("neutral", `
+                <table width="100%" cellpadding="0" cellspacing="0">
+                  ${rows.join("\n                  ")}
+                </table>`),
+        paragraph(strings.action),
+        button(strings.button, `${SITE_URL}/profile`),
+        note(strings.note),
+      ].join(""),
+      footer: [fill(t.common.questionsHelp, { helpCenter: helpCenterLink(t) })],
+    }),
+  };
+}
@@ -0,0 +1,109 @@
+// Organization membership checks for edge functions.
+// An organization is one Ambian account shared by several logins. Its subscription, schedules and devices
+// are stored under the owner's user_id, so functions act on the owner's account for every member.
+
+import type { SupabaseClient, User } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+export type OrgRole = "owner" | "billing" | "manager" | "player";
+
+export const ORG_ROLES: OrgRole[] = ["owner", "billing", "manager", "player"];
+
+export interface OrganizationAccess {
+  organizationId: string;
+  ownerUserId: string; // the account the organization's data is stored under
+  role: OrgRole;
+}
+
+/**
+ * The user's role in an organization, or null when they aren't a member
+ */
+export async function getOrganizationAccess(
+  supabase: SupabaseClient,
+  userId: string,
+  organizationId: string
+): Promise<OrganizationAccess | null> {
+  const { data, error } = await supabase
+    .from("organization_members")
+    .select("role, organizations(owner_user_id)")
+    .eq("user_id", userId)
+    .eq("organization_id", organizationId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to check organization membership: ${error.message}`);
+  if (!data) return null;
+
+  const organization = data.organizations as unknown as { owner_user_id: string } | null;
+  if (!organization) return null;
+
+  return { organizationId, ownerUserId: organization.owner_user_id, role: data.role as OrgRole };
+}
+
+/**
+ * The account a request acts on: the organization's owner when the caller holds one of `roles` in it,
+ * otherwise the caller. Needs a service role client to look up the owner.
+ */
+export async function resolveAccountUser(
+  supabaseAdmin: SupabaseClient,
+  user: User,
+  organizationId: unknown,
+  roles: OrgRole[] = ORG_ROLES
+): Promise<User> {
+  // Paired devices only play music; they never act on an account's billing, not even their own login's
+  if (user.app_metadata?.paired_device === true && !roles.includes("player")) {
+    throw new Error("Not available on a paired device");
+  }
+  if (typeof organizationId !== "string" || !organizationId) return user;
+
+  const access = await getOrganizationAccess(supabaseAdmin, user.id, organizationId);
+  if (!access || access.ownerUserId === user.id || !roles.includes(access.role)) return user;
+
+  const { data, error } = await supabaseAdmin.auth.admin.getUserById(access.ownerUserId);
+  if (error || !data.user?.email) throw new Error("Organization owner not found");
+  return data.user;
+}
+
+export async function getOwnedOrganizationId(supabase: SupabaseClient, userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from("organizations")
+    .select("id")
+    .eq("owner_user_id", userId)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to fetch organization: ${error.message}`);
+  return data?.id ?? null;
+}
+
+/**
+ * The organization a device session belongs to, decided from the caller's memberships rather than the
+ * request. Paired devices are pinned to the organization they were paired with; other logins may pick
+ * any organization they belong to and otherwise fall back to their own, then to their oldest membership.
+ */
+export async function resolveSessionOrganization(
+  supabaseAdmin: SupabaseClient,
+  user: User,
+  requestedOrganizationId: unknown
+): Promise<OrganizationAccess | null> {
+  const pairedOrganizationId = user.app_metadata?.organization_id;
+  if (typeof pairedOrganizationId === "string" && pairedOrganizationId) {
+    return getOrganizationAccess(supabaseAdmin, user.id, pairedOrganizationId);
+  }
+
+  if (typeof requestedOrganizationId === "string" && requestedOrganizationId) {
+    const access = await getOrganizationAccess(supabaseAdmin, user.id, requestedOrganizationId);
+    if (access) return access;
+  }
+
+  const ownedOrganizationId = await getOwnedOrganizationId(supabaseAdmin, user.id);
+  if (ownedOrganizationId) return getOrganizationAccess(supabaseAdmin, user.id, ownedOrganizationId);
+
+  const { data, error } = await supabaseAdmin
+    .from("organization_members")
+    .select("organization_id")
+    .eq("user_id", user.id)
+    .order("created_at", { ascending: true })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to fetch organization membership: ${error.message}`);
+  return data ? getOrganizationAccess(supabaseAdmin, user.id, data.organization_id) : null;
+}
@@ -0,0 +1,171 @@
+import { describe, expect, it } from "vitest";
+import {
+  ScheduleEntry,
+  ScheduleException,
+  getMomentInTimeZone,
+  getNextChange,
+  getTimeZoneOffsetMinutes,
+  resolveSchedule,
+  withDefaultTimeZone,
+} from "./scheduleResolver.ts";
+
+// Helsinki moves to summer time on 2026-03-29 at 03:00 (01:00 UTC) and back on 2026-10-25 at 04:00 (01:00 UTC)
+const TZ = "Europe/Helsinki";
+
+const schedule = (overrides: Partial<ScheduleEntry> = {}): ScheduleEntry => ({
+  id: "s1",
+  playlist_id: "p1",
+  blend_id: null,
+  name: null,
+  days_of_week: [0, 1, 2, 3, 4, 5, 6],
+  start_time: "08:00",
+  end_time: "17:00",
+  is_active: true,
+  priority: 0,
+  valid_from: null,
+  valid_until: null,
+  skip_dates: null,
+  timezone: TZ,
+  location_id: null,
+  ...overrides,
+});
+
+const exception = (overrides: Partial<ScheduleException> = {}): ScheduleException => ({
+  id: "e1",
+  name: null,
+  exception_date: "2026-03-06",
+  playlist_id: null,
+  blend_id: null,
+  start_time: null,
+  end_time: null,
+  timezone: TZ,
+  location_id: null,
+  ...overrides,
+});
+
+const at = (iso: string) => new Date(iso);
+
+describe("getMomentInTimeZone", () => {
+  it("applies the zone's offset on both sides of the spring DST change", () => {
+    expect(getMomentInTimeZone(at("2026-03-29T00:30:00Z"), TZ)).toEqual({ date: "2026-03-29", day: 0, time: "02:30" });
+    expect(getMomentInTimeZone(at("2026-03-29T01:30:00Z"), TZ)).toEqual({ date: "2026-03-29", day: 0, time: "04:30" });
+  });
+
+  it("rolls the date over when the zone is already past midnight", () => {
+    expect(getMomentInTimeZone(at("2026-03-06T22:30:00Z"), TZ)).toEqual({ date: "2026-03-07", day: 6, time: "00:30" });
+  });
+});
+
+describe("getTimeZoneOffsetMinutes", () => {
+  it("follows DST", () => {
+    expect(getTimeZoneOffsetMinutes(TZ, at("2026-01-15T12:00:00Z"))).toBe(120);
+    expect(getTimeZoneOffsetMinutes(TZ, at("2026-07-15T12:00:00Z"))).toBe(180);
+  });
+});
+
+describe("resolveSchedule", () => {
+  it("plays a daytime schedule in its own timezone", () => {
+    const schedules = [schedule()];
+    // 07:30 and 08:30 in Helsinki (UTC+2)
+    expect(resolveSchedule(schedules, [], at("2026-03-06T05:30:00Z"))).toBeNull();
+    expect(resolveSchedule(schedules, [], at("2026-03-06T06:30:00Z"))?.playlist_id).toBe("p1");
+  });
+
+  it("keeps the wall-clock start on the first day of summer time", () => {
+    const schedules = [schedule()];
+    // 05:30 UTC is 07:30 the day before the change and 08:30 the day after
+    expect(resolveSchedule(schedules, [], at("2026-03-28T05:30:00Z"))).toBeNull();
+    expect(resolveSchedule(schedules, [], at("2026-03-29T05:30:00Z"))?.playlist_id).toBe("p1");
+  });
+
+  describe("overnight windows", () => {
+    // Friday night only, 21:00 to 09:00; 2026-03-06 is a Friday
+    const friday = schedule({ days_of_week: [5], start_time: "21:00", end_time: "09:00" });
+
+    it("covers the evening it starts on and the morning after", () => {
+      expect(resolveSchedule([friday], [], at("2026-03-06T20:00:00Z"))?.id).toBe("s1"); // Fri 22:00
+      expect(resolveSchedule([friday], [], at("2026-03-07T01:00:00Z"))?.id).toBe("s1"); // Sat 03:00
+      expect(resolveSchedule([friday], [], at("2026-03-07T07:30:00Z"))).toBeNull(); // Sat 09:30
+    });
+
+    it("does not cover the morning of the day it starts on", () => {
+      expect(resolveSchedule([friday], [], at("2026-03-06T01:00:00Z"))).toBeNull(); // Fri 03:00
+    });
+
+    it("belongs to its start date for validity and skip dates", () => {
+      const lastFriday = { ...friday, valid_until: "2026-03-06" };
+      expect(resolveSchedule([lastFriday], [], at("2026-03-07T01:00:00Z"))?.id).toBe("s1");
+
+      const skipped = { ...friday, skip_dates: ["2026-03-06"] };
+      expect(resolveSchedule([skipped], [], at("2026-03-07T01:00:00Z"))).toBeNull();
+    });
+
+    it("runs through the night the clocks go forward", () => {
+      // Saturday 2026-03-28 22:00 to 06:00; the night is an hour shorter
+      const saturday = schedule({ days_of_week: [6], start_time: "22:00", end_time: "06:00" });
+      expect(resolveSchedule([saturday], [], at("2026-03-29T02:30:00Z"))?.id).toBe("s1"); // Sun 05:30 (UTC+3)
+      expect(resolveSchedule([saturday], [], at("2026-03-29T03:30:00Z"))).toBeNull(); // Sun 06:30
+    });
+
+    it("applies overnight exceptions to the following morning", () => {
+      const lateNight = exception({ playlist_id: "p2", start_time: "22:00", end_time: "02:00" });
+      expect(resolveSchedule([], [lateNight], at("2026-03-06T23:30:00Z"))?.playlist_id).toBe("p2"); // Sat 01:30
+      expect(resolveSchedule([], [lateNight], at("2026-03-07T00:30:00Z"))).toBeNull(); // Sat 02:30
+    });
+  });
+
+  it("lets an exception close the venue over a schedule", () => {
+    const resolved = resolveSchedule([schedule()], [exception()], at("2026-03-06T10:00:00Z"));
+    expect(resolved).toMatchObject({ id: "e1", playlist_id: null, source: "exception" });
+  });
+
+  it("prefers dated schedules, then zone schedules, then priority", () => {
+    const recurring = schedule({ id: "recurring", priority: 10 });
+    const dated = schedule({ id: "dated", valid_from: "2026-03-01", valid_until: "2026-03-31" });
+    const zoned = schedule({ id: "zoned", location_id: "z1" });
+    const urgent = schedule({ id: "urgent", priority: 5 });
+    const noon = at("2026-03-06T10:00:00Z");
+
+    expect(resolveSchedule([recurring, dated], [], noon)?.id).toBe("dated");
+    expect(resolveSchedule([urgent, zoned], [], noon)?.id).toBe("zoned");
+    expect(resolveSchedule([schedule(), urgent], [], noon)?.id).toBe("urgent");
+  });
+});
+
+describe("withDefaultTimeZone", () => {
+  it("evaluates entries without a timezone in the given one", () => {
+    const entries = [schedule({ timezone: null })];
+    // 06:30 UTC is 08:30 in Helsinki but 07:30 in Stockholm
+    expect(resolveSchedule(withDefaultTimeZone(entries, TZ), [], at("2026-03-06T06:30:00Z"))?.id).toBe("s1");
+    expect(resolveSchedule(withDefaultTimeZone(entries, "Europe/Stockholm"), [], at("2026-03-06T06:30:00Z"))).toBeNull();
+  });
+
+  it("keeps an entry's own timezone", () => {
+    const [entry] = withDefaultTimeZone([schedule({ timezone: "America/New_York" })], TZ);
+    expect(entry.timezone).toBe("America/New_York");
+  });
+});
+
+describe("getNextChange", () => {
+  it("finds the next start across the spring DST change", () => {
+    const next = getNextChange([schedule()], [], at("2026-03-28T20:00:00Z"));
+    expect(next?.at.toISOString()).toBe("2026-03-29T05:00:00.000Z"); // 08:00 summer time
+    expect(next?.schedule?.id).toBe("s1");
+  });
+
+  it("finds the next start across the autumn DST change", () => {
+    const next = getNextChange([schedule()], [], at("2026-10-24T20:00:00Z"));
+    expect(next?.at.toISOString()).toBe("2026-10-25T06:00:00.000Z"); // 08:00 winter time
+  });
+
+  it("finds the end of an overnight window on the short night", () => {
+    const saturday = schedule({ days_of_week: [6], start_time: "22:00", end_time: "06:00" });
+    const next = getNextChange([saturday], [], at("2026-03-28T21:00:00Z"));
+    expect(next?.at.toISOString()).toBe("2026-03-29T03:00:00.000Z"); // 06:00 summer time
+    expect(next?.schedule).toBeNull();
+  });
+
+  it("returns null when nothing changes within the horizon", () => {
+    expect(getNextChange([], [], at("2026-03-06T10:00:00Z"))).toBeNull();
+  });
+});
@@ -0,0 +1,364 @@
+// Schedule resolution shared by the browser scheduler (through src/lib/scheduleResolver.ts) and edge functions.
+// Precedence: per-date exceptions > dated schedules (valid_from/valid_until) > recurring weekly schedules.
+// Within a tier, entries scoped to the device's zone win over account-wide ones, then the highest priority wins.
+// Times are wall-clock times in each entry's IANA timezone. Entries without one follow the device's clock:
+// the browser uses its own time, servers pass the zone's or the account's timezone (withDefaultTimeZone).
+// No imports, so Deno and Vite can both load this file.
+
+export interface ScheduleEntry {
+  id: string;
+  playlist_id: string | null; // exactly one of playlist_id / blend_id is set
+  blend_id: string | null;
+  name: string | null;
+  days_of_week: number[];
+  start_time: string;
+  end_time: string;
+  is_active: boolean;
+  priority: number;
+  valid_from: string | null;
+  valid_until: string | null;
+  skip_dates: string[] | null;
+  timezone: string | null;
+  location_id: string | null; // null = all zones
+}
+
+export interface ScheduleException {
+  id: string;
+  name: string | null;
+  exception_date: string;
+  playlist_id: string | null; // null (with no blend) = closed, no music
+  blend_id: string | null;
+  start_time: string | null; // null start/end = the whole day
+  end_time: string | null;
+  timezone: string | null;
+  location_id: string | null; // null = all zones
+}
+
+export interface ResolvedSchedule {
+  id: string;
+  name: string | null;
+  playlist_id: string | null; // both null when an exception closes the venue
+  blend_id: string | null;
+  source: "exception" | "dated" | "recurring";
+}
+
+// A point in time expressed as calendar date (YYYY-MM-DD), weekday (0=Sunday) and time (HH:MM)
+export interface ScheduleMoment {
+  date: string;
+  day: number;
+  time: string;
+}
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+/**
+ * Shift a YYYY-MM-DD date key by a number of days
+ */
+export const addDaysToDateKey = (dateKey: string, days: number): string => {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  // Use noon to stay clear of DST edges
+  const date = new Date(y, m - 1, d + days, 12);
+  return toDateKey(date);
+};
+
+export const getLocalMoment = (now: Date = new Date()): ScheduleMoment => ({
+  date: toDateKey(now),
+  day: now.getDay(),
+  time: now.toTimeString().slice(0, 5),
+});
+
+const WEEKDAYS: Record<string, number> = { Sun: 0, Mon: 1, Tue: 2, Wed: 3, Thu: 4, Fri: 5, Sat: 6 };
+const momentFormatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Express an instant as wall-clock date/weekday/time in an IANA timezone.
+ * Intl applies the zone's DST rules, so the result is correct on transition days.
+ * Falls back to the runtime's local time when no (or an invalid) timezone is given.
+ */
+export const getMomentInTimeZone = (now: Date, timeZone: string | null): ScheduleMoment => {
+  if (!timeZone) return getLocalMoment(now);
+
+  try {
+    let formatter = momentFormatters.get(timeZone);
+    if (!formatter) {
+      formatter = new Intl.DateTimeFormat("en-US", {
+        timeZone,
+        year: "numeric",
+        month: "2-digit",
+        day: "2-digit",
+        hour: "2-digit",
+        minute: "2-digit",
+        weekday: "short",
+        hourCycle: "h23",
+      });
+      momentFormatters.set(timeZone, formatter);
+    }
+
+    const parts = Object.fromEntries(formatter.formatToParts(now).map(p => [p.type, p.value]));
+    return {
+      date: `${parts.year}-${parts.month}-${parts.day}`,
+      day: WEEKDAYS[parts.weekday],
+      time: `${parts.hour}:${parts.minute}`,
+    };
+  } catch (error) {
+    console.warn("[Scheduler] Invalid timezone, using local time:", timeZone, error);
+    return getLocalMoment(now);
+  }
+};
+
+/**
+ * Offset of a timezone from UTC in minutes at the given instant (e.g. 180 for Helsinki in summer)
+ */
+export const getTimeZoneOffsetMinutes = (timeZone: string | null, at: Date = new Date()): number => {
+  const moment = getMomentInTimeZone(at, timeZone);
+  const [y, m, d] = moment.date.split("-").map(Number);
+  const [hh, mm] = moment.time.split(":").map(Number);
+  const wallClockAsUtc = Date.UTC(y, m - 1, d, hh, mm);
+  const atMinute = Math.floor(at.getTime() / 60000) * 60000;
+  return Math.round((wallClockAsUtc - atMinute) / 60000);
+};
+
+/**
+ * The instant a wall-clock date and time (HH:MM, "24:00" allowed) occurs in a timezone.
+ * Times skipped by a DST change land within an hour of the gap; callers only use them as probes.
+ */
+const wallClockToDate = (dateKey: string, time: string, timeZone: string | null): Date => {
+  const [y, m, d] = dateKey.split("-").map(Number);
+  const [hh, mm] = time.split(":").map(Number);
+  const wallClockAsUtc = Date.UTC(y, m - 1, d, hh, mm);
+  // The offset at the first guess can be off by a DST change, so look it up again at the corrected instant
+  const guess = wallClockAsUtc - getTimeZoneOffsetMinutes(timeZone, new Date(wallClockAsUtc)) * 60000;
+  return new Date(wallClockAsUtc - getTimeZoneOffsetMinutes(timeZone, new Date(guess)) * 60000);
+};
+
+export const isDatedSchedule = (schedule: Pick<ScheduleEntry, "valid_from" | "valid_until">): boolean =>
+  !!schedule.valid_from || !!schedule.valid_until;
+
+/**
+ * Whether a schedule may run on the given calendar date (date range and skip dates)
+ */
+export const isScheduleValidOn = (schedule: ScheduleEntry, dateKey: string): boolean => {
+  if (schedule.valid_from && dateKey < schedule.valid_from) return false;
+  if (schedule.valid_until && dateKey > schedule.valid_until) return false;
+  if (schedule.skip_dates?.includes(dateKey)) return false;
+  return true;
+};
+
+/**
+ * Check a daily time window against a moment. Overnight windows (e.g. 21:00 to 09:00)
+ * belong to the day they start on, so the part after midnight is checked against yesterday.
+ */
+export const windowCoversMoment = (
+  startTime: string,
+  endTime: string,
+  moment: ScheduleMoment,
+  runsOn: (dateKey: string, day: number) => boolean
+): boolean => {
+  const start = startTime.slice(0, 5);
+  const end = endTime.slice(0, 5);
+
+  if (start > end) {
+    const isAfterStart = moment.time >= start && runsOn(moment.date, moment.day);
+    const isBeforeEnd = moment.time < end && runsOn(addDaysToDateKey(moment.date, -1), (moment.day + 6) % 7);
+    return isAfterStart || isBeforeEnd;
+  }
+
+  return moment.time >= start && moment.time < end && runsOn(moment.date, moment.day);
+};
+
+export const scheduleCoversMoment = (schedule: ScheduleEntry, moment: ScheduleMoment): boolean => {
+  if (!schedule.is_active) return false;
+  return windowCoversMoment(schedule.start_time, schedule.end_time, moment, (dateKey, day) =>
+    schedule.days_of_week.includes(day) && isScheduleValidOn(schedule, dateKey)
+  );
+};
+
+export const exceptionCoversMoment = (exception: ScheduleException, moment: ScheduleMoment): boolean => {
+  // Whole-day exceptions run until midnight
+  const start = exception.start_time ?? "00:00";
+  const end = exception.end_time ?? "24:00";
+  return windowCoversMoment(start, end, moment, (dateKey) => dateKey === exception.exception_date);
+};
+
+const pickHighestPriority = (schedules: ScheduleEntry[]): ScheduleEntry => {
+  const zoned = schedules.filter(s => s.location_id);
+  return (zoned.length > 0 ? zoned : schedules).reduce((prev, curr) => (curr.priority > prev.priority ? curr : prev));
+};
+
+/**
+ * Keep only the entries that apply to a zone: account-wide entries plus the zone's own.
+ * Devices without a zone only follow account-wide entries.
+ */
+export const filterByLocation = <T extends { location_id: string | null }>(
+  entries: T[],
+  locationId: string | null
+): T[] => entries.filter(e => !e.location_id || e.location_id === locationId);
+
+/**
+ * Give entries saved without a timezone a default one, for callers whose clock isn't the device's
+ * (e.g. edge functions, which run in UTC): usually the zone's timezone, else the account's.
+ */
+export const withDefaultTimeZone = <T extends { timezone: string | null }>(
+  entries: T[],
+  timeZone: string | null
+): T[] => (timeZone ? entries.map(e => (e.timezone ? e : { ...e, timezone: timeZone })) : entries);
+
+/**
+ * Whether a resolved schedule plays music (a playlist or a blend) rather than closing the venue
+ */
+export const playsMusic = (resolved: ResolvedSchedule | null): boolean =>
+  !!resolved && (!!resolved.playlist_id || !!resolved.blend_id);
+
+/**
+ * Resolve which schedule (or exception) applies at a given instant, or null if none does.
+ * Each entry is evaluated in its own timezone. Pass entries already filtered to the device's zone.
+ */
+export const resolveSchedule = (
+  schedules: ScheduleEntry[],
+  exceptions: ScheduleException[],
+  now: Date = new Date()
+): ResolvedSchedule | null => {
+  const moments = new Map<string, ScheduleMoment>();
+  const momentFor = (timeZone: string | null) => {
+    const key = timeZone ?? "";
+    let moment = moments.get(key);
+    if (!moment) {
+      moment = getMomentInTimeZone(now, timeZone);
+      moments.set(key, moment);
+    }
+    return moment;
+  };
+
+  const coveringExceptions = exceptions.filter(e => exceptionCoversMoment(e, momentFor(e.timezone)));
+  const exception = coveringExceptions.find(e => e.location_id) ?? coveringExceptions[0];
+  if (exception) {
+    return {
+      id: exception.id,
+      name: exception.name,
+      playlist_id: exception.playlist_id,
+      blend_id: exception.blend_id,
+      source: "exception",
+    };
+  }
+
+  const matching = schedules.filter(s => scheduleCoversMoment(s, momentFor(s.timezone)));
+  if (matching.length === 0) return null;
+
+  const dated = matching.filter(isDatedSchedule);
+  const selected = pickHighestPriority(dated.length > 0 ? dated : matching);
+
+  return {
+    id: selected.id,
+    name: selected.name,
+    playlist_id: selected.playlist_id,
+    blend_id: selected.blend_id,
+    source: isDatedSchedule(selected) ? "dated" : "recurring",
+  };
+};
+
+// What a resolved schedule plays, for comparing two points in time
+const resolvedKey = (resolved: ResolvedSchedule | null) =>
+  resolved ? `${resolved.id}|${resolved.playlist_id}|${resolved.blend_id}` : "";
+
+/**
+ * When the resolved schedule next changes after `now`, and what it changes to (null if nothing changes
+ * within `horizonDays`). Only the start and end of each entry can change the result, so those instants
+ * are probed in order and the change is then narrowed down to the minute, which keeps DST days exact.
+ */
+export const getNextChange = (
+  schedules: ScheduleEntry[],
+  exceptions: ScheduleException[],
+  now: Date = new Date(),
+  horizonDays = 8
+): { at: Date; schedule: ResolvedSchedule | null } | null => {
+  const start = Math.floor(now.getTime() / 60000) * 60000;
+  const end = start + horizonDays * 24 * 60 * 60000;
+  const current = resolvedKey(resolveSchedule(schedules, exceptions, now));
+
+  const boundaries = new Set<number>();
+  const addBoundaries = (times: string[], timeZone: string | null, dateKeys: string[]) => {
+    for (const dateKey of dateKeys) {
+      for (const time of times) {
+        const at = wallClockToDate(dateKey, time.slice(0, 5), timeZone).getTime();
+        if (at > start && at <= end) boundaries.add(at);
+      }
+    }
+  };
+
+  // Every date the horizon touches in any timezone (offsets stay within a day either way)
+  const firstDate = addDaysToDateKey(toDateKey(now), -1);
+  const dateKeys = Array.from({ length: horizonDays + 3 }, (_, i) => addDaysToDateKey(firstDate, i));
+  for (const schedule of schedules) {
+    if (schedule.is_active) addBoundaries([schedule.start_time, schedule.end_time], schedule.timezone, dateKeys);
+  }
+  for (const exception of exceptions) {
+    addBoundaries([exception.start_time ?? "00:00", exception.end_time ?? "24:00"], exception.timezone, [
+      exception.exception_date,
+    ]);
+  }
+
+  let previous = start;
+  for (const probe of [...boundaries].sort((a, b) => a - b)) {
+    if (resolvedKey(resolveSchedule(schedules, exceptions, new Date(probe))) === current) {
+      previous = probe;
+      continue;
+    }
+
+    // The change happened after `previous` and by `probe`: find the first minute that differs
+    let low = previous;
+    let high = probe;
+    while (high - low > 60000) {
+      const mid = low + Math.floor((high - low) / 120000) * 60000;
+      if (resolvedKey(resolveSchedule(schedules, exceptions, new Date(mid))) === current) low = mid;
+      else high = mid;
+    }
+    const at = new Date(high);
+    return { at, schedule: resolveSchedule(schedules, exceptions, at) };
+  }
+
+  return null;
+};
+
+/**
+ * Playlists and blends the schedules will play from now until `hours` ahead, in the order they start.
+ * Sampled every 15 minutes, so very short windows may be missed.
+ */
+export const getUpcomingSources = (
+  schedules: ScheduleEntry[],
+  exceptions: ScheduleException[],
+  from: Date = new Date(),
+  hours = 24
+): { playlistIds: string[]; blendIds: string[] } => {
+  const playlistIds: string[] = [];
+  const blendIds: string[] = [];
+  const stepMs = 15 * 60 * 1000;
+
+  for (let t = from.getTime(); t <= from.getTime() + hours * 60 * 60 * 1000; t += stepMs) {
+    const resolved = resolveSchedule(schedules, exceptions, new Date(t));
+    if (resolved?.playlist_id && !playlistIds.includes(resolved.playlist_id)) {
+      playlistIds.push(resolved.playlist_id);
+    }
+    if (resolved?.blend_id && !blendIds.includes(resolved.blend_id)) {
+      blendIds.push(resolved.blend_id);
+    }
+  }
+
+  return { playlistIds, blendIds };
+};
+
+/**
+ * Whether two schedules could ever run on the same date, considering only their date ranges
+ */
+export const dateRangesIntersect = (
+  a: Pick<ScheduleEntry, "valid_from" | "valid_until">,
+  b: Pick<ScheduleEntry, "valid_from" | "valid_until">
+): boolean => {
+  const aFrom = a.valid_from ?? "0000-01-01";
+  const aUntil = a.valid_until ?? "9999-12-31";
+  const bFrom = b.valid_from ?? "0000-01-01";
+  const bUntil = b.valid_until ?? "9999-12-31";
+  return aFrom <= bUntil && bFrom <= aUntil;
+};
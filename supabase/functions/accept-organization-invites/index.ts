@@ -0,0 +1,86 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+
+// Turn the caller's pending organization invitations into memberships. Called by the app after sign-in;
+// invitations are matched on the account's confirmed email address.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[ACCEPT-ORGANIZATION-INVITES] ${step}`, details ? JSON.stringify(details) : '');
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return jsonResponse({ error: "No authorization header" }, 401);
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (userError || !userData.user?.email) return jsonResponse({ error: "User not authenticated" }, 401);
+    const user = userData.user;
+
+    // Anyone can sign up with any address; only a confirmed one proves the invitation is theirs
+    if (!user.email_confirmed_at) return jsonResponse({ accepted: [] });
+
+    const email = user.email.toLowerCase();
+    const { data: invitations, error: inviteError } = await supabaseAdmin
+      .from("organization_invitations")
+      .select("id, organization_id, role")
+      .eq("email", email)
+      .is("accepted_at", null)
+      .gt("expires_at", new Date().toISOString());
+
+    if (inviteError) throw new Error(`Failed to fetch invitations: ${inviteError.message}`);
+    if (!invitations || invitations.length === 0) return jsonResponse({ accepted: [] });
+
+    const accepted: string[] = [];
+    for (const invitation of invitations) {
+      const { error: memberError } = await supabaseAdmin
+        .from("organization_members")
+        .upsert({
+          organization_id: invitation.organization_id,
+          user_id: user.id,
+          email,
+          role: invitation.role,
+        }, { onConflict: "organization_id,user_id", ignoreDuplicates: true });
+
+      if (memberError) {
+        logStep("Failed to add member", { invitationId: invitation.id, error: memberError.message });
+        continue;
+      }
+
+      await supabaseAdmin
+        .from("organization_invitations")
+        .update({ accepted_at: new Date().toISOString() })
+        .eq("id", invitation.id);
+
+      accepted.push(invitation.organization_id);
+      logStep("Invitation accepted", { userId: user.id, organizationId: invitation.organization_id, role: invitation.role });
+    }
+
+    return jsonResponse({ accepted });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
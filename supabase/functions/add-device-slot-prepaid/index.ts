@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { resolveAccountUser } from "../_shared/organizations.ts";
 
 const ALLOWED_ORIGINS = [
   "https://ambian.lovable.app",
@@ -57,9 +58,11 @@ serve(async (req) => {
     let quantity = 1;
     let mode: "calculate" | "checkout" = "calculate";
     let currency: "EUR" | "USD" = "EUR";
+    let organizationId: string | null = null;
     
     try {
       const body = await req.json();
+      organizationId = body.organizationId || null;
       if (body.quantity && typeof body.quantity === "number" && body.quantity >= 1 && body.quantity <= 10) {
         quantity = Math.floor(body.quantity);
       }
@@ -80,9 +83,7 @@ serve(async (req) => {
     const token = authHeader.replace("Bearer ", "");
     const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
     if (userError) throw new Error(`Auth error: ${userError.message}`);
-    const user = userData.user;
-    if (!user?.email) throw new Error("User not authenticated");
-    logStep("User authenticated", { userId: user.id, email: user.email });
+    if (!userData.user?.email) throw new Error("User not authenticated");
 
     // Get local subscription data for prepaid access
     const supabaseAdmin = createClient(
@@ -90,6 +91,10 @@ serve(async (req) => {
       Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
     );
 
+    // Billing members of an organization buy slots for the owner's account
+    const user = await resolveAccountUser(supabaseAdmin, userData.user, organizationId, ["owner", "billing"]);
+    logStep("User authenticated", { userId: user.id, email: user.email, callerId: userData.user.id });
+
     const { data: localSub, error: subError } = await supabaseAdmin
       .from("subscriptions")
       .select("*")
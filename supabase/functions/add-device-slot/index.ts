@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { resolveAccountUser } from "../_shared/organizations.ts";
 
 const ALLOWED_ORIGINS = [
   "https://ambian.lovable.app",
@@ -191,9 +192,11 @@ serve(async (req) => {
     // Parse request body
     let quantity = 1;
     let mode: "calculate" | "execute" = "execute";
+    let organizationId: string | null = null;
     
     try {
       const body = await req.json();
+      organizationId = body.organizationId || null;
       if (body.quantity && typeof body.quantity === "number" && body.quantity >= 1 && body.quantity <= 10) {
         quantity = Math.floor(body.quantity);
       }
@@ -211,9 +214,15 @@ serve(async (req) => {
     const token = authHeader.replace("Bearer ", "");
     const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
     if (userError) throw new Error(`Auth error: ${userError.message}`);
-    const user = userData.user;
-    if (!user?.email) throw new Error("User not authenticated");
-    logStep("User authenticated", { userId: user.id, email: user.email });
+    if (!userData.user?.email) throw new Error("User not authenticated");
+
+    // Billing members of an organization add slots to the owner's subscription
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    );
+    const user = await resolveAccountUser(supabaseAdmin, userData.user, organizationId, ["owner", "billing"]);
+    logStep("User authenticated", { userId: user.id, email: user.email, callerId: userData.user.id });
 
     const stripeKey = Deno.env.get("STRIPE_SECRET_KEY");
     if (!stripeKey) throw new Error("STRIPE_SECRET_KEY is not set");
@@ -256,11 +265,6 @@ serve(async (req) => {
 
     if (!mainSubscription) {
       // Check local database for subscription status
-      const supabaseAdmin = createClient(
-        Deno.env.get("SUPABASE_URL") ?? "",
-        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-      );
-      
       const { data: localSub } = await supabaseAdmin
         .from("subscriptions")
         .select("status, current_period_end, plan_type, stripe_subscription_id")
@@ -570,11 +574,6 @@ serve(async (req) => {
       // Update local device_slots immediately for both card and invoice payments
       // For invoice users: they get immediate access for their FIRST batch (abuse check blocks further requests)
       // If they don't pay within 7 days, the webhook will revoke access
-      const supabaseAdmin = createClient(
-        Deno.env.get("SUPABASE_URL") ?? "",
-        Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-      );
-
       await supabaseAdmin
         .from("subscriptions")
         .update({
@@ -642,11 +641,6 @@ serve(async (req) => {
     // Update local device_slots immediately for both card and invoice payments
     // For invoice users: they get immediate access for their FIRST batch (abuse check blocks further requests)
     // If they don't pay within 7 days, the webhook will revoke access
-    const supabaseAdmin = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-    );
-
     await supabaseAdmin
       .from("subscriptions")
       .update({
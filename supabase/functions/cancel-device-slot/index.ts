@@ -3,6 +3,7 @@ import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
 import { Resend } from "https://esm.sh/resend@2.0.0";
 import { getAllDeviceSlotPriceIds } from "../_shared/pricing.ts";
+import { resolveAccountUser } from "../_shared/organizations.ts";
 
 // Declare EdgeRuntime for background tasks
 declare const EdgeRuntime: {
@@ -149,13 +150,19 @@ serve(async (req) => {
     const token = authHeader.replace("Bearer ", "");
     const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
     if (userError) throw new Error(`Auth error: ${userError.message}`);
-    const user = userData.user;
-    if (!user?.email) throw new Error("User not authenticated");
-    logStep("User authenticated", { userId: user.id, email: user.email });
+    if (!userData.user?.email) throw new Error("User not authenticated");
 
     // Get item ID and subscription ID from request body
     const body = await req.json();
-    const { itemId, subscriptionId, quantityToRemove = 1 } = body;
+    const { itemId, subscriptionId, quantityToRemove = 1, organizationId } = body;
+
+    // Billing members of an organization cancel slots on the owner's subscription
+    const adminClient = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    );
+    const user = await resolveAccountUser(adminClient, userData.user, organizationId, ["owner", "billing"]);
+    logStep("User authenticated", { userId: user.id, email: user.email, callerId: userData.user.id });
     
     if (!itemId || !subscriptionId) {
       throw new Error("Item ID and Subscription ID required");
@@ -199,10 +206,6 @@ serve(async (req) => {
     logStep("Device slot item found", { itemId, currentQuantity, period });
 
     // Get user's full name from profile
-    const adminClient = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-    );
     const { data: profile } = await adminClient
       .from("profiles")
       .select("full_name")
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { resolveAccountUser } from "../_shared/organizations.ts";
 import { 
   PRICE_IDS, 
   getAllSubscriptionPriceIds,
@@ -64,11 +65,18 @@ serve(async (req) => {
 
     const { data: userData, error: userError } = await userClient.auth.getUser();
     if (userError) throw new Error(`Auth error: ${userError.message}`);
-    const user = userData.user;
-    if (!user?.email) throw new Error("User not authenticated");
-    logStep("User authenticated", { email: user.email });
+    if (!userData.user?.email) throw new Error("User not authenticated");
+    logStep("User authenticated", { email: userData.user.email });
 
-    const { newPlan } = await req.json();
+    const { newPlan, organizationId } = await req.json();
+
+    // Billing members of an organization change the owner's plan
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+    const user = await resolveAccountUser(supabaseAdmin, userData.user, organizationId, ["owner", "billing"]);
     if (!newPlan || !["monthly", "yearly"].includes(newPlan)) {
       throw new Error("Invalid plan. Must be 'monthly' or 'yearly'");
     }
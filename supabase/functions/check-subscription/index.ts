@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
 import { getAllDeviceSlotPriceIds } from "../_shared/pricing.ts";
+import { resolveAccountUser } from "../_shared/organizations.ts";
 
 const ALLOWED_ORIGINS = [
   "https://ambian.lovable.app",
@@ -67,9 +68,16 @@ serve(async (req) => {
     const token = authHeader.replace("Bearer ", "");
     const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
     if (userError) throw new Error(`Auth error: ${userError.message}`);
-    const user = userData.user;
-    if (!user?.email) throw new Error("User not authenticated");
-    logStep("User authenticated", { userId: user.id, email: user.email });
+    const authUser = userData.user;
+    if (!authUser?.email) throw new Error("User not authenticated");
+    logStep("User authenticated", { userId: authUser.id, email: authUser.email });
+
+    // Members of an organization get its owner's subscription
+    const { organizationId } = await req.json().catch(() => ({}));
+    const user = await resolveAccountUser(supabaseClient, authUser, organizationId);
+    if (user.id !== authUser.id) {
+      logStep("Using organization owner's subscription", { organizationId, ownerUserId: user.id });
+    }
 
     // Check for existing subscription in database first (handles admin-extended trials)
     const { data: existingSub } = await supabaseClient
@@ -8,6 +8,8 @@ import {
   getAllDailyTestPriceIds,
   type Currency 
 } from "../_shared/pricing.ts";
+import { loadBillingProfile, syncBillingProfileToStripe } from "../_shared/billingProfile.ts";
+import { resolveAccountUser } from "../_shared/organizations.ts";
 
 const ALLOWED_ORIGINS = [
   "https://ambian.lovable.app",
@@ -61,7 +63,7 @@ serve(async (req) => {
   try {
     logStep("Function started");
 
-    const { priceId, paymentMode, promoCode, currency } = await req.json();
+    const { priceId, paymentMode, promoCode, currency, organizationId } = await req.json();
     // paymentMode: "subscription" or "payment" (one-time prepaid)
     const mode = paymentMode || "subscription";
     const selectedCurrency = currency || "EUR";
@@ -81,9 +83,16 @@ serve(async (req) => {
 
     const { data, error: userError } = await supabaseClient.auth.getUser();
     if (userError) throw new Error(`Auth error: ${userError.message}`);
-    const user = data.user;
-    if (!user?.email) throw new Error("User not authenticated");
-    logStep("User authenticated", { userId: user.id, email: user.email });
+    if (!data.user?.email) throw new Error("User not authenticated");
+
+    // Billing members of an organization subscribe on the owner's account
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+    const user = await resolveAccountUser(supabaseAdmin, data.user, organizationId, ["owner", "billing"]);
+    logStep("User authenticated", { userId: user.id, email: user.email, callerId: data.user.id });
 
     const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
       apiVersion: "2025-08-27.basil",
@@ -107,6 +116,12 @@ serve(async (req) => {
       logStep("Created new customer", { customerId });
     }
 
+    // Saved billing details prefill checkout and decide reverse charge
+    const billingProfile = await loadBillingProfile(supabaseAdmin, user.id);
+    if (billingProfile) {
+      await syncBillingProfileToStripe(stripe, customerId, billingProfile);
+    }
+
     const returnOrigin = origin || "https://ambian.lovable.app";
     
     // Build success URL based on mode - redirect to pricing page for thank you dialog
@@ -135,6 +150,7 @@ serve(async (req) => {
         plan_type: planType,
         payment_mode: mode,
         currency: selectedCurrency,
+        tax_treatment: billingProfile?.tax_treatment ?? "standard",
       },
       automatic_tax: { enabled: true },
       tax_id_collection: { enabled: true },
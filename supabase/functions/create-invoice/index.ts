@@ -2,6 +2,13 @@ import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
 import { PRICE_IDS, type Currency } from "../_shared/pricing.ts";
+import {
+  loadBillingProfile,
+  saveBillingProfile,
+  sendInvoiceCopy,
+  syncBillingProfileToStripe,
+} from "../_shared/billingProfile.ts";
+import { resolveAccountUser } from "../_shared/organizations.ts";
 
 const ALLOWED_ORIGINS = [
   "https://ambian.lovable.app",
@@ -72,7 +79,7 @@ serve(async (req) => {
   try {
     logStep("Function started");
 
-    const { priceId, companyName, address, vatId, currency } = await req.json();
+    const { priceId, companyName, address, vatId, currency, organizationId } = await req.json();
     const selectedCurrency = currency || "EUR";
     logStep("Received request", { priceId, companyName, address, vatId: vatId ? "provided" : "not provided", currency: selectedCurrency });
 
@@ -81,10 +88,28 @@ serve(async (req) => {
 
     const { data, error: userError } = await supabaseClient.auth.getUser();
     if (userError) throw new Error(`Auth error: ${userError.message}`);
-    const user = data.user;
-    if (!user?.email) throw new Error("User not authenticated");
+    if (!data.user?.email) throw new Error("User not authenticated");
+    // Billing members of an organization are invoiced on the owner's account
+    const user = await resolveAccountUser(supabaseAdmin, data.user, organizationId, ["owner", "billing"]);
     rollbackUserId = user.id;
-    logStep("User authenticated", { userId: user.id, email: user.email });
+    logStep("User authenticated", { userId: user.id, email: user.email, callerId: data.user.id });
+
+    // Details entered in the invoice dialog update the billing profile; otherwise the saved one is used
+    let billingProfile = await loadBillingProfile(supabaseAdmin, user.id);
+    if (companyName || address || vatId) {
+      const { profile, error: profileError } = await saveBillingProfile(supabaseAdmin, user.id, {
+        companyName,
+        addressLine1: address?.line1,
+        postalCode: address?.postal_code,
+        city: address?.city,
+        country: address?.country,
+        vatId,
+        invoiceEmail: billingProfile?.invoice_email,
+      });
+      if (profileError || !profile) throw new Error(profileError);
+      billingProfile = profile;
+      logStep("Saved billing profile", { vatIdStatus: profile.vat_id_status, taxTreatment: profile.tax_treatment });
+    }
 
     const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
       apiVersion: "2025-08-27.basil",
@@ -168,76 +193,20 @@ serve(async (req) => {
         logStep("User has history of uncollectible invoices", { uncollectibleCount });
         throw new Error("Invoice payment is not available for your account. Please use card payment instead.");
       }
-      
-      // Update customer with company info if provided
-      if (companyName || address) {
-        await stripe.customers.update(customerId, {
-          name: companyName || undefined,
-          address: address ? {
-            line1: address.line1,
-            city: address.city,
-            postal_code: address.postal_code,
-            country: address.country,
-          } : undefined,
-          metadata: {
-            user_id: user.id,
-            company_name: companyName || '',
-          },
-        });
-        logStep("Updated customer with company info");
-      }
-      
-      // Add VAT ID if provided (for B2B reverse-charge)
-      if (vatId) {
-        try {
-          // Check if customer already has this tax ID
-          const existingTaxIds = await stripe.customers.listTaxIds(customerId);
-          const hasVatId = existingTaxIds.data.some((t: { value: string }) => t.value === vatId);
-          
-          if (!hasVatId) {
-            await stripe.customers.createTaxId(customerId, {
-              type: "eu_vat",
-              value: vatId,
-            });
-            logStep("Added VAT ID to customer", { vatId });
-          } else {
-            logStep("VAT ID already exists on customer");
-          }
-        } catch (vatError) {
-          logStep("Failed to add VAT ID (may be invalid format)", { error: String(vatError) });
-          // Continue without VAT ID - Stripe Tax will still calculate based on address
-        }
-      }
     } else {
       const newCustomer = await stripe.customers.create({
         email: user.email,
-        name: companyName || undefined,
-        address: address ? {
-          line1: address.line1,
-          city: address.city,
-          postal_code: address.postal_code,
-          country: address.country,
-        } : undefined,
         metadata: {
           user_id: user.id,
-          company_name: companyName || '',
         },
       });
       customerId = newCustomer.id;
       logStep("Created new customer", { customerId });
-      
-      // Add VAT ID to new customer if provided
-      if (vatId) {
-        try {
-          await stripe.customers.createTaxId(customerId, {
-            type: "eu_vat",
-            value: vatId,
-          });
-          logStep("Added VAT ID to new customer", { vatId });
-        } catch (vatError) {
-          logStep("Failed to add VAT ID (may be invalid format)", { error: String(vatError) });
-        }
-      }
+    }
+
+    // Company details, VAT ID and reverse charge for Stripe Tax
+    if (billingProfile) {
+      await syncBillingProfileToStripe(stripe, customerId, billingProfile);
     }
 
     // Get the price to determine if it's recurring or one-time
@@ -298,6 +267,7 @@ serve(async (req) => {
         plan_type: planType,
         billing_type: "prepaid",
         currency: selectedCurrency,
+        tax_treatment: billingProfile?.tax_treatment ?? "standard",
       },
     });
     logStep("Created invoice", { invoiceId: invoice.id });
@@ -324,6 +294,7 @@ serve(async (req) => {
     const finalizedInvoice = await stripe.invoices.finalizeInvoice(invoice.id);
     await stripe.invoices.sendInvoice(invoice.id);
     logStep("Finalized and sent invoice", { invoiceId: finalizedInvoice.id, planType });
+    await sendInvoiceCopy(supabaseAdmin, billingProfile, user.email, finalizedInvoice);
 
     // Update local subscription for prepaid
     await supabaseAdmin
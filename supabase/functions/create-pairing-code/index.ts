@@ -0,0 +1,93 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { getOrganizationAccess } from "../_shared/organizations.ts";
+import { PAIRING_CODE_TTL_MINUTES, generatePairingCode } from "../_shared/devicePairing.ts";
+
+// Create a pairing code for a new shop-floor device (owners and managers). The device enters it on /pair,
+// see pair-device.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[CREATE-PAIRING-CODE] ${step}`, details ? JSON.stringify(details) : '');
+};
+
+const MAX_NAME_LENGTH = 60;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return jsonResponse({ error: "No authorization header" }, 401);
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (userError || !userData.user) return jsonResponse({ error: "User not authenticated" }, 401);
+    const user = userData.user;
+
+    const { organizationId, name: rawName } = await req.json();
+    const name = typeof rawName === "string" ? rawName.trim().slice(0, MAX_NAME_LENGTH) : "";
+
+    if (!organizationId) return jsonResponse({ error: "Missing organizationId" }, 400);
+    if (!name) return jsonResponse({ error: "Missing device name" }, 400);
+
+    const access = await getOrganizationAccess(supabaseAdmin, user.id, organizationId);
+    if (access?.role !== "owner" && access?.role !== "manager") {
+      return jsonResponse({ error: "Only owners and managers can pair devices" }, 403);
+    }
+
+    // Codes nobody used are of no use to anyone
+    await supabaseAdmin
+      .from("paired_devices")
+      .delete()
+      .eq("organization_id", organizationId)
+      .is("user_id", null)
+      .lt("code_expires_at", new Date().toISOString());
+
+    const expiresAt = new Date(Date.now() + PAIRING_CODE_TTL_MINUTES * 60 * 1000);
+
+    // Retry on the rare code collision (unique violation)
+    for (let attempt = 0; attempt < 3; attempt++) {
+      const { data: device, error: insertError } = await supabaseAdmin
+        .from("paired_devices")
+        .insert({
+          organization_id: organizationId,
+          name,
+          pairing_code: generatePairingCode(),
+          code_expires_at: expiresAt.toISOString(),
+          created_by: user.id,
+        })
+        .select()
+        .single();
+
+      if (!insertError) {
+        logStep("Pairing code created", { organizationId, deviceId: device.id });
+        return jsonResponse({ device });
+      }
+      if (insertError.code !== "23505") throw new Error(`Failed to create pairing code: ${insertError.message}`);
+    }
+
+    throw new Error("Failed to create a unique pairing code");
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { resolveAccountUser } from "../_shared/organizations.ts";
 
 const ALLOWED_ORIGINS = [
   "https://ambian.lovable.app",
@@ -43,9 +44,11 @@ serve(async (req) => {
 
     // Parse optional flow parameter from request body
     let flowType: string | null = null;
+    let organizationId: string | null = null;
     try {
       const body = await req.json();
       flowType = body?.flow || null;
+      organizationId = body?.organizationId || null;
       logStep("Parsed request body", { flowType });
     } catch {
       // No body or invalid JSON, continue without flow
@@ -61,9 +64,16 @@ serve(async (req) => {
 
     const { data: userData, error: userError } = await userClient.auth.getUser();
     if (userError) throw new Error(`Auth error: ${userError.message}`);
-    const user = userData.user;
-    if (!user?.email) throw new Error("User not authenticated");
-    logStep("User authenticated", { email: user.email });
+    if (!userData.user?.email) throw new Error("User not authenticated");
+    logStep("User authenticated", { email: userData.user.email });
+
+    // Billing members of an organization manage the owner's subscription
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+    const user = await resolveAccountUser(supabaseAdmin, userData.user, organizationId, ["owner", "billing"]);
 
     const stripe = new Stripe(stripeKey, { apiVersion: "2025-08-27.basil" });
     const customers = await stripe.customers.list({ email: user.email, limit: 1 });
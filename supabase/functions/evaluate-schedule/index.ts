@@ -0,0 +1,197 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import {
+  ScheduleEntry,
+  ScheduleException,
+  addDaysToDateKey,
+  filterByLocation,
+  getNextChange,
+  resolveSchedule,
+  toDateKey,
+  withDefaultTimeZone,
+} from "../_shared/scheduleResolver.ts";
+import { getOrganizationAccess, getOwnedOrganizationId } from "../_shared/organizations.ts";
+
+// What should a user's player (or one zone/device of it) be playing at a given time?
+// For dashboards, hardware players and monitoring jobs; uses the same rules as the browser scheduler.
+//
+// GET ?user_id=&location_id=&session_id=&at=  or POST with the same fields as JSON. All fields are optional:
+// user_id defaults to the caller, session_id (a device) implies its zone, at defaults to now.
+// Callers may ask about their own account or one whose organization they belong to; admins and the
+// service role about any account.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[EVALUATE-SCHEDULE] ${step}`, details ? JSON.stringify(details) : '');
+};
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface EvaluateRequest {
+  user_id?: string;
+  location_id?: string | null;
+  session_id?: string;
+  at?: string;
+}
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+const readRequest = async (req: Request): Promise<EvaluateRequest> => {
+  if (req.method === "POST") return await req.json().catch(() => ({}));
+
+  const params = new URL(req.url).searchParams;
+  return {
+    user_id: params.get("user_id") ?? undefined,
+    location_id: params.get("location_id"),
+    session_id: params.get("session_id") ?? undefined,
+    at: params.get("at") ?? undefined,
+  };
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+  const supabaseAdmin = createClient(Deno.env.get("SUPABASE_URL") ?? "", serviceRoleKey, {
+    auth: { persistSession: false },
+  });
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return jsonResponse({ error: "No authorization header" }, 401);
+
+  try {
+    const body = await readRequest(req);
+    const token = authHeader.replace("Bearer ", "");
+
+    // Jobs call with the service role key; everyone else is checked against the account they ask about
+    let userId = body.user_id;
+    if (token !== serviceRoleKey) {
+      const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(token);
+      if (userError || !userData.user) return jsonResponse({ error: "User not authenticated" }, 401);
+
+      const requesterId = userData.user.id;
+      userId = userId ?? requesterId;
+
+      if (userId !== requesterId) {
+        const organizationId = await getOwnedOrganizationId(supabaseAdmin, userId);
+        const access = organizationId ? await getOrganizationAccess(supabaseAdmin, requesterId, organizationId) : null;
+
+        if (!access) {
+          const { data: adminRole, error: roleError } = await supabaseAdmin
+            .from("user_roles")
+            .select("role")
+            .eq("user_id", requesterId)
+            .eq("role", "admin")
+            .maybeSingle();
+
+          if (roleError) throw new Error(`Role check error: ${roleError.message}`);
+          if (!adminRole) return jsonResponse({ error: "Unauthorized - you can only evaluate your own schedule" }, 403);
+        }
+      }
+    }
+
+    if (!userId) return jsonResponse({ error: "Provide user_id" }, 400);
+    if (!UUID_PATTERN.test(userId)) return jsonResponse({ error: "Invalid user_id" }, 400);
+
+    const now = body.at ? new Date(body.at) : new Date();
+    if (isNaN(now.getTime())) return jsonResponse({ error: "Invalid 'at', use an ISO 8601 timestamp" }, 400);
+
+    // A device follows its zone's schedules
+    let locationId = body.location_id ?? null;
+    if (body.session_id) {
+      // Organization members sign in on the account's devices with their own logins
+      const organizationId = await getOwnedOrganizationId(supabaseAdmin, userId);
+      const { data: session, error: sessionError } = await supabaseAdmin
+        .from("active_sessions")
+        .select("location_id")
+        .or(organizationId ? `user_id.eq.${userId},organization_id.eq.${organizationId}` : `user_id.eq.${userId}`)
+        .eq("session_id", body.session_id)
+        .maybeSingle();
+
+      if (sessionError) throw new Error(`Failed to fetch device: ${sessionError.message}`);
+      if (!session) return jsonResponse({ error: "Device not found" }, 404);
+      locationId = session.location_id;
+    }
+
+    logStep("Evaluating", { userId, locationId, at: now.toISOString() });
+
+    const today = toDateKey(now);
+    const [profileResult, locationResult, schedulesResult, exceptionsResult] = await Promise.all([
+      supabaseAdmin.from("profiles").select("scheduling_enabled, silence_alert_timezone").eq("user_id", userId).maybeSingle(),
+      locationId
+        ? supabaseAdmin.from("locations").select("timezone").eq("id", locationId).eq("user_id", userId).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+      supabaseAdmin
+        .from("playlist_schedules")
+        .select("id, playlist_id, blend_id, name, days_of_week, start_time, end_time, is_active, priority, valid_from, valid_until, skip_dates, timezone, location_id")
+        .eq("user_id", userId)
+        .eq("is_active", true),
+      // Timezones can put "now" on yesterday's date, and the next change can be a week away
+      supabaseAdmin
+        .from("schedule_exceptions")
+        .select("id, name, exception_date, playlist_id, blend_id, start_time, end_time, timezone, location_id")
+        .eq("user_id", userId)
+        .gte("exception_date", addDaysToDateKey(today, -2))
+        .lte("exception_date", addDaysToDateKey(today, 9)),
+    ]);
+
+    if (profileResult.error) throw new Error(`Failed to fetch profile: ${profileResult.error.message}`);
+    if (locationResult.error) throw new Error(`Failed to fetch zone: ${locationResult.error.message}`);
+    if (schedulesResult.error) throw new Error(`Failed to fetch schedules: ${schedulesResult.error.message}`);
+    if (exceptionsResult.error) throw new Error(`Failed to fetch exceptions: ${exceptionsResult.error.message}`);
+
+    // Entries saved without a timezone follow the zone's clock, then the account's, rather than UTC
+    const timeZone = locationResult.data?.timezone ?? profileResult.data?.silence_alert_timezone ?? null;
+    const schedules = withDefaultTimeZone(
+      filterByLocation((schedulesResult.data || []) as ScheduleEntry[], locationId),
+      timeZone
+    );
+    const exceptions = withDefaultTimeZone(
+      filterByLocation((exceptionsResult.data || []) as ScheduleException[], locationId),
+      timeZone
+    );
+
+    const resolved = resolveSchedule(schedules, exceptions, now);
+    const nextChange = getNextChange(schedules, exceptions, now);
+
+    // Names for what's playing now
+    const [playlistResult, blendResult] = await Promise.all([
+      resolved?.playlist_id
+        ? supabaseAdmin.from("playlists").select("id, name").eq("id", resolved.playlist_id).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+      resolved?.blend_id
+        ? supabaseAdmin.from("playlist_blends").select("id, name").eq("id", resolved.blend_id).maybeSingle()
+        : Promise.resolve({ data: null, error: null }),
+    ]);
+
+    if (playlistResult.error) logStep("Failed to fetch playlist", { error: playlistResult.error.message });
+    if (blendResult.error) logStep("Failed to fetch blend", { error: blendResult.error.message });
+
+    return jsonResponse({
+      user_id: userId,
+      location_id: locationId,
+      at: now.toISOString(),
+      // The browser only follows schedules while scheduling is on
+      scheduling_enabled: profileResult.data?.scheduling_enabled ?? false,
+      schedule: resolved,
+      playlist: playlistResult.data,
+      blend: blendResult.data,
+      next_change_at: nextChange?.at.toISOString() ?? null,
+      next_schedule: nextChange?.schedule ?? null,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
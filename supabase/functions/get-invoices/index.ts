@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { resolveAccountUser } from "../_shared/organizations.ts";
 
 const ALLOWED_ORIGINS = [
   "https://ambian.lovable.app",
@@ -55,8 +56,11 @@ serve(async (req) => {
       throw new Error("User not authenticated");
     }
     
-    const user = data.user;
-    if (!user?.email) throw new Error("User not authenticated");
+    if (!data.user?.email) throw new Error("User not authenticated");
+
+    // Billing members of an organization see the owner's invoices
+    const { organizationId } = await req.json().catch(() => ({}));
+    const user = await resolveAccountUser(supabaseClient, data.user, organizationId, ["owner", "billing"]);
 
     logStep("Fetching payment history", { email: user.email, userId: user.id });
 
@@ -252,7 +256,7 @@ serve(async (req) => {
         const sessionUserId = session.metadata?.user_id;
         const sessionEmail = session.customer_email || session.customer_details?.email;
         
-        if (sessionUserId !== user.id && sessionEmail?.toLowerCase() !== user.email.toLowerCase()) {
+        if (sessionUserId !== user.id && sessionEmail?.toLowerCase() !== user.email?.toLowerCase()) {
           continue;
         }
 
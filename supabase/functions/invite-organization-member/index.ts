@@ -0,0 +1,118 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { getEmailLanguage, renderOrganizationInviteEmail } from "../_shared/emailTemplates.ts";
+import { getOrganizationAccess } from "../_shared/organizations.ts";
+
+// Invite someone to the caller's organization by email (owners only). The invitation is accepted when
+// the invitee signs in with that email, see accept-organization-invites.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[INVITE-ORGANIZATION-MEMBER] ${step}`, details ? JSON.stringify(details) : '');
+};
+
+const INVITABLE_ROLES = ["billing", "manager", "player"] as const;
+type InvitableRole = typeof INVITABLE_ROLES[number];
+
+const INVITATION_DAYS = 14;
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return jsonResponse({ error: "No authorization header" }, 401);
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (userError || !userData.user) return jsonResponse({ error: "User not authenticated" }, 401);
+    const user = userData.user;
+
+    const { organizationId, email: rawEmail, role } = await req.json();
+    const email = typeof rawEmail === "string" ? rawEmail.trim().toLowerCase() : "";
+
+    if (!organizationId) return jsonResponse({ error: "Missing organizationId" }, 400);
+    if (!/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) return jsonResponse({ error: "Invalid email" }, 400);
+    if (!INVITABLE_ROLES.includes(role)) return jsonResponse({ error: "Invalid role" }, 400);
+
+    const access = await getOrganizationAccess(supabaseAdmin, user.id, organizationId);
+    if (access?.role !== "owner") {
+      return jsonResponse({ error: "Only the organization owner can invite members" }, 403);
+    }
+
+    const { data: existingMember } = await supabaseAdmin
+      .from("organization_members")
+      .select("id")
+      .eq("organization_id", organizationId)
+      .eq("email", email)
+      .maybeSingle();
+
+    if (existingMember) return jsonResponse({ error: "This person is already a member" }, 400);
+
+    const expiresAt = new Date(Date.now() + INVITATION_DAYS * 24 * 60 * 60 * 1000);
+    const { data: invitation, error: inviteError } = await supabaseAdmin
+      .from("organization_invitations")
+      .upsert({
+        organization_id: organizationId,
+        email,
+        role,
+        invited_by: user.id,
+        expires_at: expiresAt.toISOString(),
+        accepted_at: null,
+      }, { onConflict: "organization_id,email" })
+      .select()
+      .single();
+
+    if (inviteError) throw new Error(`Failed to save invitation: ${inviteError.message}`);
+    logStep("Invitation saved", { organizationId, email, role });
+
+    const [{ data: organization }, { data: inviterProfile }] = await Promise.all([
+      supabaseAdmin.from("organizations").select("name").eq("id", organizationId).single(),
+      supabaseAdmin.from("profiles").select("full_name").eq("user_id", user.id).maybeSingle(),
+    ]);
+
+    const language = await getEmailLanguage(supabaseAdmin, { email });
+    const { subject, html } = renderOrganizationInviteEmail(language, {
+      email,
+      organizationName: organization?.name || "Ambian",
+      inviterName: inviterProfile?.full_name || user.email || "",
+      role: role as InvitableRole,
+    });
+
+    const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+    const { error: emailError } = await resend.emails.send({
+      from: "Ambian <noreply@ambianmusic.com>",
+      to: [email],
+      subject,
+      html,
+    });
+
+    // The invitation stands even if the email fails; the invitee can still sign in with that address
+    if (emailError) logStep("Error sending invitation email", { error: emailError });
+    else logStep("Invitation email sent", { email });
+
+    return jsonResponse({ invitation, emailSent: !emailError });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -0,0 +1,173 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import {
+  PAIRING_ATTEMPT_WINDOW_MINUTES,
+  PAIRING_CODE_MAX_FAILED_ATTEMPTS,
+  PAIRING_CODE_TTL_MINUTES,
+  PAIRING_MAX_FAILED_ATTEMPTS_PER_IP,
+  normalizePairingCode,
+  pairedDeviceEmail,
+} from "../_shared/devicePairing.ts";
+
+// Claim a pairing code from the /pair page. Creates a login for the device that is a player-only member of
+// the organization (it can play and follow schedules, nothing else) and returns a one-time token the app
+// exchanges for a session. No authorization header: the code is the credential, so failed attempts are
+// throttled per IP address and a code is locked once too many wrong codes have been tried while it is open.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[PAIR-DEVICE] ${step}`, details ? JSON.stringify(details) : '');
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  const ipAddress = req.headers.get("x-forwarded-for")?.split(",")[0].trim() || "unknown";
+
+  // Failed attempts since `since`, from this IP address or from anywhere
+  const countFailedAttempts = async (since: Date, fromIp: boolean) => {
+    let query = supabaseAdmin
+      .from("pairing_attempts")
+      .select("id", { count: "exact", head: true })
+      .gte("created_at", since.toISOString());
+    if (fromIp) query = query.eq("ip_address", ipAddress);
+
+    const { count, error } = await query;
+    if (error) throw new Error(`Failed to count pairing attempts: ${error.message}`);
+    return count ?? 0;
+  };
+
+  try {
+    const { code: rawCode } = await req.json();
+    const code = normalizePairingCode(rawCode);
+    if (!code) return jsonResponse({ error: "Missing code" }, 400);
+
+    const windowStart = new Date(Date.now() - PAIRING_ATTEMPT_WINDOW_MINUTES * 60 * 1000);
+    if (await countFailedAttempts(windowStart, true) >= PAIRING_MAX_FAILED_ATTEMPTS_PER_IP) {
+      logStep("Too many failed attempts", { ipAddress });
+      return jsonResponse({ error: `Too many attempts. Try again in ${PAIRING_ATTEMPT_WINDOW_MINUTES} minutes.` }, 429);
+    }
+
+    const { data: device, error: deviceError } = await supabaseAdmin
+      .from("paired_devices")
+      .select("id, organization_id, name, code_expires_at")
+      .eq("pairing_code", code)
+      .is("user_id", null)
+      .gt("code_expires_at", new Date().toISOString())
+      .maybeSingle();
+
+    if (deviceError) throw new Error(`Failed to look up code: ${deviceError.message}`);
+    if (!device) {
+      logStep("Invalid or expired code", { ipAddress });
+      const { error: attemptError } = await supabaseAdmin.from("pairing_attempts").insert({ ip_address: ipAddress });
+      if (attemptError) logStep("Failed to record attempt", { error: attemptError.message });
+      // Older attempts no longer count against any IP address or open code
+      await supabaseAdmin
+        .from("pairing_attempts")
+        .delete()
+        .lt("created_at", new Date(Date.now() - 24 * 60 * 60 * 1000).toISOString());
+      return jsonResponse({ error: "Invalid or expired code" }, 400);
+    }
+
+    // Guesses spread over many addresses still count against every code that was open at the time
+    const issuedAt = new Date(new Date(device.code_expires_at).getTime() - PAIRING_CODE_TTL_MINUTES * 60 * 1000);
+    if (await countFailedAttempts(issuedAt, false) >= PAIRING_CODE_MAX_FAILED_ATTEMPTS) {
+      await supabaseAdmin
+        .from("paired_devices")
+        .update({ pairing_code: null, code_expires_at: null })
+        .eq("id", device.id)
+        .is("user_id", null);
+      logStep("Code locked after too many failed attempts", { deviceId: device.id });
+      return jsonResponse({ error: "This code has been locked after too many failed attempts. Create a new one." }, 400);
+    }
+
+    const email = pairedDeviceEmail(device.id);
+    const { data: created, error: createError } = await supabaseAdmin.auth.admin.createUser({
+      email,
+      email_confirm: true,
+      app_metadata: { paired_device: true, organization_id: device.organization_id },
+      user_metadata: { full_name: device.name },
+    });
+    if (createError || !created.user) throw new Error(`Failed to create device login: ${createError?.message}`);
+    const deviceUserId = created.user.id;
+
+    // Claim the code; if another device got there first, undo
+    const { data: claimed, error: claimError } = await supabaseAdmin
+      .from("paired_devices")
+      .update({
+        user_id: deviceUserId,
+        paired_at: new Date().toISOString(),
+        pairing_code: null,
+        code_expires_at: null,
+      })
+      .eq("id", device.id)
+      .is("user_id", null)
+      .select("id")
+      .maybeSingle();
+
+    if (claimError || !claimed) {
+      await supabaseAdmin.auth.admin.deleteUser(deviceUserId);
+      return jsonResponse({ error: "Invalid or expired code" }, 400);
+    }
+
+    // Undo a half-finished pairing: the device login, its membership and the claimed device
+    const rollback = async () => {
+      await supabaseAdmin.from("organization_members").delete().eq("user_id", deviceUserId);
+      await supabaseAdmin.auth.admin.deleteUser(deviceUserId);
+      await supabaseAdmin.from("paired_devices").delete().eq("id", device.id);
+    };
+
+    const { error: memberError } = await supabaseAdmin
+      .from("organization_members")
+      .insert({
+        organization_id: device.organization_id,
+        user_id: deviceUserId,
+        email,
+        role: "player",
+      });
+    if (memberError) {
+      await rollback();
+      throw new Error(`Failed to add device to organization: ${memberError.message}`);
+    }
+
+    // A magic link token the app verifies itself; no email is sent
+    const { data: link, error: linkError } = await supabaseAdmin.auth.admin.generateLink({
+      type: "magiclink",
+      email,
+    });
+    if (linkError || !link.properties?.hashed_token) {
+      await rollback();
+      throw new Error(`Failed to create device session: ${linkError?.message}`);
+    }
+
+    logStep("Device paired", { deviceId: device.id, organizationId: device.organization_id, userId: deviceUserId });
+
+    return jsonResponse({
+      tokenHash: link.properties.hashed_token,
+      organizationId: device.organization_id,
+      name: device.name,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
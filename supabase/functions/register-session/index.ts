@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { resolveSessionOrganization } from "../_shared/organizations.ts";
 
 const ALLOWED_ORIGINS = [
   "http://localhost:5173",
@@ -23,6 +24,39 @@ function getCorsHeaders(origin: string | null) {
   };
 }
 
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+interface PlaybackReport {
+  trackId?: string | null;
+  playlistId?: string | null;
+  isPlaying?: boolean;
+  volume?: number | null;
+  lastError?: string | null;
+  lastErrorAt?: number | null;
+  schedulerEnabled?: boolean;
+}
+
+// Map the client's playback report to the heartbeat columns on active_sessions
+function getPlaybackColumns(playback: PlaybackReport | undefined, wasPlaying = false) {
+  if (!playback || typeof playback !== "object") return {};
+
+  const now = new Date().toISOString();
+  const isPlaying = playback.isPlaying === true;
+  const lastError = typeof playback.lastError === "string" ? playback.lastError.slice(0, 500) : null;
+
+  return {
+    current_track_id: typeof playback.trackId === "string" && UUID_PATTERN.test(playback.trackId) ? playback.trackId : null,
+    current_playlist_id: typeof playback.playlistId === "string" && UUID_PATTERN.test(playback.playlistId) ? playback.playlistId : null,
+    is_playing: isPlaying,
+    volume: typeof playback.volume === "number" ? Math.max(0, Math.min(100, Math.round(playback.volume))) : null,
+    last_error: lastError,
+    last_error_at: lastError && typeof playback.lastErrorAt === "number" ? new Date(playback.lastErrorAt).toISOString() : null,
+    scheduler_enabled: playback.schedulerEnabled === true,
+    // A device that just stopped was playing until now, so silence is measured from this heartbeat
+    ...(isPlaying || wasPlaying ? { last_playing_at: now } : {}),
+  };
+}
+
 serve(async (req) => {
   const origin = req.headers.get("origin");
   const corsHeaders = getCorsHeaders(origin);
@@ -58,7 +92,7 @@ serve(async (req) => {
     }
 
     // Parse request body
-    const { sessionId, deviceInfo, forceRegister, disconnectSessionId, deviceFingerprint } = await req.json();
+    const { sessionId, deviceInfo, forceRegister, disconnectSessionId, deviceFingerprint, playback, heartbeat, organizationId } = await req.json();
     if (!sessionId) {
       return new Response(JSON.stringify({ error: "Missing sessionId" }), {
         status: 400,
@@ -69,12 +103,23 @@ serve(async (req) => {
     // Use service role client to manage sessions (bypass RLS)
     const adminClient = createClient(supabaseUrl, supabaseServiceKey);
 
+    // An organization's devices share its owner's device slots, whoever is signed in on them. The organization
+    // comes from the caller's memberships (paired devices: the one they were paired with), so a request can't
+    // count its devices against another account's slots. Logins without any organization count their own devices.
+    const access = await resolveSessionOrganization(adminClient, user, organizationId);
+    const accountUserId = access?.ownerUserId ?? user.id;
+    const scope = access
+      ? { column: "organization_id", value: access.organizationId }
+      : { column: "user_id", value: user.id };
+    // Owners and managers can disconnect any of the organization's devices, others only their own
+    const disconnectScope = access?.role === "owner" || access?.role === "manager" ? scope : { column: "user_id", value: user.id };
+
     // Handle disconnect request - remove a specific session
     if (disconnectSessionId) {
       const { error: deleteError } = await adminClient
         .from("active_sessions")
         .delete()
-        .eq("user_id", user.id)
+        .eq(disconnectScope.column, disconnectScope.value)
         .eq("session_id", disconnectSessionId);
 
       if (deleteError) {
@@ -113,6 +158,7 @@ serve(async (req) => {
             .from("active_sessions")
             .insert({
               user_id: user.id,
+              organization_id: access?.organizationId,
               session_id: sessionId,
               device_info: deviceInfo,
             });
@@ -144,7 +190,7 @@ serve(async (req) => {
       const { data: subData } = await adminClient
         .from("subscriptions")
         .select("device_slots")
-        .eq("user_id", user.id)
+        .eq("user_id", accountUserId)
         .maybeSingle();
 
       deviceSlots = subData?.device_slots || 1;
@@ -153,16 +199,30 @@ serve(async (req) => {
     // Check if this session already exists
     const { data: existingSession } = await adminClient
       .from("active_sessions")
-      .select("id, session_id")
+      .select("id, session_id, is_playing, organization_id")
       .eq("user_id", user.id)
       .eq("session_id", sessionId)
       .maybeSingle();
 
-    if (existingSession) {
-      // Session already registered, just update timestamp
+    // A device switching organizations is registered again under the new one, against its device slots
+    const movesOrganization = !!existingSession && !!access && !heartbeat &&
+      existingSession.organization_id !== access.organizationId;
+
+    if (existingSession && movesOrganization) {
+      await adminClient
+        .from("active_sessions")
+        .delete()
+        .eq("id", existingSession.id);
+      console.log(`Moving session ${sessionId} to organization ${access?.organizationId}`);
+    } else if (existingSession) {
+      // Session already registered, just update timestamp and playback heartbeat
       await adminClient
         .from("active_sessions")
-        .update({ device_info: deviceInfo, updated_at: new Date().toISOString() })
+        .update({
+          device_info: deviceInfo,
+          updated_at: new Date().toISOString(),
+          ...getPlaybackColumns(playback, existingSession.is_playing),
+        })
         .eq("id", existingSession.id);
 
       return new Response(JSON.stringify({ success: true, message: "Session updated", isRegistered: true }), {
@@ -170,6 +230,13 @@ serve(async (req) => {
       });
     }
 
+    // Heartbeats only refresh existing sessions - a disconnected device must not re-register itself
+    if (heartbeat) {
+      return new Response(JSON.stringify({ success: false, isRegistered: false, message: "Session not registered" }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
+
     // DEVICE FINGERPRINT CONSOLIDATION:
     // If a fingerprint is provided, check if another session from the same device exists.
     // This handles the case where the same physical device is using different browsers.
@@ -196,7 +263,8 @@ serve(async (req) => {
           .update({ 
             session_id: sessionId, // Update to new session ID
             device_info: deviceInfo, 
-            updated_at: new Date().toISOString() 
+            updated_at: new Date().toISOString(),
+            ...getPlaybackColumns(playback),
           })
           .eq("id", existingDeviceSession.id);
 
@@ -222,7 +290,7 @@ serve(async (req) => {
     const { data: staleRemoved } = await adminClient
       .from("active_sessions")
       .delete()
-      .eq("user_id", user.id)
+      .eq(scope.column, scope.value)
       .lt("updated_at", staleCutoffIso)
       .select("session_id");
     
@@ -230,11 +298,11 @@ serve(async (req) => {
       console.log(`Cleaned up ${staleRemoved.length} stale session(s) for user ${user.id}`);
     }
 
-    // Get all current sessions for this user (after cleanup)
+    // Get all current sessions for this account (after cleanup)
     const { data: allSessions, error: countError } = await adminClient
       .from("active_sessions")
-      .select("id, created_at, session_id, device_info, updated_at")
-      .eq("user_id", user.id)
+      .select("id, user_id, created_at, session_id, device_info, updated_at")
+      .eq(scope.column, scope.value)
       .order("created_at", { ascending: true });
 
     if (countError) {
@@ -246,12 +314,21 @@ serve(async (req) => {
     }
 
     const currentCount = allSessions?.length || 0;
+    // Making room never signs out devices the caller couldn't disconnect by hand
+    const evictableSessions = (allSessions || []).filter(s => disconnectScope === scope || s.user_id === user.id);
+    // Listed so the user can choose which device to disconnect
+    const activeDevices = allSessions?.map(s => ({
+      sessionId: s.session_id,
+      deviceInfo: s.device_info,
+      createdAt: s.created_at,
+      updatedAt: s.updated_at,
+    })) || [];
 
     // If at or over the limit
     if (!isAdmin && currentCount >= deviceSlots) {
       // For single-slot subscriptions (no additional devices), auto-disconnect the oldest
       if (deviceSlots === 1 && !forceRegister) {
-        const oldestSession = allSessions?.[0];
+        const oldestSession = evictableSessions[0];
         if (oldestSession) {
           await adminClient
             .from("active_sessions")
@@ -264,8 +341,10 @@ serve(async (req) => {
             .from("active_sessions")
             .insert({
               user_id: user.id,
+              organization_id: access?.organizationId,
               session_id: sessionId,
               device_info: deviceInfo,
+              ...getPlaybackColumns(playback),
             });
 
           if (insertError) {
@@ -291,14 +370,6 @@ serve(async (req) => {
       // For multi-slot subscriptions, show the dialog
       if (!forceRegister) {
         console.log(`Device limit reached for user ${user.id}: ${currentCount}/${deviceSlots} devices`);
-        
-        // Return list of active devices so user can choose which to disconnect
-        const activeDevices = allSessions?.map(s => ({
-          sessionId: s.session_id,
-          deviceInfo: s.device_info,
-          createdAt: s.created_at,
-          updatedAt: s.updated_at,
-        })) || [];
 
         return new Response(JSON.stringify({ 
           success: false, 
@@ -317,7 +388,21 @@ serve(async (req) => {
     // If forceRegister is true and at limit, remove oldest session (user explicitly chose this)
     if (!isAdmin && currentCount >= deviceSlots && forceRegister) {
       const sessionsToRemove = currentCount - deviceSlots + 1;
-      const oldestSessions = allSessions?.slice(0, sessionsToRemove) || [];
+      if (evictableSessions.length < sessionsToRemove) {
+        console.log(`Device limit reached for user ${user.id}, not enough own sessions to replace`);
+        return new Response(JSON.stringify({
+          success: false,
+          limitReached: true,
+          deviceSlots,
+          currentDevices: currentCount,
+          activeDevices,
+          message: "Device limit reached. Ask the organization's owner or a manager to disconnect a device.",
+        }), {
+          status: 200,
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+      const oldestSessions = evictableSessions.slice(0, sessionsToRemove);
 
       for (const oldSession of oldestSessions) {
         await adminClient
@@ -333,8 +418,10 @@ serve(async (req) => {
       .from("active_sessions")
       .insert({
         user_id: user.id,
+        organization_id: access?.organizationId,
         session_id: sessionId,
         device_info: deviceInfo,
+        ...getPlaybackColumns(playback),
       });
 
     if (insertError) {
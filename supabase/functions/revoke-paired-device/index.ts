@@ -0,0 +1,77 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { getOrganizationAccess } from "../_shared/organizations.ts";
+
+// Unpair a device, or cancel a code nobody used yet (owners and managers). Deleting the device's login
+// ends its session: its device slot frees up and the app signs out at its next session check.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[REVOKE-PAIRED-DEVICE] ${step}`, details ? JSON.stringify(details) : '');
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return jsonResponse({ error: "No authorization header" }, 401);
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (userError || !userData.user) return jsonResponse({ error: "User not authenticated" }, 401);
+    const user = userData.user;
+
+    const { deviceId } = await req.json();
+    if (!deviceId) return jsonResponse({ error: "Missing deviceId" }, 400);
+
+    const { data: device, error: deviceError } = await supabaseAdmin
+      .from("paired_devices")
+      .select("id, organization_id, user_id")
+      .eq("id", deviceId)
+      .maybeSingle();
+
+    if (deviceError) throw new Error(`Failed to fetch device: ${deviceError.message}`);
+    if (!device) return jsonResponse({ error: "Device not found" }, 404);
+
+    const access = await getOrganizationAccess(supabaseAdmin, user.id, device.organization_id);
+    if (access?.role !== "owner" && access?.role !== "manager") {
+      return jsonResponse({ error: "Only owners and managers can revoke devices" }, 403);
+    }
+
+    if (device.user_id) {
+      // active_sessions has no foreign key to auth.users, so clear the device's session first
+      await supabaseAdmin.from("active_sessions").delete().eq("user_id", device.user_id);
+
+      const { error: deleteUserError } = await supabaseAdmin.auth.admin.deleteUser(device.user_id);
+      if (deleteUserError) throw new Error(`Failed to delete device login: ${deleteUserError.message}`);
+    }
+
+    const { error: deleteError } = await supabaseAdmin.from("paired_devices").delete().eq("id", device.id);
+    if (deleteError) throw new Error(`Failed to delete device: ${deleteError.message}`);
+
+    logStep("Device revoked", { deviceId: device.id, organizationId: device.organization_id, wasPaired: !!device.user_id });
+    return jsonResponse({ success: true });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
@@ -1,6 +1,12 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import {
+  loadBillingProfile,
+  revalidateBillingProfile,
+  sendInvoiceCopy,
+  syncBillingProfileToStripe,
+} from "../_shared/billingProfile.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -123,6 +129,13 @@ serve(async (req) => {
           continue;
         }
 
+        // VAT registrations lapse, so check the VAT ID again before deciding on reverse charge
+        let billingProfile = await loadBillingProfile(supabaseAdmin, sub.user_id);
+        if (billingProfile) {
+          billingProfile = await revalidateBillingProfile(supabaseAdmin, billingProfile);
+          await syncBillingProfileToStripe(stripe, sub.stripe_customer_id, billingProfile);
+        }
+
         // Create renewal invoice
         const invoice = await stripe.invoices.create({
           customer: sub.stripe_customer_id,
@@ -151,6 +164,7 @@ serve(async (req) => {
             plan_type: "yearly",
             renewal: "true",
             previous_period_end: sub.current_period_end,
+            tax_treatment: billingProfile?.tax_treatment ?? "standard",
           },
         });
 
@@ -164,10 +178,11 @@ serve(async (req) => {
         });
 
         // Finalize and send
-        await stripe.invoices.finalizeInvoice(invoice.id);
+        const finalizedInvoice = await stripe.invoices.finalizeInvoice(invoice.id);
         await stripe.invoices.sendInvoice(invoice.id);
 
         logStep("Sent renewal invoice", { invoiceId: invoice.id, email: userEmail });
+        await sendInvoiceCopy(supabaseAdmin, billingProfile, userEmail, finalizedInvoice);
 
         processed++;
       } catch (err) {
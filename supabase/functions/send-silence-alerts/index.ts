@@ -0,0 +1,261 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { Resend } from "https://esm.sh/resend@2.0.0";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { SilentDevice, getEmailLanguage, renderSilenceAlertEmail } from "../_shared/emailTemplates.ts";
+import {
+  ScheduleEntry,
+  ScheduleException,
+  addDaysToDateKey,
+  filterByLocation,
+  getMomentInTimeZone,
+  playsMusic,
+  resolveSchedule,
+  toDateKey,
+  withDefaultTimeZone,
+} from "../_shared/scheduleResolver.ts";
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[SILENCE-ALERTS] ${step}`, details ? JSON.stringify(details) : '');
+};
+
+// Keep in sync with src/lib/deviceInfo.ts
+const SESSION_HEARTBEAT_INTERVAL_MS = 5 * 60 * 1000;
+const SILENT_THRESHOLD_MINUTES = 15;
+
+interface SilentSession {
+  id: string;
+  user_id: string;
+  organization_id: string | null;
+  location_id: string | null;
+  is_playing: boolean;
+  last_playing_at: string | null;
+  last_error: string | null;
+  scheduler_enabled: boolean;
+  silence_alerted_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface AlertProfile {
+  user_id: string;
+  email: string | null;
+  full_name: string | null;
+  silence_alert_quiet_start: string | null;
+  silence_alert_quiet_end: string | null;
+  silence_alert_timezone: string | null;
+}
+
+/**
+ * Minutes since a device last played music, or 0 while it is playing.
+ * A device whose heartbeat has stopped counts as silent even if it last reported playing.
+ */
+const getSilentMinutes = (session: SilentSession, now: number): number => {
+  const heartbeatAge = now - new Date(session.updated_at).getTime();
+  if (session.is_playing && heartbeatAge < SESSION_HEARTBEAT_INTERVAL_MS * 2) return 0;
+
+  const lastPlayed = new Date(session.last_playing_at ?? session.created_at).getTime();
+  return Math.max(0, Math.floor((now - lastPlayed) / 60000));
+};
+
+// Only alert once per silence: a new alert needs the device to have played since the last one
+const wasAlreadyAlerted = (session: SilentSession): boolean => {
+  if (!session.silence_alerted_at) return false;
+  if (!session.last_playing_at) return true;
+  return new Date(session.silence_alerted_at) > new Date(session.last_playing_at);
+};
+
+const isInQuietHours = (profile: AlertProfile, now: Date): boolean => {
+  if (!profile.silence_alert_quiet_start || !profile.silence_alert_quiet_end) return false;
+
+  const time = getMomentInTimeZone(now, profile.silence_alert_timezone).time;
+  const start = profile.silence_alert_quiet_start.slice(0, 5);
+  const end = profile.silence_alert_quiet_end.slice(0, 5);
+
+  // Overnight quiet hours, e.g. 22:00-07:00
+  if (start > end) return time >= start || time < end;
+  return time >= start && time < end;
+};
+
+async function sendSilenceAlertEmail(
+  supabase: SupabaseClient,
+  resend: Resend,
+  profile: AlertProfile,
+  devices: SilentDevice[]
+) {
+  const language = await getEmailLanguage(supabase, { userId: profile.user_id, email: profile.email });
+  const { subject, html } = renderSilenceAlertEmail(language, { customerName: profile.full_name, devices });
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: "Ambian <noreply@ambianmusic.com>",
+      to: [profile.email!],
+      subject,
+      html,
+    });
+
+    if (error) {
+      logStep("Error sending silence alert", { error, email: profile.email });
+      return false;
+    }
+
+    logStep("Silence alert sent", { emailId: data?.id, to: profile.email, devices: devices.length });
+    return true;
+  } catch (error) {
+    logStep("Failed to send silence alert", { error: String(error), email: profile.email });
+    return false;
+  }
+}
+
+serve(async () => {
+  try {
+    logStep("Function started - checking for silent devices");
+
+    const resendKey = Deno.env.get("RESEND_API_KEY");
+    if (!resendKey) throw new Error("RESEND_API_KEY is not set");
+    const resend = new Resend(resendKey);
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    // Only accounts that opted in; which of their devices follow schedules is checked per session below
+    const { data: profiles, error: profileError } = await supabaseAdmin
+      .from('profiles')
+      .select('user_id, email, full_name, silence_alert_quiet_start, silence_alert_quiet_end, silence_alert_timezone')
+      .eq('silence_alerts_enabled', true);
+
+    if (profileError) {
+      throw new Error(`Failed to fetch profiles: ${profileError.message}`);
+    }
+
+    const now = new Date();
+    const activeProfiles = (profiles || []).filter((p: AlertProfile) => p.email && !isInQuietHours(p, now));
+
+    logStep("Found opted-in accounts", { total: profiles?.length || 0, outsideQuietHours: activeProfiles.length });
+
+    if (activeProfiles.length === 0) {
+      return new Response(JSON.stringify({ success: true, alertsSent: 0 }), {
+        headers: { "Content-Type": "application/json" },
+        status: 200,
+      });
+    }
+
+    const userIds = activeProfiles.map((p: AlertProfile) => p.user_id);
+    const today = toDateKey(now);
+
+    // Devices signed in by organization members and paired devices belong to the owner's organization
+    const { data: organizations, error: organizationsError } = await supabaseAdmin
+      .from('organizations')
+      .select('id, owner_user_id')
+      .in('owner_user_id', userIds);
+
+    if (organizationsError) throw new Error(`Failed to fetch organizations: ${organizationsError.message}`);
+
+    const organizationIds = (organizations || []).map((o) => o.id);
+    const sessionsQuery = supabaseAdmin
+      .from('active_sessions')
+      .select('id, user_id, organization_id, location_id, is_playing, last_playing_at, last_error, scheduler_enabled, silence_alerted_at, created_at, updated_at')
+      // The scheduler is switched on per device; devices that don't follow schedules aren't expected to play
+      .eq('scheduler_enabled', true);
+
+    const [sessionsResult, schedulesResult, exceptionsResult, locationsResult] = await Promise.all([
+      organizationIds.length > 0
+        ? sessionsQuery.or(`user_id.in.(${userIds.join(',')}),organization_id.in.(${organizationIds.join(',')})`)
+        : sessionsQuery.in('user_id', userIds),
+      supabaseAdmin
+        .from('playlist_schedules')
+        .select('id, user_id, playlist_id, blend_id, name, days_of_week, start_time, end_time, is_active, priority, valid_from, valid_until, skip_dates, timezone, location_id')
+        .in('user_id', userIds)
+        .eq('is_active', true),
+      // Timezones can put "now" on yesterday's or tomorrow's date
+      supabaseAdmin
+        .from('schedule_exceptions')
+        .select('id, user_id, name, exception_date, playlist_id, blend_id, start_time, end_time, timezone, location_id')
+        .in('user_id', userIds)
+        .gte('exception_date', addDaysToDateKey(today, -2))
+        .lte('exception_date', addDaysToDateKey(today, 1)),
+      supabaseAdmin
+        .from('locations')
+        .select('id, user_id, name, timezone')
+        .in('user_id', userIds),
+    ]);
+
+    if (sessionsResult.error) throw new Error(`Failed to fetch sessions: ${sessionsResult.error.message}`);
+    if (schedulesResult.error) throw new Error(`Failed to fetch schedules: ${schedulesResult.error.message}`);
+    if (exceptionsResult.error) throw new Error(`Failed to fetch exceptions: ${exceptionsResult.error.message}`);
+    if (locationsResult.error) throw new Error(`Failed to fetch zones: ${locationsResult.error.message}`);
+
+    // Music must have been due for the whole silent period, not just since a schedule started a minute ago
+    const graceStart = new Date(now.getTime() - SILENT_THRESHOLD_MINUTES * 60000);
+    const shouldBePlaying = (schedules: ScheduleEntry[], exceptions: ScheduleException[]) =>
+      playsMusic(resolveSchedule(schedules, exceptions, now)) &&
+      playsMusic(resolveSchedule(schedules, exceptions, graceStart));
+
+    let alertsSent = 0;
+    let errors = 0;
+
+    for (const profile of activeProfiles as AlertProfile[]) {
+      const organizationId = organizations?.find((o) => o.owner_user_id === profile.user_id)?.id;
+      // Sessions registered before organizations existed have no organization_id
+      const sessions = (sessionsResult.data || []).filter((s: SilentSession) =>
+        s.organization_id ? s.organization_id === organizationId : s.user_id === profile.user_id
+      );
+      const zones = (locationsResult.data || []).filter((l) => l.user_id === profile.user_id);
+      const schedules = (schedulesResult.data || []).filter((s) => s.user_id === profile.user_id) as ScheduleEntry[];
+      const exceptions = (exceptionsResult.data || []).filter((e) => e.user_id === profile.user_id) as ScheduleException[];
+
+      const silentSessions = sessions.filter((session: SilentSession) => {
+        // Entries saved without a timezone follow the zone's clock, then the account's, rather than UTC
+        const timeZone = zones.find((l) => l.id === session.location_id)?.timezone ?? profile.silence_alert_timezone;
+        return getSilentMinutes(session, now.getTime()) >= SILENT_THRESHOLD_MINUTES &&
+          !wasAlreadyAlerted(session) &&
+          shouldBePlaying(
+            withDefaultTimeZone(filterByLocation(schedules, session.location_id), timeZone),
+            withDefaultTimeZone(filterByLocation(exceptions, session.location_id), timeZone)
+          );
+      });
+
+      if (silentSessions.length === 0) continue;
+
+      logStep("Silent devices found", { userId: profile.user_id, count: silentSessions.length });
+
+      const devices = silentSessions.map((session: SilentSession): SilentDevice => ({
+        zoneName: zones.find((l) => l.id === session.location_id)?.name ?? null,
+        silentMinutes: getSilentMinutes(session, now.getTime()),
+        lastError: session.last_error,
+      }));
+
+      const success = await sendSilenceAlertEmail(supabaseAdmin, resend, profile, devices);
+      if (!success) {
+        errors++;
+        continue;
+      }
+
+      alertsSent++;
+      const { error: updateError } = await supabaseAdmin
+        .from('active_sessions')
+        .update({ silence_alerted_at: now.toISOString() })
+        .in('id', silentSessions.map((s: SilentSession) => s.id));
+
+      if (updateError) {
+        logStep("Failed to record alert", { userId: profile.user_id, error: updateError.message });
+      }
+    }
+
+    logStep("Completed", { alertsSent, errors });
+
+    return new Response(JSON.stringify({ success: true, alertsSent, errors }), {
+      headers: { "Content-Type": "application/json" },
+      status: 200,
+    });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return new Response(JSON.stringify({ error: errorMessage }), {
+      headers: { "Content-Type": "application/json" },
+      status: 500,
+    });
+  }
+});
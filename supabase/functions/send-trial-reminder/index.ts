@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { Resend } from "https://esm.sh/resend@2.0.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { renderTrialReminderEmail, resolveEmailLanguage } from "../_shared/emailTemplates.ts";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
 
@@ -81,7 +82,7 @@ serve(async (req) => {
     const userIds = expiringSubscriptions.map(s => s.user_id);
     const { data: profiles, error: profileError } = await supabaseAdmin
       .from('profiles')
-      .select('user_id, email, full_name')
+      .select('user_id, email, full_name, language')
       .in('user_id', userIds);
 
     if (profileError) {
@@ -101,113 +102,18 @@ serve(async (req) => {
         continue;
       }
 
-      const expiryDate = new Date(subscription.current_period_end!);
-      const formattedDate = expiryDate.toLocaleDateString('en-US', { 
-        weekday: 'long', 
-        year: 'numeric', 
-        month: 'long', 
-        day: 'numeric' 
+      const { subject, html } = renderTrialReminderEmail(resolveEmailLanguage(profile.language), {
+        customerName: profile.full_name,
+        expiresAt: new Date(subscription.current_period_end!),
+        daysLeft: reminderDays,
       });
 
       try {
         const { error: emailError } = await resend.emails.send({
           from: "Ambian <noreply@ambianmusic.com>",
           to: [profile.email],
-          subject: `Your Ambian trial expires in ${reminderDays} days`,
-          html: `
-            <!DOCTYPE html>
-            <html>
-            <head>
-              <meta charset="utf-8">
-              <meta name="viewport" content="width=device-width, initial-scale=1.0">
-            </head>
-            <body style="margin: 0; padding: 0; background-color: #0a0a0a; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
-              <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #0a0a0a; padding: 40px 20px;">
-                <tr>
-                  <td align="center">
-                    <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%); border-radius: 16px; overflow: hidden;">
-                      <!-- Header -->
-                      <tr>
-                        <td style="padding: 40px 40px 20px; text-align: center;">
-                          <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-                          <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                            ⏰ Your Trial is Ending Soon
-                          </h1>
-                        </td>
-                      </tr>
-                      
-                      <!-- Content -->
-                      <tr>
-                        <td style="padding: 20px 40px;">
-                          <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                            Hi${profile.full_name ? ` ${profile.full_name}` : ''},
-                          </p>
-                          <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                            Just a friendly reminder that your Ambian free trial will expire on <strong style="color: #ffffff;">${formattedDate}</strong>.
-                          </p>
-                          <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 30px;">
-                            To continue enjoying unlimited access to our curated music library for your business, please subscribe before your trial ends.
-                          </p>
-                          
-                          <!-- CTA Button -->
-                          <table width="100%" cellpadding="0" cellspacing="0">
-                            <tr>
-                              <td align="center" style="padding: 10px 0 30px;">
-                                <a href="https://ambian.app/pricing" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                                  View Plans & Subscribe
-                                </a>
-                              </td>
-                            </tr>
-                          </table>
-                          
-                          <!-- Benefits reminder -->
-                          <div style="background: rgba(255,255,255,0.05); border-radius: 12px; padding: 24px; margin-bottom: 20px;">
-                            <h3 style="color: #ffffff; font-size: 16px; margin: 0 0 16px;">What you'll keep with a subscription:</h3>
-                            <table width="100%" cellpadding="0" cellspacing="0">
-                              <tr>
-                                <td style="padding: 8px 0;">
-                                  <span style="color: #10b981; font-size: 16px;">✓</span>
-                                  <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">Unlimited access to all playlists</span>
-                                </td>
-                              </tr>
-                              <tr>
-                                <td style="padding: 8px 0;">
-                                  <span style="color: #10b981; font-size: 16px;">✓</span>
-                                  <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">Commercial licensing for your business</span>
-                                </td>
-                              </tr>
-                              <tr>
-                                <td style="padding: 8px 0;">
-                                  <span style="color: #10b981; font-size: 16px;">✓</span>
-                                  <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">Schedule playlists for different times</span>
-                                </td>
-                              </tr>
-                              <tr>
-                                <td style="padding: 8px 0;">
-                                  <span style="color: #10b981; font-size: 16px;">✓</span>
-                                  <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">Priority support</span>
-                                </td>
-                              </tr>
-                            </table>
-                          </div>
-                        </td>
-                      </tr>
-                      
-                      <!-- Footer -->
-                      <tr>
-                        <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-                          <p style="color: #888888; font-size: 14px; margin: 0;">
-                            Questions? Just reply to this email or visit our <a href="https://ambian.lovable.app/help" style="color: #8b5cf6; text-decoration: none;">Help Center</a>.
-                          </p>
-                        </td>
-                      </tr>
-                    </table>
-                  </td>
-                </tr>
-              </table>
-            </body>
-            </html>
-          `,
+          subject,
+          html,
         });
 
         if (emailError) {
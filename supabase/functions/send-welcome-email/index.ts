@@ -1,5 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { Resend } from "https://esm.sh/resend@4.0.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { getEmailLanguage, renderWelcomeEmail } from "../_shared/emailTemplates.ts";
 
 const resend = new Resend(Deno.env.get("RESEND_API_KEY") as string);
 
@@ -25,134 +27,6 @@ interface WelcomeEmailRequest {
   name?: string;
 }
 
-const generateWelcomeEmailHtml = (email: string, name?: string) => {
-  const displayName = name || email.split('@')[0];
-  
-  return `
-<!DOCTYPE html>
-<html>
-<head>
-  <meta charset="utf-8">
-  <meta name="viewport" content="width=device-width, initial-scale=1.0">
-  <meta name="color-scheme" content="dark">
-  <meta name="supported-color-schemes" content="dark">
-  <style>
-    :root { color-scheme: dark; }
-    @media (prefers-color-scheme: dark) {
-      body, .body-bg { background-color: #1a1a2e !important; }
-    }
-  </style>
-</head>
-<body class="body-bg" style="margin: 0; padding: 0; background-color: #1a1a2e; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;" bgcolor="#1a1a2e">
-  <table role="presentation" width="100%" height="100%" cellpadding="0" cellspacing="0" border="0" bgcolor="#1a1a2e" style="background-color: #1a1a2e; min-height: 100vh;">
-    <tr>
-      <td align="center" valign="top" style="padding: 40px 20px; background-color: #1a1a2e;" bgcolor="#1a1a2e">
-        <table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="max-width: 600px; width: 100%; background-color: #16213e; border-radius: 16px;" bgcolor="#16213e">
-          <!-- Header -->
-          <tr>
-            <td style="padding: 40px 40px 20px; text-align: center;">
-              <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="140" style="display: block; margin: 0 auto 20px;" />
-              <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                🎉 Welcome to Ambian!
-              </h1>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 20px 40px;">
-              <p style="color: #a78bfa; font-size: 18px; line-height: 1.6; margin: 0 0 8px; text-align: center;">
-                Hi ${displayName}! 👋
-              </p>
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 24px; text-align: center;">
-                Thank you for joining Ambian! You now have access to premium, license-free background music for your business. Your 3-day free trial has started.
-              </p>
-              
-              <!-- Features Box -->
-              <div style="background: rgba(255,255,255,0.05); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(255,255,255,0.1);">
-                <h3 style="color: #ffffff; font-size: 16px; margin: 0 0 16px; text-align: center;">
-                  Here's what you can do:
-                </h3>
-                <table width="100%" cellpadding="0" cellspacing="0">
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #10b981; font-size: 16px;">✓</span>
-                      <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">Browse 50+ curated playlists across moods and genres</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #10b981; font-size: 16px;">✓</span>
-                      <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">Schedule music to play automatically throughout the day</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #10b981; font-size: 16px;">✓</span>
-                      <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">Use on any device - web, mobile, or tablet</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #10b981; font-size: 16px;">✓</span>
-                      <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">All music is fully licensed for commercial use</span>
-                    </td>
-                  </tr>
-                </table>
-              </div>
-              
-              <!-- CTA Button -->
-              <table width="100%" cellpadding="0" cellspacing="0">
-                <tr>
-                  <td align="center" style="padding: 20px 0 30px;">
-                    <a href="https://ambianmusic.com" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                      Start Listening
-                    </a>
-                  </td>
-                </tr>
-              </table>
-              
-              <!-- Trial reminder -->
-              <div style="background: rgba(139, 92, 246, 0.15); border-radius: 12px; padding: 20px; text-align: center; border: 1px solid rgba(139, 92, 246, 0.3);">
-                <p style="color: #ffffff; font-size: 14px; font-weight: 600; margin: 0 0 4px;">
-                  🎁 Your 3-day free trial is active
-                </p>
-                <p style="color: #a1a1aa; font-size: 13px; margin: 0;">
-                  No credit card required. Explore everything Ambian has to offer!
-                </p>
-              </div>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #888888; font-size: 13px; margin: 0 0 10px;">
-                Questions? Just reply to this email or visit our 
-                <a href="https://ambianmusic.com/help" style="color: #8b5cf6; text-decoration: none;">Help Center</a>
-              </p>
-              <p style="color: #666666; font-size: 12px; margin: 0;">
-                © ${new Date().getFullYear()} Ambian. Premium background music for businesses.
-              </p>
-            </td>
-          </tr>
-        </table>
-        <!-- Spacer to extend dark background -->
-        <table role="presentation" width="600" cellpadding="0" cellspacing="0" border="0" style="max-width: 600px; width: 100%;">
-          <tr>
-            <td style="padding: 20px; text-align: center;" bgcolor="#1a1a2e">
-              <a href="https://ambianmusic.com" style="color: #8b5cf6; font-size: 12px; text-decoration: none;">ambianmusic.com</a>
-            </td>
-          </tr>
-        </table>
-      </td>
-    </tr>
-  </table>
-</body>
-</html>
-`;
-};
-
 const generateAdminNotificationHtml = (email: string, name?: string) => {
   const displayName = name || email.split('@')[0];
   const signupDate = new Date().toLocaleString('en-US', { 
@@ -273,14 +147,20 @@ serve(async (req) => {
 
     console.log("Sending welcome email to:", email);
 
-    const welcomeHtml = generateWelcomeEmailHtml(email, name);
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+    const language = await getEmailLanguage(supabaseAdmin, { email });
+    const { subject, html } = renderWelcomeEmail(language, { email, name });
 
     // Send the welcome email to the user
     const { data: emailData, error: emailError } = await resend.emails.send({
       from: "Ambian <noreply@ambianmusic.com>",
       to: [email],
-      subject: "Welcome to Ambian! 🎵 Your free trial has started",
-      html: welcomeHtml,
+      subject,
+      html,
     });
 
     if (emailError) {
@@ -1,14 +1,29 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
-import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { createClient, SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
 import { Resend } from "https://esm.sh/resend@2.0.0";
+import {
+  RenderedEmail,
+  getEmailLanguage,
+  renderAccessSuspendedEmail,
+  renderCancellationConfirmationEmail,
+  renderDeviceSlotAutoCanceledEmail,
+  renderDeviceSlotConfirmationEmail,
+  renderDeviceSlotUnpaidCancellationEmail,
+  renderPaymentConfirmationEmail,
+  renderPaymentFailedEmail,
+  renderPlanChangeEmail,
+  renderSubscriptionConfirmationEmail,
+  renderSubscriptionEndedEmail,
+  renderUpcomingPaymentEmail,
+} from "../_shared/emailTemplates.ts";
 
 const logStep = (step: string, details?: any) => {
   const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
   console.log(`[STRIPE-WEBHOOK] ${step}${detailsStr}`);
 };
 
-// Email wrapper with proper dark mode support for all email clients
+// Email wrapper for the owner notifications (customer emails use the shared templates)
 const emailWrapper = (content: string) => `
 <!DOCTYPE html>
 <html>
@@ -42,27 +57,194 @@ const emailWrapper = (content: string) => `
 </html>
 `;
 
+// Customer emails are rendered in the customer's language (profiles.language); a failed send is logged, not thrown
+async function sendCustomerEmail(email: string, { subject, html }: RenderedEmail, description: string) {
+  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+
+  try {
+    const { data, error } = await resend.emails.send({
+      from: "Ambian <noreply@ambianmusic.com>",
+      to: [email],
+      subject,
+      html,
+    });
+
+    if (error) {
+      logStep(`Error sending ${description}`, { error });
+      return false;
+    }
+
+    logStep(`${description.charAt(0).toUpperCase()}${description.slice(1)} sent`, { emailId: data?.id, to: email });
+    return true;
+  } catch (error) {
+    logStep(`Failed to send ${description}`, { error: String(error) });
+    return false;
+  }
+}
+
 async function sendUpcomingPaymentEmail(
+  supabase: SupabaseClient,
   email: string,
   customerName: string | null,
   amount: number,
   currency: string,
   dueDate: Date,
-  planType: string
+  planType: string,
+  userId?: string | null
+) {
+  const language = await getEmailLanguage(supabase, { userId, email });
+  return await sendCustomerEmail(
+    email,
+    renderUpcomingPaymentEmail(language, { customerName, amount, currency, dueDate, planType }),
+    "upcoming payment email"
+  );
+}
+
+async function sendPaymentFailedEmail(
+  supabase: SupabaseClient,
+  email: string,
+  customerName: string | null,
+  amount: number,
+  currency: string,
+  planType: string,
+  userId?: string | null
+) {
+  const language = await getEmailLanguage(supabase, { userId, email });
+  return await sendCustomerEmail(
+    email,
+    renderPaymentFailedEmail(language, { customerName, amount, currency, planType }),
+    "payment failed email"
+  );
+}
+
+async function sendSubscriptionConfirmationEmail(
+  supabase: SupabaseClient,
+  email: string,
+  customerName: string | null,
+  planType: string,
+  periodEnd: Date,
+  userId?: string | null
+) {
+  const language = await getEmailLanguage(supabase, { userId, email });
+  return await sendCustomerEmail(
+    email,
+    renderSubscriptionConfirmationEmail(language, { customerName, planType, periodEnd }),
+    "subscription confirmation email"
+  );
+}
+
+async function sendPaymentConfirmationEmail(
+  supabase: SupabaseClient,
+  email: string,
+  customerName: string | null,
+  amount: number,
+  currency: string,
+  planType: string,
+  periodEnd: Date,
+  invoiceNumber: string | null,
+  userId?: string | null
+) {
+  const language = await getEmailLanguage(supabase, { userId, email });
+  return await sendCustomerEmail(
+    email,
+    renderPaymentConfirmationEmail(language, { customerName, amount, currency, planType, periodEnd, invoiceNumber }),
+    "payment confirmation email"
+  );
+}
+
+async function sendDeviceSlotConfirmationEmail(
+  supabase: SupabaseClient,
+  email: string,
+  customerName: string | null,
+  quantity: number,
+  period: string,
+  amount: number,
+  currency: string,
+  userId?: string | null
+) {
+  const language = await getEmailLanguage(supabase, { userId, email });
+  return await sendCustomerEmail(
+    email,
+    renderDeviceSlotConfirmationEmail(language, { customerName, quantity, period, amount, currency }),
+    "device slot confirmation email"
+  );
+}
+
+// Email sent when user initiates cancellation (still has access until period end)
+async function sendCancellationConfirmationEmail(
+  supabase: SupabaseClient,
+  email: string,
+  customerName: string | null,
+  planType: string,
+  accessUntil: Date,
+  userId?: string | null
+) {
+  const language = await getEmailLanguage(supabase, { userId, email });
+  return await sendCustomerEmail(
+    email,
+    renderCancellationConfirmationEmail(language, { customerName, planType, accessUntil }),
+    "cancellation confirmation email"
+  );
+}
+
+// Email sent when subscription period actually ends (user loses access)
+async function sendSubscriptionEndedEmail(
+  supabase: SupabaseClient,
+  email: string,
+  customerName: string | null,
+  planType: string,
+  userId?: string | null
+) {
+  const language = await getEmailLanguage(supabase, { userId, email });
+  return await sendCustomerEmail(
+    email,
+    renderSubscriptionEndedEmail(language, { customerName, planType }),
+    "subscription ended email"
+  );
+}
+
+// Email sent when access is suspended due to unpaid invoice
+async function sendAccessSuspendedEmail(
+  supabase: SupabaseClient,
+  email: string,
+  customerName: string | null,
+  planType: string,
+  userId?: string | null
+) {
+  const language = await getEmailLanguage(supabase, { userId, email });
+  return await sendCustomerEmail(
+    email,
+    renderAccessSuspendedEmail(language, { customerName, planType }),
+    "access suspended email"
+  );
+}
+
+// Owner notification email when a purchase is made
+async function sendOwnerPurchaseNotificationEmail(
+  customerEmail: string,
+  customerName: string | null,
+  planType: string,
+  amount: number,
+  currency: string,
+  isFirstSubscription: boolean,
+  isDeviceSlot: boolean = false,
+  deviceSlotQuantity: number = 0
 ) {
   const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+  const ownerEmail = "info@ambian.fi";
   
   const formattedAmount = new Intl.NumberFormat('en-US', {
     style: 'currency',
     currency: currency.toUpperCase(),
   }).format(amount / 100);
   
-  const formattedDueDate = dueDate.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
+  const purchaseType = isDeviceSlot 
+    ? `${deviceSlotQuantity} Additional Location(s)` 
+    : (isFirstSubscription ? 'New Subscription' : 'Subscription Renewal');
+  
+  const planDisplay = isDeviceSlot 
+    ? `${planType === 'yearly' ? 'Yearly' : 'Monthly'} Device Slot` 
+    : `${planType === 'yearly' ? 'Yearly' : 'Monthly'} Subscription`;
 
   const html = emailWrapper(`
           <!-- Header -->
@@ -70,7 +252,7 @@ async function sendUpcomingPaymentEmail(
             <td style="padding: 40px 40px 20px; text-align: center;">
               <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
               <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                ⏰ Payment Reminder
+                💰 New Purchase!
               </h1>
             </td>
           </tr>
@@ -79,50 +261,51 @@ async function sendUpcomingPaymentEmail(
           <tr>
             <td style="padding: 20px 40px;">
               <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Hi${customerName ? ` ${customerName}` : ''},
-              </p>
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                This is a friendly reminder that your Ambian subscription renewal is coming up.
+                A customer just made a purchase on Ambian!
               </p>
               
-              <!-- Details Box -->
-              <div style="background: rgba(255,255,255,0.05); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(255,255,255,0.1);">
+              <!-- Purchase Details Box -->
+              <div style="background: rgba(16, 185, 129, 0.1); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(16, 185, 129, 0.3);">
+                <h3 style="color: #10b981; font-size: 16px; margin: 0 0 16px;">✓ ${purchaseType}</h3>
                 <table width="100%" cellpadding="0" cellspacing="0">
                   <tr>
                     <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Plan:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${planType === 'yearly' ? 'Yearly' : 'Monthly'} Subscription</span>
+                      <span style="color: #888888; font-size: 14px;">Customer:</span>
+                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${customerName || 'N/A'}</span>
                     </td>
                   </tr>
                   <tr>
                     <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Amount:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${formattedAmount}</span>
+                      <span style="color: #888888; font-size: 14px;">Email:</span>
+                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${customerEmail}</span>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 8px 0;">
+                      <span style="color: #888888; font-size: 14px;">Plan:</span>
+                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${planDisplay}</span>
                     </td>
                   </tr>
                   <tr>
                     <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Due by:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${formattedDueDate}</span>
+                      <span style="color: #888888; font-size: 14px;">Amount:</span>
+                      <span style="color: #10b981; font-size: 14px; margin-left: 12px; font-weight: 600;">${formattedAmount}</span>
                     </td>
                   </tr>
                 </table>
               </div>
               
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                If you're paying by bank transfer (IBAN), please ensure payment is made before the due date to avoid any interruption to your service.
+              <p style="color: #888888; font-size: 14px; line-height: 1.6; margin: 20px 0 0;">
+                Time: ${new Date().toLocaleString('en-US', { 
+                  weekday: 'long', 
+                  year: 'numeric', 
+                  month: 'long', 
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                  timeZone: 'Europe/Helsinki'
+                })} (Helsinki)
               </p>
-              
-              <!-- CTA Button -->
-              <table width="100%" cellpadding="0" cellspacing="0">
-                <tr>
-                  <td align="center" style="padding: 20px 0 30px;">
-                    <a href="https://ambianmusic.com/profile" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                      View Invoice
-                    </a>
-                  </td>
-                </tr>
-              </table>
             </td>
           </tr>
           
@@ -130,7 +313,7 @@ async function sendUpcomingPaymentEmail(
           <tr>
             <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
               <p style="color: #888888; font-size: 14px; margin: 0;">
-                Questions? Contact us at <a href="mailto:support@ambianmusic.com" style="color: #8b5cf6; text-decoration: none;">support@ambianmusic.com</a>
+                <a href="https://ambian.app/admin" style="color: #8b5cf6; text-decoration: none;">View Admin Dashboard</a>
               </p>
             </td>
           </tr>
@@ -139,37 +322,42 @@ async function sendUpcomingPaymentEmail(
   try {
     const { data, error } = await resend.emails.send({
       from: "Ambian <noreply@ambianmusic.com>",
-      to: [email],
-      subject: `Payment Reminder: Your Ambian subscription renews soon (${formattedAmount})`,
+      to: [ownerEmail],
+      subject: `💰 ${purchaseType}: ${customerEmail} - ${formattedAmount}`,
       html,
     });
 
     if (error) {
-      logStep("Error sending upcoming payment email", { error });
+      logStep("Error sending owner purchase notification email", { error });
       return false;
     }
 
-    logStep("Upcoming payment email sent", { emailId: data?.id, to: email });
+    logStep("Owner purchase notification email sent", { emailId: data?.id, to: ownerEmail, customerEmail });
     return true;
   } catch (error) {
-    logStep("Failed to send upcoming payment email", { error: String(error) });
+    logStep("Failed to send owner purchase notification email", { error: String(error) });
     return false;
   }
 }
 
-async function sendPaymentFailedEmail(
-  email: string,
+// Owner notification email when a subscription is canceled
+async function sendOwnerCancellationNotificationEmail(
+  customerEmail: string,
   customerName: string | null,
-  amount: number,
-  currency: string,
-  planType: string
+  planType: string,
+  isDeviceSlot: boolean = false,
+  deviceSlotQuantity: number = 0
 ) {
   const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+  const ownerEmail = "info@ambian.fi";
   
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency.toUpperCase(),
-  }).format(amount / 100);
+  const cancellationType = isDeviceSlot 
+    ? `${deviceSlotQuantity} Location(s) Canceled` 
+    : 'Subscription Canceled';
+  
+  const planDisplay = isDeviceSlot 
+    ? `${planType === 'yearly' ? 'Yearly' : 'Monthly'} Device Slot` 
+    : `${planType === 'yearly' ? 'Yearly' : 'Monthly'} Subscription`;
 
   const html = emailWrapper(`
           <!-- Header -->
@@ -177,7 +365,7 @@ async function sendPaymentFailedEmail(
             <td style="padding: 40px 40px 20px; text-align: center;">
               <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
               <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                ⚠️ Payment Failed
+                📉 ${cancellationType}
               </h1>
             </td>
           </tr>
@@ -186,41 +374,44 @@ async function sendPaymentFailedEmail(
           <tr>
             <td style="padding: 20px 40px;">
               <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Hi${customerName ? ` ${customerName}` : ''},
-              </p>
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                We were unable to process your payment of <strong style="color: #ffffff;">${formattedAmount}</strong> for your ${planType === 'yearly' ? 'yearly' : 'monthly'} Ambian subscription.
+                A customer has canceled their subscription on Ambian.
               </p>
               
-              <!-- Warning Box -->
+              <!-- Cancellation Details Box -->
               <div style="background: rgba(239, 68, 68, 0.1); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(239, 68, 68, 0.3);">
-                <p style="color: #fca5a5; font-size: 14px; margin: 0;">
-                  <strong>Action required:</strong> Please update your payment method to avoid interruption to your service.
-                </p>
+                <h3 style="color: #fca5a5; font-size: 16px; margin: 0 0 16px;">✗ ${cancellationType}</h3>
+                <table width="100%" cellpadding="0" cellspacing="0">
+                  <tr>
+                    <td style="padding: 8px 0;">
+                      <span style="color: #888888; font-size: 14px;">Customer:</span>
+                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${customerName || 'N/A'}</span>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 8px 0;">
+                      <span style="color: #888888; font-size: 14px;">Email:</span>
+                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${customerEmail}</span>
+                    </td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 8px 0;">
+                      <span style="color: #888888; font-size: 14px;">Plan:</span>
+                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${planDisplay}</span>
+                    </td>
+                  </tr>
+                </table>
               </div>
               
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                This could be due to:
-              </p>
-              <ul style="color: #e0e0e0; font-size: 14px; line-height: 1.8; margin: 0 0 20px; padding-left: 20px;">
-                <li>Insufficient funds</li>
-                <li>Expired card</li>
-                <li>Card declined by your bank</li>
-              </ul>
-              
-              <!-- CTA Button -->
-              <table width="100%" cellpadding="0" cellspacing="0">
-                <tr>
-                  <td align="center" style="padding: 20px 0 30px;">
-                    <a href="https://ambian.app/profile" style="display: inline-block; background: linear-gradient(135deg, #ef4444 0%, #dc2626 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                      Update Payment Method
-                    </a>
-                  </td>
-                </tr>
-              </table>
-              
-              <p style="color: #888888; font-size: 14px; line-height: 1.6; margin: 0;">
-                If you believe this is an error, please contact your bank or reach out to us for assistance.
+              <p style="color: #888888; font-size: 14px; line-height: 1.6; margin: 20px 0 0;">
+                Time: ${new Date().toLocaleString('en-US', { 
+                  weekday: 'long', 
+                  year: 'numeric', 
+                  month: 'long', 
+                  day: 'numeric',
+                  hour: '2-digit',
+                  minute: '2-digit',
+                  timeZone: 'Europe/Helsinki'
+                })} (Helsinki)
               </p>
             </td>
           </tr>
@@ -229,7 +420,7 @@ async function sendPaymentFailedEmail(
           <tr>
             <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
               <p style="color: #888888; font-size: 14px; margin: 0;">
-                Questions? Visit our <a href="https://ambian.app/help" style="color: #8b5cf6; text-decoration: none;">Help Center</a> or reply to this email.
+                <a href="https://ambian.app/admin" style="color: #8b5cf6; text-decoration: none;">View Admin Dashboard</a>
               </p>
             </td>
           </tr>
@@ -238,1038 +429,63 @@ async function sendPaymentFailedEmail(
   try {
     const { data, error } = await resend.emails.send({
       from: "Ambian <noreply@ambianmusic.com>",
-      to: [email],
-      subject: "Action Required: Your Ambian payment failed",
+      to: [ownerEmail],
+      subject: `📉 ${cancellationType}: ${customerEmail}`,
       html,
     });
 
     if (error) {
-      logStep("Error sending payment failed email", { error });
+      logStep("Error sending owner cancellation notification email", { error });
       return false;
     }
 
-    logStep("Payment failed email sent", { emailId: data?.id, to: email });
+    logStep("Owner cancellation notification email sent", { emailId: data?.id, to: ownerEmail, customerEmail });
     return true;
   } catch (error) {
-    logStep("Failed to send payment failed email", { error: String(error) });
+    logStep("Failed to send owner cancellation notification email", { error: String(error) });
     return false;
   }
 }
 
-async function sendSubscriptionConfirmationEmail(
+async function sendPlanChangeEmail(
+  supabase: SupabaseClient,
   email: string,
   customerName: string | null,
-  planType: string,
-  periodEnd: Date
+  oldPlan: string,
+  newPlan: string,
+  amount: number,
+  currency: string,
+  periodEnd: Date,
+  userId?: string | null
 ) {
-  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
+  const language = await getEmailLanguage(supabase, { userId, email });
+  return await sendCustomerEmail(
+    email,
+    renderPlanChangeEmail(language, { customerName, oldPlan, newPlan, amount, currency, periodEnd }),
+    "plan change email"
+  );
+}
+
+async function sendPaymentConfirmationEmailForInvoice(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  invoice: Stripe.Invoice,
+  customerEmail: string,
+  isFirstSubscription: boolean = false,
+  userId: string | null = null
+) {
+  // Get customer name
+  const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
+  let customerName: string | null = null;
   
-  const formattedPeriodEnd = periodEnd.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-
-  const html = emailWrapper(`
-          <!-- Header -->
-          <tr>
-            <td style="padding: 40px 40px 20px; text-align: center;">
-              <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-              <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                🎉 Welcome to Ambian!
-              </h1>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 20px 40px;">
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Hi${customerName ? ` ${customerName}` : ''},
-              </p>
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Thank you for subscribing to Ambian! Your subscription is now active and you have full access to our entire music library.
-              </p>
-              
-              <!-- Subscription Details -->
-              <div style="background: rgba(255,255,255,0.05); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(255,255,255,0.1);">
-                <h3 style="color: #10b981; font-size: 16px; margin: 0 0 16px;">✓ Subscription Active</h3>
-                <table width="100%" cellpadding="0" cellspacing="0">
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Plan:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${planType === 'yearly' ? 'Yearly' : 'Monthly'} Subscription</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Access until:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${formattedPeriodEnd}</span>
-                    </td>
-                  </tr>
-                </table>
-              </div>
-              
-              <!-- CTA Button -->
-              <table width="100%" cellpadding="0" cellspacing="0">
-                <tr>
-                  <td align="center" style="padding: 20px 0 30px;">
-                    <a href="https://ambian.app" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                      Start Listening
-                    </a>
-                  </td>
-                </tr>
-              </table>
-              
-              <!-- What's included -->
-              <div style="background: rgba(255,255,255,0.05); border-radius: 12px; padding: 24px; margin-bottom: 20px;">
-                <h3 style="color: #ffffff; font-size: 16px; margin: 0 0 16px;">What's included:</h3>
-                <table width="100%" cellpadding="0" cellspacing="0">
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #10b981; font-size: 16px;">✓</span>
-                      <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">Unlimited access to all playlists</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #10b981; font-size: 16px;">✓</span>
-                      <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">Commercial licensing for your business</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #10b981; font-size: 16px;">✓</span>
-                      <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">Schedule playlists for different times</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #10b981; font-size: 16px;">✓</span>
-                      <span style="color: #e0e0e0; font-size: 14px; margin-left: 12px;">Priority support</span>
-                    </td>
-                  </tr>
-                </table>
-              </div>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #888888; font-size: 14px; margin: 0 0 10px;">
-                Manage your subscription anytime at <a href="https://ambian.app/profile" style="color: #8b5cf6; text-decoration: none;">ambian.app/profile</a>
-              </p>
-              <p style="color: #888888; font-size: 14px; margin: 0;">
-                Questions? Visit our <a href="https://ambian.app/help" style="color: #8b5cf6; text-decoration: none;">Help Center</a>
-              </p>
-            </td>
-          </tr>
-  `);
-
-  try {
-    const { data, error } = await resend.emails.send({
-      from: "Ambian <noreply@ambianmusic.com>",
-      to: [email],
-      subject: "Welcome to Ambian! Your subscription is now active 🎉",
-      html,
-    });
-
-    if (error) {
-      logStep("Error sending subscription confirmation email", { error });
-      return false;
-    }
-
-    logStep("Subscription confirmation email sent", { emailId: data?.id, to: email });
-    return true;
-  } catch (error) {
-    logStep("Failed to send subscription confirmation email", { error: String(error) });
-    return false;
-  }
-}
-
-async function sendPaymentConfirmationEmail(
-  email: string,
-  customerName: string | null,
-  amount: number,
-  currency: string,
-  planType: string,
-  periodEnd: Date,
-  invoiceNumber: string | null
-) {
-  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
-  
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency.toUpperCase(),
-  }).format(amount / 100);
-  
-  const formattedPeriodEnd = periodEnd.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-
-  const html = emailWrapper(`
-          <!-- Header -->
-          <tr>
-            <td style="padding: 40px 40px 20px; text-align: center;">
-              <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-              <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                ✓ Payment Confirmed
-              </h1>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 20px 40px;">
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Hi${customerName ? ` ${customerName}` : ''},
-              </p>
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Thank you for your payment! Your Ambian subscription is now active.
-              </p>
-              
-              <!-- Details Box -->
-              <div style="background: rgba(16, 185, 129, 0.1); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(16, 185, 129, 0.3);">
-                <h3 style="color: #10b981; font-size: 16px; margin: 0 0 16px;">Payment Details</h3>
-                <table width="100%" cellpadding="0" cellspacing="0">
-                  ${invoiceNumber ? `<tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Invoice:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${invoiceNumber}</span>
-                    </td>
-                  </tr>` : ''}
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Plan:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${planType === 'yearly' ? 'Yearly' : 'Monthly'} Subscription</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Amount paid:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${formattedAmount}</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Access until:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${formattedPeriodEnd}</span>
-                    </td>
-                  </tr>
-                </table>
-              </div>
-              
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                You can start enjoying unlimited background music for your business right away!
-              </p>
-              
-              <!-- CTA Button -->
-              <table width="100%" cellpadding="0" cellspacing="0">
-                <tr>
-                  <td align="center" style="padding: 20px 0 30px;">
-                    <a href="https://ambianmusic.com" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                      Open Ambian
-                    </a>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #888888; font-size: 14px; margin: 0;">
-                Manage your subscription at <a href="https://ambianmusic.com/profile" style="color: #8b5cf6; text-decoration: none;">ambianmusic.com/profile</a>
-              </p>
-            </td>
-          </tr>
-  `);
-
-  try {
-    const { data, error } = await resend.emails.send({
-      from: "Ambian <noreply@ambianmusic.com>",
-      to: [email],
-      subject: `Payment Confirmed - Your Ambian subscription is active`,
-      html,
-    });
-
-    if (error) {
-      logStep("Error sending payment confirmation email", { error });
-      return false;
-    }
-
-    logStep("Payment confirmation email sent", { emailId: data?.id, to: email });
-    return true;
-  } catch (error) {
-    logStep("Failed to send payment confirmation email", { error: String(error) });
-    return false;
-  }
-}
-
-async function sendDeviceSlotConfirmationEmail(
-  email: string,
-  customerName: string | null,
-  quantity: number,
-  period: string,
-  amount: number,
-  currency: string
-) {
-  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
-  
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency.toUpperCase(),
-  }).format(amount / 100);
-  
-  const locationText = quantity === 1 ? "1 new location" : `${quantity} new locations`;
-  const periodText = period === 'yearly' ? 'year' : 'month';
-
-  const html = emailWrapper(`
-          <!-- Header -->
-          <tr>
-            <td style="padding: 40px 40px 20px; text-align: center;">
-              <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-              <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                🏪 Location Added!
-              </h1>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 20px 40px;">
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Hi${customerName ? ` ${customerName}` : ''},
-              </p>
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Great news! You've successfully added ${locationText} to your Ambian subscription.
-              </p>
-              
-              <!-- Details Box -->
-              <div style="background: rgba(255,255,255,0.05); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(255,255,255,0.1);">
-                <h3 style="color: #10b981; font-size: 16px; margin: 0 0 16px;">✓ Location Added</h3>
-                <table width="100%" cellpadding="0" cellspacing="0">
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Locations added:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${quantity}</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Billing:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${formattedAmount}/${periodText}</span>
-                    </td>
-                  </tr>
-                </table>
-              </div>
-              
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                You can now play Ambian on ${quantity} additional device${quantity > 1 ? 's' : ''} at your new location${quantity > 1 ? 's' : ''}.
-              </p>
-              
-              <!-- CTA Button -->
-              <table width="100%" cellpadding="0" cellspacing="0">
-                <tr>
-                  <td align="center" style="padding: 20px 0 30px;">
-                    <a href="https://ambianmusic.com" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                      Start Playing
-                    </a>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #888888; font-size: 14px; margin: 0 0 10px;">
-                Manage your locations at <a href="https://ambianmusic.com/profile" style="color: #8b5cf6; text-decoration: none;">ambianmusic.com/profile</a>
-              </p>
-            </td>
-          </tr>
-  `);
-
-  try {
-    const { data, error } = await resend.emails.send({
-      from: "Ambian <noreply@ambianmusic.com>",
-      to: [email],
-      subject: `Location Added - ${locationText} now active on Ambian`,
-      html,
-    });
-
-    if (error) {
-      logStep("Error sending device slot confirmation email", { error });
-      return false;
-    }
-
-    logStep("Device slot confirmation email sent", { emailId: data?.id, to: email });
-    return true;
-  } catch (error) {
-    logStep("Failed to send device slot confirmation email", { error: String(error) });
-    return false;
-  }
-}
-
-// Email sent when user initiates cancellation (still has access until period end)
-async function sendCancellationConfirmationEmail(
-  email: string,
-  customerName: string | null,
-  planType: string,
-  accessUntil: Date
-) {
-  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
-
-  const formattedDate = accessUntil.toLocaleDateString('en-US', {
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric'
-  });
-
-  const html = emailWrapper(`
-          <!-- Header -->
-          <tr>
-            <td style="padding: 40px 40px 20px; text-align: center;">
-              <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-              <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                Cancellation Confirmed
-              </h1>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 20px 40px;">
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Hi${customerName ? ` ${customerName}` : ''},
-              </p>
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                We've received your request to cancel your Ambian ${planType === 'yearly' ? 'yearly' : 'monthly'} subscription.
-              </p>
-              
-              <!-- Access Info Box -->
-              <div style="background: rgba(16, 185, 129, 0.1); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(16, 185, 129, 0.3);">
-                <h3 style="color: #10b981; font-size: 16px; margin: 0 0 12px;">✓ You still have access!</h3>
-                <p style="color: #e0e0e0; font-size: 14px; line-height: 1.6; margin: 0;">
-                  Your subscription remains active until <strong style="color: #ffffff;">${formattedDate}</strong>. You can continue enjoying all Ambian features until then.
-                </p>
-              </div>
-              
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Changed your mind? You can reactivate your subscription anytime before the end date from your profile settings.
-              </p>
-              
-              <!-- CTA Button -->
-              <table width="100%" cellpadding="0" cellspacing="0">
-                <tr>
-                  <td align="center" style="padding: 20px 0 30px;">
-                    <a href="https://ambianmusic.com/profile" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                      Manage Subscription
-                    </a>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #888888; font-size: 14px; margin: 0;">
-                If you have any questions, just reply to this email.
-              </p>
-            </td>
-          </tr>
-  `);
-
-  try {
-    const { data, error } = await resend.emails.send({
-      from: "Ambian <noreply@ambianmusic.com>",
-      to: [email],
-      subject: `Your Ambian subscription will end on ${formattedDate}`,
-      html,
-    });
-
-    if (error) {
-      logStep("Error sending cancellation confirmation email", { error });
-      return false;
-    }
-
-    logStep("Cancellation confirmation email sent", { emailId: data?.id, to: email });
-    return true;
-  } catch (error) {
-    logStep("Failed to send cancellation confirmation email", { error: String(error) });
-    return false;
-  }
-}
-
-// Email sent when subscription period actually ends (user loses access)
-async function sendSubscriptionEndedEmail(
-  email: string,
-  customerName: string | null,
-  planType: string
-) {
-  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
-
-  const html = emailWrapper(`
-          <!-- Header -->
-          <tr>
-            <td style="padding: 40px 40px 20px; text-align: center;">
-              <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-              <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                Your subscription has ended
-              </h1>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 20px 40px;">
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Hi${customerName ? ` ${customerName}` : ''},
-              </p>
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Your Ambian ${planType === 'yearly' ? 'yearly' : 'monthly'} subscription has now ended. We hope you enjoyed our service!
-              </p>
-              
-              <!-- Offer Box -->
-              <div style="background: rgba(139, 92, 246, 0.1); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(139, 92, 246, 0.3);">
-                <h3 style="color: #8b5cf6; font-size: 16px; margin: 0 0 12px;">💡 Miss the music?</h3>
-                <p style="color: #e0e0e0; font-size: 14px; line-height: 1.6; margin: 0;">
-                  You can resubscribe anytime and get instant access to all your favorite playlists again. Your preferences and settings are saved!
-                </p>
-              </div>
-              
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                If you have any feedback on how we can improve, we'd love to hear from you. Just reply to this email.
-              </p>
-              
-              <!-- CTA Button -->
-              <table width="100%" cellpadding="0" cellspacing="0">
-                <tr>
-                  <td align="center" style="padding: 20px 0 30px;">
-                    <a href="https://ambianmusic.com/pricing" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                      Resubscribe Now
-                    </a>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #888888; font-size: 14px; margin: 0;">
-                Thank you for being a part of Ambian. We hope to see you again soon!
-              </p>
-            </td>
-          </tr>
-  `);
-
-  try {
-    const { data, error } = await resend.emails.send({
-      from: "Ambian <noreply@ambianmusic.com>",
-      to: [email],
-      subject: "Your Ambian subscription has ended",
-      html,
-    });
-
-    if (error) {
-      logStep("Error sending subscription ended email", { error });
-      return false;
-    }
-
-    logStep("Subscription ended email sent", { emailId: data?.id, to: email });
-    return true;
-  } catch (error) {
-    logStep("Failed to send subscription ended email", { error: String(error) });
-    return false;
-  }
-}
-
-// Email sent when access is suspended due to unpaid invoice
-async function sendAccessSuspendedEmail(
-  email: string,
-  customerName: string | null,
-  planType: string
-) {
-  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
-
-  const html = emailWrapper(`
-          <!-- Header -->
-          <tr>
-            <td style="padding: 40px 40px 20px; text-align: center;">
-              <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-              <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                🚫 Access Suspended
-              </h1>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 20px 40px;">
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Hi${customerName ? ` ${customerName}` : ''},
-              </p>
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Unfortunately, your Ambian ${planType === 'yearly' ? 'yearly' : 'monthly'} subscription has been suspended because we didn't receive payment for your invoice within the grace period.
-              </p>
-              
-              <!-- Warning Box -->
-              <div style="background: rgba(239, 68, 68, 0.1); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(239, 68, 68, 0.3);">
-                <h3 style="color: #fca5a5; font-size: 16px; margin: 0 0 12px;">What does this mean?</h3>
-                <ul style="color: #e0e0e0; font-size: 14px; line-height: 1.8; margin: 0; padding-left: 20px;">
-                  <li>You no longer have access to Ambian's music library</li>
-                  <li>Playback has been disabled on all your devices</li>
-                  <li>Your playlists and preferences are saved</li>
-                </ul>
-              </div>
-              
-              <!-- Solution Box -->
-              <div style="background: rgba(139, 92, 246, 0.1); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(139, 92, 246, 0.3);">
-                <h3 style="color: #8b5cf6; font-size: 16px; margin: 0 0 12px;">💳 How to restore access</h3>
-                <p style="color: #e0e0e0; font-size: 14px; line-height: 1.6; margin: 0;">
-                  To regain access to Ambian, please subscribe again with a valid payment method. Your previous preferences and playlists will be restored instantly.
-                </p>
-              </div>
-              
-              <!-- CTA Button -->
-              <table width="100%" cellpadding="0" cellspacing="0">
-                <tr>
-                  <td align="center" style="padding: 20px 0 30px;">
-                    <a href="https://ambianmusic.com/pricing" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                      Subscribe Again
-                    </a>
-                  </td>
-                </tr>
-              </table>
-              
-              <p style="color: #888888; font-size: 14px; line-height: 1.6; margin: 0;">
-                If you believe this is an error or have already made payment, please contact us and we'll resolve it right away.
-              </p>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #888888; font-size: 14px; margin: 0;">
-                Need help? Contact us at <a href="mailto:info@ambian.fi" style="color: #8b5cf6; text-decoration: none;">info@ambian.fi</a>
-              </p>
-            </td>
-          </tr>
-  `);
-
-  try {
-    const { data, error } = await resend.emails.send({
-      from: "Ambian <noreply@ambianmusic.com>",
-      to: [email],
-      subject: "🚫 Your Ambian access has been suspended - Invoice unpaid",
-      html,
-    });
-
-    if (error) {
-      logStep("Error sending access suspended email", { error });
-      return false;
-    }
-
-    logStep("Access suspended email sent", { emailId: data?.id, to: email });
-    return true;
-  } catch (error) {
-    logStep("Failed to send access suspended email", { error: String(error) });
-    return false;
-  }
-}
-
-// Owner notification email when a purchase is made
-async function sendOwnerPurchaseNotificationEmail(
-  customerEmail: string,
-  customerName: string | null,
-  planType: string,
-  amount: number,
-  currency: string,
-  isFirstSubscription: boolean,
-  isDeviceSlot: boolean = false,
-  deviceSlotQuantity: number = 0
-) {
-  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
-  const ownerEmail = "info@ambian.fi";
-  
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency.toUpperCase(),
-  }).format(amount / 100);
-  
-  const purchaseType = isDeviceSlot 
-    ? `${deviceSlotQuantity} Additional Location(s)` 
-    : (isFirstSubscription ? 'New Subscription' : 'Subscription Renewal');
-  
-  const planDisplay = isDeviceSlot 
-    ? `${planType === 'yearly' ? 'Yearly' : 'Monthly'} Device Slot` 
-    : `${planType === 'yearly' ? 'Yearly' : 'Monthly'} Subscription`;
-
-  const html = emailWrapper(`
-          <!-- Header -->
-          <tr>
-            <td style="padding: 40px 40px 20px; text-align: center;">
-              <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-              <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                💰 New Purchase!
-              </h1>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 20px 40px;">
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                A customer just made a purchase on Ambian!
-              </p>
-              
-              <!-- Purchase Details Box -->
-              <div style="background: rgba(16, 185, 129, 0.1); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(16, 185, 129, 0.3);">
-                <h3 style="color: #10b981; font-size: 16px; margin: 0 0 16px;">✓ ${purchaseType}</h3>
-                <table width="100%" cellpadding="0" cellspacing="0">
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Customer:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${customerName || 'N/A'}</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Email:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${customerEmail}</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Plan:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${planDisplay}</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Amount:</span>
-                      <span style="color: #10b981; font-size: 14px; margin-left: 12px; font-weight: 600;">${formattedAmount}</span>
-                    </td>
-                  </tr>
-                </table>
-              </div>
-              
-              <p style="color: #888888; font-size: 14px; line-height: 1.6; margin: 20px 0 0;">
-                Time: ${new Date().toLocaleString('en-US', { 
-                  weekday: 'long', 
-                  year: 'numeric', 
-                  month: 'long', 
-                  day: 'numeric',
-                  hour: '2-digit',
-                  minute: '2-digit',
-                  timeZone: 'Europe/Helsinki'
-                })} (Helsinki)
-              </p>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #888888; font-size: 14px; margin: 0;">
-                <a href="https://ambian.app/admin" style="color: #8b5cf6; text-decoration: none;">View Admin Dashboard</a>
-              </p>
-            </td>
-          </tr>
-  `);
-
-  try {
-    const { data, error } = await resend.emails.send({
-      from: "Ambian <noreply@ambianmusic.com>",
-      to: [ownerEmail],
-      subject: `💰 ${purchaseType}: ${customerEmail} - ${formattedAmount}`,
-      html,
-    });
-
-    if (error) {
-      logStep("Error sending owner purchase notification email", { error });
-      return false;
-    }
-
-    logStep("Owner purchase notification email sent", { emailId: data?.id, to: ownerEmail, customerEmail });
-    return true;
-  } catch (error) {
-    logStep("Failed to send owner purchase notification email", { error: String(error) });
-    return false;
-  }
-}
-
-// Owner notification email when a subscription is canceled
-async function sendOwnerCancellationNotificationEmail(
-  customerEmail: string,
-  customerName: string | null,
-  planType: string,
-  isDeviceSlot: boolean = false,
-  deviceSlotQuantity: number = 0
-) {
-  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
-  const ownerEmail = "info@ambian.fi";
-  
-  const cancellationType = isDeviceSlot 
-    ? `${deviceSlotQuantity} Location(s) Canceled` 
-    : 'Subscription Canceled';
-  
-  const planDisplay = isDeviceSlot 
-    ? `${planType === 'yearly' ? 'Yearly' : 'Monthly'} Device Slot` 
-    : `${planType === 'yearly' ? 'Yearly' : 'Monthly'} Subscription`;
-
-  const html = emailWrapper(`
-          <!-- Header -->
-          <tr>
-            <td style="padding: 40px 40px 20px; text-align: center;">
-              <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-              <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                📉 ${cancellationType}
-              </h1>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 20px 40px;">
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                A customer has canceled their subscription on Ambian.
-              </p>
-              
-              <!-- Cancellation Details Box -->
-              <div style="background: rgba(239, 68, 68, 0.1); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(239, 68, 68, 0.3);">
-                <h3 style="color: #fca5a5; font-size: 16px; margin: 0 0 16px;">✗ ${cancellationType}</h3>
-                <table width="100%" cellpadding="0" cellspacing="0">
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Customer:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${customerName || 'N/A'}</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Email:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${customerEmail}</span>
-                    </td>
-                  </tr>
-                  <tr>
-                    <td style="padding: 8px 0;">
-                      <span style="color: #888888; font-size: 14px;">Plan:</span>
-                      <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${planDisplay}</span>
-                    </td>
-                  </tr>
-                </table>
-              </div>
-              
-              <p style="color: #888888; font-size: 14px; line-height: 1.6; margin: 20px 0 0;">
-                Time: ${new Date().toLocaleString('en-US', { 
-                  weekday: 'long', 
-                  year: 'numeric', 
-                  month: 'long', 
-                  day: 'numeric',
-                  hour: '2-digit',
-                  minute: '2-digit',
-                  timeZone: 'Europe/Helsinki'
-                })} (Helsinki)
-              </p>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #888888; font-size: 14px; margin: 0;">
-                <a href="https://ambian.app/admin" style="color: #8b5cf6; text-decoration: none;">View Admin Dashboard</a>
-              </p>
-            </td>
-          </tr>
-  `);
-
-  try {
-    const { data, error } = await resend.emails.send({
-      from: "Ambian <noreply@ambianmusic.com>",
-      to: [ownerEmail],
-      subject: `📉 ${cancellationType}: ${customerEmail}`,
-      html,
-    });
-
-    if (error) {
-      logStep("Error sending owner cancellation notification email", { error });
-      return false;
-    }
-
-    logStep("Owner cancellation notification email sent", { emailId: data?.id, to: ownerEmail, customerEmail });
-    return true;
-  } catch (error) {
-    logStep("Failed to send owner cancellation notification email", { error: String(error) });
-    return false;
-  }
-}
-
-async function sendPlanChangeEmail(
-  email: string,
-  customerName: string | null,
-  oldPlan: string,
-  newPlan: string,
-  amount: number,
-  currency: string,
-  periodEnd: Date
-) {
-  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
-  
-  const formattedAmount = new Intl.NumberFormat('en-US', {
-    style: 'currency',
-    currency: currency.toUpperCase(),
-  }).format(amount / 100);
-  
-  const formattedPeriodEnd = periodEnd.toLocaleDateString('en-US', {
-    weekday: 'long',
-    year: 'numeric',
-    month: 'long',
-    day: 'numeric',
-  });
-  
-  const isUpgrade = newPlan === 'yearly' && oldPlan === 'monthly';
-  const savingsText = isUpgrade ? "You're now saving €58/year compared to monthly billing!" : "";
-
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    </head>
-    <body style="margin: 0; padding: 0; background-color: #0a0a0a; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
-      <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #0a0a0a; padding: 40px 20px;">
-        <tr>
-          <td align="center">
-            <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%); border-radius: 16px; overflow: hidden;">
-              <!-- Header -->
-              <tr>
-                <td style="padding: 40px 40px 20px; text-align: center;">
-                  <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-                  <h1 style="color: #ffffff; font-size: 28px; font-weight: 600; margin: 0;">
-                    ${isUpgrade ? '🎉 Plan Upgraded!' : '📋 Plan Changed'}
-                  </h1>
-                </td>
-              </tr>
-              
-              <!-- Content -->
-              <tr>
-                <td style="padding: 20px 40px;">
-                  <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                    Hi${customerName ? ` ${customerName}` : ''},
-                  </p>
-                  <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                    Your Ambian subscription has been ${isUpgrade ? 'upgraded' : 'changed'} from ${oldPlan} to ${newPlan}.
-                    ${savingsText}
-                  </p>
-                  
-                  <!-- Details Box -->
-                  <div style="background: rgba(255,255,255,0.05); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(255,255,255,0.1);">
-                    <h3 style="color: #10b981; font-size: 16px; margin: 0 0 16px;">✓ Plan Updated</h3>
-                    <table width="100%" cellpadding="0" cellspacing="0">
-                      <tr>
-                        <td style="padding: 8px 0;">
-                          <span style="color: #888888; font-size: 14px;">New plan:</span>
-                          <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${newPlan === 'yearly' ? 'Yearly' : 'Monthly'} Subscription</span>
-                        </td>
-                      </tr>
-                      <tr>
-                        <td style="padding: 8px 0;">
-                          <span style="color: #888888; font-size: 14px;">Amount:</span>
-                          <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${formattedAmount}/${newPlan === 'yearly' ? 'year' : 'month'}</span>
-                        </td>
-                      </tr>
-                      <tr>
-                        <td style="padding: 8px 0;">
-                          <span style="color: #888888; font-size: 14px;">Next billing:</span>
-                          <span style="color: #ffffff; font-size: 14px; margin-left: 12px; font-weight: 500;">${formattedPeriodEnd}</span>
-                        </td>
-                      </tr>
-                    </table>
-                  </div>
-                  
-                  <!-- CTA Button -->
-                  <table width="100%" cellpadding="0" cellspacing="0">
-                    <tr>
-                      <td align="center" style="padding: 20px 0 30px;">
-                        <a href="https://ambianmusic.com" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                          Continue Listening
-                        </a>
-                      </td>
-                    </tr>
-                  </table>
-                </td>
-              </tr>
-              
-              <!-- Footer -->
-              <tr>
-                <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-                  <p style="color: #888888; font-size: 14px; margin: 0 0 10px;">
-                    Manage your subscription at <a href="https://ambianmusic.com/profile" style="color: #8b5cf6; text-decoration: none;">ambianmusic.com/profile</a>
-                  </p>
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-    </body>
-    </html>
-  `;
-
-  try {
-    const { data, error } = await resend.emails.send({
-      from: "Ambian <noreply@ambianmusic.com>",
-      to: [email],
-      subject: `Plan ${isUpgrade ? 'Upgraded' : 'Changed'} - Now on ${newPlan === 'yearly' ? 'Yearly' : 'Monthly'} billing`,
-      html,
-    });
-
-    if (error) {
-      logStep("Error sending plan change email", { error });
-      return false;
-    }
-
-    logStep("Plan change email sent", { emailId: data?.id, to: email });
-    return true;
-  } catch (error) {
-    logStep("Failed to send plan change email", { error: String(error) });
-    return false;
-  }
-}
-
-async function sendPaymentConfirmationEmailForInvoice(
-  stripe: Stripe,
-  invoice: Stripe.Invoice,
-  customerEmail: string,
-  isFirstSubscription: boolean = false
-) {
-  // Get customer name
-  const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
-  let customerName: string | null = null;
-  
-  if (customerId) {
-    try {
-      const customer = await stripe.customers.retrieve(customerId);
-      customerName = (customer as any).name;
-    } catch (e) {
-      logStep("Could not retrieve customer name", { error: String(e) });
-    }
-  }
+  if (customerId) {
+    try {
+      const customer = await stripe.customers.retrieve(customerId);
+      customerName = (customer as any).name;
+    } catch (e) {
+      logStep("Could not retrieve customer name", { error: String(e) });
+    }
+  }
 
   // Determine plan type and period end
   let planType = "monthly";
@@ -1320,221 +536,60 @@ async function sendPaymentConfirmationEmailForInvoice(
   if (isFirstSubscription) {
     logStep("Sending welcome email for first subscription", { email: customerEmail, planType });
     const ok = await sendSubscriptionConfirmationEmail(
+      supabase,
       customerEmail,
       customerName,
       planType,
-      periodEnd
+      periodEnd,
+      userId
     );
     return ok;
   }
 
   const ok = await sendPaymentConfirmationEmail(
+    supabase,
     customerEmail,
     customerName,
     invoice.amount_paid || 0,
     invoice.currency || 'eur',
     planType,
     periodEnd,
-    invoice.number
+    invoice.number,
+    userId
   );
 
   return ok;
 }
 
 async function sendDeviceSlotUnpaidCancellationEmail(
+  supabase: SupabaseClient,
   email: string,
   customerName: string | null,
   quantity: number,
-  period: string
+  period: string,
+  userId?: string | null
 ) {
-  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
-  
-  const locationText = quantity === 1 ? "location" : "locations";
-  const periodText = period === "yearly" ? "yearly" : "monthly";
-
-  const html = `
-    <!DOCTYPE html>
-    <html>
-    <head>
-      <meta charset="utf-8">
-      <meta name="viewport" content="width=device-width, initial-scale=1.0">
-    </head>
-    <body style="margin: 0; padding: 0; background-color: #0a0a0a; font-family: -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, 'Helvetica Neue', Arial, sans-serif;">
-      <table width="100%" cellpadding="0" cellspacing="0" style="background-color: #0a0a0a; padding: 40px 20px;">
-        <tr>
-          <td align="center">
-            <table width="100%" cellpadding="0" cellspacing="0" style="max-width: 600px; background: linear-gradient(135deg, #1a1a2e 0%, #16213e 100%); border-radius: 16px; overflow: hidden;">
-              <!-- Header -->
-              <tr>
-                <td style="padding: 40px 40px 20px; text-align: center;">
-                  <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-                  <h1 style="color: #ffffff; font-size: 24px; font-weight: 600; margin: 0;">
-                    Location Subscription Canceled
-                  </h1>
-                </td>
-              </tr>
-              
-              <!-- Content -->
-              <tr>
-                <td style="padding: 20px 40px;">
-                  <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                    Hi${customerName ? ` ${customerName}` : ''},
-                  </p>
-                  <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                    Your additional ${locationText} subscription has been canceled because the invoice was not paid within the required timeframe.
-                  </p>
-                  
-                  <!-- Details Box -->
-                  <div style="background: rgba(239, 68, 68, 0.1); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(239, 68, 68, 0.3);">
-                    <p style="color: #fca5a5; font-size: 14px; margin: 0 0 10px;">
-                      <strong>Canceled:</strong> ${quantity} additional ${locationText} (${periodText})
-                    </p>
-                    <p style="color: #fca5a5; font-size: 14px; margin: 0;">
-                      <strong>Reason:</strong> Invoice not paid
-                    </p>
-                  </div>
-                  
-                  <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                    If you still need additional locations for your business, you can add them again from your profile.
-                  </p>
-                  
-                  <!-- CTA Button -->
-                  <table width="100%" cellpadding="0" cellspacing="0">
-                    <tr>
-                      <td align="center" style="padding: 20px 0 30px;">
-                        <a href="https://ambianmusic.com/profile" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                          Add Locations
-                        </a>
-                      </td>
-                    </tr>
-                  </table>
-                  
-                  <p style="color: #888888; font-size: 14px; line-height: 1.6; margin: 0;">
-                    If you believe this is an error or have questions, please contact us at <a href="mailto:support@ambian.fi" style="color: #8b5cf6;">support@ambian.fi</a>.
-                  </p>
-                </td>
-              </tr>
-              
-              <!-- Footer -->
-              <tr>
-                <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-                  <p style="color: #888888; font-size: 14px; margin: 0;">
-                    &copy; ${new Date().getFullYear()} Ambian. All rights reserved.
-                  </p>
-                </td>
-              </tr>
-            </table>
-          </td>
-        </tr>
-      </table>
-    </body>
-    </html>
-  `;
-
-  try {
-    const { data, error } = await resend.emails.send({
-      from: "Ambian <noreply@ambianmusic.com>",
-      to: [email],
-      subject: "Location Subscription Canceled - Invoice Not Paid",
-      html,
-    });
-
-    if (error) {
-      logStep("Error sending unpaid cancellation email", { error });
-      return false;
-    }
-
-    logStep("Unpaid cancellation email sent", { emailId: data?.id, to: email });
-    return true;
-  } catch (error) {
-    logStep("Failed to send unpaid cancellation email", { error: String(error) });
-    return false;
-  }
+  const language = await getEmailLanguage(supabase, { userId, email });
+  return await sendCustomerEmail(
+    email,
+    renderDeviceSlotUnpaidCancellationEmail(language, { customerName, quantity, period }),
+    "unpaid cancellation email"
+  );
 }
 
 async function sendDeviceSlotAutoCanceledEmail(
+  supabase: SupabaseClient,
   email: string,
   customerName: string | null,
-  quantity: number
+  quantity: number,
+  userId?: string | null
 ) {
-  const resend = new Resend(Deno.env.get("RESEND_API_KEY"));
-  
-  const locationText = quantity === 1 ? "location" : "locations";
-
-  const html = emailWrapper(`
-          <!-- Header -->
-          <tr>
-            <td style="padding: 40px 40px 20px; text-align: center;">
-              <img src="https://ambianmusic.com/ambian-logo.png" alt="Ambian" width="120" style="display: block; margin: 0 auto 20px;" />
-              <h1 style="color: #ffffff; font-size: 24px; font-weight: 600; margin: 0;">
-                Additional Locations Canceled
-              </h1>
-            </td>
-          </tr>
-          
-          <!-- Content -->
-          <tr>
-            <td style="padding: 20px 40px;">
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Hi${customerName ? ` ${customerName}` : ''},
-              </p>
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                Your main Ambian subscription has ended, so your additional ${quantity} ${locationText} subscription${quantity > 1 ? 's have' : ' has'} been automatically canceled.
-              </p>
-              
-              <!-- Info Box -->
-              <div style="background: rgba(251, 191, 36, 0.1); border-radius: 12px; padding: 24px; margin: 20px 0; border: 1px solid rgba(251, 191, 36, 0.3);">
-                <p style="color: #fbbf24; font-size: 14px; margin: 0;">
-                  <strong>Note:</strong> Additional location subscriptions require an active main subscription. If you resubscribe to Ambian, you can add locations again from your Profile page.
-                </p>
-              </div>
-              
-              <p style="color: #e0e0e0; font-size: 16px; line-height: 1.6; margin: 0 0 20px;">
-                If you'd like to continue using Ambian with multiple locations, please resubscribe and then add your additional locations.
-              </p>
-              
-              <!-- CTA Button -->
-              <table width="100%" cellpadding="0" cellspacing="0">
-                <tr>
-                  <td align="center" style="padding: 20px 0 30px;">
-                    <a href="https://ambianmusic.com/pricing" style="display: inline-block; background: linear-gradient(135deg, #6366f1 0%, #8b5cf6 100%); color: #ffffff; text-decoration: none; padding: 16px 40px; border-radius: 8px; font-size: 16px; font-weight: 600;">
-                      View Plans
-                    </a>
-                  </td>
-                </tr>
-              </table>
-            </td>
-          </tr>
-          
-          <!-- Footer -->
-          <tr>
-            <td style="padding: 20px 40px 40px; text-align: center; border-top: 1px solid rgba(255,255,255,0.1);">
-              <p style="color: #888888; font-size: 14px; margin: 0;">
-                Questions? Contact us at <a href="mailto:support@ambianmusic.com" style="color: #8b5cf6; text-decoration: none;">support@ambianmusic.com</a>
-              </p>
-            </td>
-          </tr>
-  `);
-
-  try {
-    const { data, error } = await resend.emails.send({
-      from: "Ambian <noreply@ambianmusic.com>",
-      to: [email],
-      subject: `Additional Locations Canceled - Main Subscription Ended`,
-      html,
-    });
-
-    if (error) {
-      logStep("Error sending device slot auto-canceled email", { error });
-      return false;
-    }
-
-    logStep("Device slot auto-canceled email sent", { emailId: data?.id, to: email });
-    return true;
-  } catch (error) {
-    logStep("Failed to send device slot auto-canceled email", { error: String(error) });
-    return false;
-  }
+  const language = await getEmailLanguage(supabase, { userId, email });
+  return await sendCustomerEmail(
+    email,
+    renderDeviceSlotAutoCanceledEmail(language, { customerName, quantity }),
+    "device slot auto-canceled email"
+  );
 }
 
 // Device slot price IDs
@@ -1587,739 +642,886 @@ async function syncDeviceSlotsForUser(
   }
 }
 
-serve(async (req) => {
-  // Webhooks are server-to-server, no CORS needed
-  if (req.method === "OPTIONS") {
-    return new Response(null, { status: 405 }); // Method Not Allowed
+// Admins replay failed events from the admin panel, so that request needs CORS (Stripe's don't)
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// An event still marked processing after this long is assumed to have crashed and may be taken over
+const STALE_PROCESSING_MS = 5 * 60 * 1000;
+
+interface EffectLedger {
+  has: (effect: string) => Promise<boolean>;
+  record: (effect: string) => Promise<void>;
+}
+
+type EventClaim = { status: "claimed"; effects: string[] } | { status: "processed" | "busy" };
+
+/**
+ * Side effects of an event that must not happen twice (e.g. "subscription_email:sub_123"). They are stored on
+ * the event's stripe_events row, so retries and replays see them, and so do other events about the same object.
+ */
+const createEffectLedger = (supabase: SupabaseClient, eventId: string, effects: string[]): EffectLedger => ({
+  has: async (effect) => {
+    if (effects.includes(effect)) return true;
+    const { data, error } = await supabase
+      .from("stripe_events")
+      .select("id")
+      .contains("effects", [effect])
+      .limit(1);
+    if (error) throw new Error(`Failed to check event effects: ${error.message}`);
+    return data.length > 0;
+  },
+  record: async (effect) => {
+    effects.push(effect);
+    const { error } = await supabase.from("stripe_events").update({ effects }).eq("id", eventId);
+    if (error) throw new Error(`Failed to record event effect: ${error.message}`);
+  },
+});
+
+/**
+ * Take an event for processing via the stripe_events ledger. New events are recorded; failed (or stale) ones
+ * are taken over. Events that were already processed, or that another invocation is processing, are not.
+ */
+async function claimEvent(supabase: SupabaseClient, event: Stripe.Event): Promise<EventClaim> {
+  const { error: insertError } = await supabase
+    .from("stripe_events")
+    .insert({ id: event.id, type: event.type, payload: event, status: "processing" });
+  if (!insertError) return { status: "claimed", effects: [] };
+  if (insertError.code !== "23505") throw new Error(`Failed to record event: ${insertError.message}`);
+
+  // Seen before: a Stripe retry, a replay or a concurrent delivery
+  const { data: existing, error: fetchError } = await supabase
+    .from("stripe_events")
+    .select("status, attempts, effects, updated_at")
+    .eq("id", event.id)
+    .single();
+  if (fetchError) throw new Error(`Failed to fetch event: ${fetchError.message}`);
+
+  if (existing.status === "processed") return { status: "processed" };
+  const age = Date.now() - new Date(existing.updated_at).getTime();
+  if (existing.status === "processing" && age < STALE_PROCESSING_MS) return { status: "busy" };
+
+  // Only one invocation wins the takeover: the row must be unchanged since we read it
+  const { data: taken, error: takeError } = await supabase
+    .from("stripe_events")
+    .update({ status: "processing", attempts: existing.attempts + 1, error: null })
+    .eq("id", event.id)
+    .eq("updated_at", existing.updated_at)
+    .select("id");
+  if (takeError) throw new Error(`Failed to claim event: ${takeError.message}`);
+
+  return taken.length > 0 ? { status: "claimed", effects: existing.effects } : { status: "busy" };
+}
+
+/**
+ * Claim an event, handle it and record the outcome in the ledger. Handler errors are recorded and rethrown.
+ */
+async function processEvent(
+  supabase: SupabaseClient,
+  stripe: Stripe,
+  event: Stripe.Event
+): Promise<"processed" | "duplicate" | "busy"> {
+  const claim = await claimEvent(supabase, event);
+  if (claim.status === "processed") {
+    logStep("Skipping already processed event", { eventId: event.id, type: event.type });
+    return "duplicate";
+  }
+  if (claim.status === "busy") {
+    logStep("Event is being processed elsewhere", { eventId: event.id, type: event.type });
+    return "busy";
   }
 
   try {
-    logStep("Webhook received");
+    await handleEvent(event, stripe, supabase, createEffectLedger(supabase, event.id, claim.effects));
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    await supabase.from("stripe_events").update({ status: "failed", error: errorMessage }).eq("id", event.id);
+    throw error;
+  }
 
-    const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
-      apiVersion: "2025-08-27.basil",
+  const { error: updateError } = await supabase
+    .from("stripe_events")
+    .update({ status: "processed", error: null, processed_at: new Date().toISOString() })
+    .eq("id", event.id);
+  if (updateError) logStep("ERROR: Failed to mark event processed", { eventId: event.id, error: updateError.message });
+
+  return "processed";
+}
+
+/**
+ * Replay a failed event from the ledger (admins). The stored payload was verified when Stripe delivered it.
+ */
+async function handleReplay(req: Request, supabase: SupabaseClient, stripe: Stripe): Promise<Response> {
+  const jsonResponse = (body: unknown, status: number) =>
+    new Response(JSON.stringify(body), {
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+      status,
     });
 
-    const signature = req.headers.get("stripe-signature");
-    if (!signature) {
-      logStep("ERROR: No signature");
-      return new Response(null, { status: 400 });
-    }
+  const token = (req.headers.get("Authorization") ?? "").replace("Bearer ", "");
+  const { data: userData, error: userError } = await supabase.auth.getUser(token);
+  if (userError || !userData.user) return jsonResponse({ error: "User not authenticated" }, 401);
 
-    const body = await req.text();
-    const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
-    
-    if (!webhookSecret) {
-      logStep("ERROR: No webhook secret configured");
-      return new Response(null, { status: 500 });
-    }
+  const { data: adminRole, error: roleError } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", userData.user.id)
+    .eq("role", "admin")
+    .maybeSingle();
+  if (roleError) throw new Error(`Role check error: ${roleError.message}`);
+  if (!adminRole) return jsonResponse({ error: "Unauthorized - admin access required" }, 403);
 
-    let event: Stripe.Event;
-    try {
-      event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret);
-    } catch (err: any) {
-      logStep("ERROR: Signature verification failed", { error: err.message });
-      return new Response(null, { status: 400 });
-    }
+  const { eventId } = await req.json().catch(() => ({}));
+  if (!eventId) return jsonResponse({ error: "Provide eventId" }, 400);
 
-    logStep("Event verified", { type: event.type });
+  const { data: stored, error: fetchError } = await supabase
+    .from("stripe_events")
+    .select("payload")
+    .eq("id", eventId)
+    .maybeSingle();
+  if (fetchError) throw new Error(`Failed to fetch event: ${fetchError.message}`);
+  if (!stored) return jsonResponse({ error: "Event not found" }, 404);
 
-    // Create admin Supabase client
-    const supabaseAdmin = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-      { auth: { persistSession: false } }
-    );
+  logStep("Replaying event", { eventId, adminUserId: userData.user.id });
+
+  try {
+    const result = await processEvent(supabase, stripe, stored.payload as Stripe.Event);
+    if (result !== "processed") {
+      return jsonResponse({ error: result === "duplicate" ? "Event was already processed" : "Event is being processed" }, 409);
+    }
+    return jsonResponse({ success: true }, 200);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR: Replay failed", { eventId, message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+}
 
-    // Handle invoice.upcoming - sent ~3 days before renewal for send_invoice subscriptions
-    // This is our cue to extend access grace period for IBAN payers and send reminder email
-    if (event.type === "invoice.upcoming") {
-      const invoice = event.data.object as Stripe.Invoice;
-      logStep("Upcoming invoice", { customerId: invoice.customer, subscriptionId: invoice.subscription });
+async function handleEvent(event: Stripe.Event, stripe: Stripe, supabaseAdmin: SupabaseClient, effects: EffectLedger) {
+  // Handle invoice.upcoming - sent ~3 days before renewal for send_invoice subscriptions
+  // This is our cue to extend access grace period for IBAN payers and send reminder email
+  if (event.type === "invoice.upcoming") {
+    const invoice = event.data.object as Stripe.Invoice;
+    logStep("Upcoming invoice", { customerId: invoice.customer, subscriptionId: invoice.subscription });
+    
+    // Get user from subscription metadata
+    if (invoice.subscription) {
+      const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string);
+      const userId = subscription.metadata?.user_id;
       
-      // Get user from subscription metadata
-      if (invoice.subscription) {
-        const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string);
-        const userId = subscription.metadata?.user_id;
+      if (userId) {
+        // Extend grace period by 7 days from now to cover IBAN payment time
+        const gracePeriodEnd = new Date();
+        gracePeriodEnd.setDate(gracePeriodEnd.getDate() + 7);
         
-        if (userId) {
-          // Extend grace period by 7 days from now to cover IBAN payment time
-          const gracePeriodEnd = new Date();
-          gracePeriodEnd.setDate(gracePeriodEnd.getDate() + 7);
-          
-          await supabaseAdmin
-            .from("subscriptions")
-            .update({
-              status: "pending_payment",
-              current_period_end: gracePeriodEnd.toISOString(),
-              updated_at: new Date().toISOString(),
-            })
-            .eq("user_id", userId);
-          
-          logStep("Extended grace period for upcoming renewal", { userId, until: gracePeriodEnd.toISOString() });
+        await supabaseAdmin
+          .from("subscriptions")
+          .update({
+            status: "pending_payment",
+            current_period_end: gracePeriodEnd.toISOString(),
+            updated_at: new Date().toISOString(),
+          })
+          .eq("user_id", userId);
+        
+        logStep("Extended grace period for upcoming renewal", { userId, until: gracePeriodEnd.toISOString() });
 
-          // Get customer details for email
-          const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
-          if (customerId) {
-            const customer = await stripe.customers.retrieve(customerId);
-            const customerEmail = (customer as any).email;
-            const customerName = (customer as any).name;
+        // Get customer details for email
+        const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
+        if (customerId) {
+          const customer = await stripe.customers.retrieve(customerId);
+          const customerEmail = (customer as any).email;
+          const customerName = (customer as any).name;
+          
+          if (customerEmail) {
+            // Calculate invoice amount and due date
+            const amount = invoice.amount_due || 0;
+            const currency = invoice.currency || 'eur';
+            const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
             
-            if (customerEmail) {
-              // Calculate invoice amount and due date
-              const amount = invoice.amount_due || 0;
-              const currency = invoice.currency || 'eur';
-              const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
-              
-              // Due date is the grace period end
-              await sendUpcomingPaymentEmail(
-                customerEmail,
-                customerName,
-                amount,
-                currency,
-                gracePeriodEnd,
-                planType
-              );
-            }
+            // Due date is the grace period end
+            await sendUpcomingPaymentEmail(
+              supabaseAdmin,
+              customerEmail,
+              customerName,
+              amount,
+              currency,
+              gracePeriodEnd,
+              planType,
+              userId
+            );
           }
         }
       }
     }
+  }
 
-    // Handle invoice events
-    if (event.type === "invoice.paid") {
-      const invoice = event.data.object as Stripe.Invoice;
-      logStep("Invoice paid", { invoiceId: invoice.id, customerId: invoice.customer });
-
-      // Check if this is a device slot payment:
-      // 1. Check metadata (for manually created invoices via send_invoice flow)
-      // 2. Check line item metadata
-      // 3. Check line item price IDs (for always_invoice prorations - Stripe creates these automatically)
-      const hasDeviceSlotMetadata = invoice.metadata?.type === "device_slot" || 
-        invoice.metadata?.type === "device_slot_addon" ||
-        invoice.lines?.data?.some((line: any) => line.metadata?.type === "device_slot" || line.metadata?.type === "device_slot_addon");
-      
-      const hasDeviceSlotPriceId = invoice.lines?.data?.some((line: any) => 
-        DEVICE_SLOT_PRICES.includes(line.price?.id)
-      );
+  // Handle invoice events
+  if (event.type === "invoice.paid") {
+    const invoice = event.data.object as Stripe.Invoice;
+    logStep("Invoice paid", { invoiceId: invoice.id, customerId: invoice.customer });
+
+    // Check if this is a device slot payment:
+    // 1. Check metadata (for manually created invoices via send_invoice flow)
+    // 2. Check line item metadata
+    // 3. Check line item price IDs (for always_invoice prorations - Stripe creates these automatically)
+    const hasDeviceSlotMetadata = invoice.metadata?.type === "device_slot" || 
+      invoice.metadata?.type === "device_slot_addon" ||
+      invoice.lines?.data?.some((line: any) => line.metadata?.type === "device_slot" || line.metadata?.type === "device_slot_addon");
+    
+    const hasDeviceSlotPriceId = invoice.lines?.data?.some((line: any) => 
+      DEVICE_SLOT_PRICES.includes(line.price?.id)
+    );
+    
+    const isDeviceSlot = hasDeviceSlotMetadata || hasDeviceSlotPriceId;
+    
+    logStep("Device slot detection", { 
+      hasDeviceSlotMetadata, 
+      hasDeviceSlotPriceId, 
+      isDeviceSlot,
+      lineItems: invoice.lines?.data?.map((l: any) => ({ priceId: l.price?.id, description: l.description }))
+    });
+
+    if (isDeviceSlot) {
+      logStep("Device slot payment detected");
       
-      const isDeviceSlot = hasDeviceSlotMetadata || hasDeviceSlotPriceId;
+      // Get user_id from metadata OR look up by customer email
+      let userId = invoice.metadata?.user_id;
+      const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
       
-      logStep("Device slot detection", { 
-        hasDeviceSlotMetadata, 
-        hasDeviceSlotPriceId, 
-        isDeviceSlot,
-        lineItems: invoice.lines?.data?.map((l: any) => ({ priceId: l.price?.id, description: l.description }))
-      });
-
-      if (isDeviceSlot) {
-        logStep("Device slot payment detected");
-        
-        // Get user_id from metadata OR look up by customer email
-        let userId = invoice.metadata?.user_id;
-        const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
-        
-        // If no user_id in metadata, try to look up from subscriptions table by stripe_customer_id
-        if (!userId && customerId) {
-          const { data: subData } = await supabaseAdmin
-            .from("subscriptions")
-            .select("user_id")
-            .eq("stripe_customer_id", customerId)
-            .maybeSingle();
-          
-          if (subData?.user_id) {
-            userId = subData.user_id;
-            logStep("Found user_id from subscriptions table", { userId });
-          }
-        }
+      // If no user_id in metadata, try to look up from subscriptions table by stripe_customer_id
+      if (!userId && customerId) {
+        const { data: subData } = await supabaseAdmin
+          .from("subscriptions")
+          .select("user_id")
+          .eq("stripe_customer_id", customerId)
+          .maybeSingle();
         
-        // Handle device slot - sync device slots for this user
-        if (userId) {
-          await syncDeviceSlotsForUser(supabaseAdmin, userId, stripe, customerId);
-          logStep("Device slots synced after payment", { userId });
+        if (subData?.user_id) {
+          userId = subData.user_id;
+          logStep("Found user_id from subscriptions table", { userId });
         }
-        
-        // Send device slot confirmation email
-        if (customerId) {
-          try {
-            const customer = await stripe.customers.retrieve(customerId);
-            const customerEmail = (customer as any).email;
-            const customerName = (customer as any).name;
+      }
+      
+      // Handle device slot - sync device slots for this user
+      if (userId) {
+        await syncDeviceSlotsForUser(supabaseAdmin, userId, stripe, customerId);
+        logStep("Device slots synced after payment", { userId });
+      }
+      
+      // Send device slot confirmation email
+      if (customerId) {
+        try {
+          const customer = await stripe.customers.retrieve(customerId);
+          const customerEmail = (customer as any).email;
+          const customerName = (customer as any).name;
+          
+          if (customerEmail) {
+            // Get quantity from metadata or count from line items
+            let quantity = parseInt(invoice.metadata?.quantity || '0', 10);
             
-            if (customerEmail) {
-              // Get quantity from metadata or count from line items
-              let quantity = parseInt(invoice.metadata?.quantity || '0', 10);
-              
-              // Determine period from price ID if not in metadata
-              let period = invoice.metadata?.period;
-              
-              // If no metadata, derive from line items
-              if (!quantity || !period) {
-                for (const line of (invoice.lines?.data || [])) {
-                  if (DEVICE_SLOT_PRICES.includes(line.price?.id)) {
-                    quantity = line.quantity || 1;
-                    // Yearly price ID
-                    if (line.price?.id === "price_1Sj2PMJrU52a7SNLzhpFYfJd") {
-                      period = "yearly";
-                    } else {
-                      period = "monthly";
-                    }
-                    break;
+            // Determine period from price ID if not in metadata
+            let period = invoice.metadata?.period;
+            
+            // If no metadata, derive from line items
+            if (!quantity || !period) {
+              for (const line of (invoice.lines?.data || [])) {
+                if (DEVICE_SLOT_PRICES.includes(line.price?.id)) {
+                  quantity = line.quantity || 1;
+                  // Yearly price ID
+                  if (line.price?.id === "price_1Sj2PMJrU52a7SNLzhpFYfJd") {
+                    period = "yearly";
+                  } else {
+                    period = "monthly";
                   }
+                  break;
                 }
               }
-              
-              // Default to 1 and monthly if still not set
-              quantity = quantity || 1;
-              period = period || "monthly";
-              
-              const amount = invoice.amount_paid || 0;
-              const currency = invoice.currency || 'eur';
-              
-              await sendDeviceSlotConfirmationEmail(
-                customerEmail,
-                customerName,
-                quantity,
-                period,
-                amount,
-                currency
-              );
-              
-              // Send owner notification for device slot purchase
-              await sendOwnerPurchaseNotificationEmail(
-                customerEmail,
-                customerName,
-                period,
-                amount,
-                currency,
-                false,
-                true,
-                quantity
-              );
             }
-          } catch (e) {
-            logStep("Could not send device slot confirmation email", { error: String(e) });
+            
+            // Default to 1 and monthly if still not set
+            quantity = quantity || 1;
+            period = period || "monthly";
+            
+            const amount = invoice.amount_paid || 0;
+            const currency = invoice.currency || 'eur';
+            
+            await sendDeviceSlotConfirmationEmail(
+              supabaseAdmin,
+              customerEmail,
+              customerName,
+              quantity,
+              period,
+              amount,
+              currency,
+              userId
+            );
+            
+            // Send owner notification for device slot purchase
+            await sendOwnerPurchaseNotificationEmail(
+              customerEmail,
+              customerName,
+              period,
+              amount,
+              currency,
+              false,
+              true,
+              quantity
+            );
           }
+        } catch (e) {
+          logStep("Could not send device slot confirmation email", { error: String(e) });
         }
-        return new Response(JSON.stringify({ received: true }), {
-          headers: { "Content-Type": "application/json" },
-          status: 200,
+      }
+      return;
+    }
+
+    // Get user_id from invoice metadata
+    const userId = invoice.metadata?.user_id;
+    
+    // Helper function to check if this is a first subscription and send appropriate email
+    const handleSubscriptionEmail = async (targetUserId: string, customerEmail: string) => {
+      // A replayed event must not email about the same invoice twice
+      const invoiceEffect = `invoice_emails:${invoice.id}`;
+
+      if (await effects.has(invoiceEffect)) {
+        logStep("Skipping duplicate invoice processing", {
+          invoiceId: invoice.id,
+          userId: targetUserId,
         });
+        return;
       }
 
-      // Get user_id from invoice metadata
-      const userId = invoice.metadata?.user_id;
-      
-      // Helper function to check if this is a first subscription and send appropriate email
-      const handleSubscriptionEmail = async (targetUserId: string, customerEmail: string) => {
-        // Webhooks can be retried; ensure we process each invoice only once.
-        const invoiceLockType = "email_invoice_processed";
-
-        const { data: alreadyProcessed } = await supabaseAdmin
-          .from("activity_logs")
-          .select("id")
-          .eq("event_type", invoiceLockType)
-          .contains("event_details", { invoiceId: invoice.id })
-          .maybeSingle();
+      // Record BEFORE sending any email (prevents duplicates even if email send/log insert fails)
+      await effects.record(invoiceEffect);
 
-        if (alreadyProcessed) {
-          logStep("Skipping duplicate invoice processing", {
-            invoiceId: invoice.id,
-            userId: targetUserId,
-          });
-          return;
-        }
+      const isRenewal = invoice.metadata?.renewal === "true";
+
+      // Check if user already has an active subscription record (to determine if this is their first)
+      const { data: existingSub } = await supabaseAdmin
+        .from("subscriptions")
+        .select("id, status")
+        .eq("user_id", targetUserId)
+        .maybeSingle();
+
+      // It's a first subscription if no record exists OR if the existing record is in trial/trialing status
+      const isFirstSubscription = !existingSub || existingSub.status === "trialing";
+
+      const emailEventType = isFirstSubscription && !isRenewal
+        ? "email_subscription_active"
+        : "email_payment_confirmed";
+
+      // Send welcome email for first subscription, payment confirmation for renewals
+      logStep("Determining email type", {
+        isFirstSubscription,
+        isRenewal,
+        existingStatus: existingSub?.status,
+      });
+
+      const ok = await sendPaymentConfirmationEmailForInvoice(
+        supabaseAdmin,
+        stripe,
+        invoice,
+        customerEmail,
+        isFirstSubscription && !isRenewal,
+        targetUserId
+      );
 
-        // Acquire a best-effort lock BEFORE sending any email (prevents duplicates even if email send/log insert fails)
+      if (ok) {
         await supabaseAdmin.from("activity_logs").insert({
           user_id: targetUserId,
           user_email: customerEmail,
-          event_type: invoiceLockType,
-          event_message: "Invoice processing locked",
+          event_type: emailEventType,
+          event_message: "Subscription email sent",
           event_details: {
             invoiceId: invoice.id,
             invoiceNumber: invoice.number,
+            renewal: isRenewal,
+            firstSubscription: isFirstSubscription,
+            subscriptionId: invoice.subscription || null,
           },
         });
-
-        const isRenewal = invoice.metadata?.renewal === "true";
-
-        // Check if user already has an active subscription record (to determine if this is their first)
-        const { data: existingSub } = await supabaseAdmin
-          .from("subscriptions")
-          .select("id, status")
-          .eq("user_id", targetUserId)
-          .maybeSingle();
-
-        // It's a first subscription if no record exists OR if the existing record is in trial/trialing status
-        const isFirstSubscription = !existingSub || existingSub.status === "trialing";
-
-        const emailEventType = isFirstSubscription && !isRenewal
-          ? "email_subscription_active"
-          : "email_payment_confirmed";
-
-        // Send welcome email for first subscription, payment confirmation for renewals
-        logStep("Determining email type", {
-          isFirstSubscription,
-          isRenewal,
-          existingStatus: existingSub?.status,
-        });
-
-        const ok = await sendPaymentConfirmationEmailForInvoice(
-          stripe,
-          invoice,
-          customerEmail,
-          isFirstSubscription && !isRenewal
-        );
-
-        if (ok) {
-          await supabaseAdmin.from("activity_logs").insert({
-            user_id: targetUserId,
-            user_email: customerEmail,
-            event_type: emailEventType,
-            event_message: "Subscription email sent",
-            event_details: {
-              invoiceId: invoice.id,
-              invoiceNumber: invoice.number,
-              renewal: isRenewal,
-              firstSubscription: isFirstSubscription,
-              subscriptionId: invoice.subscription || null,
-            },
-          });
-          
-          // Also mark subscription email as sent to prevent duplicates from subscription.created
-          if (invoice.subscription && (isFirstSubscription && !isRenewal)) {
-            await supabaseAdmin.from("activity_logs").insert({
-              user_id: targetUserId,
-              user_email: customerEmail,
-              event_type: "subscription_email_sent",
-              event_message: "Subscription confirmation email sent (via invoice.paid)",
-              event_details: { subscriptionId: invoice.subscription },
-            });
-          }
-        }
         
-        // Send owner notification email
-        let planType = "monthly";
-        if (invoice.subscription) {
-          try {
-            const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string);
-            planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
-          } catch (e) {
-            logStep("Could not retrieve subscription for plan type", { error: String(e) });
-          }
+        // Also mark subscription email as sent to prevent duplicates from subscription.created
+        if (invoice.subscription && (isFirstSubscription && !isRenewal)) {
+          await effects.record(`subscription_email:${invoice.subscription}`);
         }
-        
-        // Get customer name
-        const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
-        let customerName: string | null = null;
-        if (customerId) {
-          try {
-            const customer = await stripe.customers.retrieve(customerId);
-            customerName = (customer as any).name;
-          } catch (e) {
-            logStep("Could not retrieve customer name for owner notification", { error: String(e) });
-          }
+      }
+      
+      // Send owner notification email
+      let planType = "monthly";
+      if (invoice.subscription) {
+        try {
+          const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string);
+          planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
+        } catch (e) {
+          logStep("Could not retrieve subscription for plan type", { error: String(e) });
         }
-        
-        await sendOwnerPurchaseNotificationEmail(
-          customerEmail,
-          customerName,
-          planType,
-          invoice.amount_paid || 0,
-          invoice.currency || 'eur',
-          isFirstSubscription && !isRenewal,
-          false,
-          0
-        );
-      };
+      }
       
-      if (!userId) {
-        // Try to find user by customer email
-        const customerEmail = typeof invoice.customer_email === 'string' ? invoice.customer_email : null;
-        if (!customerEmail) {
-          logStep("No user_id or customer_email found");
-          return new Response(JSON.stringify({ received: true }), {
-            headers: { "Content-Type": "application/json" },
-            status: 200,
-          });
+      // Get customer name
+      const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
+      let customerName: string | null = null;
+      if (customerId) {
+        try {
+          const customer = await stripe.customers.retrieve(customerId);
+          customerName = (customer as any).name;
+        } catch (e) {
+          logStep("Could not retrieve customer name for owner notification", { error: String(e) });
         }
+      }
+      
+      await sendOwnerPurchaseNotificationEmail(
+        customerEmail,
+        customerName,
+        planType,
+        invoice.amount_paid || 0,
+        invoice.currency || 'eur',
+        isFirstSubscription && !isRenewal,
+        false,
+        0
+      );
+    };
+    
+    if (!userId) {
+      // Try to find user by customer email
+      const customerEmail = typeof invoice.customer_email === 'string' ? invoice.customer_email : null;
+      if (!customerEmail) {
+        logStep("No user_id or customer_email found");
+        return;
+      }
 
-        // Find profile by email
-        const { data: profile } = await supabaseAdmin
-          .from("profiles")
-          .select("user_id")
-          .eq("email", customerEmail)
-          .single();
-
-        if (!profile) {
-          logStep("No user found for email", { email: customerEmail });
-          return new Response(JSON.stringify({ received: true }), {
-            headers: { "Content-Type": "application/json" },
-            status: 200,
-          });
-        }
+      // Find profile by email
+      const { data: profile } = await supabaseAdmin
+        .from("profiles")
+        .select("user_id")
+        .eq("email", customerEmail)
+        .single();
 
-        // Check for first subscription BEFORE updating
-        await handleSubscriptionEmail(profile.user_id, customerEmail);
-        await updateSubscriptionFromInvoice(supabaseAdmin, profile.user_id, invoice, stripe);
-      } else {
-        // Get customer email first for the email
-        const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
-        let customerEmail: string | null = null;
-        
-        if (customerId) {
-          const customer = await stripe.customers.retrieve(customerId);
-          customerEmail = (customer as any).email;
-        }
-        
-        // Check for first subscription BEFORE updating
-        if (customerEmail) {
-          await handleSubscriptionEmail(userId, customerEmail);
-        }
-        
-        await updateSubscriptionFromInvoice(supabaseAdmin, userId, invoice, stripe);
+      if (!profile) {
+        logStep("No user found for email", { email: customerEmail });
+        return;
       }
 
-      logStep("Subscription updated from invoice payment");
+      // Check for first subscription BEFORE updating
+      await handleSubscriptionEmail(profile.user_id, customerEmail);
+      await updateSubscriptionFromInvoice(supabaseAdmin, profile.user_id, invoice, stripe);
+    } else {
+      // Get customer email first for the email
+      const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
+      let customerEmail: string | null = null;
+      
+      if (customerId) {
+        const customer = await stripe.customers.retrieve(customerId);
+        customerEmail = (customer as any).email;
+      }
+      
+      // Check for first subscription BEFORE updating
+      if (customerEmail) {
+        await handleSubscriptionEmail(userId, customerEmail);
+      }
+      
+      await updateSubscriptionFromInvoice(supabaseAdmin, userId, invoice, stripe);
     }
 
-    // Handle checkout.session.completed for one-time prepaid payments
-    // This is the reliable server-side way to activate prepaid access (instead of relying on client-side verify-payment)
-    if (event.type === "checkout.session.completed") {
-      const session = event.data.object as Stripe.Checkout.Session;
-      logStep("Checkout session completed", { 
-        sessionId: session.id, 
-        mode: session.mode, 
-        paymentStatus: session.payment_status,
-        metadata: session.metadata 
-      });
+    logStep("Subscription updated from invoice payment");
+  }
+
+  // Handle checkout.session.completed for one-time prepaid payments
+  // This is the reliable server-side way to activate prepaid access (instead of relying on client-side verify-payment)
+  if (event.type === "checkout.session.completed") {
+    const session = event.data.object as Stripe.Checkout.Session;
+    logStep("Checkout session completed", { 
+      sessionId: session.id, 
+      mode: session.mode, 
+      paymentStatus: session.payment_status,
+      metadata: session.metadata 
+    });
 
-      // Only handle one-time payment mode (prepaid), subscriptions are handled by invoice.paid
-      if (session.mode === "payment" && session.payment_status === "paid") {
-        const userId = session.metadata?.user_id;
-        const planType = session.metadata?.plan_type || "monthly";
-        const paymentMode = session.metadata?.payment_mode;
-        
-        logStep("Processing prepaid payment", { userId, planType, paymentMode });
-
-        if (userId) {
-          // Prevent duplicate processing
-          const checkoutLockType = "checkout_session_processed";
-          const { data: alreadyProcessed } = await supabaseAdmin
-            .from("activity_logs")
-            .select("id")
-            .eq("event_type", checkoutLockType)
-            .contains("event_details", { sessionId: session.id })
-            .maybeSingle();
-
-          if (alreadyProcessed) {
-            logStep("Skipping duplicate checkout session processing", { sessionId: session.id });
-            return new Response(JSON.stringify({ received: true }), {
-              headers: { "Content-Type": "application/json" },
-              status: 200,
-            });
-          }
+    // Only handle one-time payment mode (prepaid), subscriptions are handled by invoice.paid
+    if (session.mode === "payment" && session.payment_status === "paid") {
+      const userId = session.metadata?.user_id;
+      const planType = session.metadata?.plan_type || "monthly";
+      const paymentMode = session.metadata?.payment_mode;
+      
+      logStep("Processing prepaid payment", { userId, planType, paymentMode });
 
-          // Lock to prevent duplicate processing
-          await supabaseAdmin.from("activity_logs").insert({
-            user_id: userId,
-            user_email: session.customer_email || null,
-            event_type: checkoutLockType,
-            event_message: "Checkout session processing locked",
-            event_details: { sessionId: session.id },
-          });
+      if (userId) {
+        // Prevent extending access twice for one payment (e.g. when a failed event is replayed)
+        const checkoutEffect = `checkout:${session.id}`;
+        if (await effects.has(checkoutEffect)) {
+          logStep("Skipping duplicate checkout session processing", { sessionId: session.id });
+          return;
+        }
+        await effects.record(checkoutEffect);
 
-          // Check if user has existing valid access and extend from that date
-          const { data: existingSub } = await supabaseAdmin
-            .from("subscriptions")
-            .select("current_period_end, status")
-            .eq("user_id", userId)
-            .maybeSingle();
+        // Check if user has existing valid access and extend from that date
+        const { data: existingSub } = await supabaseAdmin
+          .from("subscriptions")
+          .select("current_period_end, status")
+          .eq("user_id", userId)
+          .maybeSingle();
 
-          const now = new Date();
-          let startDate = now;
-          
-          // If user has existing valid access, extend from that end date
-          if (existingSub?.current_period_end) {
-            const existingEnd = new Date(existingSub.current_period_end);
-            if (existingEnd > now && existingSub.status !== "trialing") {
-              startDate = existingEnd;
-              logStep("Extending existing prepaid access", { existingEnd: existingEnd.toISOString() });
-            }
+        const now = new Date();
+        let startDate = now;
+        
+        // If user has existing valid access, extend from that end date
+        if (existingSub?.current_period_end) {
+          const existingEnd = new Date(existingSub.current_period_end);
+          if (existingEnd > now && existingSub.status !== "trialing") {
+            startDate = existingEnd;
+            logStep("Extending existing prepaid access", { existingEnd: existingEnd.toISOString() });
           }
+        }
 
-          // Calculate end date based on plan type
-          let endDate: Date;
-          if (planType === "yearly") {
-            endDate = new Date(startDate);
-            endDate.setFullYear(endDate.getFullYear() + 1);
-          } else if (planType === "daily_test") {
-            endDate = new Date(startDate);
-            endDate.setDate(endDate.getDate() + 1);
-          } else {
-            endDate = new Date(startDate);
-            endDate.setMonth(endDate.getMonth() + 1);
-          }
+        // Calculate end date based on plan type
+        let endDate: Date;
+        if (planType === "yearly") {
+          endDate = new Date(startDate);
+          endDate.setFullYear(endDate.getFullYear() + 1);
+        } else if (planType === "daily_test") {
+          endDate = new Date(startDate);
+          endDate.setDate(endDate.getDate() + 1);
+        } else {
+          endDate = new Date(startDate);
+          endDate.setMonth(endDate.getMonth() + 1);
+        }
 
-          logStep("Prepaid access period calculated", { 
-            planType, 
-            startDate: startDate.toISOString(), 
-            endDate: endDate.toISOString() 
-          });
+        logStep("Prepaid access period calculated", { 
+          planType, 
+          startDate: startDate.toISOString(), 
+          endDate: endDate.toISOString() 
+        });
 
-          // Get customer ID from session
-          const customerId = typeof session.customer === 'string' ? session.customer : null;
+        // Get customer ID from session
+        const customerId = typeof session.customer === 'string' ? session.customer : null;
 
-          // Check if this is a first subscription (converting from trial)
-          const isFirstSubscription = !existingSub || existingSub.status === "trialing";
+        // Check if this is a first subscription (converting from trial)
+        const isFirstSubscription = !existingSub || existingSub.status === "trialing";
 
-          // Update subscription in database
-          const { error: upsertError } = await supabaseAdmin
-            .from("subscriptions")
-            .upsert({
-              user_id: userId,
-              stripe_customer_id: customerId,
-              stripe_subscription_id: null, // No subscription, just one-time payment
-              status: "active",
-              plan_type: planType,
-              current_period_start: startDate.toISOString(),
-              current_period_end: endDate.toISOString(),
-              updated_at: new Date().toISOString(),
-            }, { onConflict: "user_id" });
-
-          if (upsertError) {
-            logStep("Error activating prepaid subscription", { error: upsertError.message });
-          } else {
-            logStep("Prepaid subscription activated", { userId, planType, endDate: endDate.toISOString() });
-            
-            // IMPORTANT: Void any open invoices for this customer since they've now paid via card
-            // This prevents confusion where old unpaid invoices remain open after card payment
-            if (customerId) {
-              try {
-                const openInvoices = await stripe.invoices.list({
-                  customer: customerId,
-                  status: "open",
-                  limit: 10,
-                });
+        // Update subscription in database
+        const { error: upsertError } = await supabaseAdmin
+          .from("subscriptions")
+          .upsert({
+            user_id: userId,
+            stripe_customer_id: customerId,
+            stripe_subscription_id: null, // No subscription, just one-time payment
+            status: "active",
+            plan_type: planType,
+            current_period_start: startDate.toISOString(),
+            current_period_end: endDate.toISOString(),
+            updated_at: new Date().toISOString(),
+          }, { onConflict: "user_id" });
+
+        if (upsertError) {
+          logStep("Error activating prepaid subscription", { error: upsertError.message });
+        } else {
+          logStep("Prepaid subscription activated", { userId, planType, endDate: endDate.toISOString() });
+          
+          // IMPORTANT: Void any open invoices for this customer since they've now paid via card
+          // This prevents confusion where old unpaid invoices remain open after card payment
+          if (customerId) {
+            try {
+              const openInvoices = await stripe.invoices.list({
+                customer: customerId,
+                status: "open",
+                limit: 10,
+              });
+              
+              for (const openInv of openInvoices.data) {
+                // Only void invoices that are NOT for device slots (main subscription invoices only)
+                const invoiceLineItem = openInv.lines?.data?.[0];
+                const DEVICE_SLOT_PRICE_IDS = [
+                  "price_1SfhoMJrU52a7SNLpLI3yoEl", // monthly device slot
+                  "price_1Sj2PMJrU52a7SNLzhpFYfJd", // yearly device slot
+                ];
+                const isDeviceSlotInvoice = invoiceLineItem?.price?.id && DEVICE_SLOT_PRICE_IDS.includes(invoiceLineItem.price.id);
                 
-                for (const openInv of openInvoices.data) {
-                  // Only void invoices that are NOT for device slots (main subscription invoices only)
-                  const invoiceLineItem = openInv.lines?.data?.[0];
-                  const DEVICE_SLOT_PRICE_IDS = [
-                    "price_1SfhoMJrU52a7SNLpLI3yoEl", // monthly device slot
-                    "price_1Sj2PMJrU52a7SNLzhpFYfJd", // yearly device slot
-                  ];
-                  const isDeviceSlotInvoice = invoiceLineItem?.price?.id && DEVICE_SLOT_PRICE_IDS.includes(invoiceLineItem.price.id);
-                  
-                  if (!isDeviceSlotInvoice) {
-                    await stripe.invoices.voidInvoice(openInv.id);
-                    logStep("Voided old open invoice after card payment", { 
-                      invoiceId: openInv.id, 
-                      invoiceNumber: openInv.number,
-                      amount: openInv.amount_due 
-                    });
-                  }
+                if (!isDeviceSlotInvoice) {
+                  await stripe.invoices.voidInvoice(openInv.id);
+                  logStep("Voided old open invoice after card payment", { 
+                    invoiceId: openInv.id, 
+                    invoiceNumber: openInv.number,
+                    amount: openInv.amount_due 
+                  });
                 }
+              }
+              
+              // Also delete any draft invoices
+              const draftInvoices = await stripe.invoices.list({
+                customer: customerId,
+                status: "draft",
+                limit: 10,
+              });
+              
+              for (const draftInv of draftInvoices.data) {
+                const invoiceLineItem = draftInv.lines?.data?.[0];
+                const DEVICE_SLOT_PRICE_IDS = [
+                  "price_1SfhoMJrU52a7SNLpLI3yoEl",
+                  "price_1Sj2PMJrU52a7SNLzhpFYfJd",
+                ];
+                const isDeviceSlotInvoice = invoiceLineItem?.price?.id && DEVICE_SLOT_PRICE_IDS.includes(invoiceLineItem.price.id);
                 
-                // Also delete any draft invoices
-                const draftInvoices = await stripe.invoices.list({
-                  customer: customerId,
-                  status: "draft",
-                  limit: 10,
-                });
-                
-                for (const draftInv of draftInvoices.data) {
-                  const invoiceLineItem = draftInv.lines?.data?.[0];
-                  const DEVICE_SLOT_PRICE_IDS = [
-                    "price_1SfhoMJrU52a7SNLpLI3yoEl",
-                    "price_1Sj2PMJrU52a7SNLzhpFYfJd",
-                  ];
-                  const isDeviceSlotInvoice = invoiceLineItem?.price?.id && DEVICE_SLOT_PRICE_IDS.includes(invoiceLineItem.price.id);
-                  
-                  if (!isDeviceSlotInvoice) {
-                    await stripe.invoices.del(draftInv.id);
-                    logStep("Deleted old draft invoice after card payment", { invoiceId: draftInv.id });
-                  }
+                if (!isDeviceSlotInvoice) {
+                  await stripe.invoices.del(draftInv.id);
+                  logStep("Deleted old draft invoice after card payment", { invoiceId: draftInv.id });
                 }
-              } catch (cleanupError) {
-                logStep("Error cleaning up old invoices after card payment", { error: String(cleanupError) });
-                // Don't fail the whole process if cleanup fails
               }
+            } catch (cleanupError) {
+              logStep("Error cleaning up old invoices after card payment", { error: String(cleanupError) });
+              // Don't fail the whole process if cleanup fails
             }
           }
+        }
 
-          // Get customer details for emails
-          let customerEmail = session.customer_email;
-          let customerName: string | null = null;
-          
-          if (customerId) {
-            try {
-              const customer = await stripe.customers.retrieve(customerId);
-              customerEmail = customerEmail || (customer as any).email;
-              customerName = (customer as any).name;
-            } catch (e) {
-              logStep("Could not retrieve customer details", { error: String(e) });
-            }
+        // Get customer details for emails
+        let customerEmail = session.customer_email;
+        let customerName: string | null = null;
+        
+        if (customerId) {
+          try {
+            const customer = await stripe.customers.retrieve(customerId);
+            customerEmail = customerEmail || (customer as any).email;
+            customerName = (customer as any).name;
+          } catch (e) {
+            logStep("Could not retrieve customer details", { error: String(e) });
           }
+        }
 
-          // Get amount from session
-          const amount = session.amount_total || 0;
-          const currency = session.currency || 'eur';
-
-          // Send confirmation email to customer
-          if (customerEmail) {
-            // For first subscription, send welcome email; otherwise, send prepaid confirmation
-            if (isFirstSubscription) {
-              await sendSubscriptionConfirmationEmail(
-                customerEmail,
-                customerName,
-                planType,
-                endDate
-              );
-              logStep("Welcome email sent for prepaid first subscription", { email: customerEmail });
-            } else {
-              await sendPaymentConfirmationEmail(
-                customerEmail,
-                customerName,
-                amount,
-                currency,
-                planType,
-                endDate,
-                null // No invoice number for prepaid checkout
-              );
-              logStep("Payment confirmation email sent for prepaid", { email: customerEmail });
-            }
+        // Get amount from session
+        const amount = session.amount_total || 0;
+        const currency = session.currency || 'eur';
 
-            // Send owner notification email
-            await sendOwnerPurchaseNotificationEmail(
+        // Send confirmation email to customer
+        if (customerEmail) {
+          // For first subscription, send welcome email; otherwise, send prepaid confirmation
+          if (isFirstSubscription) {
+            await sendSubscriptionConfirmationEmail(
+              supabaseAdmin,
               customerEmail,
               customerName,
               planType,
+              endDate,
+              userId
+            );
+            logStep("Welcome email sent for prepaid first subscription", { email: customerEmail });
+          } else {
+            await sendPaymentConfirmationEmail(
+              supabaseAdmin,
+              customerEmail,
+              customerName,
               amount,
               currency,
-              isFirstSubscription,
-              false,
-              0
+              planType,
+              endDate,
+              null, // No invoice number for prepaid checkout
+              userId
             );
-            logStep("Owner notification sent for prepaid purchase", { customerEmail });
-
-            // Log the purchase activity
-            await supabaseAdmin.from("activity_logs").insert({
-              user_id: userId,
-              user_email: customerEmail,
-              event_type: isFirstSubscription ? "prepaid_first_subscription" : "prepaid_renewal",
-              event_message: `Prepaid ${planType} access activated`,
-              event_details: { 
-                sessionId: session.id, 
-                planType, 
-                amount, 
-                currency,
-                accessUntil: endDate.toISOString() 
-              },
-            });
+            logStep("Payment confirmation email sent for prepaid", { email: customerEmail });
           }
-        } else {
-          logStep("No user_id in checkout session metadata", { sessionId: session.id });
+
+          // Send owner notification email
+          await sendOwnerPurchaseNotificationEmail(
+            customerEmail,
+            customerName,
+            planType,
+            amount,
+            currency,
+            isFirstSubscription,
+            false,
+            0
+          );
+          logStep("Owner notification sent for prepaid purchase", { customerEmail });
+
+          // Log the purchase activity
+          await supabaseAdmin.from("activity_logs").insert({
+            user_id: userId,
+            user_email: customerEmail,
+            event_type: isFirstSubscription ? "prepaid_first_subscription" : "prepaid_renewal",
+            event_message: `Prepaid ${planType} access activated`,
+            event_details: { 
+              sessionId: session.id, 
+              planType, 
+              amount, 
+              currency,
+              accessUntil: endDate.toISOString() 
+            },
+          });
         }
+      } else {
+        logStep("No user_id in checkout session metadata", { sessionId: session.id });
       }
     }
+  }
 
-    // Handle subscription events for recurring subscriptions
-    if (event.type === "invoice.payment_failed") {
-      const invoice = event.data.object as Stripe.Invoice;
-      logStep("Invoice payment failed", { invoiceId: invoice.id });
-      
-      // Get customer details for email
-      const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
-      let customerEmail: string | null = null;
-      let customerName: string | null = null;
+  // Handle subscription events for recurring subscriptions
+  if (event.type === "invoice.payment_failed") {
+    const invoice = event.data.object as Stripe.Invoice;
+    logStep("Invoice payment failed", { invoiceId: invoice.id });
+    
+    // Get customer details for email
+    const customerId = typeof invoice.customer === 'string' ? invoice.customer : (invoice.customer as any)?.id;
+    let customerEmail: string | null = null;
+    let customerName: string | null = null;
+    
+    if (customerId) {
+      try {
+        const customer = await stripe.customers.retrieve(customerId);
+        customerEmail = (customer as any).email;
+        customerName = (customer as any).name;
+      } catch (e) {
+        logStep("Could not retrieve customer", { error: String(e) });
+      }
+    }
+    
+    // Get user from metadata or email
+    const userId = invoice.metadata?.user_id;
+    if (userId) {
+      // Update subscription status to past_due
+      await supabaseAdmin
+        .from("subscriptions")
+        .update({ 
+          status: "past_due",
+          updated_at: new Date().toISOString()
+        })
+        .eq("user_id", userId);
       
-      if (customerId) {
+      logStep("Subscription marked as past_due", { userId });
+
+      // Log payment failed activity
+      const { data: profile } = await supabaseAdmin
+        .from("profiles")
+        .select("email")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      await supabaseAdmin.from('activity_logs').insert({
+        user_id: userId,
+        user_email: profile?.email || customerEmail || null,
+        event_type: 'payment_failed',
+        event_message: 'Subscription payment failed',
+        event_details: { invoiceId: invoice.id, amount: invoice.amount_due, currency: invoice.currency },
+      });
+    }
+    
+    // Send payment failed email
+    if (customerEmail) {
+      // Determine plan type from subscription
+      let planType = "monthly";
+      if (invoice.subscription) {
         try {
-          const customer = await stripe.customers.retrieve(customerId);
-          customerEmail = (customer as any).email;
-          customerName = (customer as any).name;
+          const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string);
+          planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
         } catch (e) {
-          logStep("Could not retrieve customer", { error: String(e) });
+          logStep("Could not retrieve subscription for plan type", { error: String(e) });
         }
       }
       
-      // Get user from metadata or email
-      const userId = invoice.metadata?.user_id;
-      if (userId) {
-        // Update subscription status to past_due
-        await supabaseAdmin
-          .from("subscriptions")
-          .update({ 
-            status: "past_due",
-            updated_at: new Date().toISOString()
-          })
-          .eq("user_id", userId);
-        
-        logStep("Subscription marked as past_due", { userId });
-
-        // Log payment failed activity
-        const { data: profile } = await supabaseAdmin
-          .from("profiles")
-          .select("email")
-          .eq("user_id", userId)
-          .maybeSingle();
-
-        await supabaseAdmin.from('activity_logs').insert({
-          user_id: userId,
-          user_email: profile?.email || customerEmail || null,
-          event_type: 'payment_failed',
-          event_message: 'Subscription payment failed',
-          event_details: { invoiceId: invoice.id, amount: invoice.amount_due, currency: invoice.currency },
-        });
-      }
-      
-      // Send payment failed email
-      if (customerEmail) {
-        // Determine plan type from subscription
-        let planType = "monthly";
-        if (invoice.subscription) {
-          try {
-            const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string);
-            planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
-          } catch (e) {
-            logStep("Could not retrieve subscription for plan type", { error: String(e) });
-          }
-        }
-        
-        await sendPaymentFailedEmail(
-          customerEmail,
-          customerName,
-          invoice.amount_due || 0,
-          invoice.currency || 'eur',
-          planType
-        );
-      }
+      await sendPaymentFailedEmail(
+        supabaseAdmin,
+        customerEmail,
+        customerName,
+        invoice.amount_due || 0,
+        invoice.currency || 'eur',
+        planType,
+        userId
+      );
     }
+  }
 
-    // Handle invoice becoming uncollectible (unpaid after grace period for invoice-based payments)
-    // This happens when an invoice-based subscription's invoice isn't paid
-    if (event.type === "invoice.marked_uncollectible" || event.type === "invoice.voided") {
-      const invoice = event.data.object as Stripe.Invoice;
-      logStep(`Invoice ${event.type}`, { invoiceId: invoice.id, subscriptionId: invoice.subscription });
-      
-      // If this invoice is tied to a subscription, cancel the subscription
-      if (invoice.subscription) {
-        try {
-          const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string);
+  // Handle invoice becoming uncollectible (unpaid after grace period for invoice-based payments)
+  // This happens when an invoice-based subscription's invoice isn't paid
+  if (event.type === "invoice.marked_uncollectible" || event.type === "invoice.voided") {
+    const invoice = event.data.object as Stripe.Invoice;
+    logStep(`Invoice ${event.type}`, { invoiceId: invoice.id, subscriptionId: invoice.subscription });
+    
+    // If this invoice is tied to a subscription, cancel the subscription
+    if (invoice.subscription) {
+      try {
+        const subscription = await stripe.subscriptions.retrieve(invoice.subscription as string);
+        
+        // Check if this is a device slot subscription (unpaid invoice = should be canceled)
+        const priceId = subscription.items?.data?.[0]?.price?.id;
+        const DEVICE_SLOT_PRICES = [
+          "price_1SfhoMJrU52a7SNLpLI3yoEl", // monthly €5
+          "price_1Sj2PMJrU52a7SNLzhpFYfJd", // yearly €50
+        ];
+        
+        if (DEVICE_SLOT_PRICES.includes(priceId || "")) {
+          // Cancel the device slot subscription immediately since invoice wasn't paid
+          await stripe.subscriptions.cancel(subscription.id);
+          logStep("Canceled unpaid device slot subscription", { subscriptionId: subscription.id });
+          
+          // Get customer details for email
+          const customerId = typeof subscription.customer === 'string' 
+            ? subscription.customer 
+            : (subscription.customer as any)?.id;
+          
+          let customerEmail: string | null = null;
+          let customerName: string | null = null;
+          
+          if (customerId) {
+            try {
+              const customer = await stripe.customers.retrieve(customerId);
+              customerEmail = (customer as any).email;
+              customerName = (customer as any).name;
+            } catch (e) {
+              logStep("Could not retrieve customer for email", { error: String(e) });
+            }
+          }
+          
+          // Sync device slots for the user
+          const userId = subscription.metadata?.user_id;
+            
+          if (userId && customerId) {
+            await syncDeviceSlotsForUser(supabaseAdmin, userId, stripe, customerId);
+            logStep("Device slots synced after unpaid invoice cancellation", { userId });
+          }
           
-          // Check if this is a device slot subscription (unpaid invoice = should be canceled)
-          const priceId = subscription.items?.data?.[0]?.price?.id;
-          const DEVICE_SLOT_PRICES = [
-            "price_1SfhoMJrU52a7SNLpLI3yoEl", // monthly €5
-            "price_1Sj2PMJrU52a7SNLzhpFYfJd", // yearly €50
-          ];
+          // Send cancellation email
+          if (customerEmail) {
+            const quantity = subscription.items?.data?.[0]?.quantity || 1;
+            const period = priceId === "price_1Sj2PMJrU52a7SNLzhpFYfJd" ? "yearly" : "monthly";
+            await sendDeviceSlotUnpaidCancellationEmail(
+              supabaseAdmin,
+              customerEmail,
+              customerName,
+              quantity,
+              period,
+              userId
+            );
+          }
           
-          if (DEVICE_SLOT_PRICES.includes(priceId || "")) {
-            // Cancel the device slot subscription immediately since invoice wasn't paid
-            await stripe.subscriptions.cancel(subscription.id);
-            logStep("Canceled unpaid device slot subscription", { subscriptionId: subscription.id });
+          // Log activity
+          if (userId) {
+            const { data: profile } = await supabaseAdmin
+              .from("profiles")
+              .select("email")
+              .eq("user_id", userId)
+              .maybeSingle();
+
+            await supabaseAdmin.from('activity_logs').insert({
+              user_id: userId,
+              user_email: profile?.email || customerEmail || null,
+              event_type: 'device_slot_canceled_unpaid',
+              event_message: 'Device slot subscription canceled due to unpaid invoice',
+              event_details: { subscriptionId: subscription.id, invoiceId: invoice.id },
+            });
+          }
+        } else {
+          // Main subscription - mark as canceled
+          const userId = subscription.metadata?.user_id;
+          if (userId) {
+            await supabaseAdmin
+              .from("subscriptions")
+              .update({ 
+                status: "canceled",
+                updated_at: new Date().toISOString()
+              })
+              .eq("user_id", userId);
+            
+            logStep("Main subscription marked as canceled due to unpaid invoice", { userId });
             
             // Get customer details for email
             const customerId = typeof subscription.customer === 'string' 
@@ -2339,511 +1541,484 @@ serve(async (req) => {
               }
             }
             
-            // Sync device slots for the user
-            const userId = subscription.metadata?.user_id;
-              
-            if (userId && customerId) {
-              await syncDeviceSlotsForUser(supabaseAdmin, userId, stripe, customerId);
-              logStep("Device slots synced after unpaid invoice cancellation", { userId });
-            }
+            // Determine plan type from subscription
+            const priceId = subscription.items?.data?.[0]?.price?.id;
+            const planType = priceId?.includes("yearly") || 
+              subscription.items?.data?.[0]?.price?.recurring?.interval === "year" 
+                ? "yearly" : "monthly";
             
-            // Send cancellation email
+            // Send access suspended email to user
             if (customerEmail) {
-              const quantity = subscription.items?.data?.[0]?.quantity || 1;
-              const period = priceId === "price_1Sj2PMJrU52a7SNLzhpFYfJd" ? "yearly" : "monthly";
-              await sendDeviceSlotUnpaidCancellationEmail(
-                customerEmail,
-                customerName,
-                quantity,
-                period
-              );
+              await sendAccessSuspendedEmail(supabaseAdmin, customerEmail, customerName, planType, userId);
+              logStep("Sent access suspended email", { to: customerEmail });
             }
             
             // Log activity
-            if (userId) {
-              const { data: profile } = await supabaseAdmin
-                .from("profiles")
-                .select("email")
-                .eq("user_id", userId)
-                .maybeSingle();
-
-              await supabaseAdmin.from('activity_logs').insert({
-                user_id: userId,
-                user_email: profile?.email || customerEmail || null,
-                event_type: 'device_slot_canceled_unpaid',
-                event_message: 'Device slot subscription canceled due to unpaid invoice',
-                event_details: { subscriptionId: subscription.id, invoiceId: invoice.id },
-              });
-            }
-          } else {
-            // Main subscription - mark as canceled
-            const userId = subscription.metadata?.user_id;
-            if (userId) {
-              await supabaseAdmin
-                .from("subscriptions")
-                .update({ 
-                  status: "canceled",
-                  updated_at: new Date().toISOString()
-                })
-                .eq("user_id", userId);
-              
-              logStep("Main subscription marked as canceled due to unpaid invoice", { userId });
-              
-              // Get customer details for email
-              const customerId = typeof subscription.customer === 'string' 
-                ? subscription.customer 
-                : (subscription.customer as any)?.id;
-              
-              let customerEmail: string | null = null;
-              let customerName: string | null = null;
-              
-              if (customerId) {
-                try {
-                  const customer = await stripe.customers.retrieve(customerId);
-                  customerEmail = (customer as any).email;
-                  customerName = (customer as any).name;
-                } catch (e) {
-                  logStep("Could not retrieve customer for email", { error: String(e) });
-                }
-              }
-              
-              // Determine plan type from subscription
-              const priceId = subscription.items?.data?.[0]?.price?.id;
-              const planType = priceId?.includes("yearly") || 
-                subscription.items?.data?.[0]?.price?.recurring?.interval === "year" 
-                  ? "yearly" : "monthly";
-              
-              // Send access suspended email to user
-              if (customerEmail) {
-                await sendAccessSuspendedEmail(customerEmail, customerName, planType);
-                logStep("Sent access suspended email", { to: customerEmail });
-              }
-              
-              // Log activity
-              const { data: profile } = await supabaseAdmin
-                .from("profiles")
-                .select("email")
-                .eq("user_id", userId)
-                .maybeSingle();
+            const { data: profile } = await supabaseAdmin
+              .from("profiles")
+              .select("email")
+              .eq("user_id", userId)
+              .maybeSingle();
 
-              await supabaseAdmin.from('activity_logs').insert({
-                user_id: userId,
-                user_email: profile?.email || customerEmail || null,
-                event_type: 'subscription_canceled_unpaid',
-                event_message: 'Subscription canceled due to unpaid invoice',
-                event_details: { subscriptionId: subscription.id, invoiceId: invoice.id },
-              });
-            }
+            await supabaseAdmin.from('activity_logs').insert({
+              user_id: userId,
+              user_email: profile?.email || customerEmail || null,
+              event_type: 'subscription_canceled_unpaid',
+              event_message: 'Subscription canceled due to unpaid invoice',
+              event_details: { subscriptionId: subscription.id, invoiceId: invoice.id },
+            });
           }
-        } catch (e) {
-          logStep("Error handling uncollectible invoice", { error: String(e) });
         }
+      } catch (e) {
+        logStep("Error handling uncollectible invoice", { error: String(e) });
       }
     }
-    // Handle subscription status changes (trial to active) and plan changes
-    if (event.type === "customer.subscription.updated") {
-      const subscription = event.data.object as Stripe.Subscription;
-      const previousAttributes = (event.data as any).previous_attributes;
-      
-      logStep("Subscription updated", { 
-        subscriptionId: subscription.id, 
-        status: subscription.status,
-        previousStatus: previousAttributes?.status 
-      });
+  }
+  // Handle subscription status changes (trial to active) and plan changes
+  if (event.type === "customer.subscription.updated") {
+    const subscription = event.data.object as Stripe.Subscription;
+    const previousAttributes = (event.data as any).previous_attributes;
+    
+    logStep("Subscription updated", { 
+      subscriptionId: subscription.id, 
+      status: subscription.status,
+      previousStatus: previousAttributes?.status 
+    });
 
-      const userId = subscription.metadata?.user_id;
-      const customerId = typeof subscription.customer === 'string' 
-        ? subscription.customer 
-        : (subscription.customer as any)?.id;
+    const userId = subscription.metadata?.user_id;
+    const customerId = typeof subscription.customer === 'string' 
+      ? subscription.customer 
+      : (subscription.customer as any)?.id;
 
-      // Check if this is a plan change (price change)
-      if (previousAttributes?.items && subscription.status === "active") {
-        const previousPriceId = previousAttributes.items?.data?.[0]?.price?.id;
-        const newPriceId = subscription.items?.data?.[0]?.price?.id;
-        
-        // Skip if it's a device slot subscription
-        const DEVICE_SLOT_PRICES = [
-          "price_1SfhoMJrU52a7SNLpLI3yoEl", // monthly device slot
-          "price_1Sj2PMJrU52a7SNLzhpFYfJd", // yearly device slot
-        ];
-        const isDeviceSlot = DEVICE_SLOT_PRICES.includes(newPriceId || '') || DEVICE_SLOT_PRICES.includes(previousPriceId || '');
+    // Check if this is a plan change (price change)
+    if (previousAttributes?.items && subscription.status === "active") {
+      const previousPriceId = previousAttributes.items?.data?.[0]?.price?.id;
+      const newPriceId = subscription.items?.data?.[0]?.price?.id;
+      
+      // Skip if it's a device slot subscription
+      const DEVICE_SLOT_PRICES = [
+        "price_1SfhoMJrU52a7SNLpLI3yoEl", // monthly device slot
+        "price_1Sj2PMJrU52a7SNLzhpFYfJd", // yearly device slot
+      ];
+      const isDeviceSlot = DEVICE_SLOT_PRICES.includes(newPriceId || '') || DEVICE_SLOT_PRICES.includes(previousPriceId || '');
+      
+      if (!isDeviceSlot && previousPriceId && newPriceId && previousPriceId !== newPriceId) {
+        logStep("Plan change detected", { previousPriceId, newPriceId });
         
-        if (!isDeviceSlot && previousPriceId && newPriceId && previousPriceId !== newPriceId) {
-          logStep("Plan change detected", { previousPriceId, newPriceId });
-          
-          // Determine old and new plan types
-          const previousInterval = previousAttributes.items?.data?.[0]?.price?.recurring?.interval;
-          const newInterval = subscription.items?.data?.[0]?.price?.recurring?.interval;
-          const oldPlan = previousInterval === 'year' ? 'yearly' : 'monthly';
-          const newPlan = newInterval === 'year' ? 'yearly' : 'monthly';
-          
-          if (oldPlan !== newPlan && customerId) {
-            try {
-              const customer = await stripe.customers.retrieve(customerId);
-              const customerEmail = (customer as any).email;
-              const customerName = (customer as any).name;
-              
-              if (customerEmail) {
-                const amount = subscription.items?.data?.[0]?.price?.unit_amount || 0;
-                const currency = subscription.items?.data?.[0]?.price?.currency || 'eur';
-                const periodEnd = new Date(subscription.current_period_end * 1000);
-                
-                await sendPlanChangeEmail(
-                  customerEmail,
-                  customerName,
-                  oldPlan,
-                  newPlan,
-                  amount,
-                  currency,
-                  periodEnd
-                );
-                
-                logStep("Plan change email sent", { email: customerEmail, oldPlan, newPlan });
-              }
-            } catch (e) {
-              logStep("Error sending plan change email", { error: String(e) });
-            }
-            
-            // Log the plan change activity
-            if (userId) {
-              const { data: profile } = await supabaseAdmin
-                .from("profiles")
-                .select("email")
-                .eq("user_id", userId)
-                .maybeSingle();
-
-              await supabaseAdmin.from('activity_logs').insert({
-                user_id: userId,
-                user_email: profile?.email || null,
-                event_type: 'plan_changed',
-                event_message: `Plan changed from ${oldPlan} to ${newPlan}`,
-                event_details: { subscriptionId: subscription.id, oldPlan, newPlan },
-              });
-            }
-          }
-        }
-      }
-
-      // Check if this is a trial-to-active conversion
-      if (previousAttributes?.status === "trialing" && subscription.status === "active") {
-        logStep("Trial converted to active subscription");
+        // Determine old and new plan types
+        const previousInterval = previousAttributes.items?.data?.[0]?.price?.recurring?.interval;
+        const newInterval = subscription.items?.data?.[0]?.price?.recurring?.interval;
+        const oldPlan = previousInterval === 'year' ? 'yearly' : 'monthly';
+        const newPlan = newInterval === 'year' ? 'yearly' : 'monthly';
         
-        if (customerId) {
+        if (oldPlan !== newPlan && customerId) {
           try {
             const customer = await stripe.customers.retrieve(customerId);
             const customerEmail = (customer as any).email;
             const customerName = (customer as any).name;
             
             if (customerEmail) {
-              const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
+              const amount = subscription.items?.data?.[0]?.price?.unit_amount || 0;
+              const currency = subscription.items?.data?.[0]?.price?.currency || 'eur';
               const periodEnd = new Date(subscription.current_period_end * 1000);
               
-              await sendSubscriptionConfirmationEmail(
+              await sendPlanChangeEmail(
+                supabaseAdmin,
                 customerEmail,
                 customerName,
-                planType,
-                periodEnd
+                oldPlan,
+                newPlan,
+                amount,
+                currency,
+                periodEnd,
+                userId
               );
               
-              logStep("Subscription confirmation email sent for trial conversion", { email: customerEmail });
+              logStep("Plan change email sent", { email: customerEmail, oldPlan, newPlan });
             }
           } catch (e) {
-            logStep("Error sending subscription confirmation email", { error: String(e) });
+            logStep("Error sending plan change email", { error: String(e) });
+          }
+          
+          // Log the plan change activity
+          if (userId) {
+            const { data: profile } = await supabaseAdmin
+              .from("profiles")
+              .select("email")
+              .eq("user_id", userId)
+              .maybeSingle();
+
+            await supabaseAdmin.from('activity_logs').insert({
+              user_id: userId,
+              user_email: profile?.email || null,
+              event_type: 'plan_changed',
+              event_message: `Plan changed from ${oldPlan} to ${newPlan}`,
+              event_details: { subscriptionId: subscription.id, oldPlan, newPlan },
+            });
           }
         }
+      }
+    }
 
-        // Log the conversion activity
-        if (userId) {
-          const { data: profile } = await supabaseAdmin
-            .from("profiles")
-            .select("email")
-            .eq("user_id", userId)
-            .maybeSingle();
-
-          await supabaseAdmin.from('activity_logs').insert({
-            user_id: userId,
-            user_email: profile?.email || null,
-            event_type: 'trial_converted',
-            event_message: 'Trial converted to active subscription',
-            event_details: { subscriptionId: subscription.id },
-          });
+    // Check if this is a trial-to-active conversion
+    if (previousAttributes?.status === "trialing" && subscription.status === "active") {
+      logStep("Trial converted to active subscription");
+      
+      if (customerId) {
+        try {
+          const customer = await stripe.customers.retrieve(customerId);
+          const customerEmail = (customer as any).email;
+          const customerName = (customer as any).name;
+          
+          if (customerEmail) {
+            const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
+            const periodEnd = new Date(subscription.current_period_end * 1000);
+            
+            await sendSubscriptionConfirmationEmail(
+              supabaseAdmin,
+              customerEmail,
+              customerName,
+              planType,
+              periodEnd,
+              userId
+            );
+            
+            logStep("Subscription confirmation email sent for trial conversion", { email: customerEmail });
+          }
+        } catch (e) {
+          logStep("Error sending subscription confirmation email", { error: String(e) });
         }
       }
 
-      // Check if user initiated cancellation (cancel_at_period_end changed to true)
-      if (previousAttributes?.cancel_at_period_end === false && subscription.cancel_at_period_end === true) {
-        logStep("User initiated subscription cancellation", { 
-          subscriptionId: subscription.id, 
-          cancelAt: subscription.cancel_at 
+      // Log the conversion activity
+      if (userId) {
+        const { data: profile } = await supabaseAdmin
+          .from("profiles")
+          .select("email")
+          .eq("user_id", userId)
+          .maybeSingle();
+
+        await supabaseAdmin.from('activity_logs').insert({
+          user_id: userId,
+          user_email: profile?.email || null,
+          event_type: 'trial_converted',
+          event_message: 'Trial converted to active subscription',
+          event_details: { subscriptionId: subscription.id },
         });
+      }
+    }
 
-        // Skip device slot subscriptions - they have their own email handler
-        const DEVICE_SLOT_PRICES = [
-          "price_1SfhoMJrU52a7SNLpLI3yoEl", // monthly device slot
-          "price_1Sj2PMJrU52a7SNLzhpFYfJd", // yearly device slot
-        ];
-        const priceId = subscription.items?.data?.[0]?.price?.id;
-        const isDeviceSlot = DEVICE_SLOT_PRICES.includes(priceId || '');
+    // Check if user initiated cancellation (cancel_at_period_end changed to true)
+    if (previousAttributes?.cancel_at_period_end === false && subscription.cancel_at_period_end === true) {
+      logStep("User initiated subscription cancellation", { 
+        subscriptionId: subscription.id, 
+        cancelAt: subscription.cancel_at 
+      });
 
-        if (!isDeviceSlot && customerId) {
-          try {
-            const customer = await stripe.customers.retrieve(customerId);
-            const customerEmail = (customer as any).email;
-            const customerName = (customer as any).name;
+      // Skip device slot subscriptions - they have their own email handler
+      const DEVICE_SLOT_PRICES = [
+        "price_1SfhoMJrU52a7SNLpLI3yoEl", // monthly device slot
+        "price_1Sj2PMJrU52a7SNLzhpFYfJd", // yearly device slot
+      ];
+      const priceId = subscription.items?.data?.[0]?.price?.id;
+      const isDeviceSlot = DEVICE_SLOT_PRICES.includes(priceId || '');
 
-            if (customerEmail) {
-              const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
-              const accessUntil = new Date(subscription.current_period_end * 1000);
+      if (!isDeviceSlot && customerId) {
+        try {
+          const customer = await stripe.customers.retrieve(customerId);
+          const customerEmail = (customer as any).email;
+          const customerName = (customer as any).name;
 
-              await sendCancellationConfirmationEmail(
-                customerEmail,
-                customerName,
-                planType,
-                accessUntil
-              );
+          if (customerEmail) {
+            const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
+            const accessUntil = new Date(subscription.current_period_end * 1000);
 
-              logStep("Cancellation confirmation email sent", { email: customerEmail, accessUntil: accessUntil.toISOString() });
-            }
-          } catch (e) {
-            logStep("Error sending cancellation confirmation email", { error: String(e) });
+            await sendCancellationConfirmationEmail(
+              supabaseAdmin,
+              customerEmail,
+              customerName,
+              planType,
+              accessUntil,
+              userId
+            );
+
+            logStep("Cancellation confirmation email sent", { email: customerEmail, accessUntil: accessUntil.toISOString() });
           }
+        } catch (e) {
+          logStep("Error sending cancellation confirmation email", { error: String(e) });
         }
+      }
 
-        // Log the cancellation initiation activity
-        if (userId) {
-          const { data: profile } = await supabaseAdmin
-            .from("profiles")
-            .select("email")
-            .eq("user_id", userId)
-            .maybeSingle();
+      // Log the cancellation initiation activity
+      if (userId) {
+        const { data: profile } = await supabaseAdmin
+          .from("profiles")
+          .select("email")
+          .eq("user_id", userId)
+          .maybeSingle();
 
-          const accessUntil = new Date(subscription.current_period_end * 1000);
-          await supabaseAdmin.from('activity_logs').insert({
-            user_id: userId,
-            user_email: profile?.email || null,
-            event_type: 'subscription_cancellation_initiated',
-            event_message: `Subscription set to cancel on ${accessUntil.toISOString().split('T')[0]}`,
-            event_details: { subscriptionId: subscription.id, cancelAt: subscription.cancel_at },
-          });
-        }
+        const accessUntil = new Date(subscription.current_period_end * 1000);
+        await supabaseAdmin.from('activity_logs').insert({
+          user_id: userId,
+          user_email: profile?.email || null,
+          event_type: 'subscription_cancellation_initiated',
+          event_message: `Subscription set to cancel on ${accessUntil.toISOString().split('T')[0]}`,
+          event_details: { subscriptionId: subscription.id, cancelAt: subscription.cancel_at },
+        });
       }
     }
+  }
 
-    // Handle new subscription creation - especially for 0-amount subscriptions (100% coupons)
-    // When amount is 0, no invoice.paid event is triggered, so we handle it here
-    if (event.type === "customer.subscription.created") {
-      const subscription = event.data.object as Stripe.Subscription;
-      
-      logStep("Subscription created", { 
-        subscriptionId: subscription.id, 
-        status: subscription.status 
-      });
-
-      // Only process if subscription is active (not trialing)
-      // Trialing subscriptions will be handled when they convert to active
-      if (subscription.status === "active") {
-        const userId = subscription.metadata?.user_id;
-        const customerId = typeof subscription.customer === 'string' 
-          ? subscription.customer 
-          : (subscription.customer as any)?.id;
+  // Handle new subscription creation - especially for 0-amount subscriptions (100% coupons)
+  // When amount is 0, no invoice.paid event is triggered, so we handle it here
+  if (event.type === "customer.subscription.created") {
+    const subscription = event.data.object as Stripe.Subscription;
+    
+    logStep("Subscription created", { 
+      subscriptionId: subscription.id, 
+      status: subscription.status 
+    });
 
-        // Skip device slot subscriptions - they're handled separately
-        const DEVICE_SLOT_PRICES = [
-          "price_1SfhoMJrU52a7SNLpLI3yoEl", // monthly device slot
-          "price_1Sj2PMJrU52a7SNLzhpFYfJd", // yearly device slot
-        ];
-        const priceId = subscription.items?.data?.[0]?.price?.id;
-        const isDeviceSlot = DEVICE_SLOT_PRICES.includes(priceId || '');
+    // Only process if subscription is active (not trialing)
+    // Trialing subscriptions will be handled when they convert to active
+    if (subscription.status === "active") {
+      const userId = subscription.metadata?.user_id;
+      const customerId = typeof subscription.customer === 'string' 
+        ? subscription.customer 
+        : (subscription.customer as any)?.id;
 
-        if (!isDeviceSlot && customerId) {
-          try {
-            const customer = await stripe.customers.retrieve(customerId);
-            const customerEmail = (customer as any).email;
-            const customerName = (customer as any).name;
+      // Skip device slot subscriptions - they're handled separately
+      const DEVICE_SLOT_PRICES = [
+        "price_1SfhoMJrU52a7SNLpLI3yoEl", // monthly device slot
+        "price_1Sj2PMJrU52a7SNLzhpFYfJd", // yearly device slot
+      ];
+      const priceId = subscription.items?.data?.[0]?.price?.id;
+      const isDeviceSlot = DEVICE_SLOT_PRICES.includes(priceId || '');
 
-            if (customerEmail) {
-              // Check if this is a first subscription by looking at local database
-              let isFirstSubscription = true;
-              if (userId) {
-                const { data: existingSub } = await supabaseAdmin
-                  .from("subscriptions")
-                  .select("status")
-                  .eq("user_id", userId)
-                  .maybeSingle();
-                
-                // If user already has an active subscription, this is not the first
-                isFirstSubscription = !existingSub || existingSub.status === "trialing";
-              }
+      if (!isDeviceSlot && customerId) {
+        try {
+          const customer = await stripe.customers.retrieve(customerId);
+          const customerEmail = (customer as any).email;
+          const customerName = (customer as any).name;
 
-              // Check if an email was already sent via invoice.paid
-              // We use a flag in activity_logs to prevent duplicate emails
-              const emailLockType = "subscription_email_sent";
-              const { data: alreadySent } = await supabaseAdmin
-                .from("activity_logs")
-                .select("id")
-                .eq("event_type", emailLockType)
-                .contains("event_details", { subscriptionId: subscription.id })
+          if (customerEmail) {
+            // Check if this is a first subscription by looking at local database
+            let isFirstSubscription = true;
+            if (userId) {
+              const { data: existingSub } = await supabaseAdmin
+                .from("subscriptions")
+                .select("status")
+                .eq("user_id", userId)
                 .maybeSingle();
+              
+              // If user already has an active subscription, this is not the first
+              isFirstSubscription = !existingSub || existingSub.status === "trialing";
+            }
 
-              if (!alreadySent) {
-                const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
-                const periodEnd = new Date(subscription.current_period_end * 1000);
-
-                // Send subscription confirmation email
-                await sendSubscriptionConfirmationEmail(
-                  customerEmail,
-                  customerName,
-                  planType,
-                  periodEnd
-                );
-                logStep("Subscription confirmation email sent (from subscription.created)", { email: customerEmail });
-
-                // Send owner notification
-                const amount = subscription.items?.data?.[0]?.price?.unit_amount || 0;
-                const currency = subscription.items?.data?.[0]?.price?.currency || 'eur';
-                await sendOwnerPurchaseNotificationEmail(
-                  customerEmail,
-                  customerName,
-                  planType,
-                  amount, // Could be 0 for 100% discount
-                  currency,
-                  isFirstSubscription,
-                  false,
-                  0
-                );
-
-                // Mark email as sent to prevent duplicates
-                if (userId) {
-                  await supabaseAdmin.from("activity_logs").insert({
-                    user_id: userId,
-                    user_email: customerEmail,
-                    event_type: emailLockType,
-                    event_message: "Subscription confirmation email sent",
-                    event_details: { subscriptionId: subscription.id },
-                  });
-                }
+            // Check if an email was already sent via invoice.paid
+            const emailEffect = `subscription_email:${subscription.id}`;
+            if (!(await effects.has(emailEffect))) {
+              const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
+              const periodEnd = new Date(subscription.current_period_end * 1000);
 
-                // Update local subscription if we have userId
-                if (userId) {
-                  const { error: upsertError } = await supabaseAdmin
-                    .from("subscriptions")
-                    .upsert({
-                      user_id: userId,
-                      stripe_customer_id: customerId,
-                      stripe_subscription_id: subscription.id,
-                      status: "active",
-                      plan_type: planType,
-                      current_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
-                      current_period_end: periodEnd.toISOString(),
-                      updated_at: new Date().toISOString(),
-                    }, { onConflict: "user_id" });
-
-                  if (upsertError) {
-                    logStep("Error updating subscription from subscription.created", { error: upsertError.message });
-                  } else {
-                    logStep("Subscription activated from subscription.created", { userId, planType });
-                  }
+              // Send subscription confirmation email
+              await sendSubscriptionConfirmationEmail(
+                supabaseAdmin,
+                customerEmail,
+                customerName,
+                planType,
+                periodEnd,
+                userId
+              );
+              logStep("Subscription confirmation email sent (from subscription.created)", { email: customerEmail });
+
+              // Send owner notification
+              const amount = subscription.items?.data?.[0]?.price?.unit_amount || 0;
+              const currency = subscription.items?.data?.[0]?.price?.currency || 'eur';
+              await sendOwnerPurchaseNotificationEmail(
+                customerEmail,
+                customerName,
+                planType,
+                amount, // Could be 0 for 100% discount
+                currency,
+                isFirstSubscription,
+                false,
+                0
+              );
+
+              // Mark email as sent to prevent duplicates
+              await effects.record(emailEffect);
+
+              // Update local subscription if we have userId
+              if (userId) {
+                const { error: upsertError } = await supabaseAdmin
+                  .from("subscriptions")
+                  .upsert({
+                    user_id: userId,
+                    stripe_customer_id: customerId,
+                    stripe_subscription_id: subscription.id,
+                    status: "active",
+                    plan_type: planType,
+                    current_period_start: new Date(subscription.current_period_start * 1000).toISOString(),
+                    current_period_end: periodEnd.toISOString(),
+                    updated_at: new Date().toISOString(),
+                  }, { onConflict: "user_id" });
+
+                if (upsertError) {
+                  logStep("Error updating subscription from subscription.created", { error: upsertError.message });
+                } else {
+                  logStep("Subscription activated from subscription.created", { userId, planType });
                 }
-              } else {
-                logStep("Skipping duplicate email - already sent via invoice.paid", { subscriptionId: subscription.id });
               }
+            } else {
+              logStep("Skipping duplicate email - already sent via invoice.paid", { subscriptionId: subscription.id });
             }
-          } catch (e) {
-            logStep("Error handling subscription.created", { error: String(e) });
           }
+        } catch (e) {
+          logStep("Error handling subscription.created", { error: String(e) });
         }
       }
     }
+  }
 
-    if (event.type === "customer.subscription.deleted") {
-      const subscription = event.data.object as Stripe.Subscription;
-      logStep("Subscription deleted", { subscriptionId: subscription.id });
+  if (event.type === "customer.subscription.deleted") {
+    const subscription = event.data.object as Stripe.Subscription;
+    logStep("Subscription deleted", { subscriptionId: subscription.id });
 
-      // Check if this is a device-slot-only subscription (legacy) or main subscription
-      // With line items approach, main subscription includes device slots, so when it's deleted,
-      // device slots are automatically removed too
-      const subscriptionItems = subscription.items?.data || [];
-      const hasOnlyDeviceSlots = subscriptionItems.every((item: any) => 
-        DEVICE_SLOT_PRICES.includes(item.price?.id || '')
-      );
+    // Check if this is a device-slot-only subscription (legacy) or main subscription
+    // With line items approach, main subscription includes device slots, so when it's deleted,
+    // device slots are automatically removed too
+    const subscriptionItems = subscription.items?.data || [];
+    const hasOnlyDeviceSlots = subscriptionItems.every((item: any) => 
+      DEVICE_SLOT_PRICES.includes(item.price?.id || '')
+    );
 
-      const userId = subscription.metadata?.user_id;
-      const customerId = typeof subscription.customer === 'string' ? subscription.customer : (subscription.customer as any)?.id;
-      
-      if (userId) {
-        // Only update main subscription status if this isn't a device-slot-only subscription
-        if (!hasOnlyDeviceSlots) {
-          await supabaseAdmin
-            .from("subscriptions")
-            .update({ 
-              status: "canceled",
-              device_slots: 1, // Reset to base slot when subscription is canceled
-              updated_at: new Date().toISOString()
-            })
-            .eq("user_id", userId);
-
-          logStep("Subscription marked as canceled", { userId });
-        } else {
-          // Legacy: device-slot-only subscription canceled, sync device slots
-          if (customerId) {
-            await syncDeviceSlotsForUser(supabaseAdmin, userId, stripe, customerId);
-          }
-        }
+    const userId = subscription.metadata?.user_id;
+    const customerId = typeof subscription.customer === 'string' ? subscription.customer : (subscription.customer as any)?.id;
+    
+    if (userId) {
+      // Only update main subscription status if this isn't a device-slot-only subscription
+      if (!hasOnlyDeviceSlots) {
+        await supabaseAdmin
+          .from("subscriptions")
+          .update({ 
+            status: "canceled",
+            device_slots: 1, // Reset to base slot when subscription is canceled
+            updated_at: new Date().toISOString()
+          })
+          .eq("user_id", userId);
 
-        // Log subscription canceled activity
-        const { data: profile } = await supabaseAdmin
-          .from("profiles")
-          .select("email")
-          .eq("user_id", userId)
-          .maybeSingle();
+        logStep("Subscription marked as canceled", { userId });
+      } else {
+        // Legacy: device-slot-only subscription canceled, sync device slots
+        if (customerId) {
+          await syncDeviceSlotsForUser(supabaseAdmin, userId, stripe, customerId);
+        }
+      }
 
-        await supabaseAdmin.from('activity_logs').insert({
-          user_id: userId,
-          user_email: profile?.email || null,
-          event_type: hasOnlyDeviceSlots ? 'device_slot_canceled' : 'subscription_canceled',
-          event_message: hasOnlyDeviceSlots ? 'Device slot canceled' : 'Subscription canceled',
-          event_details: { subscriptionId: subscription.id },
-        });
+      // Log subscription canceled activity
+      const { data: profile } = await supabaseAdmin
+        .from("profiles")
+        .select("email")
+        .eq("user_id", userId)
+        .maybeSingle();
+
+      await supabaseAdmin.from('activity_logs').insert({
+        user_id: userId,
+        user_email: profile?.email || null,
+        event_type: hasOnlyDeviceSlots ? 'device_slot_canceled' : 'subscription_canceled',
+        event_message: hasOnlyDeviceSlots ? 'Device slot canceled' : 'Subscription canceled',
+        event_details: { subscriptionId: subscription.id },
+      });
 
-        // Send churn email for main subscription cancellations (not device slots only)
-        if (!hasOnlyDeviceSlots && profile?.email) {
-          let customerName: string | null = null;
-          
-          if (customerId) {
-            try {
-              const customer = await stripe.customers.retrieve(customerId);
-              customerName = (customer as any).name;
-            } catch (e) {
-              logStep("Could not retrieve customer name", { error: String(e) });
-            }
+      // Send churn email for main subscription cancellations (not device slots only)
+      if (!hasOnlyDeviceSlots && profile?.email) {
+        let customerName: string | null = null;
+        
+        if (customerId) {
+          try {
+            const customer = await stripe.customers.retrieve(customerId);
+            customerName = (customer as any).name;
+          } catch (e) {
+            logStep("Could not retrieve customer name", { error: String(e) });
           }
-          
-          const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
-          await sendSubscriptionEndedEmail(profile.email, customerName, planType);
-          
-          // Send owner notification about the cancellation
-          await sendOwnerCancellationNotificationEmail(profile.email, customerName, planType, false, 0);
         }
         
-        // Send owner notification for legacy device slot subscription cancellations
-        if (hasOnlyDeviceSlots && profile?.email) {
-          let customerName: string | null = null;
-          
-          if (customerId) {
-            try {
-              const customer = await stripe.customers.retrieve(customerId);
-              customerName = (customer as any).name;
-            } catch (e) {
-              logStep("Could not retrieve customer name for device slot", { error: String(e) });
-            }
+        const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
+        await sendSubscriptionEndedEmail(supabaseAdmin, profile.email, customerName, planType, userId);
+        
+        // Send owner notification about the cancellation
+        await sendOwnerCancellationNotificationEmail(profile.email, customerName, planType, false, 0);
+      }
+      
+      // Send owner notification for legacy device slot subscription cancellations
+      if (hasOnlyDeviceSlots && profile?.email) {
+        let customerName: string | null = null;
+        
+        if (customerId) {
+          try {
+            const customer = await stripe.customers.retrieve(customerId);
+            customerName = (customer as any).name;
+          } catch (e) {
+            logStep("Could not retrieve customer name for device slot", { error: String(e) });
           }
-          
-          const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
-          const quantity = subscription.items?.data?.[0]?.quantity || 1;
-          await sendOwnerCancellationNotificationEmail(profile.email, customerName, planType, true, quantity);
         }
+        
+        const planType = subscription.items?.data?.[0]?.price?.recurring?.interval === 'year' ? 'yearly' : 'monthly';
+        const quantity = subscription.items?.data?.[0]?.quantity || 1;
+        await sendOwnerCancellationNotificationEmail(profile.email, customerName, planType, true, quantity);
       }
     }
+  }
+}
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Webhook received");
+
+    const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+      apiVersion: "2025-08-27.basil",
+    });
+
+    // Create admin Supabase client
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    const signature = req.headers.get("stripe-signature");
+    if (!signature) {
+      if (req.headers.get("Authorization")) return await handleReplay(req, supabaseAdmin, stripe);
+      logStep("ERROR: No signature");
+      return new Response(null, { status: 400 });
+    }
+
+    const body = await req.text();
+    const webhookSecret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+    
+    if (!webhookSecret) {
+      logStep("ERROR: No webhook secret configured");
+      return new Response(null, { status: 500 });
+    }
+
+    let event: Stripe.Event;
+    try {
+      event = await stripe.webhooks.constructEventAsync(body, signature, webhookSecret);
+    } catch (err: any) {
+      logStep("ERROR: Signature verification failed", { error: err.message });
+      return new Response(null, { status: 400 });
+    }
+
+    logStep("Event verified", { type: event.type, eventId: event.id });
+
+    // 409 makes Stripe retry later, by when the other invocation has finished (or gone stale)
+    const result = await processEvent(supabaseAdmin, stripe, event);
+    if (result === "busy") return new Response(null, { status: 409 });
 
     return new Response(JSON.stringify({ received: true }), {
       headers: { "Content-Type": "application/json" },
@@ -0,0 +1,78 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import Stripe from "https://esm.sh/stripe@18.5.0";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { saveBillingProfile, syncBillingProfileToStripe, type BillingProfileInput } from "../_shared/billingProfile.ts";
+import { resolveAccountUser } from "../_shared/organizations.ts";
+
+// Save the account's billing details (Profile > Billing details): validates the VAT ID with VIES,
+// works out the tax treatment and updates the Stripe customer, if there is one yet.
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const logStep = (step: string, details?: Record<string, unknown>) => {
+  console.log(`[UPDATE-BILLING-PROFILE] ${step}`, details ? JSON.stringify(details) : '');
+};
+
+const jsonResponse = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  const authHeader = req.headers.get("Authorization");
+  if (!authHeader) return jsonResponse({ error: "No authorization header" }, 401);
+
+  const supabaseAdmin = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  try {
+    const { data: userData, error: userError } = await supabaseAdmin.auth.getUser(authHeader.replace("Bearer ", ""));
+    if (userError || !userData.user?.email) return jsonResponse({ error: "User not authenticated" }, 401);
+
+    const { organizationId, ...input }: BillingProfileInput & { organizationId?: string } = await req.json();
+    // Billing members of an organization edit the owner's billing details
+    const user = await resolveAccountUser(supabaseAdmin, userData.user, organizationId, ["owner", "billing"]);
+
+    const { profile, error } = await saveBillingProfile(supabaseAdmin, user.id, input);
+    if (error || !profile) return jsonResponse({ error }, 400);
+    logStep("Saved billing profile", { userId: user.id, vatIdStatus: profile.vat_id_status, taxTreatment: profile.tax_treatment });
+
+    // Customers are created at checkout; until then the profile is applied when they are
+    const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
+      apiVersion: "2025-08-27.basil",
+    });
+
+    const { data: subscription } = await supabaseAdmin
+      .from("subscriptions")
+      .select("stripe_customer_id")
+      .eq("user_id", user.id)
+      .maybeSingle();
+
+    let customerId = subscription?.stripe_customer_id ?? null;
+    if (!customerId) {
+      const customers = await stripe.customers.list({ email: user.email, limit: 1 });
+      customerId = customers.data[0]?.id ?? null;
+    }
+
+    if (customerId) {
+      await syncBillingProfileToStripe(stripe, customerId, profile);
+    }
+
+    return jsonResponse({ profile });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+    return jsonResponse({ error: errorMessage }, 500);
+  }
+});
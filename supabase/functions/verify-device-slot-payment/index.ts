@@ -1,6 +1,7 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
+import { getOwnedOrganizationId, resolveAccountUser } from "../_shared/organizations.ts";
 
 const ALLOWED_ORIGINS = [
   "https://ambian.lovable.app",
@@ -53,9 +54,8 @@ serve(async (req) => {
     const token = authHeader.replace("Bearer ", "");
     const { data: userData, error: userError } = await supabaseClient.auth.getUser(token);
     if (userError) throw new Error(`Auth error: ${userError.message}`);
-    const user = userData.user;
-    if (!user?.email) throw new Error("User not authenticated");
-    logStep("User authenticated", { userId: user.id, email: user.email });
+    if (!userData.user?.email) throw new Error("User not authenticated");
+    logStep("User authenticated", { userId: userData.user.id, email: userData.user.email });
 
     const { sessionId } = await req.json();
     if (!sessionId) {
@@ -80,6 +80,16 @@ serve(async (req) => {
       throw new Error("Payment not completed");
     }
 
+    // Billing members of an organization buy slots for the owner's account, which the checkout was made for
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    );
+    const accountOrganizationId = session.metadata?.user_id
+      ? await getOwnedOrganizationId(supabaseAdmin, session.metadata.user_id)
+      : null;
+    const user = await resolveAccountUser(supabaseAdmin, userData.user, accountOrganizationId, ["owner", "billing"]);
+
     // Verify this session belongs to the current user
     if (session.metadata?.user_id !== user.id) {
       throw new Error("Session does not belong to current user");
@@ -93,12 +103,6 @@ serve(async (req) => {
     const quantity = parseInt(session.metadata?.quantity || "1", 10);
     logStep("Payment verified", { quantity });
 
-    // Update local device slots
-    const supabaseAdmin = createClient(
-      Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
-    );
-
     // Get current device slots
     const { data: currentSub, error: fetchError } = await supabaseAdmin
       .from("subscriptions")
@@ -2,6 +2,7 @@ import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import Stripe from "https://esm.sh/stripe@18.5.0";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.57.2";
 import { getAllDeviceSlotPriceIds } from "../_shared/pricing.ts";
+import { getOwnedOrganizationId, resolveAccountUser } from "../_shared/organizations.ts";
 
 const ALLOWED_ORIGINS = [
   "https://ambian.lovable.app",
@@ -61,9 +62,14 @@ serve(async (req) => {
 
     const { data: userData, error: userError } = await supabaseClient.auth.getUser();
     if (userError) throw new Error(`Auth error: ${userError.message}`);
-    const user = userData.user;
-    if (!user?.email) throw new Error("User not authenticated");
-    logStep("User authenticated", { userId: user.id, email: user.email });
+    if (!userData.user?.email) throw new Error("User not authenticated");
+    logStep("User authenticated", { userId: userData.user.id, email: userData.user.email });
+
+    const supabaseAdmin = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
 
     const stripe = new Stripe(Deno.env.get("STRIPE_SECRET_KEY") || "", {
       apiVersion: "2025-08-27.basil",
@@ -82,6 +88,12 @@ serve(async (req) => {
       throw new Error("Payment not completed");
     }
 
+    // Billing members of an organization pay for the owner's account, which the checkout was made for
+    const accountOrganizationId = session.metadata?.user_id
+      ? await getOwnedOrganizationId(supabaseAdmin, session.metadata.user_id)
+      : null;
+    const user = await resolveAccountUser(supabaseAdmin, userData.user, accountOrganizationId, ["owner", "billing"]);
+
     // Verify this session belongs to the current user
     if (session.metadata?.user_id !== user.id) {
       throw new Error("Session does not belong to current user");
@@ -91,7 +103,7 @@ serve(async (req) => {
     const now = new Date();
     
     // Check if user has existing access and extend it
-    const { data: existingSub } = await supabaseClient
+    const { data: existingSub } = await supabaseAdmin
       .from("subscriptions")
       .select("current_period_end")
       .eq("user_id", user.id)
@@ -131,7 +143,7 @@ serve(async (req) => {
     const customerId = session.customer as string;
 
     // Update subscription in database
-    const { error: upsertError } = await supabaseClient
+    const { error: upsertError } = await supabaseAdmin
       .from("subscriptions")
       .upsert({
         user_id: user.id,
@@ -0,0 +1,60 @@
+-- Add calendar date rules to playlist schedules
+-- valid_from/valid_until limit a schedule to a date range (e.g. Christmas music Dec 1-26).
+-- Schedules with a date range are "dated" and win over recurring weekly schedules.
+ALTER TABLE public.playlist_schedules
+ADD COLUMN valid_from date,
+ADD COLUMN valid_until date,
+ADD COLUMN skip_dates date[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.playlist_schedules
+ADD CONSTRAINT playlist_schedules_valid_range_check
+CHECK (valid_from IS NULL OR valid_until IS NULL OR valid_from <= valid_until);
+
+-- Create schedule_exceptions table for one-off per-date overrides
+-- playlist_id NULL means the venue is closed and no music should play
+CREATE TABLE public.schedule_exceptions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  exception_date date NOT NULL,
+  name text,
+  playlist_id uuid REFERENCES public.playlists(id) ON DELETE CASCADE,
+  start_time time, -- NULL start/end = the whole day
+  end_time time,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.schedule_exceptions ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own exceptions
+CREATE POLICY "Users can view own schedule exceptions"
+ON public.schedule_exceptions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Users can create their own exceptions
+CREATE POLICY "Users can create own schedule exceptions"
+ON public.schedule_exceptions
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own exceptions
+CREATE POLICY "Users can update own schedule exceptions"
+ON public.schedule_exceptions
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Users can delete their own exceptions
+CREATE POLICY "Users can delete own schedule exceptions"
+ON public.schedule_exceptions
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_schedule_exceptions_user_date ON public.schedule_exceptions(user_id, exception_date);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_schedule_exceptions_updated_at
+BEFORE UPDATE ON public.schedule_exceptions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,8 @@
+-- Add IANA timezone to schedules and exceptions so start/end times are evaluated
+-- in the venue's local time instead of the playing device's clock.
+-- NULL keeps the previous behaviour (device local time) for existing rows.
+ALTER TABLE public.playlist_schedules
+ADD COLUMN timezone text;
+
+ALTER TABLE public.schedule_exceptions
+ADD COLUMN timezone text;
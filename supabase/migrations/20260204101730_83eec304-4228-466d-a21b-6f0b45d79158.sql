@@ -0,0 +1,56 @@
+-- Create locations table so one account can run several zones (e.g. bar, terrace)
+-- each with its own playlist schedules
+CREATE TABLE public.locations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  timezone text, -- Default timezone for new schedules in this zone
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.locations ENABLE ROW LEVEL SECURITY;
+
+-- Users can view their own locations
+CREATE POLICY "Users can view own locations"
+ON public.locations
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Users can create their own locations
+CREATE POLICY "Users can create own locations"
+ON public.locations
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Users can update their own locations
+CREATE POLICY "Users can update own locations"
+ON public.locations
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Users can delete their own locations
+CREATE POLICY "Users can delete own locations"
+ON public.locations
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_locations_user_id ON public.locations(user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_locations_updated_at
+BEFORE UPDATE ON public.locations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Device sessions can be assigned to a zone; unassigned devices only follow account-wide schedules
+ALTER TABLE public.active_sessions
+ADD COLUMN location_id uuid REFERENCES public.locations(id) ON DELETE SET NULL;
+
+-- Schedules and exceptions can be scoped to a zone; NULL = all zones
+ALTER TABLE public.playlist_schedules
+ADD COLUMN location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE;
+
+ALTER TABLE public.schedule_exceptions
+ADD COLUMN location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE;
@@ -0,0 +1,44 @@
+-- Create device_commands table for remote control of a user's devices
+-- Each row targets one device by its active_sessions.session_id; the device applies it via realtime
+CREATE TABLE public.device_commands (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  session_id text NOT NULL,
+  command text NOT NULL CHECK (command IN ('play', 'pause', 'next', 'volume', 'playlist')),
+  payload jsonb, -- { volume: 0-100 } or { playlistId }
+  sent_from text, -- session_id of the controlling device
+  processed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.device_commands ENABLE ROW LEVEL SECURITY;
+
+-- Users can view commands for their own devices
+CREATE POLICY "Users can view own device commands"
+ON public.device_commands
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Users can send commands to their own devices
+CREATE POLICY "Users can create own device commands"
+ON public.device_commands
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+-- Devices mark commands as processed
+CREATE POLICY "Users can update own device commands"
+ON public.device_commands
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+-- Users can delete their own device commands
+CREATE POLICY "Users can delete own device commands"
+ON public.device_commands
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_device_commands_session ON public.device_commands(session_id, created_at);
+
+-- Enable realtime so devices receive commands immediately
+ALTER PUBLICATION supabase_realtime ADD TABLE public.device_commands;
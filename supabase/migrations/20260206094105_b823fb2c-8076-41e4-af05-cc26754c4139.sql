@@ -0,0 +1,16 @@
+-- Playback heartbeat on device sessions so HQ can see whether each venue is actually playing
+-- last_playing_at is the last heartbeat at which the device was playing (basis for "silent for N minutes")
+ALTER TABLE public.active_sessions
+ADD COLUMN current_track_id uuid REFERENCES public.tracks(id) ON DELETE SET NULL,
+ADD COLUMN current_playlist_id uuid REFERENCES public.playlists(id) ON DELETE SET NULL,
+ADD COLUMN is_playing boolean NOT NULL DEFAULT false,
+ADD COLUMN volume smallint CHECK (volume BETWEEN 0 AND 100),
+ADD COLUMN last_error text,
+ADD COLUMN last_error_at timestamp with time zone,
+ADD COLUMN last_playing_at timestamp with time zone;
+
+-- Admins can view all device sessions (UserManager playback overview)
+CREATE POLICY "Admins can view all sessions"
+ON public.active_sessions
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
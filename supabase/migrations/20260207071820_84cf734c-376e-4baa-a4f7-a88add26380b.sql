@@ -0,0 +1,27 @@
+-- Silence alerts: email the account owner when a device that should be playing has stopped
+-- Quiet hours are wall-clock times in silence_alert_timezone; overnight windows (e.g. 22:00-07:00) are allowed.
+ALTER TABLE public.profiles
+ADD COLUMN silence_alerts_enabled boolean NOT NULL DEFAULT false,
+ADD COLUMN silence_alert_quiet_start time,
+ADD COLUMN silence_alert_quiet_end time,
+ADD COLUMN silence_alert_timezone text;
+
+-- When the last alert for a session was sent; a new alert is only sent after the device has played again
+ALTER TABLE public.active_sessions
+ADD COLUMN silence_alerted_at timestamp with time zone;
+
+-- Check for silent devices every 5 minutes
+SELECT cron.schedule(
+  'send-silence-alerts',
+  '*/5 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://hjecjqyonxvrrvprbvgr.supabase.co/functions/v1/send-silence-alerts',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || current_setting('app.settings.service_role_key', true)
+    ),
+    body := '{}'::jsonb
+  ) AS request_id;
+  $$
+);
@@ -0,0 +1,4 @@
+-- Integrated loudness per track (LUFS, ITU-R BS.1770) for loudness normalization in the player
+-- NULL = not measured yet; measured on upload in the playlist editor or by the admin backfill
+ALTER TABLE public.tracks
+ADD COLUMN loudness_lufs real;
@@ -0,0 +1,4 @@
+-- Crossfade settings per account: fade length in seconds (0 = no overlap) and fade shape
+ALTER TABLE public.profiles
+ADD COLUMN crossfade_duration_seconds real NOT NULL DEFAULT 5 CHECK (crossfade_duration_seconds >= 0 AND crossfade_duration_seconds <= 15),
+ADD COLUMN crossfade_curve text NOT NULL DEFAULT 's_curve' CHECK (crossfade_curve IN ('linear', 'equal_power', 's_curve'));
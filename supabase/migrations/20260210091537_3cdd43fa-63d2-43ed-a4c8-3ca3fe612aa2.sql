@@ -0,0 +1,5 @@
+-- Cue points from silence detection: where the audible part of a track starts and ends (seconds).
+-- Crossfades start the next track at its cue-in and fade out ahead of the current track's cue-out.
+ALTER TABLE public.tracks
+ADD COLUMN cue_in_seconds real,
+ADD COLUMN cue_out_seconds real;
@@ -0,0 +1,80 @@
+-- Weighted playlist blends (e.g. 60% Lounge, 30% Jazz, 10% Bossa), saved per user and schedulable
+CREATE TABLE public.playlist_blends (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Playlists in a blend and their relative weights
+CREATE TABLE public.playlist_blend_playlists (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  blend_id uuid NOT NULL REFERENCES public.playlist_blends(id) ON DELETE CASCADE,
+  playlist_id uuid NOT NULL REFERENCES public.playlists(id) ON DELETE CASCADE,
+  weight integer NOT NULL DEFAULT 1 CHECK (weight > 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (blend_id, playlist_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.playlist_blends ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.playlist_blend_playlists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own playlist blends"
+ON public.playlist_blends
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own playlist blends"
+ON public.playlist_blends
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own playlist blends"
+ON public.playlist_blends
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own playlist blends"
+ON public.playlist_blends
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can manage own playlist blend playlists"
+ON public.playlist_blend_playlists
+FOR ALL
+USING (
+  EXISTS (
+    SELECT 1 FROM public.playlist_blends
+    WHERE playlist_blends.id = playlist_blend_playlists.blend_id
+    AND playlist_blends.user_id = auth.uid()
+  )
+)
+WITH CHECK (
+  EXISTS (
+    SELECT 1 FROM public.playlist_blends
+    WHERE playlist_blends.id = playlist_blend_playlists.blend_id
+    AND playlist_blends.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_playlist_blends_user ON public.playlist_blends(user_id);
+CREATE INDEX idx_playlist_blend_playlists_blend ON public.playlist_blend_playlists(blend_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_playlist_blends_updated_at
+BEFORE UPDATE ON public.playlist_blends
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Schedules and exceptions can play a blend instead of a single playlist.
+-- A schedule plays exactly one of the two; an exception with neither means closed.
+ALTER TABLE public.playlist_schedules
+ALTER COLUMN playlist_id DROP NOT NULL,
+ADD COLUMN blend_id uuid REFERENCES public.playlist_blends(id) ON DELETE CASCADE,
+ADD CONSTRAINT playlist_schedules_source_check CHECK ((playlist_id IS NULL) <> (blend_id IS NULL));
+
+ALTER TABLE public.schedule_exceptions
+ADD COLUMN blend_id uuid REFERENCES public.playlist_blends(id) ON DELETE CASCADE,
+ADD CONSTRAINT schedule_exceptions_source_check CHECK (playlist_id IS NULL OR blend_id IS NULL);
@@ -0,0 +1,12 @@
+-- Audio features estimated on upload (or by the admin backfill) for energy-based day-parting:
+-- tempo in BPM, energy and valence on a 0-1 scale
+ALTER TABLE public.tracks
+ADD COLUMN bpm real,
+ADD COLUMN energy real CHECK (energy >= 0 AND energy <= 1),
+ADD COLUMN valence real CHECK (valence >= 0 AND valence <= 1);
+
+-- Dynamic schedules pick tracks from their playlist (or blend) to follow an energy curve over the day.
+-- energy_curve: [{"time": "HH:MM", "energy": 0-1}, ...], interpolated between points
+ALTER TABLE public.playlist_schedules
+ADD COLUMN schedule_type text NOT NULL DEFAULT 'fixed' CHECK (schedule_type IN ('fixed', 'dynamic')),
+ADD COLUMN energy_curve jsonb;
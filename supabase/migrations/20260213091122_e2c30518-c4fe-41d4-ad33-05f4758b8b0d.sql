@@ -0,0 +1,106 @@
+-- Announcements: short pre-recorded clips ("Store closes in 15 minutes", promotions) spliced into playback
+CREATE TABLE public.announcements (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  audio_path text NOT NULL, -- Object path in the announcements bucket ({user_id}/...)
+  duration_seconds real,
+  loudness_lufs real, -- Integrated loudness, so clips play at the same level as normalized music
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- When an announcement plays: at clock times or every N tracks, either between tracks or over ducked music
+CREATE TABLE public.announcement_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  announcement_id uuid NOT NULL REFERENCES public.announcements(id) ON DELETE CASCADE,
+  trigger_type text NOT NULL CHECK (trigger_type IN ('clock', 'every_n_tracks')),
+  clock_times text[] NOT NULL DEFAULT '{}', -- HH:MM wall-clock times in the rule's timezone
+  days_of_week integer[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}', -- 0=Sunday, 6=Saturday
+  every_n_tracks integer CHECK (every_n_tracks IS NULL OR every_n_tracks > 0),
+  playback_mode text NOT NULL DEFAULT 'insert' CHECK (playback_mode IN ('insert', 'duck')),
+  timezone text, -- IANA timezone for clock times (device local time when NULL)
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT announcement_rules_trigger_check CHECK (
+    (trigger_type = 'clock' AND cardinality(clock_times) > 0) OR
+    (trigger_type = 'every_n_tracks' AND every_n_tracks IS NOT NULL)
+  )
+);
+
+-- Enable RLS
+ALTER TABLE public.announcements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.announcement_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own announcements"
+ON public.announcements
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own announcements"
+ON public.announcements
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own announcements"
+ON public.announcements
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own announcements"
+ON public.announcements
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own announcement rules"
+ON public.announcement_rules
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own announcement rules"
+ON public.announcement_rules
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own announcement rules"
+ON public.announcement_rules
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own announcement rules"
+ON public.announcement_rules
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_announcements_user ON public.announcements(user_id);
+CREATE INDEX idx_announcement_rules_user ON public.announcement_rules(user_id);
+
+-- Triggers for updated_at
+CREATE TRIGGER update_announcements_updated_at
+BEFORE UPDATE ON public.announcements
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_announcement_rules_updated_at
+BEFORE UPDATE ON public.announcement_rules
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Private bucket for announcement clips; each user reads and writes only their own folder
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('announcements', 'announcements', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can view own announcement clips"
+ON storage.objects FOR SELECT TO authenticated
+USING (bucket_id = 'announcements' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can upload own announcement clips"
+ON storage.objects FOR INSERT TO authenticated
+WITH CHECK (bucket_id = 'announcements' AND (storage.foldername(name))[1] = auth.uid()::text);
+
+CREATE POLICY "Users can delete own announcement clips"
+ON storage.objects FOR DELETE TO authenticated
+USING (bucket_id = 'announcements' AND (storage.foldername(name))[1] = auth.uid()::text);
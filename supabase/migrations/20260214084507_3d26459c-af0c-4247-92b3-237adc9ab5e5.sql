@@ -0,0 +1,51 @@
+-- Scheduled volume levels: a schedule can set the volume while it plays (NULL = leave the volume alone)
+ALTER TABLE public.playlist_schedules
+ADD COLUMN volume integer CHECK (volume IS NULL OR volume BETWEEN 0 AND 100);
+
+-- Standalone volume slots (e.g. quieter over lunch), independent of which playlist plays.
+-- Where a slot and a schedule volume overlap, the slot wins.
+CREATE TABLE public.volume_slots (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  name text,
+  days_of_week integer[] NOT NULL DEFAULT '{0,1,2,3,4,5,6}', -- 0=Sunday, 6=Saturday
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  volume integer NOT NULL CHECK (volume BETWEEN 0 AND 100),
+  timezone text, -- IANA timezone for start/end (device local time when NULL)
+  location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE, -- NULL = all zones
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.volume_slots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own volume slots"
+ON public.volume_slots
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own volume slots"
+ON public.volume_slots
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own volume slots"
+ON public.volume_slots
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own volume slots"
+ON public.volume_slots
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_volume_slots_user ON public.volume_slots(user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_volume_slots_updated_at
+BEFORE UPDATE ON public.volume_slots
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,46 @@
+-- Business opening hours: the player fades out and stops at closing time and starts again at opening time.
+-- Each row is one opening window on some days (e.g. Mon-Fri 09:00-21:00); days without a window are closed.
+-- A zone with its own hours uses only those; other devices use the account's hours (location_id NULL).
+CREATE TABLE public.opening_hours (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  days_of_week integer[] NOT NULL DEFAULT '{1,2,3,4,5}', -- 0=Sunday, 6=Saturday
+  open_time time NOT NULL,
+  close_time time NOT NULL, -- before open_time = closes after midnight
+  timezone text, -- IANA timezone for open/close (device local time when NULL)
+  location_id uuid REFERENCES public.locations(id) ON DELETE CASCADE, -- NULL = the whole account
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT opening_hours_window_check CHECK (open_time <> close_time)
+);
+
+-- Enable RLS
+ALTER TABLE public.opening_hours ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own opening hours"
+ON public.opening_hours
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create own opening hours"
+ON public.opening_hours
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own opening hours"
+ON public.opening_hours
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own opening hours"
+ON public.opening_hours
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_opening_hours_user ON public.opening_hours(user_id);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_opening_hours_updated_at
+BEFORE UPDATE ON public.opening_hours
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
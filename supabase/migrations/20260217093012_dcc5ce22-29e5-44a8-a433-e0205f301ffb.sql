@@ -0,0 +1,84 @@
+-- Schedule templates: a named set of schedules (e.g. a chain's standard week) that can be applied to
+-- the whole account or one zone, replacing the schedules there
+CREATE TABLE public.schedule_templates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL,
+  name text NOT NULL,
+  entries jsonb NOT NULL DEFAULT '[]'::jsonb, -- playlist_schedules rows without id, owner and zone
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Templates admins send to accounts. The account owner reviews what would be replaced and applies or dismisses it.
+CREATE TABLE public.schedule_template_assignments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  template_id uuid NOT NULL REFERENCES public.schedule_templates(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL, -- the account the template was sent to
+  assigned_by uuid NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'applied', 'dismissed')),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (template_id, user_id)
+);
+
+-- Enable RLS
+ALTER TABLE public.schedule_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.schedule_template_assignments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own schedule templates"
+ON public.schedule_templates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view schedule templates sent to them"
+ON public.schedule_templates
+FOR SELECT
+USING (EXISTS (
+  SELECT 1 FROM public.schedule_template_assignments a
+  WHERE a.template_id = schedule_templates.id AND a.user_id = auth.uid()
+));
+
+CREATE POLICY "Users can create own schedule templates"
+ON public.schedule_templates
+FOR INSERT
+WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own schedule templates"
+ON public.schedule_templates
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete own schedule templates"
+ON public.schedule_templates
+FOR DELETE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can view own template assignments"
+ON public.schedule_template_assignments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update own template assignments"
+ON public.schedule_template_assignments
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can manage template assignments"
+ON public.schedule_template_assignments
+FOR ALL
+USING (has_role(auth.uid(), 'admin'::app_role))
+WITH CHECK (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_schedule_templates_user ON public.schedule_templates(user_id);
+CREATE INDEX idx_schedule_template_assignments_user ON public.schedule_template_assignments(user_id);
+
+-- Triggers for updated_at
+CREATE TRIGGER update_schedule_templates_updated_at
+BEFORE UPDATE ON public.schedule_templates
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_schedule_template_assignments_updated_at
+BEFORE UPDATE ON public.schedule_template_assignments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
@@ -0,0 +1,32 @@
+-- Ledger of Stripe webhook events: each event is processed exactly once, and failed ones can be
+-- inspected and replayed by admins (replaces the lock rows the webhook used to write to activity_logs)
+CREATE TABLE public.stripe_events (
+  id text NOT NULL PRIMARY KEY, -- Stripe event id (evt_...)
+  type text NOT NULL,
+  payload jsonb NOT NULL, -- the verified event as Stripe sent it, used for replays
+  status text NOT NULL DEFAULT 'processing' CHECK (status IN ('processing', 'processed', 'failed')),
+  error text,
+  attempts integer NOT NULL DEFAULT 1,
+  -- Side effects that must not happen twice, also across events (e.g. 'subscription_email:sub_123')
+  effects text[] NOT NULL DEFAULT '{}',
+  processed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS (the webhook writes with the service role)
+ALTER TABLE public.stripe_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Admins can view stripe events"
+ON public.stripe_events
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+CREATE INDEX idx_stripe_events_status ON public.stripe_events(status, created_at DESC);
+CREATE INDEX idx_stripe_events_effects ON public.stripe_events USING GIN (effects);
+
+-- Trigger for updated_at
+CREATE TRIGGER update_stripe_events_updated_at
+BEFORE UPDATE ON public.stripe_events
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
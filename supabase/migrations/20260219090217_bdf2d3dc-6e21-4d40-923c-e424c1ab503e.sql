@@ -0,0 +1,38 @@
+-- Company billing details (Profile > Billing details), applied to checkouts, invoices and renewal invoices.
+-- Users read their own row; writes go through the update-billing-profile function, which validates the
+-- VAT ID with VIES and syncs the details to the Stripe customer, so the VAT status can't be set by hand.
+CREATE TABLE public.billing_profiles (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL UNIQUE,
+  company_name text,
+  address_line1 text,
+  postal_code text,
+  city text,
+  country text, -- ISO 3166-1 alpha-2
+  vat_id text, -- normalized, e.g. FI12345678
+  vat_id_status text NOT NULL DEFAULT 'none' CHECK (vat_id_status IN ('none', 'valid', 'invalid', 'unverified')),
+  vat_id_checked_at timestamp with time zone,
+  tax_treatment text NOT NULL DEFAULT 'standard' CHECK (tax_treatment IN ('standard', 'reverse_charge')),
+  invoice_email text, -- invoices are also sent here when it differs from the account email
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Enable RLS
+ALTER TABLE public.billing_profiles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own billing profile"
+ON public.billing_profiles
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Admins can view billing profiles"
+ON public.billing_profiles
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Trigger for updated_at
+CREATE TRIGGER update_billing_profiles_updated_at
+BEFORE UPDATE ON public.billing_profiles
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
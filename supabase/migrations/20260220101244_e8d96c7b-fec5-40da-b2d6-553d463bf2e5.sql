@@ -0,0 +1,386 @@
+-- Organizations: several people sharing one Ambian account (e.g. a restaurant group's owner, finance person
+-- and shift managers), each with their own login and a role:
+--   owner   - everything, including members and billing (exactly one per organization)
+--   billing - subscription, invoices and billing details
+--   manager - schedules and devices
+--   player  - plays music and follows the schedules
+-- Every user gets a personal organization they own. The account's subscription, schedules and devices keep
+-- user_id = the owner and also carry organization_id, which the member policies below check.
+CREATE TYPE public.org_role AS ENUM ('owner', 'billing', 'manager', 'player');
+
+CREATE TABLE public.organizations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  name text NOT NULL,
+  owner_user_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.organization_members (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  email text, -- copied from the profile so members can see who's who
+  role public.org_role NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, user_id)
+);
+
+CREATE UNIQUE INDEX organization_members_one_owner_idx
+ON public.organization_members (organization_id)
+WHERE role = 'owner';
+
+CREATE INDEX organization_members_user_id_idx ON public.organization_members (user_id);
+
+-- Invitations are sent by the invite-organization-member function and accepted when the invitee
+-- signs in with the invited email (accept-organization-invites)
+CREATE TABLE public.organization_invitations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email text NOT NULL, -- lowercase
+  role public.org_role NOT NULL CHECK (role <> 'owner'),
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  expires_at timestamp with time zone NOT NULL DEFAULT (now() + interval '14 days'),
+  accepted_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (organization_id, email)
+);
+
+-- Enable RLS
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+-- Security definer functions to check organization roles without recursing into the policies
+CREATE OR REPLACE FUNCTION public.has_org_role(_user_id uuid, _org_id uuid, _roles public.org_role[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organization_members
+    WHERE user_id = _user_id AND organization_id = _org_id AND role = ANY(_roles)
+  )
+$$;
+
+CREATE OR REPLACE FUNCTION public.organization_owner(_org_id uuid)
+RETURNS uuid
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT owner_user_id FROM public.organizations WHERE id = _org_id
+$$;
+
+-- Organizations policies
+CREATE POLICY "Members can view own organizations"
+ON public.organizations
+FOR SELECT
+USING (public.has_org_role(auth.uid(), id, ARRAY['owner', 'billing', 'manager', 'player']::public.org_role[]));
+
+CREATE POLICY "Owners can update own organization"
+ON public.organizations
+FOR UPDATE
+USING (auth.uid() = owner_user_id)
+WITH CHECK (auth.uid() = owner_user_id);
+
+CREATE POLICY "Admins can view organizations"
+ON public.organizations
+FOR SELECT
+USING (has_role(auth.uid(), 'admin'::app_role));
+
+-- Members policies: the owner manages everyone else; the owner row itself is only written by the functions
+CREATE POLICY "Members can view organization members"
+ON public.organization_members
+FOR SELECT
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'billing', 'manager', 'player']::public.org_role[]));
+
+CREATE POLICY "Owners can update organization members"
+ON public.organization_members
+FOR UPDATE
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner']::public.org_role[]) AND role <> 'owner')
+WITH CHECK (public.has_org_role(auth.uid(), organization_id, ARRAY['owner']::public.org_role[]) AND role <> 'owner');
+
+CREATE POLICY "Owners can remove organization members"
+ON public.organization_members
+FOR DELETE
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner']::public.org_role[]) AND role <> 'owner');
+
+CREATE POLICY "Members can leave organizations"
+ON public.organization_members
+FOR DELETE
+USING (auth.uid() = user_id AND role <> 'owner');
+
+-- Invitations policies
+CREATE POLICY "Owners can view organization invitations"
+ON public.organization_invitations
+FOR SELECT
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner']::public.org_role[]));
+
+CREATE POLICY "Owners can revoke organization invitations"
+ON public.organization_invitations
+FOR DELETE
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner']::public.org_role[]));
+
+-- Triggers for updated_at
+CREATE TRIGGER update_organizations_updated_at
+BEFORE UPDATE ON public.organizations
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_organization_members_updated_at
+BEFORE UPDATE ON public.organization_members
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- The account's data belongs to its organization
+ALTER TABLE public.subscriptions
+ADD COLUMN organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+ALTER TABLE public.playlist_schedules
+ADD COLUMN organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+ALTER TABLE public.schedule_exceptions
+ADD COLUMN organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+-- Devices: user_id is whoever is signed in on the device, organization_id the account it plays for
+ALTER TABLE public.active_sessions
+ADD COLUMN organization_id uuid REFERENCES public.organizations(id) ON DELETE SET NULL;
+
+CREATE INDEX subscriptions_organization_id_idx ON public.subscriptions (organization_id);
+CREATE INDEX playlist_schedules_organization_id_idx ON public.playlist_schedules (organization_id);
+CREATE INDEX schedule_exceptions_organization_id_idx ON public.schedule_exceptions (organization_id);
+CREATE INDEX active_sessions_organization_id_idx ON public.active_sessions (organization_id);
+
+-- Rows written without an organization belong to the organization their user owns,
+-- so existing inserts (checkout, webhooks, the schedule editor) keep working unchanged
+CREATE OR REPLACE FUNCTION public.set_organization_id()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.organization_id IS NULL THEN
+    SELECT id INTO NEW.organization_id FROM public.organizations WHERE owner_user_id = NEW.user_id;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_subscriptions_organization_id
+BEFORE INSERT ON public.subscriptions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_organization_id();
+
+CREATE TRIGGER set_playlist_schedules_organization_id
+BEFORE INSERT ON public.playlist_schedules
+FOR EACH ROW
+EXECUTE FUNCTION public.set_organization_id();
+
+CREATE TRIGGER set_schedule_exceptions_organization_id
+BEFORE INSERT ON public.schedule_exceptions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_organization_id();
+
+CREATE TRIGGER set_active_sessions_organization_id
+BEFORE INSERT ON public.active_sessions
+FOR EACH ROW
+EXECUTE FUNCTION public.set_organization_id();
+
+-- New users get a personal organization
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _full_name text := COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'name', '');
+  _org_id uuid;
+BEGIN
+  INSERT INTO public.profiles (user_id, email, full_name)
+  VALUES (NEW.id, NEW.email, _full_name);
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'user');
+
+  INSERT INTO public.organizations (name, owner_user_id)
+  VALUES (COALESCE(NULLIF(_full_name, ''), NEW.email, 'My organization'), NEW.id)
+  RETURNING id INTO _org_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, email, role)
+  VALUES (_org_id, NEW.id, NEW.email, 'owner');
+
+  RETURN NEW;
+END;
+$$;
+
+-- Personal organizations for existing users, named after their company where we know it
+INSERT INTO public.organizations (name, owner_user_id)
+SELECT COALESCE(NULLIF(b.company_name, ''), NULLIF(p.full_name, ''), p.email, 'My organization'), p.user_id
+FROM public.profiles p
+LEFT JOIN public.billing_profiles b ON b.user_id = p.user_id
+ON CONFLICT (owner_user_id) DO NOTHING;
+
+INSERT INTO public.organization_members (organization_id, user_id, email, role)
+SELECT o.id, o.owner_user_id, p.email, 'owner'
+FROM public.organizations o
+LEFT JOIN public.profiles p ON p.user_id = o.owner_user_id
+ON CONFLICT (organization_id, user_id) DO NOTHING;
+
+UPDATE public.subscriptions t SET organization_id = o.id
+FROM public.organizations o WHERE o.owner_user_id = t.user_id AND t.organization_id IS NULL;
+
+UPDATE public.playlist_schedules t SET organization_id = o.id
+FROM public.organizations o WHERE o.owner_user_id = t.user_id AND t.organization_id IS NULL;
+
+UPDATE public.schedule_exceptions t SET organization_id = o.id
+FROM public.organizations o WHERE o.owner_user_id = t.user_id AND t.organization_id IS NULL;
+
+UPDATE public.active_sessions t SET organization_id = o.id
+FROM public.organizations o WHERE o.owner_user_id = t.user_id AND t.organization_id IS NULL;
+
+-- Members play on their organization's subscription
+CREATE OR REPLACE FUNCTION public.has_active_subscription(_user_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = _user_id AND role = 'admin'
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.subscriptions
+    WHERE user_id = _user_id
+    AND status IN ('active', 'trialing', 'pending_payment')
+    AND (current_period_end IS NULL OR current_period_end > now())
+  )
+  OR EXISTS (
+    SELECT 1 FROM public.organization_members m
+    JOIN public.organizations o ON o.id = m.organization_id
+    JOIN public.subscriptions s ON s.user_id = o.owner_user_id
+    WHERE m.user_id = _user_id
+    AND s.status IN ('active', 'trialing', 'pending_payment')
+    AND (s.current_period_end IS NULL OR s.current_period_end > now())
+  )
+$$;
+
+-- Subscription: owner and billing members
+CREATE POLICY "Billing members can view organization subscription"
+ON public.subscriptions
+FOR SELECT
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'billing']::public.org_role[]));
+
+-- Schedules: managers edit them, players follow them. Rows stay owned by the organization's owner.
+CREATE POLICY "Members can view organization schedules"
+ON public.playlist_schedules
+FOR SELECT
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager', 'player']::public.org_role[]));
+
+CREATE POLICY "Managers can manage organization schedules"
+ON public.playlist_schedules
+FOR ALL
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager']::public.org_role[]))
+WITH CHECK (
+  public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager']::public.org_role[])
+  AND user_id = public.organization_owner(organization_id)
+);
+
+CREATE POLICY "Members can view organization schedule exceptions"
+ON public.schedule_exceptions
+FOR SELECT
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager', 'player']::public.org_role[]));
+
+CREATE POLICY "Managers can manage organization schedule exceptions"
+ON public.schedule_exceptions
+FOR ALL
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager']::public.org_role[]))
+WITH CHECK (
+  public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager']::public.org_role[])
+  AND user_id = public.organization_owner(organization_id)
+);
+
+-- Devices: managers see and control all of the organization's devices
+CREATE POLICY "Managers can view organization devices"
+ON public.active_sessions
+FOR SELECT
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager']::public.org_role[]));
+
+CREATE POLICY "Managers can update organization devices"
+ON public.active_sessions
+FOR UPDATE
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager']::public.org_role[]));
+
+CREATE POLICY "Managers can remove organization devices"
+ON public.active_sessions
+FOR DELETE
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager']::public.org_role[]));
+
+-- Account data without an organization_id (zones, volume, opening hours, own playlists) stays keyed by the
+-- owner's user_id; members need to read it to play the account's schedules
+CREATE OR REPLACE FUNCTION public.is_account_member(_user_id uuid, _account_user_id uuid, _roles public.org_role[])
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.organizations o
+    JOIN public.organization_members m ON m.organization_id = o.id
+    WHERE o.owner_user_id = _account_user_id
+      AND m.user_id = _user_id
+      AND m.role = ANY(_roles)
+  )
+$$;
+
+CREATE POLICY "Members can view organization locations"
+ON public.locations
+FOR SELECT
+USING (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'manager', 'player']::public.org_role[]));
+
+CREATE POLICY "Managers can manage organization locations"
+ON public.locations
+FOR ALL
+USING (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'manager']::public.org_role[]))
+WITH CHECK (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'manager']::public.org_role[]));
+
+CREATE POLICY "Members can view organization volume slots"
+ON public.volume_slots
+FOR SELECT
+USING (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'manager', 'player']::public.org_role[]));
+
+CREATE POLICY "Members can view organization opening hours"
+ON public.opening_hours
+FOR SELECT
+USING (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'manager', 'player']::public.org_role[]));
+
+CREATE POLICY "Members can view organization playlists"
+ON public.playlists
+FOR SELECT
+USING (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'manager', 'player']::public.org_role[]));
+
+CREATE POLICY "Members can view organization playlist blends"
+ON public.playlist_blends
+FOR SELECT
+USING (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'manager', 'player']::public.org_role[]));
+
+CREATE POLICY "Members can view organization playlist blend playlists"
+ON public.playlist_blend_playlists
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.playlist_blends
+    WHERE playlist_blends.id = playlist_blend_playlists.blend_id
+    AND public.is_account_member(auth.uid(), playlist_blends.user_id, ARRAY['owner', 'manager', 'player']::public.org_role[])
+  )
+);
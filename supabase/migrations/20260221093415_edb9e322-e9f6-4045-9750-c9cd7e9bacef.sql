@@ -0,0 +1,64 @@
+-- Paired devices: shop-floor tablets that join an organization with a short code instead of the owner's
+-- email/password. The create-pairing-code function adds a row with a code; pair-device claims it, creating
+-- a login for the device (app_metadata.paired_device = true) that is a player-only member of the
+-- organization. revoke-paired-device deletes that login, which signs the device out.
+CREATE TABLE public.paired_devices (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  user_id uuid UNIQUE REFERENCES auth.users(id) ON DELETE SET NULL, -- the device's login, set when paired
+  pairing_code text UNIQUE, -- cleared once paired
+  code_expires_at timestamp with time zone,
+  created_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  paired_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX paired_devices_organization_id_idx ON public.paired_devices (organization_id);
+
+-- Enable RLS
+ALTER TABLE public.paired_devices ENABLE ROW LEVEL SECURITY;
+
+-- Codes are created, claimed and revoked through edge functions; managers only need to list them
+CREATE POLICY "Managers can view organization paired devices"
+ON public.paired_devices
+FOR SELECT
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager']::public.org_role[]));
+
+CREATE TRIGGER update_paired_devices_updated_at
+BEFORE UPDATE ON public.paired_devices
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Device logins join the organization that paired them instead of getting one of their own
+CREATE OR REPLACE FUNCTION public.handle_new_user()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  _full_name text := COALESCE(NEW.raw_user_meta_data->>'full_name', NEW.raw_user_meta_data->>'name', '');
+  _org_id uuid;
+BEGIN
+  INSERT INTO public.profiles (user_id, email, full_name)
+  VALUES (NEW.id, NEW.email, _full_name);
+
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'user');
+
+  IF COALESCE((NEW.raw_app_meta_data->>'paired_device')::boolean, false) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.organizations (name, owner_user_id)
+  VALUES (COALESCE(NULLIF(_full_name, ''), NEW.email, 'My organization'), NEW.id)
+  RETURNING id INTO _org_id;
+
+  INSERT INTO public.organization_members (organization_id, user_id, email, role)
+  VALUES (_org_id, NEW.id, NEW.email, 'owner');
+
+  RETURN NEW;
+END;
+$$;
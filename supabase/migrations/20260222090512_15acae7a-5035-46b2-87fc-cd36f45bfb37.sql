@@ -0,0 +1,76 @@
+-- Organization members play the owner's playlists, so they need the tracks too
+CREATE POLICY "Members can view organization playlist tracks"
+ON public.playlist_tracks
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.playlists
+    WHERE playlists.id = playlist_tracks.playlist_id
+      AND public.is_account_member(auth.uid(), playlists.user_id, ARRAY['owner', 'manager', 'player']::public.org_role[])
+  )
+);
+
+-- Managers edit zone volume slots and opening hours like the zones themselves
+CREATE POLICY "Managers can manage organization volume slots"
+ON public.volume_slots
+FOR ALL
+USING (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'manager']::public.org_role[]))
+WITH CHECK (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'manager']::public.org_role[]));
+
+CREATE POLICY "Managers can manage organization opening hours"
+ON public.opening_hours
+FOR ALL
+USING (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'manager']::public.org_role[]))
+WITH CHECK (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'manager']::public.org_role[]));
+
+-- Remote control across the organization: owners and managers send commands to any of its devices,
+-- whoever is signed in on them, and each device receives and acknowledges the commands sent to it
+ALTER TABLE public.device_commands
+ADD COLUMN organization_id uuid REFERENCES public.organizations(id) ON DELETE CASCADE;
+
+CREATE INDEX idx_device_commands_organization ON public.device_commands (organization_id);
+
+CREATE POLICY "Managers can send commands to organization devices"
+ON public.device_commands
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager']::public.org_role[])
+  AND EXISTS (
+    SELECT 1 FROM public.active_sessions
+    WHERE active_sessions.session_id = device_commands.session_id
+      AND active_sessions.organization_id = device_commands.organization_id
+  )
+);
+
+CREATE POLICY "Managers can view organization device commands"
+ON public.device_commands
+FOR SELECT
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager']::public.org_role[]));
+
+CREATE POLICY "Managers can delete organization device commands"
+ON public.device_commands
+FOR DELETE
+USING (public.has_org_role(auth.uid(), organization_id, ARRAY['owner', 'manager']::public.org_role[]));
+
+CREATE POLICY "Devices can view commands sent to them"
+ON public.device_commands
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.active_sessions
+    WHERE active_sessions.session_id = device_commands.session_id
+      AND active_sessions.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Devices can acknowledge commands sent to them"
+ON public.device_commands
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.active_sessions
+    WHERE active_sessions.session_id = device_commands.session_id
+      AND active_sessions.user_id = auth.uid()
+  )
+);
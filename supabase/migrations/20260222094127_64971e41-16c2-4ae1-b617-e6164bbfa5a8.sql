@@ -0,0 +1,5 @@
+-- Billing members keep the owner's billing details up to date, so they need to see them
+CREATE POLICY "Billing members can view organization billing profile"
+ON public.billing_profiles
+FOR SELECT
+USING (public.is_account_member(auth.uid(), user_id, ARRAY['owner', 'billing']::public.org_role[]));
@@ -0,0 +1,45 @@
+-- Session ids are device fingerprints, so devices of different accounts can share one. Commands must stay
+-- within the account they were sent from: users send to their own devices only, and a device only sees
+-- commands sent within the organization its session belongs to
+DROP POLICY IF EXISTS "Users can create own device commands" ON public.device_commands;
+
+CREATE POLICY "Users can create own device commands"
+ON public.device_commands
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.active_sessions
+    WHERE active_sessions.session_id = device_commands.session_id
+      AND active_sessions.user_id = auth.uid()
+      AND active_sessions.organization_id IS NOT DISTINCT FROM device_commands.organization_id
+  )
+);
+
+DROP POLICY IF EXISTS "Devices can view commands sent to them" ON public.device_commands;
+
+CREATE POLICY "Devices can view commands sent to them"
+ON public.device_commands
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.active_sessions
+    WHERE active_sessions.session_id = device_commands.session_id
+      AND active_sessions.user_id = auth.uid()
+      AND active_sessions.organization_id = device_commands.organization_id
+  )
+);
+
+DROP POLICY IF EXISTS "Devices can acknowledge commands sent to them" ON public.device_commands;
+
+CREATE POLICY "Devices can acknowledge commands sent to them"
+ON public.device_commands
+FOR UPDATE
+USING (
+  EXISTS (
+    SELECT 1 FROM public.active_sessions
+    WHERE active_sessions.session_id = device_commands.session_id
+      AND active_sessions.user_id = auth.uid()
+      AND active_sessions.organization_id = device_commands.organization_id
+  )
+);
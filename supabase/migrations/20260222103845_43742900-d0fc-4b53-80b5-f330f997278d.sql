@@ -0,0 +1,4 @@
+-- The scheduler is switched on per device, so each device reports it with its heartbeat.
+-- Silence alerts only watch devices that follow schedules.
+ALTER TABLE public.active_sessions
+ADD COLUMN scheduler_enabled boolean NOT NULL DEFAULT false;
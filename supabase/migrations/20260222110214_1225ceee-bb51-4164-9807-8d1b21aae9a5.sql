@@ -0,0 +1,13 @@
+-- Failed pairing attempts, so pair-device can throttle guesses at its unauthenticated endpoint. Only the
+-- service role reads and writes them
+CREATE TABLE public.pairing_attempts (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  ip_address text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX pairing_attempts_ip_address_created_at_idx ON public.pairing_attempts (ip_address, created_at);
+CREATE INDEX pairing_attempts_created_at_idx ON public.pairing_attempts (created_at);
+
+-- Enable RLS
+ALTER TABLE public.pairing_attempts ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+import path from "path";
+
+// Unit tests for the app and for the edge functions' shared modules (supabase/functions/_shared)
+export default defineConfig({
+  test: {
+    include: ["src/**/*.test.ts", "supabase/functions/**/*.test.ts"],
+  },
+  resolve: {
+    alias: {
+      "@": path.resolve(__dirname, "./src"),
+    },
+  },
+});